@@ -8,6 +8,8 @@ import {
   createKillCommand,
   createWatchCommand,
   createHelpCommand,
+  createSuCommand,
+  createSudoCommand,
   createNodeCommand,
   createCurlCommand,
 } from '@lifo-sh/core';
@@ -32,15 +34,18 @@ class TerminalInstance implements AppInstance {
     bootLifoPackages(this.ctx.kernel.vfs, registry);
 
     const env = this.ctx.kernel.getDefaultEnv();
-    this.shell = new Shell(this.terminal, this.ctx.kernel.vfs, registry, env);
+    this.shell = new Shell(this.terminal, this.ctx.kernel.userVfs(), registry, env, this.ctx.kernel.processes);
 
     const jobTable = this.shell.getJobTable();
-    registry.register('ps', createPsCommand(jobTable));
-    registry.register('top', createTopCommand(jobTable));
-    registry.register('kill', createKillCommand(jobTable));
+    const processes = this.shell.getProcessTable();
+    registry.register('ps', createPsCommand(processes));
+    registry.register('top', createTopCommand(processes));
+    registry.register('kill', createKillCommand(processes, jobTable));
     registry.register('watch', createWatchCommand(registry));
     registry.register('help', createHelpCommand(registry));
-    registry.register('node', createNodeCommand(this.ctx.kernel.portRegistry));
+    registry.register('su', createSuCommand((user, cmd, cmdCtx) => this.shell!.runAs(user, cmd, cmdCtx)));
+    registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => this.shell!.runAs(user, cmd, cmdCtx)));
+    registry.register('node', createNodeCommand(this.ctx.kernel.portRegistry, this.ctx.kernel.processes));
     registry.register('curl', createCurlCommand(this.ctx.kernel.portRegistry));
 
     // Source profile files then start interactive
@@ -21,6 +21,8 @@ import {
   createKillCommand,
   createWatchCommand,
   createHelpCommand,
+  createSuCommand,
+  createSudoCommand,
   createNodeCommand,
   createCurlCommand,
   createNpmCommand,
@@ -618,14 +620,17 @@ async function addMultiTab(): Promise<MultiTab> {
   bootLifoPackages(kernel.vfs, registry);
 
   const env = kernel.getDefaultEnv();
-  const shell = new Shell(terminal, kernel.vfs, registry, env);
+  const shell = new Shell(terminal, kernel.userVfs(), registry, env, kernel.processes);
 
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
 
   const multiNpmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
     const result = await shell.execute(cmd, {
@@ -721,18 +726,21 @@ async function addHttpTab(label: string): Promise<HttpTab> {
   bootLifoPackages(kernel.vfs, registry);
 
   // Register node and curl with the shared portRegistry
-  registry.register('node', createNodeCommand(kernel.portRegistry));
+  registry.register('node', createNodeCommand(kernel.portRegistry, kernel.processes));
   registry.register('curl', createCurlCommand(kernel.portRegistry));
 
   const env = kernel.getDefaultEnv();
-  const shell = new Shell(terminal, kernel.vfs, registry, env);
+  const shell = new Shell(terminal, kernel.userVfs(), registry, env, kernel.processes);
 
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
 
   const httpNpmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
     const result = await shell.execute(cmd, {
@@ -919,11 +927,14 @@ async function bootExplorer() {
   const shell = new Shell(terminal, vfs, registry, env);
 
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
 
   const explorerNpmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
     const result = await shell.execute(cmd, {
@@ -957,14 +968,17 @@ async function bootGit() {
   bootLifoPackages(kernel.vfs, registry);
 
   const env = kernel.getDefaultEnv();
-  const shell = new Shell(terminal, kernel.vfs, registry, env);
+  const shell = new Shell(terminal, kernel.userVfs(), registry, env, kernel.processes);
 
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
 
   // Register npm + lifo commands
   const npmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
@@ -1026,11 +1040,14 @@ async function bootFfmpeg() {
   const shell = new Shell(terminal, vfs, registry, env);
 
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
 
   const ffmpegNpmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
     const result = await shell.execute(cmd, {
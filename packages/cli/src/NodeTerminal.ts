@@ -1,4 +1,4 @@
-import type { ITerminal } from '@lifo-sh/core';
+import type { ITerminal, IDisposable } from '@lifo-sh/core';
 
 /**
  * ITerminal implementation that bridges to the host Node.js process's
@@ -38,8 +38,13 @@ export class NodeTerminal implements ITerminal {
     process.stdout.write(data + '\r\n');
   }
 
-  onData(callback: (data: string) => void): void {
+  onData(callback: (data: string) => void): IDisposable {
     this.dataCallbacks.push(callback);
+    return {
+      dispose: () => {
+        this.dataCallbacks = this.dataCallbacks.filter((cb) => cb !== callback);
+      },
+    };
   }
 
   get cols(): number {
@@ -14,8 +14,15 @@ import {
   createKillCommand,
   createWatchCommand,
   createHelpCommand,
+  createSuCommand,
+  createSudoCommand,
   createNodeCommand,
   createCurlCommand,
+  createMountCommand,
+  createFsckCommand,
+  createPassphraseCommand,
+  createWatchexecCommand,
+  createMountTypes,
 } from '@lifo-sh/core';
 import { NodeTerminal } from './NodeTerminal.js';
 import { TOKEN_PATH, readToken, handleLogin, handleLogout, handleWhoami } from './auth.js';
@@ -70,13 +77,14 @@ async function main() {
 
   // 1. Boot kernel
   const kernel = new Kernel();
+  kernel.mountTypes = createMountTypes(fs);
   await kernel.boot({ persist: false });
 
   // 2. Mount host directory at /mnt/host
   const MOUNT_PATH = '/mnt/host';
   kernel.vfs.mkdir('/mnt', { recursive: true });
   const nativeProvider = new NativeFsProvider(hostDir, fs);
-  kernel.vfs.mount(MOUNT_PATH, nativeProvider);
+  kernel.vfs.mount(MOUNT_PATH, nativeProvider, { type: 'native', source: hostDir });
 
   // 3. Create command registry
   const registry = createDefaultRegistry();
@@ -93,17 +101,23 @@ async function main() {
   env.LIFO_TOKEN_PATH = TOKEN_PATH;
 
   // 6. Create shell
-  const shell = new Shell(terminal, kernel.vfs, registry, env);
+  const shell = new Shell(terminal, kernel.userVfs(), registry, env, kernel.processes);
 
   // 7. Register factory commands
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
-  registry.register('node', createNodeCommand(kernel.portRegistry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('node', createNodeCommand(kernel.portRegistry, kernel.processes));
   registry.register('curl', createCurlCommand(kernel.portRegistry));
+  registry.register('mount', createMountCommand(kernel.mountTypes));
+  registry.register('fsck', createFsckCommand((options) => kernel.fsck(options)));
+  registry.register('passphrase', createPassphraseCommand((passphrase) => kernel.changePassphrase(passphrase)));
 
   const npmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
     const result = await shell.execute(cmd, {
@@ -116,6 +130,7 @@ async function main() {
   };
   registry.register('npm', createNpmCommand(registry, npmShellExecute));
   registry.register('lifo', createLifoPkgCommand(registry, npmShellExecute));
+  registry.register('watchexec', createWatchexecCommand(npmShellExecute));
   // 8. Source config files
   await shell.sourceFile('/etc/profile');
   await shell.sourceFile(env.HOME + '/.bashrc');
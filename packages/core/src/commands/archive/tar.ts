@@ -2,6 +2,7 @@ import type { Command } from '../types.js';
 import { resolve, dirname } from '../../utils/path.js';
 import { createTar, parseTar, compressGzip, decompressGzip, collectFiles } from '../../utils/archive.js';
 import { VFSError } from '../../kernel/vfs/index.js';
+import { writeXattrs } from '../../utils/xattr.js';
 
 const command: Command = async (ctx) => {
   let create = false;
@@ -120,11 +121,23 @@ const command: Command = async (ctx) => {
 
         if (entry.type === 'directory') {
           try { ctx.vfs.mkdir(entryPath, { recursive: true }); } catch { /* exists */ }
+          writeXattrs(ctx.vfs, entryPath, entry.xattrs);
         } else {
           // Ensure parent dir exists
           const parent = dirname(entryPath);
           try { ctx.vfs.mkdir(parent, { recursive: true }); } catch { /* exists */ }
-          ctx.vfs.writeFile(entryPath, entry.data);
+          if (entry.type === 'file') {
+            ctx.vfs.writeFile(entryPath, entry.data);
+            writeXattrs(ctx.vfs, entryPath, entry.xattrs);
+          } else {
+            // Links replace whatever is already there, like GNU tar
+            try { ctx.vfs.unlink(entryPath); } catch { /* missing */ }
+            if (entry.type === 'symlink') {
+              ctx.vfs.symlink(entry.linkTarget ?? '', entryPath);
+            } else {
+              ctx.vfs.link(resolve(targetDir, entry.linkTarget ?? ''), entryPath);
+            }
+          }
         }
 
         if (verbose) {
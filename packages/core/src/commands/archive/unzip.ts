@@ -1,6 +1,7 @@
 import type { Command } from '../types.js';
 import { resolve, dirname } from '../../utils/path.js';
 import { parseZip } from '../../utils/archive.js';
+import { decode } from '../../utils/encoding.js';
 import { VFSError } from '../../kernel/vfs/index.js';
 
 const command: Command = async (ctx) => {
@@ -71,7 +72,12 @@ const command: Command = async (ctx) => {
       } else {
         const parent = dirname(entryPath);
         try { ctx.vfs.mkdir(parent, { recursive: true }); } catch { /* exists */ }
-        ctx.vfs.writeFile(entryPath, entry.data);
+        if (entry.isSymlink) {
+          try { ctx.vfs.unlink(entryPath); } catch { /* missing */ }
+          ctx.vfs.symlink(decode(entry.data), entryPath);
+        } else {
+          ctx.vfs.writeFile(entryPath, entry.data);
+        }
       }
 
       ctx.stdout.write(`  extracting: ${entry.path}${entry.isDirectory ? '/' : ''}\n`);
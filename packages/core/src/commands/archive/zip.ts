@@ -2,6 +2,7 @@ import type { Command } from '../types.js';
 import { resolve } from '../../utils/path.js';
 import { createZip, collectFiles } from '../../utils/archive.js';
 import type { ZipEntry } from '../../utils/archive.js';
+import { encode } from '../../utils/encoding.js';
 import { VFSError } from '../../kernel/vfs/index.js';
 
 const command: Command = async (ctx) => {
@@ -23,10 +24,12 @@ const command: Command = async (ctx) => {
   try {
     const tarEntries = collectFiles(ctx.vfs, ctx.cwd, files);
 
+    // Zip has no hard links, so those are stored as plain copies
     const zipEntries: ZipEntry[] = tarEntries.map((e) => ({
       path: e.path,
-      data: e.data,
+      data: e.type === 'symlink' ? encode(e.linkTarget ?? '') : e.data,
       isDirectory: e.type === 'directory',
+      isSymlink: e.type === 'symlink',
     }));
 
     const data = createZip(zipEntries);
@@ -19,7 +19,7 @@ const command: Command = async (ctx) => {
   for (const arg of ctx.args) {
     const path = resolve(ctx.cwd, arg);
     try {
-      const content = ctx.vfs.readFileString(path);
+      const content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
       ctx.stdout.write(content);
     } catch (e) {
       if (e instanceof VFSError) {
@@ -62,27 +62,16 @@ const command: Command = async (ctx) => {
 
   function applyChmod(filePath: string): void {
     const st = ctx.vfs.stat(filePath);
-    const newMode = parseMode(modeStr, st.mode);
-    // VFS stat returns mode but we need to update via the internal node.
-    // Since VFS doesn't expose a chmod method, we'll use writeFile trick
-    // Actually the INode.mode is exposed through stat, but we need to set it.
-    // For now, we read and rewrite (preserving content) to update via the VFS.
-    // This is a limitation -- ideally VFS would have a chmod method.
-    // We'll just report the mode change for now.
-    if (st.type === 'directory' && recursive) {
-      try {
-        const entries = ctx.vfs.readdir(filePath);
-        for (const entry of entries) {
-          const childPath = filePath === '/' ? '/' + entry.name : filePath + '/' + entry.name;
-          applyChmod(childPath);
-        }
-      } catch {
-        // skip
+    ctx.vfs.chmod(filePath, parseMode(modeStr, st.mode));
+
+    // Recurse into real directories only; symlinks met on the way are skipped
+    if (recursive && ctx.vfs.lstat(filePath).type === 'directory') {
+      for (const entry of ctx.vfs.readdir(filePath)) {
+        if (entry.type === 'symlink') continue;
+        const childPath = filePath === '/' ? '/' + entry.name : filePath + '/' + entry.name;
+        applyChmod(childPath);
       }
     }
-    // Since we can't directly set mode on VFS nodes without a chmod method,
-    // we report success. In a real implementation, VFS.chmod() would be added.
-    void newMode;
   }
 
   let exitCode = 0;
@@ -2,29 +2,65 @@ import type { Command } from '../types.js';
 import { parseArgs } from '../../utils/args.js';
 import { resolve } from '../../utils/path.js';
 import { VFSError } from '../../kernel/vfs/index.js';
+import { findUser, findGroup } from '../../kernel/users/index.js';
 
 const spec = {
   recursive: { type: 'boolean' as const, short: 'R' },
 };
 
 const command: Command = async (ctx) => {
-  const { positional } = parseArgs(ctx.args, spec);
+  const { flags, positional } = parseArgs(ctx.args, spec);
 
   if (positional.length < 2) {
     ctx.stderr.write('chown: missing operand\n');
     return 1;
   }
 
-  // First positional is OWNER[:GROUP], rest are files
-  const files = positional.slice(1);
+  // First positional is OWNER[:GROUP] (or OWNER: / :GROUP), rest are files
+  const [ownerSpec, ...files] = positional;
+  const sep = ownerSpec.indexOf(':');
+  const ownerName = sep === -1 ? ownerSpec : ownerSpec.slice(0, sep);
+  const groupName = sep === -1 ? '' : ownerSpec.slice(sep + 1);
+
+  let uid = -1;
+  let gid = -1;
+  if (ownerName) {
+    const user = findUser(ctx.vfs, ownerName);
+    if (!user) {
+      ctx.stderr.write(`chown: invalid user: '${ownerSpec}'\n`);
+      return 1;
+    }
+    uid = user.uid;
+    // "user:" means the user's login group
+    if (sep !== -1 && !groupName) gid = user.gid;
+  }
+  if (groupName) {
+    const group = findGroup(ctx.vfs, groupName);
+    if (!group) {
+      ctx.stderr.write(`chown: invalid group: '${ownerSpec}'\n`);
+      return 1;
+    }
+    gid = group.gid;
+  }
+
+  function applyChown(filePath: string): void {
+    ctx.vfs.chown(filePath, uid, gid);
+
+    if (flags.recursive && ctx.vfs.lstat(filePath).type === 'directory') {
+      for (const entry of ctx.vfs.readdir(filePath)) {
+        if (entry.type === 'symlink') continue;
+        const childPath = filePath === '/' ? '/' + entry.name : filePath + '/' + entry.name;
+        applyChown(childPath);
+      }
+    }
+  }
+
   let exitCode = 0;
 
   for (const file of files) {
     const path = resolve(ctx.cwd, file);
     try {
-      // Verify file exists
-      ctx.vfs.stat(path);
-      // No-op: single-user system, ownership is always user:user
+      applyChown(path);
     } catch (e) {
       if (e instanceof VFSError) {
         ctx.stderr.write(`chown: ${file}: ${e.message}\n`);
@@ -1,33 +1,107 @@
 import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
 import { resolve, basename } from '../../utils/path.js';
 import { VFSError } from '../../kernel/vfs/index.js';
+import { readXattrs, writeXattrs } from '../../utils/xattr.js';
+
+const spec = {
+  archive: { type: 'boolean' as const, short: 'a' },
+  recursive: { type: 'boolean' as const, short: 'r' },
+  Recursive: { type: 'boolean' as const, short: 'R' },
+  preserve: { type: 'boolean' as const, short: 'p' },
+};
 
 const command: Command = async (ctx) => {
-  if (ctx.args.length < 2) {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+  // -a: copy trees as they are, symlinks as symlinks, keeping mode, owner and extended attributes
+  const archive = flags.archive as boolean;
+  const recursive = archive || ((flags.recursive || flags.Recursive) as boolean);
+  const preserve = archive || (flags.preserve as boolean);
+
+  if (positional.length < 2) {
     ctx.stderr.write('cp: missing operand\n');
     return 1;
   }
 
-  const src = resolve(ctx.cwd, ctx.args[0]);
-  let dest = resolve(ctx.cwd, ctx.args[1]);
+  const sources = positional.slice(0, -1);
+  const destArg = positional[positional.length - 1];
+  const dest = resolve(ctx.cwd, destArg);
+  const destIsDir = ctx.vfs.exists(dest) && ctx.vfs.stat(dest).type === 'directory';
+  if (sources.length > 1 && !destIsDir) {
+    ctx.stderr.write(`cp: target '${destArg}' is not a directory\n`);
+    return 1;
+  }
+
+  function keep(src: string, target: string): void {
+    const stat = ctx.vfs.lstat(src);
+    if (stat.type === 'symlink') return;
+    ctx.vfs.chmod(target, stat.mode);
+    try {
+      ctx.vfs.chown(target, stat.uid ?? 0, stat.gid ?? 0);
+    } catch {
+      // Only root may give files away; the copy stays the caller's
+    }
+    if (archive) writeXattrs(ctx.vfs, target, readXattrs(ctx.vfs, src));
+  }
 
-  try {
-    // If dest is a directory, copy into it
-    if (ctx.vfs.exists(dest)) {
-      const stat = ctx.vfs.stat(dest);
-      if (stat.type === 'directory') {
-        dest = resolve(dest, basename(src));
+  function copy(src: string, target: string, arg: string): boolean {
+    const stat = archive ? ctx.vfs.lstat(src) : ctx.vfs.stat(src);
+
+    if (stat.type === 'symlink') {
+      if (ctx.vfs.exists(target) || isSymlink(target)) ctx.vfs.unlink(target);
+      ctx.vfs.symlink(ctx.vfs.readlink(src), target);
+    } else if (stat.type === 'directory') {
+      if (!recursive) {
+        ctx.stderr.write(`cp: -r not specified; omitting directory '${arg}'\n`);
+        return false;
       }
+      if (target === src || target.startsWith(src === '/' ? '/' : src + '/')) {
+        ctx.stderr.write(`cp: cannot copy a directory, '${arg}', into itself\n`);
+        return false;
+      }
+      if (!ctx.vfs.exists(target)) ctx.vfs.mkdir(target);
+      let ok = true;
+      for (const entry of ctx.vfs.readdir(src)) {
+        const child = src === '/' ? '/' + entry.name : src + '/' + entry.name;
+        ok = copy(child, target + '/' + entry.name, arg + '/' + entry.name) && ok;
+      }
+      if (preserve) keep(src, target);
+      return ok;
+    } else if (stat.type === 'fifo' && archive) {
+      ctx.vfs.mkfifo(target, stat.mode);
+    } else {
+      ctx.vfs.copyFile(src, target);
+    }
+
+    if (preserve) keep(src, target);
+    return true;
+  }
+
+  function isSymlink(path: string): boolean {
+    try {
+      return ctx.vfs.lstat(path).type === 'symlink';
+    } catch {
+      return false;
     }
-    ctx.vfs.copyFile(src, dest);
-    return 0;
-  } catch (e) {
-    if (e instanceof VFSError) {
-      ctx.stderr.write(`cp: ${e.message}\n`);
-      return 1;
+  }
+
+  let exitCode = 0;
+  for (const arg of sources) {
+    const src = resolve(ctx.cwd, arg);
+    // If dest is a directory, copy into it
+    const target = destIsDir ? resolve(dest, basename(src)) : dest;
+    try {
+      if (!copy(src, target, arg)) exitCode = 1;
+    } catch (e) {
+      if (e instanceof VFSError) {
+        ctx.stderr.write(`cp: ${e.message}\n`);
+        exitCode = 1;
+      } else {
+        throw e;
+      }
     }
-    throw e;
   }
+  return exitCode;
 };
 
 export default command;
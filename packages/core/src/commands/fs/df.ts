@@ -1,4 +1,6 @@
 import type { Command } from '../types.js';
+import { resolve } from '../../utils/path.js';
+import type { MountInfo } from '../../kernel/vfs/index.js';
 
 function humanSize(bytes: number): string {
   if (bytes < 1024) return bytes + 'B';
@@ -7,50 +9,86 @@ function humanSize(bytes: number): string {
   return (bytes / (1024 * 1024 * 1024)).toFixed(1) + 'G';
 }
 
+/** The mount `abs` is on: the deepest mount point containing it. */
+function mountOf(mounts: MountInfo[], abs: string): MountInfo {
+  return mounts
+    .filter((m) => m.path === '/' || abs === m.path || abs.startsWith(m.path + '/'))
+    .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
 const command: Command = async (ctx) => {
   let human = false;
+  let inodes = false;
+  let all = false;
+  const paths: string[] = [];
 
   for (const arg of ctx.args) {
-    if (arg === '-h') human = true;
+    if (arg.startsWith('-') && arg.length > 1) {
+      for (const flag of arg.slice(1)) {
+        if (flag === 'h') human = true;
+        else if (flag === 'i') inodes = true;
+        else if (flag === 'a') all = true;
+        else {
+          ctx.stderr.write(`df: invalid option -- '${flag}'\n`);
+          return 1;
+        }
+      }
+    } else {
+      paths.push(arg);
+    }
   }
 
-  // Walk the entire VFS to count files and bytes
-  let totalFiles = 0;
-  let totalBytes = 0;
-
-  function walk(dirPath: string): void {
-    try {
-      const entries = ctx.vfs.readdir(dirPath);
-      for (const entry of entries) {
-        const fullPath = dirPath === '/' ? '/' + entry.name : dirPath + '/' + entry.name;
-        if (entry.type === 'file') {
-          totalFiles++;
-          const st = ctx.vfs.stat(fullPath);
-          totalBytes += st.size;
-        } else {
-          walk(fullPath);
-        }
+  let exitCode = 0;
+  const mounts = ctx.vfs.listMounts();
+  let selected = mounts;
+  if (paths.length > 0) {
+    selected = [];
+    for (const p of paths) {
+      const abs = resolve(ctx.cwd, p);
+      if (!ctx.vfs.exists(abs)) {
+        ctx.stderr.write(`df: ${p}: No such file or directory\n`);
+        exitCode = 1;
+        continue;
       }
-    } catch {
-      // skip
+      const mount = mountOf(mounts, abs);
+      if (!selected.includes(mount)) selected.push(mount);
     }
   }
 
-  walk('/');
+  const format = (n: number) => (inodes ? String(n) : human ? humanSize(n) : String(Math.ceil(n / 1024)));
+  const rows: string[][] = [
+    inodes
+      ? ['Filesystem', 'Inodes', 'IUsed', 'IFree', 'IUse%', 'Mounted on']
+      : ['Filesystem', human ? 'Size' : '1K-blocks', 'Used', human ? 'Avail' : 'Available', 'Use%', 'Mounted on'],
+  ];
+  for (const m of selected) {
+    const stats = ctx.vfs.statfs(m.path);
+    // Pseudo filesystems such as /proc hold nothing of their own
+    if (!all && paths.length === 0 && m.path !== '/' && stats.inodes === 0) continue;
 
-  const totalSpace = 256 * 1024 * 1024; // 256MB virtual space
-  const used = totalBytes;
-  const avail = totalSpace - used;
+    const used = inodes ? stats.inodes : stats.bytes;
+    const total = inodes ? stats.quota.inodes : stats.quota.bytes;
+    rows.push([
+      m.source,
+      total === undefined ? '-' : format(total),
+      format(used),
+      total === undefined ? '-' : format(Math.max(0, total - used)),
+      total === undefined ? '-' : total === 0 ? '100%' : `${Math.ceil((used / total) * 100)}%`,
+      m.path,
+    ]);
+  }
 
-  if (human) {
-    ctx.stdout.write('Filesystem      Size  Used  Avail  Use%  Mounted on\n');
-    ctx.stdout.write(`vfs             ${humanSize(totalSpace)}  ${humanSize(used)}  ${humanSize(avail)}  ${Math.round((used / totalSpace) * 100)}%    /\n`);
-  } else {
-    ctx.stdout.write('Filesystem      1K-blocks    Used    Available  Use%  Mounted on\n');
-    ctx.stdout.write(`vfs             ${Math.round(totalSpace / 1024)}    ${Math.round(used / 1024)}    ${Math.round(avail / 1024)}  ${Math.round((used / totalSpace) * 100)}%    /\n`);
+  // Names left-aligned, figures right-aligned, as df does
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+  for (const row of rows) {
+    const cells = row.map((cell, col) => {
+      if (col === row.length - 1) return cell;
+      return col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col]);
+    });
+    ctx.stdout.write(cells.join(' ') + '\n');
   }
 
-  return 0;
+  return exitCode;
 };
 
 export default command;
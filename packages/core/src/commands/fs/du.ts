@@ -22,42 +22,29 @@ const command: Command = async (ctx) => {
 
   if (paths.length === 0) paths.push('.');
 
-  function calcSize(dirPath: string): number {
-    let total = 0;
-    try {
-      const entries = ctx.vfs.readdir(dirPath);
-      for (const entry of entries) {
-        const fullPath = dirPath === '/' ? '/' + entry.name : dirPath + '/' + entry.name;
-        if (entry.type === 'file') {
-          const st = ctx.vfs.stat(fullPath);
-          total += st.size;
-        } else {
-          total += calcSize(fullPath);
-        }
-      }
-    } catch {
-      // skip inaccessible
+  // A hard-linked file is counted once, under the first name found
+  const seen = new Set<number>();
+  function fileSize(path: string): number {
+    const st = ctx.vfs.lstat(path);
+    if (st.type !== 'file') return 0; // symlinks and FIFOs hold no content
+    if (st.ino !== undefined) {
+      if (seen.has(st.ino)) return 0;
+      seen.add(st.ino);
     }
-    return total;
+    return st.size;
   }
 
-  function walkAndPrint(dirPath: string, name: string): number {
+  function walk(dirPath: string, name: string): number {
     let total = 0;
     try {
       const entries = ctx.vfs.readdir(dirPath);
       for (const entry of entries) {
         const fullPath = dirPath === '/' ? '/' + entry.name : dirPath + '/' + entry.name;
         const displayPath = name === '/' ? '/' + entry.name : name + '/' + entry.name;
-        if (entry.type === 'file') {
-          const st = ctx.vfs.stat(fullPath);
-          total += st.size;
-        } else {
-          const subSize = walkAndPrint(fullPath, displayPath);
-          total += subSize;
-        }
+        total += entry.type === 'directory' ? walk(fullPath, displayPath) : fileSize(fullPath);
       }
     } catch {
-      // skip
+      // skip inaccessible
     }
     if (!summaryOnly) {
       const display = human ? humanSize(total) : String(total);
@@ -72,17 +59,16 @@ const command: Command = async (ctx) => {
     const absPath = resolve(ctx.cwd, p);
     try {
       const st = ctx.vfs.stat(absPath);
-      if (st.type === 'file') {
-        const display = human ? humanSize(st.size) : String(st.size);
-        ctx.stdout.write(display + '\t' + p + '\n');
-      } else {
+      if (st.type === 'directory') {
+        const total = walk(absPath, p);
         if (summaryOnly) {
-          const total = calcSize(absPath);
           const display = human ? humanSize(total) : String(total);
           ctx.stdout.write(display + '\t' + p + '\n');
-        } else {
-          walkAndPrint(absPath, p);
         }
+      } else {
+        const size = fileSize(absPath);
+        const display = human ? humanSize(size) : String(size);
+        ctx.stdout.write(display + '\t' + p + '\n');
       }
     } catch (e) {
       if (e instanceof VFSError) {
@@ -1,6 +1,9 @@
 import type { Command } from '../types.js';
 import { resolve, extname } from '../../utils/path.js';
-import { VFSError } from '../../kernel/vfs/index.js';
+import { VFSError, MIME_XATTR } from '../../kernel/vfs/index.js';
+import type { VFS } from '../../kernel/vfs/index.js';
+import { getMimeType } from '../../utils/mime.js';
+import { decode } from '../../utils/encoding.js';
 
 const extTypes: Record<string, string> = {
   '.txt': 'ASCII text',
@@ -37,6 +40,20 @@ function isText(data: Uint8Array): boolean {
   return true;
 }
 
+/** What a MIME type set with `setfattr -n user.mime_type` is described as. */
+function describeMime(mime: string): string {
+  const ext = Object.keys(extTypes).find((e) => getMimeType(e) === mime);
+  return ext ? extTypes[ext] : mime;
+}
+
+function mimeOverride(vfs: VFS, path: string): string | null {
+  try {
+    return decode(vfs.getxattr(path, MIME_XATTR));
+  } catch {
+    return null;
+  }
+}
+
 const command: Command = async (ctx) => {
   if (ctx.args.length === 0) {
     ctx.stderr.write('file: missing operand\n');
@@ -60,7 +77,14 @@ const command: Command = async (ctx) => {
         continue;
       }
 
-      // Check by extension first
+      // A MIME type set on the file wins over its extension and contents
+      const mime = mimeOverride(ctx.vfs, path);
+      if (mime) {
+        ctx.stdout.write(`${arg}: ${describeMime(mime)}\n`);
+        continue;
+      }
+
+      // Check by extension
       const ext = extname(arg);
       if (ext && extTypes[ext]) {
         ctx.stdout.write(`${arg}: ${extTypes[ext]}\n`);
@@ -6,7 +6,7 @@ import { VFSError } from '../../kernel/vfs/index.js';
 const command: Command = async (ctx) => {
   let searchPath = '.';
   let namePattern = '';
-  let typeFilter = ''; // 'f' or 'd'
+  let typeFilter = ''; // 'f', 'd', 'l' or 'p'
   let maxDepth = Infinity;
 
   for (let i = 0; i < ctx.args.length; i++) {
@@ -39,6 +39,8 @@ const command: Command = async (ctx) => {
         if (typeFilter) {
           if (typeFilter === 'f' && entry.type !== 'file') matches = false;
           if (typeFilter === 'd' && entry.type !== 'directory') matches = false;
+          if (typeFilter === 'l' && entry.type !== 'symlink') matches = false;
+          if (typeFilter === 'p' && entry.type !== 'fifo') matches = false;
         }
 
         if (matches) {
@@ -0,0 +1,92 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { resolve } from '../../utils/path.js';
+import { VFSError } from '../../kernel/vfs/index.js';
+import { decode } from '../../utils/encoding.js';
+import { formatXattrValue } from '../../utils/xattr.js';
+import type { XattrEncoding } from '../../utils/xattr.js';
+
+const spec = {
+  dump: { type: 'boolean' as const, short: 'd' },
+  name: { type: 'string' as const, short: 'n' },
+  match: { type: 'string' as const, short: 'm' },
+  encoding: { type: 'string' as const, short: 'e' },
+  'only-values': { type: 'boolean' as const },
+  'absolute-names': { type: 'boolean' as const },
+};
+
+const ENCODINGS = new Set(['text', 'hex', 'base64']);
+
+const command: Command = async (ctx) => {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+  const name = flags.name as string;
+  const onlyValues = flags['only-values'] as boolean;
+  const encoding = (flags.encoding as string) || undefined;
+
+  if (positional.length === 0) {
+    ctx.stderr.write('Usage: getfattr [-d] [-n NAME] [-m PATTERN] [-e ENCODING] [--only-values] FILE...\n');
+    return 1;
+  }
+  if (encoding !== undefined && !ENCODINGS.has(encoding)) {
+    ctx.stderr.write(`getfattr: unrecognized encoding '${encoding}'\n`);
+    return 1;
+  }
+
+  // Names shown without -n: user.* by default; "-m -" for all of them
+  const matchArg = flags.match as string;
+  let match: RegExp;
+  try {
+    match = new RegExp(matchArg === '-' ? '' : matchArg || '^user\\.');
+  } catch {
+    ctx.stderr.write(`getfattr: invalid pattern '${matchArg}'\n`);
+    return 1;
+  }
+
+  const show = (value: Uint8Array): string =>
+    onlyValues ? decode(value) : formatXattrValue(value, encoding as XattrEncoding | undefined);
+
+  let exitCode = 0;
+  let warned = false;
+
+  for (const arg of positional) {
+    const path = resolve(ctx.cwd, arg);
+    let label = arg;
+    if (!flags['absolute-names'] && label.startsWith('/')) {
+      label = label.replace(/^\/+/, '') || '.';
+      if (!warned) {
+        ctx.stderr.write("getfattr: Removing leading '/' from absolute path names\n");
+        warned = true;
+      }
+    }
+
+    try {
+      const names = name ? [name] : ctx.vfs.listxattr(path).filter((n) => match.test(n)).sort();
+      const lines: string[] = [];
+      for (const attr of names) {
+        if (name || flags.dump || onlyValues) {
+          const value = ctx.vfs.getxattr(path, attr);
+          lines.push(onlyValues ? show(value) : `${attr}=${show(value)}`);
+        } else {
+          lines.push(attr);
+        }
+      }
+
+      if (onlyValues) {
+        ctx.stdout.write(lines.join(''));
+      } else if (lines.length > 0) {
+        ctx.stdout.write(`# file: ${label}\n${lines.join('\n')}\n\n`);
+      }
+    } catch (e) {
+      if (e instanceof VFSError) {
+        ctx.stderr.write(`getfattr: ${arg}: ${e.message}\n`);
+        exitCode = 1;
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  return exitCode;
+};
+
+export default command;
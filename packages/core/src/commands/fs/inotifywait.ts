@@ -0,0 +1,136 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { resolve } from '../../utils/path.js';
+import { watchFilter } from '../../kernel/vfs/watch.js';
+import type { VFSWatchEvent } from '../../kernel/vfs/index.js';
+
+const spec = {
+  monitor: { type: 'boolean' as const, short: 'm' },
+  recursive: { type: 'boolean' as const, short: 'r' },
+  quiet: { type: 'boolean' as const, short: 'q' },
+  event: { type: 'string' as const, short: 'e' },
+  timeout: { type: 'string' as const, short: 't' },
+  include: { type: 'string' as const },
+  exclude: { type: 'string' as const },
+};
+
+const EVENTS = ['access', 'modify', 'attrib', 'close_write', 'close', 'open', 'moved_to', 'moved_from', 'move', 'create', 'delete'];
+
+/** inotify event names for a VFS event, as [path, events] pairs. */
+function inotifyEvents(event: VFSWatchEvent): Array<[string, string[]]> {
+  switch (event.type) {
+    case 'create':
+      // Files are written whole, so a new file is also closed after writing
+      return event.fileType === 'directory'
+        ? [[event.path, ['CREATE']]]
+        : [[event.path, ['CREATE']], [event.path, ['CLOSE_WRITE', 'CLOSE']]];
+    case 'modify':
+      return [[event.path, ['MODIFY']], [event.path, ['CLOSE_WRITE', 'CLOSE']]];
+    case 'attrib':
+      return [[event.path, ['ATTRIB']]];
+    case 'delete':
+      return [[event.path, ['DELETE']]];
+    case 'rename':
+      return [[event.oldPath!, ['MOVED_FROM']], [event.path, ['MOVED_TO']]];
+  }
+}
+
+/** Is inotify event `name` selected by the -e names in `wanted`? */
+function selected(name: string, wanted: string[]): boolean {
+  if (wanted.length === 0) return true;
+  const lower = name.toLowerCase();
+  return wanted.includes(lower) || (wanted.includes('move') && lower.startsWith('moved_'));
+}
+
+const command: Command = async (ctx) => {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+
+  if (positional.length === 0) {
+    ctx.stderr.write('Usage: inotifywait [-m] [-r] [-q] [-e EVENT[,EVENT]] [-t SECONDS] [--include REGEX] [--exclude REGEX] FILE...\n');
+    return 1;
+  }
+
+  const wanted = flags.event ? (flags.event as string).split(',').map((e) => e.toLowerCase()) : [];
+  for (const name of wanted) {
+    if (!EVENTS.includes(name)) {
+      ctx.stderr.write(`inotifywait: invalid event '${name}'\n`);
+      return 1;
+    }
+  }
+
+  let include: RegExp | null = null;
+  let exclude: RegExp | null = null;
+  try {
+    if (flags.include) include = new RegExp(flags.include as string);
+    if (flags.exclude) exclude = new RegExp(flags.exclude as string);
+  } catch (e) {
+    ctx.stderr.write(`inotifywait: ${(e as Error).message}\n`);
+    return 1;
+  }
+
+  const timeout = flags.timeout ? Number(flags.timeout) : 0;
+  if (!Number.isFinite(timeout) || timeout < 0) {
+    ctx.stderr.write(`inotifywait: invalid timeout '${flags.timeout}'\n`);
+    return 1;
+  }
+
+  for (const file of positional) {
+    if (!ctx.vfs.exists(resolve(ctx.cwd, file))) {
+      ctx.stderr.write(`Couldn't watch ${file}: No such file or directory\n`);
+      return 1;
+    }
+  }
+
+  if (!flags.quiet) {
+    ctx.stderr.write('Setting up watches.' + (flags.recursive ? '  Beware: since -r was given, this may take a while!' : '') + '\n');
+    ctx.stderr.write('Watches established.\n');
+  }
+
+  const recursive = flags.recursive as boolean;
+  return new Promise<number>((resolveExit) => {
+    const unwatchers: Array<() => void> = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let done = false;
+
+    const finish = (code: number) => {
+      if (done) return;
+      done = true;
+      for (const unwatch of unwatchers) unwatch();
+      if (timer) clearTimeout(timer);
+      resolveExit(code);
+    };
+
+    for (const file of positional) {
+      const root = resolve(ctx.cwd, file);
+      const inScope = watchFilter(root, { recursive });
+      // Paths are shown as given on the command line: "%w %e %f"
+      const shown = (path: string) => file.replace(/\/+$/, '') + path.slice(root === '/' ? 0 : root.length);
+
+      unwatchers.push(ctx.vfs.watch(root, { recursive }, (event) => {
+        for (const [path, names] of inotifyEvents(event)) {
+          if (done) return;
+          if (!inScope({ type: 'delete', path, fileType: event.fileType })) continue;
+          if (!names.some((n) => selected(n, wanted))) continue;
+
+          const display = shown(path);
+          if (include && !include.test(display)) continue;
+          if (exclude && exclude.test(display)) continue;
+
+          const flagsText = [...names, ...(event.fileType === 'directory' ? ['ISDIR'] : [])].join(',');
+          if (path === root) {
+            ctx.stdout.write(`${file} ${flagsText} \n`);
+          } else {
+            const slash = display.lastIndexOf('/');
+            ctx.stdout.write(`${display.slice(0, slash + 1)} ${flagsText} ${display.slice(slash + 1)}\n`);
+          }
+          if (!flags.monitor) finish(0);
+        }
+      }));
+    }
+
+    if (timeout > 0) timer = setTimeout(() => finish(2), timeout * 1000);
+    ctx.signal.addEventListener('abort', () => finish(0), { once: true });
+  });
+};
+
+export default command;
@@ -1,19 +1,102 @@
 import type { Command } from '../types.js';
+import { resolve, basename } from '../../utils/path.js';
+import { VFSError } from '../../kernel/vfs/index.js';
 
 const command: Command = async (ctx) => {
-  let symlink = false;
+  let symbolic = false;
+  let force = false;
+  let noDeref = false;
+  let verbose = false;
+  const operands: string[] = [];
 
   for (const arg of ctx.args) {
-    if (arg === '-s') symlink = true;
+    if (arg.startsWith('-') && arg.length > 1 && operands.length === 0) {
+      for (const ch of arg.slice(1)) {
+        if (ch === 's') symbolic = true;
+        else if (ch === 'f') force = true;
+        else if (ch === 'n') noDeref = true;
+        else if (ch === 'v') verbose = true;
+        else {
+          ctx.stderr.write(`ln: invalid option -- '${ch}'\n`);
+          return 1;
+        }
+      }
+    } else {
+      operands.push(arg);
+    }
   }
 
-  if (symlink) {
-    ctx.stderr.write('ln: symbolic links are not supported in Lifo VFS\n');
+  if (operands.length === 0) {
+    ctx.stderr.write('ln: missing file operand\n');
+    return 1;
+  }
+
+  // ln TARGET (link in cwd), ln TARGET LINK, or ln TARGET... DIR
+  let targets: string[];
+  let destDir: string | null = null;
+  let linkName = '';
+
+  const isDir = (path: string): boolean => {
+    try {
+      const st = noDeref ? ctx.vfs.lstat(path) : ctx.vfs.stat(path);
+      return st.type === 'directory';
+    } catch {
+      return false;
+    }
+  };
+
+  if (operands.length === 1) {
+    targets = operands;
+    destDir = ctx.cwd;
   } else {
-    ctx.stderr.write('ln: hard links are not supported in Lifo VFS\n');
+    const last = operands[operands.length - 1];
+    targets = operands.slice(0, -1);
+    if (isDir(resolve(ctx.cwd, last))) {
+      destDir = resolve(ctx.cwd, last);
+    } else if (targets.length > 1) {
+      ctx.stderr.write(`ln: target '${last}' is not a directory\n`);
+      return 1;
+    } else {
+      linkName = last;
+    }
+  }
+
+  let exitCode = 0;
+
+  for (const target of targets) {
+    const linkPath = destDir !== null
+      ? resolve(destDir, basename(target))
+      : resolve(ctx.cwd, linkName);
+    const display = destDir !== null ? linkPath : linkName;
+
+    try {
+      if (force) {
+        try {
+          if (ctx.vfs.lstat(linkPath).type !== 'directory') ctx.vfs.unlink(linkPath);
+        } catch { /* missing */ }
+      }
+
+      if (symbolic) {
+        // Symlink targets are stored verbatim, relative to the link's directory
+        ctx.vfs.symlink(target, linkPath);
+      } else {
+        ctx.vfs.link(resolve(ctx.cwd, target), linkPath);
+      }
+
+      if (verbose) {
+        ctx.stdout.write(`'${display}' ${symbolic ? '->' : '=>'} '${target}'\n`);
+      }
+    } catch (e) {
+      if (e instanceof VFSError) {
+        ctx.stderr.write(`ln: failed to create ${symbolic ? 'symbolic' : 'hard'} link '${display}': ${e.message}\n`);
+        exitCode = 1;
+      } else {
+        throw e;
+      }
+    }
   }
 
-  return 1;
+  return exitCode;
 };
 
 export default command;
@@ -1,8 +1,10 @@
 import type { Command } from '../types.js';
 import { parseArgs } from '../../utils/args.js';
 import { resolve } from '../../utils/path.js';
-import { BOLD, BLUE, RESET } from '../../utils/colors.js';
+import { BOLD, BLUE, CYAN, RESET } from '../../utils/colors.js';
 import { VFSError } from '../../kernel/vfs/index.js';
+import type { FileType, VFS } from '../../kernel/vfs/index.js';
+import { readUsers, readGroups } from '../../kernel/users/index.js';
 
 const spec = {
   long: { type: 'boolean' as const, short: 'l' },
@@ -10,8 +12,8 @@ const spec = {
   one: { type: 'boolean' as const, short: '1' },
 };
 
-function formatMode(mode: number, isDir: boolean): string {
-  const d = isDir ? 'd' : '-';
+function formatMode(mode: number, type: FileType): string {
+  const d = type === 'directory' ? 'd' : type === 'symlink' ? 'l' : type === 'fifo' ? 'p' : '-';
   const perms = [
     (mode & 0o400) ? 'r' : '-',
     (mode & 0o200) ? 'w' : '-',
@@ -38,22 +40,48 @@ function formatDate(ts: number): string {
 
 interface LsEntry {
   name: string;
-  type: 'file' | 'directory';
+  type: FileType;
   size: number;
   mtime: number;
   mode: number;
+  nlink?: number;
+  uid?: number;
+  gid?: number;
+  target?: string;
 }
 
-function formatEntry(entry: LsEntry, long: boolean): string {
-  const displayName = entry.type === 'directory'
-    ? `${BOLD}${BLUE}${entry.name}${RESET}`
-    : entry.name;
+interface OwnerNames {
+  users: Map<number, string>;
+  groups: Map<number, string>;
+}
+
+/** Load uid/gid -> name maps once per invocation; unknown ids print numerically */
+function loadOwnerNames(vfs: VFS): OwnerNames {
+  const users = new Map<number, string>();
+  const groups = new Map<number, string>();
+  for (const u of readUsers(vfs)) if (!users.has(u.uid)) users.set(u.uid, u.name);
+  for (const g of readGroups(vfs)) if (!groups.has(g.gid)) groups.set(g.gid, g.name);
+  return { users, groups };
+}
+
+function formatEntry(entry: LsEntry, long: boolean, owners?: OwnerNames): string {
+  let displayName = entry.name;
+  if (entry.type === 'directory') {
+    displayName = `${BOLD}${BLUE}${entry.name}${RESET}`;
+  } else if (entry.type === 'symlink') {
+    displayName = `${BOLD}${CYAN}${entry.name}${RESET}`;
+  }
 
   if (long) {
-    const mode = formatMode(entry.mode, entry.type === 'directory');
+    const mode = formatMode(entry.mode, entry.type);
     const size = String(entry.size).padStart(6, ' ');
     const date = formatDate(entry.mtime);
-    return `${mode}  1 user user ${size} ${date} ${displayName}\n`;
+    const link = entry.target !== undefined ? ` -> ${entry.target}` : '';
+    const uid = entry.uid ?? 0;
+    const gid = entry.gid ?? 0;
+    const user = owners?.users.get(uid) ?? String(uid);
+    const group = owners?.groups.get(gid) ?? String(gid);
+    return `${mode}  ${entry.nlink ?? 1} ${user} ${group} ${size} ${date} ${displayName}${link}\n`;
   }
   return displayName;
 }
@@ -61,17 +89,25 @@ function formatEntry(entry: LsEntry, long: boolean): string {
 function listDirectory(
   path: string, flags: Record<string, string | boolean>, ctx: import('../types.js').CommandContext,
 ): LsEntry[] {
-  const entries = ctx.vfs.readdirStat(path);
+  const entries: LsEntry[] = ctx.vfs.readdirStat(path);
   const filtered = (flags.all as boolean)
     ? entries
     : entries.filter((e) => !e.name.startsWith('.'));
   filtered.sort((a, b) => a.name.localeCompare(b.name));
+  if (flags.long) {
+    for (const entry of filtered) {
+      if (entry.type === 'symlink') {
+        entry.target = ctx.vfs.readlink(resolve(path, entry.name));
+      }
+    }
+  }
   return filtered;
 }
 
 const command: Command = async (ctx) => {
   const { flags, positional } = parseArgs(ctx.args, spec);
   const targets = positional.length > 0 ? positional : [ctx.cwd];
+  const owners = flags.long ? loadOwnerNames(ctx.vfs) : undefined;
 
   let exitCode = 0;
   const fileEntries: LsEntry[] = [];
@@ -81,14 +117,20 @@ const command: Command = async (ctx) => {
   for (const target of targets) {
     const targetPath = resolve(ctx.cwd, target);
     try {
-      const stat = ctx.vfs.stat(targetPath);
-      if (stat.type === 'file') {
+      // A symlink to a directory is listed as the link itself only with -l
+      const lst = ctx.vfs.lstat(targetPath);
+      const stat = lst.type === 'symlink' && !flags.long ? ctx.vfs.stat(targetPath) : lst;
+      if (stat.type !== 'directory') {
         fileEntries.push({
           name: target,
           type: stat.type,
           size: stat.size,
           mtime: stat.mtime,
           mode: stat.mode,
+          nlink: stat.nlink,
+          uid: stat.uid,
+          gid: stat.gid,
+          target: stat.type === 'symlink' ? ctx.vfs.readlink(targetPath) : undefined,
         });
       } else {
         dirTargets.push(target);
@@ -107,7 +149,7 @@ const command: Command = async (ctx) => {
   if (fileEntries.length > 0) {
     if (flags.long) {
       for (const entry of fileEntries) {
-        ctx.stdout.write(formatEntry(entry, true));
+        ctx.stdout.write(formatEntry(entry, true, owners));
       }
     } else if (flags.one) {
       for (const entry of fileEntries) {
@@ -135,7 +177,7 @@ const command: Command = async (ctx) => {
 
       if (flags.long) {
         for (const entry of entries) {
-          ctx.stdout.write(formatEntry(entry, true));
+          ctx.stdout.write(formatEntry(entry, true, owners));
         }
       } else if (flags.one) {
         for (const entry of entries) {
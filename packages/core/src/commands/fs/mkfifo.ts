@@ -0,0 +1,46 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { resolve } from '../../utils/path.js';
+import { VFSError } from '../../kernel/vfs/index.js';
+
+const spec = {
+  mode: { type: 'string' as const, short: 'm' },
+};
+
+const command: Command = async (ctx) => {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+
+  if (positional.length === 0) {
+    ctx.stderr.write('mkfifo: missing operand\n');
+    return 1;
+  }
+
+  let mode = 0o644;
+  if (flags.mode) {
+    if (!/^[0-7]{1,4}$/.test(flags.mode as string)) {
+      ctx.stderr.write(`mkfifo: invalid mode '${flags.mode}'\n`);
+      return 1;
+    }
+    mode = parseInt(flags.mode as string, 8);
+  }
+
+  let exitCode = 0;
+
+  for (const arg of positional) {
+    const path = resolve(ctx.cwd, arg);
+    try {
+      ctx.vfs.mkfifo(path, mode);
+    } catch (e) {
+      if (e instanceof VFSError) {
+        ctx.stderr.write(`mkfifo: cannot create fifo '${arg}': ${e.message}\n`);
+        exitCode = 1;
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  return exitCode;
+};
+
+export default command;
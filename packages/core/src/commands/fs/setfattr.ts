@@ -0,0 +1,56 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { resolve } from '../../utils/path.js';
+import { VFSError } from '../../kernel/vfs/index.js';
+import { parseXattrValue } from '../../utils/xattr.js';
+
+const spec = {
+  name: { type: 'string' as const, short: 'n' },
+  value: { type: 'string' as const, short: 'v' },
+  remove: { type: 'string' as const, short: 'x' },
+};
+
+const command: Command = async (ctx) => {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+  const name = flags.name as string;
+  const remove = flags.remove as string;
+
+  if (positional.length === 0 || !name === !remove) {
+    ctx.stderr.write('Usage: setfattr {-n NAME [-v VALUE] | -x NAME} FILE...\n');
+    return 1;
+  }
+
+  let value: Uint8Array | undefined;
+  if (name) {
+    try {
+      value = parseXattrValue((flags.value as string | undefined) ?? '');
+    } catch (e) {
+      ctx.stderr.write(`setfattr: ${(e as Error).message}\n`);
+      return 1;
+    }
+  }
+
+  let exitCode = 0;
+
+  for (const arg of positional) {
+    const path = resolve(ctx.cwd, arg);
+    try {
+      if (remove) {
+        ctx.vfs.removexattr(path, remove);
+      } else {
+        ctx.vfs.setxattr(path, name, value!);
+      }
+    } catch (e) {
+      if (e instanceof VFSError) {
+        ctx.stderr.write(`setfattr: ${arg}: ${e.message}\n`);
+        exitCode = 1;
+      } else {
+        throw e;
+      }
+    }
+  }
+
+  return exitCode;
+};
+
+export default command;
@@ -1,6 +1,15 @@
 import type { Command } from '../types.js';
 import { resolve } from '../../utils/path.js';
 import { VFSError } from '../../kernel/vfs/index.js';
+import type { FileType } from '../../kernel/vfs/index.js';
+import { findUser, findGroup } from '../../kernel/users/index.js';
+
+const TYPE_NAMES: Record<FileType, string> = {
+  file: 'regular file',
+  directory: 'directory',
+  symlink: 'symbolic link',
+  fifo: 'fifo',
+};
 
 const command: Command = async (ctx) => {
   if (ctx.args.length === 0) {
@@ -13,12 +22,18 @@ const command: Command = async (ctx) => {
   for (const arg of ctx.args) {
     const path = resolve(ctx.cwd, arg);
     try {
-      const st = ctx.vfs.stat(path);
+      const st = ctx.vfs.lstat(path);
       const mode = '0' + st.mode.toString(8);
-      const type = st.type === 'directory' ? 'directory' : 'regular file';
-      ctx.stdout.write(`  File: ${arg}\n`);
+      const type = TYPE_NAMES[st.type];
+      const file = st.type === 'symlink' ? `${arg} -> ${ctx.vfs.readlink(path)}` : arg;
+      ctx.stdout.write(`  File: ${file}\n`);
       ctx.stdout.write(`  Size: ${st.size}\tType: ${type}\n`);
-      ctx.stdout.write(`  Mode: ${mode}\n`);
+      ctx.stdout.write(`  Mode: ${mode}\tInode: ${st.ino ?? 0}\tLinks: ${st.nlink ?? 1}\n`);
+      const uid = st.uid ?? 0;
+      const gid = st.gid ?? 0;
+      const user = findUser(ctx.vfs, uid)?.name ?? 'UNKNOWN';
+      const group = findGroup(ctx.vfs, gid)?.name ?? 'UNKNOWN';
+      ctx.stdout.write(`  Uid: (${uid}/${user})\tGid: (${gid}/${group})\n`);
       ctx.stdout.write(`  Created: ${new Date(st.ctime).toISOString()}\n`);
       ctx.stdout.write(`  Modified: ${new Date(st.mtime).toISOString()}\n`);
     } catch (e) {
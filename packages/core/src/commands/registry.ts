@@ -83,6 +83,10 @@ export function createDefaultRegistry(): CommandRegistry {
   registry.registerLazy('sleep', () => import('./system/sleep.js'));
   registry.registerLazy('uptime', () => import('./system/uptime.js'));
   registry.registerLazy('whoami', () => import('./system/whoami.js'));
+  registry.registerLazy('id', () => import('./system/id.js'));
+  registry.registerLazy('useradd', () => import('./system/useradd.js'));
+  registry.registerLazy('umount', () => import('./system/umount.js'));
+  registry.registerLazy('findmnt', () => import('./system/findmnt.js'));
   registry.registerLazy('hostname', () => import('./system/hostname.js'));
   registry.registerLazy('free', () => import('./system/free.js'));
   registry.registerLazy('which', () => import('./system/which.js'));
@@ -110,6 +114,10 @@ export function createDefaultRegistry(): CommandRegistry {
   registry.registerLazy('dirname', () => import('./fs/dirname.js'));
   registry.registerLazy('mktemp', () => import('./fs/mktemp.js'));
   registry.registerLazy('chown', () => import('./fs/chown.js'));
+  registry.registerLazy('inotifywait', () => import('./fs/inotifywait.js'));
+  registry.registerLazy('mkfifo', () => import('./fs/mkfifo.js'));
+  registry.registerLazy('getfattr', () => import('./fs/getfattr.js'));
+  registry.registerLazy('setfattr', () => import('./fs/setfattr.js'));
 
   // Text (continued)
   registry.registerLazy('diff', () => import('./text/diff.js'));
@@ -0,0 +1,56 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { resolve } from '../../utils/path.js';
+import type { MountInfo } from '../../kernel/vfs/index.js';
+
+const spec = {
+  list: { type: 'boolean' as const, short: 'l' },
+  noheadings: { type: 'boolean' as const, short: 'n' },
+  types: { type: 'string' as const, short: 't' },
+};
+
+/** Is mount `m` inside the filesystem mounted at `parent`? */
+function isBelow(m: MountInfo, parent: MountInfo): boolean {
+  return m.path !== parent.path && (parent.path === '/' || m.path.startsWith(parent.path + '/'));
+}
+
+const command: Command = async (ctx) => {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+  const types = flags.types ? (flags.types as string).split(',') : null;
+
+  let mounts = ctx.vfs.listMounts();
+  if (types) mounts = mounts.filter((m) => types.includes(m.type));
+  if (positional.length > 0) {
+    const wanted = positional[0];
+    const path = resolve(ctx.cwd, wanted);
+    mounts = mounts.filter((m) => m.path === path || m.source === wanted);
+  }
+  if (mounts.length === 0) return 1;
+
+  // TARGET is drawn as a tree of nested mounts unless --list or filtered
+  let targets: Array<[MountInfo, string]> = mounts.map((m) => [m, m.path]);
+  if (!flags.list && !types && positional.length === 0) {
+    const parentOf = (m: MountInfo) => mounts.filter((p) => isBelow(m, p)).pop();
+    const draw = (parent: MountInfo, indent: string): void => {
+      const children = mounts.filter((m) => parentOf(m) === parent);
+      children.forEach((child, i) => {
+        const last = i === children.length - 1;
+        targets.push([child, `${indent}${last ? '└─' : '├─'}${child.path}`]);
+        draw(child, indent + (last ? '  ' : '│ '));
+      });
+    };
+    targets = [[mounts[0], mounts[0].path]];
+    draw(mounts[0], '');
+  }
+
+  const rows = targets.map(([m, target]) => [target, m.source, m.type, m.options.join(',')]);
+  if (!flags.noheadings) rows.unshift(['TARGET', 'SOURCE', 'FSTYPE', 'OPTIONS']);
+  const widths = [0, 1, 2].map((col) => Math.max(...rows.map((r) => r[col].length)));
+  for (const row of rows) {
+    const line = row.map((cell, col) => (col < 3 ? cell.padEnd(widths[col]) : cell)).join(' ');
+    ctx.stdout.write(line + '\n');
+  }
+  return 0;
+};
+
+export default command;
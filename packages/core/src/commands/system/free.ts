@@ -7,12 +7,38 @@ function humanSize(bytes: number): string {
   return (bytes / (1024 * 1024 * 1024)).toFixed(1) + 'G';
 }
 
+/** The fields of /proc/meminfo in bytes, or null where there is no /proc. */
+function readMeminfo(read: () => string): Record<string, number> | null {
+  let text: string;
+  try {
+    text = read();
+  } catch {
+    return null;
+  }
+  const fields: Record<string, number> = {};
+  for (const line of text.split('\n')) {
+    const match = /^(\w+):\s+(\d+) kB$/.exec(line);
+    if (match) fields[match[1]] = Number(match[2]) * 1024;
+  }
+  return 'MemTotal' in fields ? fields : null;
+}
+
 const command: Command = async (ctx) => {
   let human = false;
 
   for (const arg of ctx.args) {
     if (arg === '-h') human = true;
   }
+  const format = (n: number) => (human ? humanSize(n) : String(n)).padStart(10);
+
+  // /proc/meminfo counts what the filesystem holds in memory as well
+  const info = readMeminfo(() => ctx.vfs.readFileString('/proc/meminfo'));
+  if (info) {
+    const columns = [info.MemTotal, info.MemUsed ?? 0, info.MemFree ?? 0, info.Shmem ?? 0, info.Cached ?? 0];
+    ctx.stdout.write('              total        used        free      shared  buff/cache\n');
+    ctx.stdout.write(`Mem:     ${columns.map(format).join('  ')}\n`);
+    return 0;
+  }
 
   // Try to use performance.memory (Chrome-only API)
   const perf = performance as unknown as { memory?: { jsHeapSizeLimit: number; usedJSHeapSize: number; totalJSHeapSize: number } };
@@ -21,13 +47,8 @@ const command: Command = async (ctx) => {
     const used = perf.memory.usedJSHeapSize;
     const free = total - used;
 
-    if (human) {
-      ctx.stdout.write('              total        used        free\n');
-      ctx.stdout.write(`Mem:     ${humanSize(total).padStart(10)}  ${humanSize(used).padStart(10)}  ${humanSize(free).padStart(10)}\n`);
-    } else {
-      ctx.stdout.write('              total        used        free\n');
-      ctx.stdout.write(`Mem:     ${String(total).padStart(10)}  ${String(used).padStart(10)}  ${String(free).padStart(10)}\n`);
-    }
+    ctx.stdout.write('              total        used        free\n');
+    ctx.stdout.write(`Mem:     ${format(total)}  ${format(used)}  ${format(free)}\n`);
   } else {
     ctx.stdout.write('Memory information not available in this browser\n');
   }
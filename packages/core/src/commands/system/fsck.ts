@@ -0,0 +1,70 @@
+import type { Command } from '../types.js';
+import type { FsckReport } from '../../kernel/vfs/index.js';
+
+/** Runs the check, e.g. Kernel.fsck */
+export type FsckFn = (options: { repair: boolean }) => Promise<FsckReport>;
+
+const USAGE = 'Usage: fsck [-n | -y] [-v]\n';
+
+// Exit status bits, as in fsck(8)
+const ERRORS_CORRECTED = 1;
+const ERRORS_LEFT = 4;
+const OPERATIONAL_ERROR = 8;
+const USAGE_ERROR = 16;
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+export function createFsckCommand(check: FsckFn): Command {
+  return async (ctx) => {
+    let repair = false;
+    let verbose = false;
+    for (const arg of ctx.args) {
+      if (!/^-[nyapv]+$/.test(arg)) {
+        ctx.stderr.write(`fsck: invalid option '${arg}'\n${USAGE}`);
+        return USAGE_ERROR;
+      }
+      for (const flag of arg.slice(1)) {
+        if (flag === 'v') verbose = true;
+        else repair = flag !== 'n';
+      }
+    }
+
+    if (repair && ctx.vfs.getCredentials().uid !== 0) {
+      ctx.stderr.write('fsck: must be superuser to repair the filesystem\n');
+      return OPERATIONAL_ERROR;
+    }
+
+    let report: FsckReport;
+    try {
+      report = await check({ repair });
+    } catch (e) {
+      ctx.stderr.write(`fsck: ${e instanceof Error ? e.message : String(e)}\n`);
+      return OPERATIONAL_ERROR;
+    }
+
+    const { damaged, orphans, orphanBlobs, recovered } = report;
+    if (recovered.length > 0) {
+      ctx.stdout.write(`${plural(recovered.length, 'chunk')} recovered from the blob store\n`);
+    }
+    for (const { path, missing } of damaged) {
+      ctx.stdout.write(`${path}: ${plural(missing.length, 'missing chunk')}${repair ? ', truncated' : ''}\n`);
+    }
+    if (orphans.length > 0) {
+      ctx.stdout.write(`${plural(orphans.length, 'orphaned chunk')}${repair ? ', freed' : ''}\n`);
+      if (verbose) for (const hash of orphans) ctx.stdout.write(`  ${hash}\n`);
+    }
+    if (orphanBlobs.length > 0) {
+      ctx.stdout.write(`${plural(orphanBlobs.length, 'orphaned blob')}${repair ? ', deleted' : ''}\n`);
+      if (verbose) for (const hash of orphanBlobs) ctx.stdout.write(`  ${hash}\n`);
+    }
+
+    const problems = damaged.length + orphans.length + orphanBlobs.length;
+    if (problems === 0) {
+      ctx.stdout.write('fsck: filesystem clean\n');
+      return recovered.length > 0 ? ERRORS_CORRECTED : 0;
+    }
+    return repair ? ERRORS_CORRECTED : ERRORS_LEFT;
+  };
+}
@@ -4,7 +4,7 @@ import type { CommandRegistry } from '../registry.js';
 const BUILTINS = [
   'cd', 'pwd', 'echo', 'clear', 'export', 'exit',
   'true', 'false', 'jobs', 'fg', 'bg', 'history',
-  'source', '.', 'alias', 'unalias',
+  'source', '.', 'alias', 'unalias', 'exec', 'declare', 'typeset', 'local', 'unset',
 ];
 
 const CATEGORIES: Record<string, string[]> = {
@@ -12,7 +12,8 @@ const CATEGORIES: Record<string, string[]> = {
   'File system': [
     'ls', 'cat', 'mkdir', 'rm', 'cp', 'mv', 'touch', 'find', 'tree',
     'stat', 'ln', 'du', 'df', 'chmod', 'file', 'rmdir', 'realpath',
-    'basename', 'dirname', 'mktemp', 'chown',
+    'basename', 'dirname', 'mktemp', 'chown', 'inotifywait', 'mkfifo',
+    'getfattr', 'setfattr',
   ],
   'Text processing': [
     'grep', 'head', 'tail', 'wc', 'sort', 'uniq', 'cut', 'tr',
@@ -22,7 +23,8 @@ const CATEGORIES: Record<string, string[]> = {
   'System': [
     'env', 'uname', 'date', 'sleep', 'uptime', 'whoami', 'hostname',
     'free', 'which', 'ps', 'top', 'kill', 'watch', 'cal', 'bc',
-    'man', 'help',
+    'man', 'help', 'id', 'su', 'sudo', 'useradd', 'mount', 'umount', 'findmnt',
+    'fsck', 'passphrase', 'watchexec',
   ],
   'Network': ['curl', 'wget', 'ping', 'dig'],
   'Archive': ['tar', 'gzip', 'gunzip', 'zip', 'unzip'],
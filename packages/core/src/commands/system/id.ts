@@ -0,0 +1,57 @@
+import type { Command } from '../types.js';
+import type { Credentials } from '../../kernel/vfs/index.js';
+import { findUser, findGroup, credentialsFor } from '../../kernel/users/index.js';
+
+const command: Command = async (ctx) => {
+  let only: 'u' | 'g' | 'G' | null = null;
+  let names = false;
+  let target: string | undefined;
+
+  for (const arg of ctx.args) {
+    if (arg.startsWith('-') && arg.length > 1) {
+      for (const ch of arg.slice(1)) {
+        if (ch === 'u' || ch === 'g' || ch === 'G') only = ch;
+        else if (ch === 'n') names = true;
+        else {
+          ctx.stderr.write(`id: invalid option -- '${ch}'\n`);
+          return 1;
+        }
+      }
+    } else {
+      target = arg;
+    }
+  }
+
+  let cred: Credentials;
+  if (target !== undefined) {
+    const user = findUser(ctx.vfs, target);
+    if (!user) {
+      ctx.stderr.write(`id: '${target}': no such user\n`);
+      return 1;
+    }
+    cred = credentialsFor(ctx.vfs, user);
+  } else {
+    cred = ctx.vfs.getCredentials();
+  }
+
+  const userName = (uid: number) => findUser(ctx.vfs, uid)?.name;
+  const groupName = (gid: number) => findGroup(ctx.vfs, gid)?.name;
+  const groups = [cred.gid, ...(cred.groups ?? []).filter((g) => g !== cred.gid)];
+
+  if (only) {
+    const ids = only === 'u' ? [cred.uid] : only === 'g' ? [cred.gid] : groups;
+    const lookup = only === 'u' ? userName : groupName;
+    ctx.stdout.write(ids.map((id) => (names ? lookup(id) ?? String(id) : String(id))).join(' ') + '\n');
+    return 0;
+  }
+
+  const label = (id: number, name: string | undefined) => (name ? `${id}(${name})` : String(id));
+  ctx.stdout.write(
+    `uid=${label(cred.uid, userName(cred.uid))} ` +
+    `gid=${label(cred.gid, groupName(cred.gid))} ` +
+    `groups=${groups.map((g) => label(g, groupName(g))).join(',')}\n`,
+  );
+  return 0;
+};
+
+export default command;
@@ -1,5 +1,6 @@
 import type { Command } from '../types.js';
 import type { JobTable } from '../../shell/jobs.js';
+import type { ProcessTable } from '../../kernel/process/index.js';
 
 const SIGNALS: Record<string, number> = {
   HUP: 1, INT: 2, QUIT: 3, KILL: 9, TERM: 15, STOP: 19, CONT: 18,
@@ -10,7 +11,7 @@ const SIGNAL_NAMES: Record<number, string> = {
   1: 'HUP', 2: 'INT', 3: 'QUIT', 9: 'KILL', 15: 'TERM', 19: 'STOP', 18: 'CONT',
 };
 
-export function createKillCommand(jobTable: JobTable): Command {
+export function createKillCommand(processes: ProcessTable, jobTable: JobTable): Command {
   return async (ctx) => {
     const args = ctx.args;
 
@@ -30,6 +31,7 @@ export function createKillCommand(jobTable: JobTable): Command {
 
     // Parse optional signal
     let startIdx = 0;
+    let signal = SIGNALS.TERM;
 
     if (args[0].startsWith('-') && !args[0].startsWith('-%')) {
       const sigArg = args[0].slice(1);
@@ -38,9 +40,9 @@ export function createKillCommand(jobTable: JobTable): Command {
       // Validate signal
       const num = parseInt(sigArg, 10);
       if (!isNaN(num) && SIGNAL_NAMES[num]) {
-        // valid numeric signal
+        signal = num;
       } else if (SIGNALS[sigArg.toUpperCase()] !== undefined) {
-        // valid named signal
+        signal = SIGNALS[sigArg.toUpperCase()];
       } else {
         ctx.stderr.write(`kill: invalid signal: ${sigArg}\n`);
         return 1;
@@ -57,42 +59,37 @@ export function createKillCommand(jobTable: JobTable): Command {
     for (let i = startIdx; i < args.length; i++) {
       const target = args[i];
 
-      let jobId: number;
-
       if (target.startsWith('%')) {
         // Job spec: %N
-        jobId = parseInt(target.slice(1), 10);
-        if (isNaN(jobId)) {
-          ctx.stderr.write(`kill: ${target}: no such job\n`);
-          exitCode = 1;
-          continue;
-        }
-      } else {
-        // PID: map to jobId (pid = jobId + 1)
-        const pid = parseInt(target, 10);
-        if (isNaN(pid)) {
-          ctx.stderr.write(`kill: ${target}: invalid argument\n`);
-          exitCode = 1;
-          continue;
-        }
-
-        if (pid === 1) {
-          ctx.stderr.write('kill: (1) - Operation not permitted\n');
+        const jobId = parseInt(target.slice(1), 10);
+        const job = isNaN(jobId) ? undefined : jobTable.get(jobId);
+        if (!job) {
+          ctx.stderr.write(`kill: ${target}: no such process\n`);
           exitCode = 1;
           continue;
         }
+        job.abortController.abort();
+        continue;
+      }
 
-        jobId = pid - 1;
+      const pid = parseInt(target, 10);
+      if (isNaN(pid)) {
+        ctx.stderr.write(`kill: ${target}: invalid argument\n`);
+        exitCode = 1;
+        continue;
       }
 
-      const job = jobTable.get(jobId);
-      if (!job) {
-        ctx.stderr.write(`kill: ${target}: no such process\n`);
+      // PID 1 is the login shell; like init, it cannot be killed
+      if (pid === 1) {
+        ctx.stderr.write('kill: (1) - Operation not permitted\n');
         exitCode = 1;
         continue;
       }
 
-      job.abortController.abort();
+      if (!processes.kill(pid, signal)) {
+        ctx.stderr.write(`kill: (${pid}) - No such process\n`);
+        exitCode = 1;
+      }
     }
 
     return exitCode;
@@ -17,21 +17,26 @@ const PAGES: Record<string, { synopsis: string; description: string }> = {
   source: { synopsis: 'source FILE', description: 'Read and execute commands from FILE in the current shell environment. Shell sources /etc/profile and ~/.liforc on startup.' },
   alias: { synopsis: 'alias [NAME=VALUE...]', description: 'Define or display aliases. Without arguments, lists all aliases.' },
   unalias: { synopsis: 'unalias NAME...', description: 'Remove alias definitions.' },
+  exec: { synopsis: 'exec [COMMAND [ARG...]] [REDIRECTION...]', description: 'Without COMMAND, apply the redirections to the shell itself, so later commands inherit them: exec 3>log opens fd 3, exec 2>&1 sends errors to stdout, exec 3>&- closes fd 3. With COMMAND, run it with the redirections.' },
+  declare: { synopsis: 'declare [-aAgp] [NAME[=VALUE]...]', description: 'Set variables, arrays included: declare -a arr=(x y) makes an indexed array, declare -A map=([key]=value) an associative one. In a function the variables are local to the call, unless -g is given. -p, or no arguments, prints the variables as declare commands. typeset is the same.' },
+  typeset: { synopsis: 'typeset [-aAgp] [NAME[=VALUE]...]', description: 'The same as declare.' },
+  local: { synopsis: 'local [-aAp] [NAME[=VALUE]...]', description: 'Declare variables local to the function being run, as declare does there. Only works in a function.' },
+  unset: { synopsis: 'unset [-fv] NAME...', description: "Remove variables, or with -f functions. unset 'arr[1]' removes one element of an array." },
 
   // Filesystem
   ls: { synopsis: 'ls [-laR1h] [FILE...]', description: 'List directory contents. -l for long format, -a to show hidden files, -R recursive, -1 one per line, -h human-readable sizes.' },
   cat: { synopsis: 'cat [FILE...]', description: 'Concatenate and print files to standard output.' },
   mkdir: { synopsis: 'mkdir [-p] DIR...', description: 'Create directories. -p creates parent directories as needed.' },
   rm: { synopsis: 'rm [-rf] FILE...', description: 'Remove files or directories. -r recursive, -f force (no error if missing).' },
-  cp: { synopsis: 'cp [-r] SOURCE DEST', description: 'Copy files and directories. -r for recursive copy.' },
+  cp: { synopsis: 'cp [-apr] SOURCE... DEST', description: 'Copy files and directories. -r (-R) for recursive copy. -p keeps mode and ownership. -a copies recursively, symlinks as symlinks, keeping mode, ownership and extended attributes.' },
   mv: { synopsis: 'mv SOURCE DEST', description: 'Move or rename files and directories.' },
   touch: { synopsis: 'touch FILE...', description: 'Create empty files or update access/modification times.' },
   find: { synopsis: 'find [PATH] [-name PATTERN] [-type TYPE]', description: 'Search for files in a directory hierarchy.' },
   tree: { synopsis: 'tree [DIR]', description: 'Display directory structure as a tree.' },
   stat: { synopsis: 'stat FILE...', description: 'Display file status and metadata.' },
   ln: { synopsis: 'ln [-s] TARGET LINK', description: 'Create links between files. -s for symbolic links.' },
-  du: { synopsis: 'du [-sh] [FILE...]', description: 'Estimate file space usage. -s summary only, -h human-readable.' },
-  df: { synopsis: 'df [-h]', description: 'Report filesystem disk space usage. -h human-readable.' },
+  du: { synopsis: 'du [-sh] [FILE...]', description: 'Estimate file space usage, counting hard-linked files once and not following symlinks. -s summary only, -h human-readable.' },
+  df: { synopsis: 'df [-ahi] [FILE...]', description: 'Report space used on the root filesystem and each mounted one, against its quota; Size is - where there is no limit. -h human-readable, -i count inodes instead of bytes, -a include pseudo filesystems such as /proc. With FILEs, only the filesystems they are on.' },
   chmod: { synopsis: 'chmod MODE FILE...', description: 'Change file mode bits.' },
   file: { synopsis: 'file FILE...', description: 'Determine file type.' },
   rmdir: { synopsis: 'rmdir [-p] DIR...', description: 'Remove empty directories. -p removes parent directories as well.' },
@@ -39,7 +44,11 @@ const PAGES: Record<string, { synopsis: string; description: string }> = {
   basename: { synopsis: 'basename NAME [SUFFIX]', description: 'Strip directory and optional SUFFIX from NAME.' },
   dirname: { synopsis: 'dirname NAME...', description: 'Strip last component from each NAME, outputting the parent directory.' },
   mktemp: { synopsis: 'mktemp [-d] [-p DIR] [TEMPLATE]', description: 'Create a temporary file or directory. -d creates a directory. TEMPLATE defaults to tmp.XXXXXXXXXX.' },
-  chown: { synopsis: 'chown [-R] OWNER[:GROUP] FILE...', description: 'Change file owner and group (no-op in single-user Lifo).' },
+  chown: { synopsis: 'chown [-R] OWNER[:GROUP] FILE...', description: 'Change file owner and group. OWNER and GROUP are names from /etc/passwd and /etc/group, or numeric ids. Only root may give files away. -R recursive.' },
+  inotifywait: { synopsis: 'inotifywait [-m] [-r] [-q] [-e EVENT[,EVENT]] [-t SECONDS] [--include REGEX] [--exclude REGEX] FILE...', description: 'Wait for changes to files or the entries of directories and print them as "DIR EVENTS NAME". Events: create, modify, close_write, attrib, delete, moved_from, moved_to, move. -m keeps watching instead of exiting after one event; -r watches subdirectories; -t exits with status 2 after SECONDS without an event.' },
+  getfattr: { synopsis: 'getfattr [-d] [-n NAME] [-m PATTERN] [-e text|hex|base64] [--only-values] [--absolute-names] FILE...', description: 'Print extended attributes. Without -n, lists the names matching PATTERN (default ^user\\., "-" for all); -d prints their values too. Values are shown as "text", 0x hex or 0s base64.' },
+  setfattr: { synopsis: 'setfattr {-n NAME [-v VALUE] | -x NAME} FILE...', description: 'Set (-n) or remove (-x) an extended attribute. VALUE is text, "quoted text", 0x hex or 0s base64. user.* attributes need write access; trusted.* and security.* need root. user.mime_type overrides the MIME type used by file and the file viewer.' },
+  mkfifo: { synopsis: 'mkfifo [-m MODE] NAME...', description: 'Create named pipes (FIFOs). A reader of a FIFO waits for a writer and gets what it writes; neither end stores data. -m sets the octal permission mode (default 644).' },
 
   // Text processing
   grep: { synopsis: 'grep [-invcrl] PATTERN [FILE...]', description: 'Search for lines matching PATTERN. -i ignore case, -n line numbers, -v invert, -c count, -r recursive, -l files only.' },
@@ -69,13 +78,23 @@ const PAGES: Record<string, { synopsis: string; description: string }> = {
   sleep: { synopsis: 'sleep SECONDS', description: 'Delay for a specified number of seconds.' },
   uptime: { synopsis: 'uptime', description: 'Show how long the system has been running.' },
   whoami: { synopsis: 'whoami', description: 'Print the current user name.' },
+  id: { synopsis: 'id [-u|-g|-G] [-n] [USER]', description: 'Print user and group ids. -u user id, -g group id, -G all groups, -n names instead of numbers.' },
+  su: { synopsis: 'su [-] [-c COMMAND] [USER]', description: 'Run COMMAND (or stdin) as USER, root by default. Only root may switch users; use sudo otherwise. - starts in the user\'s home.' },
+  sudo: { synopsis: 'sudo [-i] [-u USER] COMMAND [ARGS...]', description: 'Run a command as root (or USER). Allowed for members of the sudo group.' },
+  useradd: { synopsis: 'useradd [-m] [-d HOME] [-s SHELL] [-u UID] [-g GROUP] [-G GROUPS] LOGIN', description: 'Create a user account in /etc/passwd. -m creates the home directory. Root only.' },
+  mount: { synopsis: 'mount [-t TYPE] [-o OPTIONS] SOURCE TARGET | mount -a | mount [-t TYPE]', description: 'Mount a filesystem of TYPE on the directory TARGET: tmpfs (or memory) for an empty in-memory filesystem (limited by -o size=BYTES[k|m|g],nr_inodes=N), archive for a tar, tar.gz or zip file, native for a host directory. With one operand, mount the /etc/fstab entry for it; with -a, everything in /etc/fstab. Without operands, list the mounted filesystems.' },
+  umount: { synopsis: 'umount TARGET...', description: 'Unmount the filesystems mounted on each TARGET, given as the mount point or what was mounted.' },
+  findmnt: { synopsis: 'findmnt [-l] [-n] [-t TYPES] [TARGET]', description: 'List mounted filesystems as a tree, or as a list with -l. -t limits the list to the comma-separated TYPES; TARGET selects a mount by mount point or source.' },
   hostname: { synopsis: 'hostname', description: 'Print the system hostname.' },
+  fsck: { synopsis: 'fsck [-n | -y] [-v]', description: 'Check that the chunks holding large files are all present, copying back any the cache lost from persistent storage, and count stored chunks and blobs that no file refers to. -n (the default) only reports; -y (or -a, -p) truncates files whose content is lost and frees the orphans. -v lists the orphans. Exit status: 0 clean, 1 errors corrected, 4 errors left.' },
+  passphrase: { synopsis: 'passphrase', description: 'Encrypt the persisted filesystem under a new passphrase, read twice from the terminal without echo. A plaintext filesystem is encrypted for the first time; an encrypted one keeps its data and only the key protecting it changes. The passphrase is asked for at boot. Must be run as root.' },
   free: { synopsis: 'free [-h]', description: 'Display amount of free and used memory.' },
   which: { synopsis: 'which COMMAND...', description: 'Locate a command, showing if it is a builtin or external command.' },
   ps: { synopsis: 'ps', description: 'Report a snapshot of current processes. Shell is PID 1, background jobs follow.' },
   top: { synopsis: 'top', description: 'Display a single snapshot of system processes, memory, and CPU information.' },
   kill: { synopsis: 'kill [-SIGNAL] PID|%JOB...', description: 'Send a signal to a process or job. -l lists signals. Supports PID or %JOB notation.' },
   watch: { synopsis: 'watch [-n SEC] COMMAND [ARGS...]', description: 'Execute COMMAND repeatedly, displaying output. -n sets interval (default 2s). Ctrl+C to stop.' },
+  watchexec: { synopsis: 'watchexec [-w PATH]... [-e EXTS] [-f GLOB]... [-i GLOB]... [-d MS] [-p] [-c] [--] COMMAND...', description: 'Run COMMAND, then run it again whenever files under PATH (default .) change. -e and -f keep only changes to files with those extensions or matching GLOB, -i ignores changes matching GLOB. Changes within -d MS (default 50) are batched; the changed paths are in $WATCHEXEC_WRITTEN_PATH and friends. -p waits for the first change; -c clears the screen before each run.' },
   cal: { synopsis: 'cal [MONTH YEAR]', description: 'Display a calendar. No args: current month. One arg >12: full year. Two args: specific month and year.' },
   bc: { synopsis: 'bc [-e EXPR]', description: 'An arbitrary precision calculator. Supports +, -, *, /, %, ^ (power), sqrt(), variables, and scale.' },
   man: { synopsis: 'man [-k] COMMAND', description: 'Display manual page for COMMAND. -k searches descriptions for a keyword.' },
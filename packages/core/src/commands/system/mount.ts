@@ -0,0 +1,96 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { resolve } from '../../utils/path.js';
+import { VFSError, parseFstab, FSTAB_PATH } from '../../kernel/vfs/index.js';
+import type { MountTypeRegistry } from '../../kernel/vfs/index.js';
+
+const spec = {
+  types: { type: 'string' as const, short: 't' },
+  options: { type: 'string' as const, short: 'o' },
+  all: { type: 'boolean' as const, short: 'a' },
+};
+
+const USAGE = 'Usage: mount [-t TYPE] [-o OPTIONS] SOURCE TARGET\n       mount -a\n       mount [-t TYPE]\n';
+
+export function createMountCommand(mountTypes: MountTypeRegistry): Command {
+  return async (ctx) => {
+    const { flags, positional } = parseArgs(ctx.args, spec);
+    const type = flags.types ? (flags.types as string) : undefined;
+
+    // With no operands, list the mount table
+    if (positional.length === 0 && !flags.all) {
+      for (const m of ctx.vfs.listMounts()) {
+        if (type && m.type !== type) continue;
+        ctx.stdout.write(`${m.source} on ${m.path} type ${m.type} (${m.options.join(',')})\n`);
+      }
+      return 0;
+    }
+
+    if (ctx.vfs.getCredentials().uid !== 0) {
+      ctx.stderr.write('mount: must be superuser to use mount.\n');
+      return 32;
+    }
+
+    if (flags.all) {
+      const failures = await mountTypes.mountAll(ctx.vfs);
+      for (const { entry, error } of failures) {
+        ctx.stderr.write(`mount: ${entry.target}: ${error.message}\n`);
+      }
+      return failures.length > 0 ? 32 : 0;
+    }
+
+    let source: string;
+    let target: string;
+    let fsType = type;
+    let options = flags.options ? (flags.options as string).split(',').filter(Boolean) : [];
+
+    if (positional.length === 1) {
+      // A single operand names an /etc/fstab entry by target or source
+      const fstab = ctx.vfs.exists(FSTAB_PATH) ? parseFstab(ctx.vfs.readFileString(FSTAB_PATH)) : [];
+      const wanted = positional[0];
+      const entry = fstab.find((e) => e.target === resolve(ctx.cwd, wanted) || e.source === wanted);
+      if (!entry) {
+        ctx.stderr.write(`mount: ${wanted}: can't find in ${FSTAB_PATH}.\n`);
+        return 1;
+      }
+      ({ source, target } = entry);
+      fsType ??= entry.type;
+      options = [...entry.options.filter((o) => o !== 'auto' && o !== 'noauto'), ...options];
+    } else if (positional.length === 2) {
+      [source, target] = positional;
+    } else {
+      ctx.stderr.write(USAGE);
+      return 1;
+    }
+
+    if (!fsType) {
+      ctx.stderr.write('mount: you must specify the filesystem type\n');
+      return 32;
+    }
+    if (!mountTypes.has(fsType)) {
+      ctx.stderr.write(`mount: unknown filesystem type '${fsType}'\n`);
+      return 32;
+    }
+
+    const targetPath = resolve(ctx.cwd, target);
+    if (!ctx.vfs.exists(targetPath)) {
+      ctx.stderr.write(`mount: ${target}: mount point does not exist.\n`);
+      return 32;
+    }
+    if (ctx.vfs.stat(targetPath).type !== 'directory') {
+      ctx.stderr.write(`mount: ${target}: mount point is not a directory.\n`);
+      return 32;
+    }
+
+    try {
+      await mountTypes.mount(ctx.vfs, fsType, source, targetPath, options, ctx.cwd);
+    } catch (e) {
+      if (e instanceof VFSError) {
+        ctx.stderr.write(`mount: ${source}: ${e.message}\n`);
+        return 32;
+      }
+      throw e;
+    }
+    return 0;
+  };
+}
@@ -8,6 +8,7 @@ import { Buffer } from '../../node-compat/buffer.js';
 import { VFSError } from '../../kernel/vfs/index.js';
 import { ACTIVE_SERVERS } from '../../node-compat/http.js';
 import type { VirtualRequestHandler } from '../../kernel/index.js';
+import type { ProcessTable } from '../../kernel/process/index.js';
 
 const NODE_VERSION = 'v20.0.0';
 
@@ -21,8 +22,11 @@ function stripShebang(src: string): string {
   return src;
 }
 
-function createNodeImpl(portRegistry?: Map<number, VirtualRequestHandler>): Command {
+function createNodeImpl(portRegistry?: Map<number, VirtualRequestHandler>, processes?: ProcessTable): Command {
   return async (ctx) => {
+    const pid = ctx.pid;
+    const ppid = pid !== undefined ? processes?.get(pid)?.ppid : undefined;
+
     // Handle -v/--version
     if (ctx.args.length > 0 && (ctx.args[0] === '-v' || ctx.args[0] === '--version')) {
       ctx.stdout.write(NODE_VERSION + '\n');
@@ -90,6 +94,9 @@ function createNodeImpl(portRegistry?: Map<number, VirtualRequestHandler>): Comm
       dirname: dir,
       signal: ctx.signal,
       portRegistry,
+      pid,
+      ppid,
+      fds: pid !== undefined ? processes?.get(pid)?.fds : undefined,
     };
 
     const moduleMap = createModuleMap(nodeCtx);
@@ -269,6 +276,8 @@ function createNodeImpl(portRegistry?: Map<number, VirtualRequestHandler>): Comm
         cwd: nodeCtx.cwd,
         stdout: ctx.stdout,
         stderr: ctx.stderr,
+        pid,
+        ppid,
       });
       const modConsole = createConsole(ctx.stdout, ctx.stderr);
 
@@ -349,6 +358,8 @@ function createNodeImpl(portRegistry?: Map<number, VirtualRequestHandler>): Comm
       cwd: nodeCtx.cwd,
       stdout: ctx.stdout,
       stderr: ctx.stderr,
+      pid,
+      ppid,
     });
     const nodeConsole = createConsole(ctx.stdout, ctx.stderr);
 
@@ -418,8 +429,8 @@ function createNodeImpl(portRegistry?: Map<number, VirtualRequestHandler>): Comm
   };
 }
 
-export function createNodeCommand(portRegistry: Map<number, VirtualRequestHandler>): Command {
-  return createNodeImpl(portRegistry);
+export function createNodeCommand(portRegistry: Map<number, VirtualRequestHandler>, processes?: ProcessTable): Command {
+  return createNodeImpl(portRegistry, processes);
 }
 
 // Default command (no port registry -- createServer throws)
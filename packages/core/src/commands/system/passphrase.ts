@@ -0,0 +1,84 @@
+import type { Command, CommandContext } from '../types.js';
+
+/** Re-encrypts the persisted filesystem, e.g. Kernel.changePassphrase */
+export type ChangePassphraseFn = (passphrase: string) => Promise<void>;
+
+/**
+ * Reads one line at a time from stdin. In a terminal the keys are read raw,
+ * so nothing typed is echoed.
+ */
+function lineReader(ctx: CommandContext): (prompt: string) => Promise<string | null> {
+  let buffered = '';
+  let eof = false;
+
+  return async (prompt) => {
+    ctx.stdout.write(prompt);
+    ctx.setRawMode?.(true);
+    try {
+      while (!/[\r\n]/.test(buffered) && !eof) {
+        const data = await ctx.stdin?.read();
+        if (data === null || data === undefined) {
+          eof = true;
+        } else if (data === '\x03') {
+          eof = true;
+          buffered = '';
+        } else if (data === '\x7f') {
+          buffered = buffered.slice(0, -1);
+        } else {
+          buffered += data;
+        }
+      }
+    } finally {
+      ctx.setRawMode?.(false);
+      ctx.stdout.write('\n');
+    }
+
+    const end = buffered.search(/[\r\n]/);
+    if (end === -1) {
+      // End of input: whatever is left is the last line
+      const rest = buffered;
+      buffered = '';
+      return rest || null;
+    }
+    const line = buffered.slice(0, end);
+    buffered = buffered.slice(end + (buffered.startsWith('\r\n', end) ? 2 : 1));
+    return line;
+  };
+}
+
+export function createPassphraseCommand(change: ChangePassphraseFn): Command {
+  return async (ctx) => {
+    if (ctx.args.length > 0) {
+      ctx.stderr.write('Usage: passphrase\n');
+      return 2;
+    }
+    if (ctx.vfs.getCredentials().uid !== 0) {
+      ctx.stderr.write('passphrase: must be superuser to change the passphrase\n');
+      return 1;
+    }
+
+    const readLine = lineReader(ctx);
+    const passphrase = await readLine('New passphrase: ');
+    if (passphrase === null) {
+      ctx.stderr.write('passphrase: no passphrase given\n');
+      return 1;
+    }
+    if (passphrase === '') {
+      ctx.stderr.write('passphrase: the passphrase must not be empty\n');
+      return 1;
+    }
+    if ((await readLine('Retype new passphrase: ')) !== passphrase) {
+      ctx.stderr.write('passphrase: passphrases do not match\n');
+      return 1;
+    }
+
+    try {
+      await change(passphrase);
+    } catch (e) {
+      ctx.stderr.write(`passphrase: ${e instanceof Error ? e.message : String(e)}\n`);
+      return 1;
+    }
+    ctx.stdout.write('passphrase: filesystem encrypted with the new passphrase\n');
+    return 0;
+  };
+}
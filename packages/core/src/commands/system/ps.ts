@@ -1,26 +1,50 @@
 import type { Command } from '../types.js';
-import type { JobTable } from '../../shell/jobs.js';
+import type { ProcessTable, Process } from '../../kernel/process/index.js';
+import { readUsers } from '../../kernel/users/index.js';
 
-export function createPsCommand(jobTable: JobTable): Command {
+function formatStartTime(ts: number): string {
+  const d = new Date(ts);
+  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+export function createPsCommand(processes: ProcessTable): Command {
   return async (ctx) => {
-    ctx.stdout.write('  PID TTY          TIME CMD\n');
+    let full = false;
 
-    // Shell is always PID 1
-    ctx.stdout.write('    1 tty1     00:00:00 sh\n');
+    for (const arg of ctx.args) {
+      if (!arg.startsWith('-')) continue;
+      // -e/-A (every process) is the default here: all processes share tty1
+      for (const ch of arg.slice(1)) {
+        if (ch === 'f') full = true;
+        else if (ch !== 'e' && ch !== 'A') {
+          ctx.stderr.write(`ps: unknown option -- '${ch}'\n`);
+          return 1;
+        }
+      }
+    }
 
-    // Background jobs
-    const jobs = jobTable.list();
-    for (const job of jobs) {
-      const pid = String(job.id + 1).padStart(5, ' ');
-      const status = job.status === 'running' ? '' : `  [${job.status}]`;
-      // Extract command name (first word)
-      const cmdName = job.command.split(/\s+/)[0];
-      ctx.stdout.write(`${pid} tty1     00:00:00 ${cmdName}${status}\n`);
+    const userNames = new Map(readUsers(ctx.vfs).map((u) => [u.uid, u.name]));
+    const list = processes.list()
+      .filter((p: Process) => p.state !== 'zombie')
+      .sort((a, b) => a.pid - b.pid);
+
+    if (full) {
+      ctx.stdout.write('UID          PID    PPID  C STIME TTY          TIME CMD\n');
+      for (const p of list) {
+        const uid = (userNames.get(p.uid) ?? String(p.uid)).padEnd(8, ' ');
+        const pid = String(p.pid).padStart(7, ' ');
+        const ppid = String(p.ppid).padStart(7, ' ');
+        ctx.stdout.write(`${uid} ${pid} ${ppid}  0 ${formatStartTime(p.startTime)} tty1     00:00:00 ${p.argv.join(' ')}\n`);
+      }
+      return 0;
     }
 
-    // ps itself is the last entry
-    const psPid = String(jobs.length + 2).padStart(5, ' ');
-    ctx.stdout.write(`${psPid} tty1     00:00:00 ps\n`);
+    ctx.stdout.write('  PID TTY          TIME CMD\n');
+    for (const p of list) {
+      const pid = String(p.pid).padStart(5, ' ');
+      const status = p.state === 'stopped' ? '  [stopped]' : '';
+      ctx.stdout.write(`${pid} tty1     00:00:00 ${p.argv[0] ?? ''}${status}\n`);
+    }
 
     return 0;
   };
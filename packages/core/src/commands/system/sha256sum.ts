@@ -30,7 +30,7 @@ const command: Command = async (ctx) => {
     const path = resolve(ctx.cwd, files[0]);
     let content: string;
     try {
-      content = ctx.vfs.readFileString(path);
+      content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
     } catch (e) {
       if (e instanceof VFSError) {
         ctx.stderr.write(`sha256sum: ${files[0]}: ${e.message}\n`);
@@ -70,7 +70,7 @@ const command: Command = async (ctx) => {
   for (const file of files) {
     const path = resolve(ctx.cwd, file);
     try {
-      const data = ctx.vfs.readFile(path);
+      const data = await ctx.vfs.readFileAsync(path, ctx.signal);
       const hash = await sha256(data);
       ctx.stdout.write(`${hash}  ${file}\n`);
     } catch (e) {
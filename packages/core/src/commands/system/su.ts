@@ -0,0 +1,58 @@
+import type { Command, CommandContext } from '../types.js';
+import { findUser } from '../../kernel/users/index.js';
+import type { PasswdEntry } from '../../kernel/users/index.js';
+
+/**
+ * Run a shell command line in a child shell acting as `user`, with the
+ * working directory and output streams of `ctx`. Provided by the shell.
+ */
+export type RunAsFn = (
+  user: PasswdEntry,
+  cmd: string,
+  ctx: CommandContext,
+) => Promise<number>;
+
+export function createSuCommand(runAs: RunAsFn): Command {
+  return async (ctx) => {
+    let login = false;
+    let cmd: string | undefined;
+    let target = 'root';
+
+    for (let i = 0; i < ctx.args.length; i++) {
+      const arg = ctx.args[i];
+      if (arg === '-' || arg === '-l' || arg === '--login') {
+        login = true;
+      } else if (arg === '-c' || arg === '--command') {
+        cmd = ctx.args[++i];
+        if (cmd === undefined) {
+          ctx.stderr.write(`su: option '${arg}' requires an argument\n`);
+          return 1;
+        }
+      } else if (arg.startsWith('-')) {
+        ctx.stderr.write(`su: invalid option -- '${arg.slice(1)}'\n`);
+        return 1;
+      } else {
+        target = arg;
+      }
+    }
+
+    const user = findUser(ctx.vfs, target);
+    if (!user) {
+      ctx.stderr.write(`su: user ${target} does not exist\n`);
+      return 1;
+    }
+
+    // There are no passwords to check, so only root may switch freely;
+    // everyone else goes through sudo
+    if (ctx.vfs.getCredentials().uid !== 0) {
+      ctx.stderr.write('su: Authentication failure\n');
+      return 1;
+    }
+
+    // Without -c, run whatever arrives on stdin as a script
+    const script = cmd ?? (ctx.stdin ? await ctx.stdin.readAll() : '');
+    if (!script.trim()) return 0;
+
+    return runAs(user, script, login ? { ...ctx, cwd: user.home } : ctx);
+  };
+}
@@ -0,0 +1,64 @@
+import type { Command } from '../types.js';
+import { findUser, findGroup, SUDO_GROUP } from '../../kernel/users/index.js';
+import type { RunAsFn } from './su.js';
+
+/** Quote an argument so the child shell sees it as a single word */
+export function shellQuote(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export function createSudoCommand(runAs: RunAsFn): Command {
+  return async (ctx) => {
+    let targetName = 'root';
+    let login = false;
+    let i = 0;
+
+    for (; i < ctx.args.length; i++) {
+      const arg = ctx.args[i];
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (!arg.startsWith('-')) break;
+      if (arg === '-u' || arg === '--user') {
+        targetName = ctx.args[++i] ?? '';
+      } else if (arg === '-i' || arg === '--login') {
+        login = true;
+      } else {
+        ctx.stderr.write(`sudo: invalid option -- '${arg.slice(1)}'\n`);
+        return 1;
+      }
+    }
+
+    const argv = ctx.args.slice(i);
+    if (argv.length === 0 && !login) {
+      ctx.stderr.write('usage: sudo [-i] [-u user] command [arg ...]\n');
+      return 1;
+    }
+
+    // Only root and members of the sudo group may use sudo
+    const cred = ctx.vfs.getCredentials();
+    const sudoers = findGroup(ctx.vfs, SUDO_GROUP);
+    const allowed = cred.uid === 0 ||
+      (sudoers !== undefined && (cred.gid === sudoers.gid || !!cred.groups?.includes(sudoers.gid)));
+    if (!allowed) {
+      const name = findUser(ctx.vfs, cred.uid)?.name ?? String(cred.uid);
+      ctx.stderr.write(`${name} is not in the sudoers file.\n`);
+      return 1;
+    }
+
+    const user = findUser(ctx.vfs, targetName);
+    if (!user) {
+      ctx.stderr.write(`sudo: unknown user ${targetName}\n`);
+      return 1;
+    }
+
+    // `sudo -i` alone runs stdin as a login script, like `su -`
+    const cmd = argv.length > 0
+      ? argv.map(shellQuote).join(' ')
+      : (ctx.stdin ? await ctx.stdin.readAll() : '');
+    if (!cmd.trim()) return 0;
+    return runAs(user, cmd, login ? { ...ctx, cwd: user.home } : ctx);
+  };
+}
@@ -1,7 +1,7 @@
 import type { Command } from '../types.js';
-import type { JobTable } from '../../shell/jobs.js';
+import type { ProcessTable } from '../../kernel/process/index.js';
 
-export function createTopCommand(jobTable: JobTable): Command {
+export function createTopCommand(processes: ProcessTable): Command {
   return async (ctx) => {
     const now = new Date();
     const hours = String(now.getHours()).padStart(2, '0');
@@ -22,32 +22,27 @@ export function createTopCommand(jobTable: JobTable): Command {
     const freeMem = totalMem - usedMem;
 
     // Process list
-    const jobs = jobTable.list();
-    const runningCount = jobs.filter(j => j.status === 'running').length;
-    const stoppedCount = jobs.filter(j => j.status === 'stopped').length;
-    const totalTasks = jobs.length + 2; // + shell + top itself
+    const procs = processes.list()
+      .filter(p => p.state !== 'zombie')
+      .sort((a, b) => a.pid - b.pid);
+    const runningCount = procs.filter(p => p.state === 'running').length;
+    const stoppedCount = procs.filter(p => p.state === 'stopped').length;
+    const totalTasks = procs.length;
 
     ctx.stdout.write(`top - ${hours}:${mins}:${secs} up ${uptimeMin} min,  1 user\n`);
-    ctx.stdout.write(`Tasks: ${String(totalTasks).padStart(3, ' ')} total, ${String(runningCount + 2).padStart(3, ' ')} running, ${String(stoppedCount).padStart(3, ' ')} stopped\n`);
+    ctx.stdout.write(`Tasks: ${String(totalTasks).padStart(3, ' ')} total, ${String(runningCount).padStart(3, ' ')} running, ${String(stoppedCount).padStart(3, ' ')} stopped\n`);
     ctx.stdout.write(`%Cpu(s): ${cpuCores} cores\n`);
     ctx.stdout.write(`MiB Mem: ${String(totalMem).padStart(7, ' ')} total ${String(usedMem).padStart(7, ' ')} used ${String(freeMem).padStart(7, ' ')} free\n`);
     ctx.stdout.write('\n');
-    ctx.stdout.write('  PID CMD            STATUS\n');
+    ctx.stdout.write('  PID  PPID CMD            STATUS\n');
 
-    // Shell
-    ctx.stdout.write('    1 sh             running\n');
-
-    // Background jobs
-    for (const job of jobs) {
-      const pid = String(job.id + 1).padStart(5, ' ');
-      const cmdName = job.command.split(/\s+/)[0].padEnd(15, ' ');
-      ctx.stdout.write(`${pid} ${cmdName}${job.status}\n`);
+    for (const p of procs) {
+      const pid = String(p.pid).padStart(5, ' ');
+      const ppid = String(p.ppid).padStart(5, ' ');
+      const cmdName = (p.argv[0] ?? '').padEnd(15, ' ');
+      ctx.stdout.write(`${pid} ${ppid} ${cmdName}${p.state}\n`);
     }
 
-    // top itself
-    const topPid = String(jobs.length + 2).padStart(5, ' ');
-    ctx.stdout.write(`${topPid} top            running\n`);
-
     return 0;
   };
 }
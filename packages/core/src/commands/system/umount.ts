@@ -0,0 +1,31 @@
+import type { Command } from '../types.js';
+import { resolve } from '../../utils/path.js';
+
+const command: Command = async (ctx) => {
+  if (ctx.args.length === 0) {
+    ctx.stderr.write('Usage: umount TARGET...\n');
+    return 1;
+  }
+
+  if (ctx.vfs.getCredentials().uid !== 0) {
+    ctx.stderr.write('umount: must be superuser to unmount.\n');
+    return 32;
+  }
+
+  let exitCode = 0;
+  for (const target of ctx.args) {
+    // Either the mount point or what was mounted on it
+    const path = resolve(ctx.cwd, target);
+    const mount = ctx.vfs.listMounts().find((m) => m.path === path && m.path !== '/')
+      ?? ctx.vfs.listMounts().find((m) => m.source === target && m.path !== '/');
+    if (!mount) {
+      ctx.stderr.write(`umount: ${target}: not mounted.\n`);
+      exitCode = 32;
+      continue;
+    }
+    ctx.vfs.unmount(mount.path);
+  }
+  return exitCode;
+};
+
+export default command;
@@ -0,0 +1,55 @@
+import type { Command } from '../types.js';
+import { parseArgs } from '../../utils/args.js';
+import { addUser } from '../../kernel/users/index.js';
+
+const spec = {
+  'create-home': { type: 'boolean' as const, short: 'm' },
+  'no-create-home': { type: 'boolean' as const, short: 'M' },
+  home: { type: 'string' as const, short: 'd' },
+  shell: { type: 'string' as const, short: 's' },
+  uid: { type: 'string' as const, short: 'u' },
+  gid: { type: 'string' as const, short: 'g' },
+  groups: { type: 'string' as const, short: 'G' },
+  comment: { type: 'string' as const, short: 'c' },
+};
+
+const command: Command = async (ctx) => {
+  const { flags, positional } = parseArgs(ctx.args, spec);
+
+  if (positional.length !== 1) {
+    ctx.stderr.write('Usage: useradd [-m] [-d HOME] [-s SHELL] [-u UID] [-g GROUP] [-G GROUPS] [-c COMMENT] LOGIN\n');
+    return 2;
+  }
+
+  if (ctx.vfs.getCredentials().uid !== 0) {
+    ctx.stderr.write('useradd: Permission denied.\n');
+    return 1;
+  }
+
+  const uid = flags.uid ? Number(flags.uid) : undefined;
+  if (uid !== undefined && (!Number.isInteger(uid) || uid < 0)) {
+    ctx.stderr.write(`useradd: invalid user ID '${flags.uid}'\n`);
+    return 3;
+  }
+
+  try {
+    addUser(ctx.vfs, {
+      name: positional[0],
+      uid,
+      group: (flags.gid as string) || undefined,
+      groups: flags.groups ? (flags.groups as string).split(',').filter(Boolean) : undefined,
+      home: (flags.home as string) || undefined,
+      shell: (flags.shell as string) || undefined,
+      gecos: (flags.comment as string) || undefined,
+      createHome: !!flags['create-home'] && !flags['no-create-home'],
+    });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    ctx.stderr.write(`useradd: ${msg}\n`);
+    return 1;
+  }
+
+  return 0;
+};
+
+export default command;
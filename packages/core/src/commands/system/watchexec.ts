@@ -0,0 +1,135 @@
+import type { Command } from '../types.js';
+import type { ShellExecuteFn } from './npm.js';
+import { shellQuote } from './sudo.js';
+import { resolve, dirname } from '../../utils/path.js';
+import { coalesceEvents } from '../../kernel/vfs/watch.js';
+import type { VFSWatchEvent } from '../../kernel/vfs/index.js';
+
+const USAGE = 'Usage: watchexec [-w PATH]... [-e EXTS] [-f GLOB]... [-i GLOB]... [-d MS] [-p] [-c] [--] COMMAND...\n';
+
+/** Deepest directory containing every path. */
+function commonPath(paths: string[]): string {
+  let common = dirname(paths[0]);
+  for (const path of paths) {
+    while (common !== '/' && path !== common && !path.startsWith(common + '/')) {
+      common = dirname(common);
+    }
+  }
+  return common;
+}
+
+/**
+ * The WATCHEXEC_*_PATH variables for a batch: changed paths by kind,
+ * colon-separated and relative to WATCHEXEC_COMMON_PATH.
+ */
+function changeEnv(events: VFSWatchEvent[]): Record<string, string> {
+  if (events.length === 0) return {};
+  const kinds: Record<VFSWatchEvent['type'], string> = {
+    create: 'CREATED',
+    modify: 'WRITTEN',
+    delete: 'REMOVED',
+    rename: 'RENAMED',
+    attrib: 'META_CHANGED',
+  };
+  const common = commonPath(events.map((e) => e.path));
+  const env: Record<string, string> = { WATCHEXEC_COMMON_PATH: common };
+  const prefix = common === '/' ? 1 : common.length + 1;
+  for (const event of events) {
+    const name = `WATCHEXEC_${kinds[event.type]}_PATH`;
+    const path = event.path.slice(prefix) || '.';
+    env[name] = env[name] ? `${env[name]}:${path}` : path;
+  }
+  return env;
+}
+
+export function createWatchexecCommand(shellExecute: ShellExecuteFn): Command {
+  return async (ctx) => {
+    const paths: string[] = [];
+    const include: string[] = [];
+    const exclude: string[] = [];
+    let debounce = 50;
+    let postpone = false;
+    let clear = false;
+
+    let i = 0;
+    for (; i < ctx.args.length; i++) {
+      const arg = ctx.args[i];
+      const value = () => ctx.args[++i] ?? '';
+      if (arg === '--') {
+        i++;
+        break;
+      }
+      if (!arg.startsWith('-')) break;
+
+      if (arg === '-w' || arg === '--watch') paths.push(value());
+      else if (arg === '-e' || arg === '--exts') include.push(...value().split(',').map((ext) => `*.${ext.replace(/^\./, '')}`));
+      else if (arg === '-f' || arg === '--filter') include.push(value());
+      else if (arg === '-i' || arg === '--ignore') exclude.push(value());
+      else if (arg === '-d' || arg === '--debounce') debounce = Number(value());
+      else if (arg === '-p' || arg === '--postpone') postpone = true;
+      else if (arg === '-c' || arg === '--clear') clear = true;
+      else {
+        ctx.stderr.write(`watchexec: unknown option '${arg}'\n${USAGE}`);
+        return 1;
+      }
+    }
+
+    const argv = ctx.args.slice(i);
+    if (argv.length === 0) {
+      ctx.stderr.write(USAGE);
+      return 1;
+    }
+    if (!Number.isFinite(debounce) || debounce < 0) {
+      ctx.stderr.write('watchexec: invalid debounce\n');
+      return 1;
+    }
+    const cmd = argv.length === 1 ? argv[0] : argv.map(shellQuote).join(' ');
+
+    const roots = (paths.length > 0 ? paths : ['.']).map((p) => resolve(ctx.cwd, p));
+    for (const [n, root] of roots.entries()) {
+      if (!ctx.vfs.exists(root)) {
+        ctx.stderr.write(`watchexec: ${paths[n]}: no such file or directory\n`);
+        return 1;
+      }
+    }
+
+    const run = async (events: VFSWatchEvent[]) => {
+      if (clear) ctx.stdout.write('\x1b[2J\x1b[H');
+      await shellExecute(cmd, { ...ctx, env: { ...ctx.env, ...changeEnv(events) } });
+    };
+
+    // Changes made while the command runs are batched up for the next run
+    let queued: VFSWatchEvent[] = [];
+    let running = false;
+    const trigger = async (events: VFSWatchEvent[]) => {
+      queued.push(...events);
+      if (running) return;
+      running = true;
+      while (queued.length > 0 && !ctx.signal.aborted) {
+        const batch = coalesceEvents(queued);
+        queued = [];
+        await run(batch);
+      }
+      running = false;
+    };
+
+    const unwatchers = roots.map((root) =>
+      ctx.vfs.watchBatch(root, { include, exclude, delay: debounce }, (events) => void trigger(events)),
+    );
+    if (!postpone) {
+      running = true;
+      await run([]);
+      running = false;
+      if (queued.length > 0) void trigger([]);
+    }
+
+    return new Promise<number>((resolveExit) => {
+      const stop = () => {
+        for (const unwatch of unwatchers) unwatch();
+        resolveExit(0);
+      };
+      if (ctx.signal.aborted) stop();
+      else ctx.signal.addEventListener('abort', stop, { once: true });
+    });
+  };
+}
@@ -3,7 +3,7 @@ import type { Command } from '../types.js';
 const BUILTINS = new Set([
   'cd', 'pwd', 'echo', 'clear', 'export', 'exit',
   'true', 'false', 'jobs', 'fg', 'bg', 'history',
-  'source', '.', 'alias', 'unalias',
+  'source', '.', 'alias', 'unalias', 'exec', 'declare', 'typeset', 'local', 'unset',
 ]);
 
 const REGISTERED = new Set([
@@ -19,11 +19,16 @@ const REGISTERED = new Set([
   // Node.js & package manager
   'node', 'pkg',
   // Sprint 6a: Filesystem
-  'rmdir', 'realpath', 'basename', 'dirname', 'mktemp', 'chown',
+  'rmdir', 'realpath', 'basename', 'dirname', 'mktemp', 'chown', 'inotifywait', 'mkfifo',
+  'getfattr', 'setfattr',
   // Sprint 6a: Text
   'diff', 'nl', 'rev',
   // Sprint 6a: System
-  'ps', 'top', 'kill', 'watch', 'cal', 'bc', 'man', 'help',
+  'ps', 'top', 'kill', 'watch', 'watchexec', 'cal', 'bc', 'man', 'help',
+  // Users
+  'id', 'su', 'sudo', 'useradd',
+  // Mounts
+  'mount', 'umount', 'findmnt', 'fsck', 'passphrase',
 ]);
 
 const command: Command = async (ctx) => {
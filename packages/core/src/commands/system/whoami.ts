@@ -1,13 +1,20 @@
-import type { Command } from '../types.js';
+import type { Command, CommandContext } from '../types.js';
+import { findUser } from '../../kernel/users/index.js';
 
 const AUTH_URL = process.env.LIFO_BASE_URL ||
   (import.meta.env?.DEV ? 'http://localhost:3000' : 'https://lifo.sh');
 
+/** Name of the account the command runs as ($USER without a passwd entry) */
+function userName(ctx: CommandContext): string {
+  const { uid } = ctx.vfs.getCredentials();
+  return findUser(ctx.vfs, uid)?.name ?? ctx.env.USER ?? String(uid);
+}
+
 const command: Command = async (ctx) => {
   const token = ctx.env.LIFO_AUTH_TOKEN;
 
   if (!token) {
-    ctx.stdout.write((ctx.env.USER || 'user') + '\n');
+    ctx.stdout.write(userName(ctx) + '\n');
     return 0;
   }
 
@@ -20,10 +27,10 @@ const command: Command = async (ctx) => {
       const { email } = await res.json();
       ctx.stdout.write(email + '\n');
     } else {
-      ctx.stdout.write((ctx.env.USER || 'user') + '\n');
+      ctx.stdout.write(userName(ctx) + '\n');
     }
   } catch {
-    ctx.stdout.write((ctx.env.USER || 'user') + '\n');
+    ctx.stdout.write(userName(ctx) + '\n');
   }
 
   return 0;
@@ -54,9 +54,9 @@ const command: Command = async (ctx) => {
     const path = resolve(ctx.cwd, files[0]);
     try {
       if (decode) {
-        input = ctx.vfs.readFileString(path);
+        input = await ctx.vfs.readFileStringAsync(path, ctx.signal);
       } else {
-        input = ctx.vfs.readFile(path);
+        input = await ctx.vfs.readFileAsync(path, ctx.signal);
       }
     } catch (e) {
       if (e instanceof VFSError) {
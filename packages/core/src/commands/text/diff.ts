@@ -270,7 +270,7 @@ const command: Command = async (ctx) => {
   }
 
   try {
-    content1 = ctx.vfs.readFileString(resolve(ctx.cwd, file1));
+    content1 = await ctx.vfs.readFileStringAsync(resolve(ctx.cwd, file1), ctx.signal);
   } catch (e) {
     if (e instanceof VFSError) {
       ctx.stderr.write(`diff: ${file1}: ${e.message}\n`);
@@ -280,7 +280,7 @@ const command: Command = async (ctx) => {
   }
 
   try {
-    content2 = ctx.vfs.readFileString(resolve(ctx.cwd, file2));
+    content2 = await ctx.vfs.readFileStringAsync(resolve(ctx.cwd, file2), ctx.signal);
   } catch (e) {
     if (e instanceof VFSError) {
       ctx.stderr.write(`diff: ${file2}: ${e.message}\n`);
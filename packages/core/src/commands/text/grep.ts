@@ -147,11 +147,11 @@ const command: Command = async (ctx) => {
           }
           continue;
         }
-        if (isBinaryMime(getMimeType(path))) {
+        if (stat.type !== 'fifo' && isBinaryMime(getMimeType(path))) {
           ctx.stderr.write(`grep: ${file}: binary file, skipping\n`);
           continue;
         }
-        const content = ctx.vfs.readFileString(path);
+        const content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
         const lines = content.replace(/\n$/, '').split('\n');
         await grepLines(lines, multiFile ? file : null);
       } catch (e) {
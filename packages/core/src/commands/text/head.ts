@@ -44,12 +44,11 @@ const command: Command = async (ctx) => {
   for (const file of files) {
     const path = resolve(ctx.cwd, file);
     try {
-      ctx.vfs.stat(path);
-      if (isBinaryMime(getMimeType(path))) {
+      if (ctx.vfs.stat(path).type !== 'fifo' && isBinaryMime(getMimeType(path))) {
         ctx.stderr.write(`head: ${file}: binary file, skipping\n`);
         continue;
       }
-      const content = ctx.vfs.readFileString(path);
+      const content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
       if (files.length > 1) ctx.stdout.write(`==> ${file} <==\n`);
       await headText(content);
     } catch (e) {
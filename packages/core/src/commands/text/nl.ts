@@ -32,7 +32,7 @@ const command: Command = async (ctx) => {
       return 1;
     }
     try {
-      content = ctx.vfs.readFileString(path);
+      content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
     } catch (e) {
       if (e instanceof VFSError) {
         ctx.stderr.write(`nl: ${positional[0]}: ${e.message}\n`);
@@ -23,12 +23,11 @@ const command: Command = async (ctx) => {
   for (const arg of ctx.args) {
     const path = resolve(ctx.cwd, arg);
     try {
-      ctx.vfs.stat(path);
-      if (isBinaryMime(getMimeType(path))) {
+      if (ctx.vfs.stat(path).type !== 'fifo' && isBinaryMime(getMimeType(path))) {
         ctx.stderr.write(`rev: ${arg}: binary file, skipping\n`);
         continue;
       }
-      const content = ctx.vfs.readFileString(path);
+      const content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
       ctx.stdout.write(reverseLines(content));
     } catch (e) {
       if (e instanceof VFSError) {
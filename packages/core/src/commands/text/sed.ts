@@ -134,12 +134,11 @@ const command: Command = async (ctx) => {
   for (const file of files) {
     const path = resolve(ctx.cwd, file);
     try {
-      ctx.vfs.stat(path);
-      if (isBinaryMime(getMimeType(path))) {
+      if (ctx.vfs.stat(path).type !== 'fifo' && isBinaryMime(getMimeType(path))) {
         ctx.stderr.write(`sed: ${file}: binary file, skipping\n`);
         continue;
       }
-      const content = ctx.vfs.readFileString(path);
+      const content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
       const result = processText(content);
       if (inPlace) {
         ctx.vfs.writeFile(path, result);
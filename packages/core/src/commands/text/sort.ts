@@ -39,12 +39,11 @@ const command: Command = async (ctx) => {
     for (const file of files) {
       const path = resolve(ctx.cwd, file);
       try {
-        ctx.vfs.stat(path);
-        if (isBinaryMime(getMimeType(path))) {
+        if (ctx.vfs.stat(path).type !== 'fifo' && isBinaryMime(getMimeType(path))) {
           ctx.stderr.write(`sort: ${file}: binary file, skipping\n`);
           continue;
         }
-        text += ctx.vfs.readFileString(path);
+        text += await ctx.vfs.readFileStringAsync(path, ctx.signal);
       } catch (e) {
         if (e instanceof VFSError) {
           ctx.stderr.write(`sort: ${file}: ${e.message}\n`);
@@ -53,7 +53,7 @@ const command: Command = async (ctx) => {
   for (const file of files) {
     const path = resolve(ctx.cwd, file);
     try {
-      const data = ctx.vfs.readFile(path);
+      const data = await ctx.vfs.readFileAsync(path, ctx.signal);
       for (const s of extractStrings(data, minLen)) {
         ctx.stdout.write(s + '\n');
       }
@@ -20,7 +20,7 @@ const command: Command = async (ctx) => {
   for (const arg of ctx.args) {
     const path = resolve(ctx.cwd, arg);
     try {
-      processContent(ctx.vfs.readFileString(path));
+      processContent(await ctx.vfs.readFileStringAsync(path, ctx.signal));
     } catch (e) {
       if (e instanceof VFSError) {
         ctx.stderr.write(`tac: ${arg}: ${e.message}\n`);
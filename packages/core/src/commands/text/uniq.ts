@@ -39,7 +39,7 @@ const command: Command = async (ctx) => {
       return 1;
     }
     try {
-      text = ctx.vfs.readFileString(path);
+      text = await ctx.vfs.readFileStringAsync(path, ctx.signal);
     } catch (e) {
       if (e instanceof VFSError) {
         ctx.stderr.write(`uniq: ${files[0]}: ${e.message}\n`);
@@ -64,11 +64,10 @@ const command: Command = async (ctx) => {
   for (const file of files) {
     const path = resolve(ctx.cwd, file);
     try {
-      ctx.vfs.stat(path);
-      if (isBinaryMime(getMimeType(path))) {
+      if (ctx.vfs.stat(path).type !== 'fifo' && isBinaryMime(getMimeType(path))) {
         if (showBytes && !showLines && !showWords) {
           // Byte count only: use readFile for accurate binary size
-          const data = ctx.vfs.readFile(path);
+          const data = await ctx.vfs.readFileAsync(path, ctx.signal);
           const counts = { lines: 0, words: 0, bytes: data.byteLength };
           totalBytes += counts.bytes;
           ctx.stdout.write(formatCounts(counts, file));
@@ -78,7 +77,7 @@ const command: Command = async (ctx) => {
         }
         continue;
       }
-      const content = ctx.vfs.readFileString(path);
+      const content = await ctx.vfs.readFileStringAsync(path, ctx.signal);
       const counts = countText(content);
       totalLines += counts.lines;
       totalWords += counts.words;
@@ -19,6 +19,8 @@ export interface CommandContext {
   signal: AbortSignal;
   stdin?: CommandInputStream;
   setRawMode?: (enabled: boolean) => void;
+  /** PID in the kernel process table, when the command was spawned into one */
+  pid?: number;
 }
 
 export type Command = (ctx: CommandContext) => Promise<number>;
@@ -12,33 +12,114 @@ export type {
 export { Kernel } from './kernel/index.js';
 export type { VirtualRequest, VirtualResponse, VirtualRequestHandler } from './kernel/index.js';
 
+// Processes
+export {
+  ProcessTable,
+  FileTable,
+  OpenFile,
+  FifoFile,
+  O_RDONLY,
+  O_WRONLY,
+  O_RDWR,
+  O_CREAT,
+  O_EXCL,
+  O_TRUNC,
+  O_APPEND,
+  SEEK_SET,
+  SEEK_CUR,
+  SEEK_END,
+  MAX_FDS,
+} from './kernel/process/index.js';
+export type { Process, ProcessState, SpawnOptions } from './kernel/process/index.js';
+
+// Users & groups
+export {
+  readUsers,
+  readGroups,
+  findUser,
+  findGroup,
+  groupsOf,
+  credentialsFor,
+  addUser,
+} from './kernel/users/index.js';
+export type { PasswdEntry, GroupEntry, AddUserOptions } from './kernel/users/index.js';
+
 // VFS
-export { VFS, VFSError, ErrorCode } from './kernel/vfs/index.js';
+export { VFS, VFSError, ErrorCode, ERRNO } from './kernel/vfs/index.js';
+export { F_OK, X_OK, W_OK, R_OK } from './kernel/vfs/index.js';
+export { XATTR_NAME_MAX, XATTR_SIZE_MAX, XATTR_NAMESPACES, MIME_XATTR } from './kernel/vfs/index.js';
 export { getMimeType, getFileCategory, isBinaryMime } from './kernel/vfs/index.js';
-export { NativeFsProvider } from './kernel/vfs/index.js';
+export { NativeFsProvider, OverlayProvider, SubtreeProvider, ArchiveProvider, StdioProvider } from './kernel/vfs/index.js';
+export { MountTypeRegistry, createMountTypes, parseFstab } from './kernel/vfs/index.js';
 export type {
   INode,
   Stat,
   Dirent,
   FileType,
   ErrorCodeType,
+  Credentials,
   VirtualProvider,
   MountProvider,
+  MountInfo,
+  FsckReport,
+  Quota,
+  FsStats,
+  MountType,
+  MountRequest,
+  FstabEntry,
   NativeFsModule,
+  OverlayChange,
+  ArchiveFormat,
   VFSWatchEvent,
   VFSWatchListener,
+  VFSWatchBatchListener,
+  VFSWatchOptions,
   VFSEventType,
+  FifoReader,
+  FifoWriter,
+  StdioFd,
+  StdioDevices,
 } from './kernel/vfs/index.js';
 
 // Blob storage & content store
-export { MemoryBlobStore, IndexedDBBlobStore, hashBytes } from './kernel/storage/index.js';
-export { ContentStore, CHUNK_THRESHOLD, CHUNK_SIZE } from './kernel/storage/index.js';
-export type { BlobStore } from './kernel/storage/index.js';
+export { MemoryBlobStore, IndexedDBBlobStore, OPFSBlobStore, hashBytes } from './kernel/storage/index.js';
+export { MemoryOPFSDirectory, getOPFSRoot } from './kernel/storage/index.js';
+export { ContentStore, CHUNK_THRESHOLD, CHUNK_SIZE, COLLECT_DELAY_MS } from './kernel/storage/index.js';
+export type { ChunkHolder, CollectResult } from './kernel/storage/index.js';
+export type { BlobStore, OPFSDirectoryHandle, OPFSFileHandle, OPFSWritable } from './kernel/storage/index.js';
 
 // Persistence
 export { PersistenceManager } from './kernel/persistence/index.js';
 export { IndexedDBPersistenceBackend, MemoryPersistenceBackend } from './kernel/persistence/index.js';
-export type { PersistenceBackend } from './kernel/persistence/index.js';
+export { OPFSPersistenceBackend, createPersistenceBackend } from './kernel/persistence/index.js';
+export { FORMAT_VERSION, FormatVersionError } from './kernel/persistence/index.js';
+export {
+  EncryptedPersistenceBackend,
+  EncryptedBlobStore,
+  PassphraseError,
+  PBKDF2_ITERATIONS,
+} from './kernel/persistence/index.js';
+export type {
+  PersistenceBackend,
+  PersistenceBackendKind,
+  PersistenceBackup,
+  OPFSPersistenceOptions,
+  JournalRecord,
+  Migration,
+  EncryptionOptions,
+  PassphrasePrompt,
+} from './kernel/persistence/index.js';
+
+// Cross-tab sync
+export { TabSync, BroadcastChannelTransport, MemorySyncHub, MemoryLocks } from './kernel/sync/index.js';
+export type {
+  SyncOptions,
+  SyncConflict,
+  Stamp,
+  SyncMessage,
+  SyncTransport,
+  SyncLocks,
+} from './kernel/sync/index.js';
 
 // Commands
 export { CommandRegistry, createDefaultRegistry } from './commands/registry.js';
@@ -59,14 +140,23 @@ export { createNodeCommand } from './commands/system/node.js';
 export { createCurlCommand } from './commands/net/curl.js';
 export { createLifoPkgCommand, bootLifoPackages } from './commands/system/lifo.js';
 export { createNpmCommand } from './commands/system/npm.js';
+export { createWatchexecCommand } from './commands/system/watchexec.js';
 export { createLogoutCommand } from './commands/system/logout.js';
+export { createSuCommand } from './commands/system/su.js';
+export type { RunAsFn } from './commands/system/su.js';
+export { createSudoCommand } from './commands/system/sudo.js';
+export { createMountCommand } from './commands/system/mount.js';
+export { createFsckCommand } from './commands/system/fsck.js';
+export type { FsckFn } from './commands/system/fsck.js';
+export { createPassphraseCommand } from './commands/system/passphrase.js';
+export type { ChangePassphraseFn } from './commands/system/passphrase.js';
 
 // Shell
 export { Shell } from './shell/Shell.js';
 export { JobTable } from './shell/jobs.js';
 
 // Terminal
-export type { ITerminal } from './terminal/ITerminal.js';
+export type { ITerminal, IDisposable } from './terminal/ITerminal.js';
 export { HeadlessTerminal } from './sandbox/HeadlessTerminal.js';
 
 // Lifo runtime
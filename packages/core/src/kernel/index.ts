@@ -1,9 +1,28 @@
 import { VFS } from './vfs/index.js';
 import { ProcProvider } from './vfs/providers/ProcProvider.js';
 import { DevProvider } from './vfs/providers/DevProvider.js';
+import { createMountTypes, FSTAB_PATH } from './vfs/MountTypeRegistry.js';
+import type { MountTypeRegistry } from './vfs/MountTypeRegistry.js';
+import { ProcessTable } from './process/index.js';
+import {
+  PASSWD_PATH,
+  GROUP_PATH,
+  DEFAULT_PASSWD,
+  DEFAULT_GROUPS,
+  DEFAULT_USER,
+  inDefaultUserTree,
+  formatPasswd,
+  formatGroup,
+  findUser,
+  credentialsFor,
+} from './users/index.js';
+import type { FsckReport } from './vfs/index.js';
 import { PersistenceManager } from './persistence/PersistenceManager.js';
-import { IndexedDBPersistenceBackend } from './persistence/backends.js';
-import type { PersistenceBackend } from './persistence/backends.js';
+import { createPersistenceBackend } from './persistence/backends.js';
+import type { PersistenceBackend, PersistenceBackendKind } from './persistence/backends.js';
+import { EncryptedPersistenceBackend } from './persistence/encryption.js';
+import { TabSync } from './sync/TabSync.js';
+import type { SyncOptions } from './sync/TabSync.js';
 import { installSamples } from './samples.js';
 
 const MOTD = `\x1b[1;36m
@@ -43,6 +62,13 @@ export EDITOR=nano
 export PAGER=less
 `;
 
+const DEFAULT_FSTAB = `# /etc/fstab - filesystems mounted at boot
+#
+# <source>  <target>       <type>   <options>
+# none      /mnt/scratch   tmpfs    defaults
+# /srv/app.tar.gz  /mnt/app  archive  ro
+`;
+
 export interface VirtualRequest {
   method: string;
   url: string;
@@ -60,22 +86,45 @@ export type VirtualRequestHandler = (req: VirtualRequest, res: VirtualResponse)
 
 export class Kernel {
   vfs: VFS;
+  processes: ProcessTable = new ProcessTable();
   portRegistry: Map<number, VirtualRequestHandler> = new Map();
+  /** Filesystem types for `mount -t` and /etc/fstab */
+  mountTypes: MountTypeRegistry = createMountTypes();
+  private backend: PersistenceBackend;
   private persistence: PersistenceManager;
+  /** Whether boot() loaded the filesystem from, and hooked it to, persistence */
+  private persisting = false;
+  /** Keeps this kernel's VFS in step with other tabs', when booted with `sync` */
+  sync: TabSync | null = null;
 
-  constructor(backend?: PersistenceBackend) {
+  /**
+   * @param backend Where the filesystem is persisted: a backend instance, or
+   *   the name of a built-in one (default 'indexeddb'). 'opfs' migrates an
+   *   existing IndexedDB image the first time it is used.
+   */
+  constructor(backend: PersistenceBackend | PersistenceBackendKind = 'indexeddb') {
     this.vfs = new VFS();
-    this.persistence = new PersistenceManager(
-      backend ?? new IndexedDBPersistenceBackend(),
-    );
+    this.backend = typeof backend === 'string' ? createPersistenceBackend(backend) : backend;
+    this.persistence = new PersistenceManager(this.backend, this.vfs.contentStore);
   }
 
-  async boot(options?: { persist?: boolean }): Promise<void> {
+  /**
+   * @param options.sync Share the persisted filesystem with kernels in other
+   *   tabs (see TabSync) instead of each tab overwriting the others' saves.
+   *   Only the elected leader writes to the backend.
+   * @throws FormatVersionError if the persisted filesystem was saved by a
+   *   newer version of Lifo. Nothing is booted and the image is not touched.
+   */
+  async boot(options?: { persist?: boolean; sync?: boolean | SyncOptions }): Promise<void> {
     const persist = options?.persist ?? true;
 
     if (persist) {
-      // 1. Load persisted filesystem
+      // 1. Load persisted filesystem, once the leader has written out its changes
       await this.persistence.open();
+      if (options?.sync) {
+        this.sync = new TabSync(options.sync === true ? {} : options.sync);
+        await this.sync.join();
+      }
       const saved = await this.persistence.load();
       if (saved) {
         this.vfs.loadFromSerialized(saved);
@@ -86,15 +135,59 @@ export class Kernel {
     this.initFilesystem();
 
     // 3. Register virtual providers
-    this.vfs.registerProvider('/proc', new ProcProvider());
-    this.vfs.registerProvider('/dev', new DevProvider());
+    this.mountVirtual(this.vfs, this.processes);
+
+    // 4. Mount /etc/fstab. A bad entry must not stop boot; `mount -a` reports it
+    await this.mountTypes.mountAll(this.vfs);
 
     if (persist) {
-      // 4. Hook persistence via watch events
-      this.vfs.watch(() => {
-        this.persistence.scheduleSave(this.vfs.getRoot());
+      // 5. Hook persistence via watch events
+      this.persisting = true;
+      this.vfs.watch((event) => {
+        if (this.sync && !this.sync.isLeader) return;
+        this.persistence.recordChange(event, this.vfs.getRoot());
       });
+      this.sync?.attach(this.vfs, {
+        onLeader: () => this.persistence.takeOver(this.vfs.getRoot()),
+        flush: () => this.persistence.flush(),
+      });
+    }
+  }
+
+  /**
+   * Check the chunks of large files (see VFS.fsck), first copying back any
+   * the content store has lost from the persisted blob store. With
+   * `repair`, persisted blobs no file refers to are deleted as well.
+   */
+  async fsck(options: { repair?: boolean } = {}): Promise<FsckReport> {
+    const hashes = new Set<string>();
+    for (const manifest of this.vfs.chunkManifests()) {
+      for (const chunk of manifest) hashes.add(chunk.hash);
+    }
+    const recovered = this.persisting ? await this.persistence.recoverChunks(hashes) : [];
+
+    const report = this.vfs.fsck(options);
+    report.recovered = recovered;
+    if (this.persisting) {
+      report.orphanBlobs = await this.persistence.orphanBlobs(this.vfs.getRoot(), options.repair);
+    }
+    return report;
+  }
+
+  /**
+   * Encrypt the persisted filesystem under a new passphrase, or under a
+   * first one if it is still plaintext. Needs an EncryptedPersistenceBackend.
+   */
+  async changePassphrase(passphrase: string): Promise<void> {
+    if (!(this.backend instanceof EncryptedPersistenceBackend) || !this.persisting) {
+      throw new Error('the filesystem is not persisted through an encrypting backend');
+    }
+    if (this.sync && !this.sync.isLeader) {
+      throw new Error('another tab is writing the filesystem; change the passphrase there');
     }
+    // Write what is pending first, so encrypting a plaintext image covers it
+    await this.persistence.flush();
+    await this.backend.changePassphrase(passphrase);
   }
 
   initFilesystem(): void {
@@ -103,21 +196,25 @@ export class Kernel {
       '/etc',
       '/home',
       '/home/user',
+      '/root',
       '/tmp',
       '/var',
       '/var/log',
       '/usr',
       '/usr/bin',
+      '/usr/lib',
+      '/usr/lib/node_modules',
       '/usr/share',
       '/usr/share/pkg',
       '/usr/share/pkg/node_modules',
     ];
 
+    // What this boot puts in place, as against what a loaded image had
+    const created: string[] = [];
     for (const dir of dirs) {
-      try {
+      if (!this.vfs.exists(dir)) {
         this.vfs.mkdir(dir, { recursive: true });
-      } catch {
-        // Directory already exists -- ignore
+        created.push(dir);
       }
     }
 
@@ -129,20 +226,69 @@ export class Kernel {
     if (!this.vfs.exists('/etc/profile')) {
       this.vfs.writeFile('/etc/profile', DEFAULT_PROFILE);
     }
-    // Migrate old .bashrc to .liforc
-    if (this.vfs.exists('/home/user/.bashrc') && !this.vfs.exists('/home/user/.liforc')) {
-      // Preserve user's existing .bashrc content by renaming it
-      try {
-        const existing = this.vfs.readFileString('/home/user/.bashrc');
-        this.vfs.writeFile('/home/user/.liforc', existing);
-      } catch { /* ignore */ }
+    if (!this.vfs.exists(PASSWD_PATH)) {
+      this.vfs.writeFile(PASSWD_PATH, formatPasswd(DEFAULT_PASSWD));
+    }
+    if (!this.vfs.exists(GROUP_PATH)) {
+      this.vfs.writeFile(GROUP_PATH, formatGroup(DEFAULT_GROUPS));
+    }
+    if (!this.vfs.exists(FSTAB_PATH)) {
+      this.vfs.writeFile(FSTAB_PATH, DEFAULT_FSTAB);
     }
     if (!this.vfs.exists('/home/user/.liforc')) {
       this.vfs.writeFile('/home/user/.liforc', DEFAULT_LIFORC);
+      created.push('/home/user/.liforc');
     }
 
     // Install example files
-    installSamples(this.vfs);
+    created.push(...installSamples(this.vfs));
+
+    // Permissions: root's home is private, /tmp is world-writable but sticky
+    this.vfs.chmod('/root', 0o700);
+    this.vfs.chmod('/tmp', 0o1777);
+
+    // The default user owns what is seeded into their trees (see
+    // DEFAULT_USER_TREES). Only new nodes are handed over, so a file made
+    // root's on purpose stays root's; images from before nodes had owners
+    // are claimed once by a migration
+    const user = findUser(this.vfs, DEFAULT_USER);
+    if (user) {
+      for (const path of created.filter(inDefaultUserTree)) {
+        this.vfs.chown(path, user.uid, user.gid);
+      }
+    }
+  }
+
+  /** Mount /proc and /dev on `vfs`. */
+  private mountVirtual(vfs: VFS, processes: ProcessTable): void {
+    vfs.mount('/proc', new ProcProvider(processes, vfs), { type: 'proc', source: 'proc' });
+    vfs.mount('/dev', new DevProvider(), { type: 'devtmpfs', source: 'devtmpfs', options: ['rw'] });
+  }
+
+  /**
+   * A new kernel whose filesystem starts as a copy-on-write clone of this
+   * one's (see VFS.clone), so forking costs the same however much is stored.
+   * The fork has its own process table and port registry, needs no boot,
+   * and is never persisted.
+   */
+  fork(): Kernel {
+    const child = new Kernel('memory');
+    child.vfs = this.vfs.clone();
+    child.mountTypes = this.mountTypes;
+    child.mountVirtual(child.vfs, child.processes);
+    return child;
+  }
+
+  /**
+   * The filesystem as seen by an account from /etc/passwd, the default
+   * user unless named. Interactive sessions run their shell on this view.
+   */
+  userVfs(name: string = DEFAULT_USER): VFS {
+    const user = findUser(this.vfs, name);
+    if (!user) {
+      throw new Error(`no such user: ${name}`);
+    }
+    return this.vfs.asUser(credentialsFor(this.vfs, user));
   }
 
   getDefaultEnv(): Record<string, string> {
@@ -1,38 +1,153 @@
-import type { INode } from '../vfs/types.js';
+import type { INode, VFSWatchEvent } from '../vfs/types.js';
 import { serialize, deserialize } from './serializer.js';
-import type { PersistenceBackend } from './backends.js';
+import type { SerializedNode } from './serializer.js';
+import type { PersistenceBackend, PersistenceBackup } from './backends.js';
+import type { ContentStore } from '../storage/ContentStore.js';
+import { capture, buildRecords, replayJournal } from './journal.js';
+import type { PendingChange, JournalRecord } from './journal.js';
+import { FORMAT_VERSION, FormatVersionError, formatVersion, migrate } from './migrations.js';
 
 const DEBOUNCE_MS = 1000;
 
+/** Journal records written since the last full save before compacting. */
+export const COMPACT_THRESHOLD = 1000;
+
 export class PersistenceManager {
   private timer: ReturnType<typeof setTimeout> | null = null;
+  /** Chunk hashes known to be in the backend's blob store */
+  private storedChunks = new Set<string>();
+  /** Chunk hashes that backups refer to; never swept */
+  private backupChunks = new Set<string>();
+
+  // Journal state (only used when the backend supports appendJournal)
+  private pending: PendingChange[] = [];
+  private root: INode | null = null;
+  private seq = 0;
+  private sinceCompaction = 0;
+  private needsFullSave = false;
+  private writing: Promise<void> = Promise.resolve();
 
-  constructor(private backend: PersistenceBackend) {}
+  /**
+   * @param contentStore Cache holding the chunks of large files. When the
+   *   backend has a blob store, chunks are copied there on save and back on load.
+   */
+  constructor(private backend: PersistenceBackend, private contentStore?: ContentStore) {}
 
   async open(): Promise<void> {
     await this.backend.open();
   }
 
+  /**
+   * Load the saved image and replay any journal records written after it,
+   * so changes made since the last full save survive a crash or closed tab.
+   *
+   * An image in an older format is backed up, migrated and saved again
+   * before it is used.
+   *
+   * @throws FormatVersionError if the image was written by a newer version
+   *   of Lifo. It is backed up and otherwise left alone, since loading it
+   *   could lose data and saving over it would.
+   */
   async load(): Promise<INode | null> {
     try {
       const data = await this.backend.loadTree();
-      if (data) {
-        try {
-          return deserialize(data);
-        } catch {
-          return null;
-        }
+      const base = data?.sq ?? 0;
+      const records = this.backend.readJournal
+        ? (await this.backend.readJournal()).filter((r) => r.s > base)
+        : [];
+      if (!data && records.length === 0) return null;
+
+      await this.loadBackupChunks();
+      const version = data ? formatVersion(data) : FORMAT_VERSION;
+      if (data && version !== FORMAT_VERSION) {
+        await this.backup(`v${version}`, data, records);
+        migrate(data, records);
       }
+
+      if (data) await this.loadChunks(data);
+      for (const record of records) {
+        if (record.op === 'put') await this.loadChunks(record.n);
+      }
+
+      let root: INode;
+      try {
+        root = deserialize(data ?? { t: 'd', n: '', ct: 0, mt: 0, m: 0o755 });
+        replayJournal(root, records);
+      } catch {
+        return null;
+      }
+
+      this.seq = records.length > 0 ? records[records.length - 1].s : base;
+      this.sinceCompaction = records.length;
+      this.root = root;
+      // The image on disk stays in the old format until it is replaced
+      if (version !== FORMAT_VERSION) await this.save(root);
+      return root;
+    } catch (e) {
+      if (e instanceof FormatVersionError) throw e;
       return null;
-    } catch {
-      return null;
     }
   }
 
-  async save(root: INode): Promise<void> {
+  /** Copy an image, as loaded, to the backend's backups (when it keeps any). */
+  private async backup(label: string, tree: SerializedNode, journal: JournalRecord[]): Promise<void> {
+    if (!this.backend.saveBackup) return;
+    const backup = { label, tree, journal };
+    await this.backend.saveBackup(backup);
+    this.pinChunks(backup);
+  }
+
+  private async loadBackupChunks(): Promise<void> {
+    if (!this.backend.blobs || !this.backend.loadBackups) return;
+    for (const backup of await this.backend.loadBackups()) this.pinChunks(backup);
+  }
+
+  /** Keep the blobs a backup needs from being swept. */
+  private pinChunks({ tree, journal }: PersistenceBackup): void {
+    chunkHashes(tree, this.backupChunks);
+    for (const record of journal) {
+      if (record.op === 'put') chunkHashes(record.n, this.backupChunks);
+    }
+  }
+
+  /** Save the whole tree, folding every journal record written so far into it. */
+  save(root: INode): Promise<void> {
+    this.writing = this.writing.catch(() => {}).then(() => this.saveTree(root));
+    return this.writing;
+  }
+
+  /**
+   * Start writing to a backend another writer (a tab that was leader) has
+   * been writing to: continue its journal numbering and save `root`, which
+   * already holds everything it wrote, over its image.
+   */
+  takeOver(root: INode): Promise<void> {
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      try {
+        const records = this.backend.readJournal ? await this.backend.readJournal() : [];
+        const image = await this.backend.loadTree();
+        this.seq = Math.max(this.seq, image?.sq ?? 0, ...records.map((r) => r.s));
+      } catch {
+        // Nothing readable to continue from; the full save below replaces it
+      }
+      await this.saveTree(root);
+    });
+    return this.writing;
+  }
+
+  private async saveTree(root: INode): Promise<void> {
+    this.root = root;
+    this.pending = [];
+    this.needsFullSave = false;
     try {
       const data = serialize(root);
+      data.sq = this.seq;
+      data.v = FORMAT_VERSION;
+      await this.saveChunks(data);
       await this.backend.saveTree(data);
+      this.sinceCompaction = 0;
+      // The image no longer needs chunks dropped since the last full save
+      await this.sweepBlobs(chunkHashes(data));
     } catch {
       // Gracefully ignore save errors
     }
@@ -47,4 +162,149 @@ export class PersistenceManager {
       this.timer = null;
     }, DEBOUNCE_MS);
   }
+
+  /**
+   * Note a VFS change. Journaling backends get just the affected entries on
+   * the next flush; others fall back to a debounced whole-tree save.
+   */
+  recordChange(event: VFSWatchEvent, root: INode): void {
+    if (!this.backend.appendJournal) {
+      this.scheduleSave(root);
+      return;
+    }
+
+    // The tree was swapped out wholesale; entries cannot describe that
+    if (this.root !== root) {
+      this.root = root;
+      this.needsFullSave = true;
+    }
+    const change = capture(event, root);
+    if (change) this.pending.push(change);
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.flush().catch(() => {});
+      }, DEBOUNCE_MS);
+    }
+  }
+
+  /** Write pending changes now instead of waiting for the debounce timer. */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Batches are written one after another so records land in order
+    this.writing = this.writing.catch(() => {}).then(() => this.writePending());
+    return this.writing;
+  }
+
+  private async writePending(): Promise<void> {
+    const root = this.root;
+    if (!root) return;
+
+    const changes = this.pending;
+    this.pending = [];
+    if (changes.length === 0 && !this.needsFullSave) return;
+
+    const records = this.needsFullSave ? null : buildRecords(changes, this.seq + 1);
+    if (!records || this.sinceCompaction + records.length > COMPACT_THRESHOLD) {
+      await this.saveTree(root);
+      return;
+    }
+    if (records.length === 0) return;
+
+    try {
+      for (const record of records) {
+        if (record.op === 'put') await this.saveChunks(record.n);
+      }
+      await this.backend.appendJournal!(records);
+      this.seq = records[records.length - 1].s;
+      this.sinceCompaction += records.length;
+    } catch {
+      // The journal is out of step with the tree; start over from a full save
+      await this.saveTree(root);
+    }
+  }
+
+  /**
+   * Copy chunks the content store has lost (e.g. to eviction) back from the
+   * blob store. Returns the hashes that were recovered.
+   */
+  async recoverChunks(hashes: Iterable<string>): Promise<string[]> {
+    const blobs = this.backend.blobs;
+    if (!blobs || !this.contentStore) return [];
+    const recovered: string[] = [];
+    for (const hash of hashes) {
+      if (this.contentStore.has(hash)) continue;
+      const data = await blobs.get(hash);
+      if (!data) continue;
+      this.contentStore.put(data);
+      recovered.push(hash);
+    }
+    return recovered;
+  }
+
+  /**
+   * Persisted blobs that neither `root` nor the content store refers to.
+   * With `remove`, `root` is saved so the image on disk stops needing them
+   * too, and they are deleted.
+   */
+  async orphanBlobs(root: INode, remove = false): Promise<string[]> {
+    const orphans = await this.sweepBlobs(chunkHashes(serialize(root)), true);
+    if (remove && orphans.length > 0) await this.save(root);
+    return orphans;
+  }
+
+  /** Delete (unless `dryRun`) and return the blobs outside `live` and the content store. */
+  private async sweepBlobs(live: Set<string>, dryRun = false): Promise<string[]> {
+    const blobs = this.backend.blobs;
+    if (!blobs) return [];
+    const orphans = (await blobs.keys()).filter(
+      (hash) => !live.has(hash) && !this.backupChunks.has(hash) && !this.contentStore?.has(hash),
+    );
+    if (!dryRun) {
+      for (const hash of orphans) {
+        await blobs.delete(hash);
+        this.storedChunks.delete(hash);
+      }
+    }
+    return orphans;
+  }
+
+  private async loadChunks(tree: SerializedNode): Promise<void> {
+    const blobs = this.backend.blobs;
+    if (!blobs || !this.contentStore) return;
+    for (const hash of chunkHashes(tree)) {
+      if (!this.contentStore.has(hash)) {
+        const data = await blobs.get(hash);
+        if (!data) continue;
+        this.contentStore.put(data);
+      }
+      this.storedChunks.add(hash);
+    }
+  }
+
+  private async saveChunks(tree: SerializedNode): Promise<void> {
+    const blobs = this.backend.blobs;
+    if (!blobs || !this.contentStore) return;
+    for (const hash of chunkHashes(tree)) {
+      if (this.storedChunks.has(hash)) continue;
+      const data = this.contentStore.get(hash);
+      if (!data) continue;
+      await blobs.put(data);
+      this.storedChunks.add(hash);
+    }
+  }
+}
+
+function chunkHashes(node: SerializedNode, out = new Set<string>()): Set<string> {
+  if (node.ch) {
+    for (const chunk of node.ch) out.add(chunk.h);
+  }
+  if (node.c) {
+    for (const child of node.c) chunkHashes(child, out);
+  }
+  return out;
 }
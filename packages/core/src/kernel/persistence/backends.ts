@@ -1,4 +1,10 @@
 import type { SerializedNode } from './serializer.js';
+import type { JournalRecord } from './journal.js';
+import { toBase64, fromBase64 } from './serializer.js';
+import { hashBytes, OPFSBlobStore } from '../storage/BlobStore.js';
+import type { BlobStore } from '../storage/BlobStore.js';
+import { getOPFSRoot, opfsDirectory, readOPFSFile, writeOPFSFile } from '../storage/opfs.js';
+import type { OPFSDirectoryHandle } from '../storage/opfs.js';
 
 // ---------------------------------------------------------------------------
 // PersistenceBackend interface
@@ -9,6 +15,49 @@ export interface PersistenceBackend {
   loadTree(): Promise<SerializedNode | null>;
   saveTree(root: SerializedNode): Promise<void>;
   close?(): Promise<void>;
+  /**
+   * Where the chunks of large files are kept. The tree only records their
+   * hashes, so without a blob store chunked contents do not survive a reload.
+   */
+  readonly blobs?: BlobStore;
+  /**
+   * Append change records to a write-ahead journal, in order. Backends that
+   * implement this get small incremental writes instead of a whole-tree
+   * save per change; they must also implement readJournal, and saveTree
+   * must drop every record with `s <= root.sq` (the records it folds in).
+   */
+  appendJournal?(records: JournalRecord[]): Promise<void>;
+  /** Every journaled record not yet dropped by saveTree, in order. */
+  readJournal?(): Promise<JournalRecord[]>;
+  /**
+   * Keep a copy of an image as it was before an upgrade touched it,
+   * replacing any earlier backup with the same label. Saves never remove
+   * backups.
+   */
+  saveBackup?(backup: PersistenceBackup): Promise<void>;
+  /** Every backup kept by saveBackup. */
+  loadBackups?(): Promise<PersistenceBackup[]>;
+}
+
+/** A saved image and the journal records written after it. */
+export interface PersistenceBackup {
+  label: string;
+  tree: SerializedNode;
+  journal: JournalRecord[];
+}
+
+/** Built-in backends that `Kernel` and `Sandbox` can select by name. */
+export type PersistenceBackendKind = 'indexeddb' | 'opfs' | 'memory';
+
+export function createPersistenceBackend(kind: PersistenceBackendKind): PersistenceBackend {
+  switch (kind) {
+    case 'opfs':
+      return new OPFSPersistenceBackend({ migrateFrom: new IndexedDBPersistenceBackend() });
+    case 'memory':
+      return new MemoryPersistenceBackend();
+    default:
+      return new IndexedDBPersistenceBackend();
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -18,6 +67,14 @@ export interface PersistenceBackend {
 const DB_NAME = 'lifo';
 const STORE_NAME = 'filesystem';
 const KEY = 'root';
+/** Journal records share the store with the tree, keyed ['journal', seq]. */
+const JOURNAL_KEY = 'journal';
+/** Backups too, keyed ['backup', label]. */
+const BACKUP_KEY = 'backup';
+
+function journalRange(upTo = Number.MAX_SAFE_INTEGER): IDBKeyRange {
+  return IDBKeyRange.bound([JOURNAL_KEY, 0], [JOURNAL_KEY, upTo]);
+}
 
 export class IndexedDBPersistenceBackend implements PersistenceBackend {
   private db: IDBDatabase | null = null;
@@ -76,6 +133,8 @@ export class IndexedDBPersistenceBackend implements PersistenceBackend {
         const tx = this.db!.transaction(STORE_NAME, 'readwrite');
         const store = tx.objectStore(STORE_NAME);
         store.put(root, KEY);
+        // Same transaction: the image and the journal trim commit together
+        store.delete(journalRange(root.sq ?? 0));
         tx.oncomplete = () => resolve();
         tx.onerror = () => resolve();
       } catch {
@@ -84,6 +143,70 @@ export class IndexedDBPersistenceBackend implements PersistenceBackend {
     });
   }
 
+  async appendJournal(records: JournalRecord[]): Promise<void> {
+    if (!this.db) return;
+
+    return new Promise((resolve, reject) => {
+      try {
+        const tx = this.db!.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        for (const record of records) {
+          store.put(record, [JOURNAL_KEY, record.s]);
+        }
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async readJournal(): Promise<JournalRecord[]> {
+    if (!this.db) return [];
+
+    return new Promise((resolve) => {
+      try {
+        const tx = this.db!.transaction(STORE_NAME, 'readonly');
+        const request = tx.objectStore(STORE_NAME).getAll(journalRange());
+        request.onsuccess = () => resolve(request.result as JournalRecord[]);
+        request.onerror = () => resolve([]);
+      } catch {
+        resolve([]);
+      }
+    });
+  }
+
+  async saveBackup(backup: PersistenceBackup): Promise<void> {
+    if (!this.db) return;
+
+    return new Promise((resolve, reject) => {
+      try {
+        const tx = this.db!.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).put(backup, [BACKUP_KEY, backup.label]);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+
+  async loadBackups(): Promise<PersistenceBackup[]> {
+    if (!this.db) return [];
+
+    return new Promise((resolve) => {
+      try {
+        const tx = this.db!.transaction(STORE_NAME, 'readonly');
+        const range = IDBKeyRange.bound([BACKUP_KEY, ''], [BACKUP_KEY, '\uffff']);
+        const request = tx.objectStore(STORE_NAME).getAll(range);
+        request.onsuccess = () => resolve(request.result as PersistenceBackup[]);
+        request.onerror = () => resolve([]);
+      } catch {
+        resolve([]);
+      }
+    });
+  }
+
   async close(): Promise<void> {
     if (this.db) {
       this.db.close();
@@ -98,6 +221,8 @@ export class IndexedDBPersistenceBackend implements PersistenceBackend {
 
 export class MemoryPersistenceBackend implements PersistenceBackend {
   private tree: SerializedNode | null = null;
+  private journal: JournalRecord[] = [];
+  private backups = new Map<string, PersistenceBackup>();
 
   async open(): Promise<void> {
     // Nothing to initialize for in-memory storage.
@@ -109,9 +234,304 @@ export class MemoryPersistenceBackend implements PersistenceBackend {
 
   async saveTree(root: SerializedNode): Promise<void> {
     this.tree = root;
+    const folded = root.sq ?? 0;
+    this.journal = this.journal.filter((r) => r.s > folded);
+  }
+
+  async appendJournal(records: JournalRecord[]): Promise<void> {
+    this.journal.push(...records);
+  }
+
+  async readJournal(): Promise<JournalRecord[]> {
+    return [...this.journal];
+  }
+
+  async saveBackup(backup: PersistenceBackup): Promise<void> {
+    this.backups.set(backup.label, structuredClone(backup));
+  }
+
+  async loadBackups(): Promise<PersistenceBackup[]> {
+    return [...this.backups.values()];
   }
 
   async close(): Promise<void> {
     this.tree = null;
+    this.journal = [];
+    this.backups.clear();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OPFSPersistenceBackend
+// ---------------------------------------------------------------------------
+
+const OPFS_DIR = 'lifo';
+const OPFS_FILES_DIR = 'files';
+const OPFS_MANIFEST = 'tree.json';
+const OPFS_JOURNAL_DIR = 'journal';
+const OPFS_BACKUP_DIR = 'backups';
+
+/**
+ * tree.json: the serialized tree without file contents, plus the content
+ * hash of every file that has a copy under files/ (keyed by VFS path).
+ */
+interface OPFSManifest {
+  version: 1;
+  tree: SerializedNode;
+  files: Record<string, string>;
+}
+
+export interface OPFSPersistenceOptions {
+  /** OPFS directory to use instead of the origin's (e.g. a MemoryOPFSDirectory) */
+  root?: OPFSDirectoryHandle;
+  /**
+   * Backend holding an older image. When OPFS is still empty it is copied
+   * over on open(); the old image is left in place.
+   */
+  migrateFrom?: PersistenceBackend;
+}
+
+/**
+ * Stores every non-empty regular file as a real OPFS file under
+ * `lifo/files/<path>`, next to a metadata-only `lifo/tree.json`. Saves only
+ * write files whose contents changed since the last save and remove files
+ * that are gone; chunked large files live in `blobs`. Each journal batch is
+ * its own `lifo/journal/<first>-<last>.json`, so appends never rewrite
+ * earlier batches. Backups are whole images in `lifo/backups/<label>.json`.
+ */
+export class OPFSPersistenceBackend implements PersistenceBackend {
+  readonly blobs: OPFSBlobStore;
+  private dir: OPFSDirectoryHandle | null = null;
+  private manifest: OPFSManifest | null = null;
+
+  constructor(private options: OPFSPersistenceOptions = {}) {
+    this.blobs = new OPFSBlobStore(options.root);
+  }
+
+  async open(): Promise<void> {
+    const root = this.options.root ?? (await getOPFSRoot());
+    if (!root) {
+      console.warn('OPFS not available, persistence disabled');
+      return;
+    }
+    this.dir = await opfsDirectory(root, [OPFS_DIR], true);
+    await this.blobs.open();
+
+    const raw = await readOPFSFile(this.dir, OPFS_MANIFEST);
+    if (raw) {
+      try {
+        this.manifest = JSON.parse(new TextDecoder().decode(raw)) as OPFSManifest;
+      } catch {
+        this.manifest = null;
+      }
+    }
+
+    if (!this.manifest && this.options.migrateFrom) {
+      await this.migrate(this.options.migrateFrom);
+    }
+  }
+
+  async loadTree(): Promise<SerializedNode | null> {
+    if (!this.dir || !this.manifest) return null;
+
+    const files = await this.dir.getDirectoryHandle(OPFS_FILES_DIR, { create: true });
+    const { files: hashes } = this.manifest;
+
+    const restore = async (node: SerializedNode, path: string): Promise<SerializedNode> => {
+      if (node.t === 'f' && path in hashes) {
+        const data = await readFilePath(files, path);
+        return data ? { ...node, d: toBase64(data) } : node;
+      }
+      if (node.t === 'd' && node.c) {
+        const children: SerializedNode[] = [];
+        for (const child of node.c) {
+          children.push(await restore(child, joinPath(path, child.n)));
+        }
+        return { ...node, c: children };
+      }
+      return node;
+    };
+
+    return restore(this.manifest.tree, '/');
+  }
+
+  async saveTree(root: SerializedNode): Promise<void> {
+    if (!this.dir) return;
+
+    const previous = this.manifest?.files ?? {};
+    const current: Record<string, string> = {};
+    const pending: Array<{ path: string; data: Uint8Array }> = [];
+
+    // Split contents out of the tree, noting which files need writing
+    const strip = (node: SerializedNode, path: string): SerializedNode => {
+      if (node.t === 'f' && node.d) {
+        const data = fromBase64(node.d);
+        const hash = hashBytes(data);
+        current[path] = hash;
+        if (previous[path] !== hash) pending.push({ path, data });
+        const { d: _d, ...rest } = node;
+        return rest;
+      }
+      if (node.t === 'd' && node.c) {
+        return { ...node, c: node.c.map((child) => strip(child, joinPath(path, child.n))) };
+      }
+      return node;
+    };
+    const tree = strip(root, '/');
+
+    const files = await this.dir.getDirectoryHandle(OPFS_FILES_DIR, { create: true });
+    for (const path of Object.keys(previous)) {
+      if (!(path in current)) await removeFilePath(files, path);
+    }
+    for (const { path, data } of pending) {
+      await writeFilePath(files, path, data);
+    }
+
+    // The manifest goes last, so a save interrupted before this point still
+    // loads the previous tree
+    this.manifest = { version: 1, tree, files: current };
+    await writeOPFSFile(this.dir, OPFS_MANIFEST, JSON.stringify(this.manifest));
+
+    const journal = await this.dir.getDirectoryHandle(OPFS_JOURNAL_DIR, { create: true });
+    const folded = root.sq ?? 0;
+    for (const name of await journalBatches(journal)) {
+      if (Number(name.split('-')[1]) <= folded) {
+        await journal.removeEntry(name + '.json').catch(() => {});
+      }
+    }
+  }
+
+  async appendJournal(records: JournalRecord[]): Promise<void> {
+    if (!this.dir || records.length === 0) return;
+    const journal = await this.dir.getDirectoryHandle(OPFS_JOURNAL_DIR, { create: true });
+    const name = `${records[0].s}-${records[records.length - 1].s}.json`;
+    await writeOPFSFile(journal, name, JSON.stringify(records));
+  }
+
+  async readJournal(): Promise<JournalRecord[]> {
+    if (!this.dir) return [];
+    const journal = await this.dir.getDirectoryHandle(OPFS_JOURNAL_DIR, { create: true });
+    const records: JournalRecord[] = [];
+    for (const name of await journalBatches(journal)) {
+      const raw = await readOPFSFile(journal, name + '.json');
+      if (!raw) continue;
+      try {
+        records.push(...(JSON.parse(new TextDecoder().decode(raw)) as JournalRecord[]));
+      } catch {
+        // A batch that never finished writing; everything after it is suspect
+        break;
+      }
+    }
+    return records;
+  }
+
+  async saveBackup(backup: PersistenceBackup): Promise<void> {
+    if (!this.dir) return;
+    const backups = await this.dir.getDirectoryHandle(OPFS_BACKUP_DIR, { create: true });
+    await writeOPFSFile(backups, backup.label + '.json', JSON.stringify(backup));
+  }
+
+  async loadBackups(): Promise<PersistenceBackup[]> {
+    if (!this.dir) return [];
+    const backups = await this.dir.getDirectoryHandle(OPFS_BACKUP_DIR, { create: true });
+    const result: PersistenceBackup[] = [];
+    for await (const name of backups.keys()) {
+      if (!name.endsWith('.json')) continue;
+      const raw = await readOPFSFile(backups, name);
+      if (!raw) continue;
+      try {
+        result.push(JSON.parse(new TextDecoder().decode(raw)) as PersistenceBackup);
+      } catch {
+        // Cut short while being written; the image it copied is still in place
+      }
+    }
+    return result;
+  }
+
+  async close(): Promise<void> {
+    this.dir = null;
+    this.manifest = null;
+  }
+
+  private async migrate(source: PersistenceBackend): Promise<void> {
+    try {
+      await source.open();
+      const tree = await source.loadTree();
+      if (tree) await this.saveTree(tree);
+      const folded = tree?.sq ?? 0;
+      const records = (await source.readJournal?.())?.filter((r) => r.s > folded) ?? [];
+      if (records.length > 0) await this.appendJournal(records);
+      await source.close?.();
+    } catch {
+      // Nothing to migrate
+    }
+  }
+}
+
+/** Journal batch names ("<first>-<last>", no extension) in sequence order. */
+async function journalBatches(journal: OPFSDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const name of journal.keys()) {
+    if (/^\d+-\d+\.json$/.test(name)) names.push(name.slice(0, -'.json'.length));
+  }
+  return names.sort((a, b) => Number(a.split('-')[0]) - Number(b.split('-')[0]));
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === '/' ? '/' + name : dir + '/' + name;
+}
+
+function splitPath(path: string): { parents: string[]; name: string } {
+  const parts = path.split('/').filter(Boolean);
+  return { parents: parts.slice(0, -1), name: parts[parts.length - 1] };
+}
+
+async function readFilePath(files: OPFSDirectoryHandle, path: string): Promise<Uint8Array | null> {
+  const { parents, name } = splitPath(path);
+  try {
+    return await readOPFSFile(await opfsDirectory(files, parents), name);
+  } catch {
+    return null;
+  }
+}
+
+async function writeFilePath(files: OPFSDirectoryHandle, path: string, data: Uint8Array): Promise<void> {
+  const { parents, name } = splitPath(path);
+  let dir = files;
+  for (const part of parents) {
+    try {
+      dir = await dir.getDirectoryHandle(part, { create: true });
+    } catch {
+      // A file used to live where this directory now is
+      await dir.removeEntry(part);
+      dir = await dir.getDirectoryHandle(part, { create: true });
+    }
+  }
+  try {
+    await writeOPFSFile(dir, name, data);
+  } catch {
+    // A directory used to live where this file now is
+    await dir.removeEntry(name, { recursive: true });
+    await writeOPFSFile(dir, name, data);
+  }
+}
+
+/** Remove a file, then any directories the removal left empty. */
+async function removeFilePath(files: OPFSDirectoryHandle, path: string): Promise<void> {
+  const { parents, name } = splitPath(path);
+  try {
+    const dirs = [files];
+    for (const part of parents) {
+      dirs.push(await dirs[dirs.length - 1].getDirectoryHandle(part));
+    }
+    await dirs[dirs.length - 1].removeEntry(name);
+
+    for (let i = parents.length - 1; i >= 0; i--) {
+      const empty = (await dirs[i + 1].keys().next()).done;
+      if (!empty) break;
+      await dirs[i].removeEntry(parents[i]);
+    }
+  } catch {
+    // Already gone, or its directory was replaced
   }
 }
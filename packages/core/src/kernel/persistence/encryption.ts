@@ -0,0 +1,336 @@
+import type { SerializedNode, SerializedKeyHeader } from './serializer.js';
+import { serialize, deserialize, toBase64, fromBase64 } from './serializer.js';
+import type { JournalRecord } from './journal.js';
+import { replayJournal } from './journal.js';
+import type { PersistenceBackend, PersistenceBackup } from './backends.js';
+import { FORMAT_VERSION } from './migrations.js';
+import { hashBytes } from '../storage/BlobStore.js';
+import type { BlobStore } from '../storage/BlobStore.js';
+
+/** PBKDF2-HMAC-SHA256 rounds for new keys, as OWASP recommends. */
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** `data` backed by a plain ArrayBuffer, as WebCrypto wants it. */
+function buffer(data: Uint8Array): Uint8Array<ArrayBuffer> {
+  return data.buffer instanceof ArrayBuffer ? (data as Uint8Array<ArrayBuffer>) : new Uint8Array(data);
+}
+
+/** Asks for the passphrase; `attempt` counts from 1. Returning null gives up. */
+export type PassphrasePrompt = (attempt: number) => Promise<string | null>;
+
+export interface EncryptionOptions {
+  /**
+   * A passphrase string encrypts with it, converting a plaintext image on
+   * open(). A prompt is only asked when the image is already encrypted
+   * (again after a wrong answer); a plaintext image stays plaintext until
+   * changePassphrase().
+   */
+  passphrase: string | PassphrasePrompt;
+  /** Answers a prompt may get wrong before open() gives up (default 3) */
+  attempts?: number;
+  /** PBKDF2 rounds for keys derived from now on (default PBKDF2_ITERATIONS) */
+  iterations?: number;
+}
+
+/** The passphrase does not unlock the image (or none was given). */
+export class PassphraseError extends Error {
+  constructor(message = 'wrong passphrase') {
+    super(message);
+    this.name = 'PassphraseError';
+  }
+}
+
+function subtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('encrypted persistence needs WebCrypto (a secure context)');
+  }
+  return globalThis.crypto.subtle;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await subtle().importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle().deriveKey(
+    { name: 'PBKDF2', salt: buffer(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/** AES-GCM under a fresh random IV, which is prepended to the ciphertext. */
+async function seal(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await subtle().encrypt({ name: 'AES-GCM', iv }, key, buffer(data)));
+  const out = new Uint8Array(IV_BYTES + ciphertext.length);
+  out.set(iv);
+  out.set(ciphertext, IV_BYTES);
+  return out;
+}
+
+/** Undo seal(). Throws if the key is wrong or the data was altered. */
+async function unseal(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  const bytes = buffer(data);
+  const iv = bytes.subarray(0, IV_BYTES);
+  return new Uint8Array(await subtle().decrypt({ name: 'AES-GCM', iv }, key, bytes.subarray(IV_BYTES)));
+}
+
+/** Protect the data key with a key derived from `passphrase` under a new salt. */
+async function wrapKey(dataKey: CryptoKey, passphrase: string, iterations: number): Promise<SerializedKeyHeader> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const raw = new Uint8Array(await subtle().exportKey('raw', dataKey));
+  const wrapped = await seal(await deriveKey(passphrase, salt, iterations), raw);
+  return { s: toBase64(salt), i: iterations, k: toBase64(wrapped) };
+}
+
+/** The data key, or null when `passphrase` is wrong. */
+async function unwrapKey(header: SerializedKeyHeader, passphrase: string): Promise<CryptoKey | null> {
+  const derived = await deriveKey(passphrase, fromBase64(header.s), header.i);
+  let raw: Uint8Array;
+  try {
+    raw = await unseal(derived, fromBase64(header.k));
+  } catch {
+    return null;
+  }
+  return subtle().importKey('raw', buffer(raw), 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+/** An image with journal records applied to it, as a single tree. */
+function fold(image: SerializedNode | null, records: JournalRecord[]): SerializedNode | null {
+  if (records.length === 0) return image;
+  const root = deserialize(image ?? { t: 'd', n: '', ct: 0, mt: 0, m: 0o755 });
+  replayJournal(root, records);
+  const tree = serialize(root);
+  tree.sq = records[records.length - 1].s;
+  tree.v = image?.v ?? FORMAT_VERSION;
+  return tree;
+}
+
+/**
+ * Encrypts blobs on their way into `inner`, still keyed by the hash of the
+ * plaintext so the content store finds them. Blobs stored before
+ * encryption was turned on are recognised by that hash and read as they are.
+ */
+export class EncryptedBlobStore implements BlobStore {
+  /** @param key The data key, or null to pass blobs through unencrypted */
+  constructor(private inner: BlobStore, private key: () => CryptoKey | null) {}
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    const data = await this.inner.get(hash);
+    const key = this.key();
+    if (!data || !key) return data;
+    try {
+      return await unseal(key, data);
+    } catch {
+      return hashBytes(data) === hash ? data : null;
+    }
+  }
+
+  async put(data: Uint8Array, hash?: string): Promise<string> {
+    const key = this.key();
+    if (!key) return this.inner.put(data, hash);
+    const name = hash ?? hashBytes(data);
+    await this.inner.put(await seal(key, data), name);
+    return name;
+  }
+
+  delete(hash: string): Promise<void> {
+    return this.inner.delete(hash);
+  }
+
+  has(hash: string): Promise<boolean> {
+    return this.inner.has(hash);
+  }
+
+  keys(): Promise<string[]> {
+    return this.inner.keys();
+  }
+}
+
+/**
+ * Encrypts everything `inner` stores: the tree, journal records, backups
+ * and blobs, with AES-GCM under a random data key. The data key itself is
+ * stored encrypted with a key derived from the passphrase (PBKDF2), so
+ * changing the passphrase rewrites only that, in one save.
+ *
+ * `inner` sees an image with no entries, carrying the key header and the
+ * real tree as ciphertext, and journal records of op `enc`. Blob names stay
+ * the plaintext content hashes, so identical chunks can be told apart from
+ * different ones, but nothing else about the files shows.
+ */
+export class EncryptedPersistenceBackend implements PersistenceBackend {
+  readonly blobs?: EncryptedBlobStore;
+  appendJournal?: (records: JournalRecord[]) => Promise<void>;
+  readJournal?: () => Promise<JournalRecord[]>;
+  saveBackup?: (backup: PersistenceBackup) => Promise<void>;
+  loadBackups?: () => Promise<PersistenceBackup[]>;
+
+  private dataKey: CryptoKey | null = null;
+  private header: SerializedKeyHeader | null = null;
+
+  constructor(private inner: PersistenceBackend, private options: EncryptionOptions) {
+    if (inner.blobs) this.blobs = new EncryptedBlobStore(inner.blobs, () => this.dataKey);
+    // Offer only what the wrapped backend supports; PersistenceManager checks
+    if (inner.appendJournal && inner.readJournal) {
+      this.appendJournal = async (records) => inner.appendJournal!(await this.sealRecords(records));
+      this.readJournal = async () => this.openRecords(await inner.readJournal!());
+    }
+    if (inner.saveBackup && inner.loadBackups) {
+      this.saveBackup = async (backup) => inner.saveBackup!(await this.sealBackup(backup));
+      this.loadBackups = async () => {
+        const backups: PersistenceBackup[] = [];
+        for (const backup of await inner.loadBackups!()) backups.push(await this.openBackup(backup));
+        return backups;
+      };
+    }
+  }
+
+  /** Whether the image is (or, from the next save, will be) encrypted. */
+  get encrypted(): boolean {
+    return this.dataKey !== null;
+  }
+
+  /**
+   * @throws PassphraseError if the image is encrypted and the passphrase
+   *   (or every answer to the prompt) is wrong. Nothing is changed.
+   */
+  async open(): Promise<void> {
+    await this.inner.open();
+    const image = await this.inner.loadTree();
+    if (image?.ek) {
+      this.dataKey = await this.unlock(image.ek);
+      this.header = image.ek;
+    } else if (typeof this.options.passphrase === 'string') {
+      await this.changePassphrase(this.options.passphrase);
+    }
+  }
+
+  async loadTree(): Promise<SerializedNode | null> {
+    const image = await this.inner.loadTree();
+    if (!image?.ek) return image;
+    return image.ed ? this.openJSON<SerializedNode>(image.ed) : null;
+  }
+
+  async saveTree(root: SerializedNode): Promise<void> {
+    if (!this.dataKey) return this.inner.saveTree(root);
+    const envelope = await this.envelope(root);
+    envelope.ek = this.header!;
+    await this.inner.saveTree(envelope);
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close?.();
+    this.dataKey = null;
+    this.header = null;
+  }
+
+  /**
+   * Protect the image with a new passphrase. Only the data key is
+   * re-encrypted, so files, journal and blobs are not rewritten. A
+   * plaintext image is encrypted now, along with its backups and blobs.
+   */
+  async changePassphrase(passphrase: string): Promise<void> {
+    const iterations = this.options.iterations ?? PBKDF2_ITERATIONS;
+    if (this.dataKey) {
+      this.header = await wrapKey(this.dataKey, passphrase, iterations);
+      const image = (await this.inner.loadTree()) ?? this.emptyImage();
+      await this.inner.saveTree({ ...image, ek: this.header });
+      return;
+    }
+
+    const image = await this.inner.loadTree();
+    const base = image?.sq ?? 0;
+    const records = ((await this.inner.readJournal?.()) ?? []).filter((r) => r.s > base);
+    const backups = (await this.inner.loadBackups?.()) ?? [];
+
+    const dataKey = await subtle().generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    this.header = await wrapKey(dataKey, passphrase, iterations);
+    this.dataKey = dataKey;
+
+    // The image goes first, with the journal folded in so that no plaintext
+    // record outlives it. Blobs are readable whether converted yet or not
+    const tree = fold(image, records);
+    if (tree) await this.saveTree(tree);
+    else await this.inner.saveTree({ ...this.emptyImage(), ek: this.header });
+    for (const backup of backups) await this.saveBackup?.(backup);
+
+    const blobs = this.inner.blobs;
+    if (!blobs) return;
+    for (const hash of await blobs.keys()) {
+      const data = await blobs.get(hash);
+      if (data && hashBytes(data) === hash) await this.blobs!.put(data, hash);
+    }
+  }
+
+  /** Ask for the passphrase until it unlocks the data key. */
+  private async unlock(header: SerializedKeyHeader): Promise<CryptoKey> {
+    const { passphrase, attempts = 3 } = this.options;
+    if (typeof passphrase === 'string') {
+      const key = await unwrapKey(header, passphrase);
+      if (!key) throw new PassphraseError();
+      return key;
+    }
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const answer = await passphrase(attempt);
+      if (answer === null) throw new PassphraseError('no passphrase given');
+      const key = await unwrapKey(header, answer);
+      if (key) return key;
+    }
+    throw new PassphraseError(`wrong passphrase (${attempts} attempts)`);
+  }
+
+  /** An image with nothing in it yet, so the key header has somewhere to live. */
+  private emptyImage(): SerializedNode {
+    return { t: 'd', n: '', ct: 0, mt: 0, m: 0o700, v: FORMAT_VERSION };
+  }
+
+  /** `tree` encrypted inside an empty image; `sq` stays readable so `inner` can trim its journal. */
+  private async envelope(tree: SerializedNode): Promise<SerializedNode> {
+    const envelope = this.emptyImage();
+    envelope.ed = await this.sealJSON(tree);
+    if (tree.sq !== undefined) envelope.sq = tree.sq;
+    return envelope;
+  }
+
+  private async sealRecords(records: JournalRecord[]): Promise<JournalRecord[]> {
+    if (!this.dataKey) return records;
+    const sealed: JournalRecord[] = [];
+    for (const record of records) {
+      sealed.push({ s: record.s, op: 'enc', d: await this.sealJSON(record) });
+    }
+    return sealed;
+  }
+
+  private async openRecords(records: JournalRecord[]): Promise<JournalRecord[]> {
+    const opened: JournalRecord[] = [];
+    for (const record of records) {
+      opened.push(record.op === 'enc' ? await this.openJSON<JournalRecord>(record.d) : record);
+    }
+    return opened;
+  }
+
+  private async sealBackup(backup: PersistenceBackup): Promise<PersistenceBackup> {
+    if (!this.dataKey) return backup;
+    return { label: backup.label, tree: await this.envelope(backup.tree), journal: await this.sealRecords(backup.journal) };
+  }
+
+  private async openBackup(backup: PersistenceBackup): Promise<PersistenceBackup> {
+    const tree = backup.tree.ed ? await this.openJSON<SerializedNode>(backup.tree.ed) : backup.tree;
+    return { label: backup.label, tree, journal: await this.openRecords(backup.journal) };
+  }
+
+  private async sealJSON(value: unknown): Promise<string> {
+    return toBase64(await seal(this.dataKey!, encoder.encode(JSON.stringify(value))));
+  }
+
+  private async openJSON<T>(data: string): Promise<T> {
+    if (!this.dataKey) throw new PassphraseError('the image is encrypted and has not been unlocked');
+    return JSON.parse(decoder.decode(await unseal(this.dataKey, fromBase64(data)))) as T;
+  }
+}
@@ -1,5 +1,25 @@
-export { PersistenceManager } from './PersistenceManager.js';
-export type { PersistenceBackend } from './backends.js';
-export { IndexedDBPersistenceBackend, MemoryPersistenceBackend } from './backends.js';
+export { PersistenceManager, COMPACT_THRESHOLD } from './PersistenceManager.js';
+export type {
+  PersistenceBackend,
+  PersistenceBackendKind,
+  OPFSPersistenceOptions,
+  PersistenceBackup,
+} from './backends.js';
+export {
+  IndexedDBPersistenceBackend,
+  MemoryPersistenceBackend,
+  OPFSPersistenceBackend,
+  createPersistenceBackend,
+} from './backends.js';
 export { serialize, deserialize } from './serializer.js';
+export type { JournalRecord } from './journal.js';
 export type { SerializedNode } from './serializer.js';
+export { FORMAT_VERSION, MIGRATIONS, FormatVersionError, formatVersion, migrate } from './migrations.js';
+export type { Migration } from './migrations.js';
+export {
+  EncryptedPersistenceBackend,
+  EncryptedBlobStore,
+  PassphraseError,
+  PBKDF2_ITERATIONS,
+} from './encryption.js';
+export type { EncryptionOptions, PassphrasePrompt } from './encryption.js';
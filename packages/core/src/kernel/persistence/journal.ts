@@ -0,0 +1,130 @@
+import type { INode, VFSWatchEvent } from '../vfs/types.js';
+import { serializeEntry, deserialize } from './serializer.js';
+import type { SerializedNode } from './serializer.js';
+
+/**
+ * One change to the persisted tree. `s` is a sequence number that increases
+ * across the journal's lifetime; an image saved with `sq: n` already
+ * contains every record up to and including `n`.
+ *
+ * - `put`: create or replace the entry at `p` (directories keep their children)
+ * - `del`: remove the entry at `p` and everything below it
+ * - `mv`:  move the entry at `from` to `p`, replacing what was there
+ * - `enc`: any of the above, encrypted (only ever seen by the backend that
+ *   EncryptedPersistenceBackend wraps)
+ */
+export type JournalRecord =
+  | { s: number; op: 'put'; p: string; n: SerializedNode }
+  | { s: number; op: 'del'; p: string }
+  | { s: number; op: 'mv'; p: string; from: string }
+  | { s: number; op: 'enc'; p?: undefined; d: string };  // the path is inside `d`
+
+/** A watch event together with the node it referred to when it fired. */
+export interface PendingChange {
+  event: VFSWatchEvent;
+  node?: INode;
+}
+
+/** Top-level directories served by virtual providers; never persisted. */
+const EXCLUDED_PREFIXES = ['/proc', '/dev'];
+
+function isExcluded(path: string): boolean {
+  return EXCLUDED_PREFIXES.some((prefix) => path === prefix || path.startsWith(prefix + '/'));
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+/** Look up an entry without following symlinks. */
+export function lookupNode(root: INode, path: string): INode | undefined {
+  let node: INode | undefined = root;
+  for (const part of splitPath(path)) {
+    if (node.type !== 'directory') return undefined;
+    node = node.children.get(part);
+    if (!node) return undefined;
+  }
+  return node;
+}
+
+function lookupParent(root: INode, path: string): { parent: INode; name: string } | undefined {
+  const parts = splitPath(path);
+  const name = parts.pop();
+  if (!name) return undefined;
+  const parent = lookupNode(root, '/' + parts.join('/'));
+  return parent?.type === 'directory' ? { parent, name } : undefined;
+}
+
+/**
+ * Capture a watch event for the journal. The node is looked up now, while
+ * `event.path` still names it, and serialized later when the batch is
+ * written. Returns null for events outside the persisted tree.
+ */
+export function capture(event: VFSWatchEvent, root: INode): PendingChange | null {
+  if (isExcluded(event.path) || (event.oldPath && isExcluded(event.oldPath))) return null;
+  if (event.type === 'delete' || event.type === 'rename') return { event };
+  const node = lookupNode(root, event.path);
+  return node ? { event, node } : null;
+}
+
+/**
+ * Turn a batch of captured changes into journal records numbered from
+ * `nextSeq`. Returns null when the batch cannot be expressed as records
+ * (hard-linked files share one node between several paths), in which case
+ * the caller should save the whole tree instead.
+ */
+export function buildRecords(changes: PendingChange[], nextSeq: number): JournalRecord[] | null {
+  const records: JournalRecord[] = [];
+  // Repeated writes to the same node collapse into one put, as long as no
+  // delete or rename happened in between
+  const written = new Map<string, INode>();
+
+  for (const { event, node } of changes) {
+    if (event.type === 'delete') {
+      records.push({ s: nextSeq++, op: 'del', p: event.path });
+      written.clear();
+    } else if (event.type === 'rename') {
+      records.push({ s: nextSeq++, op: 'mv', p: event.path, from: event.oldPath ?? event.path });
+      written.clear();
+    } else if (node) {
+      if ((node.nlink ?? 1) > 1) return null;
+      if (written.get(event.path) === node) continue;
+      written.set(event.path, node);
+      const name = splitPath(event.path).pop() ?? '';
+      records.push({ s: nextSeq++, op: 'put', p: event.path, n: serializeEntry(node, name) });
+    }
+  }
+  return records;
+}
+
+/** Apply journal records, in order, to a deserialized tree. */
+export function replayJournal(root: INode, records: JournalRecord[]): void {
+  for (const record of records) {
+    if (record.op === 'put') {
+      const target = lookupParent(root, record.p);
+      if (!target) continue;
+      const node = deserialize(record.n);
+      node.name = target.name;
+      const existing = target.parent.children.get(target.name);
+      if (existing?.type === 'directory' && node.type === 'directory') {
+        // Metadata only; the children stay where they are
+        node.children = existing.children;
+      }
+      target.parent.children.set(target.name, node);
+    } else if (record.op === 'del') {
+      const target = lookupParent(root, record.p);
+      const node = target?.parent.children.get(target.name);
+      if (!target || !node) continue;
+      target.parent.children.delete(target.name);
+      if (node.nlink !== undefined && node.nlink > 1) node.nlink--;
+    } else if (record.op === 'mv') {
+      const source = lookupParent(root, record.from);
+      const dest = lookupParent(root, record.p);
+      const node = source?.parent.children.get(source.name);
+      if (!source || !dest || !node) continue;
+      source.parent.children.delete(source.name);
+      node.name = dest.name;
+      dest.parent.children.set(dest.name, node);
+    }
+  }
+}
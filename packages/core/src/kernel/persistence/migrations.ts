@@ -0,0 +1,114 @@
+import type { SerializedNode } from './serializer.js';
+import type { JournalRecord } from './journal.js';
+import { DEFAULT_PASSWD, DEFAULT_USER, DEFAULT_USER_TREES, inDefaultUserTree } from '../users/index.js';
+
+/**
+ * Version of the persisted image format written by this build, stored as
+ * `v` on the root. Images saved before the format was versioned have no
+ * `v` and count as version 1.
+ *
+ * Bump this together with a new entry in MIGRATIONS whenever a change
+ * means an older image would load wrongly.
+ */
+export const FORMAT_VERSION = 4;
+
+/**
+ * One upgrade step. It runs on images older than `version` and rewrites
+ * them in place into that version's format. `journal` holds the records
+ * written after the image by the same older build; a step that changes how
+ * entries are encoded must rewrite the `put` records too.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(tree: SerializedNode, journal: JournalRecord[]): void;
+}
+
+/** Opening an image written by a newer build, which this one cannot read. */
+export class FormatVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(
+      `filesystem image has format version ${version}, but this version of Lifo only reads up to ${FORMAT_VERSION}; ` +
+        `the image was left untouched`,
+    );
+    this.name = 'FormatVersionError';
+  }
+}
+
+function child(dir: SerializedNode | undefined, name: string): SerializedNode | undefined {
+  return dir?.t === 'd' ? dir.c?.find((c) => c.n === name) : undefined;
+}
+
+/** Give `node` and everything under it that root owns to the default user. */
+function claim(node: SerializedNode): void {
+  const { uid, gid } = DEFAULT_PASSWD.find((entry) => entry.name === DEFAULT_USER)!;
+  if (!node.u) {
+    node.u = uid;
+    node.g = gid;
+  }
+  node.c?.forEach(claim);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'copy ~/.bashrc to ~/.liforc',
+    migrate(tree) {
+      const home = child(child(tree, 'home'), 'user');
+      const bashrc = child(home, '.bashrc');
+      if (!home || bashrc?.t !== 'f' || child(home, '.liforc')) return;
+      // A plain copy; the old file is kept for anything else that reads it
+      const { hl: _hl, nl: _nl, ...copy } = bashrc;
+      home.c!.push({ ...copy, n: '.liforc' });
+    },
+  },
+  {
+    // Nothing changes for plaintext images. An encrypted one has no entries
+    // an older build could read, so it must not be mistaken for an empty tree
+    version: 3,
+    description: 'allow encrypted images',
+    migrate() {},
+  },
+  {
+    // Images saved before nodes had owners hold everything as root, which
+    // would shut the default user out of their own home
+    version: 4,
+    description: 'give the default user their home and the package prefixes',
+    migrate(tree, journal) {
+      for (const path of DEFAULT_USER_TREES) {
+        const node = path.split('/').filter(Boolean).reduce<SerializedNode | undefined>(child, tree);
+        if (node) claim(node);
+      }
+      for (const record of journal) {
+        if (record.op === 'put' && inDefaultUserTree(record.p)) claim(record.n);
+      }
+    },
+  },
+];
+
+/** The format version of a saved image. */
+export function formatVersion(tree: SerializedNode): number {
+  return tree.v ?? 1;
+}
+
+/**
+ * Bring an image and its journal up to FORMAT_VERSION, in place. Returns
+ * the steps that ran (none for a current image).
+ *
+ * @throws FormatVersionError if the image is newer than this build
+ */
+export function migrate(
+  tree: SerializedNode,
+  journal: JournalRecord[],
+  migrations: Migration[] = MIGRATIONS,
+): Migration[] {
+  const from = formatVersion(tree);
+  if (from > FORMAT_VERSION) throw new FormatVersionError(from);
+
+  const steps = migrations
+    .filter((m) => m.version > from && m.version <= FORMAT_VERSION)
+    .sort((a, b) => a.version - b.version);
+  for (const step of steps) step.migrate(tree, journal);
+  tree.v = FORMAT_VERSION;
+  return steps;
+}
@@ -5,8 +5,15 @@ export interface SerializedChunkRef {
   s: number;  // size
 }
 
+/** How an encrypted image's data key is protected (see encryption.ts). */
+export interface SerializedKeyHeader {
+  s: string;  // PBKDF2 salt (base64)
+  i: number;  // PBKDF2 iterations
+  k: string;  // data key, encrypted with the passphrase-derived key (base64)
+}
+
 export interface SerializedNode {
-  t: 'f' | 'd';
+  t: 'f' | 'd' | 'l' | 'h' | 'p';
   n: string;
   d?: string;              // base64 data (small files only)
   c?: SerializedNode[];     // children (dirs only)
@@ -17,11 +24,21 @@ export interface SerializedNode {
   br?: string;             // blob store ref (content hash)
   ch?: SerializedChunkRef[]; // chunk manifest (large files)
   sz?: number;             // stored size (when chunked)
+  tg?: string;             // symlink target
+  hl?: number;             // hard link id (multiply-linked files)
+  nl?: number;             // link count (first occurrence of a hard link)
+  u?: number;              // owner uid (omitted for root)
+  g?: number;              // group gid (omitted for root)
+  x?: Record<string, string>; // extended attributes (base64 values)
+  sq?: number;             // last journal record folded into this image (root only)
+  v?: number;              // format version (root only; see migrations.ts)
+  ek?: SerializedKeyHeader; // key header (root of an encrypted image only)
+  ed?: string;             // the real image, encrypted (root of an encrypted image only)
 }
 
 const EXCLUDED_PREFIXES = ['proc', 'dev'];
 
-function toBase64(bytes: Uint8Array): string {
+export function toBase64(bytes: Uint8Array): string {
   let binary = '';
   for (let i = 0; i < bytes.length; i++) {
     binary += String.fromCharCode(bytes[i]);
@@ -29,7 +46,7 @@ function toBase64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-function fromBase64(str: string): Uint8Array {
+export function fromBase64(str: string): Uint8Array {
   const binary = atob(str);
   const bytes = new Uint8Array(binary.length);
   for (let i = 0; i < binary.length; i++) {
@@ -38,15 +55,61 @@ function fromBase64(str: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Hard-linked files appear several times in the tree. The first occurrence
+ * is written in full and tagged with an `hl` id; later ones are `t: 'h'`
+ * stubs that refer back to it. Serialization and deserialization walk the
+ * tree in the same order, so the full entry is always seen first.
+ */
+interface LinkState {
+  ids: Map<INode, number>;
+  nodes: Map<number, INode>;
+}
+
+/**
+ * Record ownership and extended attributes; root-owned nodes without any
+ * (the common case) store nothing.
+ */
+function serializeOwner(node: INode, s: SerializedNode): SerializedNode {
+  if (node.uid) s.u = node.uid;
+  if (node.gid) s.g = node.gid;
+  if (node.xattrs?.size) {
+    s.x = {};
+    for (const [name, value] of node.xattrs) s.x[name] = toBase64(value);
+  }
+  return s;
+}
+
 export function serialize(root: INode): SerializedNode {
-  return serializeNode(root, true);
+  return serializeNode(root, root.name, true, { ids: new Map(), nodes: new Map() });
 }
 
-function serializeNode(node: INode, isRoot: boolean): SerializedNode {
+function serializeNode(node: INode, name: string, isRoot: boolean, links: LinkState): SerializedNode {
+  if (node.type === 'symlink') {
+    return serializeOwner(node, {
+      t: 'l',
+      n: name,
+      ct: node.ctime,
+      mt: node.mtime,
+      m: node.mode,
+      tg: node.target ?? '',
+    });
+  }
+
+  if (node.type === 'fifo') {
+    // Data in the pipe is not kept; only the node is
+    return serializeOwner(node, { t: 'p', n: name, ct: node.ctime, mt: node.mtime, m: node.mode });
+  }
+
   if (node.type === 'file') {
+    const linkId = links.ids.get(node);
+    if (linkId !== undefined) {
+      return { t: 'h', n: name, ct: node.ctime, mt: node.mtime, m: node.mode, hl: linkId };
+    }
+
     const s: SerializedNode = {
       t: 'f',
-      n: node.name,
+      n: name,
       ct: node.ctime,
       mt: node.mtime,
       m: node.mode,
@@ -66,19 +129,25 @@ function serializeNode(node: INode, isRoot: boolean): SerializedNode {
     if (node.blobRef) {
       s.br = node.blobRef;
     }
-    return s;
+    if (node.nlink !== undefined && node.nlink > 1) {
+      const id = links.ids.size + 1;
+      links.ids.set(node, id);
+      s.hl = id;
+      s.nl = node.nlink;
+    }
+    return serializeOwner(node, s);
   }
 
   const children: SerializedNode[] = [];
-  for (const [name, child] of node.children) {
+  for (const [childName, child] of node.children) {
     // Exclude virtual filesystem directories at root level
-    if (isRoot && EXCLUDED_PREFIXES.includes(name)) continue;
-    children.push(serializeNode(child, false));
+    if (isRoot && EXCLUDED_PREFIXES.includes(childName)) continue;
+    children.push(serializeNode(child, childName, false, links));
   }
 
   const s: SerializedNode = {
     t: 'd',
-    n: node.name,
+    n: name,
     ct: node.ctime,
     mt: node.mtime,
     m: node.mode,
@@ -86,24 +155,51 @@ function serializeNode(node: INode, isRoot: boolean): SerializedNode {
   if (children.length > 0) {
     s.c = children;
   }
-  return s;
+  return serializeOwner(node, s);
+}
+
+/**
+ * Serialize a single entry for the journal. Directories are written without
+ * their children, which are journaled separately.
+ */
+export function serializeEntry(node: INode, name: string): SerializedNode {
+  if (node.type === 'directory') {
+    return serializeOwner(node, { t: 'd', n: name, ct: node.ctime, mt: node.mtime, m: node.mode });
+  }
+  return serializeNode(node, name, false, { ids: new Map(), nodes: new Map() });
 }
 
 export function deserialize(data: SerializedNode): INode {
-  return deserializeNode(data);
+  return deserializeNode(data, { ids: new Map(), nodes: new Map() });
 }
 
-function deserializeNode(data: SerializedNode): INode {
+const NODE_TYPES = { f: 'file', d: 'directory', l: 'symlink', p: 'fifo' } as const;
+
+function deserializeNode(data: SerializedNode, links: LinkState): INode {
+  if (data.t === 'h') {
+    const target = data.hl !== undefined ? links.nodes.get(data.hl) : undefined;
+    if (target) return target;
+    // Dangling reference (corrupt image): keep the name as an empty file
+    return {
+      type: 'file',
+      name: data.n,
+      data: new Uint8Array(0),
+      children: new Map(),
+      ctime: data.ct,
+      mtime: data.mt,
+      mode: data.m,
+    };
+  }
+
   const children = new Map<string, INode>();
   if (data.t === 'd' && data.c) {
     for (const child of data.c) {
-      const node = deserializeNode(child);
-      children.set(node.name, node);
+      children.set(child.n, deserializeNode(child, links));
     }
   }
 
   const node: INode = {
-    type: data.t === 'f' ? 'file' : 'directory',
+    type: NODE_TYPES[data.t],
     name: data.n,
     data: data.d ? fromBase64(data.d) : new Uint8Array(0),
     children,
@@ -123,5 +219,21 @@ function deserializeNode(data: SerializedNode): INode {
   if (data.sz !== undefined) {
     node.storedSize = data.sz;
   }
+  if (data.tg !== undefined) {
+    node.target = data.tg;
+  }
+  if (data.hl !== undefined) {
+    node.nlink = data.nl;
+    links.nodes.set(data.hl, node);
+  }
+  if (data.u !== undefined) {
+    node.uid = data.u;
+  }
+  if (data.g !== undefined) {
+    node.gid = data.g;
+  }
+  if (data.x) {
+    node.xattrs = new Map(Object.entries(data.x).map(([name, value]) => [name, fromBase64(value)]));
+  }
   return node;
 }
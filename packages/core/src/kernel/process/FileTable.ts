@@ -0,0 +1,295 @@
+// Per-process file descriptor table. An fd names an open file description
+// (OpenFile), which holds the path, the open flags and the file offset.
+// dup() and fork share descriptions, so they also share the offset.
+
+import type { VFS } from '../vfs/index.js';
+import type { Stat } from '../vfs/types.js';
+import type { FifoReader, FifoWriter } from '../vfs/Fifo.js';
+import { VFSError, ErrorCode, R_OK, W_OK } from '../vfs/types.js';
+import { encode } from '../../utils/encoding.js';
+
+// open() flags, with Linux's values
+export const O_RDONLY = 0;
+export const O_WRONLY = 1;
+export const O_RDWR = 2;
+export const O_ACCMODE = 3;
+export const O_CREAT = 0o100;
+export const O_EXCL = 0o200;
+export const O_TRUNC = 0o1000;
+export const O_APPEND = 0o2000;
+
+// lseek() whence values
+export const SEEK_SET = 0;
+export const SEEK_CUR = 1;
+export const SEEK_END = 2;
+
+/**
+ * Lowest fd open() hands out. 0-2 are the standard streams and, as in bash,
+ * 3-9 are left for scripts to redirect explicitly.
+ */
+const FIRST_FD = 10;
+
+/** Most fds a table holds at once (RLIMIT_NOFILE); open() past it is EMFILE. */
+export const MAX_FDS = 1024;
+
+export class OpenFile {
+  /** Current file offset, used by reads and writes without a position */
+  position = 0;
+
+  constructor(
+    readonly vfs: VFS,
+    readonly path: string,
+    readonly flags: number,
+  ) {}
+
+  get readable(): boolean {
+    return (this.flags & O_ACCMODE) !== O_WRONLY;
+  }
+
+  get writable(): boolean {
+    return (this.flags & O_ACCMODE) !== O_RDONLY;
+  }
+
+  /**
+   * Read up to `length` bytes at `position`, or at the file offset (which
+   * then advances) when no position is given.
+   */
+  read(length: number, position?: number | null): Uint8Array {
+    if (!this.readable) {
+      throw new VFSError(ErrorCode.EBADF, `'${this.path}': not open for reading`);
+    }
+    const pos = position ?? this.position;
+    const data = this.vfs.readRange(this.path, pos, length);
+    if (position == null) this.position = pos + data.byteLength;
+    return data;
+  }
+
+  /**
+   * Write at `position`, or at the file offset (which then advances) when no
+   * position is given. With O_APPEND every write goes to the end of the file.
+   * Returns the number of bytes written.
+   */
+  write(content: string | Uint8Array, position?: number | null): number {
+    if (!this.writable) {
+      throw new VFSError(ErrorCode.EBADF, `'${this.path}': not open for writing`);
+    }
+    const data = typeof content === 'string' ? encode(content) : content;
+    const append = (this.flags & O_APPEND) !== 0;
+    const pos = append ? this.vfs.stat(this.path).size : position ?? this.position;
+    this.vfs.writeAt(this.path, data, pos);
+    if (append || position == null) this.position = pos + data.byteLength;
+    return data.byteLength;
+  }
+
+  /** Move the file offset, like lseek(). Returns the new offset. */
+  seek(offset: number, whence = SEEK_SET): number {
+    let base: number;
+    if (whence === SEEK_SET) base = 0;
+    else if (whence === SEEK_CUR) base = this.position;
+    else if (whence === SEEK_END) base = this.vfs.stat(this.path).size;
+    else throw new VFSError(ErrorCode.EINVAL, `invalid whence: ${whence}`);
+
+    if (base + offset < 0) {
+      throw new VFSError(ErrorCode.EINVAL, `'${this.path}': invalid offset`);
+    }
+    this.position = base + offset;
+    return this.position;
+  }
+
+  truncate(length = 0): void {
+    if (!this.writable) {
+      throw new VFSError(ErrorCode.EINVAL, `'${this.path}': not open for writing`);
+    }
+    this.vfs.truncate(this.path, length);
+  }
+
+  stat(): Stat {
+    return this.vfs.stat(this.path);
+  }
+}
+
+/**
+ * An open FIFO. Writes go into the pipe; read() takes only what is already
+ * in it, and readChunk() waits for more. The pipe has no offset to seek
+ * or truncate. close() releases the ends, so readers see end of file once
+ * the last writer is gone.
+ */
+export class FifoFile extends OpenFile {
+  constructor(
+    vfs: VFS,
+    path: string,
+    flags: number,
+    private reader: FifoReader | null,
+    private writer: FifoWriter | null,
+  ) {
+    super(vfs, path, flags);
+  }
+
+  read(length: number, position?: number | null): Uint8Array {
+    if (!this.reader) {
+      throw new VFSError(ErrorCode.EBADF, `'${this.path}': not open for reading`);
+    }
+    if (position != null) {
+      throw new VFSError(ErrorCode.ESPIPE, `'${this.path}': is a FIFO`);
+    }
+    return this.reader.readAvailable(length);
+  }
+
+  /** The next chunk written to the pipe; null at end of file. */
+  readChunk(signal?: AbortSignal): Promise<Uint8Array | null> {
+    if (!this.reader) {
+      throw new VFSError(ErrorCode.EBADF, `'${this.path}': not open for reading`);
+    }
+    return this.reader.read(signal);
+  }
+
+  write(content: string | Uint8Array, position?: number | null): number {
+    if (!this.writer) {
+      throw new VFSError(ErrorCode.EBADF, `'${this.path}': not open for writing`);
+    }
+    if (position != null) {
+      throw new VFSError(ErrorCode.ESPIPE, `'${this.path}': is a FIFO`);
+    }
+    return this.writer.write(content);
+  }
+
+  seek(): number {
+    throw new VFSError(ErrorCode.ESPIPE, `'${this.path}': is a FIFO`);
+  }
+
+  truncate(): void {
+    throw new VFSError(ErrorCode.EINVAL, `'${this.path}': is a FIFO`);
+  }
+
+  close(): void {
+    this.reader?.close();
+    this.writer?.close();
+  }
+}
+
+export class FileTable {
+  private files = new Map<number, OpenFile>();
+
+  /**
+   * Open `path` on `vfs` and return the new fd. Flags are checked like
+   * open(2): O_CREAT creates a missing file (with `mode`, if given), O_EXCL
+   * makes an existing one an error, and O_TRUNC empties it.
+   */
+  open(vfs: VFS, path: string, flags = O_RDONLY, mode?: number): number {
+    return this.install(openFile(vfs, path, flags, mode));
+  }
+
+  /** The description behind `fd`; EBADF if it is not open. */
+  get(fd: number): OpenFile {
+    const file = this.files.get(fd);
+    if (!file) {
+      throw new VFSError(ErrorCode.EBADF, `${fd}: bad file descriptor`);
+    }
+    return file;
+  }
+
+  has(fd: number): boolean {
+    return this.files.has(fd);
+  }
+
+  close(fd: number): void {
+    this.get(fd);
+    this.files.delete(fd);
+  }
+
+  /**
+   * Give `file` an fd: `fd` itself (replacing whatever was open there), or
+   * else the lowest free one from 10 up.
+   */
+  install(file: OpenFile, fd?: number): number {
+    if (fd === undefined && this.files.size >= MAX_FDS) {
+      throw new VFSError(ErrorCode.EMFILE, 'too many open files');
+    }
+    const target = fd ?? this.lowestFree(FIRST_FD);
+    this.files.set(target, file);
+    return target;
+  }
+
+  /** A new fd sharing `fd`'s description, like dup(). */
+  dup(fd: number): number {
+    return this.install(this.get(fd));
+  }
+
+  /** Make `target` share `fd`'s description, like dup2(). */
+  dup2(fd: number, target: number): number {
+    return this.install(this.get(fd), target);
+  }
+
+  /** A copy of the table for a child process; descriptions are shared. */
+  fork(): FileTable {
+    const child = new FileTable();
+    for (const [fd, file] of this.files) child.files.set(fd, file);
+    return child;
+  }
+
+  /** Open fds, in ascending order. */
+  list(): number[] {
+    return Array.from(this.files.keys()).sort((a, b) => a - b);
+  }
+
+  private lowestFree(from: number): number {
+    let fd = from;
+    while (this.files.has(fd)) fd++;
+    return fd;
+  }
+}
+
+/**
+ * Open `path` like open(2) and return the new description without giving
+ * it an fd; see FileTable.open() for how flags are handled.
+ */
+export function openFile(vfs: VFS, path: string, flags: number, mode?: number): OpenFile {
+  const file = new OpenFile(vfs, path, flags);
+
+  if (vfs.exists(path)) {
+    if ((flags & O_CREAT) && (flags & O_EXCL)) {
+      throw new VFSError(ErrorCode.EEXIST, `'${path}': file exists`);
+    }
+    if (file.writable && vfs.stat(path).type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
+    }
+    vfs.access(path, (file.readable ? R_OK : 0) | (file.writable ? W_OK : 0));
+    if ((flags & O_TRUNC) && file.writable) vfs.truncate(path, 0);
+  } else {
+    if (!(flags & O_CREAT)) {
+      throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
+    }
+    vfs.writeFile(path, '');
+    if (mode !== undefined) {
+      try {
+        vfs.chmod(path, mode);
+      } catch (e) {
+        // Mounts without permissions keep their own mode
+        if (!(e instanceof VFSError && e.code === ErrorCode.EPERM)) throw e;
+      }
+    }
+  }
+  return file;
+}
+
+/**
+ * Open the FIFO at `path` like open(2): O_RDONLY waits for a writer and
+ * O_WRONLY for a reader, while O_RDWR holds both ends and never waits.
+ */
+export async function openFifoFile(vfs: VFS, path: string, flags: number, signal?: AbortSignal): Promise<FifoFile> {
+  const access = flags & O_ACCMODE;
+  if (access === O_RDWR) {
+    // Checked first so that neither end is left open if the other is refused
+    vfs.access(path, R_OK | W_OK);
+    // Both opens count their own end before waiting, so each sees the other
+    const [reader, writer] = await Promise.all([
+      vfs.openFifo(path, 'read', signal),
+      vfs.openFifo(path, 'write', signal),
+    ]);
+    return new FifoFile(vfs, path, flags, reader, writer);
+  }
+  if (access === O_RDONLY) {
+    return new FifoFile(vfs, path, flags, await vfs.openFifo(path, 'read', signal), null);
+  }
+  return new FifoFile(vfs, path, flags, null, await vfs.openFifo(path, 'write', signal));
+}
@@ -0,0 +1,136 @@
+// Kernel process table: every command invocation gets a PID.
+// Processes are cooperative (async functions), so "killing" one aborts its
+// AbortController and relies on the command honouring ctx.signal.
+
+import { FileTable } from './FileTable.js';
+
+export type ProcessState = 'running' | 'stopped' | 'zombie';
+
+export interface Process {
+  pid: number;
+  ppid: number;
+  argv: string[];
+  cwd: string;
+  env: Record<string, string>;
+  /** User the process runs as */
+  uid: number;
+  /** Epoch milliseconds */
+  startTime: number;
+  state: ProcessState;
+  exitCode: number | null;
+  abortController: AbortController;
+  /** Open file descriptors */
+  fds: FileTable;
+}
+
+export interface SpawnOptions {
+  ppid: number;
+  argv: string[];
+  cwd: string;
+  env: Record<string, string>;
+  /** Defaults to 0 (root) */
+  uid?: number;
+  /** Parent signal; aborting it aborts the new process too */
+  signal?: AbortSignal;
+  /** Defaults to a copy of the parent's table, or an empty one */
+  fds?: FileTable;
+}
+
+export const SIGHUP = 1;
+export const SIGINT = 2;
+export const SIGKILL = 9;
+export const SIGTERM = 15;
+export const SIGCONT = 18;
+export const SIGSTOP = 19;
+
+export class ProcessTable {
+  private processes = new Map<number, Process>();
+  /** Removes a live process's listener on its parent signal */
+  private detachSignal = new Map<number, () => void>();
+  private nextPid = 1;
+
+  spawn(options: SpawnOptions): Process {
+    const abortController = new AbortController();
+    const parentSignal = options.signal;
+    let onAbort: (() => void) | undefined;
+    if (parentSignal) {
+      if (parentSignal.aborted) {
+        abortController.abort(parentSignal.reason);
+      } else {
+        onAbort = () => abortController.abort(parentSignal.reason);
+        parentSignal.addEventListener('abort', onAbort, { once: true });
+      }
+    }
+
+    const proc: Process = {
+      pid: this.nextPid++,
+      ppid: options.ppid,
+      argv: [...options.argv],
+      cwd: options.cwd,
+      env: { ...options.env },
+      uid: options.uid ?? 0,
+      startTime: Date.now(),
+      state: 'running',
+      exitCode: null,
+      abortController,
+      fds: options.fds ?? this.processes.get(options.ppid)?.fds.fork() ?? new FileTable(),
+    };
+    this.processes.set(proc.pid, proc);
+    if (onAbort) {
+      const listener = onAbort;
+      this.detachSignal.set(proc.pid, () => parentSignal!.removeEventListener('abort', listener));
+    }
+    return proc;
+  }
+
+  /**
+   * Record a process's exit status. The entry stays in the table as a
+   * zombie until its parent reaps it.
+   */
+  exit(pid: number, exitCode: number): void {
+    const proc = this.processes.get(pid);
+    if (!proc) return;
+    this.detachSignal.get(pid)?.();
+    this.detachSignal.delete(pid);
+    proc.state = 'zombie';
+    proc.exitCode = exitCode;
+  }
+
+  /** Remove a zombie from the table and return its exit status. */
+  reap(pid: number): number | null {
+    const proc = this.processes.get(pid);
+    if (!proc || proc.state !== 'zombie') return null;
+    this.processes.delete(pid);
+    return proc.exitCode;
+  }
+
+  /**
+   * Deliver a signal. STOP/CONT only change the state; anything else aborts
+   * the process. Returns false if there is no such live process.
+   */
+  kill(pid: number, signal = SIGTERM): boolean {
+    const proc = this.processes.get(pid);
+    if (!proc || proc.state === 'zombie') return false;
+
+    if (signal === SIGSTOP) {
+      proc.state = 'stopped';
+    } else if (signal === SIGCONT) {
+      proc.state = 'running';
+    } else if (signal !== 0) {
+      proc.abortController.abort();
+    }
+    return true;
+  }
+
+  get(pid: number): Process | undefined {
+    return this.processes.get(pid);
+  }
+
+  list(): Process[] {
+    return Array.from(this.processes.values());
+  }
+
+  children(ppid: number): Process[] {
+    return this.list().filter((p) => p.ppid === ppid);
+  }
+}
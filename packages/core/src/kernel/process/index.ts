@@ -0,0 +1,21 @@
+export { ProcessTable, SIGHUP, SIGINT, SIGKILL, SIGTERM, SIGCONT, SIGSTOP } from './ProcessTable.js';
+export type { Process, ProcessState, SpawnOptions } from './ProcessTable.js';
+export {
+  FileTable,
+  OpenFile,
+  FifoFile,
+  openFile,
+  openFifoFile,
+  O_RDONLY,
+  O_WRONLY,
+  O_RDWR,
+  O_ACCMODE,
+  O_CREAT,
+  O_EXCL,
+  O_TRUNC,
+  O_APPEND,
+  SEEK_SET,
+  SEEK_CUR,
+  SEEK_END,
+  MAX_FDS,
+} from './FileTable.js';
@@ -1,6 +1,7 @@
 import type { VFS } from './vfs/index.js';
 
-export function installSamples(vfs: VFS): void {
+/** Write the examples that are missing, returning the paths created. */
+export function installSamples(vfs: VFS): string[] {
   const base = '/home/user/examples';
 
   const dirs = [
@@ -10,15 +11,21 @@ export function installSamples(vfs: VFS): void {
     `${base}/node`,
   ];
 
+  const created: string[] = [];
   for (const dir of dirs) {
-    try { vfs.mkdir(dir, { recursive: true }); } catch { /* exists */ }
+    if (!vfs.exists(dir)) {
+      vfs.mkdir(dir, { recursive: true });
+      created.push(dir);
+    }
   }
 
   for (const [path, content] of Object.entries(SAMPLES)) {
     if (!vfs.exists(`${base}/${path}`)) {
       vfs.writeFile(`${base}/${path}`, content);
+      created.push(`${base}/${path}`);
     }
   }
+  return created;
 }
 
 const SAMPLES: Record<string, string> = {
@@ -1,6 +1,9 @@
 // Content-addressable blob storage using FNV-1a hashing.
 // No external dependencies.
 
+import { getOPFSRoot, opfsDirectory, readOPFSFile, writeOPFSFile } from './opfs.js';
+import type { OPFSDirectoryHandle } from './opfs.js';
+
 // ---------------------------------------------------------------------------
 // FNV-1a 64-bit hash
 // ---------------------------------------------------------------------------
@@ -76,9 +79,16 @@ export function hashBytes(data: Uint8Array): string {
 
 export interface BlobStore {
   get(hash: string): Promise<Uint8Array | null>;
-  put(data: Uint8Array): Promise<string>;
+  /**
+   * Store `data` under its hash, or under `hash` when given (for wrappers
+   * that store a transformed copy, such as an encrypted one). An explicit
+   * hash replaces whatever was stored under it.
+   */
+  put(data: Uint8Array, hash?: string): Promise<string>;
   delete(hash: string): Promise<void>;
   has(hash: string): Promise<boolean>;
+  /** Hashes of every stored blob, so unreferenced ones can be swept. */
+  keys(): Promise<string[]>;
 }
 
 // ---------------------------------------------------------------------------
@@ -95,9 +105,9 @@ export class MemoryBlobStore implements BlobStore {
     return new Uint8Array(data);
   }
 
-  async put(data: Uint8Array): Promise<string> {
-    const hash = hashBytes(data);
-    if (!this.blobs.has(hash)) {
+  async put(data: Uint8Array, key?: string): Promise<string> {
+    const hash = key ?? hashBytes(data);
+    if (key || !this.blobs.has(hash)) {
       // Store a copy so the caller cannot mutate what we hold.
       this.blobs.set(hash, new Uint8Array(data));
     }
@@ -111,6 +121,10 @@ export class MemoryBlobStore implements BlobStore {
   async has(hash: string): Promise<boolean> {
     return this.blobs.has(hash);
   }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.blobs.keys());
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -173,8 +187,8 @@ export class IndexedDBBlobStore implements BlobStore {
     });
   }
 
-  async put(data: Uint8Array): Promise<string> {
-    const hash = hashBytes(data);
+  async put(data: Uint8Array, key?: string): Promise<string> {
+    const hash = key ?? hashBytes(data);
 
     if (!this.db) return hash;
 
@@ -229,4 +243,86 @@ export class IndexedDBBlobStore implements BlobStore {
       }
     });
   }
+
+  async keys(): Promise<string[]> {
+    if (!this.db) return [];
+
+    return new Promise((resolve) => {
+      try {
+        const tx = this.db!.transaction(IDB_STORE, 'readonly');
+        const store = tx.objectStore(IDB_STORE);
+        const request = store.getAllKeys();
+
+        request.onsuccess = () => resolve(request.result.map(String));
+        request.onerror = () => resolve([]);
+      } catch {
+        resolve([]);
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OPFSBlobStore
+// ---------------------------------------------------------------------------
+
+/** Directory (below the OPFS root) that holds one file per blob. */
+const OPFS_BLOB_DIR = ['lifo', 'blobs'];
+
+export class OPFSBlobStore implements BlobStore {
+  private dir: OPFSDirectoryHandle | null = null;
+
+  /** @param root OPFS directory to use instead of the origin's (e.g. a MemoryOPFSDirectory) */
+  constructor(private root?: OPFSDirectoryHandle) {}
+
+  /** Open (or create) the blob directory. Call before using other methods. */
+  async open(): Promise<void> {
+    const root = this.root ?? (await getOPFSRoot());
+    if (!root) {
+      console.warn('OPFS not available for BlobStore');
+      return;
+    }
+    this.dir = await opfsDirectory(root, OPFS_BLOB_DIR, true);
+  }
+
+  async get(hash: string): Promise<Uint8Array | null> {
+    if (!this.dir) return null;
+    return readOPFSFile(this.dir, hash);
+  }
+
+  async put(data: Uint8Array, key?: string): Promise<string> {
+    const hash = key ?? hashBytes(data);
+    if (!this.dir) return hash;
+    // Content-addressed: an existing file already holds these bytes
+    if (key || !(await this.has(hash))) {
+      await writeOPFSFile(this.dir, hash, data);
+    }
+    return hash;
+  }
+
+  async delete(hash: string): Promise<void> {
+    if (!this.dir) return;
+    try {
+      await this.dir.removeEntry(hash);
+    } catch {
+      // Already gone
+    }
+  }
+
+  async has(hash: string): Promise<boolean> {
+    if (!this.dir) return false;
+    try {
+      await this.dir.getFileHandle(hash);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    if (!this.dir) return [];
+    const hashes: string[] = [];
+    for await (const name of this.dir.keys()) hashes.push(name);
+    return hashes;
+  }
 }
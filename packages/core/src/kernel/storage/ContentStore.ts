@@ -7,6 +7,13 @@
  *
  * The LRU eviction removes least-recently-accessed entries when the total
  * stored bytes exceed the configured budget.
+ *
+ * Chunks are shared: identical chunks dedupe to one entry, and snapshots and
+ * clones share manifests. Each entry is reference-counted by the manifests
+ * stored through storeChunked()/retain(), and freed when the last one is
+ * released. Where counting cannot keep up (copy-on-write trees drop nodes
+ * without saying so), collect() recounts by walking the trees of every
+ * registered ChunkHolder and sweeps whatever none of them refers to.
  */
 
 import { hashBytes } from './BlobStore.js';
@@ -26,6 +33,22 @@ export interface ChunkRef {
   size: number;
 }
 
+/** Something that keeps chunks in a ContentStore, e.g. a VFS. */
+export interface ChunkHolder {
+  /** Every chunk manifest it refers to, once per file. */
+  chunkManifests(): Iterable<ChunkRef[]>;
+}
+
+export interface CollectResult {
+  /** Number of entries freed */
+  removed: number;
+  /** Bytes those entries held */
+  freedBytes: number;
+}
+
+/** Delay before a background collection started by scheduleCollect(). */
+export const COLLECT_DELAY_MS = 1000;
+
 // ─── ContentStore ───
 
 interface CacheEntry {
@@ -38,6 +61,10 @@ export class ContentStore {
   private accessCounter = 0;
   private totalBytes = 0;
   private maxBytes: number;
+  /** Manifests referring to each hash; absent means unreferenced */
+  private refs = new Map<string, number>();
+  private holders = new Set<WeakRef<ChunkHolder>>();
+  private collectTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(maxBytes: number = 64 * 1024 * 1024) { // 64 MB default
     this.maxBytes = maxBytes;
@@ -64,8 +91,13 @@ export class ContentStore {
     return hash;
   }
 
-  /** Remove a blob from the cache. */
+  /** Remove a blob from the cache, whatever still refers to it. */
   delete(hash: string): void {
+    this.refs.delete(hash);
+    this.drop(hash);
+  }
+
+  private drop(hash: string): void {
     const entry = this.cache.get(hash);
     if (entry) {
       this.totalBytes -= entry.data.byteLength;
@@ -88,10 +120,107 @@ export class ContentStore {
     return this.cache.size;
   }
 
+  /** Hashes of every entry in the cache. */
+  hashes(): string[] {
+    return Array.from(this.cache.keys());
+  }
+
+  /** Number of manifests known to refer to `hash`. */
+  refCount(hash: string): number {
+    return this.refs.get(hash) ?? 0;
+  }
+
+  // ─── Reference counting ───
+
+  /** Count one more reference to each chunk of a manifest. */
+  retain(chunks: ChunkRef[]): void {
+    for (const chunk of chunks) {
+      this.refs.set(chunk.hash, this.refCount(chunk.hash) + 1);
+    }
+  }
+
+  /** Drop one reference to each chunk of a manifest, freeing chunks nothing refers to any more. */
+  release(chunks: ChunkRef[]): void {
+    for (const chunk of chunks) {
+      const count = this.refCount(chunk.hash) - 1;
+      if (count > 0) {
+        this.refs.set(chunk.hash, count);
+      } else {
+        this.refs.delete(chunk.hash);
+        this.drop(chunk.hash);
+      }
+    }
+  }
+
+  // ─── Garbage collection ───
+
+  /**
+   * Register a holder whose manifests keep chunks alive through collect().
+   * Only a weak reference is kept: once the holder itself is garbage, so
+   * are its chunks.
+   */
+  addHolder(holder: ChunkHolder): void {
+    this.holders.add(new WeakRef(holder));
+  }
+
+  /**
+   * Mark and sweep: recount references from the manifests of every live
+   * holder, then free every entry none of them refers to.
+   */
+  collect(): CollectResult {
+    if (this.collectTimer) {
+      clearTimeout(this.collectTimer);
+      this.collectTimer = null;
+    }
+
+    this.mark();
+    let removed = 0;
+    let freedBytes = 0;
+    for (const [hash, entry] of this.cache) {
+      if (this.refs.has(hash)) continue;
+      removed++;
+      freedBytes += entry.data.byteLength;
+      this.drop(hash);
+    }
+    return { removed, freedBytes };
+  }
+
+  /** Hashes of entries that no registered holder refers to. */
+  unreferenced(): string[] {
+    this.mark();
+    return this.hashes().filter((hash) => !this.refs.has(hash));
+  }
+
+  /** Recount references from the manifests of every live holder. */
+  private mark(): void {
+    const refs = new Map<string, number>();
+    for (const ref of this.holders) {
+      const holder = ref.deref();
+      if (!holder) {
+        this.holders.delete(ref);
+        continue;
+      }
+      for (const manifest of holder.chunkManifests()) {
+        for (const chunk of manifest) refs.set(chunk.hash, (refs.get(chunk.hash) ?? 0) + 1);
+      }
+    }
+    this.refs = refs;
+  }
+
+  /** Run collect() in the background soon, once changes settle. */
+  scheduleCollect(): void {
+    if (this.collectTimer) clearTimeout(this.collectTimer);
+    this.collectTimer = setTimeout(() => {
+      this.collectTimer = null;
+      this.collect();
+    }, COLLECT_DELAY_MS);
+  }
+
   // ─── Chunking helpers ───
 
   /**
    * Split data into chunks, store each, and return the chunk manifest.
+   * The manifest holds a reference to its chunks until deleteChunked().
    */
   storeChunked(data: Uint8Array): ChunkRef[] {
     const chunks: ChunkRef[] = [];
@@ -101,6 +230,7 @@ export class ContentStore {
       const hash = this.put(chunk);
       chunks.push({ hash, size: chunk.byteLength });
     }
+    this.retain(chunks);
     return chunks;
   }
 
@@ -122,12 +252,11 @@ export class ContentStore {
   }
 
   /**
-   * Remove all chunks in a manifest from the cache.
+   * Release a manifest made by storeChunked(). Its chunks leave the cache
+   * unless another manifest still refers to them.
    */
   deleteChunked(chunks: ChunkRef[]): void {
-    for (const chunk of chunks) {
-      this.delete(chunk.hash);
-    }
+    this.release(chunks);
   }
 
   // ─── LRU eviction ───
@@ -139,10 +268,9 @@ export class ContentStore {
     const entries = Array.from(this.cache.entries())
       .sort((a, b) => a[1].lastAccess - b[1].lastAccess);
 
-    for (const [hash, entry] of entries) {
+    for (const [hash] of entries) {
       if (this.totalBytes <= this.maxBytes) break;
-      this.totalBytes -= entry.data.byteLength;
-      this.cache.delete(hash);
+      this.drop(hash);
     }
   }
 }
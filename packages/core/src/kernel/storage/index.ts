@@ -2,5 +2,8 @@ export { hashBytes } from './BlobStore.js';
 export type { BlobStore } from './BlobStore.js';
 export { MemoryBlobStore } from './BlobStore.js';
 export { IndexedDBBlobStore } from './BlobStore.js';
-export { ContentStore, CHUNK_THRESHOLD, CHUNK_SIZE } from './ContentStore.js';
-export type { ChunkRef } from './ContentStore.js';
+export { OPFSBlobStore } from './BlobStore.js';
+export { MemoryOPFSDirectory, getOPFSRoot } from './opfs.js';
+export type { OPFSDirectoryHandle, OPFSFileHandle, OPFSWritable } from './opfs.js';
+export { ContentStore, CHUNK_THRESHOLD, CHUNK_SIZE, COLLECT_DELAY_MS } from './ContentStore.js';
+export type { ChunkRef, ChunkHolder, CollectResult } from './ContentStore.js';
@@ -0,0 +1,178 @@
+/**
+ * Origin Private File System helpers.
+ *
+ * Only the small slice of the File System Access API that Lifo needs is
+ * described here, so the browser's handles and the in-memory shim below are
+ * interchangeable. The shim lets the OPFS backends run under Node, which has
+ * no `navigator.storage`.
+ */
+
+// ─── Handle types ───
+
+export interface OPFSWritable {
+  write(data: Uint8Array | string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface OPFSFileHandle {
+  readonly kind: 'file';
+  readonly name: string;
+  getFile(): Promise<{ arrayBuffer(): Promise<ArrayBuffer> }>;
+  createWritable(): Promise<OPFSWritable>;
+}
+
+export interface OPFSDirectoryHandle {
+  readonly kind: 'directory';
+  readonly name: string;
+  getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<OPFSDirectoryHandle>;
+  getFileHandle(name: string, options?: { create?: boolean }): Promise<OPFSFileHandle>;
+  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>;
+  keys(): AsyncIterableIterator<string>;
+}
+
+/**
+ * The origin's OPFS root, or null when the environment has none (Node,
+ * older browsers, some private browsing modes).
+ */
+export async function getOPFSRoot(): Promise<OPFSDirectoryHandle | null> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) return null;
+    return (await navigator.storage.getDirectory()) as unknown as OPFSDirectoryHandle;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Path helpers ───
+
+/** Walk `parts` below `dir`, optionally creating missing directories. */
+export async function opfsDirectory(
+  dir: OPFSDirectoryHandle,
+  parts: string[],
+  create = false,
+): Promise<OPFSDirectoryHandle> {
+  let current = dir;
+  for (const part of parts) {
+    current = await current.getDirectoryHandle(part, { create });
+  }
+  return current;
+}
+
+/** Read a file's bytes, or null if it does not exist. */
+export async function readOPFSFile(dir: OPFSDirectoryHandle, name: string): Promise<Uint8Array | null> {
+  try {
+    const handle = await dir.getFileHandle(name);
+    const file = await handle.getFile();
+    return new Uint8Array(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+/** Create or replace a file with `data`. */
+export async function writeOPFSFile(
+  dir: OPFSDirectoryHandle,
+  name: string,
+  data: Uint8Array | string,
+): Promise<void> {
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+// ─── In-memory shim ───
+
+function notFound(name: string): Error {
+  const err = new Error(`A requested file or directory could not be found: ${name}`);
+  err.name = 'NotFoundError';
+  return err;
+}
+
+function typeMismatch(name: string): Error {
+  const err = new Error(`The path supplied exists, but was not an entry of requested type: ${name}`);
+  err.name = 'TypeMismatchError';
+  return err;
+}
+
+class MemoryOPFSFile implements OPFSFileHandle {
+  readonly kind = 'file' as const;
+  data = new Uint8Array(0);
+
+  constructor(readonly name: string) {}
+
+  async getFile(): Promise<{ arrayBuffer(): Promise<ArrayBuffer> }> {
+    const copy = new Uint8Array(this.data);
+    return { arrayBuffer: async () => copy.buffer };
+  }
+
+  async createWritable(): Promise<OPFSWritable> {
+    // Like the real API, nothing is visible until close()
+    const parts: Uint8Array[] = [];
+    return {
+      write: async (data) => {
+        parts.push(typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data));
+      },
+      close: async () => {
+        const total = parts.reduce((sum, p) => sum + p.byteLength, 0);
+        const result = new Uint8Array(total);
+        let offset = 0;
+        for (const p of parts) {
+          result.set(p, offset);
+          offset += p.byteLength;
+        }
+        this.data = result;
+      },
+    };
+  }
+}
+
+/**
+ * An OPFS directory held in memory. Pass one as the `root` of the OPFS
+ * backends to use them outside the browser, e.g. in tests.
+ */
+export class MemoryOPFSDirectory implements OPFSDirectoryHandle {
+  readonly kind = 'directory' as const;
+  private entries = new Map<string, MemoryOPFSDirectory | MemoryOPFSFile>();
+
+  constructor(readonly name = '') {}
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<OPFSDirectoryHandle> {
+    const entry = this.entries.get(name);
+    if (entry) {
+      if (entry.kind !== 'directory') throw typeMismatch(name);
+      return entry;
+    }
+    if (!options?.create) throw notFound(name);
+    const dir = new MemoryOPFSDirectory(name);
+    this.entries.set(name, dir);
+    return dir;
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }): Promise<OPFSFileHandle> {
+    const entry = this.entries.get(name);
+    if (entry) {
+      if (entry.kind !== 'file') throw typeMismatch(name);
+      return entry;
+    }
+    if (!options?.create) throw notFound(name);
+    const file = new MemoryOPFSFile(name);
+    this.entries.set(name, file);
+    return file;
+  }
+
+  async removeEntry(name: string, options?: { recursive?: boolean }): Promise<void> {
+    const entry = this.entries.get(name);
+    if (!entry) throw notFound(name);
+    if (entry.kind === 'directory' && entry.entries.size > 0 && !options?.recursive) {
+      const err = new Error(`The object can not be modified in this way: ${name}`);
+      err.name = 'InvalidModificationError';
+      throw err;
+    }
+    this.entries.delete(name);
+  }
+
+  async *keys(): AsyncIterableIterator<string> {
+    for (const name of Array.from(this.entries.keys())) yield name;
+  }
+}
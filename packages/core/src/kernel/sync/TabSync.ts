@@ -0,0 +1,354 @@
+import type { VFS } from '../vfs/index.js';
+import type { Stat, VFSWatchEvent } from '../vfs/types.js';
+import { capture } from '../persistence/journal.js';
+import type { JournalRecord, PendingChange } from '../persistence/journal.js';
+import { serializeEntry, fromBase64, toBase64 } from '../persistence/serializer.js';
+import type { SerializedNode } from '../persistence/serializer.js';
+import { BroadcastChannelTransport } from './transport.js';
+import type { Stamp, SyncChange, SyncLocks, SyncMessage, SyncTransport } from './transport.js';
+
+export const DEFAULT_SYNC_CHANNEL = 'lifo-sync';
+
+/** How long a booting tab waits for the leader to write out its changes. */
+export const JOIN_TIMEOUT_MS = 1000;
+
+export interface SyncOptions {
+  /** Channel (and lock) name; kernels on the same one share changes (default DEFAULT_SYNC_CHANNEL) */
+  channel?: string;
+  /** How messages reach other tabs (default: a BroadcastChannel named `channel`) */
+  transport?: SyncTransport;
+  /** Lock manager for leader election (default: navigator.locks) */
+  locks?: SyncLocks;
+  /** See JOIN_TIMEOUT_MS */
+  joinTimeout?: number;
+}
+
+/** Two tabs changed the same path, each before seeing the other's change. */
+export interface SyncConflict {
+  path: string;
+  /** The change every tab ends up with (the later stamp) */
+  kept: Stamp;
+  /** The change that was overwritten or dropped */
+  discarded: Stamp;
+}
+
+/** What the tab that owns the backend is asked to do. */
+export interface SyncLeaderHooks {
+  /** Leadership passed to this tab (its predecessor closed); start writing */
+  onLeader(): Promise<void>;
+  /** Write out pending changes, so a booting tab loads them */
+  flush(): Promise<void>;
+}
+
+/** Hard-link entries ('h') only occur inside whole images, never in a change */
+const NODE_TYPES: Partial<Record<SerializedNode['t'], Stat['type']>> = {
+  f: 'file',
+  d: 'directory',
+  l: 'symlink',
+  p: 'fifo',
+};
+
+function compare(a: Stamp, b: Stamp): number {
+  return a.n - b.n || (a.tab < b.tab ? -1 : a.tab > b.tab ? 1 : 0);
+}
+
+function tabId(): string {
+  return globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+/**
+ * Keeps the VFSs of several tabs sharing one persistence backend in step.
+ *
+ * Every local change is broadcast as a journal record and applied by the
+ * other tabs, so all of them hold the same tree. Only the leader, the tab
+ * holding the `<channel>:leader` lock, writes to the backend; when it
+ * closes, the next tab in line takes over and saves its whole tree.
+ *
+ * Each change carries a stamp (Lamport clock and tab) and the stamp its
+ * sender last saw at that path. A change whose base is not what the
+ * receiver last saw there raced another write: the later stamp wins in
+ * every tab, and the conflict is reported to onConflict listeners.
+ */
+export class TabSync {
+  readonly id = tabId();
+  private transport: SyncTransport;
+  private locks: SyncLocks | null;
+  private lockName: string;
+  private joinTimeout: number;
+  private unsubscribe: () => void;
+
+  private vfs: VFS | null = null;
+  private hooks: SyncLeaderHooks | null = null;
+  private unwatch: (() => void) | null = null;
+  private leader = false;
+  private release: (() => void) | null = null;
+  private joined: ((message: Extract<SyncMessage, { type: 'flushed' }>) => void) | null = null;
+  private closed = false;
+
+  private clock = 0;
+  /** The last change seen at each path */
+  private stamps = new Map<string, Stamp>();
+  /** Changes received before attach() */
+  private inbox: Array<Extract<SyncMessage, { type: 'changes' }>> = [];
+  private outbox: Array<{ change: PendingChange; stamp: Stamp; base?: Stamp }> = [];
+  /** Set while a remote change is applied, so it is not sent back out */
+  private applying = false;
+  private conflictListeners = new Set<(conflict: SyncConflict) => void>();
+
+  constructor(options: SyncOptions = {}) {
+    const channel = options.channel ?? DEFAULT_SYNC_CHANNEL;
+    this.transport = options.transport ?? new BroadcastChannelTransport(channel);
+    this.locks = options.locks ?? (globalThis.navigator as { locks?: SyncLocks } | undefined)?.locks ?? null;
+    this.lockName = `${channel}:leader`;
+    this.joinTimeout = options.joinTimeout ?? JOIN_TIMEOUT_MS;
+    this.unsubscribe = this.transport.subscribe((message) => this.receive(message));
+  }
+
+  /** Whether this tab writes to the backend. */
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Call before loading the backend. Becomes leader if no tab is; otherwise
+   * asks the leader to write out its pending changes and waits for that
+   * (up to joinTimeout), so the load sees them. Without a lock manager
+   * every tab is its own leader, as if unsynchronized.
+   */
+  async join(): Promise<void> {
+    if (!this.locks) {
+      this.leader = true;
+      return;
+    }
+
+    await new Promise<void>((decided) => {
+      void this.locks!.request(this.lockName, { ifAvailable: true }, async (lock) => {
+        if (lock) this.leader = true;
+        decided();
+        if (lock) await new Promise<void>((release) => (this.release = release));
+      });
+    });
+    if (this.leader) return;
+
+    const reply = await new Promise<Extract<SyncMessage, { type: 'flushed' }> | null>((resolve) => {
+      const timer = setTimeout(() => resolve(null), this.joinTimeout);
+      this.joined = (message) => {
+        clearTimeout(timer);
+        resolve(message);
+      };
+      this.transport.post({ type: 'hello', from: this.id });
+    });
+    this.joined = null;
+    if (reply) {
+      this.clock = Math.max(this.clock, reply.clock);
+      for (const [path, stamp] of reply.stamps) this.stamps.set(path, stamp);
+    }
+  }
+
+  /**
+   * Call once the VFS holds what was loaded: applies changes that arrived
+   * since join(), then starts sending local changes and, unless already
+   * leader, queues for leadership.
+   */
+  attach(vfs: VFS, hooks: SyncLeaderHooks): void {
+    this.vfs = vfs;
+    this.hooks = hooks;
+    this.unwatch = vfs.watch((event) => this.record(event));
+    for (const message of this.inbox) this.applyChanges(message);
+    this.inbox = [];
+
+    if (!this.leader && this.locks) {
+      void this.locks.request(this.lockName, {}, async () => {
+        if (this.closed) return;
+        this.leader = true;
+        await hooks.onLeader();
+        await new Promise<void>((release) => (this.release = release));
+      });
+    }
+  }
+
+  /** Called with each conflicting write. Returns an unsubscribe function. */
+  onConflict(listener: (conflict: SyncConflict) => void): () => void {
+    this.conflictListeners.add(listener);
+    return () => this.conflictListeners.delete(listener);
+  }
+
+  /** Stop syncing; a leader hands the backend to the next tab. */
+  close(): void {
+    this.closed = true;
+    this.leader = false;
+    this.unwatch?.();
+    this.unsubscribe();
+    this.transport.close();
+    this.release?.();
+  }
+
+  // ─── Outgoing ───
+
+  private record(event: VFSWatchEvent): void {
+    if (this.applying || this.closed) return;
+    const change = capture(event, this.vfs!.getRoot());
+    if (!change) return;
+
+    const stamp: Stamp = { tab: this.id, n: ++this.clock };
+    this.outbox.push({ change, stamp, base: this.stamps.get(event.path) });
+    this.stamps.set(event.path, stamp);
+    if (event.oldPath) this.stamps.set(event.oldPath, stamp);
+    // Everything changed in one task goes out as one message
+    if (this.outbox.length === 1) queueMicrotask(() => this.send());
+  }
+
+  private send(): void {
+    const batch = this.outbox;
+    this.outbox = [];
+    if (this.closed || batch.length === 0) return;
+
+    const changes: SyncChange[] = [];
+    const chunks: Record<string, Uint8Array> = {};
+    for (const { change: { event, node }, stamp, base } of batch) {
+      let record: JournalRecord;
+      if (event.type === 'delete') {
+        record = { s: 0, op: 'del', p: event.path };
+      } else if (event.type === 'rename') {
+        record = { s: 0, op: 'mv', p: event.path, from: event.oldPath ?? event.path };
+      } else {
+        const n = serializeEntry(node!, event.path.split('/').pop() ?? '');
+        // Other tabs have their own content stores, so chunks travel along
+        for (const chunk of n.ch ?? []) {
+          const data = this.vfs!.contentStore.get(chunk.h);
+          if (data) chunks[chunk.h] = data;
+        }
+        record = { s: 0, op: 'put', p: event.path, n };
+      }
+      changes.push({ record, stamp, base });
+    }
+    this.transport.post({ type: 'changes', from: this.id, changes, chunks });
+  }
+
+  // ─── Incoming ───
+
+  private receive(message: SyncMessage): void {
+    if (this.closed) return;
+    switch (message.type) {
+      case 'hello':
+        if (this.leader) void this.welcome(message.from);
+        break;
+      case 'flushed':
+        if (message.to === this.id) this.joined?.(message);
+        break;
+      case 'changes':
+        if (this.vfs) this.applyChanges(message);
+        else this.inbox.push(message);
+        break;
+    }
+  }
+
+  private async welcome(to: string): Promise<void> {
+    // A leader still booting has nothing pending
+    await this.hooks?.flush();
+    this.transport.post({ type: 'flushed', from: this.id, to, clock: this.clock, stamps: [...this.stamps] });
+  }
+
+  private applyChanges(message: Extract<SyncMessage, { type: 'changes' }>): void {
+    for (const { record, stamp, base } of message.changes) {
+      if (record.op === 'enc') continue;
+      this.clock = Math.max(this.clock, stamp.n);
+
+      const current = this.stamps.get(record.p);
+      // Already loaded: it reached the backend before this tab joined
+      if (current && compare(current, stamp) === 0) continue;
+      if (current && (!base || compare(current, base) !== 0)) {
+        const theirs = compare(stamp, current) > 0;
+        const conflict = { path: record.p, kept: theirs ? stamp : current, discarded: theirs ? current : stamp };
+        for (const listener of this.conflictListeners) listener(conflict);
+        if (!theirs) continue;
+      }
+
+      this.stamps.set(record.p, stamp);
+      if (record.op === 'mv') this.stamps.set(record.from, stamp);
+      this.applying = true;
+      try {
+        this.apply(record, message.chunks);
+      } catch {
+        // The tree here has moved on (e.g. the parent is gone); nothing to apply to
+      } finally {
+        this.applying = false;
+      }
+    }
+  }
+
+  private apply(record: JournalRecord, chunks: Record<string, Uint8Array>): void {
+    const vfs = this.vfs!;
+    if (record.op === 'del') {
+      if (this.lstat(record.p)) this.remove(record.p);
+    } else if (record.op === 'mv') {
+      if (this.lstat(record.from)) vfs.rename(record.from, record.p);
+    } else if (record.op === 'put') {
+      this.put(record.p, record.n, chunks);
+    }
+  }
+
+  private put(path: string, n: SerializedNode, chunks: Record<string, Uint8Array>): void {
+    const vfs = this.vfs!;
+    const type = NODE_TYPES[n.t];
+    if (!type) return;
+    let existing = this.lstat(path);
+    if (existing && (existing.type !== type || type === 'symlink')) {
+      this.remove(path);
+      existing = null;
+    }
+
+    if (type === 'file') {
+      vfs.writeFile(path, this.contents(n, chunks));
+    } else if (type === 'symlink') {
+      vfs.symlink(n.tg ?? '', path);
+      return;
+    } else if (!existing) {
+      if (type === 'directory') vfs.mkdir(path, { recursive: true });
+      else vfs.mkfifo(path, n.m);
+    }
+
+    const stat = vfs.lstat(path);
+    if (stat.mode !== n.m) vfs.chmod(path, n.m);
+    if ((stat.uid ?? 0) !== (n.u ?? 0) || (stat.gid ?? 0) !== (n.g ?? 0)) vfs.chown(path, n.u ?? 0, n.g ?? 0);
+
+    const xattrs = n.x ?? {};
+    for (const name of vfs.listxattr(path)) {
+      if (!(name in xattrs)) vfs.removexattr(path, name);
+    }
+    for (const [name, value] of Object.entries(xattrs)) {
+      const current = vfs.listxattr(path).includes(name) ? toBase64(vfs.getxattr(path, name)) : undefined;
+      if (current !== value) vfs.setxattr(path, name, fromBase64(value));
+    }
+  }
+
+  private contents(n: SerializedNode, chunks: Record<string, Uint8Array>): Uint8Array {
+    if (n.d) return fromBase64(n.d);
+    if (!n.ch) return new Uint8Array(0);
+    const parts = n.ch.map((chunk) => {
+      const data = chunks[chunk.h] ?? this.vfs!.contentStore.get(chunk.h);
+      if (!data) throw new Error(`missing chunk ${chunk.h}`);
+      return data;
+    });
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      out.set(part, offset);
+      offset += part.length;
+    }
+    return out;
+  }
+
+  private lstat(path: string): Stat | null {
+    try {
+      return this.vfs!.lstat(path);
+    } catch {
+      return null;
+    }
+  }
+
+  private remove(path: string): void {
+    if (this.vfs!.lstat(path).type === 'directory') this.vfs!.rmdirRecursive(path);
+    else this.vfs!.unlink(path);
+  }
+}
@@ -0,0 +1,4 @@
+export { TabSync, DEFAULT_SYNC_CHANNEL, JOIN_TIMEOUT_MS } from './TabSync.js';
+export type { SyncOptions, SyncConflict, SyncLeaderHooks } from './TabSync.js';
+export { BroadcastChannelTransport, MemorySyncHub, MemoryLocks } from './transport.js';
+export type { Stamp, SyncChange, SyncMessage, SyncTransport, SyncLocks } from './transport.js';
@@ -0,0 +1,138 @@
+import type { JournalRecord } from '../persistence/journal.js';
+
+/**
+ * Orders writes from different tabs: a Lamport clock reading plus the tab
+ * that made the write. Later stamps win conflicts.
+ */
+export interface Stamp {
+  tab: string;
+  n: number;
+}
+
+/** One VFS change, as a journal record, with the stamps to detect conflicts. */
+export interface SyncChange {
+  record: JournalRecord;
+  stamp: Stamp;
+  /** What the sender had last seen at the record's path before this change */
+  base?: Stamp;
+}
+
+export type SyncMessage =
+  /** A tab is booting; the leader should write out what it has pending */
+  | { type: 'hello'; from: string }
+  /**
+   * The leader's answer to `hello`: the backend is up to date. Carries the
+   * leader's clock and stamps, so the new tab's first writes build on them.
+   */
+  | { type: 'flushed'; from: string; to: string; clock: number; stamps: Array<[string, Stamp]> }
+  | {
+      type: 'changes';
+      from: string;
+      changes: SyncChange[];
+      /** Chunks of large files the records refer to, by hash */
+      chunks: Record<string, Uint8Array>;
+    };
+
+/** Carries messages to every other tab (not back to the sender). */
+export interface SyncTransport {
+  post(message: SyncMessage): void;
+  /** Returns a function that stops delivery to `listener`. */
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  close(): void;
+}
+
+/**
+ * The part of the Web Locks API (navigator.locks) that leader election
+ * needs: the lock is held until `callback`'s promise settles. With
+ * `ifAvailable`, `callback` gets null instead of waiting for the lock.
+ */
+export interface SyncLocks {
+  request(
+    name: string,
+    options: { ifAvailable?: boolean },
+    callback: (lock: unknown) => Promise<void>,
+  ): Promise<void>;
+}
+
+export class BroadcastChannelTransport implements SyncTransport {
+  private channel: BroadcastChannel;
+
+  constructor(name: string) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  post(message: SyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(listener: (message: SyncMessage) => void): () => void {
+    const handler = (event: MessageEvent) => listener(event.data as SyncMessage);
+    this.channel.addEventListener('message', handler);
+    return () => this.channel.removeEventListener('message', handler);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * An in-memory channel. Each connect() is one tab's transport; messages
+ * reach the others asynchronously and in order, as with BroadcastChannel.
+ */
+export class MemorySyncHub {
+  private listeners = new Map<object, Set<(message: SyncMessage) => void>>();
+
+  connect(): SyncTransport {
+    const self = {};
+    const own = new Set<(message: SyncMessage) => void>();
+    this.listeners.set(self, own);
+    return {
+      post: (message) => {
+        // Structured clone, like the real thing: no shared objects between tabs
+        const copy = structuredClone(message);
+        for (const [tab, listeners] of this.listeners) {
+          if (tab === self) continue;
+          for (const listener of listeners) queueMicrotask(() => listener(copy));
+        }
+      },
+      subscribe: (listener) => {
+        own.add(listener);
+        return () => own.delete(listener);
+      },
+      close: () => {
+        this.listeners.delete(self);
+      },
+    };
+  }
+}
+
+/** Locks shared by the kernels of one test, like navigator.locks within an origin. */
+export class MemoryLocks implements SyncLocks {
+  private held = new Set<string>();
+  private waiting = new Map<string, Array<() => void>>();
+
+  async request(
+    name: string,
+    options: { ifAvailable?: boolean },
+    callback: (lock: unknown) => Promise<void>,
+  ): Promise<void> {
+    if (this.held.has(name)) {
+      if (options.ifAvailable) return callback(null);
+      await new Promise<void>((resolve) => {
+        const queue = this.waiting.get(name) ?? [];
+        queue.push(resolve);
+        this.waiting.set(name, queue);
+      });
+    }
+    this.held.add(name);
+    try {
+      await callback({ name });
+    } finally {
+      const next = this.waiting.get(name)?.shift();
+      // Handed straight to the next waiter, so nobody can slip in between
+      if (next) next();
+      else this.held.delete(name);
+    }
+  }
+}
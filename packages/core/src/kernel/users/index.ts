@@ -0,0 +1,22 @@
+export {
+  PASSWD_PATH,
+  GROUP_PATH,
+  DEFAULT_USER,
+  DEFAULT_USER_TREES,
+  inDefaultUserTree,
+  SUDO_GROUP,
+  DEFAULT_PASSWD,
+  DEFAULT_GROUPS,
+  parsePasswd,
+  formatPasswd,
+  parseGroup,
+  formatGroup,
+  readUsers,
+  readGroups,
+  findUser,
+  findGroup,
+  groupsOf,
+  credentialsFor,
+  addUser,
+} from './passwd.js';
+export type { PasswdEntry, GroupEntry, AddUserOptions } from './passwd.js';
@@ -0,0 +1,217 @@
+// User and group database, kept in /etc/passwd and /etc/group in the usual
+// colon-separated formats. There are no passwords: the second field is
+// always "x" and authentication is decided by group membership (sudo).
+
+import type { VFS, Credentials } from '../vfs/index.js';
+
+export const PASSWD_PATH = '/etc/passwd';
+export const GROUP_PATH = '/etc/group';
+
+/** The account sessions run as unless told otherwise. */
+export const DEFAULT_USER = 'user';
+
+/**
+ * What the default user owns of what the system puts in place: their home,
+ * and the package prefixes, so `npm install -g` and `lifo install` work
+ * without sudo.
+ */
+export const DEFAULT_USER_TREES = ['/home/user', '/usr/bin', '/usr/lib/node_modules', '/usr/share/pkg'];
+
+/** Whether `path` is in one of DEFAULT_USER_TREES. */
+export function inDefaultUserTree(path: string): boolean {
+  return DEFAULT_USER_TREES.some((dir) => path === dir || path.startsWith(`${dir}/`));
+}
+
+/** Members of this group may use `sudo`. */
+export const SUDO_GROUP = 'sudo';
+
+/** First uid/gid handed out to accounts created with addUser(). */
+const FIRST_UID = 1000;
+
+export interface PasswdEntry {
+  name: string;
+  uid: number;
+  gid: number;
+  gecos: string;
+  home: string;
+  shell: string;
+}
+
+export interface GroupEntry {
+  name: string;
+  gid: number;
+  members: string[];
+}
+
+export const DEFAULT_PASSWD: PasswdEntry[] = [
+  { name: 'root', uid: 0, gid: 0, gecos: 'root', home: '/root', shell: '/bin/sh' },
+  { name: DEFAULT_USER, uid: 1000, gid: 1000, gecos: 'user', home: '/home/user', shell: '/bin/sh' },
+];
+
+export const DEFAULT_GROUPS: GroupEntry[] = [
+  { name: 'root', gid: 0, members: [] },
+  { name: SUDO_GROUP, gid: 27, members: [DEFAULT_USER] },
+  { name: DEFAULT_USER, gid: 1000, members: [] },
+];
+
+// ─── Parsing and formatting ───
+
+export function parsePasswd(text: string): PasswdEntry[] {
+  const entries: PasswdEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    const [name, , uid, gid, gecos = '', home = '/', shell = '/bin/sh'] = line.split(':');
+    if (!name || isNaN(Number(uid)) || isNaN(Number(gid))) continue;
+    entries.push({ name, uid: Number(uid), gid: Number(gid), gecos, home, shell });
+  }
+  return entries;
+}
+
+export function formatPasswd(entries: PasswdEntry[]): string {
+  return entries
+    .map((e) => `${e.name}:x:${e.uid}:${e.gid}:${e.gecos}:${e.home}:${e.shell}\n`)
+    .join('');
+}
+
+export function parseGroup(text: string): GroupEntry[] {
+  const entries: GroupEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    const [name, , gid, members = ''] = line.split(':');
+    if (!name || isNaN(Number(gid))) continue;
+    entries.push({ name, gid: Number(gid), members: members.split(',').filter(Boolean) });
+  }
+  return entries;
+}
+
+export function formatGroup(entries: GroupEntry[]): string {
+  return entries.map((e) => `${e.name}:x:${e.gid}:${e.members.join(',')}\n`).join('');
+}
+
+// ─── Lookups ───
+
+export function readUsers(vfs: VFS): PasswdEntry[] {
+  try {
+    return parsePasswd(vfs.readFileString(PASSWD_PATH));
+  } catch {
+    return [];
+  }
+}
+
+export function readGroups(vfs: VFS): GroupEntry[] {
+  try {
+    return parseGroup(vfs.readFileString(GROUP_PATH));
+  } catch {
+    return [];
+  }
+}
+
+/** Look a user up by name, or by uid when given a number or numeric string. */
+export function findUser(vfs: VFS, nameOrUid: string | number): PasswdEntry | undefined {
+  const users = readUsers(vfs);
+  const byName = typeof nameOrUid === 'string' ? users.find((u) => u.name === nameOrUid) : undefined;
+  if (byName) return byName;
+  const uid = Number(nameOrUid);
+  return isNaN(uid) ? undefined : users.find((u) => u.uid === uid);
+}
+
+/** Look a group up by name, or by gid when given a number or numeric string. */
+export function findGroup(vfs: VFS, nameOrGid: string | number): GroupEntry | undefined {
+  const groups = readGroups(vfs);
+  const byName = typeof nameOrGid === 'string' ? groups.find((g) => g.name === nameOrGid) : undefined;
+  if (byName) return byName;
+  const gid = Number(nameOrGid);
+  return isNaN(gid) ? undefined : groups.find((g) => g.gid === gid);
+}
+
+/** Supplementary groups: every group listing `user` as a member. */
+export function groupsOf(vfs: VFS, user: PasswdEntry): GroupEntry[] {
+  return readGroups(vfs).filter((g) => g.members.includes(user.name));
+}
+
+export function credentialsFor(vfs: VFS, user: PasswdEntry): Credentials {
+  return {
+    uid: user.uid,
+    gid: user.gid,
+    groups: groupsOf(vfs, user).map((g) => g.gid),
+  };
+}
+
+// ─── Account management ───
+
+export interface AddUserOptions {
+  name: string;
+  uid?: number;
+  /** Primary group name or gid; a group named after the user is created by default. */
+  group?: string;
+  /** Supplementary group names */
+  groups?: string[];
+  home?: string;
+  shell?: string;
+  gecos?: string;
+  /** Create the home directory, owned by the new user */
+  createHome?: boolean;
+}
+
+/**
+ * Add an account to /etc/passwd (and its groups to /etc/group).
+ * The VFS must be able to write both files, i.e. normally act as root.
+ */
+export function addUser(vfs: VFS, options: AddUserOptions): PasswdEntry {
+  const { name } = options;
+  if (!/^[a-z_][a-z0-9_-]*$/i.test(name)) {
+    throw new Error(`invalid user name '${name}'`);
+  }
+
+  const users = readUsers(vfs);
+  const groups = readGroups(vfs);
+  if (users.some((u) => u.name === name)) {
+    throw new Error(`user '${name}' already exists`);
+  }
+
+  const nextId = (ids: number[]) => Math.max(FIRST_UID - 1, ...ids) + 1;
+  const uid = options.uid ?? nextId(users.map((u) => u.uid));
+  if (users.some((u) => u.uid === uid)) {
+    throw new Error(`UID ${uid} is not unique`);
+  }
+
+  let gid: number;
+  if (options.group !== undefined) {
+    const group = groups.find((g) => g.name === options.group || String(g.gid) === options.group);
+    if (!group) throw new Error(`group '${options.group}' does not exist`);
+    gid = group.gid;
+  } else {
+    if (groups.some((g) => g.name === name)) {
+      throw new Error(`group '${name}' already exists`);
+    }
+    gid = groups.some((g) => g.gid === uid) ? nextId(groups.map((g) => g.gid)) : uid;
+    groups.push({ name, gid, members: [] });
+  }
+
+  for (const groupName of options.groups ?? []) {
+    const group = groups.find((g) => g.name === groupName);
+    if (!group) throw new Error(`group '${groupName}' does not exist`);
+    if (!group.members.includes(name)) group.members.push(name);
+  }
+
+  const entry: PasswdEntry = {
+    name,
+    uid,
+    gid,
+    gecos: options.gecos ?? '',
+    home: options.home ?? `/home/${name}`,
+    shell: options.shell ?? '/bin/sh',
+  };
+  users.push(entry);
+
+  vfs.writeFile(PASSWD_PATH, formatPasswd(users));
+  vfs.writeFile(GROUP_PATH, formatGroup(groups));
+
+  if (options.createHome && !vfs.exists(entry.home)) {
+    vfs.mkdir(entry.home, { recursive: true });
+    vfs.chown(entry.home, uid, gid);
+    vfs.chmod(entry.home, 0o750);
+  }
+
+  return entry;
+}
@@ -0,0 +1,164 @@
+import { VFSError, ErrorCode } from './types.js';
+import { encode } from '../../utils/encoding.js';
+
+/** The read end of an open FIFO. */
+export interface FifoReader {
+  /**
+   * The next chunk written to the pipe, waiting for one while a writer has
+   * it open. Returns null at end of file: the pipe is empty and every
+   * writer has closed it.
+   */
+  read(signal?: AbortSignal): Promise<Uint8Array | null>;
+  /** Up to `length` bytes that are already in the pipe, without waiting. */
+  readAvailable(length: number): Uint8Array;
+  close(): void;
+}
+
+/** The write end of an open FIFO. */
+export interface FifoWriter {
+  /** Queue `data` for the readers. EPIPE once every reader has closed. */
+  write(data: string | Uint8Array): number;
+  close(): void;
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * The pipe behind a FIFO inode. Bytes written through any write end are
+ * read, in order, through the read ends; they live only in this buffer,
+ * never in the tree. As with open(2), opening one end waits until the
+ * other end is open too.
+ */
+export class Fifo {
+  private chunks: Uint8Array[] = [];
+  private readers = 0;
+  private writers = 0;
+  // Opens so far of each end, so a waiting open sees an end that came and went
+  private readerOpens = 0;
+  private writerOpens = 0;
+  private waiters = new Set<() => void>();
+
+  async openRead(signal?: AbortSignal): Promise<FifoReader> {
+    this.readers++;
+    this.readerOpens++;
+    this.wake();
+    const opens = this.writerOpens;
+    try {
+      if (this.writers === 0) await this.until(() => this.writerOpens > opens, signal);
+    } catch (e) {
+      this.readers--;
+      throw e;
+    }
+
+    let closed = false;
+    return {
+      read: async (readSignal) => {
+        for (;;) {
+          if (closed) return null;
+          if (this.chunks.length > 0) return this.chunks.shift()!;
+          if (this.writers === 0) return null;
+          await this.until(() => this.chunks.length > 0 || this.writers === 0, readSignal);
+        }
+      },
+      readAvailable: (length) => this.take(length),
+      close: () => {
+        if (closed) return;
+        closed = true;
+        this.readers--;
+        this.wake();
+      },
+    };
+  }
+
+  async openWrite(signal?: AbortSignal): Promise<FifoWriter> {
+    this.writers++;
+    this.writerOpens++;
+    this.wake();
+    const opens = this.readerOpens;
+    try {
+      if (this.readers === 0) await this.until(() => this.readerOpens > opens, signal);
+    } catch (e) {
+      this.writers--;
+      this.wake();
+      throw e;
+    }
+
+    let closed = false;
+    return {
+      write: (data) => {
+        if (closed) {
+          throw new VFSError(ErrorCode.EBADF, 'FIFO is closed for writing');
+        }
+        if (this.readers === 0) {
+          throw new VFSError(ErrorCode.EPIPE, 'broken pipe');
+        }
+        const bytes = typeof data === 'string' ? encode(data) : data.slice();
+        if (bytes.byteLength > 0) {
+          this.chunks.push(bytes);
+          this.wake();
+        }
+        return bytes.byteLength;
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        this.writers--;
+        this.wake();
+      },
+    };
+  }
+
+  /** Remove and return up to `length` bytes from the front of the pipe. */
+  private take(length: number): Uint8Array {
+    const out: Uint8Array[] = [];
+    let size = 0;
+    while (this.chunks.length > 0 && size < length) {
+      const chunk = this.chunks[0];
+      const n = Math.min(chunk.byteLength, length - size);
+      out.push(chunk.subarray(0, n));
+      size += n;
+      if (n === chunk.byteLength) this.chunks.shift();
+      else this.chunks[0] = chunk.subarray(n);
+    }
+    const result = new Uint8Array(size);
+    let offset = 0;
+    for (const part of out) {
+      result.set(part, offset);
+      offset += part.byteLength;
+    }
+    return result;
+  }
+
+  /** Resolve once `ready()` holds, checking whenever the pipe changes. */
+  private until(ready: () => boolean, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const check = () => {
+        if (!ready()) return;
+        done();
+        resolve();
+      };
+      const onAbort = () => {
+        done();
+        reject(abortError());
+      };
+      const done = () => {
+        this.waiters.delete(check);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      this.waiters.add(check);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private wake(): void {
+    for (const waiter of [...this.waiters]) waiter();
+  }
+}
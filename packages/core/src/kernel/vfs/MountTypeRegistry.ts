@@ -0,0 +1,177 @@
+import type { VirtualProvider, MountProvider, Quota } from './types.js';
+import { VFSError, ErrorCode } from './types.js';
+import { VFS } from './VFS.js';
+import { NativeFsProvider, loadNodeFs } from './providers/NativeFsProvider.js';
+import type { NativeFsModule } from './providers/NativeFsProvider.js';
+import { OverlayProvider } from './providers/OverlayProvider.js';
+import { SubtreeProvider } from './providers/SubtreeProvider.js';
+import { ArchiveProvider } from './providers/ArchiveProvider.js';
+import { resolve } from '../../utils/path.js';
+
+export const FSTAB_PATH = '/etc/fstab';
+
+export interface MountRequest {
+  /** What to mount, as given: a host directory, an archive path, or "none" */
+  source: string;
+  /** Mount options, e.g. ["ro", "overlay"] */
+  options: string[];
+  /** The filesystem the provider is being mounted into */
+  vfs: VFS;
+  /** Directory that a relative source in `vfs` is resolved against */
+  cwd: string;
+}
+
+/** Creates the provider for one mount of a filesystem type. */
+export type MountType = (
+  request: MountRequest,
+) => VirtualProvider | MountProvider | Promise<VirtualProvider | MountProvider>;
+
+export interface FstabEntry {
+  source: string;
+  target: string;
+  type: string;
+  options: string[];
+}
+
+/** Undo the octal escapes fstab uses for whitespace, e.g. "\040" for a space. */
+function unescapeField(field: string): string {
+  return field.replace(/\\([0-7]{3})/g, (_, code: string) => String.fromCharCode(parseInt(code, 8)));
+}
+
+/**
+ * Parse fstab(5) text: one `source target type [options [dump [pass]]]`
+ * entry per line. Blank lines, comments and lines with fewer than three
+ * fields are skipped; "defaults" is dropped from the options.
+ */
+export function parseFstab(text: string): FstabEntry[] {
+  const entries: FstabEntry[] = [];
+  for (const line of text.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 3 || fields[0].startsWith('#')) continue;
+    entries.push({
+      source: unescapeField(fields[0]),
+      target: unescapeField(fields[1]),
+      type: fields[2],
+      options: (fields[3] ?? 'defaults').split(',').filter((o) => o && o !== 'defaults'),
+    });
+  }
+  return entries;
+}
+
+/**
+ * The filesystem types `mount -t` accepts, by name. Each type turns a
+ * mount request into a provider; the registry mounts it and records the
+ * type, source and options in the VFS mount table.
+ */
+export class MountTypeRegistry {
+  private types = new Map<string, MountType>();
+
+  register(name: string, type: MountType): void {
+    this.types.set(name, type);
+  }
+
+  has(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.types.keys()).sort();
+  }
+
+  /**
+   * Create a provider of filesystem type `type` and mount it on `target`.
+   * Throws ENODEV for an unknown type, or whatever the type throws.
+   */
+  async mount(
+    vfs: VFS,
+    type: string,
+    source: string,
+    target: string,
+    options: string[] = [],
+    cwd = '/',
+  ): Promise<VirtualProvider | MountProvider> {
+    const create = this.types.get(type);
+    if (!create) {
+      throw new VFSError(ErrorCode.ENODEV, `unknown filesystem type '${type}'`);
+    }
+    const provider = await create({ source, options, vfs, cwd });
+    vfs.mount(resolve(cwd, target), provider, { type, source, options });
+    return provider;
+  }
+
+  /**
+   * Mount every entry in the fstab at `path` that is not marked "noauto" and
+   * whose target is not already a mount point. Failures are returned rather
+   * than thrown, so one bad entry does not stop the others.
+   */
+  async mountAll(vfs: VFS, path = FSTAB_PATH): Promise<Array<{ entry: FstabEntry; error: Error }>> {
+    if (!vfs.exists(path)) return [];
+
+    const failures: Array<{ entry: FstabEntry; error: Error }> = [];
+    for (const entry of parseFstab(vfs.readFileString(path))) {
+      if (entry.options.includes('noauto') || vfs.isMountPoint(entry.target)) continue;
+      const options = entry.options.filter((o) => o !== 'auto');
+      try {
+        await this.mount(vfs, entry.type, entry.source, entry.target, options);
+      } catch (e) {
+        failures.push({ entry, error: e as Error });
+      }
+    }
+    return failures;
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+/** The limits in tmpfs options `size=` (bytes, or with a k, m or g suffix) and `nr_inodes=`. */
+function tmpfsQuota(options: string[]): Quota | null {
+  const quota: Quota = {};
+  for (const option of options) {
+    const [key, value] = option.split('=', 2);
+    if (key !== 'size' && key !== 'nr_inodes') continue;
+    const match = /^(\d+)([kmg]?)$/i.exec(value ?? '');
+    if (!match) {
+      throw new VFSError(ErrorCode.EINVAL, `invalid ${key} '${value ?? ''}'`);
+    }
+    const n = Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()];
+    if (key === 'size') quota.bytes = n;
+    else quota.inodes = n;
+  }
+  return quota.bytes === undefined && quota.inodes === undefined ? null : quota;
+}
+
+/**
+ * A registry with the built-in filesystem types:
+ *
+ * - `tmpfs` (or `memory`): an empty in-memory filesystem, limited by the
+ *   `size=` and `nr_inodes=` options
+ * - `archive`: a tar, tar.gz or zip file in the VFS, read-only
+ * - `native`: a host directory, via `fsModule` or Node's own fs; with the
+ *   "overlay" option, changes stay in memory
+ */
+export function createMountTypes(fsModule?: NativeFsModule): MountTypeRegistry {
+  const registry = new MountTypeRegistry();
+
+  const tmpfs: MountType = ({ options }) => {
+    const fs = new VFS();
+    fs.chmod('/', 0o1777);
+    fs.setQuota(tmpfsQuota(options));
+    return options.includes('ro') ? new SubtreeProvider(fs, '/') : fs;
+  };
+  registry.register('tmpfs', tmpfs);
+  registry.register('memory', tmpfs);
+
+  registry.register('archive', ({ source, vfs, cwd }) => ArchiveProvider.fromFile(vfs, resolve(cwd, source)));
+
+  registry.register('native', ({ source, options }) => {
+    const fs = fsModule ?? loadNodeFs();
+    if (!fs) {
+      throw new VFSError(ErrorCode.ENODEV, 'native mounts need a Node.js host');
+    }
+    const overlay = options.includes('overlay');
+    const native = new NativeFsProvider(source, fs, { readOnly: overlay || options.includes('ro') });
+    return overlay ? new OverlayProvider(native) : native;
+  });
+
+  return registry;
+}
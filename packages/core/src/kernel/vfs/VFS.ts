@@ -1,11 +1,33 @@
 import { resolve, dirname, basename } from '../../utils/path.js';
 import { encode, decode } from '../../utils/encoding.js';
 import { getMimeType } from '../../utils/mime.js';
-import { INode, Stat, Dirent, VFSError, ErrorCode, VirtualProvider, MountProvider } from './types.js';
-import type { VFSWatchEvent, VFSWatchListener } from './types.js';
+import { INode, Stat, Dirent, FileType, VFSError, ErrorCode, VirtualProvider, MountProvider, MountInfo, FsckReport, Quota, FsStats, F_OK, X_OK, W_OK, R_OK, XATTR_NAME_MAX, XATTR_SIZE_MAX, XATTR_NAMESPACES, MIME_XATTR } from './types.js';
+import type { ChunkRef, Credentials, VFSWatchEvent, VFSWatchListener, VFSWatchBatchListener, VFSWatchOptions } from './types.js';
+import { watchFilter, coalesceEvents } from './watch.js';
+import { Fifo } from './Fifo.js';
+import type { FifoReader, FifoWriter } from './Fifo.js';
+import { stdioSubpath } from './providers/StdioProvider.js';
+import type { StdioProvider } from './providers/StdioProvider.js';
 import { ContentStore, CHUNK_THRESHOLD } from '../storage/ContentStore.js';
+import type { ChunkHolder } from '../storage/ContentStore.js';
 import { EventEmitter } from '../../node-compat/events.js';
 
+/** `data` written over `base` at `position`, zero-filling any gap. */
+function spliceBytes(base: Uint8Array, data: Uint8Array, position: number): Uint8Array {
+  const result = new Uint8Array(Math.max(base.byteLength, position + data.byteLength));
+  result.set(base, 0);
+  result.set(data, position);
+  return result;
+}
+
+/** `data` cut to, or zero-extended to, `length` bytes. */
+function resizeBytes(data: Uint8Array, length: number): Uint8Array {
+  if (length <= data.byteLength) return data.slice(0, length);
+  const result = new Uint8Array(length);
+  result.set(data, 0);
+  return result;
+}
+
 /** Runtime check: does a provider implement the full MountProvider interface? */
 function isMountProvider(p: VirtualProvider): p is MountProvider {
   return (
@@ -17,34 +39,131 @@ function isMountProvider(p: VirtualProvider): p is MountProvider {
   );
 }
 
+/** Longest path, and longest single name in it, that lookups accept (PATH_MAX, NAME_MAX). */
+const MAX_PATH = 4096;
+const MAX_NAME = 255;
+
+/** Maximum symlink substitutions during a single path lookup (matches Linux). */
+const MAX_SYMLINK_HOPS = 40;
+
+const ROOT_CREDENTIALS: Credentials = { uid: 0, gid: 0 };
+
 interface MountEntry {
   path: string;            // normalised absolute path, e.g. "/mnt/project"
   provider: VirtualProvider | MountProvider;
+  info: Omit<MountInfo, 'path'>;
 }
 
-export class VFS {
-  private root: INode;
+/** Mutable state shared between a VFS and every view made with asUser(). */
+interface SharedState {
+  root: INode;
+  nextIno: number;
+  onChange?: () => void;
+  /**
+   * Copy-on-write is on once the tree has been snapshotted or cloned. From
+   * then on only nodes stamped with the current epoch may be changed in
+   * place; any other node may be shared and is copied before a write.
+   */
+  cow: boolean;
+  epoch: number;
+  epochs: WeakMap<INode, number>;
+  snapshots: Map<string, INode>;
+  nextSnapshot: number;
+  quota: Quota | null;
+  /** Content bytes and node count of the tree; counted on first use, then kept up to date */
+  usage: { bytes: number; inodes: number } | null;
+}
+
+export class VFS implements ChunkHolder {
+  private shared: SharedState;
+  /** Identity for permission checks and ownership of new nodes. */
+  private cred: Credentials = ROOT_CREDENTIALS;
+  /** The calling process's /dev/stdin, /dev/fd and friends, in views made by withStdio(). */
+  private stdio: StdioProvider | null = null;
   /**
    * Mount table -- kept sorted longest-prefix-first so that the first match
    * during lookup is always the most specific.
    */
   private mounts: MountEntry[] = [];
   private emitter = new EventEmitter();
-  onChange?: () => void;
+  /** Inode numbers are assigned lazily so hard links report the same `ino`. */
+  private inodeNumbers = new WeakMap<INode, number>();
+  /** Pipes of FIFOs that have been opened, by inode number (which survives copy-on-write). */
+  private fifos = new Map<number, Fifo>();
 
   /** Content store for chunked large files. Optional -- without it all data stays inline. */
   readonly contentStore: ContentStore;
 
   constructor(contentStore?: ContentStore) {
-    this.root = this.createNode('directory', '');
+    this.shared = {
+      nextIno: 1,
+      cow: false,
+      epoch: 0,
+      epochs: new WeakMap(),
+      snapshots: new Map(),
+      nextSnapshot: 1,
+      quota: null,
+      usage: null,
+    } as SharedState;
+    this.shared.root = this.createNode('directory', '');
     this.contentStore = contentStore ?? new ContentStore();
+    this.contentStore.addHolder(this);
+  }
+
+  private get root(): INode {
+    return this.shared.root;
+  }
+
+  private set root(node: INode) {
+    this.shared.root = node;
+  }
+
+  get onChange(): (() => void) | undefined {
+    return this.shared.onChange;
+  }
+
+  set onChange(callback: (() => void) | undefined) {
+    this.shared.onChange = callback;
+  }
+
+  // ─── Credentials ───
+
+  /**
+   * A view of this filesystem that acts as `cred`: permission checks are made
+   * against it and new nodes are owned by it. The view shares the tree,
+   * mounts, watchers and content store with this VFS.
+   */
+  asUser(cred: Credentials): VFS {
+    const view = Object.create(this) as VFS;
+    view.cred = { ...cred, groups: cred.groups ? [...cred.groups] : undefined };
+    return view;
+  }
+
+  getCredentials(): Credentials {
+    return { ...this.cred };
+  }
+
+  /**
+   * A view of this filesystem for one process: /dev/stdin, /dev/stdout,
+   * /dev/stderr, /dev/fd/N and /dev/tty are served by `stdio`, so they name
+   * that process's own streams. Everything else is shared, as for asUser().
+   */
+  withStdio(stdio: StdioProvider): VFS {
+    const view = Object.create(this) as VFS;
+    view.stdio = stdio;
+    return view;
   }
 
   // ─── Watch API ───
 
   watch(listener: VFSWatchListener): () => void;
   watch(path: string, listener: VFSWatchListener): () => void;
-  watch(pathOrListener: string | VFSWatchListener, maybeListener?: VFSWatchListener): () => void {
+  watch(path: string, options: VFSWatchOptions, listener: VFSWatchListener): () => void;
+  watch(
+    pathOrListener: string | VFSWatchListener,
+    optionsOrListener?: VFSWatchOptions | VFSWatchListener,
+    maybeListener?: VFSWatchListener,
+  ): () => void {
     if (typeof pathOrListener === 'function') {
       // watch(listener) — global watch
       const listener = pathOrListener;
@@ -52,21 +171,44 @@ export class VFS {
       return () => this.emitter.off('change', listener as (...args: unknown[]) => void);
     }
 
-    // watch(path, listener) — scoped watch
-    const prefix = this.toAbsolute(pathOrListener);
-    const listener = maybeListener!;
+    // watch(path, [options], listener) — scoped watch
+    const listener = typeof optionsOrListener === 'function' ? optionsOrListener : maybeListener!;
+    const options = typeof optionsOrListener === 'function' ? {} : optionsOrListener;
+    const matches = watchFilter(this.toAbsolute(pathOrListener), options);
     const scoped = (event: VFSWatchEvent) => {
-      if (event.path === prefix || event.path.startsWith(prefix + '/')) {
-        listener(event);
-      }
-      if (event.oldPath && (event.oldPath === prefix || event.oldPath.startsWith(prefix + '/'))) {
-        listener(event);
-      }
+      if (matches(event)) listener(event);
     };
     this.emitter.on('change', scoped as (...args: unknown[]) => void);
     return () => this.emitter.off('change', scoped as (...args: unknown[]) => void);
   }
 
+  /**
+   * Like watch(path, options, ...), but events are collected for `delay` ms
+   * (default 50) after the first one and delivered together, with redundant
+   * ones dropped (see coalesceEvents). Unwatching discards a pending batch.
+   */
+  watchBatch(
+    path: string,
+    options: VFSWatchOptions & { delay?: number },
+    listener: VFSWatchBatchListener,
+  ): () => void {
+    let pending: VFSWatchEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unwatch = this.watch(path, options, (event) => {
+      pending.push(event);
+      timer ??= setTimeout(() => {
+        const batch = coalesceEvents(pending);
+        pending = [];
+        timer = null;
+        listener(batch);
+      }, options.delay ?? 50);
+    });
+    return () => {
+      if (timer) clearTimeout(timer);
+      unwatch();
+    };
+  }
+
   private notify(event: VFSWatchEvent): void {
     this.emitter.emit('change', event);
     this.onChange?.();
@@ -77,16 +219,34 @@ export class VFS {
   /**
    * Mount a provider at an arbitrary path.
    * The path is normalised to an absolute path (e.g. "/mnt/project").
+   * `info` describes the mount in listMounts(). Unless the options say "ro"
+   * or "rw", the mount is listed "rw" for a MountProvider and "ro" otherwise.
    */
-  mount(path: string, provider: VirtualProvider | MountProvider): void {
+  mount(
+    path: string,
+    provider: VirtualProvider | MountProvider,
+    info?: { type?: string; source?: string; options?: string[] },
+  ): void {
     const abs = this.toAbsolute(path);
+    const options = info?.options ?? [];
+    const entry: MountEntry = {
+      path: abs,
+      provider,
+      info: {
+        type: info?.type ?? 'none',
+        source: info?.source ?? 'none',
+        options: options.includes('ro') || options.includes('rw')
+          ? [...options]
+          : [isMountProvider(provider) ? 'rw' : 'ro', ...options],
+      },
+    };
 
     // Replace if already mounted at this exact path
     const idx = this.mounts.findIndex((m) => m.path === abs);
     if (idx !== -1) {
-      this.mounts[idx] = { path: abs, provider };
+      this.mounts[idx] = entry;
     } else {
-      this.mounts.push({ path: abs, provider });
+      this.mounts.push(entry);
     }
 
     // Re-sort: longest path first (most specific wins)
@@ -105,6 +265,24 @@ export class VFS {
     this.mounts.splice(idx, 1);
   }
 
+  /** Is a provider mounted at exactly `path`? */
+  isMountPoint(path: string): boolean {
+    const abs = this.toAbsolute(path);
+    return this.mounts.some((m) => m.path === abs);
+  }
+
+  /**
+   * The mount table: the in-memory root filesystem first, then every
+   * mounted provider in path order.
+   */
+  listMounts(): MountInfo[] {
+    const mounts = [...this.mounts].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+    return [
+      { path: '/', type: 'rootfs', source: 'rootfs', options: ['rw'] },
+      ...mounts.map((m) => ({ path: m.path, ...m.info, options: [...m.info.options] })),
+    ];
+  }
+
   /**
    * Backward-compatible alias for `mount`.
    * Previously the only way to register a VirtualProvider at a root-level prefix.
@@ -119,12 +297,201 @@ export class VFS {
 
   loadFromSerialized(root: INode): void {
     this.root = root;
+    this.shared.usage = null;
+    // The old tree's chunks are garbage and the new tree's are not yet counted
+    this.contentStore.scheduleCollect();
+  }
+
+  // ─── Snapshots ───
+
+  /**
+   * Capture the current tree and return an id for restore(). Snapshots are
+   * copy-on-write: taking one is O(1), and afterwards each write copies
+   * only the nodes on its path. File contents are shared, including the
+   * chunks of large files in the content store. Mounted providers are not
+   * part of a snapshot.
+   */
+  snapshot(): string {
+    const id = `snap-${this.shared.nextSnapshot++}`;
+    this.shared.snapshots.set(id, this.root);
+    this.freeze();
+    return id;
+  }
+
+  /**
+   * Make the tree captured by snapshot(id) current again. The snapshot is
+   * kept, so it can be restored any number of times.
+   */
+  restore(id: string): void {
+    const root = this.shared.snapshots.get(id);
+    if (!root) {
+      throw new VFSError(ErrorCode.ENOENT, `'${id}': no such snapshot`);
+    }
+    this.root = root;
+    this.shared.usage = null;
+    this.freeze();
+    this.contentStore.scheduleCollect();
+    this.notify({ type: 'modify', path: '/', fileType: 'directory' });
+  }
+
+  /** Forget a snapshot. Returns false if there was no such snapshot. */
+  dropSnapshot(id: string): boolean {
+    if (!this.shared.snapshots.delete(id)) return false;
+    this.contentStore.scheduleCollect();
+    return true;
+  }
+
+  listSnapshots(): string[] {
+    return Array.from(this.shared.snapshots.keys());
+  }
+
+  /**
+   * A new, independent VFS that starts with this one's tree, mounts and
+   * content store. Like snapshot() this is O(1); the two trees diverge
+   * copy-on-write, and so do mounted filesystems that can be forked (see
+   * VirtualProvider.clone). Other mounts, and watchers and snapshots, are
+   * not carried over.
+   */
+  clone(): VFS {
+    this.freeze();
+    const copy = new VFS(this.contentStore);
+    copy.shared.root = this.root;
+    copy.shared.nextIno = this.shared.nextIno;
+    copy.shared.cow = true;
+    copy.shared.epoch = 1;
+    copy.shared.quota = this.shared.quota;
+    for (const entry of this.mounts) {
+      const provider = entry.provider.clone?.();
+      if (provider) copy.mounts.push({ ...entry, provider, info: { ...entry.info, options: [...entry.info.options] } });
+    }
+    copy.cred = this.cred;
+    return copy;
+  }
+
+  // ─── Capacity ───
+
+  /**
+   * Limit what the tree may hold: writes that would take it past
+   * `quota.bytes` of file content or `quota.inodes` nodes fail with ENOSPC.
+   * Null lifts the limits. Mounted filesystems have limits of their own.
+   */
+  setQuota(quota: Quota | null): void {
+    this.shared.quota = quota ? { ...quota } : null;
+  }
+
+  /**
+   * Usage and limits of the filesystem `path` is on: this tree, or a mount.
+   * Mounts that keep no account of their own (e.g. /proc) report nothing used.
+   */
+  statfs(path = '/'): FsStats {
+    const vp = this.getProvider(this.toAbsolute(path));
+    if (vp) return vp.provider.statfs?.(vp.subpath) ?? { bytes: 0, inodes: 0, quota: {} };
+    const { bytes, inodes } = this.usage();
+    return { bytes, inodes, quota: { ...this.shared.quota } };
+  }
+
+  private usage(): { bytes: number; inodes: number } {
+    if (!this.shared.usage) {
+      const usage = { bytes: 0, inodes: 0 };
+      const seen = new Set<INode>();
+      const visit = (node: INode): void => {
+        if (seen.has(node)) return;
+        seen.add(node);
+        usage.inodes++;
+        if (node.type === 'file') usage.bytes += this.contentSize(node);
+        for (const child of node.children.values()) visit(child);
+      };
+      visit(this.root);
+      this.shared.usage = usage;
+    }
+    return this.shared.usage;
+  }
+
+  /** ENOSPC unless the quota has room for `bytes` more content and `inodes` more nodes. */
+  private checkSpace(bytes: number, inodes: number, path: string): void {
+    const quota = this.shared.quota;
+    if (!quota || (bytes <= 0 && inodes <= 0)) return;
+    const usage = this.usage();
+    if (
+      (bytes > 0 && quota.bytes !== undefined && usage.bytes + bytes > quota.bytes) ||
+      (inodes > 0 && quota.inodes !== undefined && usage.inodes + inodes > quota.inodes)
+    ) {
+      throw new VFSError(ErrorCode.ENOSPC, `'${path}': no space left on device`);
+    }
+  }
+
+  /** Record a change in usage that has been checked against the quota. */
+  private account(bytes: number, inodes: number): void {
+    const usage = this.shared.usage;
+    if (usage) {
+      usage.bytes += bytes;
+      usage.inodes += inodes;
+    }
+  }
+
+  // ─── Garbage collection ───
+
+  /**
+   * The chunk manifest of every large file in the tree and its snapshots,
+   * each once. The content store walks these to find live chunks.
+   */
+  *chunkManifests(): Generator<ChunkRef[]> {
+    const seen = new Set<ChunkRef[]>();
+    const visited = new Set<INode>();
+    const stack = [this.root, ...this.shared.snapshots.values()];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (visited.has(node)) continue;
+      visited.add(node);
+      if (node.chunks && !seen.has(node.chunks)) {
+        seen.add(node.chunks);
+        yield node.chunks;
+      }
+      for (const child of node.children.values()) stack.push(child);
+    }
+  }
+
+  /**
+   * Check that the chunks of every large file are in the content store, and
+   * find store entries that no file refers to. With `repair`, files whose
+   * chunks are gone are truncated to empty and the orphans are freed.
+   * Snapshots are checked for references but not repaired.
+   */
+  fsck(options: { repair?: boolean } = {}): FsckReport {
+    const damaged: FsckReport['damaged'] = [];
+    const visit = (dir: INode, dirPath: string): void => {
+      for (const [name, child] of dir.children) {
+        const childPath = dirPath === '/' ? '/' + name : dirPath + '/' + name;
+        if (child.type === 'directory') {
+          visit(child, childPath);
+        } else if (child.chunks) {
+          const missing = new Set(child.chunks.map((c) => c.hash).filter((h) => !this.contentStore.has(h)));
+          if (missing.size > 0) damaged.push({ path: childPath, missing: [...missing] });
+        }
+      }
+    };
+    visit(this.root, '/');
+
+    const orphans = this.contentStore.unreferenced();
+    if (options.repair) {
+      for (const { path } of damaged) this.truncate(path, 0);
+      this.contentStore.collect();
+    }
+    return { damaged, orphans, orphanBlobs: [], recovered: [], repaired: !!options.repair };
+  }
+
+  /** Start a new epoch: every existing node becomes shared. */
+  private freeze(): void {
+    this.shared.cow = true;
+    this.shared.epoch++;
   }
 
   // ─── Provider resolution ───
 
   private getProvider(path: string): { provider: VirtualProvider | MountProvider; subpath: string } | null {
     const abs = this.toAbsolute(path);
+    const stdioPath = this.stdio && stdioSubpath(abs);
+    if (stdioPath) return { provider: this.stdio!, subpath: stdioPath };
     for (const entry of this.mounts) {
       if (abs === entry.path || abs.startsWith(entry.path + '/')) {
         const subpath = abs === entry.path ? '/' : abs.slice(entry.path.length);
@@ -134,51 +501,267 @@ export class VFS {
     return null;
   }
 
+  /** The root and mount points cannot be removed or renamed. */
+  private checkNotMountPoint(abs: string, path: string): void {
+    if (abs === '/' || this.mounts.some((m) => m.path === abs)) {
+      throw new VFSError(ErrorCode.EBUSY, `'${path}': device or resource busy`);
+    }
+  }
+
   // ─── Internal helpers ───
 
-  private createNode(type: 'file' | 'directory', name: string): INode {
+  /** A new node, counted against the quota when it is for `path`. */
+  private createNode(type: FileType, name: string, path?: string): INode {
+    if (path !== undefined) {
+      this.checkSpace(0, 1, path);
+      this.account(0, 1);
+    }
     const now = Date.now();
-    return {
+    const node: INode = {
       type,
       name,
       data: new Uint8Array(0),
       children: new Map(),
       ctime: now,
       mtime: now,
-      mode: type === 'directory' ? 0o755 : 0o644,
+      mode: type === 'directory' ? 0o755 : type === 'symlink' ? 0o777 : 0o644,
+      uid: this.cred.uid,
+      gid: this.cred.gid,
     };
+    if (this.shared.cow) this.shared.epochs.set(node, this.shared.epoch);
+    return node;
   }
 
-  private resolveNode(path: string): INode {
-    const abs = this.toAbsolute(path);
-    if (abs === '/') return this.root;
+  // ─── Copy-on-write ───
+
+  private isShared(node: INode): boolean {
+    return this.shared.cow && this.shared.epochs.get(node) !== this.shared.epoch;
+  }
+
+  private copyNode(node: INode): INode {
+    const copy: INode = { ...node, children: new Map(node.children) };
+    this.shared.epochs.set(copy, this.shared.epoch);
+    const ino = this.inodeNumbers.get(node);
+    if (ino !== undefined) this.inodeNumbers.set(copy, ino);
+    return copy;
+  }
+
+  private writableRoot(): INode {
+    if (this.isShared(this.root)) this.root = this.copyNode(this.root);
+    return this.root;
+  }
+
+  /**
+   * Return a version of `parent`'s entry `name` that may be changed in place,
+   * copying it first if it is shared. `parent` must itself be writable.
+   */
+  private writableChild(parent: INode, name: string, child: INode): INode {
+    if (!this.isShared(child)) return child;
+    const copy = this.copyNode(child);
+    parent.children.set(name, copy);
+    if (copy.type !== 'directory' && (copy.nlink ?? 1) > 1) {
+      this.relink(child, copy);
+    }
+    return copy;
+  }
+
+  /** Point the other names of a hard-linked node at its new copy. */
+  private relink(original: INode, copy: INode): void {
+    const paths: string[] = [];
+    const visit = (dir: INode, dirPath: string): void => {
+      for (const [name, child] of dir.children) {
+        const childPath = dirPath === '/' ? '/' + name : dirPath + '/' + name;
+        if (child === original) paths.push(childPath);
+        else if (child.type === 'directory') visit(child, childPath);
+      }
+    };
+    visit(this.root, '/');
+
+    for (const path of paths) {
+      const parts = path.split('/').filter(Boolean);
+      const name = parts.pop()!;
+      let dir = this.writableRoot();
+      for (const part of parts) {
+        dir = this.writableChild(dir, part, dir.children.get(part)!);
+      }
+      dir.children.set(name, copy);
+    }
+  }
+
+  /**
+   * Drop this file's reference to replaced content. Once a snapshot or clone
+   * may share the manifest, the count cannot tell, so the content store
+   * recounts in the background instead.
+   */
+  private releaseChunks(chunks: ChunkRef[]): void {
+    if (this.shared.cow) this.contentStore.scheduleCollect();
+    else this.contentStore.deleteChunked(chunks);
+  }
+
+  private getIno(node: INode): number {
+    let ino = this.inodeNumbers.get(node);
+    if (ino === undefined) {
+      ino = this.shared.nextIno++;
+      this.inodeNumbers.set(node, ino);
+    }
+    return ino;
+  }
+
+  private toStat(node: INode): Stat {
+    let size: number;
+    if (node.type === 'file') {
+      size = node.storedSize ?? node.data.length;
+    } else if (node.type === 'symlink') {
+      size = node.target!.length;
+    } else {
+      size = node.children.size;
+    }
+    const stat: Stat = {
+      type: node.type,
+      size,
+      ctime: node.ctime,
+      mtime: node.mtime,
+      mode: node.mode,
+      ino: this.getIno(node),
+      nlink: node.type === 'directory' ? 2 : (node.nlink ?? 1),
+      uid: node.uid ?? 0,
+      gid: node.gid ?? 0,
+    };
+    const mime = node.xattrs?.get(MIME_XATTR);
+    if (mime) {
+      stat.mime = decode(mime);
+    } else if (node.mime) {
+      stat.mime = node.mime;
+    }
+    return stat;
+  }
+
+  // ─── Permission checks ───
+
+  /** Does the caller hold every bit of `mask` (R_OK | W_OK | X_OK) on `node`? */
+  private permits(node: INode, mask: number): boolean {
+    const { uid, gid, groups } = this.cred;
+    if (uid === 0) {
+      // Root ignores permission bits, but only executes files with some x bit
+      return !(mask & X_OK) || node.type === 'directory' || (node.mode & 0o111) !== 0;
+    }
+
+    const owner = node.uid ?? 0;
+    const group = node.gid ?? 0;
+    let bits = node.mode;
+    if (owner === uid) {
+      bits >>= 6;
+    } else if (group === gid || groups?.includes(group)) {
+      bits >>= 3;
+    }
+    return (bits & mask) === mask;
+  }
+
+  private checkAccess(node: INode, mask: number, path: string): void {
+    if (!this.permits(node, mask)) {
+      throw new VFSError(ErrorCode.EACCES, `'${path}': permission denied`);
+    }
+  }
+
+  private isOwner(node: INode): boolean {
+    return this.cred.uid === 0 || (node.uid ?? 0) === this.cred.uid;
+  }
+
+  /**
+   * Removing (or renaming away) `node` from `parent` needs write access to the
+   * parent. In a sticky directory like /tmp, only the owner of the entry or of
+   * the directory may do it.
+   */
+  private checkRemove(parent: INode, node: INode, path: string): void {
+    this.checkAccess(parent, W_OK | X_OK, path);
+    if ((parent.mode & 0o1000) && !this.isOwner(node) && !this.isOwner(parent)) {
+      throw new VFSError(ErrorCode.EACCES, `'${path}': permission denied`);
+    }
+  }
+
+  /**
+   * Resolve every symlink along `path` and return the canonical absolute path.
+   * The final component is only followed when `followFinal` is set (lstat,
+   * unlink and friends operate on the link itself). Resolution stops at mount
+   * points -- providers are responsible for whatever lies beneath them.
+   * Missing components are left in place so callers report ENOENT themselves.
+   */
+  private resolveLinks(path: string, followFinal = true): string {
+    let abs = this.toAbsolute(path);
+    if (abs.length > MAX_PATH || abs.split('/').some((part) => part.length > MAX_NAME)) {
+      throw new VFSError(ErrorCode.ENAMETOOLONG, `'${path}': file name too long`);
+    }
+    for (let hops = 0; hops <= MAX_SYMLINK_HOPS; hops++) {
+      const next = this.expandFirstLink(abs, followFinal);
+      if (next === null) return abs;
+      abs = next;
+    }
+    throw new VFSError(ErrorCode.ELOOP, `'${path}': too many levels of symbolic links`);
+  }
 
+  /** Substitute the first symlink found on `abs`; null when there is none left. */
+  private expandFirstLink(abs: string, followFinal: boolean): string | null {
     const parts = abs.split('/').filter(Boolean);
     let node = this.root;
+    let current = '';
+
+    for (let i = 0; i < parts.length; i++) {
+      if (this.mounts.some((m) => m.path === (current || '/'))) return null;
+      if (node.type !== 'directory') return null;
+      const child = node.children.get(parts[i]);
+      if (!child) return null;
+
+      const isLast = i === parts.length - 1;
+      if (child.type === 'symlink' && (!isLast || followFinal)) {
+        const linkTarget = resolve(current || '/', child.target!);
+        const rest = parts.slice(i + 1).join('/');
+        return rest ? resolve(linkTarget, rest) : linkTarget;
+      }
+
+      node = child;
+      current += '/' + parts[i];
+    }
+
+    return null;
+  }
+
+  /**
+   * Look up `path` (no symlinks). With `forWrite`, every node on the way,
+   * the result included, is made writable for copy-on-write.
+   */
+  private resolveNode(path: string, forWrite = false): INode {
+    const abs = this.toAbsolute(path);
+    let node = forWrite ? this.writableRoot() : this.root;
+    if (abs === '/') return node;
+
+    const parts = abs.split('/').filter(Boolean);
 
     for (const part of parts) {
       if (node.type !== 'directory') {
         throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
       }
+      // Looking up a name needs search permission on the directory
+      this.checkAccess(node, X_OK, path);
       const child = node.children.get(part);
       if (!child) {
         throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
       }
-      node = child;
+      node = forWrite ? this.writableChild(node, part, child) : child;
     }
 
     return node;
   }
 
-  private resolveParent(path: string): { parent: INode; name: string } {
+  private resolveParent(path: string, forWrite = false): { parent: INode; name: string } {
     const abs = this.toAbsolute(path);
     const dir = dirname(abs);
     const name = basename(abs);
-    const parent = this.resolveNode(dir);
+    const parent = this.resolveNode(dir, forWrite);
 
     if (parent.type !== 'directory') {
       throw new VFSError(ErrorCode.ENOTDIR, `'${dir}': not a directory`);
     }
+    this.checkAccess(parent, X_OK, path);
 
     return { parent, name };
   }
@@ -187,16 +770,26 @@ export class VFS {
     return resolve('/', path);
   }
 
+  /** A FIFO's data only passes through openFifo(); it has no contents to read or write in place. */
+  private checkNotFifo(node: INode, path: string): void {
+    if (node.type === 'fifo') {
+      throw new VFSError(ErrorCode.ESPIPE, `'${path}': is a FIFO`);
+    }
+  }
+
   // ─── File operations ───
 
   readFile(path: string): Uint8Array {
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
     if (vp) return vp.provider.readFile(vp.subpath);
 
-    const node = this.resolveNode(path);
+    const node = this.resolveNode(abs);
     if (node.type === 'directory') {
       throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
     }
+    this.checkNotFifo(node, path);
+    this.checkAccess(node, R_OK, path);
 
     // Chunked file: reassemble from content store
     if (node.chunks) {
@@ -210,43 +803,51 @@ export class VFS {
   }
 
   readFileString(path: string): string {
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
     if (vp) return vp.provider.readFileString(vp.subpath);
 
-    return decode(this.readFile(path));
+    return decode(this.readFile(abs));
   }
 
   writeFile(path: string, content: string | Uint8Array): void {
-    const vp = this.getProvider(path);
+    // Writing through a symlink writes its target (creating it if dangling)
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
     if (vp) {
       if (vp.provider.writeFile) {
         vp.provider.writeFile(vp.subpath, content);
         return;
       }
-      throw new VFSError(ErrorCode.EINVAL, `'${path}': read-only virtual filesystem`);
+      throw new VFSError(ErrorCode.EROFS, `'${path}': read-only file system`);
     }
 
     const data = typeof content === 'string' ? encode(content) : content;
-    const abs = this.toAbsolute(path);
-    const { parent, name } = this.resolveParent(path);
+    const { parent, name } = this.resolveParent(abs, true);
     const mime = getMimeType(name);
-    const existing = parent.children.get(name);
+    const found = parent.children.get(name);
 
-    if (existing) {
-      if (existing.type === 'directory') {
+    if (found) {
+      if (found.type === 'directory') {
         throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
       }
+      this.checkNotFifo(found, path);
+      this.checkAccess(found, W_OK, path);
+      this.checkSpace(data.byteLength - this.contentSize(found), 0, path);
+      const existing = this.writableChild(parent, name, found);
       // Clean up old chunks if transitioning from chunked
       if (existing.chunks) {
-        this.contentStore.deleteChunked(existing.chunks);
+        this.releaseChunks(existing.chunks);
       }
-      this.applyFileContent(existing, data);
+      this.applyFileContent(existing, data, path);
       existing.mtime = Date.now();
       existing.mime = mime;
       this.notify({ type: 'modify', path: abs, fileType: 'file' });
     } else {
-      const node = this.createNode('file', name);
-      this.applyFileContent(node, data);
+      this.checkAccess(parent, W_OK | X_OK, path);
+      this.checkSpace(data.byteLength, 1, path);
+      const node = this.createNode('file', name, path);
+      this.applyFileContent(node, data, path);
       node.mime = mime;
       parent.children.set(name, node);
       this.notify({ type: 'create', path: abs, fileType: 'file' });
@@ -255,8 +856,12 @@ export class VFS {
 
   /**
    * Store file content -- inline for small files, chunked for large files.
+   * ENOSPC if the quota has no room for it.
    */
-  private applyFileContent(node: INode, data: Uint8Array): void {
+  private applyFileContent(node: INode, data: Uint8Array, path: string): void {
+    const growth = data.byteLength - this.contentSize(node);
+    this.checkSpace(growth, 0, path);
+    this.account(growth, 0);
     if (data.byteLength >= CHUNK_THRESHOLD) {
       // Large file: chunk into content store
       node.chunks = this.contentStore.storeChunked(data);
@@ -274,11 +879,14 @@ export class VFS {
 
   appendFile(path: string, content: string | Uint8Array): void {
     const data = typeof content === 'string' ? encode(content) : content;
+    const abs = this.resolveLinks(path);
     try {
-      const node = this.resolveNode(path);
+      const node = this.resolveNode(abs, true);
       if (node.type === 'directory') {
         throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
       }
+      this.checkNotFifo(node, path);
+      this.checkAccess(node, W_OK, path);
 
       if (node.chunks) {
         // Chunked file: read existing, concatenate, re-chunk
@@ -286,33 +894,193 @@ export class VFS {
         const merged = new Uint8Array(existing.byteLength + data.byteLength);
         merged.set(existing, 0);
         merged.set(data, existing.byteLength);
-        this.contentStore.deleteChunked(node.chunks);
-        this.applyFileContent(node, merged);
+        this.checkSpace(data.byteLength, 0, path);
+        this.releaseChunks(node.chunks);
+        this.applyFileContent(node, merged, path);
       } else {
         // Inline file: concatenate, possibly promote to chunked
         const merged = new Uint8Array(node.data.length + data.length);
         merged.set(node.data, 0);
         merged.set(data, node.data.length);
-        this.applyFileContent(node, merged);
+        this.applyFileContent(node, merged, path);
       }
 
       node.mtime = Date.now();
-      this.notify({ type: 'modify', path: this.toAbsolute(path), fileType: 'file' });
+      this.notify({ type: 'modify', path: abs, fileType: 'file' });
     } catch (e) {
       if (e instanceof VFSError && e.code === 'ENOENT') {
-        this.writeFile(path, data);
+        this.writeFile(abs, data);
       } else {
         throw e;
       }
     }
   }
 
-  exists(path: string): boolean {
-    const vp = this.getProvider(path);
-    if (vp) return vp.provider.exists(vp.subpath);
+  // ─── Positional I/O ───
+
+  /**
+   * Read up to `length` bytes starting at byte `position`. Reading at or past
+   * the end returns an empty array. For chunked files only the chunks that
+   * overlap the range are loaded.
+   */
+  readRange(path: string, position: number, length: number): Uint8Array {
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
+    if (vp) return vp.provider.readFile(vp.subpath).slice(position, position + length);
+
+    const node = this.resolveNode(abs);
+    if (node.type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
+    }
+    this.checkNotFifo(node, path);
+    this.checkAccess(node, R_OK, path);
+
+    if (!node.chunks) return node.data.slice(position, position + length);
+
+    const end = Math.min(position + length, this.contentSize(node));
+    const result = new Uint8Array(Math.max(0, end - position));
+    let offset = 0;
+    for (const chunk of node.chunks) {
+      const chunkEnd = offset + chunk.size;
+      if (chunkEnd > position && offset < end) {
+        const data = this.contentStore.get(chunk.hash);
+        // Chunks evicted from cache -- data is lost (should not happen in normal use)
+        if (!data) return result.subarray(0, Math.max(0, offset - position));
+        const from = Math.max(position, offset);
+        const to = Math.min(end, chunkEnd);
+        result.set(data.subarray(from - offset, to - offset), from - position);
+      }
+      offset = chunkEnd;
+      if (offset >= end) break;
+    }
+    return result;
+  }
+
+  /**
+   * Write `content` at byte `position`, overwriting what is there and
+   * growing the file as needed; a gap past the old end is zero-filled.
+   * The file must exist. In a chunked file, a write that stays inside the
+   * file replaces only the chunks it touches.
+   */
+  writeAt(path: string, content: string | Uint8Array, position: number): void {
+    const data = typeof content === 'string' ? encode(content) : content;
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
+    if (vp) {
+      if (!vp.provider.writeFile) {
+        throw new VFSError(ErrorCode.EROFS, `'${path}': read-only file system`);
+      }
+      const current = vp.provider.readFile(vp.subpath);
+      vp.provider.writeFile(vp.subpath, spliceBytes(current, data, position));
+      return;
+    }
+
+    const node = this.resolveNode(abs, true);
+    if (node.type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
+    }
+    this.checkNotFifo(node, path);
+    this.checkAccess(node, W_OK, path);
+
+    const end = position + data.byteLength;
+    if (node.chunks && end <= this.contentSize(node)) {
+      node.chunks = this.patchChunks(node.chunks, data, position);
+    } else {
+      const current = node.chunks
+        ? this.contentStore.loadChunked(node.chunks) ?? new Uint8Array(0)
+        : node.data;
+      const spliced = spliceBytes(current, data, position);
+      this.checkSpace(spliced.byteLength - current.byteLength, 0, path);
+      if (node.chunks) this.releaseChunks(node.chunks);
+      this.applyFileContent(node, spliced, path);
+    }
+
+    node.mtime = Date.now();
+    this.notify({ type: 'modify', path: abs, fileType: 'file' });
+  }
+
+  /**
+   * Cut a file down to `length` bytes, or zero-extend it to that length.
+   */
+  truncate(path: string, length = 0): void {
+    if (length < 0) {
+      throw new VFSError(ErrorCode.EINVAL, `'${path}': invalid length`);
+    }
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
+    if (vp) {
+      if (!vp.provider.writeFile) {
+        throw new VFSError(ErrorCode.EROFS, `'${path}': read-only file system`);
+      }
+      vp.provider.writeFile(vp.subpath, resizeBytes(vp.provider.readFile(vp.subpath), length));
+      return;
+    }
+
+    const node = this.resolveNode(abs, true);
+    if (node.type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
+    }
+    this.checkNotFifo(node, path);
+    this.checkAccess(node, W_OK, path);
+    if (length === this.contentSize(node)) return;
+
+    if (node.chunks) {
+      const current = this.contentStore.loadChunked(node.chunks) ?? new Uint8Array(0);
+      this.checkSpace(length - this.contentSize(node), 0, path);
+      this.releaseChunks(node.chunks);
+      this.applyFileContent(node, resizeBytes(current, length), path);
+    } else {
+      this.applyFileContent(node, resizeBytes(node.data, length), path);
+    }
+
+    node.mtime = Date.now();
+    this.notify({ type: 'modify', path: abs, fileType: 'file' });
+  }
+
+  private contentSize(node: INode): number {
+    if (!node.chunks) return node.data.byteLength;
+    return node.storedSize ?? node.chunks.reduce((sum, c) => sum + c.size, 0);
+  }
+
+  /**
+   * Overwrite bytes inside a chunked file. Returns a new manifest in which
+   * only the chunks overlapping the write have changed; the old manifest is
+   * left alone, since snapshots may still refer to it.
+   */
+  private patchChunks(chunks: ChunkRef[], data: Uint8Array, position: number): ChunkRef[] {
+    const end = position + data.byteLength;
+    const result: ChunkRef[] = [];
+    const replaced: ChunkRef[] = [];
+    let offset = 0;
+    for (const chunk of chunks) {
+      const chunkEnd = offset + chunk.size;
+      if (chunkEnd <= position || offset >= end) {
+        result.push(chunk);
+      } else {
+        const bytes = new Uint8Array(chunk.size);
+        const old = this.contentStore.get(chunk.hash);
+        if (old) bytes.set(old);
+        const from = Math.max(position, offset);
+        const to = Math.min(end, chunkEnd);
+        bytes.set(data.subarray(from - position, to - position), from - offset);
+        const patched = { hash: this.contentStore.put(bytes), size: chunk.size };
+        this.contentStore.retain([patched]);
+        result.push(patched);
+        replaced.push(chunk);
+      }
+      offset = chunkEnd;
+    }
+    this.releaseChunks(replaced);
+    return result;
+  }
 
+  exists(path: string): boolean {
     try {
-      this.resolveNode(path);
+      const abs = this.resolveLinks(path);
+      const vp = this.getProvider(abs);
+      if (vp) return vp.provider.exists(vp.subpath);
+
+      this.resolveNode(abs);
       return true;
     } catch {
       return false;
@@ -320,58 +1088,70 @@ export class VFS {
   }
 
   stat(path: string): Stat {
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
     if (vp) return vp.provider.stat(vp.subpath);
 
-    const node = this.resolveNode(path);
-    const stat: Stat = {
-      type: node.type,
-      size: node.type === 'file' ? (node.storedSize ?? node.data.length) : node.children.size,
-      ctime: node.ctime,
-      mtime: node.mtime,
-      mode: node.mode,
-    };
-    if (node.mime) {
-      stat.mime = node.mime;
-    }
-    return stat;
+    return this.toStat(this.resolveNode(abs));
+  }
+
+  /**
+   * Like stat(), but reports on a symlink itself rather than its target.
+   */
+  lstat(path: string): Stat {
+    const abs = this.resolveLinks(path, false);
+    const vp = this.getProvider(abs);
+    if (vp) return vp.provider.stat(vp.subpath);
+
+    return this.toStat(this.resolveNode(abs));
   }
 
   unlink(path: string): void {
-    const abs = this.toAbsolute(path);
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path, false);
+    this.checkNotMountPoint(abs, path);
+    const vp = this.getProvider(abs);
     if (vp) {
       if (isMountProvider(vp.provider)) {
         vp.provider.unlink(vp.subpath);
         return;
       }
-      throw new VFSError(ErrorCode.EINVAL, `'${path}': read-only virtual filesystem`);
+      throw new VFSError(ErrorCode.EROFS, `'${path}': read-only file system`);
     }
 
-    const { parent, name } = this.resolveParent(path);
-    const node = parent.children.get(name);
+    const { parent, name } = this.resolveParent(abs, true);
+    const found = parent.children.get(name);
 
-    if (!node) {
+    if (!found) {
       throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
     }
-    if (node.type === 'directory') {
+    if (found.type === 'directory') {
       throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
     }
+    this.checkRemove(parent, found, path);
 
-    // Clean up chunks from content store
-    if (node.chunks) {
-      this.contentStore.deleteChunked(node.chunks);
+    // The other names of a hard link see the new count, so copy before changing it
+    const node = this.writableChild(parent, name, found);
+    parent.children.delete(name);
+
+    const links = (node.nlink ?? 1) - 1;
+    if (links > 0) {
+      node.nlink = links;
+    } else {
+      this.account(-this.contentSize(node), -1);
+      // Last link gone -- clean up chunks from content store
+      if (node.chunks) this.releaseChunks(node.chunks);
     }
 
-    parent.children.delete(name);
-    this.notify({ type: 'delete', path: abs, fileType: 'file' });
+    this.notify({ type: 'delete', path: abs, fileType: node.type });
   }
 
   rename(oldPath: string, newPath: string): void {
-    const oldAbs = this.toAbsolute(oldPath);
-    const newAbs = this.toAbsolute(newPath);
-    const vpOld = this.getProvider(oldPath);
-    const vpNew = this.getProvider(newPath);
+    const oldAbs = this.resolveLinks(oldPath, false);
+    const newAbs = this.resolveLinks(newPath, false);
+    this.checkNotMountPoint(oldAbs, oldPath);
+    this.checkNotMountPoint(newAbs, newPath);
+    const vpOld = this.getProvider(oldAbs);
+    const vpNew = this.getProvider(newAbs);
 
     // If both paths are on the same mount and it supports MountProvider, delegate
     if (vpOld && vpNew && vpOld.provider === vpNew.provider && isMountProvider(vpOld.provider)) {
@@ -379,34 +1159,64 @@ export class VFS {
       return;
     }
 
+    if (vpOld && vpNew && vpOld.provider === vpNew.provider) {
+      throw new VFSError(ErrorCode.EROFS, `'${oldPath}': read-only file system`);
+    }
+
     // If either path is on a provider that doesn't support rename, fall through
     // to in-memory rename (or error if source is on a provider)
     if (vpOld) {
-      throw new VFSError(ErrorCode.EINVAL, `'${oldPath}': cannot rename across mount boundaries`);
+      throw new VFSError(ErrorCode.EXDEV, `'${oldPath}': cannot rename across mount boundaries`);
     }
 
-    const { parent: oldParent, name: oldName } = this.resolveParent(oldPath);
-    const node = oldParent.children.get(oldName);
+    const { parent: oldParent, name: oldName } = this.resolveParent(oldAbs, true);
+    const found = oldParent.children.get(oldName);
 
-    if (!node) {
+    if (!found) {
       throw new VFSError(ErrorCode.ENOENT, `'${oldPath}': no such file or directory`);
     }
 
     if (vpNew) {
-      throw new VFSError(ErrorCode.EINVAL, `'${newPath}': cannot rename across mount boundaries`);
+      throw new VFSError(ErrorCode.EXDEV, `'${newPath}': cannot rename across mount boundaries`);
+    }
+
+    const node = this.writableChild(oldParent, oldName, found);
+    const { parent: newParent, name: newName } = this.resolveParent(newAbs, true);
+    this.checkRemove(oldParent, node, oldPath);
+    this.checkAccess(newParent, W_OK | X_OK, newPath);
+    const replaced = newParent.children.get(newName);
+    if (replaced && replaced !== node) {
+      if (node.type === 'directory' && replaced.type !== 'directory') {
+        throw new VFSError(ErrorCode.ENOTDIR, `'${newPath}': not a directory`);
+      }
+      if (node.type !== 'directory' && replaced.type === 'directory') {
+        throw new VFSError(ErrorCode.EISDIR, `'${newPath}': is a directory`);
+      }
+      if (replaced.type === 'directory' && replaced.children.size > 0) {
+        throw new VFSError(ErrorCode.ENOTEMPTY, `'${newPath}': directory not empty`);
+      }
+      this.checkRemove(newParent, replaced, newPath);
+    }
+    if (node.type === 'directory' && newAbs.startsWith(oldAbs + '/')) {
+      throw new VFSError(ErrorCode.EINVAL, `'${newPath}': cannot move a directory into itself`);
     }
 
-    const { parent: newParent, name: newName } = this.resolveParent(newPath);
     node.name = newName;
     node.mtime = Date.now();
     newParent.children.set(newName, node);
     oldParent.children.delete(oldName);
+    if (replaced && replaced !== node && (replaced.nlink ?? 1) <= 1) {
+      this.account(replaced.type === 'file' ? -this.contentSize(replaced) : 0, -1);
+      if (replaced.chunks) this.releaseChunks(replaced.chunks);
+    }
     this.notify({ type: 'rename', path: newAbs, oldPath: oldAbs, fileType: node.type });
   }
 
   copyFile(src: string, dest: string): void {
-    const vpSrc = this.getProvider(src);
-    const vpDest = this.getProvider(dest);
+    const srcAbs = this.resolveLinks(src);
+    const destAbs = this.resolveLinks(dest);
+    const vpSrc = this.getProvider(srcAbs);
+    const vpDest = this.getProvider(destAbs);
 
     // If both on the same MountProvider, delegate
     if (vpSrc && vpDest && vpSrc.provider === vpDest.provider && isMountProvider(vpSrc.provider)) {
@@ -415,82 +1225,406 @@ export class VFS {
     }
 
     // Otherwise, read from source and write to dest (works across mounts)
-    const srcData = this.readFile(src);
+    const srcData = this.readFile(srcAbs);
     const data = new Uint8Array(srcData);
-    this.writeFile(dest, data); // writeFile already calls notify
+    this.writeFile(destAbs, data); // writeFile already calls notify
   }
 
   touch(path: string): void {
+    const abs = this.resolveLinks(path);
     try {
-      const node = this.resolveNode(path);
+      const node = this.resolveNode(abs, true);
+      // Setting times to "now" is allowed to the owner or anyone who can write
+      if (!this.isOwner(node)) this.checkAccess(node, W_OK, path);
       node.mtime = Date.now();
-      this.notify({ type: 'modify', path: this.toAbsolute(path), fileType: node.type });
+      this.notify({ type: 'attrib', path: abs, fileType: node.type });
     } catch (e) {
       if (e instanceof VFSError && e.code === 'ENOENT') {
-        this.writeFile(path, ''); // writeFile already calls notify
+        this.writeFile(abs, ''); // writeFile already calls notify
       } else {
         throw e;
       }
     }
   }
 
+  // ─── FIFOs ───
+
+  /**
+   * Create a FIFO (named pipe) at `path`. It holds no data itself: what one
+   * process writes to it is read by another, through openFifo().
+   */
+  mkfifo(path: string, mode = 0o644): void {
+    const abs = this.resolveLinks(path, false);
+    if (this.getProvider(abs)) {
+      throw new VFSError(ErrorCode.EPERM, `'${path}': FIFOs are not supported on this mount`);
+    }
+
+    const { parent, name } = this.resolveParent(abs, true);
+    if (parent.children.has(name)) {
+      throw new VFSError(ErrorCode.EEXIST, `'${path}': file exists`);
+    }
+    this.checkAccess(parent, W_OK | X_OK, path);
+
+    const node = this.createNode('fifo', name, path);
+    node.mode = mode & 0o7777;
+    parent.children.set(name, node);
+    this.notify({ type: 'create', path: abs, fileType: 'fifo' });
+  }
+
+  /**
+   * Open the read or write end of the FIFO at `path`. Like open(2), this
+   * waits until the other end is open too, or until `signal` aborts.
+   */
+  openFifo(path: string, access: 'read', signal?: AbortSignal): Promise<FifoReader>;
+  openFifo(path: string, access: 'write', signal?: AbortSignal): Promise<FifoWriter>;
+  async openFifo(path: string, access: 'read' | 'write', signal?: AbortSignal): Promise<FifoReader | FifoWriter> {
+    const abs = this.resolveLinks(path);
+    const node = this.getProvider(abs) ? null : this.resolveNode(abs);
+    if (node?.type !== 'fifo') {
+      throw new VFSError(ErrorCode.EINVAL, `'${path}': not a FIFO`);
+    }
+    this.checkAccess(node, access === 'read' ? R_OK : W_OK, path);
+
+    const ino = this.getIno(node);
+    let fifo = this.fifos.get(ino);
+    if (!fifo) {
+      fifo = new Fifo();
+      this.fifos.set(ino, fifo);
+    }
+    return access === 'read' ? fifo.openRead(signal) : fifo.openWrite(signal);
+  }
+
+  /**
+   * readFile() for commands that read their operands: a FIFO is read as a
+   * stream, waiting for a writer and then until the last writer closes it.
+   */
+  async readFileAsync(path: string, signal?: AbortSignal): Promise<Uint8Array> {
+    const abs = this.resolveLinks(path);
+    const node = this.getProvider(abs) ? null : this.resolveNode(abs);
+    if (node?.type !== 'fifo') return this.readFile(path);
+
+    const reader = await this.openFifo(abs, 'read', signal);
+    const chunks: Uint8Array[] = [];
+    try {
+      for (let chunk = await reader.read(signal); chunk !== null; chunk = await reader.read(signal)) {
+        chunks.push(chunk);
+      }
+    } finally {
+      reader.close();
+    }
+
+    const data = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return data;
+  }
+
+  async readFileStringAsync(path: string, signal?: AbortSignal): Promise<string> {
+    return decode(await this.readFileAsync(path, signal));
+  }
+
+  // ─── Links ───
+
+  /**
+   * Create a symbolic link at `path` pointing to `target`.
+   * The target is stored verbatim: relative targets are resolved against the
+   * link's directory at lookup time, and it need not exist (dangling link).
+   */
+  symlink(target: string, path: string): void {
+    const abs = this.resolveLinks(path, false);
+    if (this.getProvider(abs)) {
+      throw new VFSError(ErrorCode.EPERM, `'${path}': symbolic links are not supported on this mount`);
+    }
+
+    const { parent, name } = this.resolveParent(abs, true);
+    if (parent.children.has(name)) {
+      throw new VFSError(ErrorCode.EEXIST, `'${path}': file exists`);
+    }
+    this.checkAccess(parent, W_OK | X_OK, path);
+
+    const node = this.createNode('symlink', name, path);
+    node.target = target;
+    parent.children.set(name, node);
+    this.notify({ type: 'create', path: abs, fileType: 'symlink' });
+  }
+
+  /**
+   * Return the target of a symbolic link, exactly as it was created.
+   */
+  readlink(path: string): string {
+    const abs = this.resolveLinks(path, false);
+    if (this.getProvider(abs)) {
+      throw new VFSError(ErrorCode.EINVAL, `'${path}': not a symbolic link`);
+    }
+
+    const node = this.resolveNode(abs);
+    if (node.type !== 'symlink') {
+      throw new VFSError(ErrorCode.EINVAL, `'${path}': not a symbolic link`);
+    }
+    return node.target!;
+  }
+
+  /**
+   * Create a hard link: `newPath` becomes another name for the inode at
+   * `existingPath`. Both names share content, mode and timestamps.
+   */
+  link(existingPath: string, newPath: string): void {
+    const srcAbs = this.resolveLinks(existingPath, false);
+    const destAbs = this.resolveLinks(newPath, false);
+    if (this.getProvider(srcAbs) || this.getProvider(destAbs)) {
+      throw new VFSError(ErrorCode.EXDEV, `'${newPath}': cannot link across mount boundaries`);
+    }
+
+    const node = this.resolveNode(srcAbs, true);
+    if (node.type === 'directory') {
+      throw new VFSError(ErrorCode.EPERM, `'${existingPath}': hard link not allowed for directory`);
+    }
+
+    const { parent, name } = this.resolveParent(destAbs, true);
+    if (parent.children.has(name)) {
+      throw new VFSError(ErrorCode.EEXIST, `'${newPath}': file exists`);
+    }
+    this.checkAccess(parent, W_OK | X_OK, newPath);
+
+    node.nlink = (node.nlink ?? 1) + 1;
+    parent.children.set(name, node);
+    this.notify({ type: 'create', path: destAbs, fileType: node.type });
+  }
+
+  /**
+   * Resolve all symlinks in `path` and return the canonical absolute path.
+   */
+  realpath(path: string): string {
+    const abs = this.resolveLinks(path);
+    if (!this.exists(abs)) {
+      throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
+    }
+    return abs;
+  }
+
+  // ─── Ownership and permissions ───
+
+  /**
+   * Check the caller's access to `path`, like POSIX access(2): `mode` is
+   * F_OK or a mask of R_OK, W_OK and X_OK. Throws ENOENT or EACCES.
+   */
+  access(path: string, mode: number = F_OK): void {
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
+    if (vp) {
+      if (!vp.provider.exists(vp.subpath)) {
+        throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
+      }
+      return;
+    }
+
+    const node = this.resolveNode(abs);
+    if (mode !== F_OK) this.checkAccess(node, mode, path);
+  }
+
+  /**
+   * Change the permission bits of `path` (following symlinks).
+   * Only the owner or root may do this.
+   */
+  chmod(path: string, mode: number): void {
+    const abs = this.resolveLinks(path);
+    if (this.getProvider(abs)) {
+      throw new VFSError(ErrorCode.EPERM, `'${path}': permissions are not supported on this mount`);
+    }
+
+    const node = this.resolveNode(abs, true);
+    if (!this.isOwner(node)) {
+      throw new VFSError(ErrorCode.EPERM, `'${path}': operation not permitted`);
+    }
+    node.mode = mode & 0o7777;
+    this.notify({ type: 'attrib', path: abs, fileType: node.type });
+  }
+
+  /**
+   * Change the owner and group of `path` (following symlinks); -1 leaves
+   * either unchanged. Only root may give a file away; an owner may move it
+   * to one of their own groups.
+   */
+  chown(path: string, uid: number, gid: number): void {
+    const abs = this.resolveLinks(path);
+    if (this.getProvider(abs)) {
+      throw new VFSError(ErrorCode.EPERM, `'${path}': ownership is not supported on this mount`);
+    }
+
+    const node = this.resolveNode(abs, true);
+    if (this.cred.uid !== 0) {
+      const givesAway = uid !== -1 && uid !== (node.uid ?? 0);
+      const inGroup = gid === -1 || gid === this.cred.gid || !!this.cred.groups?.includes(gid);
+      if (givesAway || !this.isOwner(node) || !inGroup) {
+        throw new VFSError(ErrorCode.EPERM, `'${path}': operation not permitted`);
+      }
+    }
+
+    if (uid !== -1) node.uid = uid;
+    if (gid !== -1) node.gid = gid;
+    this.notify({ type: 'attrib', path: abs, fileType: node.type });
+  }
+
+  // ─── Extended attributes ───
+
+  /**
+   * Set extended attribute `name` of `path` (following symlinks). As on
+   * Linux, `user.*` attributes are for regular files and directories, and
+   * need write access; `trusted.*` and `security.*` ones need root. With
+   * `create` it is an error (EEXIST) for the attribute to exist already,
+   * with `replace` (ENODATA) for it not to.
+   */
+  setxattr(
+    path: string,
+    name: string,
+    value: string | Uint8Array,
+    flags: { create?: boolean; replace?: boolean } = {},
+  ): void {
+    const abs = this.resolveXattrPath(path);
+    const node = this.resolveNode(abs, true);
+    this.checkXattrAccess(node, name, W_OK, path);
+    const bytes = typeof value === 'string' ? encode(value) : value;
+    if (bytes.byteLength > XATTR_SIZE_MAX) {
+      throw new VFSError(ErrorCode.E2BIG, `'${path}': value of ${name} is too large`);
+    }
+
+    const exists = node.xattrs?.has(name) ?? false;
+    if (flags.create && exists) {
+      throw new VFSError(ErrorCode.EEXIST, `'${path}': attribute ${name} exists`);
+    }
+    if (flags.replace && !exists) {
+      throw new VFSError(ErrorCode.ENODATA, `'${path}': no such attribute ${name}`);
+    }
+    // A new map, never an update in place: snapshots may share the old one
+    node.xattrs = new Map(node.xattrs).set(name, bytes.slice());
+    this.notify({ type: 'attrib', path: abs, fileType: node.type });
+  }
+
+  /** Value of extended attribute `name` of `path` (following symlinks); ENODATA if unset. */
+  getxattr(path: string, name: string): Uint8Array {
+    const abs = this.resolveXattrPath(path);
+    const node = this.resolveNode(abs);
+    this.checkXattrAccess(node, name, R_OK, path);
+    const value = node.xattrs?.get(name);
+    if (!value) {
+      throw new VFSError(ErrorCode.ENODATA, `'${path}': no such attribute ${name}`);
+    }
+    return value.slice();
+  }
+
+  /** Names of the extended attributes of `path`; `trusted.*` ones only for root. */
+  listxattr(path: string): string[] {
+    const abs = this.resolveXattrPath(path);
+    const names = [...(this.resolveNode(abs).xattrs?.keys() ?? [])];
+    return this.cred.uid === 0 ? names : names.filter((name) => !name.startsWith('trusted.'));
+  }
+
+  /** Remove extended attribute `name` of `path` (following symlinks); ENODATA if unset. */
+  removexattr(path: string, name: string): void {
+    const abs = this.resolveXattrPath(path);
+    const node = this.resolveNode(abs, true);
+    this.checkXattrAccess(node, name, W_OK, path);
+    if (!node.xattrs?.has(name)) {
+      throw new VFSError(ErrorCode.ENODATA, `'${path}': no such attribute ${name}`);
+    }
+    const xattrs = new Map(node.xattrs);
+    xattrs.delete(name);
+    node.xattrs = xattrs.size > 0 ? xattrs : undefined;
+    this.notify({ type: 'attrib', path: abs, fileType: node.type });
+  }
+
+  private resolveXattrPath(path: string): string {
+    const abs = this.resolveLinks(path);
+    if (this.getProvider(abs)) {
+      throw new VFSError(ErrorCode.ENOTSUP, `'${path}': extended attributes are not supported on this mount`);
+    }
+    return abs;
+  }
+
+  /** Is `name` a valid attribute name that the caller may read (R_OK) or change (W_OK) on `node`? */
+  private checkXattrAccess(node: INode, name: string, mask: number, path: string): void {
+    const namespace = XATTR_NAMESPACES.find((ns) => name.startsWith(ns) && name.length > ns.length);
+    if (!namespace) {
+      throw new VFSError(ErrorCode.ENOTSUP, `'${path}': unsupported attribute name ${name}`);
+    }
+    if (encode(name).byteLength > XATTR_NAME_MAX) {
+      throw new VFSError(ErrorCode.ERANGE, `'${path}': attribute name too long`);
+    }
+
+    if (namespace === 'user.') {
+      if (mask === W_OK && node.type !== 'file' && node.type !== 'directory') {
+        throw new VFSError(ErrorCode.EPERM, `'${path}': operation not permitted`);
+      }
+      this.checkAccess(node, mask, path);
+    } else if (this.cred.uid !== 0 && (namespace === 'trusted.' || mask === W_OK)) {
+      throw new VFSError(ErrorCode.EPERM, `'${path}': operation not permitted`);
+    }
+  }
+
   // ─── Directory operations ───
 
   mkdir(path: string, options?: { recursive?: boolean }): void {
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path, !!options?.recursive);
+    const vp = this.getProvider(abs);
     if (vp) {
       if (isMountProvider(vp.provider)) {
         vp.provider.mkdir(vp.subpath, options);
         return;
       }
-      throw new VFSError(ErrorCode.EINVAL, `'${path}': read-only virtual filesystem`);
+      throw new VFSError(ErrorCode.EROFS, `'${path}': read-only file system`);
     }
 
     if (options?.recursive) {
-      const abs = this.toAbsolute(path);
       const parts = abs.split('/').filter(Boolean);
-      let current = this.root;
+      let current = this.writableRoot();
       let currentPath = '';
 
       for (const part of parts) {
         currentPath += '/' + part;
         let child = current.children.get(part);
+        this.checkAccess(current, child ? X_OK : W_OK | X_OK, path);
         if (!child) {
-          child = this.createNode('directory', part);
+          child = this.createNode('directory', part, currentPath);
           current.children.set(part, child);
           this.notify({ type: 'create', path: currentPath, fileType: 'directory' });
         } else if (child.type !== 'directory') {
           throw new VFSError(ErrorCode.ENOTDIR, `'${part}': not a directory`);
+        } else {
+          child = this.writableChild(current, part, child);
         }
         current = child;
       }
       return;
     }
 
-    const abs = this.toAbsolute(path);
-    const { parent, name } = this.resolveParent(path);
+    const { parent, name } = this.resolveParent(abs, true);
 
     if (parent.children.has(name)) {
       throw new VFSError(ErrorCode.EEXIST, `'${path}': file exists`);
     }
+    this.checkAccess(parent, W_OK | X_OK, path);
 
-    const node = this.createNode('directory', name);
+    const node = this.createNode('directory', name, path);
     parent.children.set(name, node);
     this.notify({ type: 'create', path: abs, fileType: 'directory' });
   }
 
   rmdir(path: string): void {
-    const abs = this.toAbsolute(path);
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path, false);
+    this.checkNotMountPoint(abs, path);
+    const vp = this.getProvider(abs);
     if (vp) {
       if (isMountProvider(vp.provider)) {
         vp.provider.rmdir(vp.subpath);
         return;
       }
-      throw new VFSError(ErrorCode.EINVAL, `'${path}': read-only virtual filesystem`);
+      throw new VFSError(ErrorCode.EROFS, `'${path}': read-only file system`);
     }
 
-    const { parent, name } = this.resolveParent(path);
+    const { parent, name } = this.resolveParent(abs, true);
     const node = parent.children.get(name);
 
     if (!node) {
@@ -502,27 +1636,31 @@ export class VFS {
     if (node.children.size > 0) {
       throw new VFSError(ErrorCode.ENOTEMPTY, `'${path}': directory not empty`);
     }
+    this.checkRemove(parent, node, path);
 
     parent.children.delete(name);
+    this.account(0, -1);
     this.notify({ type: 'delete', path: abs, fileType: 'directory' });
   }
 
   readdir(path: string): Dirent[] {
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
     if (vp) return vp.provider.readdir(vp.subpath);
 
-    const node = this.resolveNode(path);
+    const node = this.resolveNode(abs);
     if (node.type !== 'directory') {
       throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
     }
+    this.checkAccess(node, R_OK, path);
 
-    const entries = Array.from(node.children.values()).map((child) => ({
-      name: child.name,
+    // Entry names come from the map key: a hard-linked inode has several names
+    const entries: Dirent[] = Array.from(node.children.entries()).map(([name, child]) => ({
+      name,
       type: child.type,
     }));
 
     // Inject mount point directories that are direct children of the current path
-    const abs = this.toAbsolute(path);
     const prefix = abs === '/' ? '/' : abs + '/';
 
     for (const mount of this.mounts) {
@@ -549,8 +1687,13 @@ export class VFS {
     return entries;
   }
 
+  /**
+   * List a directory with per-entry stats. Symlink entries are reported as
+   * links (lstat semantics), not as their targets.
+   */
   readdirStat(path: string): Array<Dirent & Stat> {
-    const vp = this.getProvider(path);
+    const abs = this.resolveLinks(path);
+    const vp = this.getProvider(abs);
     if (vp) {
       return vp.provider.readdir(vp.subpath).map((d) => {
         const childSubpath = vp.subpath === '/' ? `/${d.name}` : `${vp.subpath}/${d.name}`;
@@ -559,39 +1702,46 @@ export class VFS {
       });
     }
 
-    const node = this.resolveNode(path);
+    const node = this.resolveNode(abs);
     if (node.type !== 'directory') {
       throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
     }
+    this.checkAccess(node, R_OK | X_OK, path);
 
-    return Array.from(node.children.values()).map((child) => {
-      const entry: Dirent & Stat = {
-        name: child.name,
-        type: child.type,
-        size: child.type === 'file' ? (child.storedSize ?? child.data.length) : child.children.size,
-        ctime: child.ctime,
-        mtime: child.mtime,
-        mode: child.mode,
-      };
-      if (child.mime) {
-        entry.mime = child.mime;
-      }
-      return entry;
-    });
+    return Array.from(node.children.entries()).map(([name, child]) => ({
+      name,
+      ...this.toStat(child),
+    }));
   }
 
   /**
    * Recursively remove a directory and all its contents.
+   * Symlinks inside the tree are removed, never followed.
    */
   rmdirRecursive(path: string): void {
-    const node = this.resolveNode(path);
+    const abs = this.resolveLinks(path, false);
+    if (this.getProvider(abs)) {
+      // Empty the directory through the provider, then remove it
+      for (const entry of this.readdir(abs)) {
+        const childPath = abs === '/' ? `/${entry.name}` : `${abs}/${entry.name}`;
+        if (entry.type === 'directory') {
+          this.rmdirRecursive(childPath);
+        } else {
+          this.unlink(childPath);
+        }
+      }
+      this.rmdir(abs);
+      return;
+    }
+
+    const node = this.resolveNode(abs);
     if (node.type !== 'directory') {
       throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
     }
+    this.checkAccess(node, R_OK | X_OK, path);
 
-    const abs = this.toAbsolute(path);
-    for (const child of node.children.values()) {
-      const childPath = abs === '/' ? `/${child.name}` : `${abs}/${child.name}`;
+    for (const [name, child] of node.children) {
+      const childPath = abs === '/' ? `/${name}` : `${abs}/${name}`;
       if (child.type === 'directory') {
         this.rmdirRecursive(childPath);
       } else {
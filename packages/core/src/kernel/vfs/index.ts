@@ -1,6 +1,18 @@
 export { VFS } from './VFS.js';
-export { VFSError, ErrorCode } from './types.js';
-export type { INode, ChunkRef, Stat, Dirent, FileType, ErrorCodeType, VirtualProvider, MountProvider, VFSWatchEvent, VFSWatchListener, VFSEventType } from './types.js';
-export { NativeFsProvider } from './providers/NativeFsProvider.js';
+export { Fifo } from './Fifo.js';
+export type { FifoReader, FifoWriter } from './Fifo.js';
+export { VFSError, ErrorCode, ERRNO, isErrorCode, F_OK, X_OK, W_OK, R_OK } from './types.js';
+export { XATTR_NAME_MAX, XATTR_SIZE_MAX, XATTR_NAMESPACES, MIME_XATTR } from './types.js';
+export type { INode, ChunkRef, Stat, Dirent, FileType, ErrorCodeType, Credentials, VirtualProvider, MountProvider, MountInfo, FsckReport, Quota, FsStats, VFSWatchEvent, VFSWatchListener, VFSWatchBatchListener, VFSWatchOptions, VFSEventType } from './types.js';
+export { NativeFsProvider, loadNodeFs } from './providers/NativeFsProvider.js';
 export type { NativeFsModule } from './providers/NativeFsProvider.js';
+export { ArchiveProvider } from './providers/ArchiveProvider.js';
+export type { ArchiveFormat } from './providers/ArchiveProvider.js';
+export { OverlayProvider } from './providers/OverlayProvider.js';
+export type { OverlayChange } from './providers/OverlayProvider.js';
+export { SubtreeProvider } from './providers/SubtreeProvider.js';
+export { StdioProvider, stdioSubpath } from './providers/StdioProvider.js';
+export type { StdioFd, StdioDevices } from './providers/StdioProvider.js';
+export { MountTypeRegistry, createMountTypes, parseFstab, FSTAB_PATH } from './MountTypeRegistry.js';
+export type { MountType, MountRequest, FstabEntry } from './MountTypeRegistry.js';
 export { getMimeType, getFileCategory, isBinaryMime } from '../../utils/mime.js';
@@ -0,0 +1,208 @@
+import type { VirtualProvider, Stat, Dirent, FileType } from '../types.js';
+import { VFSError, ErrorCode } from '../types.js';
+import type { VFS } from '../VFS.js';
+import { indexTar, indexZip, readerFor, decompressGzip, inflateRaw } from '../../../utils/archive.js';
+import type { ArchiveIndexEntry, ReadAt } from '../../../utils/archive.js';
+import { decode } from '../../../utils/encoding.js';
+import { normalize, dirname } from '../../../utils/path.js';
+
+export type ArchiveFormat = 'tar' | 'tar.gz' | 'zip';
+
+interface ArchiveNode {
+  type: FileType;
+  mode: number;
+  mtime: number;
+  size: number;
+  children?: Map<string, ArchiveNode>;
+  /** Where a file's bytes are in the archive */
+  entry?: ArchiveIndexEntry;
+  /** Contents of a deflated zip entry, inflated when the archive is opened */
+  inflated?: Uint8Array;
+  linkTarget?: string;
+}
+
+const MAX_SYMLINK_HOPS = 40;
+
+/** Recognize an archive from its first bytes. */
+function detectFormat(head: Uint8Array): ArchiveFormat {
+  if (head[0] === 0x1f && head[1] === 0x8b) return 'tar.gz';
+  if (head[0] === 0x50 && head[1] === 0x4b && (head[2] === 3 || head[2] === 5)) return 'zip';
+  if (decode(head.subarray(257, 262)) === 'ustar') return 'tar';
+  throw new VFSError(ErrorCode.EINVAL, 'unrecognized archive format');
+}
+
+/**
+ * A read-only VirtualProvider that serves the contents of a tar, tar.gz or
+ * zip archive.
+ *
+ * Only the headers are read when the archive is opened; each file's bytes
+ * are read from the archive when the file is. An archive in a VFS is read
+ * in place with readRange(), so it should not change while mounted. Gzip
+ * compresses the whole stream, so a .tar.gz is decompressed into memory
+ * once, and so are the contents of deflated zip entries.
+ */
+export class ArchiveProvider implements VirtualProvider {
+  private root: ArchiveNode = { type: 'directory', mode: 0o755, mtime: 0, size: 0, children: new Map() };
+
+  private constructor(private read: ReadAt, readonly format: ArchiveFormat) {}
+
+  /** Open an archive held in memory. */
+  static async fromBytes(data: Uint8Array): Promise<ArchiveProvider> {
+    const format = detectFormat(data.subarray(0, 512));
+    if (format === 'tar.gz') {
+      const tar = await decompressGzip(data);
+      return ArchiveProvider.build(readerFor(tar), tar.length, format);
+    }
+    return ArchiveProvider.build(readerFor(data), data.length, format);
+  }
+
+  /** Open the archive at `path` in `vfs`, reading it in place. */
+  static async fromFile(vfs: VFS, path: string): Promise<ArchiveProvider> {
+    const format = detectFormat(vfs.readRange(path, 0, 512));
+    if (format === 'tar.gz') {
+      const tar = await decompressGzip(vfs.readFile(path));
+      return ArchiveProvider.build(readerFor(tar), tar.length, format);
+    }
+    const read: ReadAt = (position, length) => vfs.readRange(path, position, length);
+    return ArchiveProvider.build(read, vfs.stat(path).size, format);
+  }
+
+  private static async build(read: ReadAt, total: number, format: ArchiveFormat): Promise<ArchiveProvider> {
+    const provider = new ArchiveProvider(read, format);
+    let entries: ArchiveIndexEntry[];
+    try {
+      entries = format === 'zip' ? indexZip(read, total) : indexTar(read, total);
+    } catch (e) {
+      throw new VFSError(ErrorCode.EINVAL, `invalid ${format} archive: ${(e as Error).message}`);
+    }
+
+    const links: Array<[ArchiveNode, string]> = [];
+    for (const entry of entries) {
+      const path = normalize('/' + entry.path);
+      if (path === '/') continue;
+      const node = provider.place(path, entry);
+
+      if (entry.type === 'link') {
+        links.push([node, normalize('/' + entry.linkTarget)]);
+      } else if (entry.type === 'symlink') {
+        // Zip stores the target as the entry's data
+        node.linkTarget = entry.linkTarget ?? decode(read(entry.offset, entry.storedSize));
+      } else if (entry.type === 'file' && entry.method !== 0) {
+        if (entry.method !== 8) {
+          throw new VFSError(ErrorCode.EINVAL, `'${path}': unsupported compression method ${entry.method}`);
+        }
+        node.inflated = await inflateRaw(read(entry.offset, entry.storedSize));
+      }
+    }
+
+    // Hard links share the bytes of the entry they name
+    for (const [node, target] of links) {
+      const source = provider.find(target);
+      if (source?.type !== 'file') continue;
+      Object.assign(node, { type: 'file', size: source.size, entry: source.entry, inflated: source.inflated });
+    }
+    return provider;
+  }
+
+  /** Add `entry` at `path`, creating any parent directories it implies. */
+  private place(path: string, entry: ArchiveIndexEntry): ArchiveNode {
+    let dir = this.root;
+    const parts = path.split('/').filter(Boolean);
+    const name = parts.pop()!;
+    for (const part of parts) {
+      let child = dir.children!.get(part);
+      if (!child || child.type !== 'directory') {
+        child = { type: 'directory', mode: 0o755, mtime: entry.mtime, size: 0, children: new Map() };
+        dir.children!.set(part, child);
+      }
+      dir = child;
+    }
+
+    const type: FileType = entry.type === 'directory' ? 'directory' : entry.type === 'symlink' ? 'symlink' : 'file';
+    const existing = dir.children!.get(name);
+    if (existing && existing.type === 'directory' && type === 'directory') {
+      // A directory entry after one of its files: keep the children
+      existing.mode = entry.mode;
+      existing.mtime = entry.mtime;
+      return existing;
+    }
+    const node: ArchiveNode = { type, mode: entry.mode, mtime: entry.mtime, size: entry.size };
+    if (type === 'directory') node.children = new Map();
+    if (type === 'file') node.entry = entry;
+    dir.children!.set(name, node);
+    return node;
+  }
+
+  /** The node at `path`, following symlinks. Links out of the archive dangle. */
+  private lookup(path: string, hops = 0): ArchiveNode {
+    const parts = path.split('/').filter(Boolean);
+    let node = this.root;
+    let walked = '';
+    for (let i = 0; i < parts.length; i++) {
+      if (node.type !== 'directory') {
+        throw new VFSError(ErrorCode.ENOTDIR, `'${walked}': not a directory`);
+      }
+      const child = node.children!.get(parts[i]);
+      if (!child) {
+        throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
+      }
+      walked += '/' + parts[i];
+      node = child;
+
+      if (node.type === 'symlink') {
+        if (hops >= MAX_SYMLINK_HOPS) {
+          throw new VFSError(ErrorCode.ELOOP, `'${path}': too many levels of symbolic links`);
+        }
+        const target = node.linkTarget!;
+        const rest = parts.slice(i + 1).join('/');
+        const resolved = normalize(`${target.startsWith('/') ? '' : dirname(walked)}/${target}/${rest}`);
+        return this.lookup(resolved, hops + 1);
+      }
+    }
+    return node;
+  }
+
+  private find(path: string): ArchiveNode | null {
+    try {
+      return this.lookup(path);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Read-only, so a fork can share it. */
+  clone(): ArchiveProvider {
+    return this;
+  }
+
+  readFile(subpath: string): Uint8Array {
+    const node = this.lookup(subpath);
+    if (node.type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${subpath}': is a directory`);
+    }
+    if (node.inflated) return node.inflated.slice();
+    if (!node.entry) return new Uint8Array(0);
+    return this.read(node.entry.offset, node.entry.storedSize).slice();
+  }
+
+  readFileString(subpath: string): string {
+    return decode(this.readFile(subpath));
+  }
+
+  exists(subpath: string): boolean {
+    return this.find(subpath) !== null;
+  }
+
+  stat(subpath: string): Stat {
+    const node = this.lookup(subpath);
+    return { type: node.type, size: node.size, ctime: node.mtime, mtime: node.mtime, mode: node.mode };
+  }
+
+  readdir(subpath: string): Dirent[] {
+    const node = this.lookup(subpath);
+    if (node.type !== 'directory') {
+      throw new VFSError(ErrorCode.ENOTDIR, `'${subpath}': not a directory`);
+    }
+    return Array.from(node.children!, ([name, child]) => ({ name, type: child.type }));
+  }
+}
@@ -1,19 +1,34 @@
 import type { VirtualProvider, Stat, Dirent } from '../types.js';
 import { VFSError, ErrorCode } from '../types.js';
 import { encode } from '../../../utils/encoding.js';
+import { STDIO_NAMES } from './StdioProvider.js';
 
-const DEVICE_NAMES = ['null', 'zero', 'random', 'urandom', 'clipboard'];
+const DEVICE_NAMES = ['null', 'zero', 'full', 'random', 'urandom', 'clipboard', ...STDIO_NAMES];
 
+/**
+ * The system devices in /dev. The per-process ones (stdin, stdout, stderr,
+ * fd, tty) are listed here but only usable through a VFS made with
+ * withStdio(), which routes them to the process's own streams.
+ */
 export class DevProvider implements VirtualProvider {
   private clipboardCache = '';
 
+  /** Reject use of a per-process device outside of any process. */
+  private checkNotStdio(name: string, subpath: string): void {
+    if (STDIO_NAMES.includes(name.split('/')[0])) {
+      throw new VFSError(ErrorCode.ENXIO, `'/dev${subpath}': no such device or address`);
+    }
+  }
+
   readFile(subpath: string): Uint8Array {
     const name = subpath.startsWith('/') ? subpath.slice(1) : subpath;
+    this.checkNotStdio(name, subpath);
 
     switch (name) {
       case 'null':
         return new Uint8Array(0);
       case 'zero':
+      case 'full':
         return new Uint8Array(1024);
       case 'random':
       case 'urandom': {
@@ -32,11 +47,13 @@ export class DevProvider implements VirtualProvider {
 
   readFileString(subpath: string): string {
     const name = subpath.startsWith('/') ? subpath.slice(1) : subpath;
+    this.checkNotStdio(name, subpath);
 
     switch (name) {
       case 'null':
         return '';
       case 'zero':
+      case 'full':
         return '\0'.repeat(1024);
       case 'random':
       case 'urandom': {
@@ -55,10 +72,16 @@ export class DevProvider implements VirtualProvider {
 
   writeFile(subpath: string, content: string | Uint8Array): void {
     const name = subpath.startsWith('/') ? subpath.slice(1) : subpath;
+    this.checkNotStdio(name, subpath);
 
     switch (name) {
+      case 'full':
+        throw new VFSError(ErrorCode.ENOSPC, `'/dev/full': no space left on device`);
       case 'null':
-        // Discard
+      case 'zero':
+      case 'random':
+      case 'urandom':
+        // Discard, as on Linux
         return;
       case 'clipboard': {
         const text = typeof content === 'string'
@@ -72,7 +95,7 @@ export class DevProvider implements VirtualProvider {
         return;
       }
       default:
-        throw new VFSError(ErrorCode.EINVAL, `'/dev${subpath}': cannot write to device`);
+        throw new VFSError(ErrorCode.ENOENT, `'/dev${subpath}': no such device`);
     }
   }
 
@@ -87,8 +110,9 @@ export class DevProvider implements VirtualProvider {
       throw new VFSError(ErrorCode.ENOENT, `'/dev${subpath}': no such device`);
     }
 
-    if (subpath === '/') {
-      return { type: 'directory', size: DEVICE_NAMES.length, ctime: 0, mtime: 0, mode: 0o755 };
+    if (subpath === '/' || subpath === '/fd') {
+      const size = subpath === '/' ? DEVICE_NAMES.length : 0;
+      return { type: 'directory', size, ctime: 0, mtime: 0, mode: subpath === '/' ? 0o755 : 0o500 };
     }
 
     return { type: 'file', size: 0, ctime: 0, mtime: 0, mode: 0o666 };
@@ -96,8 +120,9 @@ export class DevProvider implements VirtualProvider {
 
   readdir(subpath: string): Dirent[] {
     if (subpath === '/') {
-      return DEVICE_NAMES.map((name) => ({ name, type: 'file' as const }));
+      return DEVICE_NAMES.map((name) => ({ name, type: name === 'fd' ? 'directory' as const : 'file' as const }));
     }
+    if (subpath === '/fd') return [];
 
     throw new VFSError(ErrorCode.ENOTDIR, `'/dev${subpath}': not a directory`);
   }
@@ -1,5 +1,5 @@
 import type { MountProvider, Stat, Dirent } from '../types.js';
-import { VFSError, ErrorCode } from '../types.js';
+import { VFSError, ErrorCode, isErrorCode } from '../types.js';
 
 /**
  * Minimal interface for the subset of Node.js `fs` sync methods we need.
@@ -18,11 +18,25 @@ export interface NativeFsModule {
   copyFileSync(src: string, dest: string): void;
 }
 
+/**
+ * The host's `node:fs`, or undefined outside Node.js. A dynamic require
+ * works at runtime but avoids static analysis by bundlers.
+ */
+export function loadNodeFs(): NativeFsModule | undefined {
+  try {
+    const mod = 'node:fs';
+    return (globalThis as unknown as Record<string, Function>).require?.(mod) as NativeFsModule | undefined;
+  } catch {
+    // globalThis.require may not exist
+    return undefined;
+  }
+}
+
 /**
  * A MountProvider that delegates to a native filesystem via sync Node.js APIs.
  *
  * All subpaths are sandboxed to `rootPath` -- any attempt to escape via `..`
- * is rejected with EINVAL.
+ * is rejected with EACCES.
  */
 export class NativeFsProvider implements MountProvider {
   private rootPath: string;
@@ -50,7 +64,7 @@ export class NativeFsProvider implements MountProvider {
       if (part === '.') continue;
       if (part === '..') {
         if (resolved.length === 0) {
-          throw new VFSError(ErrorCode.EINVAL, `path '${subpath}' escapes mount root`);
+          throw new VFSError(ErrorCode.EACCES, `path '${subpath}' escapes mount root`);
         }
         resolved.pop();
       } else {
@@ -64,10 +78,15 @@ export class NativeFsProvider implements MountProvider {
 
   private assertWritable(): void {
     if (this.readOnly) {
-      throw new VFSError(ErrorCode.EINVAL, 'filesystem is mounted read-only');
+      throw new VFSError(ErrorCode.EROFS, 'filesystem is mounted read-only');
     }
   }
 
+  /** Only a read-only mount can be shared with a fork; a writable one would write the host for both. */
+  clone(): NativeFsProvider | null {
+    return this.readOnly ? this : null;
+  }
+
   // ─── Read operations ───
 
   readFile(subpath: string): Uint8Array {
@@ -187,12 +206,8 @@ export class NativeFsProvider implements MountProvider {
   private wrapError(err: unknown, subpath: string): VFSError {
     if (err instanceof VFSError) return err;
     const msg = err instanceof Error ? err.message : String(err);
+    // Host errors keep their code when we have one for it
     const code = (err as { code?: string })?.code;
-    if (code === 'ENOENT') return new VFSError(ErrorCode.ENOENT, `'${subpath}': ${msg}`);
-    if (code === 'EEXIST') return new VFSError(ErrorCode.EEXIST, `'${subpath}': ${msg}`);
-    if (code === 'EISDIR') return new VFSError(ErrorCode.EISDIR, `'${subpath}': ${msg}`);
-    if (code === 'ENOTDIR') return new VFSError(ErrorCode.ENOTDIR, `'${subpath}': ${msg}`);
-    if (code === 'ENOTEMPTY') return new VFSError(ErrorCode.ENOTEMPTY, `'${subpath}': ${msg}`);
-    return new VFSError(ErrorCode.EINVAL, `'${subpath}': ${msg}`);
+    return new VFSError(isErrorCode(code) ? code : ErrorCode.EINVAL, `'${subpath}': ${msg}`);
   }
 }
@@ -0,0 +1,264 @@
+import type { VirtualProvider, MountProvider, Stat, Dirent, FileType } from '../types.js';
+import { VFSError, ErrorCode } from '../types.js';
+import { VFS } from '../VFS.js';
+import { normalize, dirname, join } from '../../../utils/path.js';
+
+export interface OverlayChange {
+  type: 'added' | 'modified' | 'deleted';
+  /** Path relative to the mount root, e.g. "/src/index.ts" */
+  path: string;
+  /** Type of the entry in the upper layer, or in the lower one if deleted */
+  kind: FileType;
+}
+
+/**
+ * A MountProvider that stacks a writable in-memory upper layer over a
+ * read-only lower one, like overlayfs.
+ *
+ * Reads see the upper layer first. Writes go to the upper layer, copying
+ * parent directories up as needed. Deleting a lower entry records a whiteout
+ * that hides it, and everything below it, from then on. The lower layer is
+ * never written to, so diff() lists every change made through the mount.
+ */
+export class OverlayProvider implements MountProvider {
+  private upper = new VFS();
+  /** Paths at and below which the lower layer is hidden */
+  private whiteouts = new Set<string>();
+
+  constructor(readonly lower: VirtualProvider) {}
+
+  // ─── Layer lookup ───
+
+  /** Is `path` visible in the lower layer, i.e. not under a whiteout? */
+  private inLower(path: string): boolean {
+    let prefix = '';
+    for (const part of path.split('/').filter(Boolean)) {
+      prefix += '/' + part;
+      if (this.whiteouts.has(prefix)) return false;
+    }
+    return this.lower.exists(path);
+  }
+
+  /** The layer `path` is read from; ENOENT if neither has it. */
+  private layer(path: string): VirtualProvider {
+    if (this.upper.exists(path)) return this.upper;
+    if (this.inLower(path)) return this.lower;
+    throw new VFSError(ErrorCode.ENOENT, `'${path}': no such file or directory`);
+  }
+
+  /**
+   * Make sure directory `path` exists in the upper layer, copying it and its
+   * ancestors up from the lower layer (with their modes) if needed.
+   */
+  private copyUp(path: string): void {
+    if (this.upper.exists(path)) {
+      if (this.upper.stat(path).type !== 'directory') {
+        throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
+      }
+      return;
+    }
+    const lower = this.layer(path).stat(path);
+    if (lower.type !== 'directory') {
+      throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
+    }
+    this.copyUp(dirname(path));
+    this.upper.mkdir(path);
+    this.upper.chmod(path, lower.mode);
+  }
+
+  /** Hide the lower entry at `path`; whiteouts below it become redundant. */
+  private whiteout(path: string): void {
+    for (const w of this.whiteouts) {
+      if (w.startsWith(path + '/')) this.whiteouts.delete(w);
+    }
+    this.whiteouts.add(path);
+  }
+
+  /** For a fork: the upper layer diverges copy-on-write, the read-only lower one is shared. */
+  clone(): OverlayProvider {
+    const copy = new OverlayProvider(this.lower);
+    copy.upper = this.upper.clone();
+    copy.whiteouts = new Set(this.whiteouts);
+    return copy;
+  }
+
+  // ─── Read operations ───
+
+  readFile(subpath: string): Uint8Array {
+    const path = normalize('/' + subpath);
+    return this.layer(path).readFile(path);
+  }
+
+  readFileString(subpath: string): string {
+    const path = normalize('/' + subpath);
+    return this.layer(path).readFileString(path);
+  }
+
+  exists(subpath: string): boolean {
+    const path = normalize('/' + subpath);
+    return this.upper.exists(path) || this.inLower(path);
+  }
+
+  stat(subpath: string): Stat {
+    const path = normalize('/' + subpath);
+    return this.layer(path).stat(path);
+  }
+
+  readdir(subpath: string): Dirent[] {
+    const path = normalize('/' + subpath);
+    if (this.stat(path).type !== 'directory') {
+      throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
+    }
+
+    const entries = new Map<string, Dirent>();
+    if (this.inLower(path) && this.lower.stat(path).type === 'directory') {
+      for (const entry of this.lower.readdir(path)) {
+        if (!this.whiteouts.has(join(path, entry.name))) entries.set(entry.name, entry);
+      }
+    }
+    if (this.upper.exists(path)) {
+      for (const entry of this.upper.readdir(path)) entries.set(entry.name, entry);
+    }
+    return Array.from(entries.values());
+  }
+
+  // ─── Write operations ───
+
+  writeFile(subpath: string, content: string | Uint8Array): void {
+    const path = normalize('/' + subpath);
+    if (this.exists(path) && this.stat(path).type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
+    }
+    this.copyUp(dirname(path));
+    this.upper.writeFile(path, content);
+  }
+
+  unlink(subpath: string): void {
+    const path = normalize('/' + subpath);
+    if (this.stat(path).type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${path}': is a directory`);
+    }
+    if (this.upper.exists(path)) this.upper.unlink(path);
+    if (this.inLower(path)) this.whiteout(path);
+  }
+
+  mkdir(subpath: string, options?: { recursive?: boolean }): void {
+    const path = normalize('/' + subpath);
+    if (this.exists(path)) {
+      if (options?.recursive && this.stat(path).type === 'directory') return;
+      throw new VFSError(ErrorCode.EEXIST, `'${path}': file exists`);
+    }
+    const parent = dirname(path);
+    if (options?.recursive && !this.exists(parent)) this.mkdir(parent, options);
+    this.copyUp(parent);
+    // A whiteout at `path` stays, so the new directory starts out empty
+    this.upper.mkdir(path);
+  }
+
+  rmdir(subpath: string): void {
+    const path = normalize('/' + subpath);
+    if (this.stat(path).type !== 'directory') {
+      throw new VFSError(ErrorCode.ENOTDIR, `'${path}': not a directory`);
+    }
+    if (this.readdir(path).length > 0) {
+      throw new VFSError(ErrorCode.ENOTEMPTY, `'${path}': directory not empty`);
+    }
+    if (this.upper.exists(path)) this.upper.rmdir(path);
+    if (this.inLower(path)) this.whiteout(path);
+  }
+
+  /** Implemented as copy-up then delete, since lower entries cannot move. */
+  rename(oldSubpath: string, newSubpath: string): void {
+    const oldPath = normalize('/' + oldSubpath);
+    const newPath = normalize('/' + newSubpath);
+    const type = this.stat(oldPath).type;
+    if (oldPath === newPath) return;
+    if (newPath.startsWith(oldPath + '/')) {
+      throw new VFSError(ErrorCode.EINVAL, `'${newPath}': cannot move a directory into itself`);
+    }
+
+    if (this.exists(newPath)) {
+      const target = this.stat(newPath).type;
+      if (type === 'directory' && target !== 'directory') {
+        throw new VFSError(ErrorCode.ENOTDIR, `'${newPath}': not a directory`);
+      }
+      if (type !== 'directory' && target === 'directory') {
+        throw new VFSError(ErrorCode.EISDIR, `'${newPath}': is a directory`);
+      }
+      if (target === 'directory') this.rmdir(newPath);
+    }
+    this.copyTree(oldPath, newPath);
+    this.removeTree(oldPath);
+  }
+
+  copyFile(srcSubpath: string, destSubpath: string): void {
+    const src = normalize('/' + srcSubpath);
+    if (this.stat(src).type === 'directory') {
+      throw new VFSError(ErrorCode.EISDIR, `'${src}': is a directory`);
+    }
+    this.writeFile(destSubpath, this.readFile(src));
+  }
+
+  private copyTree(src: string, dest: string): void {
+    const { type, mode } = this.stat(src);
+    if (type === 'directory') {
+      this.mkdir(dest);
+      for (const entry of this.readdir(src)) {
+        this.copyTree(join(src, entry.name), join(dest, entry.name));
+      }
+    } else {
+      this.writeFile(dest, this.readFile(src));
+    }
+    this.upper.chmod(dest, mode);
+  }
+
+  private removeTree(path: string): void {
+    if (this.stat(path).type === 'directory') {
+      for (const entry of this.readdir(path)) this.removeTree(join(path, entry.name));
+      this.rmdir(path);
+    } else {
+      this.unlink(path);
+    }
+  }
+
+  // ─── Changes ───
+
+  /**
+   * Everything changed through the overlay relative to the lower layer,
+   * sorted by path. Directories copied up only to hold a change are not
+   * listed; a deleted directory is listed once, without its contents.
+   */
+  diff(): OverlayChange[] {
+    const changes: OverlayChange[] = [];
+
+    const walkUpper = (dir: string): void => {
+      for (const entry of this.upper.readdir(dir)) {
+        const path = join(dir, entry.name);
+        const kind = this.upper.stat(path).type;
+        const before = this.lower.exists(path) ? this.lower.stat(path).type : null;
+        if (!before) {
+          changes.push({ type: 'added', path, kind });
+        } else if (kind !== 'directory' || before !== 'directory') {
+          changes.push({ type: 'modified', path, kind });
+        }
+        if (kind === 'directory') walkUpper(path);
+      }
+    };
+
+    // Lower entries under a whiteout that the upper layer has not replaced
+    const walkDeleted = (path: string): void => {
+      const kind = this.lower.stat(path).type;
+      if (!this.upper.exists(path)) {
+        changes.push({ type: 'deleted', path, kind });
+      } else if (kind === 'directory' && this.upper.stat(path).type === 'directory') {
+        for (const entry of this.lower.readdir(path)) walkDeleted(join(path, entry.name));
+      }
+    };
+
+    walkUpper('/');
+    for (const path of this.whiteouts) {
+      if (this.lower.exists(path)) walkDeleted(path);
+    }
+    return changes.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+}
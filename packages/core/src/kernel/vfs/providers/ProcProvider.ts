@@ -1,11 +1,30 @@
 import type { VirtualProvider, Stat, Dirent } from '../types.js';
 import { VFSError, ErrorCode } from '../types.js';
 import { encode } from '../../../utils/encoding.js';
+import type { ProcessTable, Process } from '../../process/index.js';
+import type { VFS } from '../VFS.js';
+
+const PROCESS_FILES = ['cmdline', 'status', 'cwd', 'environ'];
+
+const STATE_NAMES: Record<Process['state'], string> = {
+  running: 'R (running)',
+  stopped: 'T (stopped)',
+  zombie: 'Z (zombie)',
+};
+
+/** Escape a /proc/mounts field the way the kernel does (octal for whitespace and backslash). */
+function escapeMountField(field: string): string {
+  return field.replace(/[ \t\n\\]/g, (ch) => '\\' + ch.charCodeAt(0).toString(8).padStart(3, '0'));
+}
 
 export class ProcProvider implements VirtualProvider {
   private generators = new Map<string, () => string>();
 
-  constructor() {
+  /**
+   * @param processes Backs the per-process directories
+   * @param vfs The filesystem whose mount table /proc/mounts lists
+   */
+  constructor(private processes?: ProcessTable, vfs?: VFS) {
     this.generators.set('cpuinfo', () => {
       const cores = typeof navigator !== 'undefined'
         ? navigator.hardwareConcurrency ?? 1
@@ -23,6 +42,11 @@ export class ProcProvider implements VirtualProvider {
     this.generators.set('meminfo', () => {
       const perf = typeof performance !== 'undefined' ? performance : null;
       const memory = (perf as unknown as { memory?: { jsHeapSizeLimit: number; usedJSHeapSize: number; totalJSHeapSize: number } })?.memory;
+      // File contents live in memory, as on tmpfs: Shmem is what the tree
+      // holds and Cached is the content store of large-file chunks
+      const fs = vfs?.statfs('/');
+      const shmemKB = Math.ceil((fs?.bytes ?? 0) / 1024);
+      const cachedKB = Math.ceil((vfs?.contentStore.size ?? 0) / 1024);
       if (memory) {
         const totalKB = Math.floor(memory.jsHeapSizeLimit / 1024);
         const usedKB = Math.floor(memory.usedJSHeapSize / 1024);
@@ -32,13 +56,19 @@ export class ProcProvider implements VirtualProvider {
           `MemFree:        ${freeKB} kB`,
           `MemUsed:        ${usedKB} kB`,
           `HeapTotal:      ${Math.floor(memory.totalJSHeapSize / 1024)} kB`,
+          `Cached:         ${cachedKB} kB`,
+          `Shmem:          ${shmemKB} kB`,
           '',
         ].join('\n');
       }
+      // Without heap figures, memory is the filesystem's quota (default 2 GB)
+      const totalKB = fs?.quota.bytes !== undefined ? Math.floor(fs.quota.bytes / 1024) : 2097152;
       return [
-        'MemTotal:       2097152 kB',
-        'MemFree:        1048576 kB',
-        'MemUsed:        1048576 kB',
+        `MemTotal:       ${totalKB} kB`,
+        `MemFree:        ${Math.max(0, totalKB - shmemKB)} kB`,
+        `MemUsed:        ${shmemKB} kB`,
+        `Cached:         ${cachedKB} kB`,
+        `Shmem:          ${shmemKB} kB`,
         '',
       ].join('\n');
     });
@@ -50,6 +80,12 @@ export class ProcProvider implements VirtualProvider {
       return `${seconds} ${seconds}\n`;
     });
 
+    if (vfs) {
+      this.generators.set('mounts', () => vfs.listMounts()
+        .map((m) => `${escapeMountField(m.source)} ${escapeMountField(m.path)} ${m.type} ${m.options.join(',')} 0 0\n`)
+        .join(''));
+    }
+
     this.generators.set('version', () => {
       const ua = typeof navigator !== 'undefined' ? navigator.userAgent : 'Node.js';
       return `Lifo 1.0.0 (${ua})\n`;
@@ -76,6 +112,42 @@ export class ProcProvider implements VirtualProvider {
     return 'Network information not available\n';
   }
 
+  /**
+   * Split '/<pid>' or '/<pid>/<file>' into the live process and file name.
+   * Returns null for paths outside the per-process directories.
+   */
+  private matchProcess(subpath: string): { proc: Process; file: string } | null {
+    const m = /^\/(\d+)(?:\/([^/]+))?$/.exec(subpath);
+    if (!m || !this.processes) return null;
+    const proc = this.processes.get(Number(m[1]));
+    if (!proc) return null;
+    return { proc, file: m[2] ?? '' };
+  }
+
+  private getProcessFile(proc: Process, file: string): string {
+    switch (file) {
+      case 'cmdline':
+        return proc.argv.map((a) => a + '\0').join('');
+      case 'environ':
+        return Object.entries(proc.env).map(([k, v]) => `${k}=${v}\0`).join('');
+      case 'cwd':
+        // A symlink on Linux; mount providers cannot expose links, so
+        // this is a file containing the path instead
+        return proc.cwd + '\n';
+      case 'status':
+        return [
+          `Name:\t${proc.argv[0] ?? ''}`,
+          `State:\t${STATE_NAMES[proc.state]}`,
+          `Pid:\t${proc.pid}`,
+          `PPid:\t${proc.ppid}`,
+          // Real, effective, saved and filesystem ids are always the same here
+          `Uid:\t${proc.uid}\t${proc.uid}\t${proc.uid}\t${proc.uid}`,
+          '',
+        ].join('\n');
+    }
+    throw new VFSError(ErrorCode.ENOENT, `'/proc/${proc.pid}/${file}': no such file`);
+  }
+
   private generate(subpath: string): string {
     // Normalize: '/cpuinfo' -> 'cpuinfo'
     const name = subpath.startsWith('/') ? subpath.slice(1) : subpath;
@@ -84,6 +156,14 @@ export class ProcProvider implements VirtualProvider {
       return this.getNetInfo();
     }
 
+    const match = this.matchProcess(subpath);
+    if (match) {
+      if (!match.file) {
+        throw new VFSError(ErrorCode.EISDIR, `'/proc${subpath}': is a directory`);
+      }
+      return this.getProcessFile(match.proc, match.file);
+    }
+
     const gen = this.generators.get(name);
     if (!gen) {
       throw new VFSError(ErrorCode.ENOENT, `'/proc${subpath}': no such file`);
@@ -102,6 +182,8 @@ export class ProcProvider implements VirtualProvider {
   exists(subpath: string): boolean {
     if (subpath === '/') return true;
     if (this.isNetPath(subpath)) return true;
+    const match = this.matchProcess(subpath);
+    if (match) return !match.file || PROCESS_FILES.includes(match.file);
     const name = subpath.startsWith('/') ? subpath.slice(1) : subpath;
     return this.generators.has(name);
   }
@@ -115,6 +197,12 @@ export class ProcProvider implements VirtualProvider {
       return { type: 'directory', size: 0, ctime: 0, mtime: Date.now(), mode: 0o555 };
     }
 
+    const match = this.matchProcess(subpath);
+    if (match && !match.file) {
+      const { startTime } = match.proc;
+      return { type: 'directory', size: 0, ctime: startTime, mtime: startTime, mode: 0o555 };
+    }
+
     const content = this.generate(subpath);
     return {
       type: 'file',
@@ -132,6 +220,9 @@ export class ProcProvider implements VirtualProvider {
         entries.push({ name, type: 'file' });
       }
       entries.push({ name: 'net', type: 'directory' });
+      for (const proc of this.processes?.list() ?? []) {
+        entries.push({ name: String(proc.pid), type: 'directory' });
+      }
       return entries;
     }
 
@@ -139,6 +230,11 @@ export class ProcProvider implements VirtualProvider {
       return [{ name: 'info', type: 'file' }];
     }
 
+    const match = this.matchProcess(subpath);
+    if (match && !match.file) {
+      return PROCESS_FILES.map((name) => ({ name, type: 'file' as const }));
+    }
+
     throw new VFSError(ErrorCode.ENOTDIR, `'/proc${subpath}': not a directory`);
   }
 }
@@ -0,0 +1,118 @@
+import type { VirtualProvider, Stat, Dirent } from '../types.js';
+import { VFSError, ErrorCode } from '../types.js';
+import { encode, decode } from '../../../utils/encoding.js';
+
+/** One of a process's fds, as /dev/fd/N reads and writes it. */
+export interface StdioFd {
+  /**
+   * Everything that can be read from the fd without waiting, or null when
+   * reading would have to wait (EAGAIN). Absent for fds not open for reading.
+   */
+  read?(): Uint8Array | null;
+  /** Absent for fds not open for writing. */
+  write?(data: Uint8Array): void;
+}
+
+export interface StdioDevices {
+  /** Open fds by number; 0, 1 and 2 back /dev/stdin, /dev/stdout and /dev/stderr */
+  fds: Map<number, StdioFd>;
+  /** The controlling terminal; absent when there is none, e.g. for background jobs */
+  tty?: StdioFd;
+}
+
+/** Entries of /dev that belong to the calling process rather than to the system. */
+export const STDIO_NAMES = ['stdin', 'stdout', 'stderr', 'fd', 'tty'];
+
+const STDIO_FDS: Record<string, number> = { stdin: 0, stdout: 1, stderr: 2 };
+
+/** The part of `abs` below /dev if it names a per-process device, else null. */
+export function stdioSubpath(abs: string): string | null {
+  const match = /^\/dev(\/(stdin|stdout|stderr|tty|fd)(\/[^/]+)?)$/.exec(abs);
+  if (!match || (match[3] && match[2] !== 'fd')) return null;
+  return match[1];
+}
+
+/**
+ * /dev/stdin, /dev/stdout, /dev/stderr, /dev/fd/N and /dev/tty for one
+ * process. A VFS made with withStdio() routes those paths here, so each
+ * command sees its own streams and terminal.
+ */
+export class StdioProvider implements VirtualProvider {
+  constructor(private devices: StdioDevices) {}
+
+  /** The fd or terminal `subpath` names; null for the /fd directory itself. */
+  private lookup(subpath: string): StdioFd | null {
+    if (subpath === '/fd') return null;
+    if (subpath === '/tty') {
+      if (!this.devices.tty) {
+        throw new VFSError(ErrorCode.ENXIO, `'/dev/tty': no such device or address`);
+      }
+      return this.devices.tty;
+    }
+
+    const name = subpath.slice(1);
+    const fd = name in STDIO_FDS ? STDIO_FDS[name] : /^\/fd\/\d+$/.test(subpath) ? Number(subpath.slice(4)) : -1;
+    const file = this.devices.fds.get(fd);
+    if (!file) {
+      throw new VFSError(name in STDIO_FDS ? ErrorCode.ENXIO : ErrorCode.ENOENT, `'/dev${subpath}': no such device`);
+    }
+    return file;
+  }
+
+  readFile(subpath: string): Uint8Array {
+    const file = this.lookup(subpath);
+    if (!file) {
+      throw new VFSError(ErrorCode.EISDIR, `'/dev${subpath}': is a directory`);
+    }
+    if (!file.read) {
+      throw new VFSError(ErrorCode.EBADF, `'/dev${subpath}': not open for reading`);
+    }
+    const data = file.read();
+    if (data === null) {
+      throw new VFSError(ErrorCode.EAGAIN, `'/dev${subpath}': resource temporarily unavailable`);
+    }
+    return data;
+  }
+
+  readFileString(subpath: string): string {
+    return decode(this.readFile(subpath));
+  }
+
+  writeFile(subpath: string, content: string | Uint8Array): void {
+    const file = this.lookup(subpath);
+    if (!file) {
+      throw new VFSError(ErrorCode.EISDIR, `'/dev${subpath}': is a directory`);
+    }
+    if (!file.write) {
+      throw new VFSError(ErrorCode.EBADF, `'/dev${subpath}': not open for writing`);
+    }
+    file.write(typeof content === 'string' ? encode(content) : content);
+  }
+
+  exists(subpath: string): boolean {
+    try {
+      this.lookup(subpath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  stat(subpath: string): Stat {
+    const file = this.lookup(subpath);
+    if (!file) {
+      return { type: 'directory', size: this.devices.fds.size, ctime: 0, mtime: 0, mode: 0o500 };
+    }
+    const mode = (file.read ? 0o400 : 0) | (file.write ? 0o200 : 0);
+    return { type: 'file', size: 0, ctime: 0, mtime: 0, mode };
+  }
+
+  readdir(subpath: string): Dirent[] {
+    if (subpath !== '/fd') {
+      throw new VFSError(ErrorCode.ENOTDIR, `'/dev${subpath}': not a directory`);
+    }
+    return Array.from(this.devices.fds.keys())
+      .sort((a, b) => a - b)
+      .map((fd) => ({ name: String(fd), type: 'file' as const }));
+  }
+}
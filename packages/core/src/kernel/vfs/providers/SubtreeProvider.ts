@@ -0,0 +1,49 @@
+import type { VirtualProvider, Stat, Dirent, FsStats } from '../types.js';
+import type { VFS } from '../VFS.js';
+import { normalize } from '../../../utils/path.js';
+
+/**
+ * A read-only view of a directory in another VFS, e.g. to use as the lower
+ * layer of an OverlayProvider.
+ */
+export class SubtreeProvider implements VirtualProvider {
+  private root: string;
+
+  constructor(private vfs: VFS, root: string) {
+    const abs = normalize(root);
+    this.root = abs === '/' ? '' : abs;
+  }
+
+  private resolve(subpath: string): string {
+    return subpath === '/' ? this.root || '/' : this.root + subpath;
+  }
+
+  /** Read-only, so a fork can share it. */
+  clone(): SubtreeProvider {
+    return this;
+  }
+
+  readFile(subpath: string): Uint8Array {
+    return this.vfs.readFile(this.resolve(subpath));
+  }
+
+  readFileString(subpath: string): string {
+    return this.vfs.readFileString(this.resolve(subpath));
+  }
+
+  exists(subpath: string): boolean {
+    return this.vfs.exists(this.resolve(subpath));
+  }
+
+  stat(subpath: string): Stat {
+    return this.vfs.stat(this.resolve(subpath));
+  }
+
+  readdir(subpath: string): Dirent[] {
+    return this.vfs.readdir(this.resolve(subpath));
+  }
+
+  statfs(subpath: string): FsStats {
+    return this.vfs.statfs(this.resolve(subpath));
+  }
+}
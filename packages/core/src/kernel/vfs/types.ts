@@ -1,6 +1,8 @@
-export type FileType = 'file' | 'directory';
+/** 'fifo' is a named pipe, made by mkfifo(). */
+export type FileType = 'file' | 'directory' | 'symlink' | 'fifo';
 
-export type VFSEventType = 'create' | 'modify' | 'delete' | 'rename';
+/** 'attrib' is a change to mode, owner or times only, not to contents. */
+export type VFSEventType = 'create' | 'modify' | 'delete' | 'rename' | 'attrib';
 
 export interface VFSWatchEvent {
   type: VFSEventType;
@@ -10,6 +12,22 @@ export interface VFSWatchEvent {
 }
 
 export type VFSWatchListener = (event: VFSWatchEvent) => void;
+export type VFSWatchBatchListener = (events: VFSWatchEvent[]) => void;
+
+export interface VFSWatchOptions {
+  /** Report changes anywhere below the path, not just to its entries (default true) */
+  recursive?: boolean;
+  /**
+   * Globs a changed path must match. A pattern with a slash is matched
+   * against the path relative to the watched one, any other against the
+   * file name.
+   */
+  include?: string[];
+  /** Globs, as for `include`, that drop a change */
+  exclude?: string[];
+  /** Event types to report (default all) */
+  events?: VFSEventType[];
+}
 
 export interface ChunkRef {
   hash: string;
@@ -28,6 +46,11 @@ export interface INode {
   blobRef?: string;         // content-hash key into BlobStore (small files)
   chunks?: ChunkRef[];      // chunk manifest for large files (>= 1MB)
   storedSize?: number;      // authoritative size when chunked (data is empty)
+  target?: string;          // link target, verbatim as passed to symlink() (symlinks only)
+  nlink?: number;           // hard link count (files only; absent means 1)
+  uid?: number;             // owner (absent means 0, root)
+  gid?: number;             // group (absent means 0, root)
+  xattrs?: Map<string, Uint8Array>; // extended attributes (absent means none)
 }
 
 export interface Stat {
@@ -37,8 +60,38 @@ export interface Stat {
   mtime: number;
   mode: number;
   mime?: string;
+  ino?: number;             // inode number, stable for the lifetime of the VFS
+  nlink?: number;           // number of hard links
+  uid?: number;             // owner user id
+  gid?: number;             // owner group id
 }
 
+/** Identity that VFS permission checks are made against. uid 0 is root. */
+export interface Credentials {
+  uid: number;
+  gid: number;
+  groups?: number[];        // supplementary group ids
+}
+
+// access() modes, as in POSIX <unistd.h>
+export const F_OK = 0;
+export const X_OK = 1;
+export const W_OK = 2;
+export const R_OK = 4;
+
+// Extended attribute limits, as on Linux <linux/limits.h>
+export const XATTR_NAME_MAX = 255;
+export const XATTR_SIZE_MAX = 65536;
+
+/** Namespaces an extended attribute name may start with. */
+export const XATTR_NAMESPACES = ['user.', 'trusted.', 'security.'] as const;
+
+/**
+ * Extended attribute that overrides the MIME type VFS guesses from a file's
+ * extension (stat().mime), as in the freedesktop.org shared MIME spec.
+ */
+export const MIME_XATTR = 'user.mime_type';
+
 export interface Dirent {
   name: string;
   type: FileType;
@@ -51,10 +104,63 @@ export const ErrorCode = {
   EISDIR: 'EISDIR',
   ENOTEMPTY: 'ENOTEMPTY',
   EINVAL: 'EINVAL',
+  EPERM: 'EPERM',
+  EACCES: 'EACCES',
+  ELOOP: 'ELOOP',
+  EBADF: 'EBADF',
+  EROFS: 'EROFS',
+  EBUSY: 'EBUSY',
+  EXDEV: 'EXDEV',
+  ENODEV: 'ENODEV',
+  ENAMETOOLONG: 'ENAMETOOLONG',
+  ENOSPC: 'ENOSPC',
+  EMFILE: 'EMFILE',
+  ESPIPE: 'ESPIPE',
+  EPIPE: 'EPIPE',
+  ENXIO: 'ENXIO',
+  EAGAIN: 'EAGAIN',
+  ENODATA: 'ENODATA',
+  ENOTSUP: 'ENOTSUP',
+  ERANGE: 'ERANGE',
+  E2BIG: 'E2BIG',
 } as const;
 
 export type ErrorCodeType = (typeof ErrorCode)[keyof typeof ErrorCode];
 
+/** Linux errno values (as in <errno.h>) for each error code. */
+export const ERRNO: Record<ErrorCodeType, number> = {
+  EPERM: 1,
+  ENOENT: 2,
+  ENXIO: 6,
+  E2BIG: 7,
+  EBADF: 9,
+  EAGAIN: 11,
+  EACCES: 13,
+  EBUSY: 16,
+  EEXIST: 17,
+  EXDEV: 18,
+  ENODEV: 19,
+  ENOTDIR: 20,
+  EISDIR: 21,
+  EINVAL: 22,
+  EMFILE: 24,
+  ENOSPC: 28,
+  ESPIPE: 29,
+  EROFS: 30,
+  EPIPE: 32,
+  ERANGE: 34,
+  ENAMETOOLONG: 36,
+  ENOTEMPTY: 39,
+  ELOOP: 40,
+  ENODATA: 61,
+  ENOTSUP: 95,
+};
+
+/** Is `code` (e.g. from a host fs error) one of ours? */
+export function isErrorCode(code: unknown): code is ErrorCodeType {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(ErrorCode, code);
+}
+
 export interface VirtualProvider {
   readFile(subpath: string): Uint8Array;
   readFileString(subpath: string): string;
@@ -62,6 +168,14 @@ export interface VirtualProvider {
   exists(subpath: string): boolean;
   stat(subpath: string): Stat;
   readdir(subpath: string): Dirent[];
+  /** Usage and limits of the filesystem, for df. Absent for pseudo filesystems. */
+  statfs?(subpath: string): FsStats;
+  /**
+   * The provider a forked VFS mounts in its place (see VFS.clone): one whose
+   * writes the original does not see, or this one if it is read-only. Null
+   * or absent if it cannot be forked, and the fork goes without the mount.
+   */
+  clone?(): VirtualProvider | null;
 }
 
 export interface MountProvider extends VirtualProvider {
@@ -73,6 +187,49 @@ export interface MountProvider extends VirtualProvider {
   copyFile(srcSubpath: string, destSubpath: string): void;
 }
 
+/** One line of the mount table, as listed in /proc/mounts. */
+export interface MountInfo {
+  /** Mount point, e.g. "/mnt/project" */
+  path: string;
+  /** Filesystem type, e.g. "tmpfs" or "archive" */
+  type: string;
+  /** What is mounted: a host directory, an archive path, or "none" */
+  source: string;
+  /** Mount options, e.g. ["ro"] */
+  options: string[];
+}
+
+/** Limits on what a filesystem may hold. Absent fields are unlimited. */
+export interface Quota {
+  /** Bytes of file content */
+  bytes?: number;
+  /** Nodes: files, directories, symlinks and FIFOs */
+  inodes?: number;
+}
+
+/** How much a filesystem holds, and how much it may hold. */
+export interface FsStats {
+  /** Bytes of file content, each hard-linked file counted once */
+  bytes: number;
+  /** Nodes, the root directory included */
+  inodes: number;
+  quota: Quota;
+}
+
+/** What a filesystem check found, and whether it was fixed. */
+export interface FsckReport {
+  /** Files whose content refers to chunks that could not be found */
+  damaged: Array<{ path: string; missing: string[] }>;
+  /** Content store entries no file refers to */
+  orphans: string[];
+  /** Persisted blobs no file refers to (empty unless the filesystem is persisted) */
+  orphanBlobs: string[];
+  /** Missing chunks that were copied back from the persisted blob store */
+  recovered: string[];
+  /** Whether damaged files were truncated and orphans freed */
+  repaired: boolean;
+}
+
 export class VFSError extends Error {
   code: ErrorCodeType;
 
@@ -0,0 +1,54 @@
+import type { VFSWatchEvent, VFSWatchOptions } from './types.js';
+import { globMatch } from '../../utils/glob.js';
+import { basename, dirname } from '../../utils/path.js';
+
+/**
+ * A predicate for the events a watch on `root` with `options` reports. A
+ * rename is reported if either of its paths is in scope.
+ */
+export function watchFilter(root: string, options: VFSWatchOptions = {}): (event: VFSWatchEvent) => boolean {
+  const recursive = options.recursive ?? true;
+  const prefix = root === '/' ? '/' : root + '/';
+
+  const inScope = (path: string): boolean => {
+    if (path === root) return true;
+    if (!path.startsWith(prefix)) return false;
+    return recursive || dirname(path) === root;
+  };
+
+  const matches = (patterns: string[], path: string): boolean => {
+    const relative = path === root ? basename(path) : path.slice(prefix.length);
+    return patterns.some((p) => globMatch(p, p.includes('/') ? relative : basename(path)));
+  };
+
+  return (event) => {
+    if (options.events && !options.events.includes(event.type)) return false;
+    const paths = [event.path, event.oldPath].filter((p): p is string => p !== undefined && inScope(p));
+    if (paths.length === 0) return false;
+    if (options.exclude?.length && paths.every((p) => matches(options.exclude!, p))) return false;
+    if (options.include?.length && !paths.some((p) => matches(options.include!, p))) return false;
+    return true;
+  };
+}
+
+/**
+ * Drop events a batch makes redundant: a modify or attrib for a path that
+ * was created, or already modified or attrib'd, earlier in the batch with
+ * no delete or rename of it in between.
+ */
+export function coalesceEvents(events: VFSWatchEvent[]): VFSWatchEvent[] {
+  const out: VFSWatchEvent[] = [];
+  const seen = new Set<string>();
+  for (const event of events) {
+    if (event.type === 'modify' || event.type === 'attrib') {
+      if (seen.has(`create ${event.path}`) || seen.has(`${event.type} ${event.path}`)) continue;
+    } else if (event.type === 'delete' || event.type === 'rename') {
+      for (const path of [event.path, event.oldPath]) {
+        for (const type of ['create', 'modify', 'attrib']) seen.delete(`${type} ${path}`);
+      }
+    }
+    seen.add(`${event.type} ${event.path}`);
+    out.push(event);
+  }
+  return out;
+}
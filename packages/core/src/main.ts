@@ -1,5 +1,9 @@
 import { Kernel } from './kernel/index.js';
+import { createPersistenceBackend } from './kernel/persistence/backends.js';
+import { EncryptedPersistenceBackend, PassphraseError } from './kernel/persistence/encryption.js';
+import { FormatVersionError } from './kernel/persistence/migrations.js';
 import { Terminal } from './terminal/Terminal.js';
+import type { ITerminal } from './terminal/ITerminal.js';
 import { Shell } from './shell/Shell.js';
 import { createDefaultRegistry } from './commands/registry.js';
 import { createPsCommand } from './commands/system/ps.js';
@@ -7,18 +11,60 @@ import { createTopCommand } from './commands/system/top.js';
 import { createKillCommand } from './commands/system/kill.js';
 import { createWatchCommand } from './commands/system/watch.js';
 import { createHelpCommand } from './commands/system/help.js';
+import { createSuCommand } from './commands/system/su.js';
+import { createSudoCommand } from './commands/system/sudo.js';
+import { createMountCommand } from './commands/system/mount.js';
+import { createFsckCommand } from './commands/system/fsck.js';
+import { createPassphraseCommand } from './commands/system/passphrase.js';
+import { createWatchexecCommand } from './commands/system/watchexec.js';
 import { createNpmCommand } from './commands/system/npm.js';
 import { createLifoPkgCommand, bootLifoPackages } from './commands/system/lifo.js';
 
-async function boot(): Promise<void> {
-  // 1. Kernel & filesystem (async -- loads persisted data)
-  const kernel = new Kernel();
-  await kernel.boot();
+/** Read a line from the terminal without echoing it. Ctrl+C gives up. */
+function readSecret(terminal: ITerminal, prompt: string): Promise<string | null> {
+  terminal.write(prompt);
+  return new Promise((resolve) => {
+    let secret = '';
+    // Stop listening once answered, or every later prompt would stack another listener
+    const listener = terminal.onData((data) => {
+      if (data === '\r' || data === '\x03') {
+        listener.dispose();
+        terminal.write('\r\n');
+        resolve(data === '\r' ? secret : null);
+      } else if (data === '\x7f') {
+        secret = secret.slice(0, -1);
+      } else if (data >= ' ') {
+        secret += data;
+      }
+    });
+  });
+}
 
-  // 2. Terminal
+async function boot(): Promise<void> {
+  // 1. Terminal, first, so an encrypted filesystem can ask for its passphrase
   const container = document.getElementById('terminal');
   if (!container) throw new Error('Missing #terminal element');
   const terminal = new Terminal(container);
+  terminal.focus();
+
+  // 2. Kernel & filesystem (async -- loads persisted data)
+  const backend = new EncryptedPersistenceBackend(createPersistenceBackend('indexeddb'), {
+    passphrase: (attempt) =>
+      readSecret(terminal, attempt > 1 ? 'Sorry, try again.\r\nPassphrase: ' : 'Passphrase: '),
+  });
+  const kernel = new Kernel(backend);
+  try {
+    // Other tabs open on the same filesystem see this one's changes, and it theirs
+    await kernel.boot({ sync: true });
+  } catch (e) {
+    if (!(e instanceof PassphraseError || e instanceof FormatVersionError)) throw e;
+    terminal.write(`\x1b[31m${e.message}\x1b[0m\r\nReload the page to try again.\r\n`);
+    return;
+  }
+
+  kernel.sync?.onConflict(({ path }) => {
+    terminal.write(`\r\n\x1b[33mlifo: ${path} was also changed in another tab; the later change was kept\x1b[0m\r\n`);
+  });
 
   // 3. Command registry
   const registry = createDefaultRegistry();
@@ -33,15 +79,21 @@ async function boot(): Promise<void> {
 
   // 5. Shell
   const env = kernel.getDefaultEnv();
-  const shell = new Shell(terminal, kernel.vfs, registry, env);
+  const shell = new Shell(terminal, kernel.userVfs(), registry, env, kernel.processes);
 
   // 5b. Register factory commands that need shell/registry access
   const jobTable = shell.getJobTable();
-  registry.register('ps', createPsCommand(jobTable));
-  registry.register('top', createTopCommand(jobTable));
-  registry.register('kill', createKillCommand(jobTable));
+  const processes = shell.getProcessTable();
+  registry.register('ps', createPsCommand(processes));
+  registry.register('top', createTopCommand(processes));
+  registry.register('kill', createKillCommand(processes, jobTable));
   registry.register('watch', createWatchCommand(registry));
   registry.register('help', createHelpCommand(registry));
+  registry.register('su', createSuCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('sudo', createSudoCommand((user, cmd, cmdCtx) => shell.runAs(user, cmd, cmdCtx)));
+  registry.register('mount', createMountCommand(kernel.mountTypes));
+  registry.register('fsck', createFsckCommand((options) => kernel.fsck(options)));
+  registry.register('passphrase', createPassphraseCommand((passphrase) => kernel.changePassphrase(passphrase)));
 
   // 5c. Register npm with shell execution support
   const npmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
@@ -55,6 +107,7 @@ async function boot(): Promise<void> {
   };
   registry.register('npm', createNpmCommand(registry, npmShellExecute));
   registry.register('lifo', createLifoPkgCommand(registry, npmShellExecute));
+  registry.register('watchexec', createWatchexecCommand(npmShellExecute));
 
   // 6. Source config files before showing prompt
   await shell.sourceFile('/etc/profile');
@@ -1,6 +1,18 @@
 import type { VFS } from '../kernel/vfs/index.js';
-import { VFSError } from '../kernel/vfs/index.js';
-import type { Stat as VfsStat } from '../kernel/vfs/types.js';
+import { VFSError, ErrorCode, ERRNO } from '../kernel/vfs/index.js';
+import type { Stat as VfsStat, ErrorCodeType } from '../kernel/vfs/types.js';
+import {
+  FileTable,
+  openFifoFile,
+  O_RDONLY,
+  O_WRONLY,
+  O_RDWR,
+  O_CREAT,
+  O_EXCL,
+  O_TRUNC,
+  O_APPEND,
+} from '../kernel/process/index.js';
+import type { FifoFile } from '../kernel/process/index.js';
 import { resolve, basename } from '../utils/path.js';
 import { encode, decode } from '../utils/encoding.js';
 import { Readable, Writable } from './stream.js';
@@ -39,13 +51,15 @@ interface NodeStat {
 function toNodeStat(stat: VfsStat): NodeStat {
   const isFile = stat.type === 'file';
   const isDir = stat.type === 'directory';
+  const isLink = stat.type === 'symlink';
+  const isFifo = stat.type === 'fifo';
   return {
     dev: 0,
-    ino: 0,
+    ino: stat.ino ?? 0,
     mode: stat.mode,
-    nlink: isDir ? 2 : 1,
-    uid: 1000,
-    gid: 1000,
+    nlink: stat.nlink ?? (isDir ? 2 : 1),
+    uid: stat.uid ?? 0,
+    gid: stat.gid ?? 0,
     rdev: 0,
     size: stat.size,
     blksize: 4096,
@@ -60,10 +74,10 @@ function toNodeStat(stat: VfsStat): NodeStat {
     birthtime: new Date(stat.ctime),
     isFile: () => isFile,
     isDirectory: () => isDir,
-    isSymbolicLink: () => false,
+    isSymbolicLink: () => isLink,
     isBlockDevice: () => false,
     isCharacterDevice: () => false,
-    isFIFO: () => false,
+    isFIFO: () => isFifo,
     isSocket: () => false,
   };
 }
@@ -74,34 +88,53 @@ interface NodeError extends Error {
   code: string;
   errno: number;
   syscall: string;
-  path: string;
+  path?: string;
+  dest?: string;
 }
 
-function toNodeError(e: VFSError, syscall: string, path: string): NodeError {
-  const err = new Error(e.message) as NodeError;
-  err.code = e.code;
-  err.errno = -2;
+/** libuv's description of each code, which node puts in error messages. */
+const DESCRIPTIONS: Record<ErrorCodeType, string> = {
+  ENOENT: 'no such file or directory',
+  EEXIST: 'file already exists',
+  ENOTDIR: 'not a directory',
+  EISDIR: 'illegal operation on a directory',
+  ENOTEMPTY: 'directory not empty',
+  EINVAL: 'invalid argument',
+  EPERM: 'operation not permitted',
+  EACCES: 'permission denied',
+  ELOOP: 'too many symbolic links encountered',
+  EBADF: 'bad file descriptor',
+  EROFS: 'read-only file system',
+  EBUSY: 'resource busy or locked',
+  EXDEV: 'cross-device link not permitted',
+  ENODEV: 'no such device',
+  ENAMETOOLONG: 'name too long',
+  ENOSPC: 'no space left on device',
+  EMFILE: 'too many open files',
+  ESPIPE: 'invalid seek',
+  EPIPE: 'broken pipe',
+  ENXIO: 'no such device or address',
+  EAGAIN: 'resource temporarily unavailable',
+  ENODATA: 'no data available',
+  ENOTSUP: 'operation not supported on socket',
+  ERANGE: 'result too large',
+  E2BIG: 'argument list too long',
+};
+
+/**
+ * Build an error shaped like node's: `ENOENT: no such file or directory,
+ * open '/x'`, with a negative `errno` and the failing `syscall` and paths.
+ */
+function makeNodeError(code: ErrorCodeType, syscall: string, path?: string, dest?: string): NodeError {
+  let message = `${code}: ${DESCRIPTIONS[code]}, ${syscall}`;
+  if (path !== undefined) message += ` '${path}'`;
+  if (dest !== undefined) message += ` -> '${dest}'`;
+  const err = new Error(message) as NodeError;
+  err.code = code;
+  err.errno = -ERRNO[code];
   err.syscall = syscall;
-  err.path = path;
-  err.name = 'Error';
-  return err;
-}
-
-function makeEnoent(syscall: string, path: string): NodeError {
-  const err = new Error(`ENOENT: no such file or directory, ${syscall} '${path}'`) as NodeError;
-  err.code = 'ENOENT';
-  err.errno = -2;
-  err.syscall = syscall;
-  err.path = path;
-  return err;
-}
-
-function makeEbadf(syscall: string): NodeError {
-  const err = new Error(`EBADF: bad file descriptor, ${syscall}`) as NodeError;
-  err.code = 'EBADF';
-  err.errno = -9;
-  err.syscall = syscall;
-  err.path = '';
+  if (path !== undefined) err.path = path;
+  if (dest !== undefined) err.dest = dest;
   return err;
 }
 
@@ -112,48 +145,68 @@ function resolvePath(cwd: string, p: string | URL): string {
   return resolve(cwd, str);
 }
 
-// ─── File descriptor entry ───
-
-interface FdEntry {
-  path: string;
-  position: number;
-  flags: string;
-  closed: boolean;
-}
-
 // ─── Open flags ───
 
-const O_RDONLY = 0;
-const O_WRONLY = 1;
-const O_RDWR = 2;
-const O_CREAT = 64;
-const O_TRUNC = 512;
-const O_APPEND = 1024;
-
 function parseFlags(flags: string | number): number {
   if (typeof flags === 'number') return flags;
   switch (flags) {
     case 'r': return O_RDONLY;
     case 'r+': return O_RDWR;
     case 'w': return O_WRONLY | O_CREAT | O_TRUNC;
+    case 'wx': return O_WRONLY | O_CREAT | O_TRUNC | O_EXCL;
     case 'w+': return O_RDWR | O_CREAT | O_TRUNC;
+    case 'wx+': return O_RDWR | O_CREAT | O_TRUNC | O_EXCL;
     case 'a': return O_WRONLY | O_CREAT | O_APPEND;
+    case 'ax': return O_WRONLY | O_CREAT | O_APPEND | O_EXCL;
     case 'a+': return O_RDWR | O_CREAT | O_APPEND;
-    case 'ax': return O_WRONLY | O_CREAT | O_APPEND;
+    case 'ax+': return O_RDWR | O_CREAT | O_APPEND | O_EXCL;
     default: return O_RDONLY;
   }
 }
 
-export function createFs(vfs: VFS, cwd: string) {
-  // ─── File descriptor table ───
+/**
+ * @param fds The calling process's file descriptor table, so fds opened here
+ *   are the process's own. Defaults to a private table.
+ */
+export function createFs(vfs: VFS, cwd: string, fds: FileTable = new FileTable()) {
+  // ─── File descriptors ───
+
+  /** Run a path operation, reporting VFS errors the way node does. */
+  function call<T>(syscall: string, path: string, fn: () => T, dest?: string): T {
+    try {
+      return fn();
+    } catch (e) {
+      if (e instanceof VFSError) throw makeNodeError(e.code, syscall, path, dest);
+      throw e;
+    }
+  }
 
-  const fdTable = new Map<number, FdEntry>();
-  let nextFd = 10; // start above stdin/stdout/stderr
+  /** Report a VFS error from an async operation the way node does. */
+  function toNodeError(e: unknown, syscall: string, path: string): unknown {
+    return e instanceof VFSError ? makeNodeError(e.code, syscall, path) : e;
+  }
 
-  function getFd(fd: number): FdEntry {
-    const entry = fdTable.get(fd);
-    if (!entry || entry.closed) throw makeEbadf('fd');
-    return entry;
+  function isFifo(abs: string): boolean {
+    return vfs.exists(abs) && vfs.stat(abs).type === 'fifo';
+  }
+
+  // A FIFO has to wait for its writer, so only the async readers can read it
+  async function readFifo(abs: string, options?: string | { encoding?: string }): Promise<string | Uint8Array> {
+    const encoding = typeof options === 'string' ? options : options?.encoding;
+    const data = await vfs.readFileAsync(abs).catch((e) => {
+      throw toNodeError(e, 'open', abs);
+    });
+    return encoding ? decode(data) : data;
+  }
+
+  /** Like call(), for fd operations; node leaves the path out of these. */
+  function withFd<T>(syscall: string, fn: () => T): T {
+    try {
+      return fn();
+    } catch (e) {
+      if (e instanceof VFSError) throw makeNodeError(e.code, syscall);
+      throw e;
+    }
   }
 
   // ─── Sync API ───
@@ -161,20 +214,19 @@ export function createFs(vfs: VFS, cwd: string) {
   function readFileSync(path: string | URL, options?: string | { encoding?: string; flag?: string }): string | Uint8Array {
     const encoding = typeof options === 'string' ? options : options?.encoding;
     const abs = resolvePath(cwd, path);
-    if (encoding) {
-      return vfs.readFileString(abs);
-    }
-    return vfs.readFile(abs);
+    // Reading a FIFO would block, which nothing synchronous can do here
+    if (isFifo(abs)) throw makeNodeError('EAGAIN', 'read', abs);
+    return call('open', abs, () => (encoding ? vfs.readFileString(abs) : vfs.readFile(abs)));
   }
 
   function writeFileSync(path: string | URL, data: string | Uint8Array, _options?: string | { encoding?: string }): void {
     const abs = resolvePath(cwd, path);
-    vfs.writeFile(abs, data);
+    call('open', abs, () => vfs.writeFile(abs, data));
   }
 
   function appendFileSync(path: string | URL, data: string | Uint8Array): void {
     const abs = resolvePath(cwd, path);
-    vfs.appendFile(abs, data);
+    call('open', abs, () => vfs.appendFile(abs, data));
   }
 
   function existsSync(path: string | URL): boolean {
@@ -184,172 +236,128 @@ export function createFs(vfs: VFS, cwd: string) {
 
   function statSync(path: string | URL): NodeStat {
     const abs = resolvePath(cwd, path);
-    return toNodeStat(vfs.stat(abs));
+    return call('stat', abs, () => toNodeStat(vfs.stat(abs)));
   }
 
   function lstatSync(path: string | URL): NodeStat {
-    return statSync(path);
+    const abs = resolvePath(cwd, path);
+    return call('lstat', abs, () => toNodeStat(vfs.lstat(abs)));
   }
 
   function mkdirSync(path: string | URL, options?: { recursive?: boolean; mode?: number } | number): void {
     const abs = resolvePath(cwd, path);
     const opts = typeof options === 'number' ? {} : options;
-    vfs.mkdir(abs, { recursive: opts?.recursive });
+    call('mkdir', abs, () => vfs.mkdir(abs, { recursive: opts?.recursive }));
   }
 
   function readdirSync(path: string | URL, _options?: { encoding?: string; withFileTypes?: boolean }): string[] {
     const abs = resolvePath(cwd, path);
-    const entries = vfs.readdir(abs);
-    return entries.map((e) => e.name);
+    return call('scandir', abs, () => vfs.readdir(abs).map((e) => e.name));
   }
 
   function unlinkSync(path: string | URL): void {
     const abs = resolvePath(cwd, path);
-    vfs.unlink(abs);
+    call('unlink', abs, () => vfs.unlink(abs));
   }
 
   function rmdirSync(path: string | URL, options?: { recursive?: boolean }): void {
     const abs = resolvePath(cwd, path);
-    if (options?.recursive) {
-      vfs.rmdirRecursive(abs);
-    } else {
-      vfs.rmdir(abs);
-    }
+    call('rmdir', abs, () => (options?.recursive ? vfs.rmdirRecursive(abs) : vfs.rmdir(abs)));
   }
 
   function renameSync(oldPath: string | URL, newPath: string | URL): void {
     const abs1 = resolvePath(cwd, oldPath);
     const abs2 = resolvePath(cwd, newPath);
-    vfs.rename(abs1, abs2);
+    call('rename', abs1, () => vfs.rename(abs1, abs2), abs2);
   }
 
   function copyFileSync(src: string | URL, dest: string | URL): void {
     const abs1 = resolvePath(cwd, src);
     const abs2 = resolvePath(cwd, dest);
-    vfs.copyFile(abs1, abs2);
+    call('copyfile', abs1, () => vfs.copyFile(abs1, abs2), abs2);
   }
 
-  function chmodSync(_path: string | URL, _mode: number): void {
-    // No-op in VFS
+  function chmodSync(path: string | URL, mode: number): void {
+    const abs = resolvePath(cwd, path);
+    call('chmod', abs, () => vfs.chmod(abs, mode));
   }
 
-  function chownSync(_path: string | URL, _uid: number, _gid: number): void {
-    // No-op in VFS
+  function chownSync(path: string | URL, uid: number, gid: number): void {
+    const abs = resolvePath(cwd, path);
+    call('chown', abs, () => vfs.chown(abs, uid, gid));
   }
 
-  function accessSync(path: string | URL, _mode?: number): void {
+  function accessSync(path: string | URL, mode?: number): void {
     const abs = resolvePath(cwd, path);
-    if (!vfs.exists(abs)) {
-      throw makeEnoent('access', abs);
-    }
+    call('access', abs, () => {
+      if (!vfs.exists(abs)) {
+        throw new VFSError(ErrorCode.ENOENT, `'${abs}': no such file or directory`);
+      }
+      vfs.access(abs, mode);
+    });
   }
 
   function realpathSync(path: string | URL): string {
     const abs = resolvePath(cwd, path);
-    if (!vfs.exists(abs)) {
-      throw makeEnoent('realpath', abs);
-    }
-    return abs;
+    return call('realpath', abs, () => {
+      if (!vfs.exists(abs)) {
+        throw new VFSError(ErrorCode.ENOENT, `'${abs}': no such file or directory`);
+      }
+      return vfs.realpath(abs);
+    });
   }
 
   function truncateSync(path: string | URL, len?: number): void {
     const abs = resolvePath(cwd, path);
-    const data = vfs.readFile(abs);
-    const newLen = len ?? 0;
-    if (newLen >= data.length) return;
-    vfs.writeFile(abs, data.slice(0, newLen));
+    call('open', abs, () => vfs.truncate(abs, len ?? 0));
   }
 
   // ─── File descriptor sync API ───
   // NOTE: File descriptor operations work with mounted native filesystems via VFS
-  // delegation. The fd table maps fds to VFS paths. When operations like readSync/
-  // writeSync call vfs.readFile()/vfs.writeFile() on those paths, the VFS mount system
-  // automatically delegates to the appropriate provider (e.g. NativeFsProvider).
+  // delegation. An fd names an open file in the process's FileTable, which reads
+  // and writes byte ranges of its path; the VFS mount system delegates those to
+  // the appropriate provider (e.g. NativeFsProvider).
 
-  function openSync(path: string | URL, flags?: string | number, _mode?: number): number {
+  function openSync(path: string | URL, flags?: string | number, mode?: number): number {
     const abs = resolvePath(cwd, path);
-    const numFlags = parseFlags(flags ?? 'r');
-
-    if (numFlags & O_CREAT) {
-      if (!vfs.exists(abs)) {
-        vfs.writeFile(abs, '');
-      }
-    }
-
-    if (numFlags & O_TRUNC) {
-      vfs.writeFile(abs, '');
-    }
-
-    if (!vfs.exists(abs)) {
-      throw makeEnoent('open', abs);
-    }
-
-    const fd = nextFd++;
-    fdTable.set(fd, {
-      path: abs,
-      position: (numFlags & O_APPEND) ? vfs.readFile(abs).length : 0,
-      flags: typeof flags === 'string' ? flags : 'r',
-      closed: false,
-    });
-    return fd;
+    return call('open', abs, () => fds.open(vfs, abs, parseFlags(flags ?? 'r'), mode));
   }
 
   function closeSync(fd: number): void {
-    const entry = getFd(fd);
-    entry.closed = true;
-    fdTable.delete(fd);
-  }
-
-  function readSync(fd: number, buffer: Uint8Array, offset: number, length: number, position: number | null): number {
-    const entry = getFd(fd);
-    const data = vfs.readFile(entry.path);
-    const pos = position !== null ? position : entry.position;
-    const available = Math.max(0, data.length - pos);
-    const bytesToRead = Math.min(length, available);
-    if (bytesToRead === 0) return 0;
-    buffer.set(data.subarray(pos, pos + bytesToRead), offset);
-    if (position === null) {
-      entry.position = pos + bytesToRead;
-    }
-    return bytesToRead;
+    withFd('close', () => fds.close(fd));
   }
 
-  function writeSync(fd: number, bufferOrString: Uint8Array | string, offsetOrPosition?: number, lengthOrEncoding?: number | string, position?: number | null): number {
-    const entry = getFd(fd);
+  function readSync(fd: number, buffer: Uint8Array, offset = 0, length = buffer.byteLength - offset, position: number | null = null): number {
+    return withFd('read', () => {
+      const data = fds.get(fd).read(length, position);
+      buffer.set(data, offset);
+      return data.byteLength;
+    });
+  }
 
+  function writeSync(fd: number, bufferOrString: Uint8Array | string, offsetOrPosition?: number, lengthOrEncoding?: number | string, position?: number | null): number {
     let data: Uint8Array;
-    let pos: number;
+    let pos: number | null;
 
     if (typeof bufferOrString === 'string') {
       data = encode(bufferOrString);
-      pos = typeof offsetOrPosition === 'number' ? offsetOrPosition : entry.position;
+      pos = typeof offsetOrPosition === 'number' ? offsetOrPosition : null;
     } else {
       const offset = (offsetOrPosition as number) ?? 0;
       const length = (typeof lengthOrEncoding === 'number' ? lengthOrEncoding : bufferOrString.length - offset);
       data = bufferOrString.subarray(offset, offset + length);
-      pos = position !== null && position !== undefined ? position : entry.position;
+      pos = position ?? null;
     }
 
-    const fileData = vfs.readFile(entry.path);
-    const endPos = pos + data.length;
-    const newSize = Math.max(fileData.length, endPos);
-    const newData = new Uint8Array(newSize);
-    newData.set(fileData, 0);
-    newData.set(data, pos);
-    vfs.writeFile(entry.path, newData);
-
-    entry.position = endPos;
-    return data.length;
+    return withFd('write', () => fds.get(fd).write(data, pos));
   }
 
   function fstatSync(fd: number): NodeStat {
-    const entry = getFd(fd);
-    return toNodeStat(vfs.stat(entry.path));
+    return withFd('fstat', () => toNodeStat(fds.get(fd).stat()));
   }
 
   function ftruncateSync(fd: number, len?: number): void {
-    const entry = getFd(fd);
-    truncateSync(entry.path, len);
+    withFd('ftruncate', () => fds.get(fd).truncate(len ?? 0));
   }
 
   function fsyncSync(_fd: number): void {
@@ -360,19 +368,24 @@ export function createFs(vfs: VFS, cwd: string) {
     // No-op
   }
 
-  // ─── Symlink stubs ───
+  // ─── Links ───
 
-  function symlinkSync(_target: string, _path: string, _type?: string): void {
-    // No-op - VFS has no symlink support yet
+  function symlinkSync(target: string | URL, path: string | URL, _type?: string): void {
+    // The target is stored as given; relative targets resolve against the link's directory
+    const str = typeof target === 'string' ? target : target.pathname;
+    const abs = resolvePath(cwd, path);
+    call('symlink', str, () => vfs.symlink(str, abs), abs);
   }
 
-  function linkSync(_existingPath: string, _newPath: string): void {
-    // No-op
+  function linkSync(existingPath: string | URL, newPath: string | URL): void {
+    const abs1 = resolvePath(cwd, existingPath);
+    const abs2 = resolvePath(cwd, newPath);
+    call('link', abs1, () => vfs.link(abs1, abs2), abs2);
   }
 
   function readlinkSync(path: string | URL): string {
-    // Return the path itself since we have no symlinks
-    return resolvePath(cwd, path);
+    const abs = resolvePath(cwd, path);
+    return call('readlink', abs, () => vfs.readlink(abs));
   }
 
   // ─── Callback API ───
@@ -383,9 +396,7 @@ export function createFs(vfs: VFS, cwd: string) {
         const result = syncFn();
         cb(null, result);
       } catch (e) {
-        if (e instanceof VFSError) {
-          cb(toNodeError(e, '', ''));
-        } else if ((e as NodeError).code) {
+        if ((e as NodeError).code) {
           cb(e as NodeError);
         } else {
           throw e;
@@ -397,6 +408,11 @@ export function createFs(vfs: VFS, cwd: string) {
   function readFile(path: string | URL, optionsOrCb: string | { encoding?: string } | Callback<string | Uint8Array>, cb?: Callback<string | Uint8Array>): void {
     const callback = typeof optionsOrCb === 'function' ? optionsOrCb : cb!;
     const options = typeof optionsOrCb === 'function' ? undefined : optionsOrCb;
+    const abs = resolvePath(cwd, path);
+    if (isFifo(abs)) {
+      readFifo(abs, options).then((data) => callback(null, data), (e: NodeError) => callback(e));
+      return;
+    }
     wrapCallback(() => readFileSync(path, options), callback);
   }
 
@@ -413,6 +429,23 @@ export function createFs(vfs: VFS, cwd: string) {
     wrapCallback(() => lstatSync(path), cb);
   }
 
+  function symlink(target: string | URL, path: string | URL, typeOrCb: string | Callback<void>, cb?: Callback<void>): void {
+    const callback = typeof typeOrCb === 'function' ? typeOrCb : cb!;
+    wrapCallback(() => symlinkSync(target, path), callback);
+  }
+
+  function link(existingPath: string | URL, newPath: string | URL, cb: Callback<void>): void {
+    wrapCallback(() => linkSync(existingPath, newPath), cb);
+  }
+
+  function readlink(path: string | URL, cb: Callback<string>): void {
+    wrapCallback(() => readlinkSync(path), cb);
+  }
+
+  function realpath(path: string | URL, cb: Callback<string>): void {
+    wrapCallback(() => realpathSync(path), cb);
+  }
+
   function mkdir(path: string | URL, optionsOrCb: { recursive?: boolean } | Callback<void>, cb?: Callback<void>): void {
     const callback = typeof optionsOrCb === 'function' ? optionsOrCb : cb!;
     const options = typeof optionsOrCb === 'function' ? undefined : optionsOrCb;
@@ -472,36 +505,61 @@ export function createFs(vfs: VFS, cwd: string) {
     wrapCallback(() => readSync(fd, buffer, offset, length, position), cb);
   }
 
+  function write(fd: number, data: Uint8Array | string, ...rest: unknown[]): void {
+    const cb = rest.pop() as Callback<number>;
+    const [offsetOrPosition, lengthOrEncoding, position] = rest as [number?, (number | string)?, (number | null)?];
+    wrapCallback(() => writeSync(fd, data, offsetOrPosition, lengthOrEncoding, position), cb);
+  }
+
   function fstat(fd: number, cb: Callback<NodeStat>): void {
     wrapCallback(() => fstatSync(fd), cb);
   }
 
+  function ftruncate(fd: number, lenOrCb: number | Callback<void>, cb?: Callback<void>): void {
+    const callback = typeof lenOrCb === 'function' ? lenOrCb : cb!;
+    const len = typeof lenOrCb === 'function' ? undefined : lenOrCb;
+    wrapCallback(() => ftruncateSync(fd, len), callback);
+  }
+
   // ─── Stream API ───
 
   // NOTE: createReadStream works with mounted native filesystems via VFS delegation.
-  // When the path is under a NativeFsProvider mount, vfs.readFile() delegates to the
-  // mount provider, which reads from the real host filesystem. The data is still buffered
-  // in memory before being pushed to the stream.
-  function createReadStream(path: string | URL, options?: { encoding?: string; start?: number; end?: number; highWaterMark?: number }): Readable {
-    const abs = resolvePath(cwd, path);
+  // The file is read through an fd, highWaterMark bytes at a time, so for chunked
+  // files only the chunks inside [start, end] are loaded. Mount providers still
+  // read the whole file for each range.
+  function createReadStream(path: string | URL, options?: { encoding?: string; start?: number; end?: number; highWaterMark?: number; fd?: number; autoClose?: boolean }): Readable {
     const stream = new Readable();
+    if (options?.fd === undefined && isFifo(resolvePath(cwd, path))) {
+      return createFifoReadStream(resolvePath(cwd, path), stream);
+    }
 
     queueMicrotask(() => {
+      let fd: number | undefined;
       try {
-        const data = vfs.readFile(abs);
-        const start = options?.start ?? 0;
-        const end = options?.end !== undefined ? options.end + 1 : data.length;
-        const slice = data.subarray(start, end);
-
-        if (options?.encoding) {
-          stream.push(decode(slice));
-        } else {
-          // Push as string since our Readable works with strings
-          stream.push(decode(slice));
+        fd = options?.fd ?? openSync(path, 'r');
+        const file = withFd('read', () => fds.get(fd!));
+        const chunkSize = options?.highWaterMark ?? 64 * 1024;
+        const end = options?.end !== undefined ? options.end + 1 : Infinity;
+        // Without a start, reading continues from the fd's own offset
+        let position = options?.start ?? null;
+        // Our Readable works with strings; keep multi-byte characters whole across chunks
+        const decoder = new TextDecoder();
+
+        for (;;) {
+          const remaining = end - (position ?? file.position);
+          if (remaining <= 0) break;
+          const chunk = file.read(Math.min(chunkSize, remaining), position);
+          if (chunk.byteLength === 0) break;
+          if (position !== null) position += chunk.byteLength;
+          stream.push(decoder.decode(chunk, { stream: true }));
         }
+        const tail = decoder.decode();
+        if (tail) stream.push(tail);
         stream.push(null);
       } catch (e) {
         stream.emit('error', e);
+      } finally {
+        if (fd !== undefined && options?.autoClose !== false && fds.has(fd)) fds.close(fd);
       }
     });
 
@@ -509,28 +567,25 @@ export function createFs(vfs: VFS, cwd: string) {
   }
 
   // NOTE: createWriteStream works with mounted native filesystems via VFS delegation.
-  // When the path is under a NativeFsProvider mount, vfs.writeFile() and vfs.appendFile()
-  // delegate to the mount provider, which writes to the real host filesystem.
-  function createWriteStream(path: string | URL, options?: { flags?: string; encoding?: string }): Writable {
-    const abs = resolvePath(cwd, path);
-    const flags = options?.flags ?? 'w';
-    const chunks: string[] = [];
-
-    if (flags.includes('w')) {
-      // Truncate on open
-      try { vfs.writeFile(abs, ''); } catch { /* parent may not exist yet */ }
-    }
-
+  // Writes go through an fd, so each chunk lands at the stream's offset instead of
+  // rewriting the file.
+  function createWriteStream(path: string | URL, options?: { flags?: string; encoding?: string; start?: number; fd?: number }): Writable {
     const stream = new Writable();
+    if (options?.fd === undefined && isFifo(resolvePath(cwd, path))) {
+      return createFifoWriteStream(resolvePath(cwd, path), stream);
+    }
+    let fd: number | undefined;
+    try {
+      fd = options?.fd ?? openSync(path, options?.flags ?? 'w');
+      if (options?.start !== undefined) fds.get(fd).seek(options.start);
+    } catch (e) {
+      queueMicrotask(() => stream.emit('error', e));
+    }
 
-    stream.write = (chunk: string, _encoding?: string, cb?: () => void): boolean => {
-      chunks.push(chunk);
+    stream.write = (chunk: string | Uint8Array, _encoding?: string, cb?: () => void): boolean => {
       try {
-        if (flags.includes('a')) {
-          vfs.appendFile(abs, chunk);
-        } else {
-          vfs.writeFile(abs, chunks.join(''));
-        }
+        if (fd === undefined) return false;
+        writeSync(fd, chunk);
       } catch (e) {
         stream.emit('error', e);
         return false;
@@ -541,6 +596,7 @@ export function createFs(vfs: VFS, cwd: string) {
 
     stream.end = (chunk?: string): void => {
       if (chunk) stream.write(chunk);
+      if (fd !== undefined && fds.has(fd)) fds.close(fd);
       stream.emit('finish');
       stream.emit('close');
     };
@@ -548,26 +604,104 @@ export function createFs(vfs: VFS, cwd: string) {
     return stream;
   }
 
+  // A FIFO is streamed as it is written: opening it waits for the other end,
+  // and the read stream ends when the last writer closes it.
+  function createFifoReadStream(abs: string, stream: Readable): Readable {
+    void (async () => {
+      let fd: number | undefined;
+      try {
+        const file = await openFifoFile(vfs, abs, O_RDONLY).catch((e) => {
+          throw toNodeError(e, 'open', abs);
+        });
+        fd = fds.install(file);
+        const decoder = new TextDecoder();
+        for (let chunk = await file.readChunk(); chunk !== null; chunk = await file.readChunk()) {
+          stream.push(decoder.decode(chunk, { stream: true }));
+        }
+        const tail = decoder.decode();
+        if (tail) stream.push(tail);
+        stream.push(null);
+      } catch (e) {
+        stream.emit('error', e);
+      } finally {
+        if (fd !== undefined && fds.has(fd)) {
+          (fds.get(fd) as FifoFile).close();
+          fds.close(fd);
+        }
+      }
+    })();
+    return stream;
+  }
+
+  // Writes made before a reader opens the FIFO are queued behind the open
+  function createFifoWriteStream(abs: string, stream: Writable): Writable {
+    let fd: number | undefined;
+    const release = (file: FifoFile | null) => {
+      file?.close();
+      if (fd !== undefined && fds.has(fd)) fds.close(fd);
+    };
+    let ready: Promise<FifoFile | null> = openFifoFile(vfs, abs, O_WRONLY).then(
+      (file) => {
+        fd = fds.install(file);
+        return file;
+      },
+      (e) => {
+        stream.emit('error', toNodeError(e, 'open', abs));
+        return null;
+      },
+    );
+
+    stream.write = (chunk: string | Uint8Array, _encoding?: string, cb?: () => void): boolean => {
+      ready = ready.then((file) => {
+        if (!file) return null;
+        try {
+          file.write(chunk);
+        } catch (e) {
+          release(file);
+          stream.emit('error', toNodeError(e, 'write', abs));
+          return null;
+        }
+        if (cb) cb();
+        return file;
+      });
+      return true;
+    };
+
+    stream.end = (chunk?: string): void => {
+      if (chunk) stream.write(chunk);
+      ready = ready.then((file) => {
+        release(file);
+        stream.emit('finish');
+        stream.emit('close');
+        return null;
+      });
+    };
+
+    return stream;
+  }
+
   // ─── Watch API ───
 
   function watch(filename: string | URL, optionsOrListener?: { persistent?: boolean; recursive?: boolean; encoding?: string } | ((eventType: string, filename: string) => void), listener?: (eventType: string, filename: string) => void): EventEmitter {
     const abs = resolvePath(cwd, filename);
+    const options = typeof optionsOrListener === 'object' ? optionsOrListener : {};
     const cb = typeof optionsOrListener === 'function' ? optionsOrListener : listener;
 
     const watcher = new EventEmitter();
 
-    // Use VFS onChange to detect changes (coarse-grained)
-    const origOnChange = vfs.onChange;
-    vfs.onChange = () => {
-      origOnChange?.();
-      const eventType = 'change';
-      const name = basename(abs);
+    // Node reports 'rename' when a name appears or disappears, 'change' otherwise,
+    // with the file name relative to the watched directory
+    const prefix = abs === '/' ? '/' : abs + '/';
+    const unwatch = vfs.watch(abs, { recursive: options.recursive ?? false }, (event) => {
+      const eventType = event.type === 'modify' || event.type === 'attrib' ? 'change' : 'rename';
+      const path = event.path === abs || event.path.startsWith(prefix) ? event.path : event.oldPath!;
+      const name = path === abs ? basename(abs) : path.slice(prefix.length);
       if (cb) cb(eventType, name);
       watcher.emit('change', eventType, name);
-    };
+    });
 
     (watcher as unknown as Record<string, unknown>).close = () => {
-      vfs.onChange = origOnChange;
+      unwatch();
     };
 
     return watcher;
@@ -576,7 +710,10 @@ export function createFs(vfs: VFS, cwd: string) {
   // ─── Promises API ───
 
   const promises = {
-    readFile: async (path: string | URL, options?: string | { encoding?: string }) => readFileSync(path, options),
+    readFile: async (path: string | URL, options?: string | { encoding?: string }) => {
+      const abs = resolvePath(cwd, path);
+      return isFifo(abs) ? readFifo(abs, options) : readFileSync(path, options);
+    },
     writeFile: async (path: string | URL, data: string | Uint8Array) => writeFileSync(path, data),
     appendFile: async (path: string | URL, data: string | Uint8Array) => appendFileSync(path, data),
     stat: async (path: string | URL) => statSync(path),
@@ -589,20 +726,25 @@ export function createFs(vfs: VFS, cwd: string) {
     copyFile: async (src: string | URL, dest: string | URL) => copyFileSync(src, dest),
     access: async (path: string | URL, mode?: number) => accessSync(path, mode),
     realpath: async (path: string | URL) => realpathSync(path),
+    symlink: async (target: string | URL, path: string | URL, _type?: string) => symlinkSync(target, path),
+    link: async (existingPath: string | URL, newPath: string | URL) => linkSync(existingPath, newPath),
+    readlink: async (path: string | URL) => readlinkSync(path),
     truncate: async (path: string | URL, len?: number) => truncateSync(path, len),
-    chmod: async (_path: string | URL, _mode: number) => {},
-    chown: async (_path: string | URL, _uid: number, _gid: number) => {},
+    chmod: async (path: string | URL, mode: number) => chmodSync(path, mode),
+    chown: async (path: string | URL, uid: number, gid: number) => chownSync(path, uid, gid),
     open: async (path: string | URL, flags?: string | number, mode?: number) => {
       const fd = openSync(path, flags, mode);
       return {
         fd,
         close: async () => closeSync(fd),
-        read: async (buffer: Uint8Array, offset: number, length: number, position: number | null) => ({
+        read: async (buffer: Uint8Array, offset?: number, length?: number, position?: number | null) => ({
           bytesRead: readSync(fd, buffer, offset, length, position),
           buffer,
         }),
-        write: async (data: Uint8Array | string) => ({
-          bytesWritten: writeSync(fd, data),
+        write: async (data: Uint8Array | string, position?: number | null) => ({
+          bytesWritten: typeof data === 'string'
+            ? writeSync(fd, data, position ?? undefined)
+            : writeSync(fd, data, 0, data.byteLength, position),
         }),
         stat: async () => fstatSync(fd),
         truncate: async (len?: number) => ftruncateSync(fd, len),
@@ -611,18 +753,13 @@ export function createFs(vfs: VFS, cwd: string) {
     rm: async (path: string | URL, options?: { recursive?: boolean; force?: boolean }) => {
       const abs = resolvePath(cwd, path);
       try {
-        const s = vfs.stat(abs);
-        if (s.type === 'directory') {
-          if (options?.recursive) {
-            vfs.rmdirRecursive(abs);
-          } else {
-            vfs.rmdir(abs);
-          }
+        if (lstatSync(abs).isDirectory()) {
+          rmdirSync(abs, options);
         } else {
-          vfs.unlink(abs);
+          unlinkSync(abs);
         }
       } catch (e) {
-        if (options?.force && e instanceof VFSError && e.code === 'ENOENT') return;
+        if (options?.force && (e as NodeError).code === 'ENOENT') return;
         throw e;
       }
     },
@@ -639,6 +776,7 @@ export function createFs(vfs: VFS, cwd: string) {
     O_WRONLY,
     O_RDWR,
     O_CREAT,
+    O_EXCL,
     O_TRUNC,
     O_APPEND,
     COPYFILE_EXCL: 1,
@@ -681,6 +819,10 @@ export function createFs(vfs: VFS, cwd: string) {
     writeFile,
     stat,
     lstat,
+    symlink,
+    link,
+    readlink,
+    realpath,
     mkdir,
     readdir,
     unlink,
@@ -690,7 +832,9 @@ export function createFs(vfs: VFS, cwd: string) {
     open,
     close,
     read,
+    write,
     fstat,
+    ftruncate,
     // Streams
     createReadStream,
     createWriteStream,
@@ -9,6 +9,7 @@ import { Buffer } from './buffer.js';
 import * as utilModule from './util.js';
 import { createHttp } from './http.js';
 import type { VirtualRequestHandler } from '../kernel/index.js';
+import type { FileTable } from '../kernel/process/index.js';
 import { createChildProcess } from './child_process.js';
 import * as streamModule from './stream.js';
 import * as urlModule from './url.js';
@@ -29,12 +30,17 @@ export interface NodeContext {
   signal: AbortSignal;
   executeCapture?: (input: string) => Promise<string>;
   portRegistry?: Map<number, VirtualRequestHandler>;
+  /** Kernel PID of the running `node` process */
+  pid?: number;
+  ppid?: number;
+  /** File descriptor table of the `node` process */
+  fds?: FileTable;
 }
 
 export function createModuleMap(ctx: NodeContext): Record<string, () => unknown> {
   return {
-    fs: () => createFs(ctx.vfs, ctx.cwd),
-    'fs/promises': () => createFs(ctx.vfs, ctx.cwd).promises,
+    fs: () => createFs(ctx.vfs, ctx.cwd, ctx.fds),
+    'fs/promises': () => createFs(ctx.vfs, ctx.cwd, ctx.fds).promises,
     path: () => pathModule,
     os: () => createOs(ctx.env),
     process: () => createProcess({
@@ -43,6 +49,8 @@ export function createModuleMap(ctx: NodeContext): Record<string, () => unknown>
       cwd: ctx.cwd,
       stdout: ctx.stdout,
       stderr: ctx.stderr,
+      pid: ctx.pid,
+      ppid: ctx.ppid,
     }),
     events: () => ({ EventEmitter, default: EventEmitter }),
     buffer: () => ({ Buffer }),
@@ -15,6 +15,8 @@ export interface ProcessOptions {
   cwd: string;
   stdout: CommandOutputStream;
   stderr: CommandOutputStream;
+  pid?: number;
+  ppid?: number;
 }
 
 export function createProcess(opts: ProcessOptions) {
@@ -45,8 +47,8 @@ export function createProcess(opts: ProcessOptions) {
       node: '20.0.0',
       lifo: '0.1.0',
     },
-    pid: 1,
-    ppid: 0,
+    pid: opts.pid ?? 1,
+    ppid: opts.ppid ?? 0,
     title: 'node',
     execPath: '/usr/bin/node',
     hrtime: Object.assign(
@@ -1,4 +1,4 @@
-import type { ITerminal } from '../terminal/ITerminal.js';
+import type { ITerminal, IDisposable } from '../terminal/ITerminal.js';
 
 /**
  * A Terminal-shaped class that captures output without xterm.js.
@@ -15,8 +15,13 @@ export class HeadlessTerminal implements ITerminal {
     // Headless mode: discard visual output
   }
 
-  onData(cb: (data: string) => void): void {
+  onData(cb: (data: string) => void): IDisposable {
     this.dataCallback = cb;
+    return {
+      dispose: () => {
+        if (this.dataCallback === cb) this.dataCallback = null;
+      },
+    };
   }
 
   get cols(): number {
@@ -12,9 +12,21 @@ import { createNodeCommand } from '../commands/system/node.js';
 import { createCurlCommand } from '../commands/net/curl.js';
 import { createNpmCommand } from '../commands/system/npm.js';
 import { createLifoPkgCommand, bootLifoPackages } from '../commands/system/lifo.js';
+import { createSuCommand } from '../commands/system/su.js';
+import type { RunAsFn } from '../commands/system/su.js';
+import { createSudoCommand } from '../commands/system/sudo.js';
+import { createMountCommand } from '../commands/system/mount.js';
+import { createFsckCommand } from '../commands/system/fsck.js';
+import { createPassphraseCommand } from '../commands/system/passphrase.js';
+import { createWatchexecCommand } from '../commands/system/watchexec.js';
+import { DEFAULT_USER, findUser, addUser } from '../kernel/users/index.js';
+import { createPersistenceBackend } from '../kernel/persistence/backends.js';
+import { EncryptedPersistenceBackend } from '../kernel/persistence/encryption.js';
+import type { PasswdEntry } from '../kernel/users/index.js';
 import type { VFS } from '../kernel/vfs/index.js';
-import { NativeFsProvider } from '../kernel/vfs/providers/NativeFsProvider.js';
+import { NativeFsProvider, loadNodeFs } from '../kernel/vfs/providers/NativeFsProvider.js';
 import type { NativeFsModule } from '../kernel/vfs/providers/NativeFsProvider.js';
+import { OverlayProvider } from '../kernel/vfs/providers/OverlayProvider.js';
 import type { ITerminal } from '../terminal/ITerminal.js';
 import type { SandboxOptions, SandboxCommands, SandboxFs } from './types.js';
 import { SandboxFsImpl } from './SandboxFs.js';
@@ -34,19 +46,24 @@ export class Sandbox {
   readonly shell: Shell;
 
   private _destroyed = false;
+  private user: PasswdEntry;
+  private sandboxCommands: SandboxCommandsImpl;
 
   private constructor(
     kernel: Kernel,
     shell: Shell,
-    commands: SandboxCommands,
+    commands: SandboxCommandsImpl,
     fs: SandboxFs,
     env: Record<string, string>,
+    user: PasswdEntry,
   ) {
     this.kernel = kernel;
     this.shell = shell;
     this.commands = commands;
+    this.sandboxCommands = commands;
     this.fs = fs;
     this.env = env;
+    this.user = user;
   }
 
   /** Current working directory */
@@ -64,24 +81,38 @@ export class Sandbox {
    */
   static async create(options?: SandboxOptions): Promise<Sandbox> {
     // 1. Create and boot kernel
-    const kernel = new Kernel();
-    await kernel.boot({ persist: options?.persist ?? false });
+    let backend = options?.backend;
+    if (options?.passphrase !== undefined) {
+      const inner = typeof backend === 'object' ? backend : createPersistenceBackend(backend ?? 'indexeddb');
+      backend = new EncryptedPersistenceBackend(inner, { passphrase: options.passphrase });
+    }
+    const kernel = new Kernel(backend);
+    await kernel.boot({ persist: options?.persist ?? false, sync: options?.sync });
+    if (options?.quota) kernel.vfs.setQuota(options.quota);
 
-    // 2. Create command registry
-    const registry = createDefaultRegistry();
-    bootLifoPackages(kernel.vfs, registry);
+    // 2. Resolve the session user
+    const userName = options?.user ?? DEFAULT_USER;
+    const user = findUser(kernel.vfs, userName)
+      ?? addUser(kernel.vfs, { name: userName, createHome: true });
 
-    // 3. Pre-populate files if provided
+    // 3. Pre-populate files if provided (they belong to the session user)
     if (options?.files) {
       for (const [path, content] of Object.entries(options.files)) {
-        ensureParentDirs(kernel.vfs, path);
+        ensureParentDirs(kernel.vfs, path, user);
         kernel.vfs.writeFile(path, content);
+        kernel.vfs.chown(path, user.uid, user.gid);
       }
     }
 
     // 4. Set up environment
     const defaultEnv = kernel.getDefaultEnv();
-    const env = { ...defaultEnv, ...options?.env };
+    const env = {
+      ...defaultEnv,
+      HOME: user.home,
+      USER: user.name,
+      PWD: user.home,
+      ...options?.env,
+    };
     if (options?.cwd) {
       env.PWD = options.cwd;
     }
@@ -103,59 +134,31 @@ export class Sandbox {
       shellTerminal = new HeadlessTerminal();
     }
 
-    // 6. Create shell
-    const shell = new Shell(shellTerminal, kernel.vfs, registry, env);
-
-    // 7. Register factory commands
-    const jobTable = shell.getJobTable();
-    registry.register('ps', createPsCommand(jobTable));
-    registry.register('top', createTopCommand(jobTable));
-    registry.register('kill', createKillCommand(jobTable));
-    registry.register('watch', createWatchCommand(registry));
-    registry.register('help', createHelpCommand(registry));
-    registry.register('node', createNodeCommand(kernel.portRegistry));
-    registry.register('curl', createCurlCommand(kernel.portRegistry));
-
-    // Register npm with shell execution support
-    const npmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
-      const result = await shell.execute(cmd, {
-        cwd: cmdCtx.cwd,
-        env: cmdCtx.env,
-        onStdout: (data: string) => cmdCtx.stdout.write(data),
-        onStderr: (data: string) => cmdCtx.stderr.write(data),
-      });
-      return result.exitCode;
-    };
-    registry.register('npm', createNpmCommand(registry, npmShellExecute));
-    registry.register('lifo', createLifoPkgCommand(registry, npmShellExecute));
+    // 6. Create shell, commands and fs
+    const sandbox = Sandbox.assemble(kernel, user, shellTerminal, env);
+    const shell = sandbox.shell;
 
-    // 8. Source config files
+    // 7. Source config files
     await shell.sourceFile('/etc/profile');
     await shell.sourceFile(env.HOME + '/.bashrc');
 
-    // 9. Set initial cwd if provided
+    // 8. Set initial cwd if provided
     if (options?.cwd) {
       shell.setCwd(options.cwd);
     }
 
-    // 10. Start shell (for visual mode, enables interactive input)
+    // 9. Start shell (for visual mode, enables interactive input)
     if (isVisual) {
       shell.start();
       shellTerminal.focus();
     }
 
-    // 11. Build the Sandbox
-    const getCwd = () => shell.getCwd();
-    const sandboxFs = new SandboxFsImpl(kernel.vfs, getCwd);
-    const sandboxCommands = new SandboxCommandsImpl(shell, registry);
-
-    const sandbox = new Sandbox(kernel, shell, sandboxCommands, sandboxFs, env);
-
-    // 12. Mount native filesystems if specified in options
+    // 10. Mount native filesystems if specified in options
     if (options?.mounts) {
       for (const mount of options.mounts) {
         sandbox.mountNative(mount.virtualPath, mount.hostPath, {
           readOnly: mount.readOnly,
+          overlay: mount.overlay,
           fsModule: mount.fsModule,
         });
       }
@@ -164,6 +167,88 @@ export class Sandbox {
     return sandbox;
   }
 
+  /**
+   * Create an independent, headless sandbox that starts from this one's
+   * current filesystem, environment, aliases and working directory.
+   *
+   * The filesystem is a copy-on-write clone, so forking takes the same time
+   * however much the sandbox holds, and changes made in either sandbox are
+   * not seen by the other, under in-memory mounts too. Commands added with
+   * `commands.register()` and mounts carry over, except writable host
+   * directories, which both sandboxes would write; config files are not
+   * sourced again, and the fork is never persisted.
+   */
+  fork(): Sandbox {
+    if (this._destroyed) throw new Error('Sandbox is destroyed');
+
+    const env = { ...this.shell.getEnv() };
+    const sandbox = Sandbox.assemble(this.kernel.fork(), this.user, new HeadlessTerminal(), env);
+    sandbox.shell.setCwd(this.shell.getCwd());
+    for (const [name, value] of this.shell.getAliases()) {
+      sandbox.shell.getAliases().set(name, value);
+    }
+    for (const [name, handler] of this.sandboxCommands.registered) {
+      sandbox.commands.register(name, handler);
+    }
+    return sandbox;
+  }
+
+  /**
+   * Build the registry, shell and helpers for a session run by `user` on
+   * `kernel`. Shared by create() and fork().
+   */
+  private static assemble(
+    kernel: Kernel,
+    user: PasswdEntry,
+    terminal: ITerminal,
+    env: Record<string, string>,
+  ): Sandbox {
+    const registry = createDefaultRegistry();
+    bootLifoPackages(kernel.vfs, registry);
+
+    // The session sees the VFS through the user's eyes
+    const vfs = kernel.userVfs(user.name);
+    const shell = new Shell(terminal, vfs, registry, env, kernel.processes);
+
+    // Register factory commands
+    const jobTable = shell.getJobTable();
+    const processes = shell.getProcessTable();
+    registry.register('ps', createPsCommand(processes));
+    registry.register('top', createTopCommand(processes));
+    registry.register('kill', createKillCommand(processes, jobTable));
+    registry.register('watch', createWatchCommand(registry));
+    registry.register('help', createHelpCommand(registry));
+    registry.register('node', createNodeCommand(kernel.portRegistry, kernel.processes));
+    registry.register('curl', createCurlCommand(kernel.portRegistry));
+    registry.register('mount', createMountCommand(kernel.mountTypes));
+    registry.register('fsck', createFsckCommand((options) => kernel.fsck(options)));
+    registry.register('passphrase', createPassphraseCommand((passphrase) => kernel.changePassphrase(passphrase)));
+
+    // Register npm with shell execution support
+    const npmShellExecute = async (cmd: string, cmdCtx: { cwd: string; env: Record<string, string>; stdout: { write: (s: string) => void }; stderr: { write: (s: string) => void } }) => {
+      const result = await shell.execute(cmd, {
+        cwd: cmdCtx.cwd,
+        env: cmdCtx.env,
+        onStdout: (data: string) => cmdCtx.stdout.write(data),
+        onStderr: (data: string) => cmdCtx.stderr.write(data),
+      });
+      return result.exitCode;
+    };
+    registry.register('npm', createNpmCommand(registry, npmShellExecute));
+    registry.register('lifo', createLifoPkgCommand(registry, npmShellExecute));
+    registry.register('watchexec', createWatchexecCommand(npmShellExecute));
+
+    // su/sudo run commands in a child shell acting as the target user
+    const runAs: RunAsFn = (target, cmd, cmdCtx) => shell.runAs(target, cmd, cmdCtx);
+    registry.register('su', createSuCommand(runAs));
+    registry.register('sudo', createSudoCommand(runAs));
+
+    const getCwd = () => shell.getCwd();
+    const sandboxFs = new SandboxFsImpl(vfs, getCwd, kernel.vfs);
+    const sandboxCommands = new SandboxCommandsImpl(shell, registry);
+    return new Sandbox(kernel, shell, sandboxCommands, sandboxFs, env, user);
+  }
+
   /**
    * Mount a native filesystem directory into the virtual filesystem.
    * Only works in Node.js environments (or when a custom fsModule is provided).
@@ -172,40 +257,39 @@ export class Sandbox {
    * on paths under `virtualPath` will be delegated through the VFS mount system
    * to the NativeFsProvider, which in turn delegates to the real node:fs module.
    *
+   * With `overlay`, the host directory is mounted read-only under an
+   * OverlayProvider: the sandbox can change files freely, nothing reaches
+   * disk, and the returned provider's diff() lists what was changed.
+   *
    * @param virtualPath - Path inside the virtual filesystem (e.g. "/mnt/project")
    * @param hostPath - Host filesystem path to mount (e.g. "/home/user/my-project")
-   * @param options - Optional settings: readOnly, fsModule
+   * @param options - Optional settings: readOnly, overlay, fsModule
+   * @returns The mounted provider
    */
-  mountNative(virtualPath: string, hostPath: string, options?: { readOnly?: boolean; fsModule?: NativeFsModule }): void {
+  mountNative(
+    virtualPath: string,
+    hostPath: string,
+    options?: { readOnly?: boolean; overlay?: boolean; fsModule?: NativeFsModule },
+  ): NativeFsProvider | OverlayProvider {
     if (this._destroyed) throw new Error('Sandbox is destroyed');
 
-    let fsModule = options?.fsModule;
-
+    const fsModule = options?.fsModule ?? loadNodeFs();
     if (!fsModule) {
-      // Try to get the native fs module. This only works in Node.js environments.
-      // We use a dynamic require pattern that works at runtime but avoids
-      // static analysis by bundlers.
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-require-imports
-        const mod = 'node:fs';
-        fsModule = (globalThis as unknown as Record<string, Function>).require?.(mod) as NativeFsModule | undefined;
-      } catch {
-        // globalThis.require may not exist
-      }
-
-      if (!fsModule) {
-        throw new Error(
-          'mountNative requires a Node.js environment or a custom fsModule. ' +
-          'Pass { fsModule: require("node:fs") } in a Node.js environment, ' +
-          'or provide a compatible NativeFsModule implementation.'
-        );
-      }
+      throw new Error(
+        'mountNative requires a Node.js environment or a custom fsModule. ' +
+        'Pass { fsModule: require("node:fs") } in a Node.js environment, ' +
+        'or provide a compatible NativeFsModule implementation.'
+      );
     }
 
-    const provider = new NativeFsProvider(hostPath, fsModule, {
-      readOnly: options?.readOnly ?? false,
+    const native = new NativeFsProvider(hostPath, fsModule, {
+      readOnly: (options?.readOnly || options?.overlay) ?? false,
     });
-    this.kernel.vfs.mount(virtualPath, provider);
+    const provider = options?.overlay ? new OverlayProvider(native) : native;
+    // An overlay is writable even though the host directory under it is not
+    const mountOptions = options?.overlay ? ['rw', 'overlay'] : [options?.readOnly ? 'ro' : 'rw'];
+    this.kernel.vfs.mount(virtualPath, provider, { type: 'native', source: hostPath, options: mountOptions });
+    return provider;
   }
 
   /**
@@ -255,12 +339,13 @@ export class Sandbox {
    */
   destroy(): void {
     this._destroyed = true;
+    this.kernel.sync?.close();
   }
 }
 
 // ─── Helpers ───
 
-function ensureParentDirs(vfs: VFS, filePath: string): void {
+function ensureParentDirs(vfs: VFS, filePath: string, owner: PasswdEntry): void {
   const parts = filePath.split('/').filter(Boolean);
   parts.pop(); // remove filename
   let current = '';
@@ -268,6 +353,7 @@ function ensureParentDirs(vfs: VFS, filePath: string): void {
     current += '/' + part;
     if (!vfs.exists(current)) {
       vfs.mkdir(current, { recursive: true });
+      vfs.chown(current, owner.uid, owner.gid);
     }
   }
 }
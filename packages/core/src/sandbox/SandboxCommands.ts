@@ -9,6 +9,8 @@ import type { SandboxCommands as ISandboxCommands, RunOptions, CommandResult } f
  */
 export class SandboxCommandsImpl implements ISandboxCommands {
   private queue: Promise<void> = Promise.resolve();
+  /** Commands added through register(), carried over by Sandbox.fork() */
+  readonly registered = new Map<string, Command>();
 
   constructor(
     private shell: Shell,
@@ -31,6 +33,7 @@ export class SandboxCommandsImpl implements ISandboxCommands {
   }
 
   register(name: string, handler: Command): void {
+    this.registered.set(name, handler);
     this.registry.register(name, handler);
   }
 
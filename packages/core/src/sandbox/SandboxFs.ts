@@ -1,17 +1,25 @@
-import type { VFS } from '../kernel/vfs/index.js';
+import type { VFS, FileType } from '../kernel/vfs/index.js';
 import type { SandboxFs as ISandboxFs } from './types.js';
 import { resolve, dirname } from '../utils/path.js';
 import { createTar, parseTar, compressGzip, decompressGzip } from '../utils/archive.js';
 import type { TarEntry } from '../utils/archive.js';
+import { readXattrs, writeXattrs } from '../utils/xattr.js';
+import { decode } from '../utils/encoding.js';
 
 /**
  * Async wrapper around VFS that matches the industry-standard filesystem API.
  * Sync VFS behind async interface future-proofs for async persistence.
  */
 export class SandboxFsImpl implements ISandboxFs {
+  /**
+   * `vfs` is the session's view, so files are checked against and owned by
+   * the session user. Snapshots cover the whole tree and go through
+   * `systemVfs`, which defaults to `vfs`.
+   */
   constructor(
     private vfs: VFS,
     private getCwd: () => string,
+    private systemVfs: VFS = vfs,
   ) {}
 
   private resolvePath(path: string): string {
@@ -33,12 +41,12 @@ export class SandboxFsImpl implements ISandboxFs {
     this.vfs.writeFile(abs, content);
   }
 
-  async readdir(path: string): Promise<Array<{ name: string; type: 'file' | 'directory' }>> {
+  async readdir(path: string): Promise<Array<{ name: string; type: FileType }>> {
     const abs = this.resolvePath(path);
     return this.vfs.readdir(abs);
   }
 
-  async stat(path: string): Promise<{ type: 'file' | 'directory'; size: number; mtime: number }> {
+  async stat(path: string): Promise<{ type: FileType; size: number; mtime: number }> {
     const abs = this.resolvePath(path);
     const s = this.vfs.stat(abs);
     return { type: s.type, size: s.size, mtime: s.mtime };
@@ -51,7 +59,7 @@ export class SandboxFsImpl implements ISandboxFs {
 
   async rm(path: string, options?: { recursive?: boolean }): Promise<void> {
     const abs = this.resolvePath(path);
-    const s = this.vfs.stat(abs);
+    const s = this.vfs.lstat(abs);
     if (s.type === 'directory') {
       if (options?.recursive) {
         this.vfs.rmdirRecursive(abs);
@@ -86,18 +94,56 @@ export class SandboxFsImpl implements ISandboxFs {
     }
   }
 
+  getxattr(path: string, name: string): Promise<string>;
+  getxattr(path: string, name: string, encoding: null): Promise<Uint8Array>;
+  getxattr(path: string, name: string, encoding?: null): Promise<string | Uint8Array> {
+    const abs = this.resolvePath(path);
+    try {
+      const value = this.vfs.getxattr(abs, name);
+      return Promise.resolve(encoding === null ? value : decode(value));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  async setxattr(path: string, name: string, value: string | Uint8Array): Promise<void> {
+    const abs = this.resolvePath(path);
+    this.vfs.setxattr(abs, name, value);
+  }
+
+  async listxattr(path: string): Promise<string[]> {
+    const abs = this.resolvePath(path);
+    return this.vfs.listxattr(abs);
+  }
+
+  async removexattr(path: string, name: string): Promise<void> {
+    const abs = this.resolvePath(path);
+    this.vfs.removexattr(abs, name);
+  }
+
   /** Directories to skip during export (virtual providers) */
   private static SKIP_DIRS = new Set(['/proc', '/dev']);
 
   async exportSnapshot(): Promise<Uint8Array> {
     const entries: TarEntry[] = [];
+    const seenInodes = new Map<number, string>();
 
     const walk = (absPath: string): void => {
       if (SandboxFsImpl.SKIP_DIRS.has(absPath)) return;
 
-      const stat = this.vfs.stat(absPath);
+      const stat = this.systemVfs.lstat(absPath);
+      if (stat.type === 'fifo') return;
 
-      if (stat.type === 'directory') {
+      if (stat.type === 'symlink') {
+        entries.push({
+          path: absPath,
+          data: new Uint8Array(0),
+          type: 'symlink',
+          mode: stat.mode,
+          mtime: stat.mtime,
+          linkTarget: this.systemVfs.readlink(absPath),
+        });
+      } else if (stat.type === 'directory') {
         // Add directory entry (skip root itself)
         if (absPath !== '/') {
           entries.push({
@@ -106,21 +152,37 @@ export class SandboxFsImpl implements ISandboxFs {
             type: 'directory',
             mode: stat.mode,
             mtime: stat.mtime,
+            xattrs: readXattrs(this.systemVfs, absPath),
           });
         }
 
-        const children = this.vfs.readdir(absPath);
+        const children = this.systemVfs.readdir(absPath);
         for (const child of children) {
           const childPath = absPath === '/' ? `/${child.name}` : `${absPath}/${child.name}`;
           walk(childPath);
         }
       } else {
+        const ino = (stat.nlink ?? 1) > 1 ? stat.ino : undefined;
+        const first = ino !== undefined ? seenInodes.get(ino) : undefined;
+        if (first !== undefined) {
+          entries.push({
+            path: absPath,
+            data: new Uint8Array(0),
+            type: 'link',
+            mode: stat.mode,
+            mtime: stat.mtime,
+            linkTarget: first,
+          });
+          return;
+        }
+        if (ino !== undefined) seenInodes.set(ino, absPath);
         entries.push({
           path: absPath,
-          data: this.vfs.readFile(absPath),
+          data: this.systemVfs.readFile(absPath),
           type: 'file',
           mode: stat.mode,
           mtime: stat.mtime,
+          xattrs: readXattrs(this.systemVfs, absPath),
         });
       }
     };
@@ -135,25 +197,44 @@ export class SandboxFsImpl implements ISandboxFs {
     const tar = await decompressGzip(data);
     const entries = parseTar(tar);
 
-    // Process directories first, then files, to ensure parents exist
+    // Process directories first, then files, then links, to ensure parents
+    // and hard link targets exist
     const dirs = entries.filter((e) => e.type === 'directory');
     const files = entries.filter((e) => e.type === 'file');
+    const links = entries.filter((e) => e.type === 'symlink' || e.type === 'link');
 
     for (const entry of dirs) {
       const path = entry.path.startsWith('/') ? entry.path : '/' + entry.path;
-      if (!this.vfs.exists(path)) {
-        this.vfs.mkdir(path, { recursive: true });
+      if (!this.systemVfs.exists(path)) {
+        this.systemVfs.mkdir(path, { recursive: true });
       }
+      writeXattrs(this.systemVfs, path, entry.xattrs);
     }
 
     for (const entry of files) {
       const path = entry.path.startsWith('/') ? entry.path : '/' + entry.path;
       // Ensure parent directory exists
       const parent = dirname(path);
-      if (parent !== '/' && !this.vfs.exists(parent)) {
-        this.vfs.mkdir(parent, { recursive: true });
+      if (parent !== '/' && !this.systemVfs.exists(parent)) {
+        this.systemVfs.mkdir(parent, { recursive: true });
+      }
+      this.systemVfs.writeFile(path, entry.data);
+      writeXattrs(this.systemVfs, path, entry.xattrs);
+    }
+
+    for (const entry of links) {
+      const path = entry.path.startsWith('/') ? entry.path : '/' + entry.path;
+      const parent = dirname(path);
+      if (parent !== '/' && !this.systemVfs.exists(parent)) {
+        this.systemVfs.mkdir(parent, { recursive: true });
+      }
+      try { this.systemVfs.unlink(path); } catch { /* missing */ }
+      const target = entry.linkTarget ?? '';
+      if (entry.type === 'symlink') {
+        this.systemVfs.symlink(target, path);
+      } else {
+        this.systemVfs.link(target.startsWith('/') ? target : '/' + target, path);
       }
-      this.vfs.writeFile(path, entry.data);
     }
   }
 }
@@ -3,18 +3,50 @@ import type { Kernel } from '../kernel/index.js';
 import type { Shell } from '../shell/Shell.js';
 import type { ITerminal } from '../terminal/ITerminal.js';
 import type { NativeFsModule } from '../kernel/vfs/providers/NativeFsProvider.js';
+import type { FileType, Quota } from '../kernel/vfs/types.js';
+import type { PersistenceBackend, PersistenceBackendKind } from '../kernel/persistence/backends.js';
+import type { SyncOptions } from '../kernel/sync/TabSync.js';
 
 // ─── Sandbox Options ───
 
 export interface SandboxOptions {
-  /** Enable IndexedDB persistence (default: false) */
+  /** Enable persistence (default: false) */
   persist?: boolean;
+  /**
+   * Where to persist when `persist` is set: 'indexeddb' (default), 'opfs'
+   * (migrating an existing IndexedDB image on first use), 'memory', or a
+   * custom backend.
+   */
+  backend?: PersistenceBackendKind | PersistenceBackend;
+  /**
+   * Encrypt the persisted filesystem with this passphrase (AES-GCM, key
+   * derived with PBKDF2). A plaintext image is encrypted on first use; a
+   * wrong passphrase makes `create()` reject with a PassphraseError.
+   */
+  passphrase?: string;
+  /**
+   * Share the persisted filesystem with sandboxes in other tabs: changes made
+   * in one appear in the others, and only one of them writes to the backend
+   * (requires `persist`).
+   */
+  sync?: boolean | SyncOptions;
   /** Extra environment variables (merged with defaults) */
   env?: Record<string, string>;
-  /** Initial working directory (default: /home/user) */
+  /** Initial working directory (default: the user's home, /home/user) */
   cwd?: string;
+  /**
+   * Account the session runs as (default: "user", uid 1000). File access is
+   * checked against its uid and groups. An unknown name is created like
+   * `useradd -m`, as an unprivileged user outside the sudo group.
+   */
+  user?: string;
   /** Pre-populate files: path → content */
   files?: Record<string, string | Uint8Array>;
+  /**
+   * Cap on what the filesystem may hold, in bytes of file content and
+   * number of nodes (default: unlimited). Writes past it fail with ENOSPC.
+   */
+  quota?: Quota;
   /** Attach a pre-created ITerminal for visual mode */
   terminal?: ITerminal;
   /**
@@ -28,6 +60,11 @@ export interface SandboxOptions {
     hostPath: string;
     /** If true, the mount is read-only (default: false) */
     readOnly?: boolean;
+    /**
+     * If true, writes land in an in-memory layer over the host directory,
+     * which is never modified (default: false). See OverlayProvider.
+     */
+    overlay?: boolean;
     /** Custom fs module implementing NativeFsModule. If omitted, node:fs is used. */
     fsModule?: NativeFsModule;
   }>;
@@ -71,15 +108,25 @@ export interface SandboxFs {
   readFile(path: string): Promise<string>;
   readFile(path: string, encoding: null): Promise<Uint8Array>;
   writeFile(path: string, content: string | Uint8Array): Promise<void>;
-  readdir(path: string): Promise<Array<{ name: string; type: 'file' | 'directory' }>>;
-  stat(path: string): Promise<{ type: 'file' | 'directory'; size: number; mtime: number }>;
+  readdir(path: string): Promise<Array<{ name: string; type: FileType }>>;
+  stat(path: string): Promise<{ type: FileType; size: number; mtime: number }>;
   mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
   rm(path: string, options?: { recursive?: boolean }): Promise<void>;
   exists(path: string): Promise<boolean>;
   rename(oldPath: string, newPath: string): Promise<void>;
   cp(src: string, dest: string): Promise<void>;
   writeFiles(files: Array<{ path: string; content: string | Uint8Array }>): Promise<void>;
-  /** Export entire VFS as a tar.gz snapshot */
+  /**
+   * Extended attributes: `user.*` names for anything, e.g. provenance tags;
+   * `user.mime_type` overrides the MIME type guessed from the extension.
+   * getxattr rejects with ENODATA if the attribute is not set.
+   */
+  getxattr(path: string, name: string): Promise<string>;
+  getxattr(path: string, name: string, encoding: null): Promise<Uint8Array>;
+  setxattr(path: string, name: string, value: string | Uint8Array): Promise<void>;
+  listxattr(path: string): Promise<string[]>;
+  removexattr(path: string, name: string): Promise<void>;
+  /** Export entire VFS (extended attributes included) as a tar.gz snapshot */
   exportSnapshot(): Promise<Uint8Array>;
   /** Restore VFS from a tar.gz snapshot */
   importSnapshot(data: Uint8Array): Promise<void>;
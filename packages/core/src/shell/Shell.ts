@@ -1,16 +1,24 @@
 import type { ITerminal } from '../terminal/ITerminal.js';
 import type { VFS } from '../kernel/vfs/index.js';
 import type { CommandRegistry } from '../commands/registry.js';
-import type { CommandOutputStream } from '../commands/types.js';
+import type { CommandContext, CommandOutputStream } from '../commands/types.js';
 import { resolve } from '../utils/path.js';
 import { BOLD, GREEN, BLUE, RESET } from '../utils/colors.js';
-import { VFSError } from '../kernel/vfs/index.js';
+import { VFSError, X_OK } from '../kernel/vfs/index.js';
+import { credentialsFor } from '../kernel/users/index.js';
+import type { PasswdEntry } from '../kernel/users/index.js';
 import { Interpreter, type BuiltinFn, type InterpreterConfig } from './interpreter.js';
 import { HistoryManager } from './history.js';
 import { JobTable } from './jobs.js';
+import { ProcessTable } from '../kernel/process/index.js';
+import type { Process } from '../kernel/process/index.js';
 import { complete, type CompletionContext } from './completer.js';
 import { evaluateTest } from './test-builtin.js';
 import { TerminalStdin } from './terminal-stdin.js';
+import { hasOpenHeredoc } from './lexer.js';
+
+/** Prompt for the lines of a here-document typed at the terminal (PS2). */
+const CONTINUATION_PROMPT = '> ';
 
 export interface ExecuteOptions {
   cwd?: string;
@@ -33,6 +41,8 @@ export class Shell {
   // Line editing state
   private lineBuffer: string = '';
   private cursorPos: number = 0;
+  // Lines entered so far of a command whose here-documents are still open
+  private pendingInput: string = '';
 
   // History (legacy array kept for backward compat with tests)
   private history: string[] = [];
@@ -51,6 +61,8 @@ export class Shell {
   private interpreterConfig: InterpreterConfig;
   private historyManager: HistoryManager;
   private jobTable: JobTable;
+  private processes: ProcessTable;
+  private process: Process;
   private builtins: Map<string, BuiltinFn>;
 
   // Tab completion state
@@ -61,12 +73,26 @@ export class Shell {
     vfs: VFS,
     registry: CommandRegistry,
     env: Record<string, string>,
+    processes: ProcessTable = new ProcessTable(),
   ) {
     this.terminal = terminal;
     this.vfs = vfs;
     this.registry = registry;
     this.cwd = env['HOME'] ?? '/home/user';
     this.env = { ...env };
+    // A shell started from another one (su, sudo) is a level deeper
+    this.env['SHLVL'] = String((parseInt(env['SHLVL'] ?? '0', 10) || 0) + 1);
+
+    // The shell itself is a process; commands it runs are its children
+    this.processes = processes;
+    this.process = processes.spawn({
+      ppid: 0,
+      argv: ['sh'],
+      cwd: this.cwd,
+      env: this.env,
+      uid: vfs.getCredentials().uid,
+    });
+    this.env['BASHPID'] = String(this.process.pid);
 
     // Initialize builtins
     this.builtins = new Map<string, BuiltinFn>();
@@ -83,7 +109,7 @@ export class Shell {
     this.interpreterConfig = {
       env: this.env,
       getCwd: () => this.cwd,
-      setCwd: (cwd: string) => { this.cwd = cwd; },
+      setCwd: (cwd: string) => { this.setCwd(cwd); },
       vfs: this.vfs,
       registry: this.registry,
       builtins: this.builtins,
@@ -91,16 +117,20 @@ export class Shell {
       writeToTerminal: (text: string) => this.writeToTerminal(text),
       aliases: this.aliases,
       getAbortSignal: () => this.abortController?.signal ?? new AbortController().signal,
+      processes: this.processes,
+      pid: this.process.pid,
     };
     this.interpreter = new Interpreter(this.interpreterConfig);
   }
 
   private registerBuiltins(): void {
-    this.builtins.set('cd', (args, _stdout, stderr) => this.builtinCd(args, stderr));
-    this.builtins.set('pwd', (_args, stdout) => this.builtinPwd(stdout));
+    // Builtins that change the shell's state act on the interpreter running
+    // them, which inside ( ... ) is the subshell's rather than this.interpreter
+    this.builtins.set('cd', (args, _stdout, stderr, _stdin, shell) => this.builtinCd(args, stderr, shell));
+    this.builtins.set('pwd', (_args, stdout, _stderr, _stdin, shell) => this.builtinPwd(stdout, shell));
     this.builtins.set('echo', (args, stdout) => this.builtinEcho(args, stdout));
     this.builtins.set('clear', () => this.builtinClear());
-    this.builtins.set('export', (args) => this.builtinExport(args));
+    this.builtins.set('export', (args, _stdout, _stderr, _stdin, shell) => this.builtinExport(args, shell));
     this.builtins.set('exit', (_args, stdout) => this.builtinExit(stdout));
     this.builtins.set('true', () => Promise.resolve(0));
     this.builtins.set('false', () => Promise.resolve(1));
@@ -108,10 +138,10 @@ export class Shell {
     this.builtins.set('fg', (args, stdout, stderr) => this.builtinFg(args, stdout, stderr));
     this.builtins.set('bg', (args, stdout, stderr) => this.builtinBg(args, stdout, stderr));
     this.builtins.set('history', (_args, stdout) => this.builtinHistory(stdout));
-    this.builtins.set('source', (args, _stdout, stderr) => this.builtinSource(args, stderr));
-    this.builtins.set('.', (args, _stdout, stderr) => this.builtinSource(args, stderr));
-    this.builtins.set('alias', (args, stdout) => this.builtinAlias(args, stdout));
-    this.builtins.set('unalias', (args, _stdout, stderr) => this.builtinUnalias(args, stderr));
+    this.builtins.set('source', (args, _stdout, stderr, _stdin, shell) => this.builtinSource(args, stderr, shell));
+    this.builtins.set('.', (args, _stdout, stderr, _stdin, shell) => this.builtinSource(args, stderr, shell));
+    this.builtins.set('alias', (args, stdout, _stderr, _stdin, shell) => this.builtinAlias(args, stdout, shell));
+    this.builtins.set('unalias', (args, _stdout, stderr, _stdin, shell) => this.builtinUnalias(args, stderr, shell));
     this.builtins.set('test', (_args, _stdout, stderr) =>
       Promise.resolve(evaluateTest(_args, this.vfs, stderr)));
     this.builtins.set('[', (_args, _stdout, stderr) =>
@@ -122,18 +152,32 @@ export class Shell {
     return this.jobTable;
   }
 
+  getProcessTable(): ProcessTable {
+    return this.processes;
+  }
+
+  /** PID of the shell process */
+  getPid(): number {
+    return this.process.pid;
+  }
+
   getCwd(): string {
     return this.cwd;
   }
 
   setCwd(cwd: string): void {
     this.cwd = cwd;
+    this.process.cwd = cwd;
   }
 
   getEnv(): Record<string, string> {
     return this.env;
   }
 
+  getAliases(): Map<string, string> {
+    return this.aliases;
+  }
+
   getVfs(): VFS {
     return this.vfs;
   }
@@ -182,7 +226,7 @@ export class Shell {
 
     // Apply per-call overrides
     if (options?.cwd) {
-      this.cwd = options.cwd;
+      this.setCwd(options.cwd);
     }
     if (options?.env) {
       Object.assign(this.env, options.env);
@@ -209,11 +253,42 @@ export class Shell {
       this.interpreterConfig.defaultStderr = prevDefaultStderr;
       this.interpreterConfig.writeToTerminal = prevWriteToTerminal;
       if (prevCwd !== undefined) {
-        this.cwd = prevCwd;
+        this.setCwd(prevCwd);
       }
     }
   }
 
+  /**
+   * Run `cmd` in a child shell acting as `user`, in the calling command's
+   * cwd and with its output streams. The child has its own env, aliases and
+   * functions, and its filesystem access is checked against the user's
+   * credentials. Backs `su` and `sudo` (see RunAsFn).
+   */
+  async runAs(user: PasswdEntry, cmd: string, ctx: CommandContext): Promise<number> {
+    const env = {
+      ...ctx.env,
+      HOME: user.home,
+      USER: user.name,
+      LOGNAME: user.name,
+      SHELL: user.shell,
+    };
+    const vfs = this.vfs.asUser(credentialsFor(this.vfs, user));
+    const child = new Shell(this.terminal, vfs, this.registry, env, this.processes);
+    child.process.ppid = ctx.pid ?? this.process.pid;
+
+    try {
+      const result = await child.execute(cmd, {
+        cwd: ctx.cwd,
+        onStdout: (data: string) => ctx.stdout.write(data),
+        onStderr: (data: string) => ctx.stderr.write(data),
+      });
+      return result.exitCode;
+    } finally {
+      this.processes.exit(child.getPid(), 0);
+      this.processes.reap(child.getPid());
+    }
+  }
+
   start(): void {
     this.terminal.onData((data) => this.handleInput(data));
 
@@ -290,6 +365,7 @@ export class Shell {
         this.terminal.write('^C\r\n');
         this.lineBuffer = '';
         this.cursorPos = 0;
+        this.pendingInput = '';
         this.printPrompt();
       }
       return;
@@ -343,11 +419,19 @@ export class Shell {
     // Enter
     if (data === '\r') {
       this.terminal.write('\r\n');
-      const line = this.lineBuffer.trim();
+      // Here-document lines are kept as typed, leading tabs and all
+      const line = this.pendingInput ? this.pendingInput + this.lineBuffer : this.lineBuffer.trim();
       this.lineBuffer = '';
       this.cursorPos = 0;
       this.historyIndex = -1;
 
+      if (hasOpenHeredoc(line)) {
+        this.pendingInput = line + '\n';
+        this.terminal.write(CONTINUATION_PROMPT);
+        return;
+      }
+      this.pendingInput = '';
+
       if (line) {
         this.history.push(line);
         this.executeLine(line);
@@ -545,6 +629,12 @@ export class Shell {
     // Move cursor to start of input (back by old visual cursor pos is tricky, so just use \r and rewrite prompt)
     this.terminal.write('\r');
     // Rewrite prompt
+    if (this.pendingInput) {
+      this.terminal.write(CONTINUATION_PROMPT + this.lineBuffer + '\x1b[K');
+      const back = this.lineBuffer.length - this.cursorPos;
+      if (back > 0) this.terminal.write(`\x1b[${back}D`);
+      return;
+    }
     const home = this.env['HOME'] ?? '/home/user';
     let displayPath = this.cwd;
     if (this.cwd === home) {
@@ -659,17 +749,19 @@ export class Shell {
 
   // ─── Builtins (now with stdout/stderr params for pipe support) ───
 
-  private async builtinCd(args: string[], stderr: CommandOutputStream): Promise<number> {
-    const target = args[0] ?? this.env['HOME'] ?? '/home/user';
+  private async builtinCd(args: string[], stderr: CommandOutputStream, shell: Interpreter): Promise<number> {
+    const env = shell.getEnv();
+    const cwd = shell.getCwd();
+    const target = args[0] ?? env['HOME'] ?? '/home/user';
     let newPath: string;
 
     if (target === '-') {
-      newPath = this.env['OLDPWD'] ?? this.cwd;
+      newPath = env['OLDPWD'] ?? cwd;
     } else if (target === '~' || target.startsWith('~/')) {
-      const home = this.env['HOME'] ?? '/home/user';
+      const home = env['HOME'] ?? '/home/user';
       newPath = target === '~' ? home : resolve(home, target.slice(2));
     } else {
-      newPath = resolve(this.cwd, target);
+      newPath = resolve(cwd, target);
     }
 
     try {
@@ -678,8 +770,9 @@ export class Shell {
         stderr.write(`cd: ${target}: Not a directory\n`);
         return 1;
       }
-      this.env['OLDPWD'] = this.cwd;
-      this.cwd = newPath;
+      this.vfs.access(newPath, X_OK);
+      env['OLDPWD'] = cwd;
+      shell.setCwd(newPath);
       return 0;
     } catch (e) {
       if (e instanceof VFSError) {
@@ -690,8 +783,8 @@ export class Shell {
     }
   }
 
-  private async builtinPwd(stdout: CommandOutputStream): Promise<number> {
-    stdout.write(this.cwd + '\n');
+  private async builtinPwd(stdout: CommandOutputStream, shell: Interpreter): Promise<number> {
+    stdout.write(shell.getCwd() + '\n');
     return 0;
   }
 
@@ -705,13 +798,13 @@ export class Shell {
     return 0;
   }
 
-  private async builtinExport(args: string[]): Promise<number> {
+  private async builtinExport(args: string[], shell: Interpreter): Promise<number> {
     for (const arg of args) {
       const eqIdx = arg.indexOf('=');
       if (eqIdx !== -1) {
         const key = arg.slice(0, eqIdx);
         const value = arg.slice(eqIdx + 1);
-        this.env[key] = value;
+        shell.getEnv()[key] = value;
       }
     }
     return 0;
@@ -787,15 +880,15 @@ export class Shell {
     }
   }
 
-  private async builtinSource(args: string[], stderr: CommandOutputStream): Promise<number> {
+  private async builtinSource(args: string[], stderr: CommandOutputStream, shell: Interpreter): Promise<number> {
     if (args.length === 0) {
       stderr.write('source: missing filename\n');
       return 1;
     }
-    const path = resolve(this.cwd, args[0]);
+    const path = resolve(shell.getCwd(), args[0]);
     try {
       const content = this.vfs.readFileString(path);
-      await this.interpreter.executeLine(content);
+      await shell.executeLine(content);
       return 0;
     } catch {
       stderr.write(`source: ${args[0]}: No such file\n`);
@@ -803,9 +896,10 @@ export class Shell {
     }
   }
 
-  private async builtinAlias(args: string[], stdout: CommandOutputStream): Promise<number> {
+  private async builtinAlias(args: string[], stdout: CommandOutputStream, shell: Interpreter): Promise<number> {
+    const aliases = shell.getAliases() ?? this.aliases;
     if (args.length === 0) {
-      for (const [name, value] of this.aliases) {
+      for (const [name, value] of aliases) {
         stdout.write(`alias ${name}='${value}'\n`);
       }
       return 0;
@@ -816,9 +910,9 @@ export class Shell {
       if (eqIdx !== -1) {
         const name = arg.slice(0, eqIdx);
         const value = arg.slice(eqIdx + 1);
-        this.aliases.set(name, value);
+        aliases.set(name, value);
       } else {
-        const value = this.aliases.get(arg);
+        const value = aliases.get(arg);
         if (value !== undefined) {
           stdout.write(`alias ${arg}='${value}'\n`);
         } else {
@@ -829,13 +923,14 @@ export class Shell {
     return 0;
   }
 
-  private async builtinUnalias(args: string[], stderr: CommandOutputStream): Promise<number> {
+  private async builtinUnalias(args: string[], stderr: CommandOutputStream, shell: Interpreter): Promise<number> {
     if (args.length === 0) {
       stderr.write('unalias: usage: unalias name ...\n');
       return 1;
     }
+    const aliases = shell.getAliases() ?? this.aliases;
     for (const name of args) {
-      if (!this.aliases.delete(name)) {
+      if (!aliases.delete(name)) {
         stderr.write(`unalias: ${name}: not found\n`);
       }
     }
@@ -1,9 +1,21 @@
 import type { WordPart } from './types.js';
 import type { VFS } from '../kernel/vfs/index.js';
 import { expandGlob, globMatch } from '../utils/glob.js';
+import {
+  getVariable,
+  setVariable,
+  nextIndex,
+  variableValues,
+  variableKeys,
+  positionalParams,
+  type ShellArray,
+  type Variables,
+} from './variables.js';
 
 export interface ExpandContext {
   env: Record<string, string>;
+  /** Array variables, kept apart from env (see variables.ts) */
+  arrays: Map<string, ShellArray>;
   lastExitCode: number;
   cwd: string;
   vfs: VFS;
@@ -12,20 +24,21 @@ export interface ExpandContext {
 
 /**
  * Expand all words for a command's arguments.
- * Handles variable expansion, tilde expansion, glob expansion, and command substitution.
+ * Handles brace expansion, variable expansion, tilde expansion, glob expansion,
+ * and command substitution. A word can expand to several: `"${arr[@]}"` and
+ * `"$@"` give one per element.
  */
 export async function expandWords(words: WordPart[][], ctx: ExpandContext): Promise<string[]> {
   const results: string[] = [];
 
-  for (const word of words) {
-    const expanded = await expandWordParts(word, ctx);
+  for (const word of words.flatMap(expandBraces)) {
+    const fields = await expandWordFields(word, ctx);
 
     // Glob expansion only for unquoted parts
-    if (hasUnquotedGlob(word, expanded)) {
-      const globResults = expandGlob(expanded, ctx.cwd, ctx.vfs);
-      results.push(...globResults);
+    if (hasUnquotedGlob(word)) {
+      for (const field of fields) results.push(...expandGlob(field, ctx.cwd, ctx.vfs));
     } else {
-      results.push(expanded);
+      results.push(...fields);
     }
   }
 
@@ -34,25 +47,59 @@ export async function expandWords(words: WordPart[][], ctx: ExpandContext): Prom
 
 /**
  * Expand a single word (e.g., for redirect targets).
- * No glob expansion.
+ * No glob expansion; array elements are joined with spaces.
  */
 export async function expandWord(parts: WordPart[], ctx: ExpandContext): Promise<string> {
-  return expandWordParts(parts, ctx);
+  return (await expandWordFields(parts, ctx)).join(' ');
 }
 
-async function expandWordParts(parts: WordPart[], ctx: ExpandContext): Promise<string> {
-  let result = '';
+/**
+ * The words one word expands to. Usually that is one, but a list expansion
+ * (`${arr[@]}`, `$@`) adds a word per element, the first and last joining
+ * the text around them; if it has no elements and the word nothing else,
+ * there is no word at all.
+ */
+class Fields {
+  private fields = [''];
+  private content = false;
+  private listItems = -1;
+
+  /** Nothing has been added yet, for tilde expansion */
+  get empty(): boolean {
+    return !this.content && this.listItems === -1;
+  }
+
+  add(text: string): void {
+    this.fields[this.fields.length - 1] += text;
+    this.content = true;
+  }
+
+  addList(items: string[]): void {
+    this.listItems = Math.max(this.listItems, 0) + items.length;
+    if (items.length === 0) return;
+    this.fields[this.fields.length - 1] += items[0];
+    this.fields.push(...items.slice(1));
+  }
+
+  result(): string[] {
+    return !this.content && this.listItems === 0 ? [] : this.fields;
+  }
+}
+
+async function expandWordFields(parts: WordPart[], ctx: ExpandContext): Promise<string[]> {
+  const fields = new Fields();
 
   for (const part of parts) {
     switch (part.quoted) {
       case 'single':
         // Single quotes: literal, no expansion
-        result += part.text;
+        fields.add(part.text);
         break;
 
       case 'double':
         // Double quotes: expand variables and command substitution, no glob
-        result += await expandVariablesAndSubst(part.text, ctx);
+        if (part.text === '') fields.add('');
+        await expandText(part.text, true, fields, ctx);
         break;
 
       case 'none': {
@@ -60,7 +107,7 @@ async function expandWordParts(parts: WordPart[], ctx: ExpandContext): Promise<s
         let text = part.text;
 
         // Tilde expansion at word start
-        if (result === '' && text.startsWith('~')) {
+        if (fields.empty && text.startsWith('~')) {
           const home = ctx.env['HOME'] ?? '/home/user';
           if (text === '~') {
             text = home;
@@ -69,37 +116,68 @@ async function expandWordParts(parts: WordPart[], ctx: ExpandContext): Promise<s
           }
         }
 
-        text = await expandVariablesAndSubst(text, ctx);
-        result += text;
+        await expandText(text, false, fields, ctx);
         break;
       }
     }
   }
 
-  return result;
+  return fields.result();
 }
 
-async function expandVariablesAndSubst(text: string, ctx: ExpandContext): Promise<string> {
-  let result = '';
+async function expandText(text: string, quoted: boolean, fields: Fields, ctx: ExpandContext): Promise<void> {
   let i = 0;
 
   while (i < text.length) {
     if (text[i] === '$') {
-      const expanded = await expandDollar(text, i, ctx);
-      result += expanded.value;
+      const expanded = await expandDollar(text, i, ctx, quoted);
+      if (Array.isArray(expanded.value)) fields.addList(expanded.value);
+      else fields.add(expanded.value);
       i = expanded.end;
     } else {
-      result += text[i];
+      fields.add(text[i]);
       i++;
     }
   }
+}
 
-  return result;
+/** Expand text as if double-quoted, into one string. */
+async function expandVariablesAndSubst(text: string, ctx: ExpandContext): Promise<string> {
+  const fields = new Fields();
+  await expandText(text, true, fields, ctx);
+  return fields.result().join(' ');
+}
+
+/**
+ * `"${arr[@]}"` is a list of words; `"${arr[*]}"` joins them into one with
+ * the first character of $IFS: a space if IFS is unset, nothing if it is empty.
+ */
+function listOrJoined(items: string[], star: boolean, quoted: boolean, ctx: ExpandContext): string | string[] {
+  if (!star || !quoted) return items;
+  return items.join((getVariable(ctx, 'IFS') ?? ' ').charAt(0));
+}
+
+/**
+ * The key `${name[subscript]}` refers to: the expanded subscript for an
+ * associative array, or an arithmetic index, counted from the end if negative.
+ */
+export async function arrayKey(name: string, subscript: string, ctx: ExpandContext): Promise<string> {
+  return subscriptKey(name, await expandVariablesAndSubst(subscript, ctx), ctx);
+}
+
+/** The key an already expanded subscript of `name` refers to (see arrayKey). */
+function subscriptKey(name: string, subscript: string, vars: Variables): string {
+  const array = vars.arrays.get(name);
+  if (array?.associative) return subscript;
+
+  let index = evaluateArithmetic(subscript, vars);
+  if (index < 0) index += array ? nextIndex(array) : 1;
+  return String(index);
 }
 
 async function expandDollar(
-  text: string, pos: number, ctx: ExpandContext,
-): Promise<{ value: string; end: number }> {
+  text: string, pos: number, ctx: ExpandContext, quoted: boolean,
+): Promise<{ value: string | string[]; end: number }> {
   const next = text[pos + 1];
 
   if (next === undefined) {
@@ -116,9 +194,9 @@ async function expandDollar(
     return { value: ctx.env['#'] ?? '0', end: pos + 2 };
   }
 
-  // $@ -- all positional parameters
-  if (next === '@') {
-    return { value: ctx.env['@'] ?? '', end: pos + 2 };
+  // $@ and $* -- all positional parameters
+  if (next === '@' || next === '*') {
+    return { value: listOrJoined(positionalParams(ctx.env), next === '*', quoted, ctx), end: pos + 2 };
   }
 
   // $((...)) -- arithmetic expansion
@@ -141,8 +219,9 @@ async function expandDollar(
         j++;
       }
     }
-    const expr = text.slice(pos + 3, j - 2);
-    const result = evaluateArithmetic(expr, ctx.env);
+    // Parameters and substitutions are expanded before evaluating, as in bash
+    const expr = await expandVariablesAndSubst(text.slice(pos + 3, j - 2), ctx);
+    const result = evaluateArithmetic(expr, ctx);
     return { value: String(result), end: j };
   }
 
@@ -175,7 +254,7 @@ async function expandDollar(
       j++;
     }
     const inner = text.slice(pos + 2, j - 1);
-    const value = expandBracedVar(inner, ctx);
+    const value = await expandBracedVar(inner, ctx, quoted);
     return { value, end: j };
   }
 
@@ -191,26 +270,60 @@ async function expandDollar(
       j++;
     }
     const name = text.slice(pos + 1, j);
-    return { value: ctx.env[name] ?? '', end: j };
+    return { value: getVariable(ctx, name) ?? '', end: j };
   }
 
   // Unrecognized $ sequence -- literal
   return { value: '$', end: pos + 1 };
 }
 
-function expandBracedVar(inner: string, ctx: ExpandContext): string {
+async function expandBracedVar(inner: string, ctx: ExpandContext, quoted: boolean): Promise<string | string[]> {
+  // ${#arr[@]} -- number of elements; ${#arr[i]} -- length of one
+  {
+    const match = inner.match(/^#([a-zA-Z_][a-zA-Z0-9_]*)\[(.*)\]$/s);
+    if (match) {
+      if (match[2] === '@' || match[2] === '*') return String(variableValues(ctx, match[1]).length);
+      const key = await arrayKey(match[1], match[2], ctx);
+      return String((getVariable(ctx, match[1], key) ?? '').length);
+    }
+  }
+
+  // ${!arr[@]} -- the indices, or keys
+  {
+    const match = inner.match(/^!([a-zA-Z_][a-zA-Z0-9_]*)\[([@*])\]$/);
+    if (match) return listOrJoined(variableKeys(ctx, match[1]), match[2] === '*', quoted, ctx);
+  }
+
+  // ${arr[@]}, ${arr[*]}, ${@:2} and ${arr[@]:offset:length} -- all elements, or a slice
+  {
+    const match = inner.match(/^(?:([a-zA-Z_][a-zA-Z0-9_]*)\[([@*])\]|([@*]))(?::\s*(-?\d+)(?::(\d+))?)?$/);
+    if (match) {
+      // $@ counts from $0, so ${@:1} is all of them
+      let items = match[1] !== undefined ? variableValues(ctx, match[1]) : ['', ...positionalParams(ctx.env)];
+      let offset = match[4] !== undefined ? parseInt(match[4], 10) : match[1] !== undefined ? 0 : 1;
+      if (offset < 0) offset = Math.max(0, items.length + offset);
+      items = items.slice(offset, match[5] !== undefined ? offset + parseInt(match[5], 10) : undefined);
+      return listOrJoined(items, (match[2] ?? match[3]) === '*', quoted, ctx);
+    }
+  }
+
+  // The rest work on one value: a scalar, or an element as in ${arr[1]:-x}
+  const ref = inner.match(/^#?([a-zA-Z_][a-zA-Z0-9_]*)(?:\[([^\]]*)\])?/);
+  const name = ref?.[1] ?? '';
+  const key = ref?.[2] !== undefined ? await arrayKey(name, ref[2], ctx) : undefined;
+  if (ref?.[2] !== undefined) inner = inner.slice(0, ref[0].length - ref[2].length - 2) + inner.slice(ref[0].length);
+  const value = ref ? getVariable(ctx, name, key) : undefined;
+
   // ${#VAR} -- string length
   if (inner.startsWith('#') && /^#[a-zA-Z_][a-zA-Z0-9_]*$/.test(inner)) {
-    const varName = inner.slice(1);
-    const val = ctx.env[varName] ?? '';
-    return String(val.length);
+    return String((value ?? '').length);
   }
 
   // ${VAR:offset:length} and ${VAR:offset}
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*):(-?\d+)(?::(\d+))?$/);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       let offset = parseInt(match[2], 10);
       if (offset < 0) offset = Math.max(0, val.length + offset);
       if (match[3] !== undefined) {
@@ -225,7 +338,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*):-(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]];
+      const val = value;
       return (val !== undefined && val !== '') ? val : match[2];
     }
   }
@@ -234,9 +347,9 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*):=(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]];
+      const val = value;
       if (val !== undefined && val !== '') return val;
-      ctx.env[match[1]] = match[2];
+      setVariable(ctx, name, match[2], key);
       return match[2];
     }
   }
@@ -245,7 +358,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*):\+(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]];
+      const val = value;
       return (val !== undefined && val !== '') ? match[2] : '';
     }
   }
@@ -254,7 +367,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*):\?(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]];
+      const val = value;
       if (val !== undefined && val !== '') return val;
       throw new Error(`${match[1]}: ${match[2] || 'parameter null or not set'}`);
     }
@@ -264,7 +377,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\/\/([^/]*)\/(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       const pattern = match[2];
       const replacement = match[3];
       return replaceAll(val, pattern, replacement);
@@ -275,7 +388,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\/([^/]*)\/(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       const pattern = match[2];
       const replacement = match[3];
       return replaceFirst(val, pattern, replacement);
@@ -286,7 +399,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*)##(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       const pattern = match[2];
       // Try longest prefix first
       for (let i = val.length; i >= 0; i--) {
@@ -302,7 +415,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*)#(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       const pattern = match[2];
       for (let i = 0; i <= val.length; i++) {
         if (globMatch(pattern, val.slice(0, i))) {
@@ -317,7 +430,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*)%%(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       const pattern = match[2];
       for (let i = 0; i <= val.length; i++) {
         if (globMatch(pattern, val.slice(i))) {
@@ -332,7 +445,7 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
   {
     const match = inner.match(/^([a-zA-Z_][a-zA-Z0-9_]*)%(.*)$/s);
     if (match) {
-      const val = ctx.env[match[1]] ?? '';
+      const val = value ?? '';
       const pattern = match[2];
       for (let i = val.length; i >= 0; i--) {
         if (globMatch(pattern, val.slice(i))) {
@@ -343,8 +456,8 @@ function expandBracedVar(inner: string, ctx: ExpandContext): string {
     }
   }
 
-  // ${VAR} -- simple
-  return ctx.env[inner] ?? '';
+  // ${VAR} -- simple; ${1} and the like are not names
+  return (ref ? value : ctx.env[inner]) ?? '';
 }
 
 function replaceFirst(val: string, pattern: string, replacement: string): string {
@@ -379,11 +492,13 @@ function replaceAll(val: string, pattern: string, replacement: string): string {
   return result;
 }
 
-function hasUnquotedGlob(parts: WordPart[], _expanded: string): boolean {
-  // Check if any unquoted part contains glob characters
+function hasUnquotedGlob(parts: WordPart[]): boolean {
+  // Check if any unquoted part contains glob characters, not counting the
+  // * of $* and the subscripts of ${arr[i]}, ${arr[@]} and ${@:2}
   for (const part of parts) {
     if (part.quoted === 'none') {
-      if (part.text.includes('*') || part.text.includes('?') || part.text.includes('[')) {
+      const text = part.text.replace(/\$\*|\$\{[#!]?(?:[a-zA-Z_][a-zA-Z0-9_]*\[[^\]]*\]|[@*])/g, '');
+      if (text.includes('*') || text.includes('?') || text.includes('[')) {
         return true;
       }
     }
@@ -391,22 +506,161 @@ function hasUnquotedGlob(parts: WordPart[], _expanded: string): boolean {
   return false;
 }
 
+// ─── Brace expansion ───
+
+/** One character of a word, remembering its quoting and whether braces in it count. */
+interface BraceChar {
+  ch: string;
+  quoted: WordPart['quoted'];
+  active: boolean;
+}
+
+/**
+ * Brace-expand a word into one or more words, before any other expansion:
+ * `a{b,c}d` -> `abd acd`, `{1..5..2}` -> `1 3 5`, `{01..10}` keeps the zero padding.
+ * Braces that are quoted or belong to `${...}` / `$(...)` are left alone.
+ */
+function expandBraces(parts: WordPart[]): WordPart[][] {
+  const chars = toBraceChars(parts);
+  if (!chars.some((c) => c.active && c.ch === '{')) return [parts];
+  // Like unquoted empty words in bash, empty results (e.g. from `{,x}`) are dropped
+  return braceExpand(chars).filter((word) => word.length > 0).map(fromBraceChars);
+}
+
+function toBraceChars(parts: WordPart[]): BraceChar[] {
+  const chars: BraceChar[] = [];
+  for (const part of parts) {
+    const text = part.text;
+    let i = 0;
+    while (i < text.length) {
+      // ${...}, $(...) and $((...)) are passed through whole
+      if (part.quoted === 'none' && text[i] === '$' && (text[i + 1] === '{' || text[i + 1] === '(')) {
+        const end = matchingClose(text, i + 1);
+        for (; i < end; i++) chars.push({ ch: text[i], quoted: 'none', active: false });
+        continue;
+      }
+      chars.push({ ch: text[i], quoted: part.quoted, active: part.quoted === 'none' });
+      i++;
+    }
+  }
+  return chars;
+}
+
+function fromBraceChars(chars: BraceChar[]): WordPart[] {
+  const parts: WordPart[] = [];
+  for (const c of chars) {
+    const last = parts[parts.length - 1];
+    if (last && last.quoted === c.quoted) last.text += c.ch;
+    else parts.push({ text: c.ch, quoted: c.quoted });
+  }
+  return parts;
+}
+
+/** Index just past the bracket that closes the one at `open`. */
+function matchingClose(text: string, open: number): number {
+  const openCh = text[open];
+  const closeCh = openCh === '{' ? '}' : ')';
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === openCh) depth++;
+    else if (text[i] === closeCh && --depth === 0) return i + 1;
+  }
+  return text.length;
+}
+
+function braceExpand(chars: BraceChar[]): BraceChar[][] {
+  for (let open = 0; open < chars.length; open++) {
+    if (!chars[open].active || chars[open].ch !== '{') continue;
+
+    // Find the matching close brace and the top-level commas
+    let depth = 0;
+    let close = -1;
+    const commas: number[] = [];
+    for (let i = open; i < chars.length; i++) {
+      const c = chars[i];
+      if (!c.active) continue;
+      if (c.ch === '{') depth++;
+      else if (c.ch === '}' && --depth === 0) {
+        close = i;
+        break;
+      } else if (c.ch === ',' && depth === 1) commas.push(i);
+    }
+    if (close === -1) continue;
+
+    let alternatives: BraceChar[][];
+    if (commas.length > 0) {
+      alternatives = [];
+      let start = open + 1;
+      for (const comma of [...commas, close]) {
+        alternatives.push(...braceExpand(chars.slice(start, comma)));
+        start = comma + 1;
+      }
+    } else {
+      const inner = chars.slice(open + 1, close);
+      const sequence = inner.every((c) => c.active) ? braceSequence(inner.map((c) => c.ch).join('')) : null;
+      if (!sequence) continue;
+      alternatives = sequence.map((item) => [...item].map((ch) => ({ ch, quoted: 'none' as const, active: false })));
+    }
+
+    const preamble = chars.slice(0, open);
+    const results: BraceChar[][] = [];
+    for (const alternative of alternatives) {
+      for (const rest of braceExpand(chars.slice(close + 1))) {
+        results.push([...preamble, ...alternative, ...rest]);
+      }
+    }
+    return results;
+  }
+  return [chars];
+}
+
+/** Expand a `x..y[..step]` sequence of integers or single letters, or null if it is not one. */
+function braceSequence(text: string): string[] | null {
+  const numeric = /^(-?\d+)\.\.(-?\d+)(?:\.\.(-?\d+))?$/.exec(text);
+  const alpha = /^([a-zA-Z])\.\.([a-zA-Z])(?:\.\.(-?\d+))?$/.exec(text);
+  const match = numeric ?? alpha;
+  if (!match) return null;
+
+  const step = Math.abs(parseInt(match[3] ?? '1', 10)) || 1;
+  const from = numeric ? parseInt(match[1], 10) : match[1].charCodeAt(0);
+  const to = numeric ? parseInt(match[2], 10) : match[2].charCodeAt(0);
+  const dir = from <= to ? 1 : -1;
+
+  // Zero padding applies when either end is written with a leading zero
+  const padded = numeric !== null && (/^-?0\d/.test(match[1]) || /^-?0\d/.test(match[2]));
+  const width = padded ? Math.max(match[1].length, match[2].length) : 0;
+
+  const items: string[] = [];
+  for (let n = from; dir > 0 ? n <= to : n >= to; n += dir * step) {
+    if (!numeric) items.push(String.fromCharCode(n));
+    else if (n < 0) items.push('-' + String(-n).padStart(width - 1, '0'));
+    else items.push(String(n).padStart(width, '0'));
+  }
+  return items;
+}
+
 // ─── Arithmetic evaluator ───
 
-function evaluateArithmetic(expr: string, env: Record<string, string>): number {
-  const parser = new ArithParser(expr.trim(), env);
+function evaluateArithmetic(expr: string, vars: Variables): number {
+  const parser = new ArithParser(expr.trim(), vars);
   const result = parser.parseExpression();
   return result;
 }
 
+/** A variable in an arithmetic expression, or one element of it */
+interface ArithVariable {
+  name: string;
+  key?: string;
+}
+
 class ArithParser {
   private expr: string;
   private pos = 0;
-  private env: Record<string, string>;
+  private vars: Variables;
 
-  constructor(expr: string, env: Record<string, string>) {
+  constructor(expr: string, vars: Variables) {
     this.expr = expr;
-    this.env = env;
+    this.vars = vars;
   }
 
   private skipSpaces(): void {
@@ -645,6 +899,28 @@ class ArithParser {
     this.skipSpaces();
     const ch = this.peek();
 
+    // Pre-increment/decrement
+    if (ch === '+' && this.peekNext() === '+') {
+      this.pos += 2;
+      this.skipSpaces();
+      const ref = this.readVarRef();
+      if (ref) {
+        const val = this.getVar(ref) + 1;
+        this.setVar(ref, val);
+        return val;
+      }
+    }
+    if (ch === '-' && this.peekNext() === '-') {
+      this.pos += 2;
+      this.skipSpaces();
+      const ref = this.readVarRef();
+      if (ref) {
+        const val = this.getVar(ref) - 1;
+        this.setVar(ref, val);
+        return val;
+      }
+    }
+
     if (ch === '!') {
       this.pos++;
       const val = this.parseUnary();
@@ -665,28 +941,6 @@ class ArithParser {
       return this.parseUnary();
     }
 
-    // Pre-increment/decrement
-    if (ch === '+' && this.peekNext() === '+') {
-      this.pos += 2;
-      this.skipSpaces();
-      const name = this.readVarName();
-      if (name) {
-        const val = this.getVar(name) + 1;
-        this.env[name] = String(val);
-        return val;
-      }
-    }
-    if (ch === '-' && this.peekNext() === '-') {
-      this.pos += 2;
-      this.skipSpaces();
-      const name = this.readVarName();
-      if (name) {
-        const val = this.getVar(name) - 1;
-        this.env[name] = String(val);
-        return val;
-      }
-    }
-
     return this.parsePrimary();
   }
 
@@ -712,28 +966,28 @@ class ArithParser {
     if (ch === '$') {
       this.pos++;
       this.skipSpaces();
-      const name = this.readVarName();
-      if (name) return this.getVar(name);
+      const ref = this.readVarRef();
+      if (ref) return this.getVar(ref);
       return 0;
     }
 
-    // Variable reference (possibly with post-increment)
+    // Variable or array element reference (possibly with post-increment)
     if (/[a-zA-Z_]/.test(ch)) {
-      const name = this.readVarName();
-      if (!name) return 0;
+      const ref = this.readVarRef();
+      if (!ref) return 0;
       this.skipSpaces();
 
       // Post-increment/decrement
       if (this.pos + 1 < this.expr.length && this.expr[this.pos] === '+' && this.expr[this.pos + 1] === '+') {
         this.pos += 2;
-        const val = this.getVar(name);
-        this.env[name] = String(val + 1);
+        const val = this.getVar(ref);
+        this.setVar(ref, val + 1);
         return val;
       }
       if (this.pos + 1 < this.expr.length && this.expr[this.pos] === '-' && this.expr[this.pos + 1] === '-') {
         this.pos += 2;
-        const val = this.getVar(name);
-        this.env[name] = String(val - 1);
+        const val = this.getVar(ref);
+        this.setVar(ref, val - 1);
         return val;
       }
 
@@ -741,11 +995,11 @@ class ArithParser {
       if (this.expr[this.pos] === '=' && this.expr[this.pos + 1] !== '=') {
         this.pos++;
         const val = this.parseExpression();
-        this.env[name] = String(val);
+        this.setVar(ref, val);
         return val;
       }
 
-      return this.getVar(name);
+      return this.getVar(ref);
     }
 
     return 0;
@@ -769,10 +1023,30 @@ class ArithParser {
     return name || null;
   }
 
-  private getVar(name: string): number {
-    const val = this.env[name];
+  /** A variable name, with the key of the element it names if `[subscript]` follows */
+  private readVarRef(): ArithVariable | null {
+    const name = this.readVarName();
+    if (!name || this.expr[this.pos] !== '[') return name ? { name } : null;
+
+    let depth = 0;
+    const start = this.pos + 1;
+    for (; this.pos < this.expr.length; this.pos++) {
+      if (this.expr[this.pos] === '[') depth++;
+      else if (this.expr[this.pos] === ']' && --depth === 0) break;
+    }
+    const subscript = this.expr.slice(start, this.pos);
+    this.pos++;
+    return { name, key: subscriptKey(name, subscript, this.vars) };
+  }
+
+  private getVar({ name, key }: ArithVariable): number {
+    const val = getVariable(this.vars, name, key);
     if (val === undefined) return 0;
     const n = parseInt(val, 10);
     return isNaN(n) ? 0 : n;
   }
+
+  private setVar({ name, key }: ArithVariable, value: number): void {
+    setVariable(this.vars, name, String(value), key);
+  }
 }
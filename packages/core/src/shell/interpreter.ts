@@ -3,6 +3,7 @@ import type {
   ListNode,
   PipelineNode,
   SimpleCommandNode,
+  AssignmentNode,
   CompoundCommandNode,
   IfNode,
   ForNode,
@@ -11,8 +12,14 @@ import type {
   CaseNode,
   FunctionDefNode,
   GroupNode,
+  SubshellNode,
+  RedirectionNode,
 } from './types.js';
 import type { VFS } from '../kernel/vfs/index.js';
+import { VFSError, ErrorCode, StdioProvider, stdioSubpath } from '../kernel/vfs/index.js';
+import type { StdioFd } from '../kernel/vfs/index.js';
+import type { ProcessTable, Process, OpenFile } from '../kernel/process/index.js';
+import { openFile, openFifoFile, FifoFile, O_RDONLY, O_WRONLY, O_CREAT, O_TRUNC, O_APPEND } from '../kernel/process/index.js';
 import type { CommandRegistry } from '../commands/registry.js';
 import type {
   CommandOutputStream,
@@ -21,13 +28,51 @@ import type {
 } from '../commands/types.js';
 import { lex } from './lexer.js';
 import { parse } from './parser.js';
-import { expandWords, expandWord, type ExpandContext } from './expander.js';
+import { expandWords, expandWord, arrayKey, type ExpandContext } from './expander.js';
+import {
+  getVariable,
+  setVariable,
+  toArray,
+  unsetVariable,
+  nextIndex,
+  positionalParams,
+  formatDeclaration,
+  makeLocal,
+  restoreScope,
+  type ShellArray,
+  type SavedVariable,
+} from './variables.js';
 import { PipeChannel } from './pipe.js';
 import { JobTable } from './jobs.js';
 import { resolve } from '../utils/path.js';
+import { encode, decode } from '../utils/encoding.js';
 import { globMatch } from '../utils/glob.js';
 import type { TerminalStdin } from './terminal-stdin.js';
 
+/** The fd a /dev/stdin, /dev/stdout, /dev/stderr or /dev/fd/N subpath names; -1 for /dev/tty. */
+function deviceFd(device: string): number {
+  if (device === '/tty') return -1;
+  const index = ['/stdin', '/stdout', '/stderr'].indexOf(device);
+  return index !== -1 ? index : Number(device.slice('/fd/'.length));
+}
+
+/** One of a command's fds, or one the shell itself has after `exec`. */
+interface ShellFd {
+  input?: CommandInputStream;
+  output?: CommandOutputStream;
+  /** The open file description behind the fd, if it is a file or FIFO */
+  file?: OpenFile;
+}
+
+/** Where a command's output goes once its fd 1 or 2 is closed (`>&-`). */
+const CLOSED_OUTPUT: CommandOutputStream = { write: () => {} };
+
+/** The fd each redirection operator applies to when none is given. */
+const DEFAULT_FD: Record<RedirectionNode['operator'], number> = {
+  '>': 1, '>>': 1, '>&': 1, '&>': 1, '2>': 2, '2>>': 2,
+  '<': 0, '<&': 0, '<<': 0, '<<-': 0, '<<<': 0,
+};
+
 // ─── Signal classes for control flow ───
 
 export class BreakSignal {
@@ -42,11 +87,18 @@ export class ReturnSignal {
   constructor(public exitCode: number) {}
 }
 
+/** `exit` in a subshell, which ends the subshell rather than the shell */
+export class ExitSignal {
+  constructor(public exitCode: number) {}
+}
+
 export type BuiltinFn = (
   args: string[],
   stdout: CommandOutputStream,
   stderr: CommandOutputStream,
-  stdin?: CommandInputStream,
+  stdin: CommandInputStream | undefined,
+  /** The interpreter running the builtin; a subshell's own inside `( ... )` */
+  shell: Interpreter,
 ) => Promise<number>;
 
 export interface InterpreterConfig {
@@ -65,12 +117,27 @@ export interface InterpreterConfig {
   defaultStderr?: CommandOutputStream;
   /** Returns the current abort signal for foreground commands */
   getAbortSignal?: () => AbortSignal;
+  /** Kernel process table; registry commands are spawned into it when set */
+  processes?: ProcessTable;
+  /** PID of the shell itself, used as the PPID of spawned commands */
+  pid?: number;
 }
 
 export class Interpreter {
   private config: InterpreterConfig;
   private lastExitCode = 0;
   private functions = new Map<string, CompoundCommandNode>();
+  // Array variables; scalars are in config.env
+  private arrays = new Map<string, ShellArray>();
+  // One scope per function call running, with what its local variables hid
+  private scopes: Map<string, SavedVariable>[] = [];
+  // Fds set up with `exec`, over the defaults for 0, 1 and 2; null if closed
+  private shellFds = new Map<number, ShellFd | null>();
+  // A pipeline stage's subshell process, which the stage's command takes
+  // over the way a command run with `exec` does
+  private execProcess?: Process;
+  // Whether this interpreter runs a subshell, where `exit` ends only it
+  private subshell = false;
 
   constructor(config: InterpreterConfig) {
     this.config = config;
@@ -80,6 +147,22 @@ export class Interpreter {
     return this.lastExitCode;
   }
 
+  getEnv(): Record<string, string> {
+    return this.config.env;
+  }
+
+  getCwd(): string {
+    return this.config.getCwd();
+  }
+
+  setCwd(cwd: string): void {
+    this.config.setCwd(cwd);
+  }
+
+  getAliases(): Map<string, string> | undefined {
+    return this.config.aliases;
+  }
+
   async executeScript(script: ScriptNode, terminalStdin?: TerminalStdin): Promise<number> {
     let exitCode = 0;
     for (const list of script.lists) {
@@ -95,7 +178,7 @@ export class Interpreter {
       const script = parse(tokens);
       return await this.executeScript(script, terminalStdin);
     } catch (e) {
-      if (e instanceof BreakSignal || e instanceof ContinueSignal || e instanceof ReturnSignal) {
+      if (e instanceof BreakSignal || e instanceof ContinueSignal || e instanceof ReturnSignal || e instanceof ExitSignal) {
         throw e;
       }
       if (e instanceof Error) {
@@ -106,19 +189,24 @@ export class Interpreter {
     }
   }
 
-  private async executeList(list: ListNode, terminalStdin?: TerminalStdin): Promise<number> {
+  /**
+   * Run `list`. `fds` are the fds its commands start out with, when they
+   * are not the shell's own: those of a redirected compound command or
+   * function call around it.
+   */
+  private async executeList(list: ListNode, terminalStdin?: TerminalStdin, fds?: Map<number, ShellFd>): Promise<number> {
     if (list.background) {
       const abortController = new AbortController();
       const commandText = this.getListCommandText(list);
 
       // Background jobs don't get terminal stdin
-      const promise = this.executeListEntries(list.entries);
+      const promise = this.executeListEntries(list.entries, undefined, fds);
       const jobId = this.config.jobTable.add(commandText, promise, abortController);
       this.config.writeToTerminal(`[${jobId}] (background)\n`);
       return 0;
     }
 
-    return this.executeListEntries(list.entries, terminalStdin);
+    return this.executeListEntries(list.entries, terminalStdin, fds);
   }
 
   private getListCommandText(list: ListNode): string {
@@ -132,12 +220,16 @@ export class Interpreter {
     ).join(' ');
   }
 
-  private async executeListEntries(entries: ListNode['entries'], terminalStdin?: TerminalStdin): Promise<number> {
+  private async executeListEntries(
+    entries: ListNode['entries'],
+    terminalStdin?: TerminalStdin,
+    fds?: Map<number, ShellFd>,
+  ): Promise<number> {
     let exitCode = 0;
 
     for (let i = 0; i < entries.length; i++) {
       const entry = entries[i];
-      exitCode = await this.executePipeline(entry.pipeline, terminalStdin);
+      exitCode = await this.executePipeline(entry.pipeline, terminalStdin, fds);
 
       // Check the connector on current entry to decide whether to continue
       if (entry.connector === '&&' && exitCode !== 0) {
@@ -154,17 +246,21 @@ export class Interpreter {
     return exitCode;
   }
 
-  private async executePipeline(pipeline: PipelineNode, terminalStdin?: TerminalStdin): Promise<number> {
+  private async executePipeline(
+    pipeline: PipelineNode,
+    terminalStdin?: TerminalStdin,
+    fds?: Map<number, ShellFd>,
+  ): Promise<number> {
     const commands = pipeline.commands;
 
     let exitCode: number;
 
     if (commands.length === 1) {
       // Single command -- no piping needed
-      exitCode = await this.executeCommand(commands[0], undefined, undefined, terminalStdin);
+      exitCode = await this.executeCommand(commands[0], undefined, undefined, terminalStdin, fds);
     } else {
       // Multi-command pipeline -- only first command gets terminalStdin
-      exitCode = await this.executePipelineCommands(commands, terminalStdin);
+      exitCode = await this.executePipelineCommands(commands, terminalStdin, fds);
     }
 
     if (pipeline.negated) {
@@ -174,10 +270,17 @@ export class Interpreter {
     return exitCode;
   }
 
-  private async executePipelineCommands(commands: CompoundCommandNode[], terminalStdin?: TerminalStdin): Promise<number> {
+  private async executePipelineCommands(
+    commands: CompoundCommandNode[],
+    terminalStdin?: TerminalStdin,
+    fds?: Map<number, ShellFd>,
+  ): Promise<number> {
     const pipes: PipeChannel[] = [];
     const promises: Promise<number>[] = [];
 
+    // Every stage runs alongside the others, so each gets a subshell, as in
+    // bash: `... | while ...` or a function call in a pipeline leaves the
+    // shell's variables and cwd alone
     for (let i = 0; i < commands.length; i++) {
       const stdin = i > 0 ? pipes[i - 1].reader : undefined;
       let stdout: CommandOutputStream | undefined;
@@ -191,7 +294,10 @@ export class Interpreter {
       const cmd = commands[i];
       // Only the first command in a pipeline gets terminal stdin
       const tStdin = i === 0 ? terminalStdin : undefined;
-      const cmdPromise = this.executeCommand(cmd, stdin, stdout, tStdin)
+      const cmdPromise = (cmd.type === 'subshell'
+        ? this.executeCommand(cmd, stdin, stdout, tStdin, fds)
+        : this.runSubshell(this.createFdTable(tStdin, stdin, stdout, fds), (shell) =>
+          shell.executeCommand(cmd, undefined, undefined, tStdin), cmd.type === 'simple_command'))
         .then((code) => {
           // Close the pipe writer when command finishes
           if (i < commands.length - 1) {
@@ -212,48 +318,84 @@ export class Interpreter {
     pipeStdin?: CommandInputStream,
     pipeStdout?: CommandOutputStream,
     terminalStdin?: TerminalStdin,
+    fds?: Map<number, ShellFd>,
   ): Promise<number> {
+    // Compound commands run in this shell, with their redirections applied
+    // to the fds every command inside starts out with: `{ ...; } 2>&1`, `done < f`
+    const own = () => this.createFdTable(terminalStdin, pipeStdin, pipeStdout, fds);
     switch (cmd.type) {
       case 'simple_command':
-        return this.executeSimpleCommand(cmd, pipeStdin, pipeStdout, terminalStdin);
+        return this.executeSimpleCommand(cmd, pipeStdin, pipeStdout, terminalStdin, fds);
       case 'if':
-        return this.executeIf(cmd, pipeStdout);
+        return this.withRedirections(cmd.redirections, own(), terminalStdin, (fds) => this.executeIf(cmd, fds));
       case 'for':
-        return this.executeFor(cmd, pipeStdout);
+        return this.withRedirections(cmd.redirections, own(), terminalStdin, (fds) => this.executeFor(cmd, fds));
       case 'while':
-        return this.executeWhile(cmd, pipeStdout);
+        return this.withRedirections(cmd.redirections, own(), terminalStdin, (fds) => this.executeWhile(cmd, fds));
       case 'until':
-        return this.executeUntil(cmd, pipeStdout);
+        return this.withRedirections(cmd.redirections, own(), terminalStdin, (fds) => this.executeUntil(cmd, fds));
       case 'case':
-        return this.executeCase(cmd, pipeStdout);
+        return this.withRedirections(cmd.redirections, own(), terminalStdin, (fds) => this.executeCase(cmd, fds));
       case 'group':
-        return this.executeGroup(cmd, pipeStdout);
+        return this.withRedirections(cmd.redirections, own(), terminalStdin, (fds) => this.executeGroup(cmd, fds));
+      case 'subshell':
+        return this.executeSubshell(cmd, pipeStdin, pipeStdout, terminalStdin, fds);
       case 'function_def':
         return this.executeFunctionDef(cmd);
     }
   }
 
-  private async executeIf(node: IfNode, pipeStdout?: CommandOutputStream): Promise<number> {
+  /**
+   * Run `body` with `redirections` applied to `fds`. FIFOs they open stay
+   * open until it is done.
+   */
+  private async withRedirections(
+    redirections: RedirectionNode[],
+    fds: Map<number, ShellFd>,
+    terminalStdin: TerminalStdin | undefined,
+    body: (fds: Map<number, ShellFd>) => Promise<number>,
+  ): Promise<number> {
+    const fifos: FifoFile[] = [];
+    try {
+      await this.applyRedirections(redirections, fds, fifos, terminalStdin);
+    } catch (e) {
+      for (const fifo of fifos) fifo.close();
+      if (e instanceof Error && e.name === 'AbortError') {
+        // Interrupted while a FIFO waited for its other end
+        this.lastExitCode = 130;
+        return 130;
+      }
+      throw e;
+    }
+
+    try {
+      return await body(fds);
+    } finally {
+      for (const fifo of fifos) fifo.close();
+    }
+  }
+
+  private async executeIf(node: IfNode, fds: Map<number, ShellFd>): Promise<number> {
     let exitCode = 0;
 
     for (const clause of node.clauses) {
-      const condCode = await this.executeCompoundList(clause.condition, pipeStdout);
+      const condCode = await this.executeCompoundList(clause.condition, fds);
       if (condCode === 0) {
-        exitCode = await this.executeCompoundList(clause.body, pipeStdout);
+        exitCode = await this.executeCompoundList(clause.body, fds);
         this.lastExitCode = exitCode;
         return exitCode;
       }
     }
 
     if (node.elseBody) {
-      exitCode = await this.executeCompoundList(node.elseBody, pipeStdout);
+      exitCode = await this.executeCompoundList(node.elseBody, fds);
     }
 
     this.lastExitCode = exitCode;
     return exitCode;
   }
 
-  private async executeFor(node: ForNode, pipeStdout?: CommandOutputStream): Promise<number> {
+  private async executeFor(node: ForNode, fds: Map<number, ShellFd>): Promise<number> {
     const expandCtx = this.createExpandContext();
     let exitCode = 0;
 
@@ -262,14 +404,13 @@ export class Interpreter {
       values = await expandWords(node.words, expandCtx);
     } else {
       // Use "$@"
-      const atVal = this.config.env['@'] ?? '';
-      values = atVal ? atVal.split(' ') : [];
+      values = positionalParams(this.config.env);
     }
 
     for (const val of values) {
       this.config.env[node.variable] = val;
       try {
-        exitCode = await this.executeCompoundList(node.body, pipeStdout);
+        exitCode = await this.executeCompoundList(node.body, fds);
       } catch (e) {
         if (e instanceof BreakSignal) {
           if (e.levels > 1) throw new BreakSignal(e.levels - 1);
@@ -287,15 +428,15 @@ export class Interpreter {
     return exitCode;
   }
 
-  private async executeWhile(node: WhileNode, pipeStdout?: CommandOutputStream): Promise<number> {
+  private async executeWhile(node: WhileNode, fds: Map<number, ShellFd>): Promise<number> {
     let exitCode = 0;
 
     while (true) {
-      const condCode = await this.executeCompoundList(node.condition, pipeStdout);
+      const condCode = await this.executeCompoundList(node.condition, fds);
       if (condCode !== 0) break;
 
       try {
-        exitCode = await this.executeCompoundList(node.body, pipeStdout);
+        exitCode = await this.executeCompoundList(node.body, fds);
       } catch (e) {
         if (e instanceof BreakSignal) {
           if (e.levels > 1) throw new BreakSignal(e.levels - 1);
@@ -313,15 +454,15 @@ export class Interpreter {
     return exitCode;
   }
 
-  private async executeUntil(node: UntilNode, pipeStdout?: CommandOutputStream): Promise<number> {
+  private async executeUntil(node: UntilNode, fds: Map<number, ShellFd>): Promise<number> {
     let exitCode = 0;
 
     while (true) {
-      const condCode = await this.executeCompoundList(node.condition, pipeStdout);
+      const condCode = await this.executeCompoundList(node.condition, fds);
       if (condCode === 0) break;
 
       try {
-        exitCode = await this.executeCompoundList(node.body, pipeStdout);
+        exitCode = await this.executeCompoundList(node.body, fds);
       } catch (e) {
         if (e instanceof BreakSignal) {
           if (e.levels > 1) throw new BreakSignal(e.levels - 1);
@@ -339,7 +480,7 @@ export class Interpreter {
     return exitCode;
   }
 
-  private async executeCase(node: CaseNode, pipeStdout?: CommandOutputStream): Promise<number> {
+  private async executeCase(node: CaseNode, fds: Map<number, ShellFd>): Promise<number> {
     const expandCtx = this.createExpandContext();
     const wordValue = await expandWord(node.word, expandCtx);
     let exitCode = 0;
@@ -348,7 +489,7 @@ export class Interpreter {
       for (const pattern of item.patterns) {
         const patternValue = await expandWord(pattern, expandCtx);
         if (globMatch(patternValue, wordValue)) {
-          exitCode = await this.executeCompoundList(item.body, pipeStdout);
+          exitCode = await this.executeCompoundList(item.body, fds);
           this.lastExitCode = exitCode;
           return exitCode;
         }
@@ -364,16 +505,16 @@ export class Interpreter {
     return 0;
   }
 
-  private async executeGroup(node: GroupNode, pipeStdout?: CommandOutputStream): Promise<number> {
-    const exitCode = await this.executeCompoundList(node.body, pipeStdout);
+  private async executeGroup(node: GroupNode, fds: Map<number, ShellFd>): Promise<number> {
+    const exitCode = await this.executeCompoundList(node.body, fds);
     this.lastExitCode = exitCode;
     return exitCode;
   }
 
-  private async executeCompoundList(lists: ListNode[], _pipeStdout?: CommandOutputStream): Promise<number> {
+  private async executeCompoundList(lists: ListNode[], fds?: Map<number, ShellFd>): Promise<number> {
     let exitCode = 0;
     for (const list of lists) {
-      exitCode = await this.executeList(list);
+      exitCode = await this.executeList(list, undefined, fds);
     }
     return exitCode;
   }
@@ -383,16 +524,18 @@ export class Interpreter {
     pipeStdin?: CommandInputStream,
     pipeStdout?: CommandOutputStream,
     terminalStdin?: TerminalStdin,
+    baseFds?: Map<number, ShellFd>,
   ): Promise<number> {
+    const execProcess = this.execProcess;
+    this.execProcess = undefined;
     const expandCtx = this.createExpandContext();
 
     // Expand words
     const expandedArgs = await expandWords(cmd.words, expandCtx);
     if (expandedArgs.length === 0 && cmd.assignments.length > 0) {
-      // Bare assignment -- set env vars
+      // Bare assignment -- set shell variables
       for (const assign of cmd.assignments) {
-        const value = await expandWord(assign.value, expandCtx);
-        this.config.env[assign.name] = value;
+        await this.assign(assign, expandCtx);
       }
       return 0;
     }
@@ -401,7 +544,14 @@ export class Interpreter {
       return 0;
     }
 
-    const [name, ...args] = expandedArgs;
+    let [name, ...args] = expandedArgs;
+
+    // exec without a command redirects the shell itself; with one it runs
+    // it, though the shell carries on afterwards rather than being replaced
+    if (name === 'exec') {
+      if (args.length === 0) return this.executeExec(cmd.redirections, terminalStdin);
+      [name, ...args] = args;
+    }
 
     // Check alias expansion
     const aliases = this.config.aliases;
@@ -422,56 +572,39 @@ export class Interpreter {
       this.config.env[assign.name] = value;
     }
 
-    // Set up stdout/stderr (default to config overrides, then terminal)
-    let stdout: CommandOutputStream = pipeStdout ?? this.config.defaultStdout ?? {
-      write: (text: string) => this.config.writeToTerminal(text),
-    };
-    let stderr: CommandOutputStream = this.config.defaultStderr ?? {
-      write: (text: string) => this.config.writeToTerminal(text),
+    const restoreEnv = () => {
+      for (const [key, val] of Object.entries(savedEnv)) {
+        if (val === undefined) {
+          delete this.config.env[key];
+        } else {
+          this.config.env[key] = val;
+        }
+      }
     };
-    let stdin: CommandInputStream | undefined = pipeStdin;
 
-    // Apply redirections
-    for (const redir of cmd.redirections) {
-      const target = await expandWord(redir.target, expandCtx);
-      const targetPath = resolve(this.config.getCwd(), target);
+    // The command's fds: the shell's, then the pipe's, then its own
+    // redirections in order, so `> f 2>&1` and `2>&1 > f` differ as in
+    // POSIX. FIFO ends stay open until the command finishes; closing the
+    // last writer is what gives readers end of file
+    const fds = this.createFdTable(terminalStdin, pipeStdin, pipeStdout, baseFds);
+    const fifos: FifoFile[] = [];
 
-      switch (redir.operator) {
-        case '>':
-          this.config.vfs.writeFile(targetPath, '');
-          stdout = this.createFileWriter(targetPath);
-          break;
-        case '>>':
-          if (!this.config.vfs.exists(targetPath)) {
-            this.config.vfs.writeFile(targetPath, '');
-          }
-          stdout = this.createFileAppender(targetPath);
-          break;
-        case '<':
-          stdin = this.createFileReader(targetPath);
-          break;
-        case '2>':
-          this.config.vfs.writeFile(targetPath, '');
-          stderr = this.createFileWriter(targetPath);
-          break;
-        case '2>>':
-          if (!this.config.vfs.exists(targetPath)) {
-            this.config.vfs.writeFile(targetPath, '');
-          }
-          stderr = this.createFileAppender(targetPath);
-          break;
-        case '&>':
-          this.config.vfs.writeFile(targetPath, '');
-          stdout = this.createFileWriter(targetPath);
-          stderr = stdout;
-          break;
+    try {
+      await this.applyRedirections(cmd.redirections, fds, fifos, terminalStdin);
+    } catch (e) {
+      for (const fifo of fifos) fifo.close();
+      if (e instanceof Error && e.name === 'AbortError') {
+        // Interrupted while a FIFO waited for its other end
+        restoreEnv();
+        this.lastExitCode = 130;
+        return 130;
       }
+      throw e;
     }
 
-    // If no stdin from pipe or redirect, fall back to terminal stdin
-    if (!stdin && terminalStdin) {
-      stdin = terminalStdin;
-    }
+    const stdin = fds.get(0)?.input;
+    const stdout = fds.get(1)?.output ?? CLOSED_OUTPUT;
+    const stderr = fds.get(2)?.output ?? CLOSED_OUTPUT;
 
     let exitCode: number;
 
@@ -489,67 +622,120 @@ export class Interpreter {
         const code = args[0] ? parseInt(args[0], 10) : this.lastExitCode;
         throw new ReturnSignal(code);
       }
+      if (name === 'exit' && this.subshell) {
+        const code = args[0] ? parseInt(args[0], 10) : this.lastExitCode;
+        throw new ExitSignal(code);
+      }
 
       // Check functions
       const funcBody = this.functions.get(name);
-      if (funcBody) {
-        exitCode = await this.executeFunction(funcBody, args);
+      if (name === 'declare' || name === 'typeset' || name === 'local') {
+        // These work on the shell's variables, arrays included
+        exitCode = await this.executeDeclare(name, args, cmd.declarations ?? [], stdout, stderr);
+      } else if (name === 'unset') {
+        exitCode = await this.executeUnset(args, stderr);
+      } else if (funcBody) {
+        exitCode = await this.executeFunction(funcBody, args, fds);
       } else {
         // Check builtins
         const builtin = this.config.builtins.get(name);
         if (builtin) {
-          exitCode = await builtin(args, stdout, stderr, stdin);
+          exitCode = await builtin(args, stdout, stderr, stdin, this);
         } else {
-          // Check registry
-          const command = await this.config.registry.resolve(name);
-          if (!command) {
-            this.config.writeToTerminal(`${name}: command not found\n`);
-            exitCode = 127;
-          } else {
-            const signal = this.config.getAbortSignal?.() ?? new AbortController().signal;
-            const ctx: CommandContext = {
-              args,
-              env: { ...this.config.env },
-              cwd: this.config.getCwd(),
-              vfs: this.config.vfs,
-              stdout,
-              stderr,
-              signal,
-              stdin,
-              setRawMode: terminalStdin
-                ? (v: boolean) => { terminalStdin.rawMode = v; }
-                : undefined,
-            };
-
-            try {
-              exitCode = await command(ctx);
-            } catch (e) {
-              if (e instanceof Error && e.name === 'AbortError') {
-                exitCode = 130;
-              } else {
-                stderr.write(`${name}: ${e instanceof Error ? e.message : String(e)}\n`);
-                exitCode = 1;
+          // Fork before resolving the command, so every stage of a
+          // pipeline is in the process table while its siblings run
+          const env = { ...this.config.env };
+          const cwd = this.config.getCwd();
+          let signal = this.config.getAbortSignal?.() ?? new AbortController().signal;
+          const processes = this.config.processes;
+          const proc = execProcess ?? processes?.spawn({
+            ppid: this.config.pid ?? 0,
+            argv: [name, ...args],
+            cwd,
+            env,
+            uid: this.config.vfs.getCredentials().uid,
+            signal,
+          });
+          if (execProcess) {
+            execProcess.argv = [name, ...args];
+            execProcess.env = env;
+          }
+          // The status a process that fails to start exits with
+          exitCode = 1;
+          try {
+            if (proc) {
+              signal = proc.abortController.signal;
+              // The process's fd table holds the files among the command's fds
+              for (const fd of proc.fds.list()) {
+                if (!fds.get(fd)?.file) proc.fds.close(fd);
+              }
+              for (const [fd, { file }] of fds) {
+                if (file) proc.fds.install(file, fd);
+              }
+            }
+
+            // Check registry
+            const command = await this.config.registry.resolve(name);
+            if (!command) {
+              this.config.writeToTerminal(`${name}: command not found\n`);
+              exitCode = 127;
+            } else {
+              // Commands read operands synchronously, so stdin is collected up
+              // front for one that names /dev/stdin
+              let stdinData: Uint8Array | undefined;
+              const namesStdin = args.some((arg) => ['/dev/stdin', '/dev/fd/0'].includes(resolve(cwd, arg)));
+              if (namesStdin && stdin && !fds.get(0)?.file) {
+                stdinData = encode(await stdin.readAll());
+              }
+
+              const ctx: CommandContext = {
+                args,
+                env,
+                cwd,
+                vfs: this.config.vfs.withStdio(this.createStdio(fds, stdinData)),
+                stdout,
+                stderr,
+                signal,
+                stdin,
+                setRawMode: terminalStdin
+                  ? (v: boolean) => { terminalStdin.rawMode = v; }
+                  : undefined,
+                pid: proc?.pid,
+              };
+
+              try {
+                exitCode = await command(ctx);
+              } catch (e) {
+                if (e instanceof Error && e.name === 'AbortError') {
+                  exitCode = 130;
+                } else {
+                  stderr.write(`${name}: ${e instanceof Error ? e.message : String(e)}\n`);
+                  exitCode = 1;
+                }
               }
             }
+          } finally {
+            // A process taken over from a subshell exits with the subshell
+            if (processes && proc && proc !== execProcess) {
+              // The shell waits on its children, so they are reaped at once
+              processes.exit(proc.pid, exitCode);
+              processes.reap(proc.pid);
+            }
           }
         }
       }
     } finally {
+      for (const fifo of fifos) fifo.close();
       // Restore env from per-command assignments
-      for (const [key, val] of Object.entries(savedEnv)) {
-        if (val === undefined) {
-          delete this.config.env[key];
-        } else {
-          this.config.env[key] = val;
-        }
-      }
+      restoreEnv();
     }
 
     this.lastExitCode = exitCode;
     return exitCode;
   }
 
-  private async executeFunction(body: CompoundCommandNode, args: string[]): Promise<number> {
+  /** Call a function, with the caller's fds, redirections and pipes included, as the body's. */
+  private async executeFunction(body: CompoundCommandNode, args: string[], fds: Map<number, ShellFd>): Promise<number> {
     // Save positional parameters
     const savedPositionals: Record<string, string | undefined> = {};
     const keysToSave = ['@', '#'];
@@ -568,9 +754,12 @@ export class Interpreter {
       this.config.env[String(i + 1)] = args[i];
     }
 
+    const scope = new Map<string, SavedVariable>();
+    this.scopes.push(scope);
+
     let exitCode: number;
     try {
-      exitCode = await this.executeCommand(body);
+      exitCode = await this.executeCommand(body, undefined, undefined, undefined, fds);
     } catch (e) {
       if (e instanceof ReturnSignal) {
         exitCode = e.exitCode;
@@ -578,6 +767,9 @@ export class Interpreter {
         throw e;
       }
     } finally {
+      this.scopes.pop();
+      restoreScope(this.createExpandContext(), scope);
+
       // Restore positional parameters
       for (const [key, val] of Object.entries(savedPositionals)) {
         if (val === undefined) {
@@ -592,6 +784,165 @@ export class Interpreter {
     return exitCode;
   }
 
+  /**
+   * NAME=value, NAME+=value, NAME[subscript]=value, NAME=(...) or NAME+=(...).
+   * `declare` runs once the value is expanded, so `local x=$x` sees the x outside.
+   */
+  private async assign(assignment: AssignmentNode, ctx: ExpandContext, declare?: () => void): Promise<void> {
+    const { name, elements } = assignment;
+
+    if (!elements) {
+      const key = assignment.subscript !== undefined ? await arrayKey(name, assignment.subscript, ctx) : undefined;
+      const value = await expandWord(assignment.value, ctx);
+      declare?.();
+      const before = assignment.append ? getVariable(ctx, name, key) ?? '' : '';
+      setVariable(ctx, name, before + value, key);
+      return;
+    }
+
+    // The elements are expanded first, so `arr=("${arr[@]}" x)` sees the old array
+    const items: Array<{ subscript?: string; value: string }> = [];
+    for (const element of elements) {
+      if (element.subscript !== undefined) {
+        items.push({ subscript: element.subscript, value: await expandWord(element.value, ctx) });
+      } else {
+        for (const value of await expandWords([element.value], ctx)) items.push({ value });
+      }
+    }
+
+    declare?.();
+    let array: ShellArray;
+    if (assignment.append) {
+      array = toArray(ctx, name, false);
+    } else {
+      array = { associative: ctx.arrays.get(name)?.associative ?? false, values: new Map() };
+      delete ctx.env[name];
+      ctx.arrays.set(name, array);
+    }
+
+    let next = array.associative ? 0 : nextIndex(array);
+    for (const { subscript, value } of items) {
+      if (subscript !== undefined) {
+        const key = await arrayKey(name, subscript, ctx);
+        array.values.set(key, value);
+        if (!array.associative) next = Number(key) + 1;
+      } else if (array.associative) {
+        throw new Error(`${name}: ${value}: must use subscript when assigning associative array`);
+      } else {
+        array.values.set(String(next++), value);
+      }
+    }
+  }
+
+  /**
+   * `declare [-aAgp] [NAME[=VALUE]...]`: -a and -A make each NAME an indexed
+   * or associative array, and -p, or no NAME at all, prints the variables
+   * as declare commands. In a function, each NAME is local to the call
+   * unless -g is given; `local` is the same but only works in a function.
+   */
+  private async executeDeclare(
+    command: string,
+    args: string[],
+    declarations: AssignmentNode[],
+    stdout: CommandOutputStream,
+    stderr: CommandOutputStream,
+  ): Promise<number> {
+    const ctx = this.createExpandContext();
+    let kind: 'a' | 'A' | null = null;
+    let print = false;
+    let global = false;
+    const names: string[] = [];
+
+    for (const arg of args) {
+      if (!/^-[a-zA-Z]+$/.test(arg)) {
+        names.push(arg);
+        continue;
+      }
+      for (const flag of arg.slice(1)) {
+        if (flag === 'a' || flag === 'A') kind = flag;
+        else if (flag === 'p') print = true;
+        else if (flag === 'g' && command !== 'local') global = true;
+        // Every variable is exported here already
+        else if (flag !== 'x') {
+          stderr.write(`${command}: -${flag}: invalid option\n`);
+          return 2;
+        }
+      }
+    }
+
+    const scope = global ? undefined : this.scopes[this.scopes.length - 1];
+    if (command === 'local' && !scope) {
+      stderr.write('local: can only be used in a function\n');
+      return 1;
+    }
+
+    if (print || (names.length === 0 && declarations.length === 0)) {
+      const shown = names.length > 0
+        ? names
+        : [...Object.keys(this.config.env), ...this.arrays.keys()].filter((n) => /^[a-zA-Z_]\w*$/.test(n)).sort();
+      let exitCode = 0;
+      for (const name of shown) {
+        const line = formatDeclaration(ctx, name);
+        if (line) {
+          stdout.write(line + '\n');
+        } else {
+          stderr.write(`${command}: ${name}: not found\n`);
+          exitCode = 1;
+        }
+      }
+      return exitCode;
+    }
+
+    const declare = (name: string) => {
+      if (scope) makeLocal(ctx, scope, name);
+      if (kind === 'a' && this.arrays.get(name)?.associative) {
+        throw new Error(`${name}: cannot convert associative to indexed array`);
+      }
+      if (kind) toArray(ctx, name, kind === 'A');
+    };
+
+    try {
+      for (const name of names) declare(name);
+      for (const declaration of declarations) {
+        await this.assign(declaration, ctx, () => declare(declaration.name));
+      }
+    } catch (e) {
+      if (!(e instanceof Error)) throw e;
+      stderr.write(`${command}: ${e.message}\n`);
+      return 1;
+    }
+    return 0;
+  }
+
+  /** `unset [-fv] NAME...`: remove variables, array elements (`unset 'arr[1]'`) or, with -f, functions. */
+  private async executeUnset(args: string[], stderr: CommandOutputStream): Promise<number> {
+    const ctx = this.createExpandContext();
+    let functions = false;
+    let exitCode = 0;
+
+    for (const arg of args) {
+      if (arg === '-f' || arg === '-v') {
+        functions = arg === '-f';
+        continue;
+      }
+      if (functions) {
+        this.functions.delete(arg);
+        continue;
+      }
+
+      const match = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:\[(.*)\])?$/s.exec(arg);
+      if (!match) {
+        stderr.write(`unset: \`${arg}': not a valid identifier\n`);
+        exitCode = 1;
+      } else if (match[2] === undefined || match[2] === '@' || match[2] === '*') {
+        unsetVariable(ctx, match[1]);
+      } else {
+        unsetVariable(ctx, match[1], await arrayKey(match[1], match[2], ctx));
+      }
+    }
+    return exitCode;
+  }
+
   async executeCapture(input: string): Promise<string> {
     let captured = '';
     const stdout: CommandOutputStream = {
@@ -601,21 +952,109 @@ export class Interpreter {
     const tokens = lex(input);
     const script = parse(tokens);
 
-    // Execute with captured stdout
-    for (const list of script.lists) {
-      for (const entry of list.entries) {
-        for (const cmd of entry.pipeline.commands) {
-          await this.executeCommand(cmd, undefined, stdout);
-        }
+    // Command substitution runs in a subshell, with stdout captured
+    await this.runSubshell(this.createFdTable(undefined, undefined, stdout), (shell) => shell.executeScript(script));
+
+    return captured;
+  }
+
+  /**
+   * `( ... )`: run the body in a subshell, with the subshell's redirections
+   * applied to the fds it starts out with.
+   */
+  private async executeSubshell(
+    node: SubshellNode,
+    pipeStdin?: CommandInputStream,
+    pipeStdout?: CommandOutputStream,
+    terminalStdin?: TerminalStdin,
+    baseFds?: Map<number, ShellFd>,
+  ): Promise<number> {
+    const fds = this.createFdTable(terminalStdin, pipeStdin, pipeStdout, baseFds);
+    const exitCode = await this.withRedirections(node.redirections, fds, terminalStdin, (fds) =>
+      this.runSubshell(fds, (shell) => shell.executeCompoundList(node.body)),
+    );
+    this.lastExitCode = exitCode;
+    return exitCode;
+  }
+
+  /**
+   * Run `body` in a child interpreter that starts out with copies of this
+   * shell's cwd, env, functions and aliases, and with `fds` as its own, so
+   * nothing it changes reaches back here. The subshell is a process of its
+   * own, which is what $BASHPID names. With `exec`, a command the body runs
+   * first takes over that process rather than starting one under it.
+   */
+  private async runSubshell(
+    fds: Map<number, ShellFd>,
+    body: (shell: Interpreter) => Promise<number>,
+    exec = false,
+  ): Promise<number> {
+    let cwd = this.config.getCwd();
+    const env = { ...this.config.env };
+    const processes = this.config.processes;
+    const proc = processes?.spawn({
+      ppid: this.config.pid ?? 0,
+      argv: ['sh'],
+      cwd,
+      env,
+      uid: this.config.vfs.getCredentials().uid,
+      signal: this.config.getAbortSignal?.(),
+    });
+    if (proc) {
+      env['BASHPID'] = String(proc.pid);
+      for (const fd of proc.fds.list()) {
+        if (!fds.get(fd)?.file) proc.fds.close(fd);
+      }
+      for (const [fd, { file }] of fds) {
+        if (file) proc.fds.install(file, fd);
       }
     }
 
-    return captured;
+    const shell = new Interpreter({
+      ...this.config,
+      env,
+      getCwd: () => cwd,
+      setCwd: (dir) => {
+        cwd = dir;
+        if (proc) proc.cwd = dir;
+      },
+      aliases: this.config.aliases && new Map(this.config.aliases),
+      pid: proc?.pid ?? this.config.pid,
+    });
+    shell.lastExitCode = this.lastExitCode;
+    shell.functions = new Map(this.functions);
+    for (const [name, { associative, values }] of this.arrays) {
+      shell.arrays.set(name, { associative, values: new Map(values) });
+    }
+    shell.scopes = this.scopes.map((scope) => new Map(scope));
+    if (exec) shell.execProcess = proc;
+    shell.subshell = true;
+    shell.shellFds = new Map<number, ShellFd | null>(fds);
+    for (const fd of [0, 1, 2]) {
+      if (!fds.has(fd)) shell.shellFds.set(fd, null);
+    }
+
+    let exitCode = 0;
+    try {
+      exitCode = await body(shell);
+    } catch (e) {
+      // break, continue, return and exit end the subshell, not a loop or function around it
+      if (e instanceof ReturnSignal || e instanceof ExitSignal) exitCode = e.exitCode;
+      else if (e instanceof BreakSignal || e instanceof ContinueSignal) exitCode = shell.lastExitCode;
+      else throw e;
+    } finally {
+      if (processes && proc) {
+        processes.exit(proc.pid, exitCode);
+        processes.reap(proc.pid);
+      }
+    }
+    return exitCode;
   }
 
   private createExpandContext(): ExpandContext {
     return {
       env: this.config.env,
+      arrays: this.arrays,
       lastExitCode: this.lastExitCode,
       cwd: this.config.getCwd(),
       vfs: this.config.vfs,
@@ -623,24 +1062,221 @@ export class Interpreter {
     };
   }
 
-  private createFileWriter(path: string): CommandOutputStream {
-    return {
-      write: (text: string) => {
-        this.config.vfs.writeFile(path, text);
-      },
+  /**
+   * Open a redirection target. A FIFO waits here for its other end, as
+   * open(2) does, so `producer > fifo &` blocks until a reader comes along.
+   */
+  private async openRedirect(path: string, flags: number, fifos: FifoFile[]): Promise<OpenFile> {
+    const vfs = this.config.vfs;
+    if (vfs.exists(path) && vfs.stat(path).type === 'fifo') {
+      const fifo = await openFifoFile(vfs, path, flags, this.config.getAbortSignal?.());
+      fifos.push(fifo);
+      return fifo;
+    }
+    return openFile(vfs, path, flags);
+  }
+
+  /**
+   * The fds a command starts out with: the shell's own, or `base` inside a
+   * redirected compound command or function, then the pipe's.
+   */
+  private createFdTable(
+    terminalStdin?: TerminalStdin,
+    pipeStdin?: CommandInputStream,
+    pipeStdout?: CommandOutputStream,
+    base?: Map<number, ShellFd>,
+  ): Map<number, ShellFd> {
+    const fds = new Map(base ?? this.createShellFds(terminalStdin));
+    if (pipeStdin) fds.set(0, { input: pipeStdin });
+    if (pipeStdout) fds.set(1, { output: pipeStdout });
+    return fds;
+  }
+
+  /** The shell's own fds: the defaults for 0, 1 and 2, under those set up with `exec`. */
+  private createShellFds(terminalStdin?: TerminalStdin): Map<number, ShellFd> {
+    // The defaults look up the output streams on each write, so an fd that
+    // `exec` copied from one of them keeps following it
+    const terminal: CommandOutputStream = { write: (text) => this.config.writeToTerminal(text) };
+    const fds = new Map<number, ShellFd>([
+      [0, { input: terminalStdin }],
+      [1, { output: { write: (text) => (this.config.defaultStdout ?? terminal).write(text) } }],
+      [2, { output: { write: (text) => (this.config.defaultStderr ?? terminal).write(text) } }],
+    ]);
+    for (const [fd, entry] of this.shellFds) {
+      if (entry) fds.set(fd, entry);
+      else fds.delete(fd);
+    }
+    return fds;
+  }
+
+  /**
+   * Apply `redirections` to `fds`, in order. Each file opened becomes a
+   * new open file description; `N>&M` makes N share M's, and `N>&-`
+   * closes N. FIFOs opened are added to `fifos`.
+   */
+  private async applyRedirections(
+    redirections: RedirectionNode[],
+    fds: Map<number, ShellFd>,
+    fifos: FifoFile[],
+    terminalStdin?: TerminalStdin,
+  ): Promise<void> {
+    const expandCtx = this.createExpandContext();
+
+    for (const redir of redirections) {
+      const target = await expandWord(redir.target, expandCtx);
+      const fd = redir.fd ?? DEFAULT_FD[redir.operator];
+
+      if (redir.operator === '<<' || redir.operator === '<<-' || redir.operator === '<<<') {
+        // Here-documents and here-strings are stdin themselves, not a file
+        fds.set(fd, { input: this.createTextReader(redir.operator === '<<<' ? target + '\n' : target) });
+        continue;
+      }
+
+      // >&- closes, >&2 duplicates, and >&file (no fd) means &>file
+      const dup = redir.operator === '>&' || redir.operator === '<&';
+      if (dup && target === '-') {
+        fds.delete(fd);
+        continue;
+      }
+      if (dup && /^\d+$/.test(target)) {
+        fds.set(fd, this.dupFd(fds, Number(target)));
+        continue;
+      }
+      if (dup && (redir.operator === '<&' || redir.fd !== undefined)) {
+        throw new Error(`${target}: ambiguous redirect`);
+      }
+
+      const path = resolve(this.config.getCwd(), target);
+      const device = path === '/dev/fd' ? null : stdioSubpath(path);
+      const reading = redir.operator === '<';
+      let entry: ShellFd;
+
+      if (device) {
+        // /dev/stdin, /dev/stdout, /dev/stderr, /dev/fd/N and /dev/tty name
+        // the command's own fds, so as in bash a redirection to one
+        // duplicates the stream already there instead of opening a file
+        entry = this.dupDevice(fds, device, reading, terminalStdin);
+      } else if (reading) {
+        const file = await this.openRedirect(path, O_RDONLY, fifos);
+        entry = { input: this.createFileReader(file), file };
+      } else {
+        const append = redir.operator === '>>' || redir.operator === '2>>';
+        const file = await this.openRedirect(path, O_WRONLY | O_CREAT | (append ? O_APPEND : O_TRUNC), fifos);
+        entry = { output: this.createFileWriter(file), file };
+      }
+
+      fds.set(fd, entry);
+      if (redir.operator === '&>' || redir.operator === '>&') fds.set(2, entry);
+    }
+  }
+
+  /** What `fd` refers to, for a redirection that duplicates it; EBADF if it is not open. */
+  private dupFd(fds: Map<number, ShellFd>, fd: number, name = String(fd)): ShellFd {
+    const entry = fds.get(fd);
+    if (!entry) {
+      throw new VFSError(ErrorCode.EBADF, `${name}: bad file descriptor`);
+    }
+    return entry;
+  }
+
+  private dupDevice(
+    fds: Map<number, ShellFd>,
+    device: string,
+    reading: boolean,
+    terminalStdin?: TerminalStdin,
+  ): ShellFd {
+    const source = deviceFd(device);
+    if (source !== -1) return this.dupFd(fds, source, `'/dev${device}'`);
+    if (!reading) return { output: { write: (text) => this.config.writeToTerminal(text) } };
+    if (!terminalStdin) {
+      throw new VFSError(ErrorCode.ENXIO, `'/dev/tty': no such device or address`);
+    }
+    return { input: terminalStdin };
+  }
+
+  /**
+   * `exec` with only redirections: apply them to the shell, so that every
+   * later command starts out with them (`exec 3>log`, `exec 2>&1`).
+   */
+  private async executeExec(redirections: RedirectionNode[], terminalStdin?: TerminalStdin): Promise<number> {
+    const fds = this.createFdTable(terminalStdin);
+    const before = new Map(fds);
+    // FIFOs opened here stay open, for as long as the shell has an fd on them
+    const fifos: FifoFile[] = [];
+    try {
+      await this.applyRedirections(redirections, fds, fifos, terminalStdin);
+    } catch (e) {
+      for (const fifo of fifos) fifo.close();
+      if (e instanceof Error && e.name === 'AbortError') {
+        this.lastExitCode = 130;
+        return 130;
+      }
+      throw e;
+    }
+
+    // The shell process's fd table holds the files, for its children to inherit
+    const shell = this.config.pid !== undefined ? this.config.processes?.get(this.config.pid) : undefined;
+    for (const fd of new Set([...before.keys(), ...fds.keys()])) {
+      const entry = fds.get(fd);
+      if (entry === before.get(fd)) continue;
+      this.shellFds.set(fd, entry ?? null);
+      if (entry?.file) shell?.fds.install(entry.file, fd);
+      else if (shell?.fds.has(fd)) shell.fds.close(fd);
+    }
+
+    const open = new Set([...this.shellFds.values()].map((entry) => entry?.file));
+    for (const { file } of before.values()) {
+      if (file instanceof FifoFile && !open.has(file)) file.close();
+    }
+
+    this.lastExitCode = 0;
+    return 0;
+  }
+
+  /**
+   * The command's /dev/stdin, /dev/stdout, /dev/stderr, /dev/fd/N and
+   * /dev/tty. An fd is readable there if it comes from a file, or is stdin
+   * collected into `stdinData`; a stream would have to be waited on.
+   */
+  private createStdio(fds: Map<number, ShellFd>, stdinData?: Uint8Array): StdioProvider {
+    const devices = new Map<number, StdioFd>();
+    for (const [fd, { input, output, file }] of fds) {
+      if (output) {
+        devices.set(fd, { write: (data) => output.write(decode(data)) });
+        continue;
+      }
+      let read: () => Uint8Array | null;
+      if (file instanceof FifoFile) read = () => file.read(Infinity);
+      else if (file) read = () => this.config.vfs.readFile(file.path);
+      else if (fd === 0 && stdinData) read = () => stdinData;
+      else if (!input) read = () => new Uint8Array(0);
+      else read = () => null;
+      devices.set(fd, { read });
+    }
+
+    const tty: StdioFd = {
+      // Terminal input only arrives asynchronously, through `< /dev/tty`
+      read: () => null,
+      write: (data) => this.config.writeToTerminal(decode(data)),
     };
+    return new StdioProvider({ fds: devices, tty });
   }
 
-  private createFileAppender(path: string): CommandOutputStream {
+  private createFileWriter(file: OpenFile): CommandOutputStream {
     return {
       write: (text: string) => {
-        this.config.vfs.appendFile(path, text);
+        file.write(text);
       },
     };
   }
 
-  private createFileReader(path: string): CommandInputStream {
-    const content = this.config.vfs.readFileString(path);
+  private createFileReader(file: OpenFile): CommandInputStream {
+    if (file instanceof FifoFile) return this.createFifoReader(file);
+
+    return this.createTextReader(decode(file.read(file.stat().size)));
+  }
+
+  private createTextReader(content: string): CommandInputStream {
     let consumed = false;
     return {
       read: async () => {
@@ -651,4 +1287,26 @@ export class Interpreter {
       readAll: async () => content,
     };
   }
+
+  /** Stream a FIFO as it is written, until the last writer closes it. */
+  private createFifoReader(file: FifoFile): CommandInputStream {
+    // Keep multi-byte characters whole across chunks
+    const decoder = new TextDecoder();
+    const read = async (): Promise<string | null> => {
+      for (;;) {
+        const chunk = await file.readChunk();
+        if (chunk === null) return decoder.decode() || null;
+        const text = decoder.decode(chunk, { stream: true });
+        if (text) return text;
+      }
+    };
+    return {
+      read,
+      readAll: async () => {
+        let content = '';
+        for (let text = await read(); text !== null; text = await read()) content += text;
+        return content;
+      },
+    };
+  }
 }
@@ -1,7 +1,31 @@
 import { TokenKind, type Token, type WordPart } from './types.js';
 
+/** A here-document whose body starts on the line after its operator. */
+interface PendingHeredoc {
+  token: Token;
+  delimiter: string;
+  /** Unquoted delimiter: the body is expanded like a double-quoted string */
+  expand: boolean;
+  /** <<-: leading tabs are stripped from body lines and the delimiter line */
+  stripTabs: boolean;
+}
+
 export function lex(input: string): Token[] {
+  return scan(input).tokens;
+}
+
+/**
+ * Does `input` end inside a here-document, its delimiter line not yet seen?
+ * The shell keeps reading lines until it is not.
+ */
+export function hasOpenHeredoc(input: string): boolean {
+  return scan(input).open;
+}
+
+function scan(input: string): { tokens: Token[]; open: boolean } {
   const tokens: Token[] = [];
+  let pending: PendingHeredoc[] = [];
+  let open = false;
   let i = 0;
 
   while (i < input.length) {
@@ -15,6 +39,14 @@ export function lex(input: string): Token[] {
     if (input[i] === '\n') {
       tokens.push({ kind: TokenKind.Newline, value: '\n', pos: i });
       i++;
+      // Here-document bodies follow the line their operators are on, in order
+      for (const doc of pending) {
+        const body = readHeredocBody(input, i, doc);
+        doc.token.heredoc = heredocParts(body.text, doc.expand);
+        open = !body.terminated;
+        i = body.end;
+      }
+      pending = [];
       continue;
     }
 
@@ -31,6 +63,24 @@ export function lex(input: string): Token[] {
     if (op) {
       tokens.push(op.token);
       i = op.end;
+
+      // << and <<- take the delimiter word straight away
+      if (op.token.kind === TokenKind.HereDoc) {
+        while (input[i] === ' ' || input[i] === '\t') i++;
+        const word = readWord(input, i);
+        if (word) {
+          const raw = input.slice(i, word.end);
+          tokens.push(word.token);
+          pending.push({
+            token: op.token,
+            delimiter: word.token.value,
+            expand: !/['"\\]/.test(raw),
+            stripTabs: op.token.value === '<<-',
+          });
+          op.token.heredoc = [];
+          i = word.end;
+        }
+      }
       continue;
     }
 
@@ -47,7 +97,80 @@ export function lex(input: string): Token[] {
   }
 
   tokens.push({ kind: TokenKind.EOF, value: '', pos: i });
-  return tokens;
+  return { tokens, open: open || pending.length > 0 };
+}
+
+/**
+ * Read the lines of a here-document body from `pos` up to its delimiter
+ * line. Without one the body runs to the end of the input, as bash allows.
+ */
+function readHeredocBody(
+  input: string,
+  pos: number,
+  doc: PendingHeredoc,
+): { text: string; end: number; terminated: boolean } {
+  let text = '';
+  let i = pos;
+
+  while (i < input.length) {
+    let lineEnd = input.indexOf('\n', i);
+    if (lineEnd === -1) lineEnd = input.length;
+    let line = input.slice(i, lineEnd);
+    i = Math.min(lineEnd + 1, input.length);
+
+    if (doc.stripTabs) line = line.replace(/^\t+/, '');
+    if (line === doc.delimiter) return { text, end: i, terminated: true };
+    text += line + '\n';
+  }
+
+  return { text, end: i, terminated: false };
+}
+
+/**
+ * The parts of a here-document body. An expanded body is double-quoted
+ * text, except that \\, \$ and \` are literal and backslash-newline
+ * joins lines; a double quote has no special meaning in it.
+ */
+function heredocParts(body: string, expand: boolean): WordPart[] {
+  if (!expand) return [{ text: body, quoted: 'single' }];
+
+  const parts: WordPart[] = [];
+  let text = '';
+  let i = 0;
+
+  while (i < body.length) {
+    const ch = body[i];
+    const next = body[i + 1];
+
+    if (ch === '\\' && (next === '\\' || next === '$' || next === '`')) {
+      if (text) {
+        parts.push({ text, quoted: 'double' });
+        text = '';
+      }
+      parts.push({ text: next, quoted: 'single' });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\\' && next === '\n') {
+      i += 2;
+      continue;
+    }
+
+    // Keep $(...) whole, escapes inside it included
+    if (ch === '$' && next === '(') {
+      const subst = readCommandSubstitution(body, i);
+      text += subst.text;
+      i = subst.end;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+
+  if (text || parts.length === 0) parts.push({ text, quoted: 'double' });
+  return parts;
 }
 
 function tryOperator(input: string, pos: number): { token: Token; end: number } | null {
@@ -79,19 +202,18 @@ function tryOperator(input: string, pos: number): { token: Token; end: number }
     return { token: { kind: TokenKind.Pipe, value: '|', pos }, end: pos + 1 };
   }
 
-  // 2>> (stderr append)
-  if (ch === '2' && next === '>' && input[pos + 2] === '>') {
-    return { token: { kind: TokenKind.RedirectErrAppend, value: '2>>', pos }, end: pos + 3 };
+  // N>, N>>, N>&, N< and N<& name the fd they redirect. Only treat digits
+  // as one if not part of a larger word: if preceded by a word char, they are
+  const fdRedirect = /^(\d+)(>>|>&|>|<&|<(?!<))/.exec(input.slice(pos, pos + 8));
+  if (fdRedirect && (pos === 0 || isOperatorBreak(input[pos - 1]))) {
+    const value = fdRedirect[0];
+    return { token: { kind: fdRedirectKind(fdRedirect[1], fdRedirect[2]), value, pos }, end: pos + value.length };
   }
 
-  // 2> (stderr redirect)
-  if (ch === '2' && next === '>') {
-    // Only treat as redirect if not part of a larger word
-    // Check what's before: if preceded by a word char, it's part of a word
-    if (pos > 0 && !isOperatorBreak(input[pos - 1])) {
-      return null;
-    }
-    return { token: { kind: TokenKind.RedirectErr, value: '2>', pos }, end: pos + 2 };
+  // >& and <& (duplicate or close an fd: 2>&1, >&2, <&-)
+  if ((ch === '>' || ch === '<') && next === '&') {
+    const kind = ch === '>' ? TokenKind.DupOut : TokenKind.DupIn;
+    return { token: { kind, value: ch + '&', pos }, end: pos + 2 };
   }
 
   // >> (append)
@@ -104,6 +226,21 @@ function tryOperator(input: string, pos: number): { token: Token; end: number }
     return { token: { kind: TokenKind.RedirectOut, value: '>', pos }, end: pos + 1 };
   }
 
+  // <<< (here-string)
+  if (ch === '<' && next === '<' && input[pos + 2] === '<') {
+    return { token: { kind: TokenKind.HereString, value: '<<<', pos }, end: pos + 3 };
+  }
+
+  // <<- (here-document, leading tabs stripped)
+  if (ch === '<' && next === '<' && input[pos + 2] === '-') {
+    return { token: { kind: TokenKind.HereDoc, value: '<<-', pos }, end: pos + 3 };
+  }
+
+  // << (here-document)
+  if (ch === '<' && next === '<') {
+    return { token: { kind: TokenKind.HereDoc, value: '<<', pos }, end: pos + 2 };
+  }
+
   // < (redirect in)
   if (ch === '<') {
     return { token: { kind: TokenKind.RedirectIn, value: '<', pos }, end: pos + 1 };
@@ -132,6 +269,16 @@ function tryOperator(input: string, pos: number): { token: Token; end: number }
   return null;
 }
 
+function fdRedirectKind(fd: string, operator: string): TokenKind {
+  switch (operator) {
+    case '>>': return fd === '2' ? TokenKind.RedirectErrAppend : TokenKind.RedirectAppend;
+    case '>': return fd === '2' ? TokenKind.RedirectErr : TokenKind.RedirectOut;
+    case '>&': return TokenKind.DupOut;
+    case '<&': return TokenKind.DupIn;
+    default: return TokenKind.RedirectIn;
+  }
+}
+
 function isOperatorBreak(ch: string): boolean {
   return ch === ' ' || ch === '\t' || ch === '|' || ch === '&' || ch === ';'
     || ch === '>' || ch === '<' || ch === '\n' || ch === '(' || ch === ')';
@@ -151,9 +298,14 @@ function readWord(input: string, pos: number): { token: Token; end: number } | n
   while (i < input.length) {
     const ch = input[i];
 
-    // Backslash escape (outside quotes)
+    // Backslash escape (outside quotes): the character is kept as a quoted
+    // part so brace, parameter and glob expansion all leave it alone
     if (ch === '\\' && i + 1 < input.length) {
-      currentText += input[i + 1];
+      if (currentText) {
+        parts.push({ text: currentText, quoted: 'none' });
+        currentText = '';
+      }
+      parts.push({ text: input[i + 1], quoted: 'single' });
       i += 2;
       hasContent = true;
       continue;
@@ -5,6 +5,7 @@ import {
   type ListNode,
   type PipelineNode,
   type SimpleCommandNode,
+  type AssignmentNode,
   type RedirectionNode,
   type WordPart,
   type CompoundCommandNode,
@@ -15,6 +16,7 @@ import {
   type CaseNode,
   type FunctionDefNode,
   type GroupNode,
+  type SubshellNode,
 } from './types.js';
 
 export class ParseError extends Error {
@@ -29,6 +31,24 @@ export function parse(tokens: Token[]): ScriptNode {
   return parser.parseScript();
 }
 
+/** Commands whose NAME=value arguments are assignments, arrays included. */
+const DECLARATION_COMMANDS = new Set(['declare', 'typeset', 'local']);
+
+/** The parts of a word token after its first `offset` characters. */
+function partsAfter(token: Token, offset: number): WordPart[] {
+  const parts: WordPart[] = [];
+  let consumed = 0;
+  for (const part of token.parts ?? [{ text: token.value, quoted: 'none' }]) {
+    const partEnd = consumed + part.text.length;
+    if (partEnd > offset) {
+      // A part that spans the offset is cut there
+      parts.push(consumed < offset ? { text: part.text.slice(offset - consumed), quoted: part.quoted } : part);
+    }
+    consumed = partEnd;
+  }
+  return parts.length > 0 ? parts : [{ text: '', quoted: 'none' }];
+}
+
 const KEYWORDS = new Set([
   'if', 'then', 'else', 'elif', 'fi',
   'for', 'in', 'do', 'done',
@@ -203,6 +223,11 @@ class Parser {
       return this.parseGroup();
     }
 
+    // ( ... ) subshell
+    if (token.kind === TokenKind.LParen) {
+      return this.parseSubshell();
+    }
+
     return this.parseSimpleCommand();
   }
 
@@ -217,6 +242,8 @@ class Parser {
       if (t.kind === TokenKind.Word && terminators.includes(t.value)) {
         break;
       }
+      // The ) closing a subshell, or a stray one the caller will reject
+      if (t.kind === TokenKind.RParen) break;
       if (t.kind === TokenKind.EOF) break;
 
       lists.push(this.parseList());
@@ -400,80 +427,78 @@ class Parser {
     return { type: 'group', body, redirections };
   }
 
+  private parseSubshell(): SubshellNode {
+    this.expect(TokenKind.LParen);
+    const body = this.parseCompoundList([]);
+    if (body.length === 0) {
+      throw new ParseError(`unexpected token '${this.peek().value}'`, this.peek().pos);
+    }
+    this.expect(TokenKind.RParen);
+
+    const redirections = this.parseTrailingRedirections();
+
+    return { type: 'subshell', body, redirections };
+  }
+
   private parseTrailingRedirections(): RedirectionNode[] {
     const redirections: RedirectionNode[] = [];
     while (this.isRedirectOperator(this.peek().kind)) {
-      const operator = this.advance().value as RedirectionNode['operator'];
-      const targetToken = this.expect(TokenKind.Word);
-      redirections.push({
-        operator,
-        target: targetToken.parts ?? [{ text: targetToken.value, quoted: 'none' }],
-      });
+      redirections.push(this.parseRedirection());
     }
     return redirections;
   }
 
+  private parseRedirection(): RedirectionNode {
+    const operatorToken = this.advance();
+    const targetToken = this.expect(TokenKind.Word);
+
+    // 2> and 2>> keep their own operators; any other N> names its fd apart
+    const kind = operatorToken.kind;
+    const [, digits, rest] = /^(\d*)(.*)$/.exec(operatorToken.value)!;
+    const explicit = digits !== '' && kind !== TokenKind.RedirectErr && kind !== TokenKind.RedirectErrAppend;
+    const operator = (explicit ? rest : operatorToken.value) as RedirectionNode['operator'];
+
+    // After << the word is the delimiter; what the command reads is the
+    // body the lexer collected from the following lines
+    const target = kind === TokenKind.HereDoc
+      ? operatorToken.heredoc ?? []
+      : targetToken.parts ?? [{ text: targetToken.value, quoted: 'none' as const }];
+
+    const redirection: RedirectionNode = { operator, target };
+    if (explicit) redirection.fd = Number(digits);
+    return redirection;
+  }
+
   private parseSimpleCommand(): SimpleCommandNode {
-    const assignments: SimpleCommandNode['assignments'] = [];
+    const assignments: AssignmentNode[] = [];
     const words: WordPart[][] = [];
     const redirections: RedirectionNode[] = [];
+    const declarations: AssignmentNode[] = [];
+    let declaration = false;
 
     while (!this.isAtEnd()) {
       const token = this.peek();
 
       // Check for redirections
       if (this.isRedirectOperator(token.kind)) {
-        const operator = this.advance().value as RedirectionNode['operator'];
-        const targetToken = this.expect(TokenKind.Word);
-        redirections.push({
-          operator,
-          target: targetToken.parts ?? [{ text: targetToken.value, quoted: 'none' }],
-        });
+        redirections.push(this.parseRedirection());
         continue;
       }
 
       // Check for word tokens
       if (token.kind === TokenKind.Word) {
-        // Don't consume keywords that are terminators in compound commands
-        // (only when no words have been accumulated yet -- empty command)
-        // This check is not needed here since parseCommand dispatches before us
-
-        // Check for VAR=value assignment (only before any regular words)
-        if (words.length === 0) {
-          const eqIdx = token.value.indexOf('=');
-          if (eqIdx > 0 && /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(token.value.slice(0, eqIdx))) {
-            this.advance();
-            const name = token.value.slice(0, eqIdx);
-            const valText = token.value.slice(eqIdx + 1);
-            // Build value parts from the assignment
-            const valueParts: WordPart[] = [];
-            if (token.parts) {
-              // Reconstruct parts after the =
-              let consumed = 0;
-              for (const part of token.parts) {
-                const partEnd = consumed + part.text.length;
-                if (partEnd <= eqIdx + 1) {
-                  consumed = partEnd;
-                  continue;
-                }
-                if (consumed < eqIdx + 1) {
-                  // Part spans the =
-                  valueParts.push({ text: part.text.slice(eqIdx + 1 - consumed), quoted: part.quoted });
-                } else {
-                  valueParts.push(part);
-                }
-                consumed = partEnd;
-              }
-            }
-            if (valueParts.length === 0) {
-              valueParts.push({ text: valText, quoted: 'none' });
-            }
-            assignments.push({ name, value: valueParts });
+        // Check for VAR=value assignment (only before any regular words,
+        // except that declare takes them as arguments)
+        if (words.length === 0 || declaration) {
+          const assignment = this.parseAssignment();
+          if (assignment) {
+            (declaration ? declarations : assignments).push(assignment);
             continue;
           }
         }
 
         this.advance();
+        if (words.length === 0 && DECLARATION_COMMANDS.has(token.value)) declaration = true;
         const parts = token.parts ?? [{ text: token.value, quoted: 'none' }];
         words.push(parts);
         continue;
@@ -483,7 +508,52 @@ class Parser {
       break;
     }
 
-    return { type: 'simple_command', assignments, words, redirections };
+    // A ( can only start a command, so `foo(...)` (pasted code, say) is an error
+    if (this.peek().kind === TokenKind.LParen) {
+      throw new ParseError(`unexpected token '('`, this.peek().pos);
+    }
+
+    const node: SimpleCommandNode = { type: 'simple_command', assignments, words, redirections };
+    if (declaration) node.declarations = declarations;
+    return node;
+  }
+
+  /** NAME=value, NAME+=value, NAME[subscript]=value or NAME=(...), if the next word is one. */
+  private parseAssignment(): AssignmentNode | null {
+    const token = this.peek();
+    const match = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:\[([^\]]*)\])?(\+?)=/.exec(token.value);
+    if (!match) return null;
+    this.advance();
+
+    const assignment: AssignmentNode = { name: match[1], value: partsAfter(token, match[0].length) };
+    if (match[2] !== undefined) assignment.subscript = match[2];
+    if (match[3]) assignment.append = true;
+
+    // NAME=( ... ) is an array, with the ( right after the =
+    const next = this.peek();
+    const adjacent = next.pos === token.pos + token.value.length && token.value === match[0];
+    if (next.kind === TokenKind.LParen && adjacent && match[2] === undefined) {
+      this.advance();
+      assignment.elements = this.parseArrayElements();
+    }
+    return assignment;
+  }
+
+  /** The words of an array up to its ), each a value or [subscript]=value. */
+  private parseArrayElements(): NonNullable<AssignmentNode['elements']> {
+    const elements: NonNullable<AssignmentNode['elements']> = [];
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (token.kind !== TokenKind.Word) break;
+      this.advance();
+      const match = /^\[([^\]]*)\]=/.exec(token.value);
+      elements.push(match
+        ? { subscript: match[1], value: partsAfter(token, match[0].length) }
+        : { value: token.parts ?? [{ text: token.value, quoted: 'none' }] });
+    }
+    this.expect(TokenKind.RParen);
+    return elements;
   }
 
   private isRedirectOperator(kind: TokenKind): boolean {
@@ -492,6 +562,10 @@ class Parser {
       || kind === TokenKind.RedirectIn
       || kind === TokenKind.RedirectErr
       || kind === TokenKind.RedirectErrAppend
-      || kind === TokenKind.RedirectAll;
+      || kind === TokenKind.RedirectAll
+      || kind === TokenKind.DupOut
+      || kind === TokenKind.DupIn
+      || kind === TokenKind.HereDoc
+      || kind === TokenKind.HereString;
   }
 }
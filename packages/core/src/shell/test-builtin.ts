@@ -1,4 +1,5 @@
 import type { VFS } from '../kernel/vfs/index.js';
+import { R_OK, W_OK, X_OK } from '../kernel/vfs/index.js';
 import type { CommandOutputStream } from '../commands/types.js';
 
 /**
@@ -170,6 +171,14 @@ function evaluateFileTest(flag: string, path: string, vfs: VFS): boolean | null
         return false;
       }
     }
+    case 'p': {
+      if (!vfs.exists(path)) return false;
+      try {
+        return vfs.stat(path).type === 'fifo';
+      } catch {
+        return false;
+      }
+    }
     case 's': {
       if (!vfs.exists(path)) return false;
       try {
@@ -182,8 +191,12 @@ function evaluateFileTest(flag: string, path: string, vfs: VFS): boolean | null
     case 'r':
     case 'w':
     case 'x': {
-      // In VFS, all files are readable/writable/executable if they exist
-      return vfs.exists(path);
+      try {
+        vfs.access(path, flag === 'r' ? R_OK : flag === 'w' ? W_OK : X_OK);
+        return true;
+      } catch {
+        return false;
+      }
     }
     default:
       return null;
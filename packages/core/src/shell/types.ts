@@ -7,12 +7,16 @@ export enum TokenKind {
   Or,             // ||
   Semi,           // ;
   Amp,            // &
-  RedirectOut,    // >
-  RedirectAppend, // >>
-  RedirectIn,     // <
+  RedirectOut,    // > or N>
+  RedirectAppend, // >> or N>>
+  RedirectIn,     // < or N<
   RedirectErr,    // 2>
   RedirectErrAppend, // 2>>
   RedirectAll,    // &>
+  DupOut,         // >& or N>&
+  DupIn,          // <& or N<&
+  HereDoc,        // << or <<-
+  HereString,     // <<<
   DoubleSemi,     // ;;
   LParen,         // (
   RParen,         // )
@@ -30,6 +34,7 @@ export interface Token {
   value: string;
   pos: number;
   parts?: WordPart[];  // only for Word tokens
+  heredoc?: WordPart[];  // only for HereDoc tokens: the body, read from the lines after
 }
 
 // ─── AST node types ───
@@ -56,14 +61,24 @@ export interface PipelineNode {
 
 export interface SimpleCommandNode {
   type: 'simple_command';
-  assignments: Array<{ name: string; value: WordPart[] }>;
+  assignments: AssignmentNode[];
   words: WordPart[][];          // each element = one arg (array of parts)
   redirections: RedirectionNode[];
+  declarations?: AssignmentNode[];  // only for declare and typeset: their NAME=value arguments
+}
+
+export interface AssignmentNode {
+  name: string;
+  value: WordPart[];
+  subscript?: string;           // NAME[subscript]=value, unexpanded
+  append?: boolean;             // NAME+=value
+  elements?: Array<{ subscript?: string; value: WordPart[] }>;  // NAME=(a b [k]=v), in place of value
 }
 
 export interface RedirectionNode {
-  operator: '>' | '>>' | '<' | '2>' | '2>>' | '&>';
-  target: WordPart[];
+  operator: '>' | '>>' | '<' | '2>' | '2>>' | '&>' | '<<' | '<<-' | '<<<' | '>&' | '<&';
+  fd?: number;                  // explicit fd, as in 3>file or 2>&1 (absent: the operator's default)
+  target: WordPart[];           // for << and <<-, the here-document body; for >& and <&, an fd or '-'
 }
 
 export interface IfNode {
@@ -114,6 +129,12 @@ export interface GroupNode {
   redirections: RedirectionNode[];
 }
 
+export interface SubshellNode {
+  type: 'subshell';
+  body: ListNode[];
+  redirections: RedirectionNode[];
+}
+
 export type CompoundCommandNode =
   | SimpleCommandNode
   | IfNode
@@ -122,6 +143,7 @@ export type CompoundCommandNode =
   | UntilNode
   | CaseNode
   | GroupNode
+  | SubshellNode
   | FunctionDefNode;
 
 export type ASTNode = ScriptNode | ListNode | PipelineNode | CompoundCommandNode;
@@ -0,0 +1,144 @@
+/**
+ * Shell variables. Scalars live in env, which is what commands are given;
+ * arrays are kept apart from it, as bash never exports them. A name is in
+ * one or the other, never both.
+ */
+
+/** An array variable. Indexed arrays may be sparse; their keys are decimal indices. */
+export interface ShellArray {
+  associative: boolean;
+  values: Map<string, string>;
+}
+
+export interface Variables {
+  env: Record<string, string>;
+  arrays: Map<string, ShellArray>;
+}
+
+/** The keys of `array` in order: ascending indices, or insertion order if associative. */
+export function arrayKeys(array: ShellArray): string[] {
+  const keys = [...array.values.keys()];
+  return array.associative ? keys : keys.sort((a, b) => Number(a) - Number(b));
+}
+
+export function arrayValues(array: ShellArray): string[] {
+  return arrayKeys(array).map((key) => array.values.get(key)!);
+}
+
+/** The index `arr+=(x)` appends at: one past the highest. */
+export function nextIndex(array: ShellArray): number {
+  let next = 0;
+  for (const key of array.values.keys()) next = Math.max(next, Number(key) + 1);
+  return next;
+}
+
+/**
+ * `$name` or `${name[key]}`. A scalar is element 0 of itself, and an
+ * array's element 0 is its plain value, as in bash.
+ */
+export function getVariable(vars: Variables, name: string, key = '0'): string | undefined {
+  const array = vars.arrays.get(name);
+  if (array) return array.values.get(key);
+  return key === '0' ? vars.env[name] : undefined;
+}
+
+/** `name=value`, or `name[key]=value`, which makes `name` an array if it is not one. */
+export function setVariable(vars: Variables, name: string, value: string, key?: string): void {
+  const array = key === undefined ? vars.arrays.get(name) : toArray(vars, name, false);
+  if (array) array.values.set(key ?? '0', value);
+  else vars.env[name] = value;
+}
+
+/**
+ * The array `name`, made one if need be: a scalar becomes element 0 of an
+ * indexed array. An indexed array cannot become associative.
+ */
+export function toArray(vars: Variables, name: string, associative: boolean): ShellArray {
+  let array = vars.arrays.get(name);
+  if (array) {
+    if (associative && !array.associative) {
+      throw new Error(`${name}: cannot convert indexed to associative array`);
+    }
+    return array;
+  }
+
+  array = { associative, values: new Map() };
+  if (name in vars.env) {
+    array.values.set('0', vars.env[name]);
+    delete vars.env[name];
+  }
+  vars.arrays.set(name, array);
+  return array;
+}
+
+/** `unset name`, or `unset 'name[key]'` for one element. */
+export function unsetVariable(vars: Variables, name: string, key?: string): void {
+  if (key === undefined) {
+    vars.arrays.delete(name);
+    delete vars.env[name];
+    return;
+  }
+  const array = vars.arrays.get(name);
+  if (array) array.values.delete(key);
+  else if (key === '0') delete vars.env[name];
+}
+
+/** A variable as it was before a function made it local: a scalar, an array, or neither. */
+export interface SavedVariable {
+  value?: string;
+  array?: ShellArray;
+}
+
+/**
+ * Make `name` local to a function call, whose variables `scope` holds: its
+ * value outside is saved the first time, and inside it starts out unset.
+ */
+export function makeLocal(vars: Variables, scope: Map<string, SavedVariable>, name: string): void {
+  if (scope.has(name)) return;
+  scope.set(name, { value: vars.env[name], array: vars.arrays.get(name) });
+  unsetVariable(vars, name);
+}
+
+/** Put back what `scope` saved, once the function call returns. */
+export function restoreScope(vars: Variables, scope: Map<string, SavedVariable>): void {
+  for (const [name, { value, array }] of scope) {
+    unsetVariable(vars, name);
+    if (array) vars.arrays.set(name, array);
+    else if (value !== undefined) vars.env[name] = value;
+  }
+}
+
+/** All values of `name`: an array's elements, a scalar alone, or none if unset. */
+export function variableValues(vars: Variables, name: string): string[] {
+  const array = vars.arrays.get(name);
+  if (array) return arrayValues(array);
+  return name in vars.env ? [vars.env[name]] : [];
+}
+
+/** The keys of `name`, for `${!name[@]}`. */
+export function variableKeys(vars: Variables, name: string): string[] {
+  const array = vars.arrays.get(name);
+  if (array) return arrayKeys(array);
+  return name in vars.env ? ['0'] : [];
+}
+
+/** The positional parameters $1, $2, ... as a list. */
+export function positionalParams(env: Record<string, string>): string[] {
+  const count = parseInt(env['#'] ?? '0', 10) || 0;
+  return Array.from({ length: count }, (_, i) => env[String(i + 1)] ?? '');
+}
+
+/** How `declare -p` shows `name`. */
+export function formatDeclaration(vars: Variables, name: string): string | null {
+  const array = vars.arrays.get(name);
+  if (array) {
+    const items = arrayKeys(array).map((key) => `[${key}]=${quoteValue(array.values.get(key)!)}`);
+    return `declare -${array.associative ? 'A' : 'a'} ${name}=(${items.join(' ')})`;
+  }
+  if (name in vars.env) return `declare -x ${name}=${quoteValue(vars.env[name])}`;
+  return null;
+}
+
+function quoteValue(value: string): string {
+  return `"${value.replace(/["\\$`]/g, '\\$&')}"`;
+}
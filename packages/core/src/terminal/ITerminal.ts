@@ -1,7 +1,12 @@
+/** Returned by ITerminal.onData(): dispose() stops the callback getting input. */
+export interface IDisposable {
+  dispose(): void;
+}
+
 export interface ITerminal {
   write(data: string): void;
   writeln(data: string): void;
-  onData(callback: (data: string) => void): void;
+  onData(callback: (data: string) => void): IDisposable;
   readonly cols: number;
   readonly rows: number;
   focus(): void;
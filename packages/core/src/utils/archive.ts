@@ -1,6 +1,7 @@
 import type { VFS } from '../kernel/vfs/index.js';
 import { resolve, dirname } from './path.js';
 import { encode, decode, concatBytes } from './encoding.js';
+import { readXattrs } from './xattr.js';
 
 // ─── CRC-32 ───
 
@@ -23,13 +24,12 @@ export function crc32(data: Uint8Array): number {
 
 // ─── Gzip (browser CompressionStream/DecompressionStream) ───
 
-export async function compressGzip(data: Uint8Array): Promise<Uint8Array> {
-  const cs = new CompressionStream('gzip');
-  const writer = cs.writable.getWriter();
+async function transform(stream: CompressionStream | DecompressionStream, data: Uint8Array): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
   writer.write(data as unknown as ArrayBuffer);
   writer.close();
 
-  const reader = cs.readable.getReader();
+  const reader = stream.readable.getReader();
   const chunks: Uint8Array[] = [];
   for (;;) {
     const { done, value } = await reader.read();
@@ -39,20 +39,48 @@ export async function compressGzip(data: Uint8Array): Promise<Uint8Array> {
   return concatBytes(...chunks);
 }
 
+export async function compressGzip(data: Uint8Array): Promise<Uint8Array> {
+  return transform(new CompressionStream('gzip'), data);
+}
+
 export async function decompressGzip(data: Uint8Array): Promise<Uint8Array> {
-  const ds = new DecompressionStream('gzip');
-  const writer = ds.writable.getWriter();
-  writer.write(data as unknown as ArrayBuffer);
-  writer.close();
+  return transform(new DecompressionStream('gzip'), data);
+}
 
-  const reader = ds.readable.getReader();
-  const chunks: Uint8Array[] = [];
-  for (;;) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    chunks.push(value);
-  }
-  return concatBytes(...chunks);
+/** Inflate a raw deflate stream, as stored in zip entries with method 8. */
+export async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return transform(new DecompressionStream('deflate-raw'), data);
+}
+
+// ─── Random-access indexing ───
+
+/** Read `length` bytes at `position`; fewer are returned past the end. */
+export type ReadAt = (position: number, length: number) => Uint8Array;
+
+/**
+ * Where an archive entry's bytes are, without the bytes themselves, so
+ * large archives can be browsed without reading them into memory.
+ */
+export interface ArchiveIndexEntry {
+  path: string;
+  type: TarEntry['type'];
+  mode: number;
+  mtime: number;
+  linkTarget?: string;
+  /** Offset of the entry's (possibly compressed) bytes in the archive */
+  offset: number;
+  /** Number of bytes stored at `offset` */
+  storedSize: number;
+  /** Size once decompressed */
+  size: number;
+  /** Zip compression method (0 stored, 8 deflated); always 0 for tar */
+  method: number;
+  /** Extended attributes, from a tar entry's PAX header */
+  xattrs?: Record<string, Uint8Array>;
+}
+
+export function readerFor(data: Uint8Array): ReadAt {
+  return (position, length) => data.subarray(position, position + length);
 }
 
 // ─── Tar format (POSIX ustar, 512-byte blocks) ───
@@ -60,11 +88,23 @@ export async function decompressGzip(data: Uint8Array): Promise<Uint8Array> {
 export interface TarEntry {
   path: string;
   data: Uint8Array;
-  type: 'file' | 'directory';
+  /** 'symlink' and 'link' (hard link) entries carry no data in the tar stream */
+  type: 'file' | 'directory' | 'symlink' | 'link';
   mode: number;
   mtime: number;
+  /** Symlink target, or archive path of the entry a hard link refers to */
+  linkTarget?: string;
+  /** Extended attributes, stored in a PAX header as SCHILY.xattr.<name> */
+  xattrs?: Record<string, Uint8Array>;
 }
 
+const TAR_TYPE_FLAGS: Record<TarEntry['type'], number> = {
+  file: 48,      // '0'
+  link: 49,      // '1'
+  symlink: 50,   // '2'
+  directory: 53, // '5'
+};
+
 function tarWriteString(buf: Uint8Array, offset: number, str: string, len: number): void {
   const bytes = encode(str);
   buf.set(bytes.subarray(0, len), offset);
@@ -76,6 +116,33 @@ function tarWriteOctal(buf: Uint8Array, offset: number, value: number, len: numb
   buf[offset + len - 1] = 0;
 }
 
+const PAX_HEADER = 120;        // 'x': extended header for the next entry
+const PAX_GLOBAL_HEADER = 103; // 'g': extended header for all later entries
+const PAX_XATTR = 'SCHILY.xattr.';
+
+/** One `<length> <key>=<value>\n` record; the length counts its own digits. */
+function paxRecord(key: string, value: Uint8Array): Uint8Array {
+  const body = concatBytes(encode(` ${key}=`), value, encode('\n'));
+  let length = body.length + 1;
+  while (String(length).length + body.length !== length) length++;
+  return concatBytes(encode(String(length)), body);
+}
+
+function parsePax(data: Uint8Array): Map<string, Uint8Array> {
+  const records = new Map<string, Uint8Array>();
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = space === -1 ? NaN : parseInt(decode(data.subarray(offset, space)), 10);
+    if (!(length > 0)) break;
+    const record = data.subarray(space + 1, offset + length - 1); // without the newline
+    const eq = record.indexOf(0x3d);
+    if (eq !== -1) records.set(decode(record.subarray(0, eq)), record.slice(eq + 1));
+    offset += length;
+  }
+  return records;
+}
+
 function tarChecksum(header: Uint8Array): number {
   let sum = 0;
   for (let i = 0; i < 512; i++) {
@@ -101,41 +168,19 @@ export function createTar(entries: TarEntry[]): Uint8Array {
   const blocks: Uint8Array[] = [];
 
   for (const entry of entries) {
-    const header = new Uint8Array(512);
-
     let path = entry.path;
     if (entry.type === 'directory' && !path.endsWith('/')) path += '/';
     // Remove leading /
     if (path.startsWith('/')) path = path.slice(1);
 
-    tarWriteString(header, 0, path, 100);          // name
-    tarWriteOctal(header, 100, entry.mode, 8);      // mode
-    tarWriteOctal(header, 108, 0, 8);               // uid
-    tarWriteOctal(header, 116, 0, 8);               // gid
-    tarWriteOctal(header, 124, entry.data.length, 12); // size
-    tarWriteOctal(header, 136, Math.floor(entry.mtime / 1000), 12); // mtime
-    // type flag
-    header[156] = entry.type === 'directory' ? 53 : 48; // '5' or '0'
-    // ustar magic
-    tarWriteString(header, 257, 'ustar', 6);
-    tarWriteString(header, 263, '00', 2);            // version
-    tarWriteString(header, 265, 'user', 32);         // uname
-    tarWriteString(header, 297, 'user', 32);         // gname
-
-    // Compute and write checksum
-    const checksum = tarChecksum(header);
-    tarWriteOctal(header, 148, checksum, 7);
-    header[155] = 0x20; // trailing space
-
-    blocks.push(header);
-
-    if (entry.type === 'file' && entry.data.length > 0) {
-      // Data blocks, padded to 512 bytes
-      const paddedLen = Math.ceil(entry.data.length / 512) * 512;
-      const dataBlock = new Uint8Array(paddedLen);
-      dataBlock.set(entry.data);
-      blocks.push(dataBlock);
+    if (entry.xattrs && Object.keys(entry.xattrs).length > 0) {
+      // A PAX extended header ahead of the entry carries its attributes, as GNU tar writes them
+      const records = Object.entries(entry.xattrs).map(([name, value]) => paxRecord(PAX_XATTR + name, value));
+      const name = path.replace(/\/$/, '').split('/').pop() ?? '';
+      blocks.push(...tarBlocks(`PaxHeaders/${name}`.slice(0, 100), PAX_HEADER, concatBytes(...records), entry));
     }
+
+    blocks.push(...tarBlocks(path, TAR_TYPE_FLAGS[entry.type], entry.type === 'file' ? entry.data : new Uint8Array(0), entry));
   }
 
   // Two zero blocks to mark end of archive
@@ -144,12 +189,49 @@ export function createTar(entries: TarEntry[]): Uint8Array {
   return concatBytes(...blocks);
 }
 
-export function parseTar(data: Uint8Array): TarEntry[] {
-  const entries: TarEntry[] = [];
+/** A header block for `path`, followed by `data` padded to whole blocks. */
+function tarBlocks(path: string, typeFlag: number, data: Uint8Array, entry: TarEntry): Uint8Array[] {
+  const header = new Uint8Array(512);
+
+  tarWriteString(header, 0, path, 100);          // name
+  tarWriteOctal(header, 100, entry.mode, 8);      // mode
+  tarWriteOctal(header, 108, 0, 8);               // uid
+  tarWriteOctal(header, 116, 0, 8);               // gid
+  tarWriteOctal(header, 124, data.length, 12);    // size
+  tarWriteOctal(header, 136, Math.floor(entry.mtime / 1000), 12); // mtime
+  header[156] = typeFlag;                         // type flag
+  if (entry.linkTarget !== undefined && typeFlag !== PAX_HEADER) {
+    let linkName = entry.linkTarget;
+    if (entry.type === 'link' && linkName.startsWith('/')) linkName = linkName.slice(1);
+    tarWriteString(header, 157, linkName, 100);   // linkname
+  }
+  // ustar magic
+  tarWriteString(header, 257, 'ustar', 6);
+  tarWriteString(header, 263, '00', 2);           // version
+  tarWriteString(header, 265, 'user', 32);        // uname
+  tarWriteString(header, 297, 'user', 32);        // gname
+
+  // Compute and write checksum
+  const checksum = tarChecksum(header);
+  tarWriteOctal(header, 148, checksum, 7);
+  header[155] = 0x20; // trailing space
+
+  if (data.length === 0) return [header];
+  // Data blocks, padded to 512 bytes
+  const dataBlock = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  dataBlock.set(data);
+  return [header, dataBlock];
+}
+
+/** Index a tar archive of `total` bytes, reading only its headers. */
+export function indexTar(read: ReadAt, total: number): ArchiveIndexEntry[] {
+  const entries: ArchiveIndexEntry[] = [];
   let offset = 0;
+  /** The PAX header that applies to the next entry */
+  let pax: Map<string, Uint8Array> | null = null;
 
-  while (offset + 512 <= data.length) {
-    const header = data.subarray(offset, offset + 512);
+  while (offset + 512 <= total) {
+    const header = read(offset, 512);
 
     // Check for zero block (end of archive)
     let allZero = true;
@@ -163,38 +245,86 @@ export function parseTar(data: Uint8Array): TarEntry[] {
     const size = tarReadOctal(header, 124, 12);
     const mtime = tarReadOctal(header, 136, 12) * 1000;
     const typeFlag = header[156];
+    const linkName = tarReadString(header, 157, 100);
+    // POSIX ustar splits long names into a prefix and a name (GNU tar uses
+    // that field for other things and has "ustar " as its magic)
+    const prefix = tarReadString(header, 257, 6) === 'ustar' ? tarReadString(header, 345, 155) : '';
+    if (prefix) path = `${prefix}/${path}`;
+
+    if (typeFlag === PAX_HEADER || typeFlag === PAX_GLOBAL_HEADER) {
+      // Global headers carry nothing we keep; an entry's own one is applied below
+      if (typeFlag === PAX_HEADER) pax = parsePax(read(offset + 512, size));
+      offset += 512 + Math.ceil(size / 512) * 512;
+      continue;
+    }
+
+    let linkTarget = linkName;
+    const xattrs: Record<string, Uint8Array> = {};
+    for (const [key, value] of pax ?? []) {
+      if (key === 'path') path = decode(value);
+      else if (key === 'linkpath') linkTarget = decode(value);
+      else if (key.startsWith(PAX_XATTR)) xattrs[key.slice(PAX_XATTR.length)] = value;
+    }
+    pax = null;
 
     const isDir = typeFlag === 53 || path.endsWith('/'); // '5' or trailing /
     if (path.endsWith('/')) path = path.slice(0, -1);
 
-    offset += 512;
+    let type: TarEntry['type'] = isDir ? 'directory' : 'file';
+    if (typeFlag === 49) type = 'link';         // '1'
+    else if (typeFlag === 50) type = 'symlink'; // '2'
 
-    let entryData = new Uint8Array(0);
-    if (size > 0) {
-      entryData = data.slice(offset, offset + size);
-      offset += Math.ceil(size / 512) * 512;
-    }
+    offset += 512;
 
-    entries.push({
+    const entry: ArchiveIndexEntry = {
       path,
-      data: entryData,
-      type: isDir ? 'directory' : 'file',
-      mode: mode || (isDir ? 0o755 : 0o644),
+      type,
+      mode: mode || (isDir ? 0o755 : type === 'symlink' ? 0o777 : 0o644),
       mtime,
-    });
+      offset,
+      storedSize: size,
+      size,
+      method: 0,
+    };
+    if (type === 'link' || type === 'symlink') entry.linkTarget = linkTarget;
+    if (Object.keys(xattrs).length > 0) entry.xattrs = xattrs;
+    entries.push(entry);
+
+    offset += Math.ceil(size / 512) * 512;
   }
 
   return entries;
 }
 
+export function parseTar(data: Uint8Array): TarEntry[] {
+  return indexTar(readerFor(data), data.length).map((e) => {
+    const entry: TarEntry = {
+      path: e.path,
+      data: data.slice(e.offset, e.offset + e.storedSize),
+      type: e.type,
+      mode: e.mode,
+      mtime: e.mtime,
+    };
+    if (e.linkTarget !== undefined) entry.linkTarget = e.linkTarget;
+    if (e.xattrs) entry.xattrs = e.xattrs;
+    return entry;
+  });
+}
+
 // ─── Zip format (stored entries, no compression) ───
 
 export interface ZipEntry {
   path: string;
   data: Uint8Array;
   isDirectory: boolean;
+  /** Unix symlink; `data` holds the link target (Info-ZIP convention) */
+  isSymlink?: boolean;
 }
 
+/** Unix mode bits stored in the high 16 bits of the external attributes */
+const ZIP_SYMLINK_ATTRS = (0o120777 << 16) >>> 0;
+const ZIP_HOST_UNIX = 3 << 8;
+
 function writeU16LE(buf: Uint8Array, offset: number, value: number): void {
   buf[offset] = value & 0xff;
   buf[offset + 1] = (value >>> 8) & 0xff;
@@ -250,7 +380,7 @@ export function createZip(entries: ZipEntry[]): Uint8Array {
     // Central directory header (46 + name)
     const central = new Uint8Array(46 + nameBytes.length);
     writeU32LE(central, 0, 0x02014b50);  // Central dir signature
-    writeU16LE(central, 4, 20);           // Version made by
+    writeU16LE(central, 4, entry.isSymlink ? ZIP_HOST_UNIX | 20 : 20); // Version made by
     writeU16LE(central, 6, 20);           // Version needed
     writeU16LE(central, 8, 0);            // Flags
     writeU16LE(central, 10, 0);           // Compression
@@ -264,7 +394,8 @@ export function createZip(entries: ZipEntry[]): Uint8Array {
     writeU16LE(central, 32, 0);           // Comment length
     writeU16LE(central, 34, 0);           // Disk number start
     writeU16LE(central, 36, 0);           // Internal attributes
-    writeU32LE(central, 38, entry.isDirectory ? 0x10 : 0); // External attributes
+    const external = entry.isSymlink ? ZIP_SYMLINK_ATTRS : entry.isDirectory ? 0x10 : 0;
+    writeU32LE(central, 38, external);    // External attributes
     writeU32LE(central, 42, offset);      // Relative offset of local header
     central.set(nameBytes, 46);
 
@@ -294,68 +425,127 @@ export function createZip(entries: ZipEntry[]): Uint8Array {
   return concatBytes(...chunks);
 }
 
-export function parseZip(data: Uint8Array): ZipEntry[] {
-  const entries: ZipEntry[] = [];
+/** Milliseconds since the epoch for an MS-DOS date and time, or 0 if unset. */
+function dosToMs(date: number, time: number): number {
+  if (date === 0) return 0;
+  return new Date(
+    1980 + (date >>> 9), ((date >>> 5) & 0xf) - 1, date & 0x1f,
+    time >>> 11, (time >>> 5) & 0x3f, (time & 0x1f) * 2,
+  ).getTime();
+}
 
-  // Find EOCD (last 22+ bytes)
+/** Index a zip archive of `total` bytes from its central directory. */
+export function indexZip(read: ReadAt, total: number): ArchiveIndexEntry[] {
+  const entries: ArchiveIndexEntry[] = [];
+
+  // Find EOCD: 22 bytes plus a comment of up to 64 KB at the end
+  const tailStart = Math.max(0, total - 22 - 0xffff);
+  const tail = read(tailStart, total - tailStart);
   let eocdOffset = -1;
-  for (let i = data.length - 22; i >= 0; i--) {
-    if (readU32LE(data, i) === 0x06054b50) {
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (readU32LE(tail, i) === 0x06054b50) {
       eocdOffset = i;
       break;
     }
   }
   if (eocdOffset === -1) throw new Error('Invalid ZIP: EOCD not found');
 
-  const entryCount = readU16LE(data, eocdOffset + 10);
-  let centralOffset = readU32LE(data, eocdOffset + 16);
+  const entryCount = readU16LE(tail, eocdOffset + 10);
+  const central = read(readU32LE(tail, eocdOffset + 16), readU32LE(tail, eocdOffset + 12));
+  let pos = 0;
 
   for (let i = 0; i < entryCount; i++) {
-    if (readU32LE(data, centralOffset) !== 0x02014b50) break;
-
-    const nameLen = readU16LE(data, centralOffset + 28);
-    const extraLen = readU16LE(data, centralOffset + 30);
-    const commentLen = readU16LE(data, centralOffset + 32);
-    const localOffset = readU32LE(data, centralOffset + 42);
-
-    const nameBytes = data.subarray(centralOffset + 46, centralOffset + 46 + nameLen);
-    let path = decode(nameBytes);
-
-    const isDirectory = path.endsWith('/');
-    if (isDirectory) path = path.slice(0, -1);
+    if (pos + 46 > central.length || readU32LE(central, pos) !== 0x02014b50) break;
+
+    const madeBy = readU16LE(central, pos + 4);
+    const method = readU16LE(central, pos + 10);
+    const mtime = dosToMs(readU16LE(central, pos + 14), readU16LE(central, pos + 12));
+    const storedSize = readU32LE(central, pos + 20);
+    const size = readU32LE(central, pos + 24);
+    const nameLen = readU16LE(central, pos + 28);
+    const extraLen = readU16LE(central, pos + 30);
+    const commentLen = readU16LE(central, pos + 32);
+    const external = readU32LE(central, pos + 38);
+    const localOffset = readU32LE(central, pos + 42);
+    const unixMode = (madeBy >>> 8) === 3 ? external >>> 16 : 0;
+
+    let path = decode(central.subarray(pos + 46, pos + 46 + nameLen));
+    const isDirectory = path.endsWith('/') || (external & 0x10) !== 0;
+    if (path.endsWith('/')) path = path.slice(0, -1);
 
-    // Read data from local file header
-    const localNameLen = readU16LE(data, localOffset + 26);
-    const localExtraLen = readU16LE(data, localOffset + 28);
-    const compressedSize = readU32LE(data, localOffset + 18);
-    const dataStart = localOffset + 30 + localNameLen + localExtraLen;
-    const entryData = isDirectory
-      ? new Uint8Array(0)
-      : data.slice(dataStart, dataStart + compressedSize);
+    // The data follows the local header, whose name and extra field may differ
+    const local = read(localOffset, 30);
+    const offset = localOffset + 30 + readU16LE(local, 26) + readU16LE(local, 28);
 
-    entries.push({ path, data: entryData, isDirectory });
+    let type: TarEntry['type'] = isDirectory ? 'directory' : 'file';
+    if ((unixMode & 0o170000) === 0o120000) type = 'symlink';
+    entries.push({
+      path,
+      type,
+      mode: unixMode & 0o7777 || (isDirectory ? 0o755 : 0o644),
+      mtime,
+      offset,
+      storedSize: isDirectory ? 0 : storedSize,
+      size: isDirectory ? 0 : size,
+      method,
+    });
 
-    centralOffset += 46 + nameLen + extraLen + commentLen;
+    pos += 46 + nameLen + extraLen + commentLen;
   }
 
   return entries;
 }
 
+export function parseZip(data: Uint8Array): ZipEntry[] {
+  return indexZip(readerFor(data), data.length).map((e) => {
+    const entry: ZipEntry = {
+      path: e.path,
+      data: data.slice(e.offset, e.offset + e.storedSize),
+      isDirectory: e.type === 'directory',
+    };
+    if (e.type === 'symlink') entry.isSymlink = true;
+    return entry;
+  });
+}
+
 // ─── VFS helper: recursively collect files ───
 
+/**
+ * Symlinks are collected as links, not followed. Hard-linked files become
+ * 'link' entries pointing at the first path seen; their data is still
+ * filled in so formats without hard links (zip) can store a copy. Files
+ * and directories carry the extended attributes the caller can read.
+ */
 export function collectFiles(vfs: VFS, basePath: string, paths: string[]): TarEntry[] {
   const entries: TarEntry[] = [];
+  const seenInodes = new Map<number, string>();
 
   function walk(absPath: string, relativeTo: string): void {
-    const stat = vfs.stat(absPath);
+    const stat = vfs.lstat(absPath);
+    const path = absPath.slice(relativeTo.length) || absPath;
+    // A FIFO has no contents, and no entry type in zip
+    if (stat.type === 'fifo') return;
+
+    if (stat.type === 'symlink') {
+      entries.push({
+        path,
+        data: new Uint8Array(0),
+        type: 'symlink',
+        mode: stat.mode,
+        mtime: stat.mtime,
+        linkTarget: vfs.readlink(absPath),
+      });
+      return;
+    }
 
     if (stat.type === 'directory') {
       entries.push({
-        path: absPath.slice(relativeTo.length) || absPath,
+        path,
         data: new Uint8Array(0),
         type: 'directory',
         mode: stat.mode,
         mtime: stat.mtime,
+        xattrs: readXattrs(vfs, absPath),
       });
 
       const children = vfs.readdir(absPath);
@@ -364,13 +554,20 @@ export function collectFiles(vfs: VFS, basePath: string, paths: string[]): TarEn
         walk(childPath, relativeTo);
       }
     } else {
+      // Only multiply-linked files need tracking
+      const ino = (stat.nlink ?? 1) > 1 ? stat.ino : undefined;
+      const first = ino !== undefined ? seenInodes.get(ino) : undefined;
       entries.push({
-        path: absPath.slice(relativeTo.length) || absPath,
+        path,
         data: vfs.readFile(absPath),
-        type: 'file',
+        type: first !== undefined ? 'link' : 'file',
         mode: stat.mode,
         mtime: stat.mtime,
+        linkTarget: first,
+        // A hard link shares its attributes with the entry it refers to
+        xattrs: first === undefined ? readXattrs(vfs, absPath) : undefined,
       });
+      if (ino !== undefined && first === undefined) seenInodes.set(ino, path);
     }
   }
 
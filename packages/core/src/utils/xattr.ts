@@ -0,0 +1,98 @@
+import type { VFS } from '../kernel/vfs/index.js';
+import { encode, decode } from './encoding.js';
+
+/** How getfattr shows values: text in quotes, `0x`-prefixed hex or `0s`-prefixed base64. */
+export type XattrEncoding = 'text' | 'hex' | 'base64';
+
+/**
+ * The extended attributes of `path` that the caller may read, or undefined
+ * if it has none (or is on a mount without them). For tools that copy
+ * files (cp -a, tar) and so want what is there without failing over it.
+ */
+export function readXattrs(vfs: VFS, path: string): Record<string, Uint8Array> | undefined {
+  let names: string[];
+  try {
+    names = vfs.listxattr(path);
+  } catch {
+    return undefined;
+  }
+
+  const xattrs: Record<string, Uint8Array> = {};
+  for (const name of names) {
+    try {
+      xattrs[name] = vfs.getxattr(path, name);
+    } catch {
+      // Not readable by this user (e.g. a user.* attribute on a 0o000 file)
+    }
+  }
+  return Object.keys(xattrs).length > 0 ? xattrs : undefined;
+}
+
+/**
+ * Set each of `xattrs` on `path`, skipping the ones the caller may not set
+ * (a non-root user restoring trusted.*), like cp and tar do. Returns the
+ * names that could not be set.
+ */
+export function writeXattrs(vfs: VFS, path: string, xattrs: Record<string, Uint8Array> | undefined): string[] {
+  const failed: string[] = [];
+  for (const [name, value] of Object.entries(xattrs ?? {})) {
+    try {
+      vfs.setxattr(path, name, value);
+    } catch {
+      failed.push(name);
+    }
+  }
+  return failed;
+}
+
+function isPrintable(value: Uint8Array): boolean {
+  const text = decode(value);
+  return !text.includes('\uFFFD') && !/[\x00-\x08\x0b-\x1f\x7f]/.test(text);
+}
+
+/** Format a value as getfattr does; without `encoding`, text if printable, else base64. */
+export function formatXattrValue(value: Uint8Array, encoding?: XattrEncoding): string {
+  const chosen = encoding ?? (isPrintable(value) ? 'text' : 'base64');
+  if (chosen === 'hex') {
+    return '0x' + Array.from(value, (b) => b.toString(16).padStart(2, '0')).join('');
+  }
+  if (chosen === 'base64') {
+    return '0s' + btoa(Array.from(value, (b) => String.fromCharCode(b)).join(''));
+  }
+  const escaped = decode(value).replace(/[\\"\n\r\t]|[\x00-\x1f\x7f]/g, (c) => {
+    if (c === '\\' || c === '"') return '\\' + c;
+    return '\\' + c.charCodeAt(0).toString(8).padStart(3, '0');
+  });
+  return `"${escaped}"`;
+}
+
+/**
+ * Parse a value as setfattr takes it: `0x...` hex, `0s...` base64, a
+ * double-quoted string with backslash escapes, or anything else as text.
+ *
+ * @throws Error if hex or base64 is malformed
+ */
+export function parseXattrValue(input: string): Uint8Array {
+  const prefix = input.slice(0, 2).toLowerCase();
+  if (prefix === '0x') {
+    const hex = input.slice(2);
+    if (hex.length % 2 !== 0 || /[^0-9a-fA-F]/.test(hex)) throw new Error('bad input encoding');
+    return Uint8Array.from(hex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+  }
+  if (prefix === '0s') {
+    try {
+      return Uint8Array.from(atob(input.slice(2)), (c) => c.charCodeAt(0));
+    } catch {
+      throw new Error('bad input encoding');
+    }
+  }
+  if (input.startsWith('"')) {
+    const body = input.endsWith('"') && input.length > 1 ? input.slice(1, -1) : input.slice(1);
+    return encode(
+      body.replace(/\\([0-7]{3}|.)/g, (_, escape: string) =>
+        escape.length === 3 ? String.fromCharCode(parseInt(escape, 8)) : escape,
+      ),
+    );
+  }
+  return encode(input);
+}
@@ -176,3 +176,53 @@ describe('zip / unzip', () => {
     expect(ctx.stderr.text).toContain('ENOENT');
   });
 });
+
+describe('mount -t archive / umount', () => {
+  let vfs: VFS;
+
+  const archiveMount = async () => {
+    const { createMountCommand } = await import('../../src/commands/system/mount.js');
+    const { createMountTypes } = await import('../../src/kernel/vfs/index.js');
+    return createMountCommand(createMountTypes());
+  };
+
+  beforeEach(async () => {
+    vfs = new VFS();
+    vfs.mkdir('/data');
+    vfs.mkdir('/mnt/x', { recursive: true });
+    vfs.writeFile('/data/a.txt', 'alpha');
+    const { default: zip } = await import('../../src/commands/archive/zip.js');
+    await zip(createContext(vfs, ['/bundle.zip', '/data']));
+  });
+
+  it('mounts an archive for browsing and unmounts it', async () => {
+    const mount = await archiveMount();
+    const { default: umount } = await import('../../src/commands/system/umount.js');
+
+    expect(await mount(createContext(vfs, ['-t', 'archive', 'bundle.zip', '/mnt/x']))).toBe(0);
+    expect(vfs.readFileString('/mnt/x/data/a.txt')).toBe('alpha');
+
+    expect(await umount(createContext(vfs, ['/mnt/x']))).toBe(0);
+    expect(vfs.exists('/mnt/x/data')).toBe(false);
+
+    const ctx = createContext(vfs, ['/mnt/x']);
+    expect(await umount(ctx)).toBe(32);
+    expect(ctx.stderr.text).toContain('not mounted');
+  });
+
+  it('reports bad types, mount points and archives', async () => {
+    const mount = await archiveMount();
+
+    const badType = createContext(vfs, ['-t', 'nfs', '/bundle.zip', '/mnt/x']);
+    expect(await mount(badType)).toBe(32);
+    expect(badType.stderr.text).toContain("unknown filesystem type 'nfs'");
+
+    const noDir = createContext(vfs, ['-t', 'archive', '/bundle.zip', '/mnt/y']);
+    expect(await mount(noDir)).toBe(32);
+    expect(noDir.stderr.text).toContain('mount point does not exist');
+
+    const notArchive = createContext(vfs, ['-t', 'archive', '/data/a.txt', '/mnt/x']);
+    expect(await mount(notArchive)).toBe(32);
+    expect(notArchive.stderr.text).toContain('unrecognized archive format');
+  });
+});
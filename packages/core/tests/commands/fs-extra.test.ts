@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { VFS } from '../../src/kernel/vfs/index.js';
+import { createMountTypes } from '../../src/kernel/vfs/MountTypeRegistry.js';
+import { DevProvider } from '../../src/kernel/vfs/providers/DevProvider.js';
 import type { CommandContext, CommandOutputStream } from '../../src/commands/types.js';
 
 function createContext(
@@ -182,6 +184,54 @@ describe('realpath', () => {
   });
 });
 
+describe('ln', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.writeFile('/home/user/test.txt', 'hello');
+  });
+
+  it('creates a symbolic link with -s', async () => {
+    const { default: ln } = await import('../../src/commands/fs/ln.js');
+    const ctx = createContext(vfs, ['-s', 'test.txt', 'link'], '/home/user');
+    const code = await ln(ctx);
+    expect(code).toBe(0);
+    expect(vfs.readlink('/home/user/link')).toBe('test.txt');
+    expect(vfs.readFileString('/home/user/link')).toBe('hello');
+  });
+
+  it('creates a hard link by default', async () => {
+    const { default: ln } = await import('../../src/commands/fs/ln.js');
+    const ctx = createContext(vfs, ['test.txt', 'hard'], '/home/user');
+    const code = await ln(ctx);
+    expect(code).toBe(0);
+    expect(vfs.stat('/home/user/hard').nlink).toBe(2);
+  });
+
+  it('links into a directory', async () => {
+    const { default: ln } = await import('../../src/commands/fs/ln.js');
+    vfs.mkdir('/home/user/dir');
+    const ctx = createContext(vfs, ['-s', '/home/user/test.txt', 'dir'], '/home/user');
+    const code = await ln(ctx);
+    expect(code).toBe(0);
+    expect(vfs.readlink('/home/user/dir/test.txt')).toBe('/home/user/test.txt');
+  });
+
+  it('fails on an existing name without -f', async () => {
+    const { default: ln } = await import('../../src/commands/fs/ln.js');
+    vfs.writeFile('/home/user/other', 'x');
+    const ctx = createContext(vfs, ['-s', 'test.txt', 'other'], '/home/user');
+    expect(await ln(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain('ln:');
+
+    const forced = createContext(vfs, ['-sf', 'test.txt', 'other'], '/home/user');
+    expect(await ln(forced)).toBe(0);
+    expect(vfs.readlink('/home/user/other')).toBe('test.txt');
+  });
+});
+
 describe('mktemp', () => {
   it('creates a temp file', async () => {
     const vfs = new VFS();
@@ -234,14 +284,50 @@ describe('chown', () => {
 
   beforeEach(() => {
     vfs = new VFS();
+    vfs.mkdir('/etc');
+    vfs.writeFile('/etc/passwd', 'root:x:0:0:root:/root:/bin/sh\nuser:x:1000:1000:user:/home/user:/bin/sh\n');
+    vfs.writeFile('/etc/group', 'root:x:0:\nsudo:x:27:user\nuser:x:1000:\n');
     vfs.writeFile('/test.txt', 'hello');
   });
 
-  it('succeeds on existing file (no-op)', async () => {
+  it('changes owner and group by name', async () => {
     const { default: chown } = await import('../../src/commands/fs/chown.js');
-    const ctx = createContext(vfs, ['user:user', '/test.txt']);
+    const ctx = createContext(vfs, ['user:sudo', '/test.txt']);
     const code = await chown(ctx);
     expect(code).toBe(0);
+    expect(vfs.stat('/test.txt')).toMatchObject({ uid: 1000, gid: 27 });
+  });
+
+  it('uses the login group for OWNER: and accepts numeric ids', async () => {
+    const { default: chown } = await import('../../src/commands/fs/chown.js');
+    expect(await chown(createContext(vfs, ['user:', '/test.txt']))).toBe(0);
+    expect(vfs.stat('/test.txt')).toMatchObject({ uid: 1000, gid: 1000 });
+    expect(await chown(createContext(vfs, ['0:0', '/test.txt']))).toBe(0);
+    expect(vfs.stat('/test.txt')).toMatchObject({ uid: 0, gid: 0 });
+  });
+
+  it('changes a whole tree with -R', async () => {
+    const { default: chown } = await import('../../src/commands/fs/chown.js');
+    vfs.mkdir('/d/e', { recursive: true });
+    vfs.writeFile('/d/e/f', 'x');
+    const code = await chown(createContext(vfs, ['-R', 'user', '/d']));
+    expect(code).toBe(0);
+    expect(vfs.stat('/d/e/f').uid).toBe(1000);
+  });
+
+  it('errors on an unknown user', async () => {
+    const { default: chown } = await import('../../src/commands/fs/chown.js');
+    const ctx = createContext(vfs, ['nobody', '/test.txt']);
+    expect(await chown(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain("invalid user: 'nobody'");
+  });
+
+  it('refuses to give files away as a normal user', async () => {
+    const { default: chown } = await import('../../src/commands/fs/chown.js');
+    vfs.chown('/test.txt', 1000, 1000);
+    const ctx = createContext(vfs.asUser({ uid: 1000, gid: 1000 }), ['root', '/test.txt']);
+    expect(await chown(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain('EPERM');
   });
 
   it('errors on non-existent file', async () => {
@@ -259,3 +345,278 @@ describe('chown', () => {
     expect(code).toBe(1);
   });
 });
+
+describe('chmod', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.writeFile('/f', 'x');
+  });
+
+  it('sets octal modes', async () => {
+    const { default: chmod } = await import('../../src/commands/fs/chmod.js');
+    expect(await chmod(createContext(vfs, ['1777', '/f']))).toBe(0);
+    expect(vfs.stat('/f').mode).toBe(0o1777);
+  });
+
+  it('applies symbolic modes to the current mode', async () => {
+    const { default: chmod } = await import('../../src/commands/fs/chmod.js');
+    expect(await chmod(createContext(vfs, ['u+x', '/f']))).toBe(0);
+    expect(vfs.stat('/f').mode).toBe(0o744);
+    expect(await chmod(createContext(vfs, ['go-r', '/f']))).toBe(0);
+    expect(vfs.stat('/f').mode).toBe(0o700);
+  });
+
+  it('recurses with -R', async () => {
+    const { default: chmod } = await import('../../src/commands/fs/chmod.js');
+    vfs.mkdir('/d/e', { recursive: true });
+    vfs.writeFile('/d/e/f', 'x');
+    expect(await chmod(createContext(vfs, ['-R', '700', '/d']))).toBe(0);
+    expect(vfs.stat('/d/e').mode).toBe(0o700);
+    expect(vfs.stat('/d/e/f').mode).toBe(0o700);
+  });
+
+  it('fails for files the user does not own', async () => {
+    const { default: chmod } = await import('../../src/commands/fs/chmod.js');
+    const ctx = createContext(vfs.asUser({ uid: 1000, gid: 1000 }), ['777', '/f']);
+    expect(await chmod(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain('operation not permitted');
+  });
+});
+
+describe('inotifywait', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/src/lib', { recursive: true });
+    vfs.writeFile('/src/a.ts', 'a');
+  });
+
+  it('prints the first matching event and exits', async () => {
+    const { default: inotifywait } = await import('../../src/commands/fs/inotifywait.js');
+    const ctx = createContext(vfs, ['-q', '-e', 'close_write', 'src'], '/');
+    const done = inotifywait(ctx);
+    vfs.chmod('/src/a.ts', 0o600);
+    vfs.writeFile('/src/a.ts', 'changed');
+    expect(await done).toBe(0);
+    expect(ctx.stdout.text).toBe('src/ CLOSE_WRITE,CLOSE a.ts\n');
+  });
+
+  it('monitors recursively until aborted, honouring --exclude', async () => {
+    const { default: inotifywait } = await import('../../src/commands/fs/inotifywait.js');
+    const controller = new AbortController();
+    const ctx = { ...createContext(vfs, ['-m', '-r', '-e', 'create,delete,move', '--exclude', '\\.swp$', '/src']), signal: controller.signal };
+    const done = inotifywait(ctx);
+    vfs.mkdir('/src/lib/deep');
+    vfs.writeFile('/src/.a.ts.swp', '');
+    vfs.rename('/src/a.ts', '/src/lib/b.ts');
+    vfs.unlink('/src/lib/b.ts');
+    controller.abort();
+
+    expect(await done).toBe(0);
+    expect(ctx.stdout.text).toBe([
+      '/src/lib/ CREATE,ISDIR deep',
+      '/src/ MOVED_FROM a.ts',
+      '/src/lib/ MOVED_TO b.ts',
+      '/src/lib/ DELETE b.ts',
+      '',
+    ].join('\n'));
+    expect(ctx.stderr.text).toContain('Watches established.');
+  });
+
+  it('times out with status 2 and rejects missing files', async () => {
+    const { default: inotifywait } = await import('../../src/commands/fs/inotifywait.js');
+    expect(await inotifywait(createContext(vfs, ['-q', '-t', '0.01', '/src']))).toBe(2);
+
+    const missing = createContext(vfs, ['/nope']);
+    expect(await inotifywait(missing)).toBe(1);
+    expect(missing.stderr.text).toBe("Couldn't watch /nope: No such file or directory\n");
+  });
+});
+
+describe('mkfifo', () => {
+  it('creates FIFOs that ls, stat, find and test recognise', async () => {
+    const vfs = new VFS();
+    vfs.mkdir('/tmp');
+    const { default: mkfifo } = await import('../../src/commands/fs/mkfifo.js');
+    const { default: ls } = await import('../../src/commands/fs/ls.js');
+    const { default: stat } = await import('../../src/commands/fs/stat.js');
+    const { default: find } = await import('../../src/commands/fs/find.js');
+    const { evaluateTest } = await import('../../src/shell/test-builtin.js');
+
+    expect(await mkfifo(createContext(vfs, ['-m', '600', '/tmp/p']))).toBe(0);
+    expect(vfs.stat('/tmp/p')).toMatchObject({ type: 'fifo', mode: 0o600 });
+
+    const listing = createContext(vfs, ['-l', '/tmp']);
+    await ls(listing);
+    expect(listing.stdout.text).toMatch(/^prw------- /m);
+
+    const info = createContext(vfs, ['/tmp/p']);
+    await stat(info);
+    expect(info.stdout.text).toContain('Type: fifo');
+
+    const found = createContext(vfs, ['/', '-type', 'p']);
+    await find(found);
+    expect(found.stdout.text).toBe('/tmp/p\n');
+
+    const stderr = { write() {} };
+    expect(evaluateTest(['-p', '/tmp/p'], vfs, stderr)).toBe(0);
+    expect(evaluateTest(['-f', '/tmp/p'], vfs, stderr)).toBe(1);
+  });
+
+  it('reports existing names and bad modes', async () => {
+    const vfs = new VFS();
+    vfs.writeFile('/taken', '');
+    const { default: mkfifo } = await import('../../src/commands/fs/mkfifo.js');
+
+    const exists = createContext(vfs, ['/taken']);
+    expect(await mkfifo(exists)).toBe(1);
+    expect(exists.stderr.text).toBe("mkfifo: cannot create fifo '/taken': EEXIST: '/taken': file exists\n");
+
+    const badMode = createContext(vfs, ['-m', 'rw', '/p']);
+    expect(await mkfifo(badMode)).toBe(1);
+    expect(badMode.stderr.text).toBe("mkfifo: invalid mode 'rw'\n");
+  });
+});
+
+describe('df', () => {
+  async function setup() {
+    const vfs = new VFS();
+    vfs.mkdir('/mnt');
+    vfs.mkdir('/dev');
+    vfs.setQuota({ bytes: 1024 * 1024, inodes: 100 });
+    vfs.writeFile('/a.bin', new Uint8Array(2048));
+    await createMountTypes().mount(vfs, 'tmpfs', 'scratch', '/mnt', ['size=10k']);
+    vfs.mount('/dev', new DevProvider(), { type: 'devtmpfs', source: 'devtmpfs' });
+    const { default: df } = await import('../../src/commands/fs/df.js');
+    return { vfs, df };
+  }
+
+  const rows = (text: string) => text.trim().split('\n').slice(1).map((line) => line.split(/\s+/));
+
+  it('reports usage against each filesystem\'s quota', async () => {
+    const { vfs, df } = await setup();
+    const ctx = createContext(vfs, []);
+    expect(await df(ctx)).toBe(0);
+    expect(ctx.stdout.text.split('\n')[0]).toMatch(/^Filesystem +1K-blocks +Used +Available +Use% +Mounted on$/);
+    expect(rows(ctx.stdout.text)).toEqual([
+      ['rootfs', '1024', '2', '1022', '1%', '/'],
+      ['scratch', '10', '0', '10', '0%', '/mnt'],
+    ]);
+
+    const all = createContext(vfs, ['-a']);
+    await df(all);
+    expect(rows(all.stdout.text).map((r) => r[0])).toEqual(['rootfs', 'devtmpfs', 'scratch']);
+  });
+
+  it('counts inodes with -i and picks filesystems by path', async () => {
+    const { vfs, df } = await setup();
+    vfs.writeFile('/mnt/x', 'x');
+    const ctx = createContext(vfs, ['-i', '/mnt/x']);
+    expect(await df(ctx)).toBe(0);
+    expect(rows(ctx.stdout.text)).toEqual([['scratch', '-', '2', '-', '-', '/mnt']]);
+
+    const missing = createContext(vfs, ['/nope']);
+    expect(await df(missing)).toBe(1);
+    expect(missing.stderr.text).toContain('No such file or directory');
+  });
+});
+
+describe('du', () => {
+  it('counts hard links once and does not follow symlinks', async () => {
+    const vfs = new VFS();
+    vfs.mkdir('/d/sub', { recursive: true });
+    vfs.writeFile('/d/a', '12345');
+    vfs.link('/d/a', '/d/sub/b');
+    vfs.writeFile('/d/sub/c', '123');
+    vfs.symlink('/d', '/d/loop');
+    const { default: du } = await import('../../src/commands/fs/du.js');
+
+    const ctx = createContext(vfs, ['/d']);
+    expect(await du(ctx)).toBe(0);
+    // sub is listed first, so the link is counted there and not again as /d/a
+    expect(ctx.stdout.text).toBe('8\t/d/sub\n8\t/d\n');
+
+    const summary = createContext(vfs, ['-s', '/d/sub']);
+    await du(summary);
+    expect(summary.stdout.text).toBe('8\t/d/sub\n');
+  });
+});
+
+describe('getfattr / setfattr', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/d');
+    vfs.writeFile('/d/f.txt', 'hello');
+  });
+
+  it('sets attributes and dumps them', async () => {
+    const { default: setfattr } = await import('../../src/commands/fs/setfattr.js');
+    const { default: getfattr } = await import('../../src/commands/fs/getfattr.js');
+    expect(await setfattr(createContext(vfs, ['-n', 'user.comment', '-v', 'draft', '/d/f.txt']))).toBe(0);
+    expect(await setfattr(createContext(vfs, ['-n', 'user.bin', '-v', '0x00ff', '/d/f.txt']))).toBe(0);
+    expect(vfs.getxattr('/d/f.txt', 'user.bin')).toEqual(new Uint8Array([0, 255]));
+
+    const ctx = createContext(vfs, ['-d', 'f.txt'], '/d');
+    expect(await getfattr(ctx)).toBe(0);
+    expect(ctx.stdout.text).toBe('# file: f.txt\nuser.bin=0sAP8=\nuser.comment="draft"\n\n');
+  });
+
+  it('lists names only without -d and shows one value with -n', async () => {
+    const { default: getfattr } = await import('../../src/commands/fs/getfattr.js');
+    vfs.setxattr('/d/f.txt', 'user.a', 'one');
+    vfs.setxattr('/d/f.txt', 'trusted.b', 'two');
+
+    const names = createContext(vfs, ['/d/f.txt']);
+    expect(await getfattr(names)).toBe(0);
+    expect(names.stdout.text).toBe('# file: d/f.txt\nuser.a\n\n');
+    expect(names.stderr.text).toContain("Removing leading '/'");
+
+    const all = createContext(vfs, ['-m', '-', '--absolute-names', '/d/f.txt']);
+    await getfattr(all);
+    expect(all.stdout.text).toBe('# file: /d/f.txt\ntrusted.b\nuser.a\n\n');
+
+    const hex = createContext(vfs, ['-n', 'user.a', '-e', 'hex', 'f.txt'], '/d');
+    await getfattr(hex);
+    expect(hex.stdout.text).toContain('user.a=0x6f6e65');
+
+    const raw = createContext(vfs, ['-n', 'user.a', '--only-values', 'f.txt'], '/d');
+    await getfattr(raw);
+    expect(raw.stdout.text).toBe('one');
+  });
+
+  it('removes attributes with -x', async () => {
+    const { default: setfattr } = await import('../../src/commands/fs/setfattr.js');
+    vfs.setxattr('/d/f.txt', 'user.a', 'one');
+    expect(await setfattr(createContext(vfs, ['-x', 'user.a', '/d/f.txt']))).toBe(0);
+    expect(vfs.listxattr('/d/f.txt')).toEqual([]);
+
+    const ctx = createContext(vfs, ['-x', 'user.a', '/d/f.txt']);
+    expect(await setfattr(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain('ENODATA');
+  });
+
+  it('reports a missing attribute and bad names', async () => {
+    const { default: getfattr } = await import('../../src/commands/fs/getfattr.js');
+    const { default: setfattr } = await import('../../src/commands/fs/setfattr.js');
+    const missing = createContext(vfs, ['-n', 'user.none', '/d/f.txt']);
+    expect(await getfattr(missing)).toBe(1);
+    expect(missing.stderr.text).toContain('ENODATA');
+
+    const bad = createContext(vfs, ['-n', 'nonamespace', '-v', 'x', '/d/f.txt']);
+    expect(await setfattr(bad)).toBe(1);
+    expect(bad.stderr.text).toContain('ENOTSUP');
+  });
+
+  it('lets file report the MIME type set in user.mime_type', async () => {
+    const { default: file } = await import('../../src/commands/fs/file.js');
+    vfs.setxattr('/d/f.txt', 'user.mime_type', 'application/json');
+    const ctx = createContext(vfs, ['/d/f.txt']);
+    expect(await file(ctx)).toBe(0);
+    expect(ctx.stdout.text).toBe('/d/f.txt: JSON data\n');
+  });
+});
@@ -47,12 +47,25 @@ describe('ls', () => {
   });
 
   it('long format with -l', async () => {
+    vfs.mkdir('/etc');
+    vfs.writeFile('/etc/passwd', 'root:x:0:0:root:/root:/bin/sh\nuser:x:1000:1000::/home/user:/bin/sh\n');
+    vfs.writeFile('/etc/group', 'root:x:0:\nuser:x:1000:\n');
+    vfs.chown('/test/a.txt', 1000, 1000);
     const { default: ls } = await import('../../src/commands/fs/ls.js');
     const ctx = createContext(vfs, ['-l'], '/test');
     const code = await ls(ctx);
     expect(code).toBe(0);
-    expect(ctx.stdout.text).toContain('user');
-    expect(ctx.stdout.text).toContain('a.txt');
+    expect(ctx.stdout.text).toMatch(/1 user user +5 .* a\.txt/);
+    expect(ctx.stdout.text).toMatch(/1 root root +5 .* b\.txt/);
+  });
+
+  it('long format prints numeric ids without a user database', async () => {
+    vfs.chown('/test/a.txt', 1000, 1000);
+    const { default: ls } = await import('../../src/commands/fs/ls.js');
+    const ctx = createContext(vfs, ['-l', '/test/a.txt'], '/');
+    const code = await ls(ctx);
+    expect(code).toBe(0);
+    expect(ctx.stdout.text).toMatch(/^-rw-r--r--  1 1000 1000 +5 /);
   });
 
   it('shows hidden files with -a', async () => {
@@ -202,6 +215,44 @@ describe('cp', () => {
     expect(code).toBe(0);
     expect(vfs.readFileString('/dest/src.txt')).toBe('content');
   });
+
+  it('omits directories without -r and copies them with it', async () => {
+    const { default: cp } = await import('../../src/commands/fs/cp.js');
+    vfs.mkdir('/tree/sub', { recursive: true });
+    vfs.writeFile('/tree/sub/f', 'x');
+
+    const ctx = createContext(vfs, ['/tree', '/copy']);
+    expect(await cp(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain("-r not specified; omitting directory '/tree'");
+
+    expect(await cp(createContext(vfs, ['-r', '/tree', '/copy']))).toBe(0);
+    expect(vfs.readFileString('/copy/sub/f')).toBe('x');
+  });
+
+  it('keeps mode, symlinks and extended attributes with -a', async () => {
+    const { default: cp } = await import('../../src/commands/fs/cp.js');
+    vfs.mkdir('/tree');
+    vfs.writeFile('/tree/f', 'x');
+    vfs.chmod('/tree/f', 0o600);
+    vfs.setxattr('/tree/f', 'user.tag', 'kept');
+    vfs.symlink('f', '/tree/link');
+
+    expect(await cp(createContext(vfs, ['-a', '/tree', '/copy']))).toBe(0);
+    expect(vfs.stat('/copy/f').mode).toBe(0o600);
+    expect(vfs.readlink('/copy/link')).toBe('f');
+    expect(vfs.readFileString('/copy/link')).toBe('x');
+    expect(vfs.listxattr('/copy/f')).toEqual(['user.tag']);
+
+    expect(await cp(createContext(vfs, ['/tree/f', '/plain']))).toBe(0);
+    expect(vfs.listxattr('/plain')).toEqual([]);
+  });
+
+  it('refuses to copy a directory into itself', async () => {
+    const { default: cp } = await import('../../src/commands/fs/cp.js');
+    const ctx = createContext(vfs, ['-r', '/dest', '/dest/inner']);
+    expect(await cp(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain('into itself');
+  });
 });
 
 describe('mv', () => {
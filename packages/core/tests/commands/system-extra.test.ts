@@ -1,7 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { VFS } from '../../src/kernel/vfs/index.js';
 import { JobTable } from '../../src/shell/jobs.js';
+import { ProcessTable } from '../../src/kernel/process/index.js';
+import { ProcProvider } from '../../src/kernel/vfs/providers/ProcProvider.js';
 import { CommandRegistry } from '../../src/commands/registry.js';
+import { Kernel } from '../../src/kernel/index.js';
+import { CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+import type { PasswdEntry } from '../../src/kernel/users/index.js';
 import type { CommandContext, CommandOutputStream, CommandInputStream } from '../../src/commands/types.js';
 
 function createContext(
@@ -33,38 +38,83 @@ function createStdin(content: string): CommandInputStream {
 }
 
 describe('ps', () => {
-  it('shows shell and ps itself with no jobs', async () => {
-    const jobTable = new JobTable();
+  function createTable(): ProcessTable {
+    const processes = new ProcessTable();
+    processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/', env: {} });
+    return processes;
+  }
+
+  it('shows shell and ps itself', async () => {
+    const processes = createTable();
+    const self = processes.spawn({ ppid: 1, argv: ['ps'], cwd: '/', env: {} });
     const { createPsCommand } = await import('../../src/commands/system/ps.js');
-    const ps = createPsCommand(jobTable);
+    const ps = createPsCommand(processes);
     const vfs = new VFS();
     const ctx = createContext(vfs, []);
+    ctx.pid = self.pid;
     const code = await ps(ctx);
     expect(code).toBe(0);
     expect(ctx.stdout.text).toContain('PID');
-    expect(ctx.stdout.text).toContain('sh');
-    expect(ctx.stdout.text).toContain('ps');
+    expect(ctx.stdout.text).toContain('    1 tty1     00:00:00 sh');
+    expect(ctx.stdout.text).toContain('    2 tty1     00:00:00 ps');
   });
 
-  it('shows background jobs', async () => {
-    const jobTable = new JobTable();
-    const ac = new AbortController();
-    jobTable.add('sleep 100', new Promise(() => {}), ac);
+  it('shows running processes', async () => {
+    const processes = createTable();
+    processes.spawn({ ppid: 1, argv: ['sleep', '100'], cwd: '/', env: {} });
     const { createPsCommand } = await import('../../src/commands/system/ps.js');
-    const ps = createPsCommand(jobTable);
+    const ps = createPsCommand(processes);
     const vfs = new VFS();
     const ctx = createContext(vfs, []);
     const code = await ps(ctx);
     expect(code).toBe(0);
     expect(ctx.stdout.text).toContain('sleep');
   });
+
+  it('-ef shows PPID and full command line', async () => {
+    const processes = createTable();
+    processes.spawn({ ppid: 1, argv: ['sleep', '100'], cwd: '/', env: {} });
+    const { createPsCommand } = await import('../../src/commands/system/ps.js');
+    const ps = createPsCommand(processes);
+    const vfs = new VFS();
+    const ctx = createContext(vfs, ['-ef']);
+    const code = await ps(ctx);
+    expect(code).toBe(0);
+    expect(ctx.stdout.text).toContain('PPID');
+    expect(ctx.stdout.text).toMatch(/\s2\s+1\s.*sleep 100/);
+  });
+
+  it('-ef names the user each process runs as, not $USER', async () => {
+    const processes = createTable();
+    processes.spawn({ ppid: 1, argv: ['sleep', '1'], cwd: '/', env: {}, uid: 1000 });
+    processes.spawn({ ppid: 1, argv: ['sleep', '2'], cwd: '/', env: {}, uid: 4242 });
+    const { createPsCommand } = await import('../../src/commands/system/ps.js');
+    const ps = createPsCommand(processes);
+    const ctx = createContext(bootUsers().vfs, ['-ef']);
+    ctx.env.USER = 'someone';
+    await ps(ctx);
+    const owners = ctx.stdout.text.trim().split('\n').slice(1).map((line) => line.split(/\s+/)[0]);
+    expect(owners).toEqual(['root', 'user', '4242']);
+  });
+
+  it('hides exited processes', async () => {
+    const processes = createTable();
+    const proc = processes.spawn({ ppid: 1, argv: ['true'], cwd: '/', env: {} });
+    processes.exit(proc.pid, 0);
+    const { createPsCommand } = await import('../../src/commands/system/ps.js');
+    const ps = createPsCommand(processes);
+    const ctx = createContext(new VFS(), []);
+    await ps(ctx);
+    expect(ctx.stdout.text).not.toContain('true');
+  });
 });
 
 describe('top', () => {
   it('shows system snapshot', async () => {
-    const jobTable = new JobTable();
+    const processes = new ProcessTable();
+    processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/', env: {} });
     const { createTopCommand } = await import('../../src/commands/system/top.js');
-    const top = createTopCommand(jobTable);
+    const top = createTopCommand(processes);
     const vfs = new VFS();
     const ctx = createContext(vfs, []);
     const code = await top(ctx);
@@ -82,7 +132,7 @@ describe('kill', () => {
     const ac = new AbortController();
     jobTable.add('sleep 100', new Promise(() => {}), ac);
     const { createKillCommand } = await import('../../src/commands/system/kill.js');
-    const kill = createKillCommand(jobTable);
+    const kill = createKillCommand(new ProcessTable(), jobTable);
     const vfs = new VFS();
     const ctx = createContext(vfs, ['%1']);
     const code = await kill(ctx);
@@ -90,24 +140,35 @@ describe('kill', () => {
     expect(ac.signal.aborted).toBe(true);
   });
 
-  it('kills a job by PID', async () => {
-    const jobTable = new JobTable();
-    const ac = new AbortController();
-    jobTable.add('sleep 100', new Promise(() => {}), ac);
+  it('kills a process by PID', async () => {
+    const processes = new ProcessTable();
+    processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/', env: {} });
+    const proc = processes.spawn({ ppid: 1, argv: ['sleep', '100'], cwd: '/', env: {} });
     const { createKillCommand } = await import('../../src/commands/system/kill.js');
-    const kill = createKillCommand(jobTable);
+    const kill = createKillCommand(processes, new JobTable());
     const vfs = new VFS();
-    // PID = jobId + 1 = 2
-    const ctx = createContext(vfs, ['2']);
+    const ctx = createContext(vfs, [String(proc.pid)]);
     const code = await kill(ctx);
     expect(code).toBe(0);
-    expect(ac.signal.aborted).toBe(true);
+    expect(proc.abortController.signal.aborted).toBe(true);
+  });
+
+  it('stops and continues a process', async () => {
+    const processes = new ProcessTable();
+    processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/', env: {} });
+    const proc = processes.spawn({ ppid: 1, argv: ['sleep', '100'], cwd: '/', env: {} });
+    const { createKillCommand } = await import('../../src/commands/system/kill.js');
+    const kill = createKillCommand(processes, new JobTable());
+    await kill(createContext(new VFS(), ['-STOP', String(proc.pid)]));
+    expect(proc.state).toBe('stopped');
+    await kill(createContext(new VFS(), ['-CONT', String(proc.pid)]));
+    expect(proc.state).toBe('running');
+    expect(proc.abortController.signal.aborted).toBe(false);
   });
 
   it('refuses to kill PID 1 (shell)', async () => {
-    const jobTable = new JobTable();
     const { createKillCommand } = await import('../../src/commands/system/kill.js');
-    const kill = createKillCommand(jobTable);
+    const kill = createKillCommand(new ProcessTable(), new JobTable());
     const vfs = new VFS();
     const ctx = createContext(vfs, ['1']);
     const code = await kill(ctx);
@@ -115,10 +176,18 @@ describe('kill', () => {
     expect(ctx.stderr.text).toContain('not permitted');
   });
 
+  it('errors on non-existent PID', async () => {
+    const { createKillCommand } = await import('../../src/commands/system/kill.js');
+    const kill = createKillCommand(new ProcessTable(), new JobTable());
+    const ctx = createContext(new VFS(), ['42']);
+    const code = await kill(ctx);
+    expect(code).toBe(1);
+    expect(ctx.stderr.text).toContain('No such process');
+  });
+
   it('lists signals with -l', async () => {
-    const jobTable = new JobTable();
     const { createKillCommand } = await import('../../src/commands/system/kill.js');
-    const kill = createKillCommand(jobTable);
+    const kill = createKillCommand(new ProcessTable(), new JobTable());
     const vfs = new VFS();
     const ctx = createContext(vfs, ['-l']);
     const code = await kill(ctx);
@@ -128,9 +197,8 @@ describe('kill', () => {
   });
 
   it('errors on non-existent job', async () => {
-    const jobTable = new JobTable();
     const { createKillCommand } = await import('../../src/commands/system/kill.js');
-    const kill = createKillCommand(jobTable);
+    const kill = createKillCommand(new ProcessTable(), new JobTable());
     const vfs = new VFS();
     const ctx = createContext(vfs, ['%99']);
     const code = await kill(ctx);
@@ -139,6 +207,161 @@ describe('kill', () => {
   });
 });
 
+function bootUsers(): Kernel {
+  const kernel = new Kernel();
+  kernel.initFilesystem();
+  return kernel;
+}
+
+describe('id', () => {
+  it('describes the calling user', async () => {
+    const kernel = bootUsers();
+    const { default: id } = await import('../../src/commands/system/id.js');
+    const ctx = createContext(kernel.userVfs(), []);
+    expect(await id(ctx)).toBe(0);
+    expect(ctx.stdout.text).toBe('uid=1000(user) gid=1000(user) groups=1000(user),27(sudo)\n');
+  });
+
+  it('looks up a named user', async () => {
+    const kernel = bootUsers();
+    const { default: id } = await import('../../src/commands/system/id.js');
+    const ctx = createContext(kernel.userVfs(), ['root']);
+    expect(await id(ctx)).toBe(0);
+    expect(ctx.stdout.text).toBe('uid=0(root) gid=0(root) groups=0(root)\n');
+  });
+
+  it('prints single fields with -u, -g, -G and -n', async () => {
+    const kernel = bootUsers();
+    const { default: id } = await import('../../src/commands/system/id.js');
+    const cases: Array<[string[], string]> = [
+      [['-u'], '1000\n'],
+      [['-un'], 'user\n'],
+      [['-g'], '1000\n'],
+      [['-Gn'], 'user sudo\n'],
+    ];
+    for (const [args, expected] of cases) {
+      const ctx = createContext(kernel.userVfs(), args);
+      await id(ctx);
+      expect(ctx.stdout.text).toBe(expected);
+    }
+  });
+
+  it('errors on an unknown user', async () => {
+    const kernel = bootUsers();
+    const { default: id } = await import('../../src/commands/system/id.js');
+    const ctx = createContext(kernel.userVfs(), ['nobody']);
+    expect(await id(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain('no such user');
+  });
+});
+
+describe('whoami with a user database', () => {
+  it('names the acting user rather than $USER', async () => {
+    const kernel = bootUsers();
+    const { default: whoami } = await import('../../src/commands/system/whoami.js');
+    const ctx = createContext(kernel.vfs, []);
+    await whoami(ctx);
+    expect(ctx.stdout.text).toBe('root\n');
+  });
+});
+
+describe('useradd', () => {
+  it('adds an account, its group and home directory', async () => {
+    const kernel = bootUsers();
+    const { default: useradd } = await import('../../src/commands/system/useradd.js');
+    const ctx = createContext(kernel.vfs, ['-m', '-G', 'sudo', 'alice']);
+    expect(await useradd(ctx)).toBe(0);
+    expect(kernel.vfs.readFileString('/etc/passwd')).toContain('alice:x:1001:1001::/home/alice:/bin/sh\n');
+    expect(kernel.vfs.readFileString('/etc/group')).toContain('sudo:x:27:user,alice\n');
+    expect(kernel.vfs.readFileString('/etc/group')).toContain('alice:x:1001:\n');
+    expect(kernel.vfs.stat('/home/alice')).toMatchObject({ uid: 1001, gid: 1001, mode: 0o750 });
+  });
+
+  it('rejects duplicate names', async () => {
+    const kernel = bootUsers();
+    const { default: useradd } = await import('../../src/commands/system/useradd.js');
+    const ctx = createContext(kernel.vfs, ['user']);
+    expect(await useradd(ctx)).toBe(1);
+    expect(ctx.stderr.text).toContain("user 'user' already exists");
+  });
+
+  it('is root only', async () => {
+    const kernel = bootUsers();
+    const { default: useradd } = await import('../../src/commands/system/useradd.js');
+    const ctx = createContext(kernel.userVfs(), ['alice']);
+    expect(await useradd(ctx)).toBe(1);
+    expect(ctx.stderr.text).toBe('useradd: Permission denied.\n');
+  });
+});
+
+describe('su and sudo', () => {
+  function recordRunAs() {
+    const calls: Array<{ user: string; cmd: string; cwd: string }> = [];
+    const runAs = async (user: PasswdEntry, cmd: string, ctx: CommandContext) => {
+      calls.push({ user: user.name, cmd, cwd: ctx.cwd });
+      return 0;
+    };
+    return { calls, runAs };
+  }
+
+  it('su runs -c as the target user when called by root', async () => {
+    const kernel = bootUsers();
+    const { createSuCommand } = await import('../../src/commands/system/su.js');
+    const { calls, runAs } = recordRunAs();
+    const ctx = createContext(kernel.vfs, ['-', 'user', '-c', 'whoami'], '/tmp');
+    expect(await createSuCommand(runAs)(ctx)).toBe(0);
+    expect(calls).toEqual([{ user: 'user', cmd: 'whoami', cwd: '/home/user' }]);
+  });
+
+  it('su reads the script from stdin without -c', async () => {
+    const kernel = bootUsers();
+    const { createSuCommand } = await import('../../src/commands/system/su.js');
+    const { calls, runAs } = recordRunAs();
+    const ctx = createContext(kernel.vfs, ['user'], '/tmp', createStdin('id\n'));
+    expect(await createSuCommand(runAs)(ctx)).toBe(0);
+    expect(calls).toEqual([{ user: 'user', cmd: 'id\n', cwd: '/tmp' }]);
+  });
+
+  it('su refuses non-root callers', async () => {
+    const kernel = bootUsers();
+    const { createSuCommand } = await import('../../src/commands/system/su.js');
+    const { calls, runAs } = recordRunAs();
+    const ctx = createContext(kernel.userVfs(), ['-c', 'id']);
+    expect(await createSuCommand(runAs)(ctx)).toBe(1);
+    expect(ctx.stderr.text).toBe('su: Authentication failure\n');
+    expect(calls).toEqual([]);
+  });
+
+  it('sudo runs a quoted command as root for the sudo group', async () => {
+    const kernel = bootUsers();
+    const { createSudoCommand } = await import('../../src/commands/system/sudo.js');
+    const { calls, runAs } = recordRunAs();
+    const ctx = createContext(kernel.userVfs(), ['echo', "it's", 'a b']);
+    expect(await createSudoCommand(runAs)(ctx)).toBe(0);
+    expect(calls).toEqual([{ user: 'root', cmd: `echo 'it'\\''s' 'a b'`, cwd: '/' }]);
+  });
+
+  it('sudo -u picks the target user', async () => {
+    const kernel = bootUsers();
+    const { createSudoCommand } = await import('../../src/commands/system/sudo.js');
+    const { calls, runAs } = recordRunAs();
+    const ctx = createContext(kernel.vfs, ['-u', 'user', 'id']);
+    expect(await createSudoCommand(runAs)(ctx)).toBe(0);
+    expect(calls[0].user).toBe('user');
+  });
+
+  it('sudo refuses users outside the sudo group', async () => {
+    const kernel = bootUsers();
+    kernel.vfs.writeFile('/etc/passwd', kernel.vfs.readFileString('/etc/passwd') + 'guest:x:1001:1001::/home/guest:/bin/sh\n');
+    const { createSudoCommand } = await import('../../src/commands/system/sudo.js');
+    const { calls, runAs } = recordRunAs();
+    const ctx = createContext(kernel.userVfs('guest'), ['id']);
+    expect(await createSudoCommand(runAs)(ctx)).toBe(1);
+    expect(ctx.stderr.text).toBe('guest is not in the sudoers file.\n');
+    expect(calls).toEqual([]);
+  });
+});
+
 describe('cal', () => {
   it('outputs current month calendar', async () => {
     const vfs = new VFS();
@@ -344,3 +567,207 @@ describe('watch', () => {
     expect(ctx.stderr.text).toContain('command not found');
   });
 });
+
+describe('mount, umount and findmnt', () => {
+  async function setup() {
+    const kernel = bootUsers();
+    kernel.vfs.mkdir('/mnt/scratch', { recursive: true });
+    const { createMountCommand } = await import('../../src/commands/system/mount.js');
+    const { default: umount } = await import('../../src/commands/system/umount.js');
+    const { default: findmnt } = await import('../../src/commands/system/findmnt.js');
+    return { kernel, mount: createMountCommand(kernel.mountTypes), umount, findmnt };
+  }
+
+  it('mounts a tmpfs, lists it and unmounts it', async () => {
+    const { kernel, mount, umount } = await setup();
+    expect(await mount(createContext(kernel.vfs, ['-t', 'tmpfs', 'none', '/mnt/scratch']))).toBe(0);
+    kernel.vfs.writeFile('/mnt/scratch/a.txt', 'a');
+    expect(kernel.vfs.stat('/mnt/scratch').mode).toBe(0o1777);
+
+    const list = createContext(kernel.vfs, ['-t', 'tmpfs']);
+    expect(await mount(list)).toBe(0);
+    expect(list.stdout.text).toBe('none on /mnt/scratch type tmpfs (rw)\n');
+
+    expect(await umount(createContext(kernel.vfs, ['none']))).toBe(0);
+    expect(kernel.vfs.exists('/mnt/scratch/a.txt')).toBe(false);
+  });
+
+  it('mounts /etc/fstab entries with -a or by name', async () => {
+    const { kernel, mount } = await setup();
+    kernel.vfs.mkdir('/mnt/later');
+    kernel.vfs.writeFile('/etc/fstab', [
+      '# comment',
+      'none /mnt/scratch tmpfs ro 0 0',
+      'none /mnt/later memory noauto',
+      'none /mnt/bad nfs defaults',
+    ].join('\n'));
+
+    const all = createContext(kernel.vfs, ['-a']);
+    expect(await mount(all)).toBe(32);
+    expect(all.stderr.text).toBe("mount: /mnt/bad: ENODEV: unknown filesystem type 'nfs'\n");
+    expect(() => kernel.vfs.writeFile('/mnt/scratch/x', '')).toThrow(/EROFS/);
+    expect(kernel.vfs.isMountPoint('/mnt/later')).toBe(false);
+
+    const byName = createContext(kernel.vfs, ['/mnt/later']);
+    expect(await mount(byName)).toBe(0);
+    expect(kernel.vfs.listMounts().find((m) => m.path === '/mnt/later')?.type).toBe('memory');
+  });
+
+  it('draws the mount tree with findmnt', async () => {
+    const { kernel, mount, findmnt } = await setup();
+    kernel.vfs.mount('/proc', new ProcProvider(), { type: 'proc', source: 'proc' });
+    await mount(createContext(kernel.vfs, ['-t', 'tmpfs', 'none', '/mnt']));
+    kernel.vfs.mkdir('/mnt/scratch');
+    await mount(createContext(kernel.vfs, ['-t', 'tmpfs', 'scratch', '/mnt/scratch']));
+
+    const tree = createContext(kernel.vfs, []);
+    expect(await findmnt(tree)).toBe(0);
+    expect(tree.stdout.text).toBe([
+      'TARGET           SOURCE  FSTYPE OPTIONS',
+      '/                rootfs  rootfs rw',
+      '├─/mnt           none    tmpfs  rw',
+      '│ └─/mnt/scratch scratch tmpfs  rw',
+      '└─/proc          proc    proc   ro',
+      '',
+    ].join('\n'));
+
+    const one = createContext(kernel.vfs, ['-n', 'scratch']);
+    expect(await findmnt(one)).toBe(0);
+    expect(one.stdout.text).toBe('/mnt/scratch scratch tmpfs rw\n');
+    expect(await findmnt(createContext(kernel.vfs, ['/home']))).toBe(1);
+  });
+
+  it('needs root to change mounts', async () => {
+    const { kernel, mount, umount } = await setup();
+    const ctx = createContext(kernel.userVfs(), ['-t', 'tmpfs', 'none', '/mnt/scratch']);
+    expect(await mount(ctx)).toBe(32);
+    expect(ctx.stderr.text).toBe('mount: must be superuser to use mount.\n');
+    expect(await umount(createContext(kernel.userVfs(), ['/mnt/scratch']))).toBe(32);
+    expect(await mount(createContext(kernel.userVfs(), []))).toBe(0);
+  });
+});
+
+describe('watchexec', () => {
+  const tick = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it('runs the command at start and again for each batch of matching changes', async () => {
+    const vfs = new VFS();
+    vfs.mkdir('/app/dist', { recursive: true });
+    const runs: Array<{ cmd: string; env: Record<string, string> }> = [];
+    const { createWatchexecCommand } = await import('../../src/commands/system/watchexec.js');
+    const watchexec = createWatchexecCommand(async (cmd, ctx) => {
+      runs.push({ cmd, env: ctx.env });
+      return 0;
+    });
+
+    const controller = new AbortController();
+    const ctx = { ...createContext(vfs, ['-e', 'ts', '-i', 'dist/*', '-d', '10', '--', 'echo', 'it changed'], '/app'), signal: controller.signal };
+    const done = watchexec(ctx);
+    await tick(0);
+    expect(runs.map((r) => r.cmd)).toEqual(["echo 'it changed'"]);
+
+    vfs.writeFile('/app/a.ts', '1');
+    vfs.writeFile('/app/a.ts', '2');
+    vfs.writeFile('/app/b.ts', '1');
+    vfs.writeFile('/app/dist/a.ts', 'built');
+    vfs.writeFile('/app/notes.md', '');
+    await tick(40);
+
+    expect(runs).toHaveLength(2);
+    expect(runs[1].env.WATCHEXEC_COMMON_PATH).toBe('/app');
+    expect(runs[1].env.WATCHEXEC_CREATED_PATH).toBe('a.ts:b.ts');
+    controller.abort();
+    expect(await done).toBe(0);
+  });
+
+  it('postpones the first run with -p and checks its arguments', async () => {
+    const vfs = new VFS();
+    const runs: string[] = [];
+    const { createWatchexecCommand } = await import('../../src/commands/system/watchexec.js');
+    const watchexec = createWatchexecCommand(async (cmd) => {
+      runs.push(cmd);
+      return 0;
+    });
+
+    const usage = createContext(vfs, ['-p']);
+    expect(await watchexec(usage)).toBe(1);
+    expect(usage.stderr.text).toContain('Usage: watchexec');
+
+    const controller = new AbortController();
+    const done = watchexec({ ...createContext(vfs, ['-p', '-d', '5', 'make']), signal: controller.signal });
+    await tick(20);
+    expect(runs).toEqual([]);
+    vfs.touch('/x');
+    await tick(30);
+    expect(runs).toEqual(['make']);
+    controller.abort();
+    expect(await done).toBe(0);
+  });
+});
+
+describe('fsck', () => {
+  it('reports problems with -n and fixes them with -y', async () => {
+    const kernel = bootUsers();
+    const { createFsckCommand } = await import('../../src/commands/system/fsck.js');
+    const fsck = createFsckCommand((options) => kernel.fsck(options));
+
+    const clean = createContext(kernel.vfs, []);
+    expect(await fsck(clean)).toBe(0);
+    expect(clean.stdout.text).toBe('fsck: filesystem clean\n');
+
+    kernel.vfs.writeFile('/tmp/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(1));
+    for (const hash of kernel.vfs.contentStore.hashes()) kernel.vfs.contentStore.delete(hash);
+    const orphan = kernel.vfs.contentStore.put(new Uint8Array([1]));
+
+    const check = createContext(kernel.vfs, ['-nv']);
+    expect(await fsck(check)).toBe(4);
+    expect(check.stdout.text).toBe(`/tmp/big.bin: 1 missing chunk\n1 orphaned chunk\n  ${orphan}\n`);
+
+    const denied = createContext(kernel.userVfs(), ['-y']);
+    expect(await fsck(denied)).toBe(8);
+    expect(denied.stderr.text).toContain('must be superuser');
+
+    const repair = createContext(kernel.vfs, ['-y']);
+    expect(await fsck(repair)).toBe(1);
+    expect(repair.stdout.text).toBe('/tmp/big.bin: 1 missing chunk, truncated\n1 orphaned chunk, freed\n');
+    expect(kernel.vfs.stat('/tmp/big.bin').size).toBe(0);
+    expect(await fsck(createContext(kernel.vfs, []))).toBe(0);
+  });
+});
+
+describe('passphrase', () => {
+  it('encrypts the persisted filesystem with a passphrase read twice', async () => {
+    const { EncryptedPersistenceBackend } = await import('../../src/kernel/persistence/encryption.js');
+    const { MemoryPersistenceBackend } = await import('../../src/kernel/persistence/backends.js');
+    const { createPassphraseCommand } = await import('../../src/commands/system/passphrase.js');
+    const inner = new MemoryPersistenceBackend();
+    const kernel = new Kernel(new EncryptedPersistenceBackend(inner, { passphrase: async () => null, iterations: 1000 }));
+    await kernel.boot();
+    const passphrase = createPassphraseCommand((p) => kernel.changePassphrase(p));
+
+    const denied = createContext(kernel.userVfs(), [], '/', createStdin('s3cret\ns3cret\n'));
+    expect(await passphrase(denied)).toBe(1);
+    expect(denied.stderr.text).toContain('must be superuser');
+
+    const mismatch = createContext(kernel.vfs, [], '/', createStdin('s3cret\nsecret\n'));
+    expect(await passphrase(mismatch)).toBe(1);
+    expect(mismatch.stderr.text).toBe('passphrase: passphrases do not match\n');
+    expect((await inner.loadTree())?.ek).toBeUndefined();
+
+    const ctx = createContext(kernel.vfs, [], '/', createStdin('s3cret\ns3cret\n'));
+    expect(await passphrase(ctx)).toBe(0);
+    expect(ctx.stdout.text).toBe(
+      'New passphrase: \nRetype new passphrase: \npassphrase: filesystem encrypted with the new passphrase\n',
+    );
+    expect((await inner.loadTree())?.ek).toBeDefined();
+  });
+
+  it('reports a filesystem that cannot be encrypted', async () => {
+    const kernel = bootUsers();
+    const { createPassphraseCommand } = await import('../../src/commands/system/passphrase.js');
+    const passphrase = createPassphraseCommand((p) => kernel.changePassphrase(p));
+    const ctx = createContext(kernel.vfs, [], '/', createStdin('s3cret\ns3cret\n'));
+    expect(await passphrase(ctx)).toBe(1);
+    expect(ctx.stderr.text).toBe('passphrase: the filesystem is not persisted through an encrypting backend\n');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { VFS, ArchiveProvider } from '../../src/kernel/vfs/index.js';
+import { createTar, createZip, compressGzip } from '../../src/utils/archive.js';
+import type { TarEntry } from '../../src/utils/archive.js';
+import { encode } from '../../src/utils/encoding.js';
+
+const file = (path: string, text: string, mode = 0o644): TarEntry => ({
+  path, data: encode(text), type: 'file', mode, mtime: 1_700_000_000_000,
+});
+
+const TAR_ENTRIES: TarEntry[] = [
+  { path: 'pkg', data: new Uint8Array(0), type: 'directory', mode: 0o755, mtime: 0 },
+  file('pkg/README.md', '# pkg'),
+  file('pkg/bin/run', '#!/bin/sh', 0o755),
+  { path: 'pkg/latest', data: new Uint8Array(0), type: 'symlink', mode: 0o777, mtime: 0, linkTarget: 'bin/run' },
+  { path: 'pkg/copy', data: new Uint8Array(0), type: 'link', mode: 0o644, mtime: 0, linkTarget: 'pkg/README.md' },
+];
+
+/** Deflate `text` and store it as a method-8 zip entry. */
+async function deflatedZip(path: string, text: string): Promise<Uint8Array> {
+  const raw = encode(text);
+  const stream = new Blob([raw as unknown as ArrayBuffer]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const packed = new Uint8Array(await new Response(stream).arrayBuffer());
+  const zip = createZip([{ path, data: packed, isDirectory: false }]);
+  const view = new DataView(zip.buffer);
+  const central = view.getUint32(zip.length - 6, true);
+  view.setUint16(8, 8, true);                        // local header: method
+  view.setUint32(22, raw.length, true);              // local header: size
+  view.setUint16(central + 10, 8, true);             // central header: method
+  view.setUint32(central + 24, raw.length, true);    // central header: size
+  return zip;
+}
+
+describe('ArchiveProvider', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/mnt/a', { recursive: true });
+    vfs.writeFile('/pkg.tar', createTar(TAR_ENTRIES));
+  });
+
+  it('serves a tar archive from the VFS', async () => {
+    vfs.mount('/mnt/a', await ArchiveProvider.fromFile(vfs, '/pkg.tar'));
+
+    expect(vfs.readdir('/mnt/a/pkg').map((e) => e.name).sort()).toEqual(['README.md', 'bin', 'copy', 'latest']);
+    expect(vfs.readFileString('/mnt/a/pkg/README.md')).toBe('# pkg');
+    expect(vfs.stat('/mnt/a/pkg/bin/run').mode).toBe(0o755);
+    expect(vfs.stat('/mnt/a/pkg/README.md').mtime).toBe(1_700_000_000_000);
+    expect(vfs.readFileString('/mnt/a/pkg/latest')).toBe('#!/bin/sh');
+    expect(vfs.readFileString('/mnt/a/pkg/copy')).toBe('# pkg');
+  });
+
+  it('reads entries in place instead of loading the whole archive', async () => {
+    const readFile = vi.spyOn(vfs, 'readFile');
+    const readRange = vi.spyOn(vfs, 'readRange');
+    const provider = await ArchiveProvider.fromFile(vfs, '/pkg.tar');
+    readRange.mockClear();
+
+    expect(provider.readFileString('/pkg/README.md')).toBe('# pkg');
+    expect(readRange).toHaveBeenCalledTimes(1);
+    expect(readRange).toHaveBeenCalledWith('/pkg.tar', expect.any(Number), 5);
+    expect(readFile).not.toHaveBeenCalled();
+  });
+
+  it('opens tar.gz and zip archives', async () => {
+    const gz = await ArchiveProvider.fromBytes(await compressGzip(createTar(TAR_ENTRIES)));
+    expect(gz.format).toBe('tar.gz');
+    expect(gz.readFileString('/pkg/bin/run')).toBe('#!/bin/sh');
+
+    const zip = await ArchiveProvider.fromBytes(createZip([
+      { path: 'docs/', data: new Uint8Array(0), isDirectory: true },
+      { path: 'docs/a.txt', data: encode('alpha'), isDirectory: false },
+      { path: 'docs/link', data: encode('a.txt'), isDirectory: false, isSymlink: true },
+    ]));
+    expect(zip.format).toBe('zip');
+    expect(zip.readdir('/docs').map((e) => `${e.name}:${e.type}`)).toEqual(['a.txt:file', 'link:symlink']);
+    expect(zip.readFileString('/docs/link')).toBe('alpha');
+
+    const deflated = await ArchiveProvider.fromBytes(await deflatedZip('big.txt', 'abc'.repeat(1000)));
+    expect(deflated.readFileString('/big.txt')).toBe('abc'.repeat(1000));
+    expect(deflated.stat('/big.txt').size).toBe(3000);
+  });
+
+  it('is read-only and reports missing paths', async () => {
+    vfs.mount('/mnt/a', await ArchiveProvider.fromFile(vfs, '/pkg.tar'));
+    expect(() => vfs.writeFile('/mnt/a/pkg/new', 'x')).toThrow(/EROFS/);
+    expect(() => vfs.unlink('/mnt/a/pkg/README.md')).toThrow(/EROFS/);
+    expect(() => vfs.readFile('/mnt/a/pkg/missing')).toThrow(/ENOENT/);
+    expect(() => vfs.readdir('/mnt/a/pkg/README.md')).toThrow(/ENOTDIR/);
+    expect(vfs.exists('/mnt/a/pkg/README.md/x')).toBe(false);
+  });
+
+  it('rejects data that is not an archive', async () => {
+    vfs.writeFile('/notes.txt', 'just text');
+    await expect(ArchiveProvider.fromFile(vfs, '/notes.txt')).rejects.toThrow(/unrecognized archive format/);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { ContentStore, CHUNK_THRESHOLD, CHUNK_SIZE, ChunkRef } from '../../src/kernel/storage/ContentStore.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContentStore, CHUNK_THRESHOLD, CHUNK_SIZE, COLLECT_DELAY_MS, ChunkRef } from '../../src/kernel/storage/ContentStore.js';
 import { hashBytes } from '../../src/kernel/storage/BlobStore.js';
 
 describe('ContentStore', () => {
@@ -425,3 +425,100 @@ describe('VFS chunked file integration', () => {
     expect(store.size).toBeLessThanOrEqual(512 * 1024);
   });
 });
+
+describe('ContentStore reference counting and collection', () => {
+  let VFS: typeof import('../../src/kernel/vfs/VFS.js').VFS;
+
+  beforeEach(async () => {
+    VFS = (await import('../../src/kernel/vfs/VFS.js')).VFS;
+  });
+
+  it('frees a chunk only when the last manifest referring to it is released', () => {
+    const store = new ContentStore();
+    const data = new Uint8Array(CHUNK_SIZE).fill(3);
+    const first = store.storeChunked(data);
+    const second = store.storeChunked(data);
+    expect(store.refCount(first[0].hash)).toBe(2);
+
+    store.deleteChunked(first);
+    expect(store.loadChunked(second)).toEqual(data);
+    store.deleteChunked(second);
+    expect(store.count).toBe(0);
+  });
+
+  it('keeps the chunks of a copy when the original is removed', () => {
+    const vfs = new VFS();
+    const data = new Uint8Array(CHUNK_THRESHOLD + 100).fill(9);
+    vfs.writeFile('/src.bin', data);
+    vfs.copyFile('/src.bin', '/dest.bin');
+    vfs.unlink('/src.bin');
+    expect(vfs.readFile('/dest.bin')).toEqual(data);
+
+    vfs.rename('/dest.bin', '/other.bin');
+    vfs.writeFile('/third.bin', new Uint8Array(CHUNK_THRESHOLD).fill(1));
+    vfs.rename('/third.bin', '/other.bin');
+    expect(vfs.contentStore.count).toBe(1);
+  });
+
+  it('sweeps chunks that only dropped snapshots referred to', () => {
+    const vfs = new VFS();
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(1));
+    const id = vfs.snapshot();
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(2));
+    vfs.unlink('/big.bin');
+
+    // The snapshot still holds the first version; the second is garbage
+    expect(vfs.contentStore.collect()).toEqual({ removed: 1, freedBytes: CHUNK_SIZE });
+    vfs.restore(id);
+    expect(vfs.readFile('/big.bin')[0]).toBe(1);
+
+    vfs.unlink('/big.bin');
+    vfs.dropSnapshot(id);
+    expect(vfs.contentStore.collect().removed).toBe(1);
+    expect(vfs.contentStore.count).toBe(0);
+  });
+
+  it('counts clones sharing the store as holders', () => {
+    const vfs = new VFS();
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(1));
+    const clone = vfs.clone();
+    vfs.unlink('/big.bin');
+    expect(vfs.contentStore.collect().removed).toBe(0);
+    expect(clone.readFile('/big.bin')[0]).toBe(1);
+  });
+
+  it('collects in the background after copy-on-write changes', async () => {
+    vi.useFakeTimers();
+    try {
+      const vfs = new VFS();
+      vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(1));
+      vfs.dropSnapshot(vfs.snapshot());
+      vfs.unlink('/big.bin');
+      expect(vfs.contentStore.count).toBe(1);
+      await vi.advanceTimersByTimeAsync(COLLECT_DELAY_MS);
+      expect(vfs.contentStore.count).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('fsck reports and repairs missing and orphaned chunks', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/data');
+    vfs.writeFile('/data/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(1));
+    const [lost] = vfs.contentStore.storeChunked(new Uint8Array(CHUNK_SIZE).fill(2));
+    vfs.contentStore.delete(vfs.contentStore.hashes().find((h) => h !== lost.hash)!);
+    const orphan = vfs.contentStore.put(new Uint8Array(10));
+
+    const report = vfs.fsck();
+    expect(report.damaged).toEqual([{ path: '/data/big.bin', missing: [expect.any(String)] }]);
+    expect(report.orphans.sort()).toEqual([lost.hash, orphan].sort());
+    expect(report.repaired).toBe(false);
+    expect(vfs.stat('/data/big.bin').size).toBe(CHUNK_THRESHOLD);
+
+    vfs.fsck({ repair: true });
+    expect(vfs.stat('/data/big.bin').size).toBe(0);
+    expect(vfs.contentStore.count).toBe(0);
+    expect(vfs.fsck()).toMatchObject({ damaged: [], orphans: [] });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  EncryptedPersistenceBackend,
+  PassphraseError,
+} from '../../src/kernel/persistence/encryption.js';
+import type { EncryptionOptions } from '../../src/kernel/persistence/encryption.js';
+import { MemoryPersistenceBackend, OPFSPersistenceBackend } from '../../src/kernel/persistence/backends.js';
+import type { PersistenceBackend } from '../../src/kernel/persistence/backends.js';
+import { PersistenceManager } from '../../src/kernel/persistence/PersistenceManager.js';
+import { serialize } from '../../src/kernel/persistence/serializer.js';
+import { MemoryOPFSDirectory } from '../../src/kernel/storage/opfs.js';
+import type { OPFSDirectoryHandle } from '../../src/kernel/storage/opfs.js';
+import { CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { Kernel } from '../../src/kernel/index.js';
+import { Sandbox } from '../../src/sandbox/Sandbox.js';
+
+const SECRET = 'API_TOKEN=sk-live-0123456789';
+
+// Few rounds, so the tests stay fast
+const options = (passphrase: EncryptionOptions['passphrase']): EncryptionOptions => ({ passphrase, iterations: 1000 });
+
+/** Boot a VFS from `backend` and journal its changes, like Kernel.boot does. */
+async function boot(backend: PersistenceBackend): Promise<{ vfs: VFS; manager: PersistenceManager }> {
+  const vfs = new VFS();
+  const manager = new PersistenceManager(backend, vfs.contentStore);
+  await manager.open();
+  const root = await manager.load();
+  if (root) vfs.loadFromSerialized(root);
+  vfs.watch((event) => manager.recordChange(event, vfs.getRoot()));
+  return { vfs, manager };
+}
+
+/** Every file under `dir`, decoded as Latin-1 so any bytes can be searched. */
+async function dump(dir: OPFSDirectoryHandle): Promise<string> {
+  let out = '';
+  for await (const name of dir.keys()) {
+    try {
+      const file = await (await dir.getFileHandle(name)).getFile();
+      out += Array.from(new Uint8Array(await file.arrayBuffer()), (b) => String.fromCharCode(b)).join('');
+    } catch {
+      out += await dump(await dir.getDirectoryHandle(name));
+    }
+  }
+  return out;
+}
+
+describe('EncryptedPersistenceBackend', () => {
+  let root: MemoryOPFSDirectory;
+  const opfs = () => new OPFSPersistenceBackend({ root });
+
+  beforeEach(() => {
+    root = new MemoryOPFSDirectory();
+  });
+
+  it('stores the tree, journal and blobs only as ciphertext', async () => {
+    const { vfs, manager } = await boot(new EncryptedPersistenceBackend(opfs(), options('hunter2')));
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.writeFile('/home/user/.env', SECRET);
+    await manager.flush();
+    vfs.writeFile('/home/user/notes.txt', 'journaled ' + SECRET);
+    const big = new Uint8Array(CHUNK_THRESHOLD).fill(0x41);
+    vfs.writeFile('/home/user/big.bin', big);
+    await manager.flush();
+
+    const raw = await dump(root);
+    expect(raw).not.toContain('sk-live');
+    expect(raw).not.toContain('.env');
+    expect(raw).not.toContain('AAAAAAAA');
+
+    const reopened = await boot(new EncryptedPersistenceBackend(opfs(), options('hunter2')));
+    expect(reopened.vfs.readFileString('/home/user/.env')).toBe(SECRET);
+    expect(reopened.vfs.readFileString('/home/user/notes.txt')).toBe('journaled ' + SECRET);
+    expect(Buffer.compare(reopened.vfs.readFile('/home/user/big.bin'), big)).toBe(0);
+  });
+
+  it('fails cleanly with a wrong passphrase', async () => {
+    const { vfs, manager } = await boot(new EncryptedPersistenceBackend(opfs(), options('hunter2')));
+    vfs.writeFile('/secret', SECRET);
+    await manager.flush();
+    const before = await dump(root);
+
+    await expect(boot(new EncryptedPersistenceBackend(opfs(), options('wrong')))).rejects.toThrow(PassphraseError);
+    await expect(new Kernel(new EncryptedPersistenceBackend(opfs(), options('wrong'))).boot()).rejects.toThrow(
+      'wrong passphrase',
+    );
+    expect(await dump(root)).toBe(before);
+  });
+
+  it('prompts only for an encrypted image, again after a wrong answer', async () => {
+    const asked: number[] = [];
+    const answers = ['nope', 'hunter2'];
+    const prompt = async (attempt: number) => {
+      asked.push(attempt);
+      return answers[attempt - 1] ?? null;
+    };
+
+    // Plaintext stays plaintext, and nobody is asked
+    const plain = new MemoryPersistenceBackend();
+    const first = await boot(new EncryptedPersistenceBackend(plain, options(prompt)));
+    first.vfs.writeFile('/a.txt', 'a');
+    await first.manager.flush();
+    expect(asked).toEqual([]);
+    expect((await plain.loadTree())?.ek).toBeUndefined();
+
+    const encrypted = new EncryptedPersistenceBackend(plain, options(prompt));
+    await encrypted.open();
+    await encrypted.changePassphrase('hunter2');
+    const second = await boot(new EncryptedPersistenceBackend(plain, options(prompt)));
+    expect(asked).toEqual([1, 2]);
+    expect(second.vfs.readFileString('/a.txt')).toBe('a');
+
+    asked.length = 0;
+    answers[1] = 'still wrong';
+    await expect(boot(new EncryptedPersistenceBackend(plain, { ...options(prompt), attempts: 2 }))).rejects.toThrow(
+      'wrong passphrase (2 attempts)',
+    );
+    expect(asked).toEqual([1, 2]);
+    await expect(boot(new EncryptedPersistenceBackend(plain, options(async () => null)))).rejects.toThrow(
+      'no passphrase given',
+    );
+  });
+
+  it('rotates the passphrase without rewriting data', async () => {
+    const backend = new EncryptedPersistenceBackend(opfs(), options('old'));
+    const { vfs, manager } = await boot(backend);
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(7));
+    await manager.flush();
+    const blobs = await (await root.getDirectoryHandle('lifo')).getDirectoryHandle('blobs');
+    const { value: name } = await blobs.keys().next();
+    const blob = await (await blobs.getFileHandle(name)).getFile().then((f) => f.arrayBuffer());
+
+    await backend.changePassphrase('new');
+    await expect(boot(new EncryptedPersistenceBackend(opfs(), options('old')))).rejects.toThrow(PassphraseError);
+    const reopened = await boot(new EncryptedPersistenceBackend(opfs(), options('new')));
+    expect(Buffer.compare(reopened.vfs.readFile('/big.bin'), new Uint8Array(CHUNK_THRESHOLD).fill(7))).toBe(0);
+    expect(await (await blobs.getFileHandle(name)).getFile().then((f) => f.arrayBuffer())).toEqual(blob);
+  });
+
+  it('encrypts an existing plaintext image, its journal, backups and blobs', async () => {
+    const { vfs, manager } = await boot(opfs());
+    vfs.writeFile('/token', SECRET);
+    await manager.flush();
+    vfs.writeFile('/later', 'journaled ' + SECRET);
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(0x41));
+    await manager.flush();
+    const tree = serialize(vfs.getRoot());
+    const plain = opfs();
+    await plain.open();
+    await plain.saveBackup({ label: 'v1', tree, journal: [] });
+    expect(await dump(root)).toContain('sk-live');
+
+    const encrypted = new EncryptedPersistenceBackend(opfs(), options('hunter2'));
+    await encrypted.open();
+    expect(encrypted.encrypted).toBe(true);
+    const raw = await dump(root);
+    expect(raw).not.toContain('sk-live');
+    expect(raw).not.toContain('AAAAAAAA');
+
+    const reopened = await boot(new EncryptedPersistenceBackend(opfs(), options('hunter2')));
+    expect(reopened.vfs.readFileString('/token')).toBe(SECRET);
+    expect(reopened.vfs.readFileString('/later')).toBe('journaled ' + SECRET);
+    expect(Buffer.compare(reopened.vfs.readFile('/big.bin'), new Uint8Array(CHUNK_THRESHOLD).fill(0x41))).toBe(0);
+    const backups = new EncryptedPersistenceBackend(opfs(), options('hunter2'));
+    await backups.open();
+    const [backup] = await backups.loadBackups!();
+    expect(backup.tree).toEqual(tree);
+  });
+
+  it('is what Sandbox uses when given a passphrase', async () => {
+    const backend = new MemoryPersistenceBackend();
+    const sandbox = await Sandbox.create({ persist: true, backend, passphrase: 'hunter2' });
+    sandbox.destroy();
+    expect((await backend.loadTree())?.ek).toBeDefined();
+
+    await expect(Sandbox.create({ persist: true, backend, passphrase: 'nope' })).rejects.toThrow(PassphraseError);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS, ERRNO, ErrorCode } from '../../src/kernel/vfs/index.js';
+import type { VirtualProvider } from '../../src/kernel/vfs/types.js';
+import { FileTable, MAX_FDS } from '../../src/kernel/process/index.js';
+import { DevProvider } from '../../src/kernel/vfs/providers/DevProvider.js';
+
+/** A read-only provider with one file, like /proc. */
+const readOnlyProvider: VirtualProvider = {
+  readFile: () => new Uint8Array(),
+  readFileString: () => '',
+  exists: (subpath) => subpath === '/' || subpath === '/file',
+  stat: (subpath) => ({
+    type: subpath === '/' ? 'directory' : 'file',
+    size: 0,
+    ctime: 0,
+    mtime: 0,
+    mode: subpath === '/' ? 0o555 : 0o444,
+  }),
+  readdir: () => [{ name: 'file', type: 'file' }],
+};
+
+const codeOf = (fn: () => unknown): string | undefined => {
+  try {
+    fn();
+  } catch (e) {
+    return (e as { code?: string }).code;
+  }
+  return undefined;
+};
+
+describe('VFS error codes', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/tmp/dir', { recursive: true });
+    vfs.writeFile('/tmp/file', 'x');
+    vfs.mount('/ro', readOnlyProvider);
+  });
+
+  it('has a Linux errno for every code', () => {
+    for (const code of Object.values(ErrorCode)) {
+      expect(ERRNO[code]).toBeGreaterThan(0);
+    }
+    expect([ERRNO.ENOENT, ERRNO.EACCES, ERRNO.EROFS, ERRNO.ENAMETOOLONG]).toEqual([2, 13, 30, 36]);
+  });
+
+  it('reports EROFS for writes to read-only mounts', () => {
+    expect(codeOf(() => vfs.writeFile('/ro/file', 'y'))).toBe('EROFS');
+    expect(codeOf(() => vfs.unlink('/ro/file'))).toBe('EROFS');
+    expect(codeOf(() => vfs.mkdir('/ro/new'))).toBe('EROFS');
+    expect(codeOf(() => vfs.rename('/ro/file', '/ro/other'))).toBe('EROFS');
+  });
+
+  it('reports EXDEV across mounts and EPERM for unsupported metadata', () => {
+    expect(codeOf(() => vfs.rename('/ro/file', '/tmp/moved'))).toBe('EXDEV');
+    expect(codeOf(() => vfs.rename('/tmp/file', '/ro/moved'))).toBe('EXDEV');
+    expect(codeOf(() => vfs.link('/tmp/file', '/ro/hard'))).toBe('EXDEV');
+    expect(codeOf(() => vfs.chmod('/ro/file', 0o600))).toBe('EPERM');
+  });
+
+  it('reports EBUSY for the root and mount points', () => {
+    expect(codeOf(() => vfs.rmdir('/'))).toBe('EBUSY');
+    expect(codeOf(() => vfs.rmdir('/ro'))).toBe('EBUSY');
+    expect(codeOf(() => vfs.rename('/ro', '/elsewhere'))).toBe('EBUSY');
+  });
+
+  it('reports ENAMETOOLONG for long names and paths', () => {
+    expect(codeOf(() => vfs.writeFile(`/tmp/${'a'.repeat(256)}`, ''))).toBe('ENAMETOOLONG');
+    expect(codeOf(() => vfs.stat(`/tmp/${'a/'.repeat(2100)}`))).toBe('ENAMETOOLONG');
+    vfs.writeFile(`/tmp/${'a'.repeat(255)}`, '');
+  });
+
+  it('checks the target of a rename like rename(2)', () => {
+    vfs.mkdir('/tmp/full');
+    vfs.writeFile('/tmp/full/f', '');
+    expect(codeOf(() => vfs.rename('/tmp/dir', '/tmp/file'))).toBe('ENOTDIR');
+    expect(codeOf(() => vfs.rename('/tmp/file', '/tmp/dir'))).toBe('EISDIR');
+    expect(codeOf(() => vfs.rename('/tmp/dir', '/tmp/full'))).toBe('ENOTEMPTY');
+    expect(codeOf(() => vfs.rename('/tmp', '/tmp/dir/inner'))).toBe('EINVAL');
+
+    vfs.mkdir('/tmp/empty');
+    vfs.rename('/tmp/dir', '/tmp/empty');
+    expect(vfs.exists('/tmp/dir')).toBe(false);
+  });
+
+  it('reports EMFILE once a process has MAX_FDS files open', () => {
+    const fds = new FileTable();
+    for (let i = 0; i < MAX_FDS; i++) fds.open(vfs, '/tmp/file');
+    expect(codeOf(() => fds.open(vfs, '/tmp/file'))).toBe('EMFILE');
+    fds.close(10);
+    expect(fds.open(vfs, '/tmp/file')).toBe(10);
+  });
+
+  it('discards writes to /dev/zero and /dev/urandom', () => {
+    vfs.mount('/dev', new DevProvider());
+    vfs.writeFile('/dev/zero', 'x');
+    vfs.writeFile('/dev/urandom', 'x');
+    expect(codeOf(() => vfs.writeFile('/dev/nope', 'x'))).toBe('ENOENT');
+  });
+});
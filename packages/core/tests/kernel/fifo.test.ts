@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS, VFSError } from '../../src/kernel/vfs/index.js';
+import { FileTable, openFifoFile, O_RDONLY, O_WRONLY, O_RDWR } from '../../src/kernel/process/index.js';
+import { serialize, deserialize } from '../../src/kernel/persistence/serializer.js';
+import { decode } from '../../src/utils/encoding.js';
+
+describe('FIFOs', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/tmp');
+    vfs.mkfifo('/tmp/p');
+  });
+
+  it('creates a fifo node that stats and lists as one', () => {
+    expect(vfs.stat('/tmp/p')).toMatchObject({ type: 'fifo', size: 0, mode: 0o644 });
+    expect(vfs.readdir('/tmp')).toEqual([{ name: 'p', type: 'fifo' }]);
+    expect(() => vfs.mkfifo('/tmp/p')).toThrow(VFSError);
+  });
+
+  it('has no contents to read or write in place', async () => {
+    expect(() => vfs.readFile('/tmp/p')).toThrow(expect.objectContaining({ code: 'ESPIPE' }));
+    expect(() => vfs.writeFile('/tmp/p', 'x')).toThrow(expect.objectContaining({ code: 'ESPIPE' }));
+    await expect(vfs.openFifo('/tmp', 'read')).rejects.toMatchObject({ code: 'EINVAL' });
+  });
+
+  it('waits to open the read end until a writer opens', async () => {
+    let opened = false;
+    const reading = vfs.openFifo('/tmp/p', 'read').then((reader) => {
+      opened = true;
+      return reader;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(opened).toBe(false);
+
+    const writer = await vfs.openFifo('/tmp/p', 'write');
+    const reader = await reading;
+    writer.write('hello ');
+    writer.write('world');
+    writer.close();
+
+    const chunks: string[] = [];
+    for (let chunk = await reader.read(); chunk !== null; chunk = await reader.read()) {
+      chunks.push(decode(chunk));
+    }
+    expect(chunks).toEqual(['hello ', 'world']);
+  });
+
+  it('reads a FIFO to end of file with readFileAsync', async () => {
+    const reading = vfs.readFileStringAsync('/tmp/p');
+    const writer = await vfs.openFifo('/tmp/p', 'write');
+    writer.write('one\n');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    writer.write('two\n');
+    writer.close();
+    expect(await reading).toBe('one\ntwo\n');
+
+    vfs.writeFile('/tmp/f', 'plain');
+    expect(await vfs.readFileStringAsync('/tmp/f')).toBe('plain');
+  });
+
+  it('keeps what was written before the reader got to it', async () => {
+    const [reader, writer] = await Promise.all([vfs.openFifo('/tmp/p', 'read'), vfs.openFifo('/tmp/p', 'write')]);
+    writer.write('abcdef');
+    expect(decode(reader.readAvailable(4))).toBe('abcd');
+    expect(decode(reader.readAvailable(4))).toBe('ef');
+    expect(reader.readAvailable(4).byteLength).toBe(0);
+  });
+
+  it('fails writes with EPIPE once every reader has closed', async () => {
+    const [reader, writer] = await Promise.all([vfs.openFifo('/tmp/p', 'read'), vfs.openFifo('/tmp/p', 'write')]);
+    reader.close();
+    expect(() => writer.write('x')).toThrow(expect.objectContaining({ code: 'EPIPE' }));
+  });
+
+  it('gives up waiting for the other end when aborted', async () => {
+    const controller = new AbortController();
+    const opening = vfs.openFifo('/tmp/p', 'write', controller.signal);
+    controller.abort();
+    await expect(opening).rejects.toMatchObject({ name: 'AbortError' });
+
+    // The abandoned writer does not count: a reader still waits for a real one
+    let opened = false;
+    void vfs.openFifo('/tmp/p', 'read').then(() => { opened = true; });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(opened).toBe(false);
+  });
+
+  it('opens as fds, with O_RDWR holding both ends at once', async () => {
+    const fds = new FileTable();
+    const both = fds.install(await openFifoFile(vfs, '/tmp/p', O_RDWR));
+    fds.get(both).write('looped');
+    expect(decode(fds.get(both).read(16))).toBe('looped');
+    expect(() => fds.get(both).seek(0)).toThrow(expect.objectContaining({ code: 'ESPIPE' }));
+
+    const [reader, writer] = await Promise.all([
+      openFifoFile(vfs, '/tmp/p', O_RDONLY),
+      openFifoFile(vfs, '/tmp/p', O_WRONLY),
+    ]);
+    expect(() => reader.write('x')).toThrow(expect.objectContaining({ code: 'EBADF' }));
+    writer.write('via fd');
+    writer.close();
+    expect(decode((await reader.readChunk())!)).toBe('via fd');
+  });
+
+  it('persists the node but not what is in the pipe', () => {
+    vfs.chmod('/tmp/p', 0o600);
+    const restored = new VFS();
+    restored.loadFromSerialized(deserialize(serialize(vfs.getRoot())));
+    expect(restored.stat('/tmp/p')).toMatchObject({ type: 'fifo', mode: 0o600 });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { VFS, VFSError } from '../../src/kernel/vfs/index.js';
+import {
+  FileTable,
+  ProcessTable,
+  O_RDONLY,
+  O_WRONLY,
+  O_RDWR,
+  O_CREAT,
+  O_EXCL,
+  O_TRUNC,
+  O_APPEND,
+  SEEK_CUR,
+  SEEK_END,
+} from '../../src/kernel/process/index.js';
+import { CHUNK_SIZE, CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+import { decode } from '../../src/utils/encoding.js';
+
+describe('FileTable', () => {
+  let vfs: VFS;
+  let fds: FileTable;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/tmp');
+    vfs.writeFile('/tmp/a.txt', 'hello world');
+    fds = new FileTable();
+  });
+
+  it('hands out the lowest free fd from 10 up', () => {
+    const a = fds.open(vfs, '/tmp/a.txt');
+    const b = fds.open(vfs, '/tmp/a.txt');
+    expect([a, b]).toEqual([10, 11]);
+    fds.close(a);
+    expect(fds.open(vfs, '/tmp/a.txt')).toBe(10);
+    expect(fds.list()).toEqual([10, 11]);
+  });
+
+  it('reads and writes at the file offset', () => {
+    const fd = fds.open(vfs, '/tmp/a.txt', O_RDWR);
+    const file = fds.get(fd);
+    expect(decode(file.read(5))).toBe('hello');
+    file.write('!');
+    expect(decode(file.read(100))).toBe('world');
+    expect(file.position).toBe(11);
+    expect(vfs.readFileString('/tmp/a.txt')).toBe('hello!world');
+  });
+
+  it('leaves the offset alone for positional reads and writes', () => {
+    const file = fds.get(fds.open(vfs, '/tmp/a.txt', O_RDWR));
+    expect(decode(file.read(5, 6))).toBe('world');
+    file.write('W', 6);
+    expect(file.position).toBe(0);
+    expect(vfs.readFileString('/tmp/a.txt')).toBe('hello World');
+  });
+
+  it('seeks relative to the start, the offset and the end', () => {
+    const file = fds.get(fds.open(vfs, '/tmp/a.txt'));
+    expect(file.seek(2)).toBe(2);
+    expect(file.seek(3, SEEK_CUR)).toBe(5);
+    expect(file.seek(-5, SEEK_END)).toBe(6);
+    expect(() => file.seek(-1)).toThrow(VFSError);
+  });
+
+  it('honours O_CREAT, O_EXCL, O_TRUNC and O_APPEND', () => {
+    expect(() => fds.open(vfs, '/tmp/new.txt', O_WRONLY)).toThrow(/ENOENT/);
+    fds.open(vfs, '/tmp/new.txt', O_WRONLY | O_CREAT, 0o600);
+    expect(vfs.stat('/tmp/new.txt').mode).toBe(0o600);
+    expect(() => fds.open(vfs, '/tmp/new.txt', O_WRONLY | O_CREAT | O_EXCL)).toThrow(/EEXIST/);
+
+    fds.open(vfs, '/tmp/a.txt', O_WRONLY | O_TRUNC);
+    expect(vfs.readFileString('/tmp/a.txt')).toBe('');
+
+    const file = fds.get(fds.open(vfs, '/tmp/a.txt', O_WRONLY | O_APPEND));
+    file.write('one');
+    file.write('two', 0);
+    expect(vfs.readFileString('/tmp/a.txt')).toBe('onetwo');
+  });
+
+  it('enforces the access mode and file permissions', () => {
+    const reader = fds.get(fds.open(vfs, '/tmp/a.txt', O_RDONLY));
+    expect(() => reader.write('x')).toThrow(/EBADF/);
+    const writer = fds.get(fds.open(vfs, '/tmp/a.txt', O_WRONLY));
+    expect(() => writer.read(1)).toThrow(/EBADF/);
+    expect(() => fds.open(vfs, '/tmp', O_WRONLY)).toThrow(/EISDIR/);
+
+    vfs.chmod('/tmp/a.txt', 0o600);
+    const other = vfs.asUser({ uid: 1000, gid: 1000 });
+    expect(() => fds.open(other, '/tmp/a.txt', O_RDONLY)).toThrow(/EACCES/);
+    expect(() => fds.get(99)).toThrow(/EBADF/);
+  });
+
+  it('shares the offset between dup()ed and inherited fds', () => {
+    const fd = fds.open(vfs, '/tmp/a.txt');
+    const copy = fds.dup(fd);
+    fds.dup2(fd, 0);
+    fds.get(fd).read(6);
+    expect(decode(fds.get(copy).read(5))).toBe('world');
+
+    const child = fds.fork();
+    child.close(fd);
+    expect(fds.has(fd)).toBe(true);
+    expect(child.get(0)).toBe(fds.get(fd));
+  });
+});
+
+describe('process file descriptors', () => {
+  it('gives each child a copy of its parent table', () => {
+    const vfs = new VFS();
+    vfs.writeFile('/f', 'x');
+    const processes = new ProcessTable();
+    const shell = processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/', env: {} });
+    const fd = shell.fds.open(vfs, '/f');
+
+    const child = processes.spawn({ ppid: shell.pid, argv: ['cat'], cwd: '/', env: {} });
+    expect(child.fds.get(fd)).toBe(shell.fds.get(fd));
+    child.fds.close(fd);
+    expect(shell.fds.has(fd)).toBe(true);
+  });
+});
+
+describe('VFS positional I/O on chunked files', () => {
+  let vfs: VFS;
+  const size = CHUNK_THRESHOLD + CHUNK_SIZE / 2;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    const data = new Uint8Array(size);
+    for (let i = 0; i < size; i++) data[i] = i % 251;
+    vfs.writeFile('/big', data);
+  });
+
+  it('loads only the chunks a range overlaps', () => {
+    const get = vi.spyOn(vfs.contentStore, 'get');
+    const range = vfs.readRange('/big', CHUNK_SIZE - 2, 4);
+    expect(Array.from(range)).toEqual([0, 1, 2, 3].map((i) => (CHUNK_SIZE - 2 + i) % 251));
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(vfs.readRange('/big', size - 1, 10).byteLength).toBe(1);
+    expect(vfs.readRange('/big', size + 5, 10).byteLength).toBe(0);
+  });
+
+  it('replaces only the chunks a write touches', () => {
+    const before = vfs.getRoot().children.get('big')!.chunks!;
+    vfs.writeAt('/big', new Uint8Array([7, 7]), CHUNK_SIZE * 2 + 5);
+    const after = vfs.getRoot().children.get('big')!.chunks!;
+
+    expect(after.map((c, i) => c.hash === before[i].hash)).toEqual([true, true, false, true, true]);
+    expect(Array.from(vfs.readRange('/big', CHUNK_SIZE * 2 + 4, 4)))
+      .toEqual([(CHUNK_SIZE * 2 + 4) % 251, 7, 7, (CHUNK_SIZE * 2 + 7) % 251]);
+    expect(vfs.stat('/big').size).toBe(size);
+  });
+
+  it('truncates and zero-extends', () => {
+    vfs.truncate('/big', 10);
+    expect(vfs.stat('/big').size).toBe(10);
+    vfs.truncate('/big', 12);
+    expect(Array.from(vfs.readFile('/big')).slice(8)).toEqual([8, 9, 0, 0]);
+  });
+});
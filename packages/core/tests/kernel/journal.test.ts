@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { PersistenceManager, COMPACT_THRESHOLD } from '../../src/kernel/persistence/PersistenceManager.js';
+import {
+  MemoryPersistenceBackend,
+  OPFSPersistenceBackend,
+} from '../../src/kernel/persistence/backends.js';
+import type { PersistenceBackend } from '../../src/kernel/persistence/backends.js';
+import type { JournalRecord } from '../../src/kernel/persistence/journal.js';
+import { serialize } from '../../src/kernel/persistence/serializer.js';
+import { MemoryOPFSDirectory } from '../../src/kernel/storage/opfs.js';
+
+/** Boot a VFS from `backend` and journal its changes, like Kernel.boot does. */
+async function boot(backend: PersistenceBackend): Promise<{ vfs: VFS; manager: PersistenceManager }> {
+  const vfs = new VFS();
+  const manager = new PersistenceManager(backend, vfs.contentStore);
+  await manager.open();
+  const root = await manager.load();
+  if (root) vfs.loadFromSerialized(root);
+  vfs.watch((event) => manager.recordChange(event, vfs.getRoot()));
+  return { vfs, manager };
+}
+
+describe('journaled persistence', () => {
+  let backend: MemoryPersistenceBackend;
+  let vfs: VFS;
+  let manager: PersistenceManager;
+
+  beforeEach(async () => {
+    backend = new MemoryPersistenceBackend();
+    ({ vfs, manager } = await boot(backend));
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.writeFile('/home/user/a.txt', 'alpha');
+    // No image yet, so the first flush is a full save
+    await manager.flush();
+  });
+
+  it('writes a full image first, then only the changed entries', async () => {
+    expect((await backend.loadTree())?.c?.map((c) => c.n)).toEqual(['home']);
+    expect(await backend.readJournal()).toEqual([]);
+
+    vfs.writeFile('/home/user/a.txt', 'one');
+    vfs.writeFile('/home/user/a.txt', 'two');
+    vfs.writeFile('/home/user/b.txt', 'beta');
+    await manager.flush();
+
+    const journal = await backend.readJournal();
+    expect(journal.map((r) => [r.op, r.p])).toEqual([
+      ['put', '/home/user/a.txt'],
+      ['put', '/home/user/b.txt'],
+    ]);
+    expect((await backend.loadTree())?.sq).toBe(0);
+  });
+
+  it('replays the journal on load', async () => {
+    vfs.writeFile('/home/user/a.txt', 'changed');
+    vfs.mkdir('/home/user/docs');
+    vfs.writeFile('/home/user/docs/tmp', 'draft');
+    vfs.rename('/home/user/docs/tmp', '/home/user/docs/final');
+    vfs.chmod('/home/user/docs', 0o700);
+    vfs.symlink('docs/final', '/home/user/latest');
+    vfs.writeFile('/home/user/gone', 'x');
+    vfs.unlink('/home/user/gone');
+    await manager.flush();
+
+    const { vfs: restored } = await boot(backend);
+    expect(restored.readFileString('/home/user/a.txt')).toBe('changed');
+    expect(restored.readFileString('/home/user/docs/final')).toBe('draft');
+    expect(restored.exists('/home/user/docs/tmp')).toBe(false);
+    expect(restored.stat('/home/user/docs').mode).toBe(0o700);
+    expect(restored.readFileString('/home/user/latest')).toBe('draft');
+    expect(restored.exists('/home/user/gone')).toBe(false);
+  });
+
+  it('replays directory renames and recursive deletes', async () => {
+    vfs.mkdir('/srv/www', { recursive: true });
+    vfs.writeFile('/srv/www/index.html', '<h1>');
+    vfs.mkdir('/tmp');
+    vfs.writeFile('/tmp/scratch', 'x');
+    await manager.flush();
+    vfs.rename('/srv/www', '/srv/site');
+    vfs.rmdirRecursive('/tmp');
+    await manager.flush();
+
+    const { vfs: restored } = await boot(backend);
+    expect(restored.readFileString('/srv/site/index.html')).toBe('<h1>');
+    expect(restored.exists('/srv/www')).toBe(false);
+    expect(restored.exists('/tmp')).toBe(false);
+  });
+
+  it('skips records already folded into the image', async () => {
+    vfs.writeFile('/home/user/a.txt', 'x');
+    vfs.rename('/home/user/a.txt', '/home/user/b.txt');
+    vfs.writeFile('/home/user/a.txt', 'new a');
+    await manager.flush();
+    const records = await backend.readJournal();
+
+    // Simulate a crash between writing the image and trimming the journal
+    await manager.save(vfs.getRoot());
+    await backend.appendJournal(records);
+
+    const { vfs: restored } = await boot(backend);
+    expect(restored.readFileString('/home/user/a.txt')).toBe('new a');
+    expect(restored.readFileString('/home/user/b.txt')).toBe('x');
+  });
+
+  it('compacts after COMPACT_THRESHOLD records', async () => {
+    for (let i = 0; i <= COMPACT_THRESHOLD / 2; i++) {
+      vfs.writeFile(`/home/user/f${i}`, String(i));
+    }
+    await manager.flush();
+    expect((await backend.readJournal()).length).toBe(COMPACT_THRESHOLD / 2 + 1);
+
+    for (let i = 0; i < COMPACT_THRESHOLD / 2; i++) {
+      vfs.writeFile(`/home/user/g${i}`, String(i));
+    }
+    await manager.flush();
+    expect(await backend.readJournal()).toEqual([]);
+    expect((await backend.loadTree())?.sq).toBe(COMPACT_THRESHOLD / 2 + 1);
+
+    const { vfs: restored } = await boot(backend);
+    expect(restored.readFileString('/home/user/f0')).toBe('0');
+    expect(restored.readFileString(`/home/user/g${COMPACT_THRESHOLD / 2 - 1}`)).toBe(String(COMPACT_THRESHOLD / 2 - 1));
+  });
+
+  it('falls back to a full save for hard-linked files', async () => {
+    vfs.link('/home/user/a.txt', '/home/user/hard');
+    vfs.writeFile('/home/user/hard', 'shared');
+    await manager.flush();
+    expect(await backend.readJournal()).toEqual([]);
+
+    const { vfs: restored } = await boot(backend);
+    expect(restored.readFileString('/home/user/a.txt')).toBe('shared');
+    expect(restored.stat('/home/user/a.txt').ino).toBe(restored.stat('/home/user/hard').ino);
+  });
+
+  it('ignores virtual provider paths', async () => {
+    vfs.mkdir('/proc');
+    vfs.writeFile('/proc/fake', 'x');
+    await manager.flush();
+    expect(await backend.readJournal()).toEqual([]);
+  });
+
+  it('starts over with a full save when the tree is replaced', async () => {
+    const other = new VFS();
+    other.writeFile('/fresh', 'f');
+    vfs.loadFromSerialized(other.getRoot());
+    vfs.writeFile('/fresh', 'g');
+    await manager.flush();
+
+    expect(await backend.readJournal()).toEqual([]);
+    const { vfs: restored } = await boot(backend);
+    expect(restored.readFileString('/fresh')).toBe('g');
+    expect(restored.exists('/home')).toBe(false);
+  });
+});
+
+describe('OPFS journal', () => {
+  let root: MemoryOPFSDirectory;
+  let backend: OPFSPersistenceBackend;
+
+  const put = (s: number, p: string): JournalRecord => ({
+    s, op: 'put', p, n: { t: 'f', n: p.slice(1), ct: 0, mt: 0, m: 0o644, d: btoa(p) },
+  });
+
+  beforeEach(async () => {
+    root = new MemoryOPFSDirectory();
+    backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+  });
+
+  it('stores each batch as its own file and trims folded batches', async () => {
+    await backend.appendJournal([put(1, '/a'), put(2, '/b')]);
+    await backend.appendJournal([put(3, '/c')]);
+
+    const journal = await (await root.getDirectoryHandle('lifo')).getDirectoryHandle('journal');
+    const names: string[] = [];
+    for await (const name of journal.keys()) names.push(name);
+    expect(names.sort()).toEqual(['1-2.json', '3-3.json']);
+    expect((await backend.readJournal()).map((r) => r.s)).toEqual([1, 2, 3]);
+
+    const vfs = new VFS();
+    await backend.saveTree({ ...serialize(vfs.getRoot()), sq: 2 });
+    expect((await backend.readJournal()).map((r) => r.s)).toEqual([3]);
+  });
+
+  it('stops at a batch that cannot be parsed', async () => {
+    await backend.appendJournal([put(1, '/a')]);
+    const journal = await (await root.getDirectoryHandle('lifo')).getDirectoryHandle('journal');
+    const writable = await (await journal.getFileHandle('2-2.json', { create: true })).createWritable();
+    await writable.write('[{"s":2,');
+    await writable.close();
+    await backend.appendJournal([put(3, '/c')]);
+
+    expect((await backend.readJournal()).map((r) => r.s)).toEqual([1]);
+  });
+
+  it('boots a manager from image plus journal', async () => {
+    const first = await boot(backend);
+    first.vfs.writeFile('/note', 'v1');
+    await first.manager.flush();
+    first.vfs.writeFile('/note', 'v2');
+    await first.manager.flush();
+
+    const reopened = new OPFSPersistenceBackend({ root });
+    const second = await boot(reopened);
+    expect(second.vfs.readFileString('/note')).toBe('v2');
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FORMAT_VERSION,
+  FormatVersionError,
+  MIGRATIONS,
+  migrate,
+} from '../../src/kernel/persistence/migrations.js';
+import type { Migration } from '../../src/kernel/persistence/migrations.js';
+import { MemoryPersistenceBackend, OPFSPersistenceBackend } from '../../src/kernel/persistence/backends.js';
+import { PersistenceManager } from '../../src/kernel/persistence/PersistenceManager.js';
+import { serialize, toBase64 } from '../../src/kernel/persistence/serializer.js';
+import type { SerializedNode } from '../../src/kernel/persistence/serializer.js';
+import { MemoryOPFSDirectory } from '../../src/kernel/storage/opfs.js';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { Kernel } from '../../src/kernel/index.js';
+
+const text = (s: string) => toBase64(new TextEncoder().encode(s));
+
+/** An image as saved before the format was versioned. */
+function unversionedImage(): SerializedNode {
+  const vfs = new VFS();
+  vfs.mkdir('/home/user', { recursive: true });
+  vfs.writeFile('/home/user/.bashrc', 'alias ll="ls -l"\n');
+  const tree = serialize(vfs.getRoot());
+  delete tree.v;
+  return tree;
+}
+
+function find(tree: SerializedNode, path: string): SerializedNode | undefined {
+  let node: SerializedNode | undefined = tree;
+  for (const part of path.split('/').filter(Boolean)) {
+    node = node?.c?.find((c) => c.n === part);
+  }
+  return node;
+}
+
+describe('migrate', () => {
+  it('upgrades an unversioned image, copying ~/.bashrc to ~/.liforc', () => {
+    const tree = unversionedImage();
+    const steps = migrate(tree, []);
+    expect(steps).toEqual(MIGRATIONS.filter((m) => m.version > 1));
+    expect(tree.v).toBe(FORMAT_VERSION);
+    expect(find(tree, '/home/user/.liforc')?.d).toBe(text('alias ll="ls -l"\n'));
+    expect(find(tree, '/home/user/.bashrc')).toBeDefined();
+  });
+
+  it('keeps an existing ~/.liforc', () => {
+    const tree = unversionedImage();
+    find(tree, '/home/user')!.c!.push({ t: 'f', n: '.liforc', d: text('mine'), ct: 0, mt: 0, m: 0o644 });
+    migrate(tree, []);
+    expect(find(tree, '/home/user/.liforc')?.d).toBe(text('mine'));
+  });
+
+  it('gives root-owned nodes in the default user\'s trees to the user', () => {
+    const tree = unversionedImage();
+    const usr: SerializedNode = { t: 'd', n: 'usr', ct: 0, mt: 0, m: 0o755, c: [
+      { t: 'd', n: 'bin', ct: 0, mt: 0, m: 0o755, c: [{ t: 'f', n: 'tool', d: '', ct: 0, mt: 0, m: 0o755, u: 1001, g: 1001 }] },
+    ] };
+    tree.c!.push(usr);
+    const note: SerializedNode = { t: 'f', n: 'note', d: '', ct: 0, mt: 0, m: 0o644 };
+    const hosts: SerializedNode = { t: 'f', n: 'hosts', d: '', ct: 0, mt: 0, m: 0o644 };
+    migrate(tree, [
+      { s: 1, op: 'put', p: '/home/user/note', n: note },
+      { s: 2, op: 'put', p: '/etc/hosts', n: hosts },
+    ]);
+
+    expect(find(tree, '/home/user')).toMatchObject({ u: 1000, g: 1000 });
+    expect(find(tree, '/home/user/.bashrc')).toMatchObject({ u: 1000, g: 1000 });
+    expect(find(tree, '/usr/bin')?.u).toBe(1000);
+    expect(find(tree, '/usr/bin/tool')?.u).toBe(1001);
+    expect(find(tree, '/usr')?.u).toBeUndefined();
+    expect(note.u).toBe(1000);
+    expect(hosts.u).toBeUndefined();
+  });
+
+  it('runs only the steps newer than the image, in order', () => {
+    const ran: number[] = [];
+    const step = (version: number): Migration => ({
+      version,
+      description: `step ${version}`,
+      migrate: () => void ran.push(version),
+    });
+    const tree: SerializedNode = { t: 'd', n: '', ct: 0, mt: 0, m: 0o755, v: 1 };
+    migrate(tree, [], [step(FORMAT_VERSION), step(1), step(FORMAT_VERSION + 1)]);
+    expect(ran).toEqual([FORMAT_VERSION]);
+    expect(migrate(tree, [], [step(FORMAT_VERSION)])).toEqual([]);
+  });
+
+  it('refuses an image from a newer version', () => {
+    const tree: SerializedNode = { t: 'd', n: '', ct: 0, mt: 0, m: 0o755, v: FORMAT_VERSION + 1 };
+    expect(() => migrate(tree, [])).toThrow(FormatVersionError);
+    expect(tree.v).toBe(FORMAT_VERSION + 1);
+  });
+});
+
+describe('PersistenceManager upgrades', () => {
+  it('backs up an old image, then saves it migrated with its journal folded in', async () => {
+    const backend = new MemoryPersistenceBackend();
+    const image = unversionedImage();
+    image.sq = 0;
+    await backend.saveTree(image);
+    await backend.appendJournal([{ s: 1, op: 'put', p: '/notes.txt', n: { t: 'f', n: 'notes.txt', d: text('hi'), ct: 0, mt: 0, m: 0o644 } }]);
+
+    const manager = new PersistenceManager(backend);
+    await manager.open();
+    const root = await manager.load();
+    expect(root?.children.get('notes.txt')).toBeDefined();
+    expect(root?.children.get('home')?.children.get('user')?.children.has('.liforc')).toBe(true);
+
+    const saved = await backend.loadTree();
+    expect(saved?.v).toBe(FORMAT_VERSION);
+    expect(saved?.sq).toBe(1);
+    expect(await backend.readJournal()).toEqual([]);
+
+    const [backup] = await backend.loadBackups();
+    expect(backup.label).toBe('v1');
+    expect(backup.tree.v).toBeUndefined();
+    expect(find(backup.tree, '/home/user/.liforc')).toBeUndefined();
+    expect(backup.journal).toHaveLength(1);
+  });
+
+  it('leaves a current image as it is', async () => {
+    const backend = new MemoryPersistenceBackend();
+    const manager = new PersistenceManager(backend);
+    await manager.open();
+    await manager.save(new VFS().getRoot());
+    expect((await backend.loadTree())?.v).toBe(FORMAT_VERSION);
+
+    await new PersistenceManager(backend).load();
+    expect(await backend.loadBackups()).toEqual([]);
+  });
+
+  it('backs up and refuses an image from a newer version', async () => {
+    const backend = new MemoryPersistenceBackend();
+    const image: SerializedNode = { t: 'd', n: '', ct: 0, mt: 0, m: 0o755, v: FORMAT_VERSION + 1 };
+    await backend.saveTree(image);
+
+    await expect(new PersistenceManager(backend).load()).rejects.toThrow(FormatVersionError);
+    expect(await backend.loadTree()).toEqual(image);
+    expect((await backend.loadBackups()).map((b) => b.label)).toEqual([`v${FORMAT_VERSION + 1}`]);
+  });
+
+  it('fails Kernel.boot rather than booting over a newer image', async () => {
+    const backend = new MemoryPersistenceBackend();
+    await backend.saveTree({ t: 'd', n: '', ct: 0, mt: 0, m: 0o755, v: FORMAT_VERSION + 1 });
+    await expect(new Kernel(backend).boot()).rejects.toThrow(/format version/);
+  });
+
+  it('keeps OPFS backups next to the image', async () => {
+    const root = new MemoryOPFSDirectory();
+    const backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+    await backend.saveTree(unversionedImage());
+    await new PersistenceManager(backend).load();
+
+    const reopened = new OPFSPersistenceBackend({ root });
+    await reopened.open();
+    const [backup] = await reopened.loadBackups();
+    expect(backup.label).toBe('v1');
+    expect(find(backup.tree, '/home/user/.bashrc')?.d).toBe(text('alias ll="ls -l"\n'));
+    expect((await reopened.loadTree())?.v).toBe(FORMAT_VERSION);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { VFS, createMountTypes, parseFstab, SubtreeProvider } from '../../src/kernel/vfs/index.js';
+import type { MountTypeRegistry } from '../../src/kernel/vfs/index.js';
+import { ProcProvider } from '../../src/kernel/vfs/providers/ProcProvider.js';
+import { Kernel } from '../../src/kernel/index.js';
+import { createTar } from '../../src/utils/archive.js';
+import { encode } from '../../src/utils/encoding.js';
+
+describe('parseFstab', () => {
+  it('skips comments and short lines and unescapes fields', () => {
+    expect(parseFstab([
+      '# source target type options',
+      '',
+      'none /mnt/a tmpfs',
+      '/srv/my\\040app.tar /mnt/my\\040app archive ro,noauto 0 0',
+      'incomplete /mnt/b',
+    ].join('\n'))).toEqual([
+      { source: 'none', target: '/mnt/a', type: 'tmpfs', options: [] },
+      { source: '/srv/my app.tar', target: '/mnt/my app', type: 'archive', options: ['ro', 'noauto'] },
+    ]);
+  });
+});
+
+describe('MountTypeRegistry', () => {
+  let vfs: VFS;
+  let types: MountTypeRegistry;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/mnt/a', { recursive: true });
+    types = createMountTypes();
+  });
+
+  it('records type, source and options in the mount table', async () => {
+    vfs.writeFile('/pkg.tar', createTar([
+      { path: 'hello.txt', data: encode('hi'), type: 'file', mode: 0o644, mtime: 0 },
+    ]));
+    await types.mount(vfs, 'archive', 'pkg.tar', 'mnt/a', [], '/');
+    await types.mount(vfs, 'tmpfs', 'none', '/tmp', ['size=1m']);
+    vfs.mount('/sub', new SubtreeProvider(vfs, '/mnt'));
+
+    expect(vfs.readFileString('/mnt/a/hello.txt')).toBe('hi');
+    expect(vfs.listMounts()).toEqual([
+      { path: '/', type: 'rootfs', source: 'rootfs', options: ['rw'] },
+      { path: '/mnt/a', type: 'archive', source: 'pkg.tar', options: ['ro'] },
+      { path: '/sub', type: 'none', source: 'none', options: ['ro'] },
+      { path: '/tmp', type: 'tmpfs', source: 'none', options: ['rw', 'size=1m'] },
+    ]);
+  });
+
+  it('rejects unknown types and accepts new ones', async () => {
+    await expect(types.mount(vfs, 'nfs', 'server:/x', '/mnt/a')).rejects.toThrow(/ENODEV: unknown filesystem type 'nfs'/);
+
+    types.register('hello', () => new SubtreeProvider(vfs, '/mnt'));
+    expect(types.list()).toEqual(['archive', 'hello', 'memory', 'native', 'tmpfs']);
+    await types.mount(vfs, 'hello', 'none', '/view');
+    expect(vfs.readdir('/view').map((e) => e.name)).toEqual(['a']);
+  });
+
+  describe('native', () => {
+    let host: string;
+
+    beforeEach(() => {
+      host = fs.mkdtempSync(path.join(os.tmpdir(), 'lifo-mount-'));
+      fs.writeFileSync(path.join(host, 'file.txt'), 'on disk');
+    });
+
+    afterEach(() => {
+      fs.rmSync(host, { recursive: true, force: true });
+    });
+
+    it('mounts a host directory, read-only or as an overlay', async () => {
+      types = createMountTypes(fs);
+      await types.mount(vfs, 'native', host, '/mnt/a', ['ro']);
+      expect(vfs.readFileString('/mnt/a/file.txt')).toBe('on disk');
+      expect(() => vfs.writeFile('/mnt/a/new.txt', 'x')).toThrow(/EROFS/);
+
+      await types.mount(vfs, 'native', host, '/mnt/a', ['overlay']);
+      vfs.writeFile('/mnt/a/file.txt', 'in memory');
+      expect(fs.readFileSync(path.join(host, 'file.txt'), 'utf-8')).toBe('on disk');
+      expect(vfs.listMounts()[1]).toEqual({ path: '/mnt/a', type: 'native', source: host, options: ['rw', 'overlay'] });
+    });
+  });
+});
+
+describe('/proc/mounts', () => {
+  it('lists the mount table, escaping whitespace', () => {
+    const vfs = new VFS();
+    vfs.mount('/proc', new ProcProvider(undefined, vfs), { type: 'proc', source: 'proc' });
+    vfs.mount('/mnt/my disk', new VFS(), { type: 'tmpfs', source: 'none', options: ['rw', 'noexec'] });
+
+    expect(vfs.readFileString('/proc/mounts')).toBe([
+      'rootfs / rootfs rw 0 0',
+      'none /mnt/my\\040disk tmpfs rw,noexec 0 0',
+      'proc /proc proc ro 0 0',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('Kernel.boot with /etc/fstab', () => {
+  it('mounts fstab entries, skipping noauto and failing ones', async () => {
+    const kernel = new Kernel('memory');
+    kernel.initFilesystem();
+    kernel.vfs.mkdir('/mnt/scratch', { recursive: true });
+    kernel.vfs.writeFile('/etc/fstab', [
+      'none /mnt/scratch tmpfs defaults 0 0',
+      'none /mnt/later tmpfs noauto 0 0',
+      '/missing.tar /mnt/gone archive ro 0 0',
+    ].join('\n'));
+    await kernel.boot({ persist: false });
+
+    expect(kernel.vfs.readFileString('/proc/mounts')).toBe([
+      'rootfs / rootfs rw 0 0',
+      'devtmpfs /dev devtmpfs rw 0 0',
+      'none /mnt/scratch tmpfs rw 0 0',
+      'proc /proc proc ro 0 0',
+      '',
+    ].join('\n'));
+    expect(kernel.fork().vfs.isMountPoint('/mnt/scratch')).toBe(true);
+  });
+
+  it('writes a commented default fstab', () => {
+    const kernel = new Kernel('memory');
+    kernel.initFilesystem();
+    expect(parseFstab(kernel.vfs.readFileString('/etc/fstab'))).toEqual([]);
+  });
+});
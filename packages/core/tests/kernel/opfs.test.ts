@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryOPFSDirectory } from '../../src/kernel/storage/opfs.js';
+import type { OPFSDirectoryHandle } from '../../src/kernel/storage/opfs.js';
+import { OPFSBlobStore, hashBytes } from '../../src/kernel/storage/BlobStore.js';
+import { CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+import {
+  OPFSPersistenceBackend,
+  MemoryPersistenceBackend,
+} from '../../src/kernel/persistence/backends.js';
+import { PersistenceManager } from '../../src/kernel/persistence/PersistenceManager.js';
+import { serialize, deserialize } from '../../src/kernel/persistence/serializer.js';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { Kernel } from '../../src/kernel/index.js';
+
+async function readText(dir: OPFSDirectoryHandle, path: string): Promise<string | null> {
+  const parts = path.split('/').filter(Boolean);
+  try {
+    let current = dir;
+    for (const part of parts.slice(0, -1)) current = await current.getDirectoryHandle(part);
+    const file = await (await current.getFileHandle(parts[parts.length - 1])).getFile();
+    return new TextDecoder().decode(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+async function list(dir: OPFSDirectoryHandle): Promise<string[]> {
+  const names: string[] = [];
+  for await (const name of dir.keys()) names.push(name);
+  return names.sort();
+}
+
+function restore(tree: ReturnType<typeof serialize>): VFS {
+  const vfs = new VFS();
+  vfs.loadFromSerialized(deserialize(tree));
+  return vfs;
+}
+
+describe('MemoryOPFSDirectory', () => {
+  it('creates, reads and removes entries', async () => {
+    const root = new MemoryOPFSDirectory();
+    const dir = await root.getDirectoryHandle('a', { create: true });
+    const writable = await (await dir.getFileHandle('f', { create: true })).createWritable();
+    await writable.write('hi');
+    expect(await readText(root, 'a/f')).toBe('');
+    await writable.close();
+    expect(await readText(root, 'a/f')).toBe('hi');
+
+    await expect(root.getFileHandle('a')).rejects.toThrow();
+    await expect(root.getDirectoryHandle('missing')).rejects.toThrow();
+    await expect(root.removeEntry('a')).rejects.toThrow();
+    await root.removeEntry('a', { recursive: true });
+    expect(await list(root)).toEqual([]);
+  });
+});
+
+describe('OPFSBlobStore', () => {
+  let root: MemoryOPFSDirectory;
+  let store: OPFSBlobStore;
+
+  beforeEach(async () => {
+    root = new MemoryOPFSDirectory();
+    store = new OPFSBlobStore(root);
+    await store.open();
+  });
+
+  it('stores each blob as a file named by its hash', async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    const hash = await store.put(data);
+    expect(hash).toBe(hashBytes(data));
+    expect(await store.has(hash)).toBe(true);
+    expect(await store.get(hash)).toEqual(data);
+
+    const blobs = await (await root.getDirectoryHandle('lifo')).getDirectoryHandle('blobs');
+    expect(await list(blobs)).toEqual([hash]);
+  });
+
+  it('deletes blobs and reports missing ones', async () => {
+    const hash = await store.put(new Uint8Array([9]));
+    await store.delete(hash);
+    expect(await store.has(hash)).toBe(false);
+    expect(await store.get(hash)).toBeNull();
+    await store.delete(hash);
+  });
+});
+
+describe('OPFSPersistenceBackend', () => {
+  let root: MemoryOPFSDirectory;
+  let vfs: VFS;
+
+  beforeEach(() => {
+    root = new MemoryOPFSDirectory();
+    vfs = new VFS();
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.writeFile('/home/user/a.txt', 'alpha');
+    vfs.writeFile('/home/user/empty', '');
+    vfs.symlink('a.txt', '/home/user/link');
+  });
+
+  it('stores each file as an OPFS file and round-trips the tree', async () => {
+    const backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+    await backend.saveTree(serialize(vfs.getRoot()));
+
+    expect(await readText(root, 'lifo/files/home/user/a.txt')).toBe('alpha');
+    expect(await readText(root, 'lifo/files/home/user/empty')).toBeNull();
+    expect(await readText(root, 'lifo/tree.json')).not.toContain('alpha');
+
+    const reopened = new OPFSPersistenceBackend({ root });
+    await reopened.open();
+    const loaded = restore((await reopened.loadTree())!);
+    expect(loaded.readFileString('/home/user/a.txt')).toBe('alpha');
+    expect(loaded.readFileString('/home/user/empty')).toBe('');
+    expect(loaded.readlink('/home/user/link')).toBe('a.txt');
+  });
+
+  it('rewrites only changed files and removes deleted ones', async () => {
+    const backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+    vfs.mkdir('/srv/data', { recursive: true });
+    vfs.writeFile('/srv/data/x', 'x');
+    await backend.saveTree(serialize(vfs.getRoot()));
+
+    const files = await (await root.getDirectoryHandle('lifo')).getDirectoryHandle('files');
+    const user = await (await files.getDirectoryHandle('home')).getDirectoryHandle('user');
+    const before = await user.getFileHandle('a.txt');
+
+    vfs.writeFile('/home/user/b.txt', 'beta');
+    vfs.rmdirRecursive('/srv');
+    await backend.saveTree(serialize(vfs.getRoot()));
+
+    // Unchanged files keep their handle; new files appear; removed
+    // files take their now-empty directories with them
+    expect(await user.getFileHandle('a.txt')).toBe(before);
+    expect(await readText(root, 'lifo/files/home/user/b.txt')).toBe('beta');
+    expect(await list(files)).toEqual(['home']);
+  });
+
+  it('replaces a directory that became a file', async () => {
+    const backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+    vfs.mkdir('/p');
+    vfs.writeFile('/p/inner', 'in');
+    await backend.saveTree(serialize(vfs.getRoot()));
+
+    vfs.rmdirRecursive('/p');
+    vfs.writeFile('/p', 'now a file');
+    await backend.saveTree(serialize(vfs.getRoot()));
+
+    const reopened = new OPFSPersistenceBackend({ root });
+    await reopened.open();
+    expect(restore((await reopened.loadTree())!).readFileString('/p')).toBe('now a file');
+  });
+
+  it('migrates an existing image when OPFS is empty', async () => {
+    const old = new MemoryPersistenceBackend();
+    await old.saveTree(serialize(vfs.getRoot()));
+
+    const backend = new OPFSPersistenceBackend({ root, migrateFrom: old });
+    await backend.open();
+    expect(await readText(root, 'lifo/files/home/user/a.txt')).toBe('alpha');
+    expect(restore((await backend.loadTree())!).readFileString('/home/user/a.txt')).toBe('alpha');
+
+    // Once OPFS has an image, the old one is not consulted again
+    const other = new VFS();
+    other.writeFile('/other', 'o');
+    const stale = new MemoryPersistenceBackend();
+    await stale.saveTree(serialize(other.getRoot()));
+    const again = new OPFSPersistenceBackend({ root, migrateFrom: stale });
+    await again.open();
+    expect(restore((await again.loadTree())!).exists('/other')).toBe(false);
+  });
+
+  it('returns null before anything was saved', async () => {
+    const backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+    expect(await backend.loadTree()).toBeNull();
+  });
+});
+
+describe('PersistenceManager with a blob store', () => {
+  it('keeps chunked file contents across reloads', async () => {
+    const root = new MemoryOPFSDirectory();
+    const big = new Uint8Array(CHUNK_THRESHOLD + 10).fill(7);
+
+    const vfs = new VFS();
+    vfs.writeFile('/big.bin', big);
+    const manager = new PersistenceManager(new OPFSPersistenceBackend({ root }), vfs.contentStore);
+    await manager.open();
+    await manager.save(vfs.getRoot());
+
+    const fresh = new VFS();
+    const reloaded = new PersistenceManager(new OPFSPersistenceBackend({ root }), fresh.contentStore);
+    await reloaded.open();
+    fresh.loadFromSerialized((await reloaded.load())!);
+    expect(fresh.readFile('/big.bin')).toEqual(big);
+  });
+
+  it('deletes blobs the saved tree no longer refers to', async () => {
+    const backend = new OPFSPersistenceBackend({ root: new MemoryOPFSDirectory() });
+    const vfs = new VFS();
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD + 10).fill(7));
+    const manager = new PersistenceManager(backend, vfs.contentStore);
+    await manager.open();
+    await manager.save(vfs.getRoot());
+    expect(await backend.blobs.keys()).toHaveLength(2);
+
+    vfs.unlink('/big.bin');
+    await manager.save(vfs.getRoot());
+    expect(await backend.blobs.keys()).toEqual([]);
+  });
+});
+
+describe('Kernel.fsck', () => {
+  it('recovers lost chunks from the blob store and deletes orphaned blobs', async () => {
+    const root = new MemoryOPFSDirectory();
+    const vfs = new VFS();
+    vfs.writeFile('/big.bin', new Uint8Array(CHUNK_THRESHOLD).fill(7));
+    const manager = new PersistenceManager(new OPFSPersistenceBackend({ root }), vfs.contentStore);
+    await manager.open();
+    await manager.save(vfs.getRoot());
+    const blobs = new OPFSBlobStore(root);
+    await blobs.open();
+    const orphan = await blobs.put(new Uint8Array([1, 2, 3]));
+
+    const kernel = new Kernel(new OPFSPersistenceBackend({ root }));
+    await kernel.boot();
+    const [hash] = kernel.vfs.contentStore.hashes();
+    kernel.vfs.contentStore.delete(hash);
+
+    const report = await kernel.fsck();
+    expect(report).toMatchObject({ damaged: [], orphans: [], recovered: [hash], orphanBlobs: [orphan] });
+    expect(kernel.vfs.readFile('/big.bin')[0]).toBe(7);
+    expect(await blobs.has(orphan)).toBe(true);
+
+    await kernel.fsck({ repair: true });
+    expect(await blobs.keys()).toEqual([hash]);
+  });
+});
+
+describe('Kernel backend selection', () => {
+  it('boots from an OPFS backend instance', async () => {
+    const root = new MemoryOPFSDirectory();
+    const vfs = new VFS();
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.writeFile('/home/user/notes.txt', 'saved');
+    const backend = new OPFSPersistenceBackend({ root });
+    await backend.open();
+    await backend.saveTree(serialize(vfs.getRoot()));
+
+    const kernel = new Kernel(new OPFSPersistenceBackend({ root }));
+    await kernel.boot();
+    expect(kernel.vfs.readFileString('/home/user/notes.txt')).toBe('saved');
+  });
+
+  it('accepts a built-in backend by name', async () => {
+    const kernel = new Kernel('memory');
+    await kernel.boot();
+    expect(kernel.vfs.exists('/etc/passwd')).toBe(true);
+  });
+});
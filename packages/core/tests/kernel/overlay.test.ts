@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS, OverlayProvider, SubtreeProvider } from '../../src/kernel/vfs/index.js';
+
+describe('OverlayProvider', () => {
+  let host: VFS;
+  let overlay: OverlayProvider;
+  let vfs: VFS;
+
+  beforeEach(() => {
+    host = new VFS();
+    host.mkdir('/project/src', { recursive: true });
+    host.writeFile('/project/README', 'readme');
+    host.writeFile('/project/src/a.ts', 'a');
+    host.writeFile('/project/src/b.ts', 'b');
+    host.chmod('/project/src', 0o750);
+
+    overlay = new OverlayProvider(new SubtreeProvider(host, '/project'));
+    vfs = new VFS();
+    vfs.mount('/mnt', overlay);
+  });
+
+  const names = (path: string) => vfs.readdir(path).map((e) => e.name).sort();
+  const changes = () => overlay.diff().map((c) => `${c.type} ${c.kind} ${c.path}`);
+
+  it('shows the lower layer until something is written', () => {
+    expect(names('/mnt')).toEqual(['README', 'src']);
+    expect(vfs.readFileString('/mnt/src/a.ts')).toBe('a');
+    expect(overlay.diff()).toEqual([]);
+  });
+
+  it('writes to the upper layer, copying parents up with their modes', () => {
+    vfs.writeFile('/mnt/src/a.ts', 'changed');
+    vfs.writeFile('/mnt/src/c.ts', 'c');
+
+    expect(vfs.readFileString('/mnt/src/a.ts')).toBe('changed');
+    expect(names('/mnt/src')).toEqual(['a.ts', 'b.ts', 'c.ts']);
+    expect(vfs.stat('/mnt/src').mode).toBe(0o750);
+    expect(host.readFileString('/project/src/a.ts')).toBe('a');
+    expect(host.exists('/project/src/c.ts')).toBe(false);
+    expect(changes()).toEqual(['modified file /src/a.ts', 'added file /src/c.ts']);
+  });
+
+  it('hides deleted lower entries behind whiteouts', () => {
+    vfs.unlink('/mnt/README');
+    vfs.unlink('/mnt/src/a.ts');
+    vfs.unlink('/mnt/src/b.ts');
+    vfs.rmdir('/mnt/src');
+
+    expect(names('/mnt')).toEqual([]);
+    expect(vfs.exists('/mnt/src/a.ts')).toBe(false);
+    expect(() => vfs.readFile('/mnt/README')).toThrow(/ENOENT/);
+    expect(host.exists('/project/README')).toBe(true);
+    expect(changes()).toEqual(['deleted file /README', 'deleted directory /src']);
+  });
+
+  it('starts a recreated directory empty', () => {
+    vfs.rmdirRecursive('/mnt/src');
+    vfs.mkdir('/mnt/src');
+    vfs.writeFile('/mnt/src/a.ts', 'new a');
+
+    expect(names('/mnt/src')).toEqual(['a.ts']);
+    expect(changes()).toEqual(['modified file /src/a.ts', 'deleted file /src/b.ts']);
+  });
+
+  it('renames lower entries by copying them up', () => {
+    vfs.rename('/mnt/src', '/mnt/lib');
+
+    expect(names('/mnt')).toEqual(['README', 'lib']);
+    expect(names('/mnt/lib')).toEqual(['a.ts', 'b.ts']);
+    expect(vfs.stat('/mnt/lib').mode).toBe(0o750);
+    expect(changes()).toEqual([
+      'added directory /lib',
+      'added file /lib/a.ts',
+      'added file /lib/b.ts',
+      'deleted directory /src',
+    ]);
+  });
+
+  it('checks types and emptiness like the in-memory tree', () => {
+    expect(() => vfs.mkdir('/mnt/src')).toThrow(/EEXIST/);
+    expect(() => vfs.rmdir('/mnt/src')).toThrow(/ENOTEMPTY/);
+    expect(() => vfs.unlink('/mnt/src')).toThrow(/EISDIR/);
+    expect(() => vfs.writeFile('/mnt/README/x', '')).toThrow(/ENOTDIR/);
+    expect(() => vfs.writeFile('/mnt/missing/x', '')).toThrow(/ENOENT/);
+    vfs.mkdir('/mnt/deep/er', { recursive: true });
+    expect(vfs.stat('/mnt/deep/er').type).toBe('directory');
+  });
+});
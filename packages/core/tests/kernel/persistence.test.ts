@@ -98,4 +98,39 @@ describe('Serializer', () => {
     expect(vfs2.stat('/file').mode).toBe(0o644);
     expect(vfs2.stat('/dir').mode).toBe(0o755);
   });
+
+  it('round-trips symlinks and hard links', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/dir');
+    vfs.writeFile('/dir/file', 'shared');
+    vfs.link('/dir/file', '/dir/hard');
+    vfs.symlink('file', '/dir/sym');
+
+    const vfs2 = new VFS();
+    vfs2.loadFromSerialized(deserialize(serialize(vfs.getRoot())));
+
+    expect(vfs2.readlink('/dir/sym')).toBe('file');
+    expect(vfs2.readFileString('/dir/sym')).toBe('shared');
+    expect(vfs2.stat('/dir/hard').ino).toBe(vfs2.stat('/dir/file').ino);
+    expect(vfs2.stat('/dir/hard').nlink).toBe(2);
+    vfs2.writeFile('/dir/hard', 'changed');
+    expect(vfs2.readFileString('/dir/file')).toBe('changed');
+  });
+
+  it('round-trips ownership, omitting it for root', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/home');
+    vfs.writeFile('/home/mine', 'x');
+    vfs.chown('/home/mine', 1000, 27);
+
+    const serialized = serialize(vfs.getRoot());
+    const home = serialized.c!.find((n) => n.n === 'home')!;
+    expect(home.u).toBeUndefined();
+    expect(home.c![0]).toMatchObject({ u: 1000, g: 27 });
+
+    const vfs2 = new VFS();
+    vfs2.loadFromSerialized(deserialize(serialized));
+    expect(vfs2.stat('/home/mine')).toMatchObject({ uid: 1000, gid: 27 });
+    expect(vfs2.stat('/home')).toMatchObject({ uid: 0, gid: 0 });
+  });
 });
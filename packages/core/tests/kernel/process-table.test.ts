@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProcessTable, SIGSTOP, SIGCONT } from '../../src/kernel/process/index.js';
+
+describe('ProcessTable', () => {
+  let processes: ProcessTable;
+
+  beforeEach(() => {
+    processes = new ProcessTable();
+  });
+
+  it('assigns increasing PIDs starting at 1', () => {
+    const sh = processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/', env: {} });
+    const child = processes.spawn({ ppid: sh.pid, argv: ['ls', '-l'], cwd: '/tmp', env: {} });
+    expect(sh.pid).toBe(1);
+    expect(child.pid).toBe(2);
+    expect(child.ppid).toBe(1);
+    expect(child.argv).toEqual(['ls', '-l']);
+    expect(child.state).toBe('running');
+    expect(processes.children(1)).toEqual([child]);
+  });
+
+  it('keeps the exit status until reaped', () => {
+    const proc = processes.spawn({ ppid: 0, argv: ['false'], cwd: '/', env: {} });
+    processes.exit(proc.pid, 1);
+    expect(processes.get(proc.pid)?.state).toBe('zombie');
+    expect(processes.get(proc.pid)?.exitCode).toBe(1);
+    expect(processes.reap(proc.pid)).toBe(1);
+    expect(processes.get(proc.pid)).toBeUndefined();
+  });
+
+  it('does not reap running processes', () => {
+    const proc = processes.spawn({ ppid: 0, argv: ['sleep'], cwd: '/', env: {} });
+    expect(processes.reap(proc.pid)).toBeNull();
+    expect(processes.get(proc.pid)).toBeDefined();
+  });
+
+  it('kill aborts the process signal', () => {
+    const proc = processes.spawn({ ppid: 0, argv: ['sleep'], cwd: '/', env: {} });
+    expect(processes.kill(proc.pid)).toBe(true);
+    expect(proc.abortController.signal.aborted).toBe(true);
+    expect(processes.kill(999)).toBe(false);
+  });
+
+  it('STOP and CONT change state without aborting', () => {
+    const proc = processes.spawn({ ppid: 0, argv: ['sleep'], cwd: '/', env: {} });
+    processes.kill(proc.pid, SIGSTOP);
+    expect(proc.state).toBe('stopped');
+    processes.kill(proc.pid, SIGCONT);
+    expect(proc.state).toBe('running');
+    expect(proc.abortController.signal.aborted).toBe(false);
+  });
+
+  it('propagates an abort from the parent signal', () => {
+    const parent = new AbortController();
+    const proc = processes.spawn({ ppid: 0, argv: ['cat'], cwd: '/', env: {}, signal: parent.signal });
+    parent.abort();
+    expect(proc.abortController.signal.aborted).toBe(true);
+  });
+
+  it('stops listening to the parent signal once the process exits', () => {
+    const parent = new AbortController();
+    const removed = vi.spyOn(parent.signal, 'removeEventListener');
+    const proc = processes.spawn({ ppid: 0, argv: ['cat'], cwd: '/', env: {}, signal: parent.signal });
+    processes.exit(proc.pid, 0);
+    expect(removed).toHaveBeenCalledWith('abort', expect.any(Function));
+    parent.abort();
+    expect(proc.abortController.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { createMountTypes } from '../../src/kernel/vfs/MountTypeRegistry.js';
+import { CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+
+describe('VFS quotas', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/data');
+  });
+
+  it('counts file content and nodes', () => {
+    vfs.writeFile('/data/a.txt', 'hello');
+    vfs.symlink('/data/a.txt', '/data/link');
+    vfs.link('/data/a.txt', '/data/b.txt');
+    expect(vfs.statfs()).toEqual({ bytes: 5, inodes: 4, quota: {} });
+
+    vfs.appendFile('/data/a.txt', '!');
+    vfs.writeFile('/data/big.bin', new Uint8Array(CHUNK_THRESHOLD));
+    vfs.unlink('/data/b.txt');
+    expect(vfs.statfs()).toMatchObject({ bytes: 6 + CHUNK_THRESHOLD, inodes: 5 });
+
+    vfs.unlink('/data/a.txt');
+    vfs.unlink('/data/link');
+    vfs.truncate('/data/big.bin', 10);
+    expect(vfs.statfs()).toMatchObject({ bytes: 10, inodes: 3 });
+  });
+
+  it('fails writes past the byte quota with ENOSPC and leaves the file alone', () => {
+    vfs.setQuota({ bytes: 10 });
+    vfs.writeFile('/data/a.txt', '12345678');
+    expect(() => vfs.writeFile('/data/b.txt', '123')).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(vfs.exists('/data/b.txt')).toBe(false);
+    expect(() => vfs.appendFile('/data/a.txt', '9ab')).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(() => vfs.writeAt('/data/a.txt', new Uint8Array(3), 8)).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(() => vfs.truncate('/data/a.txt', 11)).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(vfs.readFileString('/data/a.txt')).toBe('12345678');
+
+    // Replacing content only needs room for the difference
+    vfs.writeFile('/data/a.txt', '1234567890');
+    vfs.writeFile('/data/a.txt', 'short');
+    vfs.writeFile('/data/b.txt', '12345');
+    expect(vfs.statfs()).toEqual({ bytes: 10, inodes: 4, quota: { bytes: 10 } });
+  });
+
+  it('fails creating nodes past the inode quota', () => {
+    vfs.setQuota({ inodes: 3 });
+    vfs.writeFile('/data/a.txt', 'a');
+    expect(() => vfs.mkdir('/data/sub')).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(() => vfs.symlink('a.txt', '/data/l')).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(() => vfs.mkdir('/x/y', { recursive: true })).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    expect(vfs.exists('/x')).toBe(false);
+    vfs.rename('/data/a.txt', '/data/b.txt');
+
+    vfs.unlink('/data/b.txt');
+    vfs.mkdir('/data/sub');
+    vfs.setQuota(null);
+    vfs.mkdir('/data/more');
+  });
+
+  it('recounts after a snapshot is restored', () => {
+    const id = vfs.snapshot();
+    vfs.writeFile('/data/a.txt', 'later');
+    vfs.restore(id);
+    expect(vfs.statfs()).toMatchObject({ bytes: 0, inodes: 2 });
+  });
+
+  it('gives tmpfs mounts their own limits from size= and nr_inodes=', async () => {
+    const types = createMountTypes();
+    vfs.mkdir('/mnt');
+    await types.mount(vfs, 'tmpfs', 'none', '/mnt', ['size=1k', 'nr_inodes=10']);
+    expect(vfs.statfs('/mnt')).toEqual({ bytes: 0, inodes: 1, quota: { bytes: 1024, inodes: 10 } });
+    expect(() => vfs.writeFile('/mnt/big', new Uint8Array(2048))).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+    vfs.writeFile('/mnt/small', new Uint8Array(1000));
+    expect(vfs.statfs('/mnt/small').bytes).toBe(1000);
+    expect(vfs.statfs('/').bytes).toBe(0);
+
+    vfs.mkdir('/bad');
+    await expect(types.mount(vfs, 'tmpfs', 'none', '/bad', ['size=lots'])).rejects.toMatchObject({ code: 'EINVAL' });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemorySyncHub, MemoryLocks } from '../../src/kernel/sync/transport.js';
+import type { SyncConflict } from '../../src/kernel/sync/TabSync.js';
+import { MemoryPersistenceBackend } from '../../src/kernel/persistence/backends.js';
+import type { PersistenceBackend } from '../../src/kernel/persistence/backends.js';
+import { CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+import { Kernel } from '../../src/kernel/index.js';
+import { Sandbox } from '../../src/sandbox/Sandbox.js';
+
+/** Let queued messages reach the other tabs. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('cross-tab sync', () => {
+  let hub: MemorySyncHub;
+  let locks: MemoryLocks;
+  let shared: MemoryPersistenceBackend;
+  /** Which tab wrote to the backend, in order */
+  let writes: string[];
+
+  /** One tab's view of the shared backend, noting who writes to it. */
+  function backend(tab: string): PersistenceBackend {
+    return {
+      open: () => shared.open(),
+      loadTree: () => shared.loadTree(),
+      saveTree: (root) => {
+        writes.push(tab);
+        return shared.saveTree(root);
+      },
+      appendJournal: (records) => {
+        writes.push(tab);
+        return shared.appendJournal(records);
+      },
+      readJournal: () => shared.readJournal(),
+    };
+  }
+
+  async function tab(name: string): Promise<Kernel> {
+    const kernel = new Kernel(backend(name));
+    await kernel.boot({ sync: { transport: hub.connect(), locks } });
+    return kernel;
+  }
+
+  beforeEach(() => {
+    hub = new MemorySyncHub();
+    locks = new MemoryLocks();
+    shared = new MemoryPersistenceBackend();
+    writes = [];
+  });
+
+  it('applies each tab’s writes, deletes and renames in the others', async () => {
+    const a = await tab('a');
+    const b = await tab('b');
+    expect(a.sync!.isLeader).toBe(true);
+    expect(b.sync!.isLeader).toBe(false);
+
+    a.vfs.mkdir('/home/user/project', { recursive: true });
+    a.vfs.writeFile('/home/user/project/notes.txt', 'from a');
+    const big = new Uint8Array(CHUNK_THRESHOLD + 10);
+    for (let i = 0; i < big.length; i++) big[i] = i % 251;
+    a.vfs.writeFile('/home/user/big.bin', big);
+    a.vfs.symlink('project/notes.txt', '/home/user/link');
+    a.vfs.chmod('/home/user/project/notes.txt', 0o600);
+    await settle();
+    expect(b.vfs.readFileString('/home/user/project/notes.txt')).toBe('from a');
+    expect(b.vfs.stat('/home/user/project/notes.txt').mode).toBe(0o600);
+    expect(Buffer.compare(b.vfs.readFile('/home/user/big.bin'), big)).toBe(0);
+    expect(b.vfs.readlink('/home/user/link')).toBe('project/notes.txt');
+
+    b.vfs.rename('/home/user/project/notes.txt', '/home/user/project/todo.txt');
+    b.vfs.unlink('/home/user/big.bin');
+    await settle();
+    expect(a.vfs.exists('/home/user/project/notes.txt')).toBe(false);
+    expect(a.vfs.readFileString('/home/user/project/todo.txt')).toBe('from a');
+    expect(a.vfs.exists('/home/user/big.bin')).toBe(false);
+  });
+
+  it('persists only from the leader, and a new tab loads what the leader has', async () => {
+    const a = await tab('a');
+    const b = await tab('b');
+    b.vfs.writeFile('/tmp/from-b', 'b');
+    a.vfs.writeFile('/tmp/from-a', 'a');
+    await settle();
+
+    // Joining makes the leader write out its pending changes first
+    const c = await tab('c');
+    expect(writes.length).toBeGreaterThan(0);
+    expect(new Set(writes)).toEqual(new Set(['a']));
+    expect(c.vfs.readFileString('/tmp/from-a')).toBe('a');
+    expect(c.vfs.readFileString('/tmp/from-b')).toBe('b');
+  });
+
+  it('hands leadership on when the leader closes', async () => {
+    const a = await tab('a');
+    const b = await tab('b');
+    a.vfs.writeFile('/tmp/early', '1');
+    await settle();
+
+    a.sync!.close();
+    await settle();
+    expect(b.sync!.isLeader).toBe(true);
+    expect(writes.at(-1)).toBe('b');
+
+    b.vfs.writeFile('/tmp/late', '2');
+    a.vfs.writeFile('/tmp/ignored', 'closed tabs no longer sync');
+    const c = await tab('c');
+    expect(c.vfs.readFileString('/tmp/early')).toBe('1');
+    expect(c.vfs.readFileString('/tmp/late')).toBe('2');
+    expect(c.vfs.exists('/tmp/ignored')).toBe(false);
+    expect(b.vfs.exists('/tmp/ignored')).toBe(false);
+  });
+
+  it('reports racing writes and keeps the same one in every tab', async () => {
+    const a = await tab('a');
+    const b = await tab('b');
+    const conflicts: SyncConflict[] = [];
+    a.sync!.onConflict((c) => conflicts.push(c));
+    b.sync!.onConflict((c) => conflicts.push(c));
+
+    a.vfs.writeFile('/tmp/shared.txt', 'one');
+    await settle();
+    b.vfs.writeFile('/tmp/shared.txt', 'two');
+    await settle();
+    expect(conflicts).toEqual([]);
+    expect(a.vfs.readFileString('/tmp/shared.txt')).toBe('two');
+
+    // Neither tab has seen the other's write when it makes its own
+    a.vfs.writeFile('/tmp/shared.txt', 'from a');
+    b.vfs.writeFile('/tmp/shared.txt', 'from b');
+    await settle();
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0]).toEqual(conflicts[1]);
+    expect(conflicts[0].path).toBe('/tmp/shared.txt');
+    const kept = conflicts[0].kept.tab === a.sync!.id ? 'from a' : 'from b';
+    expect(a.vfs.readFileString('/tmp/shared.txt')).toBe(kept);
+    expect(b.vfs.readFileString('/tmp/shared.txt')).toBe(kept);
+  });
+
+  it('is what Sandbox uses when given `sync`', async () => {
+    const sync = () => ({ transport: hub.connect(), locks });
+    const first = await Sandbox.create({ persist: true, backend: backend('first'), sync: sync() });
+    const second = await Sandbox.create({ persist: true, backend: backend('second'), sync: sync() });
+    await first.fs.writeFile('/home/user/shared.txt', 'hello');
+    await settle();
+    expect(await second.fs.readFile('/home/user/shared.txt')).toBe('hello');
+
+    first.destroy();
+    await settle();
+    expect(second.kernel.sync!.isLeader).toBe(true);
+    second.destroy();
+  });
+
+  it('leaves kernels booted without sync on their own', async () => {
+    const kernel = new Kernel(new MemoryPersistenceBackend());
+    await kernel.boot();
+    expect(kernel.sync).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { Kernel } from '../../src/kernel/index.js';
+import {
+  parsePasswd,
+  formatPasswd,
+  parseGroup,
+  formatGroup,
+  findUser,
+  findGroup,
+  credentialsFor,
+  addUser,
+  DEFAULT_PASSWD,
+  DEFAULT_GROUPS,
+} from '../../src/kernel/users/index.js';
+
+function createVfs(): VFS {
+  const vfs = new VFS();
+  vfs.mkdir('/etc');
+  vfs.writeFile('/etc/passwd', formatPasswd(DEFAULT_PASSWD));
+  vfs.writeFile('/etc/group', formatGroup(DEFAULT_GROUPS));
+  return vfs;
+}
+
+describe('passwd and group files', () => {
+  it('round-trips /etc/passwd', () => {
+    const text = 'root:x:0:0:root:/root:/bin/sh\nuser:x:1000:1000:user:/home/user:/bin/sh\n';
+    expect(formatPasswd(parsePasswd(text))).toBe(text);
+    expect(parsePasswd(text)[1]).toEqual({
+      name: 'user', uid: 1000, gid: 1000, gecos: 'user', home: '/home/user', shell: '/bin/sh',
+    });
+  });
+
+  it('round-trips /etc/group and skips comments and junk', () => {
+    const text = '# comment\nroot:x:0:\nsudo:x:27:user,alice\nbroken\n';
+    const groups = parseGroup(text);
+    expect(groups).toEqual([
+      { name: 'root', gid: 0, members: [] },
+      { name: 'sudo', gid: 27, members: ['user', 'alice'] },
+    ]);
+    expect(formatGroup(groups)).toBe('root:x:0:\nsudo:x:27:user,alice\n');
+  });
+
+  it('finds users and groups by name or id', () => {
+    const vfs = createVfs();
+    expect(findUser(vfs, 'user')?.uid).toBe(1000);
+    expect(findUser(vfs, 0)?.name).toBe('root');
+    expect(findUser(vfs, '1000')?.name).toBe('user');
+    expect(findUser(vfs, 'nobody')).toBeUndefined();
+    expect(findGroup(vfs, 'sudo')?.gid).toBe(27);
+    expect(findGroup(vfs, 27)?.name).toBe('sudo');
+  });
+
+  it('builds credentials with supplementary groups', () => {
+    const vfs = createVfs();
+    expect(credentialsFor(vfs, findUser(vfs, 'user')!)).toEqual({ uid: 1000, gid: 1000, groups: [27] });
+  });
+});
+
+describe('addUser', () => {
+  it('allocates the next free uid and a matching group', () => {
+    const vfs = createVfs();
+    const alice = addUser(vfs, { name: 'alice' });
+    expect(alice).toMatchObject({ uid: 1001, gid: 1001, home: '/home/alice' });
+    expect(findGroup(vfs, 'alice')?.gid).toBe(1001);
+    expect(vfs.exists('/home/alice')).toBe(false);
+  });
+
+  it('joins an existing primary group and supplementary groups', () => {
+    const vfs = createVfs();
+    const bob = addUser(vfs, { name: 'bob', uid: 2000, group: 'user', groups: ['sudo'] });
+    expect(bob.gid).toBe(1000);
+    expect(findGroup(vfs, 'bob')).toBeUndefined();
+    expect(credentialsFor(vfs, bob).groups).toEqual([27]);
+  });
+
+  it('rejects duplicates and unknown groups', () => {
+    const vfs = createVfs();
+    expect(() => addUser(vfs, { name: 'user' })).toThrow('already exists');
+    expect(() => addUser(vfs, { name: 'carol', uid: 1000 })).toThrow('not unique');
+    expect(() => addUser(vfs, { name: 'carol', groups: ['wheel'] })).toThrow('does not exist');
+    expect(() => addUser(vfs, { name: 'bad:name' })).toThrow('invalid user name');
+  });
+
+  it('needs write access to /etc', () => {
+    const vfs = createVfs();
+    expect(() => addUser(vfs.asUser({ uid: 1000, gid: 1000 }), { name: 'eve' })).toThrow('EACCES');
+  });
+});
+
+describe('Kernel user setup', () => {
+  it('writes the user database and hands the home directory to the default user', () => {
+    const kernel = new Kernel();
+    kernel.initFilesystem();
+    const { vfs } = kernel;
+
+    expect(findUser(vfs, 'user')?.home).toBe('/home/user');
+    expect(vfs.stat('/home/user')).toMatchObject({ uid: 1000, gid: 1000 });
+    expect(vfs.stat('/home/user/.liforc').uid).toBe(1000);
+    expect(vfs.stat('/etc')).toMatchObject({ uid: 0, mode: 0o755 });
+    expect(vfs.stat('/root').mode).toBe(0o700);
+    expect(vfs.stat('/tmp').mode).toBe(0o1777);
+  });
+
+  it('hands over only what it seeds, when seeding an existing tree again', () => {
+    const kernel = new Kernel();
+    kernel.initFilesystem();
+    const { vfs } = kernel;
+    vfs.chown('/home/user/.liforc', 0, 0);
+    vfs.unlink('/home/user/examples/README.txt');
+
+    kernel.initFilesystem();
+    expect(vfs.stat('/home/user/.liforc').uid).toBe(0);
+    expect(vfs.stat('/home/user/examples/README.txt')).toMatchObject({ uid: 1000, gid: 1000 });
+  });
+
+  it('gives the default user a restricted view', () => {
+    const kernel = new Kernel();
+    kernel.initFilesystem();
+    const vfs = kernel.userVfs();
+
+    vfs.writeFile('/home/user/notes.txt', 'mine');
+    vfs.writeFile('/tmp/scratch', 'x');
+    expect(() => vfs.writeFile('/etc/motd', 'pwned')).toThrow('EACCES');
+    expect(() => vfs.readdir('/root')).toThrow('EACCES');
+    expect(() => kernel.userVfs('nobody')).toThrow('no such user');
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS, VFSError, OverlayProvider, SubtreeProvider } from '../../src/kernel/vfs/index.js';
+import { ProcProvider } from '../../src/kernel/vfs/providers/ProcProvider.js';
+import { ProcessTable } from '../../src/kernel/process/index.js';
+import { CHUNK_THRESHOLD } from '../../src/kernel/storage/ContentStore.js';
+
+describe('VFS snapshots', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/home/user/docs', { recursive: true });
+    vfs.writeFile('/home/user/docs/a.txt', 'alpha');
+    vfs.writeFile('/home/user/b.txt', 'beta');
+  });
+
+  it('restores the tree as it was when the snapshot was taken', () => {
+    const id = vfs.snapshot();
+
+    vfs.writeFile('/home/user/docs/a.txt', 'changed');
+    vfs.appendFile('/home/user/b.txt', '!');
+    vfs.writeFile('/home/user/new.txt', 'new');
+    vfs.chmod('/home/user/docs', 0o700);
+    vfs.rename('/home/user/docs', '/home/user/papers');
+    vfs.mkdir('/tmp/x/y', { recursive: true });
+
+    vfs.restore(id);
+    expect(vfs.readFileString('/home/user/docs/a.txt')).toBe('alpha');
+    expect(vfs.readFileString('/home/user/b.txt')).toBe('beta');
+    expect(vfs.exists('/home/user/new.txt')).toBe(false);
+    expect(vfs.exists('/home/user/papers')).toBe(false);
+    expect(vfs.exists('/tmp')).toBe(false);
+    expect(vfs.stat('/home/user/docs').mode).toBe(0o755);
+  });
+
+  it('can restore the same snapshot repeatedly', () => {
+    const id = vfs.snapshot();
+    for (let i = 0; i < 3; i++) {
+      vfs.writeFile('/home/user/b.txt', `round ${i}`);
+      vfs.rmdirRecursive('/home/user/docs');
+      vfs.restore(id);
+      expect(vfs.readFileString('/home/user/b.txt')).toBe('beta');
+      expect(vfs.readFileString('/home/user/docs/a.txt')).toBe('alpha');
+    }
+  });
+
+  it('keeps later snapshots independent of earlier ones', () => {
+    const first = vfs.snapshot();
+    vfs.writeFile('/home/user/b.txt', 'second');
+    const second = vfs.snapshot();
+    vfs.writeFile('/home/user/b.txt', 'third');
+
+    vfs.restore(first);
+    expect(vfs.readFileString('/home/user/b.txt')).toBe('beta');
+    vfs.restore(second);
+    expect(vfs.readFileString('/home/user/b.txt')).toBe('second');
+    expect(vfs.listSnapshots()).toEqual([first, second]);
+  });
+
+  it('preserves hard links on both sides of a snapshot', () => {
+    vfs.link('/home/user/b.txt', '/home/user/docs/hard');
+    const id = vfs.snapshot();
+
+    vfs.writeFile('/home/user/docs/hard', 'via link');
+    expect(vfs.readFileString('/home/user/b.txt')).toBe('via link');
+    vfs.unlink('/home/user/b.txt');
+    expect(vfs.stat('/home/user/docs/hard').nlink).toBe(1);
+
+    vfs.restore(id);
+    expect(vfs.readFileString('/home/user/b.txt')).toBe('beta');
+    expect(vfs.stat('/home/user/b.txt').nlink).toBe(2);
+    expect(vfs.stat('/home/user/b.txt').ino).toBe(vfs.stat('/home/user/docs/hard').ino);
+  });
+
+  it('keeps chunked contents that the live tree has dropped', () => {
+    const big = new Uint8Array(CHUNK_THRESHOLD + 10).fill(3);
+    vfs.writeFile('/big.bin', big);
+    const id = vfs.snapshot();
+
+    vfs.unlink('/big.bin');
+    vfs.restore(id);
+    expect(vfs.readFile('/big.bin')).toEqual(big);
+  });
+
+  it('notifies watchers when a snapshot is restored', () => {
+    const id = vfs.snapshot();
+    const events: string[] = [];
+    vfs.watch((event) => events.push(`${event.type} ${event.path}`));
+    vfs.restore(id);
+    expect(events).toEqual(['modify /']);
+  });
+
+  it('rejects unknown and dropped snapshots', () => {
+    const id = vfs.snapshot();
+    expect(vfs.dropSnapshot(id)).toBe(true);
+    expect(vfs.dropSnapshot(id)).toBe(false);
+    expect(() => vfs.restore(id)).toThrow(VFSError);
+    expect(() => vfs.restore('nope')).toThrow(/no such snapshot/);
+  });
+});
+
+describe('VFS.clone', () => {
+  it('diverges from the original in both directions', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/srv', { recursive: true });
+    vfs.writeFile('/srv/shared', 'original');
+
+    const copy = vfs.clone();
+    expect(copy.readFileString('/srv/shared')).toBe('original');
+
+    copy.writeFile('/srv/shared', 'from copy');
+    copy.writeFile('/srv/only-copy', 'c');
+    vfs.writeFile('/srv/only-original', 'o');
+    vfs.rmdirRecursive('/srv');
+
+    expect(copy.readFileString('/srv/shared')).toBe('from copy');
+    expect(copy.exists('/srv/only-original')).toBe(false);
+    expect(vfs.exists('/srv')).toBe(false);
+  });
+
+  it('forks writable mounts, so writes under them stay in the fork', () => {
+    const vfs = new VFS();
+    const tmp = new VFS();
+    const lower = new VFS();
+    lower.writeFile('/base', 'lower');
+    vfs.mount('/mnt/tmp', tmp, { type: 'tmpfs' });
+    vfs.mount('/mnt/overlay', new OverlayProvider(new SubtreeProvider(lower, '/')), { type: 'overlay' });
+    vfs.writeFile('/mnt/tmp/shared', 'original');
+
+    const copy = vfs.clone();
+    copy.writeFile('/mnt/tmp/shared', 'from copy');
+    copy.writeFile('/mnt/overlay/new', 'n');
+    copy.writeFile('/mnt/overlay/base', 'changed');
+
+    expect(copy.readFileString('/mnt/tmp/shared')).toBe('from copy');
+    expect(vfs.readFileString('/mnt/tmp/shared')).toBe('original');
+    expect(vfs.exists('/mnt/overlay/new')).toBe(false);
+    expect(vfs.readFileString('/mnt/overlay/base')).toBe('lower');
+    expect(copy.listMounts()).toEqual(vfs.listMounts());
+  });
+
+  it('leaves out mounts it cannot fork', () => {
+    const vfs = new VFS();
+    vfs.mount('/proc', new ProcProvider(new ProcessTable(), vfs), { type: 'proc' });
+    expect(vfs.clone().isMountPoint('/proc')).toBe(false);
+  });
+
+  it('keeps the viewing credentials', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.chown('/home/user', 1000, 1000);
+    const copy = vfs.asUser({ uid: 1000, gid: 1000, groups: [1000] }).clone();
+
+    expect(copy.getCredentials().uid).toBe(1000);
+    expect(() => copy.writeFile('/root-file', 'x')).toThrow(/EACCES|permission denied/);
+    copy.writeFile('/home/user/mine', 'x');
+    expect(vfs.exists('/home/user/mine')).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { VFS } from '../../src/kernel/vfs/index.js';
 import type { VFSWatchEvent } from '../../src/kernel/vfs/index.js';
 
@@ -91,12 +91,12 @@ describe('VFS watch', () => {
       ]);
     });
 
-    it('emits modify on touch for existing file', () => {
+    it('emits attrib on touch for existing file', () => {
       vfs.writeFile('/file.txt', 'data');
       vfs.watch((e) => events.push(e));
       vfs.touch('/file.txt');
       expect(events).toEqual([
-        { type: 'modify', path: '/file.txt', fileType: 'file' },
+        { type: 'attrib', path: '/file.txt', fileType: 'file' },
       ]);
     });
 
@@ -147,6 +147,92 @@ describe('VFS watch', () => {
     });
   });
 
+  describe('watch options', () => {
+    beforeEach(() => {
+      vfs.mkdir('/src/lib', { recursive: true });
+    });
+
+    it('watches only direct entries when not recursive', () => {
+      vfs.watch('/src', { recursive: false }, (e) => events.push(e));
+      vfs.writeFile('/src/a.ts', '');
+      vfs.writeFile('/src/lib/b.ts', '');
+      expect(events.map((e) => e.path)).toEqual(['/src/a.ts']);
+    });
+
+    it('filters by include and exclude globs', () => {
+      vfs.watch('/src', { include: ['*.ts'], exclude: ['*.test.ts', 'lib/gen/*'] }, (e) => events.push(e));
+      vfs.writeFile('/src/a.ts', '');
+      vfs.writeFile('/src/a.test.ts', '');
+      vfs.writeFile('/src/notes.md', '');
+      vfs.mkdir('/src/lib/gen');
+      vfs.writeFile('/src/lib/gen/c.ts', '');
+      vfs.writeFile('/src/lib/b.ts', '');
+      expect(events.map((e) => e.path)).toEqual(['/src/a.ts', '/src/lib/b.ts']);
+    });
+
+    it('filters by event type and reports metadata changes as attrib', () => {
+      vfs.writeFile('/src/a.ts', '');
+      vfs.watch('/src', { events: ['attrib'] }, (e) => events.push(e));
+      vfs.writeFile('/src/a.ts', 'changed');
+      vfs.chmod('/src/a.ts', 0o600);
+      vfs.chown('/src/a.ts', 1000, 1000);
+      expect(events).toEqual([
+        { type: 'attrib', path: '/src/a.ts', fileType: 'file' },
+        { type: 'attrib', path: '/src/a.ts', fileType: 'file' },
+      ]);
+    });
+
+    it('reports a rename within scope once', () => {
+      vfs.writeFile('/src/a.ts', '');
+      vfs.watch('/src', (e) => events.push(e));
+      vfs.rename('/src/a.ts', '/src/lib/a.ts');
+      expect(events).toEqual([{ type: 'rename', path: '/src/lib/a.ts', oldPath: '/src/a.ts', fileType: 'file' }]);
+    });
+  });
+
+  describe('watchBatch', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('delivers coalesced batches after the delay', () => {
+      const batches: VFSWatchEvent[][] = [];
+      vfs.watchBatch('/', { delay: 100 }, (batch) => batches.push(batch));
+      vfs.writeFile('/a.txt', '1');
+      vfs.writeFile('/a.txt', '2');
+      vfs.writeFile('/b.txt', '1');
+      vfs.writeFile('/b.txt', '2');
+      vfs.writeFile('/b.txt', '3');
+      expect(batches).toEqual([]);
+
+      vi.advanceTimersByTime(100);
+      expect(batches).toEqual([[
+        { type: 'create', path: '/a.txt', fileType: 'file' },
+        { type: 'create', path: '/b.txt', fileType: 'file' },
+      ]]);
+
+      vfs.writeFile('/a.txt', '3');
+      vfs.unlink('/a.txt');
+      vfs.writeFile('/a.txt', '4');
+      vfs.writeFile('/a.txt', '5');
+      vi.advanceTimersByTime(100);
+      expect(batches[1].map((e) => e.type)).toEqual(['modify', 'delete', 'create']);
+    });
+
+    it('discards a pending batch on unwatch', () => {
+      const batches: VFSWatchEvent[][] = [];
+      const unwatch = vfs.watchBatch('/', {}, (batch) => batches.push(batch));
+      vfs.writeFile('/a.txt', '1');
+      unwatch();
+      vi.advanceTimersByTime(1000);
+      expect(batches).toEqual([]);
+    });
+  });
+
   describe('unwatch', () => {
     it('stops receiving events after unwatch', () => {
       const unwatch = vfs.watch((e) => events.push(e));
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { VFS, VFSError } from '../../src/kernel/vfs/index.js';
+import { VFS, VFSError, R_OK, W_OK, X_OK } from '../../src/kernel/vfs/index.js';
 
 describe('VFS', () => {
   let vfs: VFS;
@@ -200,4 +200,242 @@ describe('VFS', () => {
       expect(vfs.exists('/a')).toBe(false);
     });
   });
+
+  describe('symlinks', () => {
+    it('follows a symlink to a file', () => {
+      vfs.writeFile('/target.txt', 'hello');
+      vfs.symlink('/target.txt', '/link');
+      expect(vfs.readFileString('/link')).toBe('hello');
+      expect(vfs.readlink('/link')).toBe('/target.txt');
+      expect(vfs.lstat('/link').type).toBe('symlink');
+      expect(vfs.stat('/link').type).toBe('file');
+    });
+
+    it('resolves relative targets against the link directory', () => {
+      vfs.mkdir('/a/b', { recursive: true });
+      vfs.writeFile('/a/file.txt', 'rel');
+      vfs.symlink('../file.txt', '/a/b/link');
+      expect(vfs.readFileString('/a/b/link')).toBe('rel');
+      expect(vfs.realpath('/a/b/link')).toBe('/a/file.txt');
+    });
+
+    it('resolves symlinked directories in the middle of a path', () => {
+      vfs.mkdir('/real/dir', { recursive: true });
+      vfs.writeFile('/real/dir/f', 'x');
+      vfs.symlink('/real', '/alias');
+      expect(vfs.readFileString('/alias/dir/f')).toBe('x');
+      expect(vfs.readdir('/alias').map((e) => e.name)).toEqual(['dir']);
+    });
+
+    it('writing through a dangling link creates the target', () => {
+      vfs.symlink('/missing.txt', '/dangling');
+      expect(vfs.exists('/dangling')).toBe(false);
+      expect(vfs.lstat('/dangling').type).toBe('symlink');
+      vfs.writeFile('/dangling', 'created');
+      expect(vfs.readFileString('/missing.txt')).toBe('created');
+    });
+
+    it('throws ELOOP on symlink cycles', () => {
+      vfs.symlink('/b', '/a');
+      vfs.symlink('/a', '/b');
+      expect(() => vfs.readFile('/a')).toThrow(VFSError);
+      try {
+        vfs.stat('/a');
+      } catch (e) {
+        expect((e as VFSError).code).toBe('ELOOP');
+      }
+    });
+
+    it('unlink removes the link, not the target', () => {
+      vfs.writeFile('/t', 'keep');
+      vfs.symlink('/t', '/l');
+      vfs.unlink('/l');
+      expect(vfs.exists('/l')).toBe(false);
+      expect(vfs.readFileString('/t')).toBe('keep');
+    });
+
+    it('rmdirRecursive does not follow symlinks', () => {
+      vfs.mkdir('/keep');
+      vfs.writeFile('/keep/f', 'x');
+      vfs.mkdir('/gone');
+      vfs.symlink('/keep', '/gone/link');
+      vfs.rmdirRecursive('/gone');
+      expect(vfs.readFileString('/keep/f')).toBe('x');
+    });
+
+    it('readlink on a regular file throws EINVAL', () => {
+      vfs.writeFile('/f', 'x');
+      expect(() => vfs.readlink('/f')).toThrow(VFSError);
+    });
+
+    it('readdir reports symlink entries', () => {
+      vfs.writeFile('/t', 'x');
+      vfs.symlink('/t', '/l');
+      const entry = vfs.readdir('/').find((e) => e.name === 'l');
+      expect(entry?.type).toBe('symlink');
+    });
+  });
+
+  describe('hard links', () => {
+    it('shares content and inode between names', () => {
+      vfs.writeFile('/a', 'one');
+      vfs.link('/a', '/b');
+      vfs.writeFile('/b', 'two');
+      expect(vfs.readFileString('/a')).toBe('two');
+      expect(vfs.stat('/a').ino).toBe(vfs.stat('/b').ino);
+      expect(vfs.stat('/a').nlink).toBe(2);
+    });
+
+    it('keeps content until the last link is removed', () => {
+      vfs.writeFile('/a', 'data');
+      vfs.link('/a', '/b');
+      vfs.unlink('/a');
+      expect(vfs.readFileString('/b')).toBe('data');
+      expect(vfs.stat('/b').nlink).toBe(1);
+    });
+
+    it('refuses to hard link directories', () => {
+      vfs.mkdir('/d');
+      try {
+        vfs.link('/d', '/d2');
+        expect.unreachable();
+      } catch (e) {
+        expect((e as VFSError).code).toBe('EPERM');
+      }
+    });
+
+    it('refuses to overwrite an existing name', () => {
+      vfs.writeFile('/a', '1');
+      vfs.writeFile('/b', '2');
+      expect(() => vfs.link('/a', '/b')).toThrow(VFSError);
+    });
+  });
+
+  describe('permissions', () => {
+    const alice = { uid: 1000, gid: 1000 };
+    const bob = { uid: 1001, gid: 1001 };
+
+    const codeOf = (fn: () => unknown): string | undefined => {
+      try {
+        fn();
+        return undefined;
+      } catch (e) {
+        return (e as VFSError).code;
+      }
+    };
+
+    it('creates nodes owned by the acting user', () => {
+      vfs.mkdir('/home');
+      vfs.chown('/home', 1000, 1000);
+      vfs.asUser(alice).writeFile('/home/a.txt', 'hi');
+      expect(vfs.stat('/home/a.txt')).toMatchObject({ uid: 1000, gid: 1000 });
+      expect(vfs.stat('/')).toMatchObject({ uid: 0, gid: 0 });
+    });
+
+    it('lets root ignore permission bits', () => {
+      vfs.writeFile('/secret', 'x');
+      vfs.chmod('/secret', 0o000);
+      expect(vfs.readFileString('/secret')).toBe('x');
+    });
+
+    it('enforces read and write bits', () => {
+      vfs.writeFile('/f', 'data');
+      const user = vfs.asUser(alice);
+      expect(user.readFileString('/f')).toBe('data');
+      expect(codeOf(() => user.writeFile('/f', 'x'))).toBe('EACCES');
+      expect(codeOf(() => user.appendFile('/f', 'x'))).toBe('EACCES');
+
+      vfs.chmod('/f', 0o600);
+      expect(codeOf(() => user.readFile('/f'))).toBe('EACCES');
+    });
+
+    it('uses owner, then group, then other bits', () => {
+      vfs.writeFile('/f', 'data');
+      vfs.chown('/f', 1000, 50);
+      vfs.chmod('/f', 0o460);
+      expect(codeOf(() => vfs.asUser(alice).writeFile('/f', 'x'))).toBe('EACCES');
+      expect(codeOf(() => vfs.asUser({ uid: 1001, gid: 1001, groups: [50] }).writeFile('/f', 'x'))).toBeUndefined();
+      expect(codeOf(() => vfs.asUser(bob).readFile('/f'))).toBe('EACCES');
+    });
+
+    it('needs write access to the directory to create or remove entries', () => {
+      vfs.mkdir('/d');
+      vfs.writeFile('/d/f', 'x');
+      const user = vfs.asUser(alice);
+      expect(codeOf(() => user.writeFile('/d/new', 'x'))).toBe('EACCES');
+      expect(codeOf(() => user.mkdir('/d/sub'))).toBe('EACCES');
+      expect(codeOf(() => user.unlink('/d/f'))).toBe('EACCES');
+      expect(codeOf(() => user.rename('/d/f', '/d/g'))).toBe('EACCES');
+      expect(codeOf(() => user.symlink('/d/f', '/d/l'))).toBe('EACCES');
+    });
+
+    it('needs search permission to traverse a directory', () => {
+      vfs.mkdir('/private');
+      vfs.writeFile('/private/f', 'x');
+      vfs.chmod('/private', 0o700);
+      const user = vfs.asUser(alice);
+      expect(codeOf(() => user.readFile('/private/f'))).toBe('EACCES');
+      expect(codeOf(() => user.stat('/private/f'))).toBe('EACCES');
+      expect(user.exists('/private/f')).toBe(false);
+    });
+
+    it('needs read permission to list a directory', () => {
+      vfs.mkdir('/d');
+      vfs.chmod('/d', 0o711);
+      const user = vfs.asUser(alice);
+      expect(codeOf(() => user.readdir('/d'))).toBe('EACCES');
+      expect(codeOf(() => user.stat('/d'))).toBeUndefined();
+    });
+
+    it('only lets owners delete from a sticky directory', () => {
+      vfs.mkdir('/tmp');
+      vfs.chmod('/tmp', 0o1777);
+      vfs.asUser(alice).writeFile('/tmp/a', 'x');
+      expect(codeOf(() => vfs.asUser(bob).unlink('/tmp/a'))).toBe('EACCES');
+      expect(codeOf(() => vfs.asUser(alice).unlink('/tmp/a'))).toBeUndefined();
+    });
+
+    it('reports access() like access(2)', () => {
+      vfs.writeFile('/script', 'x');
+      vfs.chmod('/script', 0o755);
+      const user = vfs.asUser(alice);
+      expect(() => user.access('/script', R_OK | X_OK)).not.toThrow();
+      expect(codeOf(() => user.access('/script', W_OK))).toBe('EACCES');
+      expect(codeOf(() => user.access('/missing'))).toBe('ENOENT');
+
+      // Root can only execute files with some x bit
+      vfs.writeFile('/plain', 'x');
+      expect(codeOf(() => vfs.access('/plain', X_OK))).toBe('EACCES');
+    });
+
+    it('only lets the owner chmod', () => {
+      vfs.writeFile('/f', 'x');
+      vfs.chown('/f', 1000, 1000);
+      vfs.asUser(alice).chmod('/f', 0o600);
+      expect(vfs.stat('/f').mode).toBe(0o600);
+      expect(codeOf(() => vfs.asUser(bob).chmod('/f', 0o777))).toBe('EPERM');
+    });
+
+    it('only lets root give files away', () => {
+      vfs.writeFile('/f', 'x');
+      vfs.chown('/f', 1000, 1000);
+      const user = vfs.asUser({ uid: 1000, gid: 1000, groups: [27] });
+      expect(codeOf(() => user.chown('/f', 1001, -1))).toBe('EPERM');
+      expect(codeOf(() => user.chown('/f', -1, 1001))).toBe('EPERM');
+      user.chown('/f', -1, 27);
+      expect(vfs.stat('/f')).toMatchObject({ uid: 1000, gid: 27 });
+    });
+
+    it('shares the tree and watchers between views', () => {
+      const events: string[] = [];
+      vfs.watch((e) => events.push(e.path));
+      vfs.mkdir('/tmp');
+      vfs.chmod('/tmp', 0o1777);
+      vfs.asUser(alice).writeFile('/tmp/a', 'x');
+      expect(vfs.readFileString('/tmp/a')).toBe('x');
+      expect(events).toContain('/tmp/a');
+      expect(vfs.asUser(alice).getCredentials().uid).toBe(1000);
+      expect(vfs.getCredentials().uid).toBe(0);
+    });
+  });
 });
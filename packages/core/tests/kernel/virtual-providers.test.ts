@@ -1,8 +1,10 @@
-import { describe, it, expect } from 'vitest';
-import { VFS } from '../../src/kernel/vfs/index.js';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS, StdioProvider } from '../../src/kernel/vfs/index.js';
 import { ProcProvider } from '../../src/kernel/vfs/providers/ProcProvider.js';
+import { ProcessTable } from '../../src/kernel/process/index.js';
 import { DevProvider } from '../../src/kernel/vfs/providers/DevProvider.js';
 import type { VirtualProvider } from '../../src/kernel/vfs/types.js';
+import { encode, decode } from '../../src/utils/encoding.js';
 
 describe('VFS Virtual Provider System', () => {
   it('delegates readFileString to registered provider', () => {
@@ -156,6 +158,43 @@ describe('ProcProvider', () => {
     const entries = vfs.readdir('/proc/net');
     expect(entries.map((e) => e.name)).toContain('info');
   });
+
+  describe('per-process directories', () => {
+    let processes: ProcessTable;
+
+    beforeEach(() => {
+      processes = new ProcessTable();
+      vfs = new VFS();
+      vfs.registerProvider('/proc', new ProcProvider(processes));
+      processes.spawn({ ppid: 0, argv: ['sh'], cwd: '/home/user', env: { HOME: '/home/user' } });
+      processes.spawn({ ppid: 1, argv: ['sleep', '10'], cwd: '/tmp', env: { A: '1', B: '2' } });
+    });
+
+    it('lists a directory per live process', () => {
+      const names = vfs.readdir('/proc').map((e) => e.name);
+      expect(names).toContain('1');
+      expect(names).toContain('2');
+      expect(vfs.stat('/proc/2').type).toBe('directory');
+      expect(vfs.readdir('/proc/2').map((e) => e.name)).toEqual(['cmdline', 'status', 'cwd', 'environ']);
+    });
+
+    it('exposes cmdline, status, cwd and environ', () => {
+      expect(vfs.readFileString('/proc/2/cmdline')).toBe('sleep\0' + '10\0');
+      expect(vfs.readFileString('/proc/2/cwd')).toBe('/tmp\n');
+      expect(vfs.readFileString('/proc/2/environ')).toBe('A=1\0B=2\0');
+      const status = vfs.readFileString('/proc/2/status');
+      expect(status).toContain('Name:\tsleep');
+      expect(status).toContain('State:\tR (running)');
+      expect(status).toContain('PPid:\t1');
+    });
+
+    it('removes the directory once the process is reaped', () => {
+      processes.exit(2, 0);
+      expect(vfs.readFileString('/proc/2/status')).toContain('Z (zombie)');
+      processes.reap(2);
+      expect(vfs.exists('/proc/2')).toBe(false);
+    });
+  });
 });
 
 describe('DevProvider', () => {
@@ -222,3 +261,70 @@ describe('DevProvider', () => {
     expect(vfs.exists('/dev/nonexistent')).toBe(false);
   });
 });
+
+describe('per-process devices', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.registerProvider('/dev', new DevProvider());
+  });
+
+  it('/dev/full reads zeros and refuses writes with ENOSPC', () => {
+    expect(vfs.readFile('/dev/full').every((b) => b === 0)).toBe(true);
+    expect(() => vfs.writeFile('/dev/full', 'x')).toThrow(expect.objectContaining({ code: 'ENOSPC' }));
+  });
+
+  it('lists stdin, stdout, stderr, fd and tty but needs a process to use them', () => {
+    const names = vfs.readdir('/dev').map((e) => e.name);
+    expect(names).toEqual(expect.arrayContaining(['stdin', 'stdout', 'stderr', 'fd', 'tty']));
+    expect(vfs.stat('/dev/fd').type).toBe('directory');
+    expect(() => vfs.writeFile('/dev/stdout', 'x')).toThrow(expect.objectContaining({ code: 'ENXIO' }));
+  });
+
+  it('routes them to the streams of a withStdio() view', () => {
+    const written: string[] = [];
+    const stdio = new StdioProvider({
+      fds: new Map([
+        [0, { read: () => encode('input') }],
+        [1, { write: (data: Uint8Array) => written.push(`1:${decode(data)}`) }],
+        [2, { write: (data: Uint8Array) => written.push(`2:${decode(data)}`) }],
+      ]),
+    });
+    const proc = vfs.withStdio(stdio);
+
+    expect(proc.readFileString('/dev/stdin')).toBe('input');
+    expect(proc.readFileString('/dev/fd/0')).toBe('input');
+    proc.writeFile('/dev/stdout', 'out');
+    proc.writeFile('/dev/fd/2', 'err');
+    expect(written).toEqual(['1:out', '2:err']);
+    expect(proc.readdir('/dev/fd').map((e) => e.name)).toEqual(['0', '1', '2']);
+
+    expect(() => proc.readFile('/dev/stdout')).toThrow(expect.objectContaining({ code: 'EBADF' }));
+    expect(proc.exists('/dev/fd/7')).toBe(false);
+    expect(() => proc.writeFile('/dev/tty', 'x')).toThrow(expect.objectContaining({ code: 'ENXIO' }));
+    // The underlying filesystem is unaffected
+    expect(() => vfs.readFile('/dev/stdin')).toThrow(expect.objectContaining({ code: 'ENXIO' }));
+  });
+
+  it('reports EAGAIN for stdin that would have to be waited for', () => {
+    const proc = vfs.withStdio(new StdioProvider({ fds: new Map([[0, { read: () => null }]]) }));
+    expect(() => proc.readFile('/dev/stdin')).toThrow(expect.objectContaining({ code: 'EAGAIN' }));
+  });
+});
+
+describe('/proc/meminfo accounting', () => {
+  it('reports file contents as Shmem and the chunk cache as Cached', () => {
+    const vfs = new VFS();
+    vfs.mount('/proc', new ProcProvider(undefined, vfs));
+    vfs.setQuota({ bytes: 4 * 1024 * 1024 });
+    // No two chunks alike, so none are shared in the store
+    vfs.writeFile('/big.bin', Uint8Array.from({ length: 1024 * 1024 + 2048 }, (_, i) => i % 251));
+
+    const info = vfs.readFileString('/proc/meminfo');
+    expect(info).toContain('Shmem:          1026 kB');
+    expect(info).toContain('Cached:         1026 kB');
+    expect(info).toContain('MemTotal:       4096 kB');
+    expect(info).toContain('MemFree:        3070 kB');
+  });
+});
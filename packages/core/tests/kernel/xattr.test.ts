@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VFS, VFSError, MIME_XATTR, XATTR_SIZE_MAX } from '../../src/kernel/vfs/index.js';
+import { DevProvider } from '../../src/kernel/vfs/providers/DevProvider.js';
+import { serialize, deserialize } from '../../src/kernel/persistence/serializer.js';
+import type { VFSWatchEvent } from '../../src/kernel/vfs/types.js';
+import { decode } from '../../src/utils/encoding.js';
+
+function codeOf(fn: () => void): string | undefined {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof VFSError) return e.code;
+    throw e;
+  }
+  return undefined;
+}
+
+describe('VFS extended attributes', () => {
+  let vfs: VFS;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/data');
+    vfs.writeFile('/data/a.txt', 'hello');
+  });
+
+  it('sets, gets, lists and removes attributes', () => {
+    vfs.setxattr('/data/a.txt', 'user.comment', 'first draft');
+    vfs.setxattr('/data/a.txt', 'user.bin', new Uint8Array([0, 1, 2]));
+
+    expect(decode(vfs.getxattr('/data/a.txt', 'user.comment'))).toBe('first draft');
+    expect(vfs.getxattr('/data/a.txt', 'user.bin')).toEqual(new Uint8Array([0, 1, 2]));
+    expect(vfs.listxattr('/data/a.txt').sort()).toEqual(['user.bin', 'user.comment']);
+
+    vfs.removexattr('/data/a.txt', 'user.bin');
+    expect(vfs.listxattr('/data/a.txt')).toEqual(['user.comment']);
+    expect(codeOf(() => vfs.getxattr('/data/a.txt', 'user.bin'))).toBe('ENODATA');
+    expect(codeOf(() => vfs.removexattr('/data/a.txt', 'user.bin'))).toBe('ENODATA');
+  });
+
+  it('works on directories and follows symlinks', () => {
+    vfs.symlink('/data/a.txt', '/data/link');
+    vfs.setxattr('/data/link', 'user.tag', 'x');
+    vfs.setxattr('/data', 'user.tag', 'dir');
+    expect(decode(vfs.getxattr('/data/a.txt', 'user.tag'))).toBe('x');
+    expect(decode(vfs.getxattr('/data', 'user.tag'))).toBe('dir');
+  });
+
+  it('honours the create and replace flags', () => {
+    vfs.setxattr('/data/a.txt', 'user.k', 'v1', { create: true });
+    expect(codeOf(() => vfs.setxattr('/data/a.txt', 'user.k', 'v2', { create: true }))).toBe('EEXIST');
+    vfs.setxattr('/data/a.txt', 'user.k', 'v2', { replace: true });
+    expect(decode(vfs.getxattr('/data/a.txt', 'user.k'))).toBe('v2');
+    expect(codeOf(() => vfs.setxattr('/data/a.txt', 'user.other', 'v', { replace: true }))).toBe('ENODATA');
+  });
+
+  it('validates names and sizes', () => {
+    expect(codeOf(() => vfs.setxattr('/data/a.txt', 'comment', 'v'))).toBe('ENOTSUP');
+    expect(codeOf(() => vfs.setxattr('/data/a.txt', 'user.', 'v'))).toBe('ENOTSUP');
+    expect(codeOf(() => vfs.setxattr('/data/a.txt', 'user.' + 'n'.repeat(300), 'v'))).toBe('ERANGE');
+    expect(codeOf(() => vfs.setxattr('/data/a.txt', 'user.big', new Uint8Array(XATTR_SIZE_MAX + 1)))).toBe('E2BIG');
+    expect(codeOf(() => vfs.getxattr('/data/missing', 'user.k'))).toBe('ENOENT');
+  });
+
+  it('checks permissions by namespace', () => {
+    vfs.chown('/data/a.txt', 1000, 1000);
+    vfs.setxattr('/data/a.txt', 'trusted.secret', 's');
+    vfs.setxattr('/data/a.txt', 'security.label', 'l');
+    const user = vfs.asUser({ uid: 1000, gid: 1000 });
+    const other = vfs.asUser({ uid: 1001, gid: 1001 });
+
+    user.setxattr('/data/a.txt', 'user.mine', 'yes');
+    expect(user.listxattr('/data/a.txt').sort()).toEqual(['security.label', 'user.mine']);
+    expect(decode(user.getxattr('/data/a.txt', 'security.label'))).toBe('l');
+    expect(codeOf(() => user.getxattr('/data/a.txt', 'trusted.secret'))).toBe('EPERM');
+    expect(codeOf(() => user.setxattr('/data/a.txt', 'security.label', 'm'))).toBe('EPERM');
+
+    vfs.chmod('/data/a.txt', 0o644);
+    expect(decode(other.getxattr('/data/a.txt', 'user.mine'))).toBe('yes');
+    expect(codeOf(() => other.setxattr('/data/a.txt', 'user.mine', 'no'))).toBe('EACCES');
+  });
+
+  it('refuses user attributes on FIFOs and attributes on provider mounts', () => {
+    vfs.mkfifo('/data/pipe');
+    expect(codeOf(() => vfs.setxattr('/data/pipe', 'user.k', 'v'))).toBe('EPERM');
+    vfs.setxattr('/data/pipe', 'trusted.k', 'v');
+
+    vfs.registerProvider('/dev', new DevProvider());
+    expect(codeOf(() => vfs.setxattr('/dev/null', 'user.k', 'v'))).toBe('ENOTSUP');
+    expect(codeOf(() => vfs.listxattr('/dev/null'))).toBe('ENOTSUP');
+  });
+
+  it('lets the MIME attribute override the guessed type', () => {
+    expect(vfs.stat('/data/a.txt').mime).toBe('text/plain');
+    vfs.setxattr('/data/a.txt', MIME_XATTR, 'application/json');
+    expect(vfs.stat('/data/a.txt').mime).toBe('application/json');
+    vfs.removexattr('/data/a.txt', MIME_XATTR);
+    expect(vfs.stat('/data/a.txt').mime).toBe('text/plain');
+  });
+
+  it('reports changes as attrib events', () => {
+    const events: VFSWatchEvent[] = [];
+    vfs.watch('/data', (e) => events.push(e));
+    vfs.setxattr('/data/a.txt', 'user.k', 'v');
+    vfs.removexattr('/data/a.txt', 'user.k');
+    expect(events.map((e) => e.type)).toEqual(['attrib', 'attrib']);
+  });
+
+  it('keeps attributes as they were in a snapshot', () => {
+    vfs.setxattr('/data/a.txt', 'user.k', 'before');
+    const id = vfs.snapshot();
+    vfs.setxattr('/data/a.txt', 'user.k', 'after');
+    vfs.setxattr('/data/a.txt', 'user.new', 'x');
+
+    vfs.restore(id);
+    expect(decode(vfs.getxattr('/data/a.txt', 'user.k'))).toBe('before');
+    expect(vfs.listxattr('/data/a.txt')).toEqual(['user.k']);
+  });
+
+  it('survives serialization', () => {
+    vfs.setxattr('/data/a.txt', 'user.bin', new Uint8Array([255, 0, 7]));
+    vfs.setxattr('/data', 'trusted.t', 'dir');
+
+    const restored = new VFS();
+    restored.loadFromSerialized(deserialize(JSON.parse(JSON.stringify(serialize(vfs.getRoot())))));
+    expect(restored.getxattr('/data/a.txt', 'user.bin')).toEqual(new Uint8Array([255, 0, 7]));
+    expect(decode(restored.getxattr('/data', 'trusted.t'))).toBe('dir');
+  });
+});
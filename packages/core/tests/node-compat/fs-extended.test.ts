@@ -141,9 +141,60 @@ describe('node-compat fs extended', () => {
 
       expect(chunks.join('')).toBe('Hello, world!');
     });
+
+    it('streams a FIFO as it is written, ending when the writer closes', async () => {
+      vfs.mkfifo('/home/user/pipe');
+      const stream = fs.createReadStream('/home/user/pipe');
+      const chunks: string[] = [];
+      stream.on('data', (chunk: unknown) => chunks.push(chunk as string));
+      const ended = new Promise<void>((resolve) => stream.on('end', () => resolve()));
+
+      const writer = await vfs.openFifo('/home/user/pipe', 'write');
+      writer.write('first ');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(chunks).toEqual(['first ']);
+      writer.write('second');
+      writer.close();
+      await ended;
+      expect(chunks.join('')).toBe('first second');
+      expect(fs.statSync('/home/user/pipe').isFIFO()).toBe(true);
+    });
+
+    it('reads a FIFO to end of file with readFile, but not readFileSync', async () => {
+      vfs.mkfifo('/home/user/pipe');
+      const write = async (text: string) => {
+        const writer = await vfs.openFifo('/home/user/pipe', 'write');
+        writer.write(text);
+        writer.close();
+      };
+
+      const reading = fs.promises.readFile('/home/user/pipe', 'utf-8');
+      await write('first');
+      expect(await reading).toBe('first');
+
+      const calledBack = new Promise((resolve) => fs.readFile('/home/user/pipe', 'utf-8', (_err, data) => resolve(data)));
+      await write('second');
+      expect(await calledBack).toBe('second');
+
+      expect(() => fs.readFileSync('/home/user/pipe')).toThrow(expect.objectContaining({ code: 'EAGAIN' }));
+    });
   });
 
   describe('createWriteStream', () => {
+    it('queues writes to a FIFO until a reader opens it', async () => {
+      vfs.mkfifo('/home/user/pipe');
+      const stream = fs.createWriteStream('/home/user/pipe');
+      stream.write('queued ');
+      stream.end('data');
+
+      const reader = await vfs.openFifo('/home/user/pipe', 'read');
+      const chunks: string[] = [];
+      for (let chunk = await reader.read(); chunk !== null; chunk = await reader.read()) {
+        chunks.push(new TextDecoder().decode(chunk));
+      }
+      expect(chunks.join('')).toBe('queued data');
+    });
+
     it('writes data to file', () => {
       const stream = fs.createWriteStream('/home/user/output.txt');
       stream.write('first ');
@@ -203,4 +254,52 @@ describe('node-compat fs extended', () => {
       expect(content).toBe('');
     });
   });
+
+  describe('positional I/O', () => {
+    it('writes at an offset without moving the fd position', () => {
+      const fd = fs.openSync('/home/user/hello.txt', 'r+');
+      fs.writeSync(fd, 'J', 0);
+      fs.writeSync(fd, new Uint8Array([87]), 0, 1, 7);
+      fs.writeSync(fd, 'h');
+      fs.closeSync(fd);
+      expect(fs.readFileSync('/home/user/hello.txt', 'utf-8')).toBe('hello, World!');
+    });
+
+    it('zero-fills when writing past the end', () => {
+      const fd = fs.openSync('/home/user/data.bin', 'r+');
+      fs.writeSync(fd, new Uint8Array([9]), 0, 1, 10);
+      fs.closeSync(fd);
+      expect(Array.from(vfs.readFile('/home/user/data.bin'))).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 0, 0, 9]);
+    });
+
+    it('extends a file with ftruncateSync', () => {
+      const fd = fs.openSync('/home/user/data.bin', 'r+');
+      fs.ftruncateSync(fd, 10);
+      fs.closeSync(fd);
+      expect(vfs.stat('/home/user/data.bin').size).toBe(10);
+    });
+
+    it('rejects wx on an existing file and reads on a write-only fd', () => {
+      expect(() => fs.openSync('/home/user/hello.txt', 'wx')).toThrow(expect.objectContaining({ code: 'EEXIST', syscall: 'open' }));
+      const fd = fs.openSync('/home/user/new.txt', 'wx');
+      expect(() => fs.readSync(fd, new Uint8Array(4), 0, 4, null)).toThrow(expect.objectContaining({ code: 'EBADF' }));
+      fs.closeSync(fd);
+    });
+
+    it('streams only the requested range', async () => {
+      const stream = fs.createReadStream('/home/user/hello.txt', { start: 7, end: 11, highWaterMark: 2 });
+      const chunks: string[] = [];
+      stream.on('data', (chunk: unknown) => chunks.push(chunk as string));
+      await new Promise<void>((resolve) => stream.on('end', () => resolve()));
+      expect(chunks).toEqual(['wo', 'rl', 'd']);
+    });
+
+    it('appends stream writes instead of rewriting the file', () => {
+      const stream = fs.createWriteStream('/home/user/log.txt', { flags: 'a' });
+      stream.write('a');
+      stream.write('b');
+      stream.end('c');
+      expect(fs.readFileSync('/home/user/log.txt', 'utf-8')).toBe('abc');
+    });
+  });
 });
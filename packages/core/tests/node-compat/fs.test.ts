@@ -89,6 +89,24 @@ describe('node-compat fs', () => {
     it('accessSync throws for missing file', () => {
       expect(() => fs.accessSync('/tmp/missing')).toThrow();
     });
+
+    it('symlinkSync + readlinkSync + lstatSync', () => {
+      vfs.writeFile('/tmp/target.txt', 'linked');
+      fs.symlinkSync('target.txt', '/tmp/link');
+      expect(fs.readlinkSync('/tmp/link')).toBe('target.txt');
+      expect(fs.lstatSync('/tmp/link').isSymbolicLink()).toBe(true);
+      expect(fs.statSync('/tmp/link').isFile()).toBe(true);
+      expect(fs.readFileSync('/tmp/link', 'utf-8')).toBe('linked');
+      expect(fs.realpathSync('/tmp/link')).toBe('/tmp/target.txt');
+    });
+
+    it('linkSync shares the inode', () => {
+      vfs.writeFile('/tmp/a', 'x');
+      fs.linkSync('/tmp/a', '/tmp/b');
+      const a = fs.statSync('/tmp/a');
+      expect(a.nlink).toBe(2);
+      expect(fs.statSync('/tmp/b').ino).toBe(a.ino);
+    });
   });
 
   describe('callback API', () => {
@@ -148,4 +166,64 @@ describe('node-compat fs', () => {
       await expect(fs.promises.rm('/tmp/nonexistent', { force: true })).resolves.toBeUndefined();
     });
   });
+
+  describe('watch', () => {
+    it('reports rename and change events with names relative to the directory', () => {
+      const seen: string[] = [];
+      const watcher = fs.watch('/tmp', { recursive: true }, (type, name) => seen.push(`${type} ${name}`));
+      fs.writeFileSync('/tmp/a.txt', '1');
+      fs.writeFileSync('/tmp/a.txt', '2');
+      fs.mkdirSync('/tmp/sub');
+      fs.writeFileSync('/tmp/sub/b.txt', '1');
+      fs.writeFileSync('/home/c.txt', '1');
+      (watcher as unknown as { close(): void }).close();
+      fs.unlinkSync('/tmp/a.txt');
+
+      expect(seen).toEqual(['rename a.txt', 'change a.txt', 'rename sub', 'rename sub/b.txt']);
+    });
+  });
+
+  describe('errors', () => {
+    it('carry code, errno, syscall and path like node', () => {
+      expect(() => fs.readFileSync('/tmp/missing', 'utf-8')).toThrow(expect.objectContaining({
+        code: 'ENOENT',
+        errno: -2,
+        syscall: 'open',
+        path: '/tmp/missing',
+        message: "ENOENT: no such file or directory, open '/tmp/missing'",
+      }));
+      expect(() => fs.readdirSync('/tmp/missing')).toThrow(expect.objectContaining({ syscall: 'scandir' }));
+      expect(() => fs.mkdirSync('/tmp')).toThrow(expect.objectContaining({ code: 'EEXIST', errno: -17 }));
+      vfs.writeFile('/tmp/f', '');
+      expect(() => fs.rmdirSync('/tmp')).toThrow(expect.objectContaining({ code: 'ENOTEMPTY', errno: -39 }));
+    });
+
+    it('name both paths for two-path calls', () => {
+      vfs.writeFile('/tmp/a', 'a');
+      vfs.mkdir('/tmp/dir');
+      expect(() => fs.renameSync('/tmp/a', '/tmp/dir')).toThrow(expect.objectContaining({
+        code: 'EISDIR',
+        errno: -21,
+        syscall: 'rename',
+        path: '/tmp/a',
+        dest: '/tmp/dir',
+        message: "EISDIR: illegal operation on a directory, rename '/tmp/a' -> '/tmp/dir'",
+      }));
+    });
+
+    it('leave the path out of fd calls', () => {
+      expect(() => fs.closeSync(42)).toThrow(expect.objectContaining({
+        code: 'EBADF',
+        errno: -9,
+        syscall: 'close',
+        message: 'EBADF: bad file descriptor, close',
+      }));
+    });
+
+    it('reach callbacks and promises unchanged', async () => {
+      const err = await new Promise((resolve) => fs.stat('/tmp/missing', resolve));
+      expect(err).toMatchObject({ code: 'ENOENT', syscall: 'stat', path: '/tmp/missing' });
+      await expect(fs.promises.unlink('/tmp/missing')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'unlink' });
+    });
+  });
 });
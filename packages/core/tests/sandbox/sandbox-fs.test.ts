@@ -132,6 +132,35 @@ describe('SandboxFs', () => {
     });
   });
 
+  describe('extended attributes', () => {
+    it('sets, reads, lists and removes attributes', async () => {
+      sandbox = await Sandbox.create();
+      await sandbox.fs.writeFile('/tmp/a.txt', 'data');
+      await sandbox.fs.setxattr('/tmp/a.txt', 'user.comment', 'hi');
+      await sandbox.fs.setxattr('/tmp/a.txt', 'user.bin', new Uint8Array([1, 2]));
+
+      expect(await sandbox.fs.getxattr('/tmp/a.txt', 'user.comment')).toBe('hi');
+      expect(await sandbox.fs.getxattr('/tmp/a.txt', 'user.bin', null)).toEqual(new Uint8Array([1, 2]));
+      expect((await sandbox.fs.listxattr('/tmp/a.txt')).sort()).toEqual(['user.bin', 'user.comment']);
+
+      await sandbox.fs.removexattr('/tmp/a.txt', 'user.bin');
+      expect(await sandbox.fs.listxattr('/tmp/a.txt')).toEqual(['user.comment']);
+      await expect(sandbox.fs.getxattr('/tmp/a.txt', 'user.bin')).rejects.toThrow('ENODATA');
+    });
+
+    it('keeps attributes across exportSnapshot / importSnapshot', async () => {
+      sandbox = await Sandbox.create();
+      await sandbox.fs.writeFile('/home/user/a.txt', 'data');
+      await sandbox.fs.setxattr('/home/user/a.txt', 'user.mime_type', 'application/json');
+      const snapshot = await sandbox.fs.exportSnapshot();
+
+      sandbox.destroy();
+      sandbox = await Sandbox.create();
+      await sandbox.fs.importSnapshot(snapshot);
+      expect(await sandbox.fs.getxattr('/home/user/a.txt', 'user.mime_type')).toBe('application/json');
+    });
+  });
+
   describe('writeFiles', () => {
     it('writes multiple files at once', async () => {
       sandbox = await Sandbox.create();
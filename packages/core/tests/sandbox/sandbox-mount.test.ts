@@ -238,6 +238,25 @@ describe('Sandbox.mountNative', () => {
     await expect(sandbox.fs.writeFile('/mnt/ro/data.txt', 'overwrite')).rejects.toThrow();
   });
 
+  it('mounts with an overlay and leaves the host untouched', async () => {
+    const { fs: mockFs } = createMockFs();
+    mockFs.mkdirSync('/hostdir', { recursive: true });
+    mockFs.writeFileSync('/hostdir/data.txt', 'original');
+
+    sandbox = await Sandbox.create();
+    const overlay = sandbox.mountNative('/mnt/ov', '/hostdir', { overlay: true, fsModule: mockFs });
+
+    await sandbox.fs.writeFile('/mnt/ov/data.txt', 'changed');
+    await sandbox.fs.writeFile('/mnt/ov/new.txt', 'new');
+    expect(await sandbox.fs.readFile('/mnt/ov/data.txt')).toBe('changed');
+    expect(new TextDecoder().decode(mockFs.readFileSync('/hostdir/data.txt'))).toBe('original');
+    expect(mockFs.existsSync('/hostdir/new.txt')).toBe(false);
+    expect('diff' in overlay && overlay.diff().map((c) => `${c.type} ${c.path}`)).toEqual([
+      'modified /data.txt',
+      'added /new.txt',
+    ]);
+  });
+
   it('lists directory contents from mounted filesystem', async () => {
     const { fs: mockFs } = createMockFs();
     mockFs.mkdirSync('/hostdir', { recursive: true });
@@ -57,6 +57,15 @@ describe('Sandbox', () => {
       expect(content).toBe('nested content');
     });
 
+    it('limits the filesystem to the given quota', async () => {
+      sandbox = await Sandbox.create({ quota: { bytes: 1024 * 1024 } });
+      await expect(sandbox.fs.writeFile('/tmp/big.bin', new Uint8Array(2 * 1024 * 1024))).rejects.toThrow(
+        'no space left on device',
+      );
+      const result = await sandbox.commands.run('df /tmp');
+      expect(result.stdout).toContain('1024');
+    });
+
     it('destroy cleans up', async () => {
       sandbox = await Sandbox.create();
       sandbox.destroy();
@@ -120,6 +129,139 @@ describe('Sandbox', () => {
     });
   });
 
+  describe('process table', () => {
+    it('gives each pipeline stage its own PID under the shell', async () => {
+      sandbox = await Sandbox.create();
+      const result = await sandbox.commands.run('sleep 0.1 | ps -ef');
+      expect(result.exitCode).toBe(0);
+      const rows = result.stdout.trim().split('\n').slice(1).map((l) => l.trim().split(/\s+/));
+      const sleep = rows.find((r) => r[7] === 'sleep');
+      const ps = rows.find((r) => r[7] === 'ps');
+      expect(sleep?.[2]).toBe('1');
+      expect(ps?.[2]).toBe('1');
+      expect(sleep?.[1]).not.toBe(ps?.[1]);
+    });
+
+    it('reaps commands after they exit', async () => {
+      sandbox = await Sandbox.create();
+      await sandbox.commands.run('ls /');
+      await sandbox.commands.run('ls / | grep tmp | wc -l');
+      const live = sandbox.kernel.processes.list().map((p) => p.argv[0]);
+      expect(live).toEqual(['sh']);
+    });
+
+    it('exposes process.pid to node scripts', async () => {
+      sandbox = await Sandbox.create();
+      const result = await sandbox.commands.run('node -e "console.log(process.pid, process.ppid)"');
+      const [pid, ppid] = result.stdout.trim().split(' ').map(Number);
+      expect(pid).toBeGreaterThan(1);
+      expect(ppid).toBe(1);
+    });
+
+    it('exposes the shell as /proc/1', async () => {
+      sandbox = await Sandbox.create();
+      const result = await sandbox.commands.run('cat /proc/1/status');
+      expect(result.stdout).toContain('Name:\tsh');
+    });
+  });
+
+  describe('users', () => {
+    it('runs as the default user, who can use sudo', async () => {
+      sandbox = await Sandbox.create();
+      expect((await sandbox.commands.run('whoami')).stdout).toBe('user\n');
+      expect((await sandbox.commands.run('touch /etc/x')).exitCode).toBe(1);
+
+      const result = await sandbox.commands.run('sudo touch /etc/x && sudo whoami && ls -l /etc/x');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^root\n-rw-r--r--  1 root root/);
+    });
+
+    it('runs an unprivileged session with the user option', async () => {
+      sandbox = await Sandbox.create({ user: 'guest' });
+      expect((await sandbox.commands.run('id')).stdout).toBe('uid=1001(guest) gid=1001(guest) groups=1001(guest)\n');
+      expect(sandbox.cwd).toBe('/home/guest');
+      expect(sandbox.env.HOME).toBe('/home/guest');
+
+      const denied = await sandbox.commands.run('echo hi > /etc/motd');
+      expect(denied.exitCode).not.toBe(0);
+      expect((await sandbox.commands.run('cat /home/user/.liforc')).exitCode).toBe(0);
+      expect((await sandbox.commands.run('ls /root')).stderr).toContain('permission denied');
+
+      const sudo = await sandbox.commands.run('sudo id');
+      expect(sudo.exitCode).toBe(1);
+      expect(sudo.stderr).toBe('guest is not in the sudoers file.\n');
+    });
+
+    it('hands pre-populated files to the session user', async () => {
+      sandbox = await Sandbox.create({ user: 'guest', files: { '/work/app/a.txt': 'a' } });
+      const result = await sandbox.commands.run('echo more >> /work/app/a.txt && touch /work/app/b.txt');
+      expect(result.exitCode).toBe(0);
+      expect(await sandbox.fs.readFile('/work/app/a.txt')).toBe('amore\n');
+    });
+
+    it('applies the session user to sandbox.fs', async () => {
+      sandbox = await Sandbox.create({ user: 'guest' });
+      await expect(sandbox.fs.writeFile('/etc/evil', 'x')).rejects.toThrow('EACCES');
+      await sandbox.fs.writeFile('notes.txt', 'x');
+      expect(sandbox.kernel.vfs.stat('/home/guest/notes.txt').uid).toBe(1001);
+    });
+
+    it('switches users with su inside sudo', async () => {
+      sandbox = await Sandbox.create();
+      const result = await sandbox.commands.run("sudo su - user -c 'pwd; whoami'", { cwd: '/tmp' });
+      expect(result.stdout).toBe('/home/user\nuser\n');
+      expect(sandbox.kernel.processes.list().map((p) => p.argv[0])).toEqual(['sh']);
+    });
+  });
+
+  describe('fork()', () => {
+    let child: Sandbox | undefined;
+
+    afterEach(() => {
+      child?.destroy();
+      child = undefined;
+    });
+
+    it('starts from the parent filesystem, env, aliases and cwd', async () => {
+      sandbox = await Sandbox.create({ env: { GREETING: 'hi' } });
+      await sandbox.fs.writeFile('/home/user/notes.txt', 'parent');
+      await sandbox.commands.run("export STAGE=two; alias say='echo said'; cd /tmp");
+
+      child = sandbox.fork();
+      expect(child.cwd).toBe('/tmp');
+      expect(await child.fs.readFile('/home/user/notes.txt')).toBe('parent');
+      const result = await child.commands.run('echo $GREETING $STAGE; say it; whoami');
+      expect(result.stdout).toBe('hi two\nsaid it\nuser\n');
+    });
+
+    it('keeps the two filesystems independent', async () => {
+      sandbox = await Sandbox.create();
+      await sandbox.fs.writeFile('/home/user/shared.txt', 'v1');
+      child = sandbox.fork();
+
+      await child.fs.writeFile('/home/user/shared.txt', 'child');
+      await child.fs.writeFile('/home/user/child-only.txt', 'c');
+      await sandbox.fs.rm('/home/user/shared.txt');
+
+      expect(await child.fs.readFile('/home/user/shared.txt')).toBe('child');
+      expect(await sandbox.fs.exists('/home/user/shared.txt')).toBe(false);
+      expect(await sandbox.fs.exists('/home/user/child-only.txt')).toBe(false);
+    });
+
+    it('has its own process table and carries registered commands over', async () => {
+      sandbox = await Sandbox.create();
+      sandbox.commands.register('greet', async (ctx) => {
+        ctx.stdout.write('hello\n');
+        return 0;
+      });
+      child = sandbox.fork();
+
+      expect((await child.commands.run('greet')).stdout).toBe('hello\n');
+      expect(child.kernel.processes).not.toBe(sandbox.kernel.processes);
+      expect((await child.commands.run('cat /proc/1/status')).stdout).toContain('Name:\tsh');
+    });
+  });
+
   describe('serialized execution', () => {
     it('queues concurrent run() calls', async () => {
       sandbox = await Sandbox.create();
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { createTestShell } from './helpers.js';
+
+describe('indexed arrays', () => {
+  it('expands elements, counts and single elements', async () => {
+    const { run } = createTestShell();
+    await run('arr=(a "b c" d)');
+    expect(await run('args "${arr[@]}"')).toBe('<a><b c><d>\n');
+    expect(await run('args "${arr[*]}"')).toBe('<a b c d>\n');
+    expect(await run('args ${#arr[@]} ${arr[1]} $arr ${arr[-1]} ${#arr[1]}')).toBe('<3><b c><a><d><3>\n');
+  });
+
+  it('evaluates subscripts as arithmetic', async () => {
+    const { run } = createTestShell();
+    expect(await run('i=1; arr=(a b c); args ${arr[i+1]} ${arr[$i]} "${arr[$((i - 1))]}"')).toBe('<c><b><a>\n');
+    expect(await run('echo $(( ${#arr[@]} - 1 ))')).toBe('2\n');
+  });
+
+  it('reads and assigns elements in arithmetic', async () => {
+    const { run } = createTestShell();
+    expect(await run('a=(1 2); i=1; echo $((a[0]+a[1])) $((a[i] * a[-1])) $((a[5]))')).toBe('3 4 0\n');
+    expect(await run('echo $((a[1]++)) $((++a[0])) $((a[i+1] = a[0] + 10)); args "${a[@]}"')).toBe('2 2 12\n<2><3><12>\n');
+    expect(await run('declare -A m=([x]=4); k=x; echo $((m[$k] - 1)) $((m[y] = 2)) ${m[y]}')).toBe('3 2 2\n');
+  });
+
+  it('assigns elements, appends and keeps sparse indices', async () => {
+    const { run } = createTestShell();
+    await run('arr=(x); arr[5]=y; arr+=(z); arr[0]+=1');
+    expect(await run('args "${!arr[@]}"')).toBe('<0><5><6>\n');
+    expect(await run('args "${arr[@]}"')).toBe('<x1><y><z>\n');
+    expect(await run('arr=("${arr[@]}" w [10]=v u); args "${!arr[@]}"')).toBe('<0><1><2><3><10><11>\n');
+  });
+
+  it('turns a scalar into element 0 and appends to scalars', async () => {
+    const { env, run } = createTestShell();
+    await run('s=ab; s+=cd; x=1; x[1]=2');
+    expect(await run('args $s "${x[@]}"')).toBe('<abcd><1><2>\n');
+    // Arrays are not exported
+    expect(env['s']).toBe('abcd');
+    expect(env['x']).toBeUndefined();
+  });
+
+  it('expands an empty array to no words at all', async () => {
+    const { run } = createTestShell();
+    await run('e=()');
+    expect(await run('args "${e[@]}" x ${e[@]}')).toBe('<x>\n');
+    expect(await run('args "${e[*]}" ${#e[@]} "x${e[@]}"')).toBe('<><0><x>\n');
+  });
+
+  it('slices arrays and positional parameters', async () => {
+    const { run } = createTestShell();
+    expect(await run('arr=(a b c d); args "${arr[@]:1:2}" "${arr[@]: -1}"')).toBe('<b><c><d>\n');
+    await run('f() { args "${@:2}"; args "$@"; args "$*" $#; args "pre$@post"; }');
+    expect(await run('f one "two three" four')).toBe(
+      '<two three><four>\n<one><two three><four>\n<one two three four><3>\n<preone><two three><fourpost>\n',
+    );
+  });
+
+  it('loops over elements and positional parameters', async () => {
+    const { run } = createTestShell();
+    expect(await run('arr=("a b" c); for x in "${arr[@]}"; do args "$x"; done')).toBe('<a b>\n<c>\n');
+    expect(await run('f() { for x; do args "$x"; done; }; f "p q" r')).toBe('<p q>\n<r>\n');
+  });
+
+  it('joins "${arr[*]}" and "$*" with the first character of IFS', async () => {
+    const { run } = createTestShell();
+    await run('arr=(a b c); f() { args "$*"; }');
+    expect(await run('IFS=,:; args "${arr[*]}"; f x y')).toBe('<a,b,c>\n<x,y>\n');
+    expect(await run('IFS=; args "${arr[*]}" ${arr[*]}')).toBe('<abc><a><b><c>\n');
+    expect(await run('unset IFS; args "${arr[*]}"')).toBe('<a b c>\n');
+  });
+
+  it('gives subshells a copy', async () => {
+    const { run } = createTestShell();
+    expect(await run('arr=(a); (arr+=(b); args "${arr[@]}"); args "${arr[@]}"')).toBe('<a><b>\n<a>\n');
+  });
+});
+
+describe('associative arrays', () => {
+  it('stores and expands values by key', async () => {
+    const { run } = createTestShell();
+    await run('declare -A m=([x]=1 ["y z"]=2); m[w]=3');
+    expect(await run('args "${!m[@]}"')).toBe('<x><y z><w>\n');
+    expect(await run('args "${m[@]}" ${#m[@]}')).toBe('<1><2><3><3>\n');
+    expect(await run('k=x; args ${m[$k]} "${m[y z]}" "${m[nope]:-none}"')).toBe('<1><2><none>\n');
+  });
+
+  it('requires subscripts and refuses to convert indexed arrays', async () => {
+    const { run } = createTestShell();
+    expect(await run('declare -A m; m=(a)')).toContain('m: a: must use subscript when assigning associative array');
+    expect(await run('arr=(1); declare -A arr')).toContain('arr: cannot convert indexed to associative array');
+  });
+});
+
+describe('declare and unset', () => {
+  it('prints variables with declare -p', async () => {
+    const { run } = createTestShell();
+    await run('arr=(a \'b"c\'); declare -A m=([k]=v); s=1');
+    expect(await run('declare -p arr m s')).toBe(
+      'declare -a arr=([0]="a" [1]="b\\"c")\ndeclare -A m=([k]="v")\ndeclare -x s="1"\n',
+    );
+    expect(await run('declare -p nope')).toBe('declare: nope: not found\n');
+  });
+
+  it('makes variables declared in a function local to the call', async () => {
+    const { run } = createTestShell();
+    await run('x=outer; arr=(a); f() { declare x=inner; local -a arr=(b c); declare -g y=global; g; }; g() { args "$x" "${arr[@]}"; }');
+    expect(await run('f; args "$x" "${arr[@]}" "$y"')).toBe('<inner><b><c>\n<outer><a><global>\n');
+  });
+
+  it('starts a local unset, but lets its value use the variable outside', async () => {
+    const { run } = createTestShell();
+    await run('x=5; f() { local x=$x; x+=1; local y; args "$x" "$y"; unset x; }; y=1');
+    expect(await run('f; args "$x" "$y"')).toBe('<51><>\n<5><1>\n');
+    expect(await run('local z=1')).toBe('local: can only be used in a function\n');
+  });
+
+  it('removes variables, elements and functions', async () => {
+    const { run } = createTestShell();
+    await run('arr=(a b c); s=1; f() { echo f; }');
+    await run("unset 'arr[1]' s; unset -f f");
+    expect(await run('args "${!arr[@]}" "${arr[@]}" "$s"; f')).toBe('<0><2><a><c><>\nf: command not found\n');
+    await run('unset arr');
+    expect(await run('args ${#arr[@]}')).toBe('<0>\n');
+  });
+});
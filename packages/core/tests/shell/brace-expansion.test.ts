@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { createTestShell } from './helpers.js';
+
+describe('brace expansion', () => {
+  it('expands comma lists with a preamble and postscript', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo a{b,c,d}e')).toBe('abe ace ade\n');
+    expect(await run('echo file.{txt,md} x')).toBe('file.txt file.md x\n');
+    expect(await run('echo a{,b}')).toBe('a ab\n');
+  });
+
+  it('expands nested and adjacent braces in order', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo {a,b{1,2}}x')).toBe('ax b1x b2x\n');
+    expect(await run('echo {a,b}{1,2}')).toBe('a1 a2 b1 b2\n');
+  });
+
+  it('expands numeric sequences with a step', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo {1..5}')).toBe('1 2 3 4 5\n');
+    expect(await run('echo {5..1}')).toBe('5 4 3 2 1\n');
+    expect(await run('echo {1..10..3}')).toBe('1 4 7 10\n');
+    expect(await run('echo {10..1..-4}')).toBe('10 6 2\n');
+    expect(await run('echo {-2..2}')).toBe('-2 -1 0 1 2\n');
+  });
+
+  it('keeps zero padding in sequences', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo {01..10..3}')).toBe('01 04 07 10\n');
+    expect(await run('echo {1..010..4}')).toBe('001 005 009\n');
+  });
+
+  it('expands letter sequences', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo {a..e}')).toBe('a b c d e\n');
+    expect(await run('echo {a..z..5}')).toBe('a f k p u z\n');
+    expect(await run('echo {C..A}')).toBe('C B A\n');
+  });
+
+  it('leaves braces without a list or valid sequence alone', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo {} {a} {a..} {1..b} {a,b')).toBe('{} {a} {a..} {1..b} {a,b\n');
+    expect(await run('echo {a{b,c}')).toBe('{ab {ac\n');
+  });
+
+  it('does not expand quoted or escaped braces', async () => {
+    const { run } = createTestShell('/tmp');
+    expect(await run('echo "{a,b}" \'{1..3}\' \\{x,y\\}')).toBe('{a,b} {1..3} {x,y}\n');
+    expect(await run('echo {"a b",c}')).toBe('a b c\n');
+  });
+
+  it('runs before parameter expansion and leaves ${...} alone', async () => {
+    const { env, run } = createTestShell('/tmp');
+    env['X'] = 'one';
+    env['LIST'] = 'a,b';
+    expect(await run('echo {$X,two}')).toBe('one two\n');
+    expect(await run('echo {$LIST}')).toBe('{a,b}\n');
+    expect(await run('echo ${X}{1,2} ${UNSET:-{p,q}}')).toBe('one1 one2 {p,q}\n');
+  });
+
+  it('creates directory trees and drives for loops', async () => {
+    const { vfs, run } = createTestShell('/tmp');
+    await run('mkdir -p src/{lib,bin/{a,b}}');
+    expect(vfs.readdir('/tmp/src').map((e) => e.name).sort()).toEqual(['bin', 'lib']);
+    expect(vfs.readdir('/tmp/src/bin').map((e) => e.name).sort()).toEqual(['a', 'b']);
+
+    expect(await run('for i in {1..3}; do echo -$i; done')).toBe('-1\n-2\n-3\n');
+  });
+});
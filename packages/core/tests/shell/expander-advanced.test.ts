@@ -158,6 +158,13 @@ describe('arithmetic expansion', () => {
     expect(env['x']).toBe('5');
   });
 
+  it('increments and decrements before or after reading', async () => {
+    const { interpreter, env, getOutput } = createTestShell();
+    env['n'] = '5';
+    await interpreter.executeLine('echo $((++n)) $((n++)) $((--n)) $((n--)) $n');
+    expect(getOutput().trim()).toBe('6 6 6 6 5');
+  });
+
   it('handles unset variables as 0', async () => {
     const { interpreter, getOutput } = createTestShell();
     await interpreter.executeLine('echo $((unset_var + 3))');
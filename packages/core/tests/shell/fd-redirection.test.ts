@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Shell } from '../../src/shell/Shell.js';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { createDefaultRegistry } from '../../src/commands/registry.js';
+
+function createMockTerminal() {
+  return {
+    write() {},
+    writeln() {},
+    onData() {},
+    get cols() { return 80; },
+    get rows() { return 24; },
+    focus() {},
+    clear() {},
+  };
+}
+
+describe('file descriptor redirection', () => {
+  let vfs: VFS;
+  let shell: Shell;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.mkdir('/tmp');
+    const registry = createDefaultRegistry();
+    registry.register('both', async (ctx) => {
+      ctx.stdout.write('out\n');
+      ctx.stderr.write('err\n');
+      return 0;
+    });
+    shell = new Shell(createMockTerminal() as never, vfs, registry, { HOME: '/home/user', USER: 'user' });
+  });
+
+  it('sends stderr down a pipe with 2>&1', async () => {
+    const result = await shell.execute('both 2>&1 | cat');
+    expect(result.stdout).toBe('out\nerr\n');
+    expect(result.stderr).toBe('');
+  });
+
+  it('applies redirections left to right', async () => {
+    const first = await shell.execute('both > /tmp/a 2>&1');
+    expect(vfs.readFileString('/tmp/a')).toBe('out\nerr\n');
+    expect(first.stdout + first.stderr).toBe('');
+
+    const second = await shell.execute('both 2>&1 > /tmp/b');
+    expect(vfs.readFileString('/tmp/b')).toBe('out\n');
+    expect(second.stdout).toBe('err\n');
+  });
+
+  it('writes to stderr with >&2 and 1>&2', async () => {
+    expect(await shell.execute('echo oops >&2')).toMatchObject({ stdout: '', stderr: 'oops\n' });
+    expect(await shell.execute('echo again 1>&2')).toMatchObject({ stdout: '', stderr: 'again\n' });
+  });
+
+  it('opens and duplicates fds above 2', async () => {
+    await shell.execute('echo three 3> /tmp/three >&3');
+    expect(vfs.readFileString('/tmp/three')).toBe('three\n');
+
+    vfs.writeFile('/tmp/in', 'from fd 3\n');
+    expect((await shell.execute('cat 3< /tmp/in <&3')).stdout).toBe('from fd 3\n');
+    expect((await shell.execute('cat /dev/fd/4 4< /tmp/in')).stdout).toBe('from fd 3\n');
+  });
+
+  it('closes fds with >&-', async () => {
+    const closed = await shell.execute('both >&- 2>&-');
+    expect(closed.stdout + closed.stderr).toBe('');
+
+    const result = await shell.execute('both 2>&- 1>&2');
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('EBADF');
+  });
+
+  it('fails on an fd that is not open', async () => {
+    const result = await shell.execute('echo x >&5');
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('5: bad file descriptor');
+  });
+
+  it('keeps fds opened with exec for later commands', async () => {
+    await shell.execute('exec 3> /tmp/log');
+    await shell.execute('echo one >&3');
+    await shell.execute('both 2>&3');
+    expect(vfs.readFileString('/tmp/log')).toBe('one\nerr\n');
+
+    await shell.execute('exec 3>&-');
+    expect((await shell.execute('echo two >&3')).stderr).toContain('bad file descriptor');
+    expect(vfs.readFileString('/tmp/log')).toBe('one\nerr\n');
+  });
+
+  it('redirects the shell\'s own stderr with exec 2>&1', async () => {
+    await shell.execute('exec 2>&1');
+    expect(await shell.execute('both')).toMatchObject({ stdout: 'out\nerr\n', stderr: '' });
+  });
+
+  it('applies redirections of compound commands to every command inside', async () => {
+    expect((await shell.execute('{ echo b >&2; echo a; } 2>/tmp/g')).stdout).toBe('a\n');
+    expect(vfs.readFileString('/tmp/g')).toBe('b\n');
+
+    await shell.execute('for i in 1 2; do echo $i; done > /tmp/for');
+    expect(vfs.readFileString('/tmp/for')).toBe('1\n2\n');
+    await shell.execute('if true; then both; fi 2>/tmp/if; case x in x) echo c;; esac >> /tmp/if');
+    expect(vfs.readFileString('/tmp/if')).toBe('err\nc\n');
+  });
+
+  it('feeds a loop from its < redirection', async () => {
+    vfs.writeFile('/tmp/in', 'line one\nline two\n');
+    expect((await shell.execute('while true; do cat; break; done < /tmp/in')).stdout).toBe('line one\nline two\n');
+    expect((await shell.execute('n=0; until [ $n = 1 ]; do wc -l; n=1; done < /tmp/in')).stdout.trim()).toBe('2');
+  });
+
+  it('sends a compound command\'s stderr down a pipe with 2>&1', async () => {
+    expect(await shell.execute('{ both; } 2>&1 | sort')).toMatchObject({ stdout: 'err\nout\n', stderr: '' });
+  });
+
+  it('gives a function call the caller\'s fds, redirections and pipes', async () => {
+    await shell.execute('f() { both; }; up() { tr a-z A-Z; }');
+    expect((await shell.execute('f 2>/tmp/fe')).stdout).toBe('out\n');
+    expect(vfs.readFileString('/tmp/fe')).toBe('err\n');
+    expect(await shell.execute('f 2>&1 | cat')).toMatchObject({ stdout: 'out\nerr\n', stderr: '' });
+    expect((await shell.execute('echo in | up')).stdout).toBe('IN\n');
+    expect((await shell.execute('f 2>/tmp/fe | up')).stdout).toBe('OUT\n');
+  });
+
+  it('applies the redirections of a function definition on each call', async () => {
+    await shell.execute('log() { echo "$1"; } >> /tmp/log; log one; log two');
+    expect(vfs.readFileString('/tmp/log')).toBe('one\ntwo\n');
+  });
+
+  it('runs a command given to exec', async () => {
+    expect((await shell.execute('exec echo hi')).stdout).toBe('hi\n');
+  });
+});
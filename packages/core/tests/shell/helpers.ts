@@ -0,0 +1,47 @@
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { createDefaultRegistry } from '../../src/commands/registry.js';
+import { Interpreter, type BuiltinFn } from '../../src/shell/interpreter.js';
+import { JobTable } from '../../src/shell/jobs.js';
+
+/**
+ * An interpreter over a fresh VFS with /tmp, the default commands and
+ * `echo` and `args` builtins. `run` executes a line and returns what it
+ * wrote to the terminal.
+ */
+export function createTestShell(cwd = '/') {
+  const vfs = new VFS();
+  vfs.mkdir('/tmp');
+  const env: Record<string, string> = { HOME: '/home/user', USER: 'user' };
+  let output = '';
+  const builtins = new Map<string, BuiltinFn>();
+
+  builtins.set('echo', async (args, stdout) => {
+    stdout.write(args.join(' ') + '\n');
+    return 0;
+  });
+
+  // Shows each argument on its own, to tell "a b" from a and b
+  builtins.set('args', async (args, stdout) => {
+    stdout.write(args.map((arg) => `<${arg}>`).join('') + '\n');
+    return 0;
+  });
+
+  const interpreter = new Interpreter({
+    env,
+    getCwd: () => cwd,
+    setCwd: (c) => { cwd = c; },
+    vfs,
+    registry: createDefaultRegistry(),
+    builtins,
+    jobTable: new JobTable(),
+    writeToTerminal: (text) => { output += text; },
+  });
+
+  const run = async (line: string) => {
+    output = '';
+    await interpreter.executeLine(line);
+    return output;
+  };
+
+  return { vfs, env, interpreter, run };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createTestShell } from './helpers.js';
+
+describe('here-documents', () => {
+  it('feeds the body to stdin, expanding variables and commands', async () => {
+    const { env, run } = createTestShell();
+    env['NAME'] = 'world';
+    expect(await run('cat <<EOF\nhello $NAME\nsum $((1 + 2)), $(echo sub)\n"quoted" \\$NAME\nEOF')).toBe('hello world\nsum 3, sub\n"quoted" $NAME\n');
+  });
+
+  it('leaves the body alone when the delimiter is quoted', async () => {
+    const { run } = createTestShell();
+    expect(await run("cat <<'EOF'\n$HOME `x` \\$\nEOF")).toBe('$HOME `x` \\$\n');
+  });
+
+  it('strips leading tabs with <<-', async () => {
+    const { run } = createTestShell();
+    expect(await run('cat <<-END\n\t\tone\n\t  two\n\tEND')).toBe('one\n  two\n');
+  });
+
+  it('writes a here-document to a file', async () => {
+    const { vfs, run } = createTestShell();
+    await run('cat > /tmp/conf <<EOF\nkey=value\nEOF\necho done > /tmp/after');
+    expect(vfs.readFileString('/tmp/conf')).toBe('key=value\n');
+    expect(vfs.readFileString('/tmp/after')).toBe('done\n');
+  });
+
+  it('handles several here-documents on one line', async () => {
+    const { run } = createTestShell();
+    expect(await run('cat <<A; cat <<B\nfirst\nA\nsecond\nB')).toBe('first\nsecond\n');
+  });
+
+  it('pipes a here-document into the next command', async () => {
+    const { run } = createTestShell();
+    expect((await run('cat <<EOF | wc -l\na\nb\nc\nEOF')).trim()).toBe('3');
+  });
+
+  it('expands the body each time inside loops and functions', async () => {
+    const { run } = createTestShell();
+    expect(await run('for x in a b\ndo\n  cat <<EOF\nitem $x\nEOF\ndone')).toBe('item a\nitem b\n');
+    expect(await run('greet() {\n  cat <<EOF\nhi $1\nEOF\n}\ngreet ann; greet bob')).toBe('hi ann\nhi bob\n');
+  });
+
+  it('takes the rest of the input as the body without a delimiter line', async () => {
+    const { run } = createTestShell();
+    expect(await run('cat <<EOF\nno end')).toBe('no end\n');
+  });
+});
+
+describe('here-strings', () => {
+  it('feeds the expanded word and a newline to stdin', async () => {
+    const { env, run } = createTestShell();
+    env['V'] = 'a  b';
+    expect(await run('cat <<< "$V"')).toBe('a  b\n');
+    expect((await run('wc -c <<< abc')).trim()).toBe('4');
+  });
+});
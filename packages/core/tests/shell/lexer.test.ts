@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { lex } from '../../src/shell/lexer.js';
+import { lex, hasOpenHeredoc } from '../../src/shell/lexer.js';
 import { TokenKind } from '../../src/shell/types.js';
 
 function kinds(input: string): TokenKind[] {
@@ -73,6 +73,75 @@ describe('lexer', () => {
         TokenKind.Word, TokenKind.RedirectAll, TokenKind.Word, TokenKind.EOF,
       ]);
     });
+
+    it('lexes fd duplication and closing', () => {
+      expect(values('cmd 2>&1 >&2 <&-')).toEqual(['cmd', '2>&', '1', '>&', '2', '<&', '-']);
+      expect(kinds('cmd 2>&1')).toEqual([TokenKind.Word, TokenKind.DupOut, TokenKind.Word, TokenKind.EOF]);
+      expect(kinds('cmd <&3')).toEqual([TokenKind.Word, TokenKind.DupIn, TokenKind.Word, TokenKind.EOF]);
+    });
+
+    it('lexes redirections of explicit fds', () => {
+      expect(lex('cmd 3> log 10>> more 0< in').map((t) => [t.kind, t.value]).slice(1, -1)).toEqual([
+        [TokenKind.RedirectOut, '3>'], [TokenKind.Word, 'log'],
+        [TokenKind.RedirectAppend, '10>>'], [TokenKind.Word, 'more'],
+        [TokenKind.RedirectIn, '0<'], [TokenKind.Word, 'in'],
+      ]);
+    });
+
+    it('keeps digits that end a word in the word', () => {
+      expect(values('echo a2>f')).toEqual(['echo', 'a2', '>', 'f']);
+      expect(values('echo 3 > f')).toEqual(['echo', '3', '>', 'f']);
+    });
+  });
+
+  describe('here-documents', () => {
+    it('lexes << with its delimiter and takes the body from the next lines', () => {
+      const tokens = lex('cat <<EOF\nline 1\nline 2\nEOF\necho after');
+      expect(tokens.map((t) => t.kind)).toEqual([
+        TokenKind.Word, TokenKind.HereDoc, TokenKind.Word, TokenKind.Newline,
+        TokenKind.Word, TokenKind.Word, TokenKind.EOF,
+      ]);
+      expect(tokens[1].heredoc).toEqual([{ text: 'line 1\nline 2\n', quoted: 'double' }]);
+      expect(tokens[5].value).toBe('after');
+    });
+
+    it('keeps the body of a quoted delimiter literal', () => {
+      expect(lex("cat <<'EOF'\n$HOME\nEOF")[1].heredoc).toEqual([{ text: '$HOME\n', quoted: 'single' }]);
+      expect(lex('cat <<"EOF"\n$HOME\nEOF')[1].heredoc).toEqual([{ text: '$HOME\n', quoted: 'single' }]);
+      expect(lex('cat <<\\EOF\n$HOME\nEOF')[1].heredoc).toEqual([{ text: '$HOME\n', quoted: 'single' }]);
+    });
+
+    it('strips leading tabs with <<-', () => {
+      const tokens = lex('cat <<-EOF\n\tindented\n\t\tEOF\n');
+      expect(tokens[1].value).toBe('<<-');
+      expect(tokens[1].heredoc).toEqual([{ text: 'indented\n', quoted: 'double' }]);
+    });
+
+    it('reads several here-documents on one line in order', () => {
+      const tokens = lex('cat <<A; cat <<B\nfirst\nA\nsecond\nB\n');
+      const docs = tokens.filter((t) => t.kind === TokenKind.HereDoc);
+      expect(docs.map((t) => t.heredoc?.[0].text)).toEqual(['first\n', 'second\n']);
+    });
+
+    it('makes escaped $ and backslash literal in an expanded body', () => {
+      expect(lex('cat <<EOF\ncost \\$5 "$x"\nEOF')[1].heredoc).toEqual([
+        { text: 'cost ', quoted: 'double' },
+        { text: '$', quoted: 'single' },
+        { text: '5 "$x"\n', quoted: 'double' },
+      ]);
+    });
+
+    it('lexes <<< as a here-string', () => {
+      expect(kinds('cat <<< word')).toEqual([TokenKind.Word, TokenKind.HereString, TokenKind.Word, TokenKind.EOF]);
+    });
+
+    it('reports input that ends inside a here-document', () => {
+      expect(hasOpenHeredoc('cat <<EOF')).toBe(true);
+      expect(hasOpenHeredoc('cat <<EOF\nhello')).toBe(true);
+      expect(hasOpenHeredoc('cat <<EOF\nhello\nEOF')).toBe(false);
+      expect(hasOpenHeredoc('cat <<< word')).toBe(false);
+      expect(hasOpenHeredoc('echo "<<EOF"')).toBe(false);
+    });
   });
 
   describe('chaining operators', () => {
@@ -130,6 +199,14 @@ describe('lexer', () => {
     it('handles escaped special chars', () => {
       expect(values('echo \\|')).toEqual(['echo', '|']);
     });
+
+    it('keeps escaped chars as quoted parts', () => {
+      expect(lex('echo a\\*b')[1].parts).toEqual([
+        { text: 'a', quoted: 'none' },
+        { text: '*', quoted: 'single' },
+        { text: 'b', quoted: 'none' },
+      ]);
+    });
   });
 
   describe('comments', () => {
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { lex } from '../../src/shell/lexer.js';
 import { parse } from '../../src/shell/parser.js';
-import type { SimpleCommandNode } from '../../src/shell/types.js';
+import type { SimpleCommandNode, SubshellNode } from '../../src/shell/types.js';
 
 function p(input: string) {
   return parse(lex(input));
@@ -128,6 +128,31 @@ describe('parser', () => {
       const c = cmd('cmd > out 2> err');
       expect(c.redirections).toHaveLength(2);
     });
+
+    it('parses a here-document with its body as the target', () => {
+      const c = cmd('cat <<EOF > out\nhello\nEOF');
+      expect(c.words).toHaveLength(1);
+      expect(c.redirections.map((r) => r.operator)).toEqual(['<<', '>']);
+      expect(c.redirections[0].target).toEqual([{ text: 'hello\n', quoted: 'double' }]);
+    });
+
+    it('parses redirections of explicit fds', () => {
+      const c = cmd('cmd 3> log 2>&1 >&- 2> err');
+      expect(c.redirections.map(({ operator, fd }) => ({ operator, fd }))).toEqual([
+        { operator: '>', fd: 3 },
+        { operator: '>&', fd: 2 },
+        { operator: '>&', fd: undefined },
+        { operator: '2>', fd: undefined },
+      ]);
+      expect(c.redirections[1].target[0].text).toBe('1');
+      expect(c.redirections[2].target[0].text).toBe('-');
+    });
+
+    it('parses a here-string', () => {
+      const c = cmd('cat <<< "a b"');
+      expect(c.redirections[0].operator).toBe('<<<');
+      expect(c.redirections[0].target).toEqual([{ text: 'a b', quoted: 'double' }]);
+    });
   });
 
   describe('assignments', () => {
@@ -143,6 +168,46 @@ describe('parser', () => {
       expect(c.assignments).toHaveLength(1);
       expect(c.words).toHaveLength(0);
     });
+
+    it('parses array literals, elements and appends', () => {
+      const c = cmd('arr=(a [3]="b c"\n d) arr[i+1]=x n+=1 arr+=(e)');
+      expect(c.assignments).toHaveLength(4);
+      expect(c.assignments[0].elements!.map((e) => e.subscript)).toEqual([undefined, '3', undefined]);
+      expect(c.assignments[0].elements![1].value[0].text).toBe('b c');
+      expect(c.assignments[1]).toMatchObject({ name: 'arr', subscript: 'i+1' });
+      expect(c.assignments[2]).toMatchObject({ name: 'n', append: true });
+      expect(c.assignments[3]).toMatchObject({ name: 'arr', append: true });
+    });
+
+    it('parses declare arguments as assignments', () => {
+      const c = cmd('declare -A m=([k]=v) plain');
+      expect(c.words.map((w) => w[0].text)).toEqual(['declare', '-A', 'plain']);
+      expect(c.declarations!.map((d) => d.name)).toEqual(['m']);
+      expect(c.declarations![0].elements![0].subscript).toBe('k');
+      expect(cmd('local x=1').declarations!.map((d) => d.name)).toEqual(['x']);
+    });
+  });
+
+  describe('subshells', () => {
+    it('parses a subshell with its redirections', () => {
+      const sub = p('(cd /tmp && ls; pwd) > out | cat').lists[0].entries[0].pipeline.commands[0] as SubshellNode;
+      expect(sub.type).toBe('subshell');
+      expect(sub.body).toHaveLength(2);
+      expect(sub.body[0].entries).toHaveLength(2);
+      expect(sub.redirections[0].operator).toBe('>');
+    });
+
+    it('parses nested subshells', () => {
+      const outer = cmd('( (echo a) ; echo b )') as unknown as SubshellNode;
+      const inner = outer.body[0].entries[0].pipeline.commands[0];
+      expect(inner.type).toBe('subshell');
+    });
+
+    it('rejects an empty subshell and a ( after words', () => {
+      expect(() => p('()')).toThrow("unexpected token ')'");
+      expect(() => p('console.log("hi")')).toThrow("unexpected token '('");
+      expect(() => p('(echo a')).toThrow();
+    });
   });
 
   describe('combined complex input', () => {
@@ -140,13 +140,14 @@ describe('Shell', () => {
   describe('redirects', () => {
     let terminal: ReturnType<typeof createMockTerminal>;
     let vfs: VFS;
+    let registry: ReturnType<typeof createDefaultRegistry>;
 
     beforeEach(() => {
       terminal = createMockTerminal();
       vfs = new VFS();
       vfs.mkdir('/home/user', { recursive: true });
       vfs.mkdir('/tmp');
-      const registry = createDefaultRegistry();
+      registry = createDefaultRegistry();
       const shell = new Shell(terminal as never, vfs, registry, { HOME: '/home/user', USER: 'user', HOSTNAME: 'test' });
       shell.start();
       terminal.clearOutput();
@@ -178,6 +179,90 @@ describe('Shell', () => {
       await sendLine('cat < /tmp/in.txt');
       expect(terminal.getOutputText()).toContain('file content');
     });
+
+    it('keeps every write a command makes to > file', async () => {
+      registry.register('twice', async (ctx) => {
+        ctx.stdout.write('one\n');
+        ctx.stderr.write('oops\n');
+        ctx.stdout.write('two\n');
+        return 0;
+      });
+      vfs.writeFile('/tmp/out.txt', 'a longer line that was here before\n');
+      await sendLine('twice > /tmp/out.txt');
+      expect(vfs.readFileString('/tmp/out.txt')).toBe('one\ntwo\n');
+
+      await sendLine('twice &> /tmp/both.txt');
+      expect(vfs.readFileString('/tmp/both.txt')).toBe('one\noops\ntwo\n');
+    });
+
+    it('connects a background writer to a reader through a FIFO', async () => {
+      await sendLine('mkfifo /tmp/p');
+      await sendLine('echo through the fifo > /tmp/p &');
+      terminal.clearOutput();
+      await sendLine('cat < /tmp/p');
+      expect(terminal.getOutputText()).toContain('through the fifo');
+    });
+
+    it('blocks a FIFO reader until a writer opens it', async () => {
+      await sendLine('mkfifo /tmp/p');
+      await sendLine('wc -l < /tmp/p > /tmp/count &');
+      expect(vfs.exists('/tmp/count')).toBe(false);
+      await sendLine('seq 3 > /tmp/p');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(vfs.readFileString('/tmp/count').trim()).toBe('3');
+    });
+
+    it('reads a FIFO named as an operand', async () => {
+      await sendLine('mkfifo /tmp/p');
+      await sendLine('seq 3 > /tmp/p &');
+      terminal.clearOutput();
+      await sendLine('cat /tmp/p');
+      expect(terminal.getOutputText()).toContain('1\r\n2\r\n3');
+
+      await sendLine('head -n 2 /tmp/p > /tmp/head &');
+      expect(vfs.exists('/tmp/head')).toBe(true);
+      expect(vfs.readFileString('/tmp/head')).toBe('');
+      await sendLine('seq 5 > /tmp/p');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(vfs.readFileString('/tmp/head')).toBe('1\n2\n');
+    });
+
+    it('redirects to /dev/stderr and /dev/tty', async () => {
+      await sendLine('echo oops 2> /tmp/err.txt > /dev/stderr');
+      expect(vfs.readFileString('/tmp/err.txt')).toBe('oops\n');
+
+      await sendLine('echo seen > /dev/tty 2> /dev/null');
+      expect(terminal.getOutputText()).toContain('seen');
+    });
+
+    it('reads the command\'s own stdin through /dev/stdin and /dev/fd/0', async () => {
+      vfs.writeFile('/tmp/in.txt', 'from file\n');
+      await sendLine('echo piped | cat /dev/stdin > /tmp/a.txt');
+      expect(vfs.readFileString('/tmp/a.txt')).toBe('piped\n');
+      await sendLine('cat /dev/fd/0 < /tmp/in.txt > /tmp/b.txt');
+      expect(vfs.readFileString('/tmp/b.txt')).toBe('from file\n');
+    });
+
+    it('lets commands write to /dev/stdout as a file', async () => {
+      await sendLine('echo twice | tee /dev/stdout > /tmp/out.txt');
+      expect(vfs.readFileString('/tmp/out.txt')).toBe('twice\ntwice\n');
+    });
+
+    it('prompts for the lines of a here-document', async () => {
+      await sendLine('cat > /tmp/doc.txt <<-EOF');
+      expect(terminal.getOutputText()).toContain('> ');
+      await sendLine('\tindented');
+      await sendLine('  spaced');
+      await sendLine('EOF');
+      expect(vfs.readFileString('/tmp/doc.txt')).toBe('indented\n  spaced\n');
+    });
+
+    it('runs here-documents in sourced files', async () => {
+      vfs.writeFile('/tmp/script.sh', 'cat > /tmp/gen.txt <<EOF\nhome=$HOME\nEOF\necho ok > /tmp/ok.txt\n');
+      await sendLine('source /tmp/script.sh');
+      expect(vfs.readFileString('/tmp/gen.txt')).toBe('home=/home/user\n');
+      expect(vfs.readFileString('/tmp/ok.txt')).toBe('ok\n');
+    });
   });
 
   describe('variable expansion', () => {
@@ -430,6 +515,18 @@ describe('Shell', () => {
     });
   });
 
+  describe('process table', () => {
+    it('reaps a command that fails before it starts running', async () => {
+      const registry = createDefaultRegistry();
+      registry.resolve = async () => { throw new Error('lookup failed'); };
+      const shell = new Shell(createMockTerminal() as never, new VFS(), registry, { HOME: '/', USER: 'user' });
+
+      const result = await shell.execute('anything');
+      expect(result.stderr).toContain('lookup failed');
+      expect(shell.getProcessTable().list().map((p) => p.pid)).toEqual([shell.getPid()]);
+    });
+  });
+
   describe('history expansion', () => {
     let terminal: ReturnType<typeof createMockTerminal>;
     let vfs: VFS;
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Shell } from '../../src/shell/Shell.js';
+import { VFS } from '../../src/kernel/vfs/index.js';
+import { createDefaultRegistry } from '../../src/commands/registry.js';
+
+function createMockTerminal() {
+  return {
+    write() {},
+    writeln() {},
+    onData() {},
+    get cols() { return 80; },
+    get rows() { return 24; },
+    focus() {},
+    clear() {},
+  };
+}
+
+describe('subshells', () => {
+  let vfs: VFS;
+  let shell: Shell;
+
+  beforeEach(() => {
+    vfs = new VFS();
+    vfs.mkdir('/home/user', { recursive: true });
+    vfs.mkdir('/tmp');
+    const registry = createDefaultRegistry();
+    // Prints the parent of the process it runs as
+    registry.register('ppid', async (ctx) => {
+      ctx.stdout.write(`${shell.getProcessTable().get(ctx.pid!)!.ppid}\n`);
+      return 0;
+    });
+    shell = new Shell(createMockTerminal() as never, vfs, registry, { HOME: '/home/user', USER: 'user' });
+  });
+
+  it('keeps cd inside the subshell', async () => {
+    expect((await shell.execute('(cd /tmp && pwd); pwd')).stdout).toBe('/tmp\n/home/user\n');
+    expect(shell.getCwd()).toBe('/home/user');
+  });
+
+  it('starts from the shell\'s variables and functions without changing them', async () => {
+    const result = await shell.execute(
+      'X=1; f() { echo outer $X; }; (f; X=2; export Y=3; f() { echo inner; }; f; echo $X); f; echo "[$Y]"',
+    );
+    expect(result.stdout).toBe('outer 1\ninner\n2\nouter 1\n[]\n');
+  });
+
+  it('keeps aliases defined inside the subshell', async () => {
+    await shell.execute('alias hi="echo hi"; (alias bye="echo bye"; unalias hi)');
+    expect([...shell.getAliases().keys()]).toEqual(['hi']);
+  });
+
+  it('returns the exit status of the last command and applies redirections', async () => {
+    expect((await shell.execute('(true; false)')).exitCode).toBe(1);
+    await shell.execute('(echo a; echo b >&2) > /tmp/out 2>&1');
+    expect(vfs.readFileString('/tmp/out')).toBe('a\nb\n');
+  });
+
+  it('reads from and writes to pipes', async () => {
+    vfs.writeFile('/tmp/list', 'b\na\n');
+    expect((await shell.execute('cat /tmp/list | (sort; echo end) | cat')).stdout).toBe('a\nb\nend\n');
+  });
+
+  it('runs compound commands in a pipeline as subshells', async () => {
+    const result = await shell.execute('for i in 3 1 2; do LAST=$i; echo $i; done | sort; echo "[$LAST]"');
+    expect(result.stdout).toBe('1\n2\n3\n[]\n');
+    expect((await shell.execute('echo x | if true; then cat; fi')).stdout).toBe('x\n');
+  });
+
+  it('runs simple commands and function calls in a pipeline as subshells', async () => {
+    expect((await shell.execute('f() { g=9; }; f | cat; echo "[$g]"')).stdout).toBe('[]\n');
+    expect((await shell.execute('cd /tmp | cat; x=1 | cat; pwd; echo "[$x]"')).stdout).toBe('/home/user\n[]\n');
+  });
+
+  it('runs command substitution in a subshell', async () => {
+    const result = await shell.execute('x=$(cd /tmp; Y=1; pwd); echo "$x [$Y]"; pwd');
+    expect(result.stdout).toBe('/tmp []\n/home/user\n');
+    expect((await shell.execute('echo $(if true; then echo yes; fi)')).stdout).toBe('yes\n');
+  });
+
+  it('ends only the subshell on break', async () => {
+    expect((await shell.execute('for i in 1 2; do (break); echo $i; done')).stdout).toBe('1\n2\n');
+  });
+
+  it('stops the subshell on exit and makes its argument the status', async () => {
+    expect((await shell.execute('(echo a; exit 2; echo b); echo $?')).stdout).toBe('a\n2\n');
+    expect((await shell.execute('(exit 3); echo $?; (false; exit); echo $?')).stdout).toBe('3\n1\n');
+    expect((await shell.execute('f() { (exit 4; echo no); echo $?; }; f; echo $(echo in; exit 5; echo out)')).stdout).toBe('4\nin\n');
+  });
+
+  it('gives the subshell a process of its own in $BASHPID', async () => {
+    const pid = String(shell.getPid());
+    expect((await shell.execute('echo $BASHPID')).stdout).toBe(`${pid}\n`);
+
+    const [sub, parent] = (await shell.execute('(echo $BASHPID; ppid)')).stdout.trim().split('\n');
+    expect(sub).not.toBe(pid);
+    expect(parent).toBe(sub);
+    expect(shell.getProcessTable().get(Number(sub))).toBeUndefined();
+  });
+
+  it('sets $SHLVL one deeper than the shell that started it', async () => {
+    expect((await shell.execute('echo $SHLVL; (echo $SHLVL)')).stdout).toBe('1\n1\n');
+    const nested = new Shell(createMockTerminal() as never, vfs, createDefaultRegistry(), { SHLVL: '1' });
+    expect((await nested.execute('echo $SHLVL')).stdout).toBe('2\n');
+  });
+});
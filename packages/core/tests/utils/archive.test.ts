@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { crc32, createTar, parseTar, createZip, parseZip } from '../../src/utils/archive.js';
+import { crc32, createTar, parseTar, createZip, parseZip, collectFiles } from '../../src/utils/archive.js';
 import { encode } from '../../src/utils/encoding.js';
+import { VFS } from '../../src/kernel/vfs/index.js';
 
 describe('crc32', () => {
   it('produces correct checksum for empty data', () => {
@@ -78,6 +79,54 @@ describe('tar', () => {
 
     expect(parsed[0].path).toBe('root/file.txt');
   });
+
+  it('round-trips symlinks and hard links', () => {
+    const entries = [
+      { path: 'a.txt', data: encode('aaa'), type: 'file' as const, mode: 0o644, mtime: Date.now() },
+      { path: 'sym', data: new Uint8Array(0), type: 'symlink' as const, mode: 0o777, mtime: Date.now(), linkTarget: 'a.txt' },
+      { path: 'hard', data: new Uint8Array(0), type: 'link' as const, mode: 0o644, mtime: Date.now(), linkTarget: 'a.txt' },
+    ];
+
+    const parsed = parseTar(createTar(entries));
+
+    expect(parsed[1].type).toBe('symlink');
+    expect(parsed[1].linkTarget).toBe('a.txt');
+    expect(parsed[2].type).toBe('link');
+    expect(parsed[2].linkTarget).toBe('a.txt');
+    expect(parsed[2].data.length).toBe(0);
+  });
+
+  it('collectFiles records links instead of following them', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/src');
+    vfs.writeFile('/src/a.txt', 'aaa');
+    vfs.symlink('a.txt', '/src/sym');
+    vfs.link('/src/a.txt', '/src/hard');
+
+    const entries = collectFiles(vfs, '/', ['src']);
+    const sym = entries.find((e) => e.path === 'src/sym');
+    const hard = entries.find((e) => e.path === 'src/hard');
+
+    expect(sym?.type).toBe('symlink');
+    expect(sym?.linkTarget).toBe('a.txt');
+    expect(hard?.type).toBe('link');
+    expect(hard?.linkTarget).toBe('src/a.txt');
+  });
+
+  it('round-trips extended attributes in PAX headers', () => {
+    const vfs = new VFS();
+    vfs.mkdir('/src');
+    vfs.writeFile('/src/a.txt', 'aaa');
+    vfs.setxattr('/src/a.txt', 'user.tag', new Uint8Array([0, 10, 255]));
+    vfs.setxattr('/src', 'user.dir', 'yes');
+
+    const parsed = parseTar(createTar(collectFiles(vfs, '/', ['src'])));
+
+    expect(parsed.map((e) => e.path)).toEqual(['src', 'src/a.txt']);
+    expect(parsed[0].xattrs).toEqual({ 'user.dir': encode('yes') });
+    expect(parsed[1].xattrs).toEqual({ 'user.tag': new Uint8Array([0, 10, 255]) });
+    expect(new TextDecoder().decode(parsed[1].data)).toBe('aaa');
+  });
 });
 
 describe('zip', () => {
@@ -124,6 +173,15 @@ describe('zip', () => {
     expect(parsed[1].isDirectory).toBe(false);
   });
 
+  it('round-trips symlinks as Unix link entries', () => {
+    const entries = [{ path: 'link', data: encode('target.txt'), isDirectory: false, isSymlink: true }];
+
+    const parsed = parseZip(createZip(entries));
+
+    expect(parsed[0].isSymlink).toBe(true);
+    expect(new TextDecoder().decode(parsed[0].data)).toBe('target.txt');
+  });
+
   it('throws on invalid zip', () => {
     expect(() => parseZip(new Uint8Array(10))).toThrow('Invalid ZIP');
   });
@@ -292,7 +292,10 @@ class NodeTerminal {
 
   write(data) { process.stdout.write(data); }
   writeln(data) { process.stdout.write(data + '\\r\\n'); }
-  onData(cb) { this.#callbacks.push(cb); }
+  onData(cb) {
+    this.#callbacks.push(cb);
+    return { dispose: () => { this.#callbacks = this.#callbacks.filter((c) => c !== cb); } };
+  }
   get cols() { return process.stdout.columns || 80; }
   get rows() { return process.stdout.rows || 24; }
   focus() {}
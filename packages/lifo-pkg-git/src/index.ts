@@ -1,4 +1,4 @@
-import type { Command, CommandContext, VFS } from '@lifo-sh/core';
+import type { Command, CommandContext, VFS, FileType } from '@lifo-sh/core';
 import { Buffer, resolve, dirname } from '@lifo-sh/core';
 import type { HttpClient } from 'isomorphic-git';
 
@@ -22,7 +22,7 @@ async function loadGit(): Promise<Git> {
 
 function createGitFs(vfs: VFS) {
   interface NodeStat {
-    type: 'file' | 'directory';
+    type: FileType;
     mode: number;
     size: number;
     mtimeMs: number;
@@ -36,14 +36,16 @@ function createGitFs(vfs: VFS) {
     isSymbolicLink(): boolean;
   }
 
-  function toStat(path: string): NodeStat {
-    const s = vfs.stat(path);
+  function toStat(path: string, followLinks = true): NodeStat {
+    const s = followLinks ? vfs.stat(path) : vfs.lstat(path);
     // isomorphic-git expects full POSIX mode with file type bits in upper nibble:
-    // 0o100644 (regular file) or 0o040000 (directory)
+    // 0o100644 (regular file), 0o040000 (directory) or 0o120000 (symlink)
     // VFS stores only permission bits (0o644, 0o755), so we add the type prefix.
     const mode = s.type === 'directory'
       ? 0o040000
-      : (s.mode & 0o777) | 0o100000;
+      : s.type === 'symlink'
+        ? 0o120000
+        : (s.mode & 0o777) | 0o100000;
     return {
       type: s.type,
       mode,
@@ -52,11 +54,11 @@ function createGitFs(vfs: VFS) {
       ctimeMs: s.ctime,
       uid: 1000,
       gid: 1000,
-      ino: 0,
+      ino: s.ino ?? 0,
       dev: 0,
       isFile: () => s.type === 'file',
       isDirectory: () => s.type === 'directory',
-      isSymbolicLink: () => false,
+      isSymbolicLink: () => s.type === 'symlink',
     };
   }
 
@@ -106,13 +108,14 @@ function createGitFs(vfs: VFS) {
       return toStat(path);
     },
     async lstat(path: string) {
-      return toStat(path);
+      return toStat(path, false);
     },
     async readlink(path: string): Promise<string> {
-      throw Object.assign(new Error(`ENOENT: readlink '${path}'`), { code: 'ENOENT' });
+      return vfs.readlink(path);
     },
-    async symlink(_target: string, _path: string): Promise<void> {
-      // no-op: VFS has no symlinks
+    async symlink(target: string, path: string): Promise<void> {
+      ensureParentDirs(path);
+      vfs.symlink(target, path);
     },
     async chmod(_path: string, _mode: number): Promise<void> {
       // no-op
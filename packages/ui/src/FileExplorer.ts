@@ -1,4 +1,5 @@
 import type { VFS } from '@lifo-sh/core';
+import { MIME_XATTR } from '@lifo-sh/core';
 
 // ─── Types ───
 
@@ -626,7 +627,22 @@ const MEDIA_TYPES: Record<string, { tag: 'video' | 'audio' | 'img'; mime: string
   ico: { tag: 'img', mime: 'image/x-icon' },
 };
 
-function getMediaType(path: string): { tag: 'video' | 'audio' | 'img'; mime: string } | null {
+/**
+ * How to preview a file: by the MIME type set in its user.mime_type
+ * attribute if it has one, else by its extension.
+ */
+function getMediaType(vfs: VFS, path: string): { tag: 'video' | 'audio' | 'img'; mime: string } | null {
+  let mime: string | null = null;
+  try {
+    mime = new TextDecoder().decode(vfs.getxattr(path, MIME_XATTR));
+  } catch {
+    // Not set
+  }
+  if (mime) {
+    const tag = mime.startsWith('video/') ? 'video' : mime.startsWith('audio/') ? 'audio' : mime.startsWith('image/') ? 'img' : null;
+    return tag ? { tag, mime } : null;
+  }
+
   const name = basename(path);
   const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
   return MEDIA_TYPES[ext] || null;
@@ -866,7 +882,8 @@ export class FileExplorer {
           this.entries.push({
             name: d.name,
             path: fullPath,
-            type: st.type,
+            // stat follows symlinks, so links show up as what they point to
+            type: st.type === 'directory' ? 'directory' : 'file',
             size: st.size,
             mtime: st.mtime,
             mode: st.mode,
@@ -876,7 +893,7 @@ export class FileExplorer {
           this.entries.push({
             name: d.name,
             path: fullPath,
-            type: d.type,
+            type: d.type === 'directory' ? 'directory' : 'file',
             size: 0,
             mtime: 0,
             mode: 0,
@@ -1048,7 +1065,7 @@ export class FileExplorer {
     viewer.appendChild(header);
 
     // Check if this is a media file
-    const mediaType = getMediaType(path);
+    const mediaType = getMediaType(this.vfs, path);
 
     if (mediaType) {
       // Render media preview (video / audio / image)
@@ -1,7 +1,7 @@
 import { Terminal as XTerminal } from '@xterm/xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebglAddon } from '@xterm/addon-webgl';
-import type { ITerminal } from '@lifo-sh/core';
+import type { ITerminal, IDisposable } from '@lifo-sh/core';
 
 // Tokyo Night theme
 const THEME = {
@@ -73,8 +73,8 @@ export class Terminal implements ITerminal {
     this.xterm.writeln(data);
   }
 
-  onData(callback: (data: string) => void): void {
-    this.xterm.onData(callback);
+  onData(callback: (data: string) => void): IDisposable {
+    return this.xterm.onData(callback);
   }
 
   get cols(): number {